@@ -3,6 +3,10 @@ const nextConfig = {
   images: {
     remotePatterns: [{ hostname: "images.pexels.com" }],
   },
+  experimental: {
+    // Bulk import files are uploaded through a server action
+    serverActions: { bodySizeLimit: "5mb" },
+  },
 };
 
 export default nextConfig;
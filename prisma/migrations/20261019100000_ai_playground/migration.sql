@@ -0,0 +1,206 @@
+-- CreateTable
+CREATE TABLE "AIDocument" (
+    "id" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "description" TEXT,
+    "fileUrl" TEXT,
+    "fileType" TEXT NOT NULL,
+    "subject" TEXT,
+    "gradeLevel" INTEGER,
+    "uploadedBy" TEXT NOT NULL,
+    "uploadedByRole" TEXT NOT NULL,
+    "isPublic" BOOLEAN NOT NULL DEFAULT true,
+    "metadata" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "classId" INTEGER,
+    "subjectId" INTEGER,
+
+    CONSTRAINT "AIDocument_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "AIDocumentChunk" (
+    "id" TEXT NOT NULL,
+    "documentId" TEXT NOT NULL,
+    "content" TEXT NOT NULL,
+    "embedding" TEXT,
+    "chunkIndex" INTEGER NOT NULL,
+    "metadata" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "AIDocumentChunk_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "AIConversation" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "userRole" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "mode" TEXT NOT NULL,
+    "subject" TEXT,
+    "gradeLevel" INTEGER,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "metadata" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "AIConversation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "AIMessage" (
+    "id" TEXT NOT NULL,
+    "conversationId" TEXT NOT NULL,
+    "role" TEXT NOT NULL,
+    "content" TEXT NOT NULL,
+    "toolCalls" JSONB,
+    "retrievedDocs" JSONB,
+    "confidence" DOUBLE PRECISION,
+    "metadata" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "AIMessage_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "AIFeedback" (
+    "id" TEXT NOT NULL,
+    "conversationId" TEXT NOT NULL,
+    "messageId" TEXT,
+    "userId" TEXT NOT NULL,
+    "feedbackType" TEXT NOT NULL,
+    "rating" INTEGER,
+    "comment" TEXT,
+    "correctedAnswer" TEXT,
+    "wasUsedForLearning" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "AIFeedback_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "AIGeneratedContent" (
+    "id" TEXT NOT NULL,
+    "conversationId" TEXT,
+    "createdBy" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "content" JSONB NOT NULL,
+    "format" TEXT,
+    "fileUrl" TEXT,
+    "subject" TEXT,
+    "gradeLevel" INTEGER,
+    "difficulty" TEXT,
+    "metadata" JSONB,
+    "isPublished" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "examId" INTEGER,
+
+    CONSTRAINT "AIGeneratedContent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "AIAnalytics" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT,
+    "eventType" TEXT NOT NULL,
+    "subject" TEXT,
+    "mode" TEXT,
+    "queryText" TEXT,
+    "documentsRetrieved" INTEGER,
+    "responseTime" INTEGER,
+    "tokenUsage" INTEGER,
+    "success" BOOLEAN NOT NULL DEFAULT true,
+    "errorMessage" TEXT,
+    "metadata" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "AIAnalytics_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "AIQueryRefinement" (
+    "id" TEXT NOT NULL,
+    "originalQuery" TEXT NOT NULL,
+    "refinedQuery" TEXT NOT NULL,
+    "subject" TEXT,
+    "mode" TEXT NOT NULL,
+    "improvementScore" DOUBLE PRECISION,
+    "usageCount" INTEGER NOT NULL DEFAULT 0,
+    "lastUsed" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "AIQueryRefinement_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "AIDocument_subject_gradeLevel_idx" ON "AIDocument"("subject", "gradeLevel");
+
+-- CreateIndex
+CREATE INDEX "AIDocument_uploadedBy_idx" ON "AIDocument"("uploadedBy");
+
+-- CreateIndex
+CREATE INDEX "AIDocumentChunk_documentId_idx" ON "AIDocumentChunk"("documentId");
+
+-- CreateIndex
+CREATE INDEX "AIConversation_userId_isActive_idx" ON "AIConversation"("userId", "isActive");
+
+-- CreateIndex
+CREATE INDEX "AIConversation_mode_subject_idx" ON "AIConversation"("mode", "subject");
+
+-- CreateIndex
+CREATE INDEX "AIMessage_conversationId_idx" ON "AIMessage"("conversationId");
+
+-- CreateIndex
+CREATE INDEX "AIFeedback_conversationId_idx" ON "AIFeedback"("conversationId");
+
+-- CreateIndex
+CREATE INDEX "AIFeedback_feedbackType_wasUsedForLearning_idx" ON "AIFeedback"("feedbackType", "wasUsedForLearning");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "AIGeneratedContent_examId_key" ON "AIGeneratedContent"("examId");
+
+-- CreateIndex
+CREATE INDEX "AIGeneratedContent_createdBy_type_idx" ON "AIGeneratedContent"("createdBy", "type");
+
+-- CreateIndex
+CREATE INDEX "AIGeneratedContent_subject_gradeLevel_idx" ON "AIGeneratedContent"("subject", "gradeLevel");
+
+-- CreateIndex
+CREATE INDEX "AIAnalytics_eventType_createdAt_idx" ON "AIAnalytics"("eventType", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "AIAnalytics_userId_createdAt_idx" ON "AIAnalytics"("userId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "AIQueryRefinement_subject_mode_idx" ON "AIQueryRefinement"("subject", "mode");
+
+-- CreateIndex
+CREATE INDEX "AIQueryRefinement_usageCount_idx" ON "AIQueryRefinement"("usageCount");
+
+-- AddForeignKey
+ALTER TABLE "AIDocument" ADD CONSTRAINT "AIDocument_classId_fkey" FOREIGN KEY ("classId") REFERENCES "Class"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "AIDocument" ADD CONSTRAINT "AIDocument_subjectId_fkey" FOREIGN KEY ("subjectId") REFERENCES "Subject"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "AIDocumentChunk" ADD CONSTRAINT "AIDocumentChunk_documentId_fkey" FOREIGN KEY ("documentId") REFERENCES "AIDocument"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "AIMessage" ADD CONSTRAINT "AIMessage_conversationId_fkey" FOREIGN KEY ("conversationId") REFERENCES "AIConversation"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "AIFeedback" ADD CONSTRAINT "AIFeedback_conversationId_fkey" FOREIGN KEY ("conversationId") REFERENCES "AIConversation"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "AIFeedback" ADD CONSTRAINT "AIFeedback_messageId_fkey" FOREIGN KEY ("messageId") REFERENCES "AIMessage"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "AIGeneratedContent" ADD CONSTRAINT "AIGeneratedContent_conversationId_fkey" FOREIGN KEY ("conversationId") REFERENCES "AIConversation"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "AIGeneratedContent" ADD CONSTRAINT "AIGeneratedContent_examId_fkey" FOREIGN KEY ("examId") REFERENCES "Exam"("id") ON DELETE SET NULL ON UPDATE CASCADE;
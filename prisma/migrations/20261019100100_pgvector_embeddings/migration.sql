@@ -0,0 +1,13 @@
+-- CreateExtension
+CREATE EXTENSION IF NOT EXISTS "vector";
+
+-- AlterTable
+-- Existing embeddings are JSON arrays ("[0.1,0.2,...]"), which is also
+-- pgvector's text format, so they cast in place.
+ALTER TABLE "AIDocumentChunk" ALTER COLUMN "embedding" TYPE vector(1536) USING "embedding"::vector(1536);
+
+-- CreateIndex
+CREATE INDEX "AIDocumentChunk_embedding_idx" ON "AIDocumentChunk" USING hnsw ("embedding" vector_cosine_ops);
+
+-- CreateIndex
+CREATE INDEX "AIDocument_classId_idx" ON "AIDocument"("classId");
@@ -0,0 +1,21 @@
+-- CreateEnum
+CREATE TYPE "AttendanceStatus" AS ENUM ('PRESENT', 'ABSENT', 'LATE', 'EXCUSED');
+
+-- AlterTable
+ALTER TABLE "Attendance" ADD COLUMN     "status" "AttendanceStatus" NOT NULL DEFAULT 'PRESENT';
+
+-- Backfill status from the existing present flag
+UPDATE "Attendance" SET "status" = 'ABSENT' WHERE "present" = false;
+
+-- Normalize dates to the day and drop duplicate registers before adding the unique index
+UPDATE "Attendance" SET "date" = date_trunc('day', "date");
+
+DELETE FROM "Attendance" a
+USING "Attendance" b
+WHERE a."studentId" = b."studentId"
+  AND a."lessonId" = b."lessonId"
+  AND a."date" = b."date"
+  AND a."id" > b."id";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Attendance_studentId_lessonId_date_key" ON "Attendance"("studentId", "lessonId", "date");
@@ -0,0 +1,59 @@
+-- AlterTable
+ALTER TABLE "Assignment" ADD COLUMN     "maxScore" INTEGER NOT NULL DEFAULT 100;
+
+-- AlterTable
+ALTER TABLE "Class" ADD COLUMN     "gradeScaleId" INTEGER;
+
+-- AlterTable
+ALTER TABLE "Exam" ADD COLUMN     "maxScore" INTEGER NOT NULL DEFAULT 100;
+
+-- CreateTable
+CREATE TABLE "GradeWeight" (
+    "id" SERIAL NOT NULL,
+    "examWeight" INTEGER NOT NULL,
+    "assignmentWeight" INTEGER NOT NULL,
+    "classId" INTEGER NOT NULL,
+    "subjectId" INTEGER NOT NULL,
+
+    CONSTRAINT "GradeWeight_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "GradeScale" (
+    "id" SERIAL NOT NULL,
+    "name" TEXT NOT NULL,
+    "isDefault" BOOLEAN NOT NULL DEFAULT false,
+
+    CONSTRAINT "GradeScale_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "GradeBand" (
+    "id" SERIAL NOT NULL,
+    "letter" TEXT NOT NULL,
+    "minPercent" DOUBLE PRECISION NOT NULL,
+    "scaleId" INTEGER NOT NULL,
+
+    CONSTRAINT "GradeBand_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "GradeWeight_classId_subjectId_key" ON "GradeWeight"("classId", "subjectId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "GradeScale_name_key" ON "GradeScale"("name");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "GradeBand_scaleId_letter_key" ON "GradeBand"("scaleId", "letter");
+
+-- AddForeignKey
+ALTER TABLE "Class" ADD CONSTRAINT "Class_gradeScaleId_fkey" FOREIGN KEY ("gradeScaleId") REFERENCES "GradeScale"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "GradeWeight" ADD CONSTRAINT "GradeWeight_classId_fkey" FOREIGN KEY ("classId") REFERENCES "Class"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "GradeWeight" ADD CONSTRAINT "GradeWeight_subjectId_fkey" FOREIGN KEY ("subjectId") REFERENCES "Subject"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "GradeBand" ADD CONSTRAINT "GradeBand_scaleId_fkey" FOREIGN KEY ("scaleId") REFERENCES "GradeScale"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,96 @@
+-- DropIndex
+DROP INDEX "Class_name_key";
+
+-- AlterTable
+ALTER TABLE "Class" ADD COLUMN     "academicYearId" INTEGER;
+
+-- AlterTable
+ALTER TABLE "Result" ADD COLUMN     "termId" INTEGER;
+
+-- CreateTable
+CREATE TABLE "AcademicYear" (
+    "id" SERIAL NOT NULL,
+    "name" TEXT NOT NULL,
+    "startDate" TIMESTAMP(3) NOT NULL,
+    "endDate" TIMESTAMP(3) NOT NULL,
+    "isCurrent" BOOLEAN NOT NULL DEFAULT false,
+    "archived" BOOLEAN NOT NULL DEFAULT false,
+
+    CONSTRAINT "AcademicYear_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "Term" (
+    "id" SERIAL NOT NULL,
+    "name" TEXT NOT NULL,
+    "startDate" TIMESTAMP(3) NOT NULL,
+    "endDate" TIMESTAMP(3) NOT NULL,
+    "academicYearId" INTEGER NOT NULL,
+
+    CONSTRAINT "Term_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "Enrollment" (
+    "id" SERIAL NOT NULL,
+    "studentId" TEXT NOT NULL,
+    "classId" INTEGER NOT NULL,
+    "gradeId" INTEGER NOT NULL,
+    "academicYearId" INTEGER NOT NULL,
+
+    CONSTRAINT "Enrollment_pkey" PRIMARY KEY ("id")
+);
+
+-- Existing data becomes the current school year (September to August) with a single term
+INSERT INTO "AcademicYear" ("name", "startDate", "endDate", "isCurrent")
+SELECT to_char("start", 'YYYY') || '-' || to_char("start" + interval '1 year', 'YYYY'),
+       "start",
+       "start" + interval '1 year' - interval '1 day',
+       true
+FROM (SELECT date_trunc('year', now() - interval '8 months') + interval '8 months' AS "start") AS s;
+
+INSERT INTO "Term" ("name", "startDate", "endDate", "academicYearId")
+SELECT 'Term 1', "startDate", "endDate", "id" FROM "AcademicYear";
+
+UPDATE "Class" SET "academicYearId" = (SELECT "id" FROM "AcademicYear" LIMIT 1);
+
+INSERT INTO "Enrollment" ("studentId", "classId", "gradeId", "academicYearId")
+SELECT "id", "classId", "gradeId", (SELECT "id" FROM "AcademicYear" LIMIT 1) FROM "Student";
+
+UPDATE "Result" SET "termId" = (SELECT "id" FROM "Term" LIMIT 1);
+
+-- AlterTable
+ALTER TABLE "Class" ALTER COLUMN "academicYearId" SET NOT NULL;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "AcademicYear_name_key" ON "AcademicYear"("name");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Term_academicYearId_name_key" ON "Term"("academicYearId", "name");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Enrollment_studentId_academicYearId_key" ON "Enrollment"("studentId", "academicYearId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Class_name_academicYearId_key" ON "Class"("name", "academicYearId");
+
+-- AddForeignKey
+ALTER TABLE "Term" ADD CONSTRAINT "Term_academicYearId_fkey" FOREIGN KEY ("academicYearId") REFERENCES "AcademicYear"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Enrollment" ADD CONSTRAINT "Enrollment_studentId_fkey" FOREIGN KEY ("studentId") REFERENCES "Student"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Enrollment" ADD CONSTRAINT "Enrollment_classId_fkey" FOREIGN KEY ("classId") REFERENCES "Class"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Enrollment" ADD CONSTRAINT "Enrollment_gradeId_fkey" FOREIGN KEY ("gradeId") REFERENCES "Grade"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Enrollment" ADD CONSTRAINT "Enrollment_academicYearId_fkey" FOREIGN KEY ("academicYearId") REFERENCES "AcademicYear"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Class" ADD CONSTRAINT "Class_academicYearId_fkey" FOREIGN KEY ("academicYearId") REFERENCES "AcademicYear"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Result" ADD CONSTRAINT "Result_termId_fkey" FOREIGN KEY ("termId") REFERENCES "Term"("id") ON DELETE SET NULL ON UPDATE CASCADE;
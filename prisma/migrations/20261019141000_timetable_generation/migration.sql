@@ -0,0 +1,98 @@
+-- CreateTable
+CREATE TABLE "ClassSubjectHours" (
+    "id" SERIAL NOT NULL,
+    "hoursPerWeek" INTEGER NOT NULL,
+    "classId" INTEGER NOT NULL,
+    "subjectId" INTEGER NOT NULL,
+
+    CONSTRAINT "ClassSubjectHours_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "TeacherUnavailability" (
+    "id" SERIAL NOT NULL,
+    "day" "Day" NOT NULL,
+    "teacherId" TEXT NOT NULL,
+    "periodId" INTEGER NOT NULL,
+
+    CONSTRAINT "TeacherUnavailability_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "TimetableDraft" (
+    "id" SERIAL NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "committedAt" TIMESTAMP(3),
+    "penalty" INTEGER NOT NULL,
+    "unplaced" JSONB NOT NULL,
+
+    CONSTRAINT "TimetableDraft_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "TimetableDraftLesson" (
+    "id" SERIAL NOT NULL,
+    "day" "Day" NOT NULL,
+    "draftId" INTEGER NOT NULL,
+    "periodId" INTEGER NOT NULL,
+    "classId" INTEGER NOT NULL,
+    "subjectId" INTEGER NOT NULL,
+    "teacherId" TEXT NOT NULL,
+    "roomId" INTEGER,
+
+    CONSTRAINT "TimetableDraftLesson_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "_ClassToTimetableDraft" (
+    "A" INTEGER NOT NULL,
+    "B" INTEGER NOT NULL
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ClassSubjectHours_classId_subjectId_key" ON "ClassSubjectHours"("classId", "subjectId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TeacherUnavailability_teacherId_day_periodId_key" ON "TeacherUnavailability"("teacherId", "day", "periodId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "_ClassToTimetableDraft_AB_unique" ON "_ClassToTimetableDraft"("A", "B");
+
+-- CreateIndex
+CREATE INDEX "_ClassToTimetableDraft_B_index" ON "_ClassToTimetableDraft"("B");
+
+-- AddForeignKey
+ALTER TABLE "ClassSubjectHours" ADD CONSTRAINT "ClassSubjectHours_classId_fkey" FOREIGN KEY ("classId") REFERENCES "Class"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ClassSubjectHours" ADD CONSTRAINT "ClassSubjectHours_subjectId_fkey" FOREIGN KEY ("subjectId") REFERENCES "Subject"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TeacherUnavailability" ADD CONSTRAINT "TeacherUnavailability_teacherId_fkey" FOREIGN KEY ("teacherId") REFERENCES "Teacher"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TeacherUnavailability" ADD CONSTRAINT "TeacherUnavailability_periodId_fkey" FOREIGN KEY ("periodId") REFERENCES "Period"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TimetableDraftLesson" ADD CONSTRAINT "TimetableDraftLesson_draftId_fkey" FOREIGN KEY ("draftId") REFERENCES "TimetableDraft"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TimetableDraftLesson" ADD CONSTRAINT "TimetableDraftLesson_periodId_fkey" FOREIGN KEY ("periodId") REFERENCES "Period"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TimetableDraftLesson" ADD CONSTRAINT "TimetableDraftLesson_classId_fkey" FOREIGN KEY ("classId") REFERENCES "Class"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TimetableDraftLesson" ADD CONSTRAINT "TimetableDraftLesson_subjectId_fkey" FOREIGN KEY ("subjectId") REFERENCES "Subject"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TimetableDraftLesson" ADD CONSTRAINT "TimetableDraftLesson_teacherId_fkey" FOREIGN KEY ("teacherId") REFERENCES "Teacher"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TimetableDraftLesson" ADD CONSTRAINT "TimetableDraftLesson_roomId_fkey" FOREIGN KEY ("roomId") REFERENCES "Room"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "_ClassToTimetableDraft" ADD CONSTRAINT "_ClassToTimetableDraft_A_fkey" FOREIGN KEY ("A") REFERENCES "Class"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "_ClassToTimetableDraft" ADD CONSTRAINT "_ClassToTimetableDraft_B_fkey" FOREIGN KEY ("B") REFERENCES "TimetableDraft"("id") ON DELETE CASCADE ON UPDATE CASCADE;
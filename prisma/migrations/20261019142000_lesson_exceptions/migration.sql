@@ -0,0 +1,38 @@
+-- AlterTable
+ALTER TABLE "Lesson" ADD COLUMN     "validFrom" TIMESTAMP(3),
+ADD COLUMN     "validUntil" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "LessonException" (
+    "id" SERIAL NOT NULL,
+    "date" TIMESTAMP(3) NOT NULL,
+    "cancelled" BOOLEAN NOT NULL DEFAULT false,
+    "reason" TEXT,
+    "lessonId" INTEGER NOT NULL,
+    "substituteTeacherId" TEXT,
+    "roomId" INTEGER,
+
+    CONSTRAINT "LessonException_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "Holiday" (
+    "id" SERIAL NOT NULL,
+    "name" TEXT NOT NULL,
+    "startDate" TIMESTAMP(3) NOT NULL,
+    "endDate" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Holiday_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "LessonException_lessonId_date_key" ON "LessonException"("lessonId", "date");
+
+-- AddForeignKey
+ALTER TABLE "LessonException" ADD CONSTRAINT "LessonException_lessonId_fkey" FOREIGN KEY ("lessonId") REFERENCES "Lesson"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "LessonException" ADD CONSTRAINT "LessonException_substituteTeacherId_fkey" FOREIGN KEY ("substituteTeacherId") REFERENCES "Teacher"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "LessonException" ADD CONSTRAINT "LessonException_roomId_fkey" FOREIGN KEY ("roomId") REFERENCES "Room"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,46 @@
+-- CreateEnum
+CREATE TYPE "ImportEntity" AS ENUM ('STUDENT', 'TEACHER', 'PARENT', 'CLASS');
+
+-- CreateEnum
+CREATE TYPE "ImportStatus" AS ENUM ('UPLOADED', 'VALIDATED', 'PARTIAL', 'COMPLETED');
+
+-- CreateEnum
+CREATE TYPE "ImportAction" AS ENUM ('CREATE', 'UPDATE');
+
+-- CreateEnum
+CREATE TYPE "ImportRowStatus" AS ENUM ('INVALID', 'READY', 'DONE', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "ImportJob" (
+    "id" SERIAL NOT NULL,
+    "entity" "ImportEntity" NOT NULL,
+    "fileName" TEXT NOT NULL,
+    "headers" TEXT[],
+    "rows" JSONB NOT NULL,
+    "mapping" JSONB,
+    "status" "ImportStatus" NOT NULL DEFAULT 'UPLOADED',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ImportJob_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ImportRow" (
+    "id" SERIAL NOT NULL,
+    "index" INTEGER NOT NULL,
+    "label" TEXT NOT NULL,
+    "action" "ImportAction",
+    "status" "ImportRowStatus" NOT NULL,
+    "errors" TEXT[],
+    "recordId" TEXT,
+    "jobId" INTEGER NOT NULL,
+
+    CONSTRAINT "ImportRow_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ImportRow_jobId_index_key" ON "ImportRow"("jobId", "index");
+
+-- AddForeignKey
+ALTER TABLE "ImportRow" ADD CONSTRAINT "ImportRow_jobId_fkey" FOREIGN KEY ("jobId") REFERENCES "ImportJob"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,69 @@
+-- CreateTable
+CREATE TABLE "ReportCardTemplate" (
+    "id" SERIAL NOT NULL,
+    "name" TEXT NOT NULL,
+    "isDefault" BOOLEAN NOT NULL DEFAULT false,
+    "heading" TEXT NOT NULL,
+    "footer" TEXT,
+    "showCategories" BOOLEAN NOT NULL DEFAULT true,
+    "showAttendance" BOOLEAN NOT NULL DEFAULT true,
+    "showRank" BOOLEAN NOT NULL DEFAULT true,
+
+    CONSTRAINT "ReportCardTemplate_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ReportCard" (
+    "id" SERIAL NOT NULL,
+    "summary" JSONB NOT NULL,
+    "supervisorComment" TEXT,
+    "generatedAt" TIMESTAMP(3) NOT NULL,
+    "releaseDate" TIMESTAMP(3),
+    "studentId" TEXT NOT NULL,
+    "termId" INTEGER NOT NULL,
+    "classId" INTEGER NOT NULL,
+    "templateId" INTEGER NOT NULL,
+
+    CONSTRAINT "ReportCard_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ReportCardComment" (
+    "id" SERIAL NOT NULL,
+    "comment" TEXT NOT NULL,
+    "reportCardId" INTEGER NOT NULL,
+    "subjectId" INTEGER NOT NULL,
+    "teacherId" TEXT NOT NULL,
+
+    CONSTRAINT "ReportCardComment_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ReportCardTemplate_name_key" ON "ReportCardTemplate"("name");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ReportCard_studentId_termId_key" ON "ReportCard"("studentId", "termId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ReportCardComment_reportCardId_subjectId_key" ON "ReportCardComment"("reportCardId", "subjectId");
+
+-- AddForeignKey
+ALTER TABLE "ReportCard" ADD CONSTRAINT "ReportCard_studentId_fkey" FOREIGN KEY ("studentId") REFERENCES "Student"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ReportCard" ADD CONSTRAINT "ReportCard_termId_fkey" FOREIGN KEY ("termId") REFERENCES "Term"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ReportCard" ADD CONSTRAINT "ReportCard_classId_fkey" FOREIGN KEY ("classId") REFERENCES "Class"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ReportCard" ADD CONSTRAINT "ReportCard_templateId_fkey" FOREIGN KEY ("templateId") REFERENCES "ReportCardTemplate"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ReportCardComment" ADD CONSTRAINT "ReportCardComment_reportCardId_fkey" FOREIGN KEY ("reportCardId") REFERENCES "ReportCard"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ReportCardComment" ADD CONSTRAINT "ReportCardComment_subjectId_fkey" FOREIGN KEY ("subjectId") REFERENCES "Subject"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ReportCardComment" ADD CONSTRAINT "ReportCardComment_teacherId_fkey" FOREIGN KEY ("teacherId") REFERENCES "Teacher"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "Class" ADD COLUMN     "deletedAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "Student" ADD COLUMN     "deletedAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "Teacher" ADD COLUMN     "deletedAt" TIMESTAMP(3);
@@ -0,0 +1,50 @@
+-- CreateEnum
+CREATE TYPE "GuardianRelationship" AS ENUM ('PARENT', 'MOTHER', 'FATHER', 'STEPMOTHER', 'STEPFATHER', 'GRANDPARENT', 'SIBLING', 'FOSTER_PARENT', 'LEGAL_GUARDIAN', 'OTHER');
+
+-- CreateTable
+CREATE TABLE "Guardian" (
+    "id" SERIAL NOT NULL,
+    "relationship" "GuardianRelationship" NOT NULL DEFAULT 'PARENT',
+    "isPrimary" BOOLEAN NOT NULL DEFAULT false,
+    "hasCustody" BOOLEAN NOT NULL DEFAULT true,
+    "canPickUp" BOOLEAN NOT NULL DEFAULT true,
+    "isEmergencyContact" BOOLEAN NOT NULL DEFAULT true,
+    "studentId" TEXT NOT NULL,
+    "parentId" TEXT NOT NULL,
+
+    CONSTRAINT "Guardian_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "EmergencyContact" (
+    "id" SERIAL NOT NULL,
+    "name" TEXT NOT NULL,
+    "relationship" TEXT NOT NULL,
+    "phone" TEXT NOT NULL,
+    "priority" INTEGER NOT NULL DEFAULT 1,
+    "studentId" TEXT NOT NULL,
+
+    CONSTRAINT "EmergencyContact_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Guardian_studentId_parentId_key" ON "Guardian"("studentId", "parentId");
+
+-- AddForeignKey
+ALTER TABLE "Guardian" ADD CONSTRAINT "Guardian_studentId_fkey" FOREIGN KEY ("studentId") REFERENCES "Student"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Guardian" ADD CONSTRAINT "Guardian_parentId_fkey" FOREIGN KEY ("parentId") REFERENCES "Parent"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "EmergencyContact" ADD CONSTRAINT "EmergencyContact_studentId_fkey" FOREIGN KEY ("studentId") REFERENCES "Student"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Every student's parent becomes their primary guardian
+INSERT INTO "Guardian" ("studentId", "parentId", "isPrimary")
+SELECT "id", "parentId", true FROM "Student";
+
+-- DropForeignKey
+ALTER TABLE "Student" DROP CONSTRAINT "Student_parentId_fkey";
+
+-- AlterTable
+ALTER TABLE "Student" DROP COLUMN "parentId";
@@ -0,0 +1,44 @@
+-- AlterTable
+ALTER TABLE "Assignment" ADD COLUMN     "allowLate" BOOLEAN NOT NULL DEFAULT true,
+ADD COLUMN     "maxAttempts" INTEGER NOT NULL DEFAULT 1;
+
+-- CreateTable
+CREATE TABLE "Submission" (
+    "id" SERIAL NOT NULL,
+    "text" TEXT,
+    "attempt" INTEGER NOT NULL DEFAULT 1,
+    "submittedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "score" INTEGER,
+    "feedback" TEXT,
+    "gradedAt" TIMESTAMP(3),
+    "gradedBy" TEXT,
+    "assignmentId" INTEGER NOT NULL,
+    "studentId" TEXT NOT NULL,
+
+    CONSTRAINT "Submission_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "SubmissionFile" (
+    "id" SERIAL NOT NULL,
+    "name" TEXT NOT NULL,
+    "url" TEXT NOT NULL,
+    "submissionId" INTEGER NOT NULL,
+
+    CONSTRAINT "SubmissionFile_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Submission_gradedAt_idx" ON "Submission"("gradedAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Submission_assignmentId_studentId_key" ON "Submission"("assignmentId", "studentId");
+
+-- AddForeignKey
+ALTER TABLE "Submission" ADD CONSTRAINT "Submission_assignmentId_fkey" FOREIGN KEY ("assignmentId") REFERENCES "Assignment"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Submission" ADD CONSTRAINT "Submission_studentId_fkey" FOREIGN KEY ("studentId") REFERENCES "Student"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SubmissionFile" ADD CONSTRAINT "SubmissionFile_submissionId_fkey" FOREIGN KEY ("submissionId") REFERENCES "Submission"("id") ON DELETE CASCADE ON UPDATE CASCADE;
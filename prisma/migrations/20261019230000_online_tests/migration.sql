@@ -0,0 +1,24 @@
+-- CreateTable
+CREATE TABLE "TestAttempt" (
+    "id" SERIAL NOT NULL,
+    "layout" JSONB NOT NULL,
+    "answers" JSONB NOT NULL DEFAULT '{}',
+    "marks" JSONB,
+    "score" INTEGER,
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "savedAt" TIMESTAMP(3),
+    "submittedAt" TIMESTAMP(3),
+    "examId" INTEGER NOT NULL,
+    "studentId" TEXT NOT NULL,
+
+    CONSTRAINT "TestAttempt_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TestAttempt_examId_studentId_key" ON "TestAttempt"("examId", "studentId");
+
+-- AddForeignKey
+ALTER TABLE "TestAttempt" ADD CONSTRAINT "TestAttempt_examId_fkey" FOREIGN KEY ("examId") REFERENCES "Exam"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TestAttempt" ADD CONSTRAINT "TestAttempt_studentId_fkey" FOREIGN KEY ("studentId") REFERENCES "Student"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,102 @@
+-- AlterTable
+ALTER TABLE "Assignment" ADD COLUMN     "rubricId" INTEGER;
+
+-- CreateTable
+CREATE TABLE "Rubric" (
+    "id" SERIAL NOT NULL,
+    "title" TEXT NOT NULL,
+    "description" TEXT,
+    "createdBy" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Rubric_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "RubricCriterion" (
+    "id" SERIAL NOT NULL,
+    "title" TEXT NOT NULL,
+    "description" TEXT,
+    "position" INTEGER NOT NULL DEFAULT 0,
+    "rubricId" INTEGER NOT NULL,
+
+    CONSTRAINT "RubricCriterion_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "RubricLevel" (
+    "id" SERIAL NOT NULL,
+    "title" TEXT NOT NULL,
+    "description" TEXT,
+    "points" INTEGER NOT NULL,
+    "criterionId" INTEGER NOT NULL,
+
+    CONSTRAINT "RubricLevel_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "QuestionRubric" (
+    "id" SERIAL NOT NULL,
+    "questionId" TEXT NOT NULL,
+    "contentId" TEXT NOT NULL,
+    "rubricId" INTEGER NOT NULL,
+
+    CONSTRAINT "QuestionRubric_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "RubricScore" (
+    "id" SERIAL NOT NULL,
+    "points" INTEGER,
+    "gradedAt" TIMESTAMP(3),
+    "gradedBy" TEXT,
+    "justification" TEXT,
+    "suggestedAt" TIMESTAMP(3),
+    "criterionId" INTEGER NOT NULL,
+    "levelId" INTEGER,
+    "suggestedLevelId" INTEGER,
+    "submissionId" INTEGER,
+    "attemptId" INTEGER,
+    "questionId" TEXT,
+
+    CONSTRAINT "RubricScore_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "QuestionRubric_contentId_questionId_key" ON "QuestionRubric"("contentId", "questionId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RubricScore_criterionId_submissionId_key" ON "RubricScore"("criterionId", "submissionId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RubricScore_criterionId_attemptId_questionId_key" ON "RubricScore"("criterionId", "attemptId", "questionId");
+
+-- AddForeignKey
+ALTER TABLE "Assignment" ADD CONSTRAINT "Assignment_rubricId_fkey" FOREIGN KEY ("rubricId") REFERENCES "Rubric"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RubricCriterion" ADD CONSTRAINT "RubricCriterion_rubricId_fkey" FOREIGN KEY ("rubricId") REFERENCES "Rubric"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RubricLevel" ADD CONSTRAINT "RubricLevel_criterionId_fkey" FOREIGN KEY ("criterionId") REFERENCES "RubricCriterion"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "QuestionRubric" ADD CONSTRAINT "QuestionRubric_contentId_fkey" FOREIGN KEY ("contentId") REFERENCES "AIGeneratedContent"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "QuestionRubric" ADD CONSTRAINT "QuestionRubric_rubricId_fkey" FOREIGN KEY ("rubricId") REFERENCES "Rubric"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RubricScore" ADD CONSTRAINT "RubricScore_criterionId_fkey" FOREIGN KEY ("criterionId") REFERENCES "RubricCriterion"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RubricScore" ADD CONSTRAINT "RubricScore_levelId_fkey" FOREIGN KEY ("levelId") REFERENCES "RubricLevel"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RubricScore" ADD CONSTRAINT "RubricScore_suggestedLevelId_fkey" FOREIGN KEY ("suggestedLevelId") REFERENCES "RubricLevel"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RubricScore" ADD CONSTRAINT "RubricScore_submissionId_fkey" FOREIGN KEY ("submissionId") REFERENCES "Submission"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RubricScore" ADD CONSTRAINT "RubricScore_attemptId_fkey" FOREIGN KEY ("attemptId") REFERENCES "TestAttempt"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,20 @@
+-- Keep the latest of a student's duplicate results for an assignment. The others
+-- are recorded as deleted in the audit log, where an admin can look them up.
+INSERT INTO "AuditLog" ("entity", "recordId", "action", "before", "changes")
+SELECT 'Result', "duplicate"."id"::text, 'DELETE', to_jsonb("duplicate"), '{}'
+FROM "Result" AS "duplicate"
+WHERE EXISTS (
+  SELECT 1 FROM "Result" AS "latest"
+  WHERE "latest"."assignmentId" = "duplicate"."assignmentId"
+    AND "latest"."studentId" = "duplicate"."studentId"
+    AND "latest"."id" > "duplicate"."id"
+);
+
+DELETE FROM "Result" AS "duplicate"
+USING "Result" AS "latest"
+WHERE "duplicate"."assignmentId" = "latest"."assignmentId"
+  AND "duplicate"."studentId" = "latest"."studentId"
+  AND "duplicate"."id" < "latest"."id";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Result_assignmentId_studentId_key" ON "Result"("assignmentId", "studentId");
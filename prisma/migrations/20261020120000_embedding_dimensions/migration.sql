@@ -0,0 +1,13 @@
+-- DropIndex
+DROP INDEX "AIDocumentChunk_embedding_idx";
+
+-- AlterTable
+-- The column takes embeddings of any size, so another embedding model needs
+-- no migration. Queries cast it to AI_SETTINGS.embeddingDimensions.
+ALTER TABLE "AIDocumentChunk" ALTER COLUMN "embedding" TYPE vector;
+
+-- CreateIndex
+-- HNSW indexes a fixed size. This migration assumes the default 1536
+-- dimensions; with another AI_EMBEDDING_DIMENSIONS run `npm run ai:reembed`,
+-- which rebuilds the index for the configured size.
+CREATE INDEX "AIDocumentChunk_embedding_idx" ON "AIDocumentChunk" USING hnsw (("embedding"::vector(1536)) vector_cosine_ops) WHERE vector_dims("embedding") = 1536;
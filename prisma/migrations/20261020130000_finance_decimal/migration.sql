@@ -0,0 +1,16 @@
+-- AlterTable
+-- Amounts become exact decimals, rounded to the cent
+ALTER TABLE "FeeStructure" ALTER COLUMN "amount" SET DATA TYPE DECIMAL(12,2);
+
+-- AlterTable
+ALTER TABLE "Discount" ALTER COLUMN "percent" SET DATA TYPE DECIMAL(5,2);
+
+-- AlterTable
+ALTER TABLE "Invoice" ALTER COLUMN "amount" SET DATA TYPE DECIMAL(12,2),
+ALTER COLUMN "discount" SET DATA TYPE DECIMAL(12,2);
+
+-- AlterTable
+ALTER TABLE "Payment" ALTER COLUMN "amount" SET DATA TYPE DECIMAL(12,2);
+
+-- AlterTable
+ALTER TABLE "Expense" ALTER COLUMN "amount" SET DATA TYPE DECIMAL(12,2);
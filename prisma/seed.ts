@@ -1,4 +1,4 @@
-import { Day, PrismaClient, UserSex } from "@prisma/client";
+import { Day, GuardianRelationship, PrismaClient, UserSex } from "@prisma/client";
 const prisma = new PrismaClient();
 
 async function main() {
@@ -25,12 +25,39 @@ async function main() {
     });
   }
 
+  // ACADEMIC YEAR
+  const yearStart = new Date(new Date().getFullYear(), 0, 1);
+  const yearEnd = new Date(new Date().getFullYear(), 11, 31);
+  await prisma.academicYear.create({
+    data: {
+      name: `${yearStart.getFullYear()}`,
+      startDate: yearStart,
+      endDate: yearEnd,
+      isCurrent: true,
+      terms: {
+        create: [
+          {
+            name: "Term 1",
+            startDate: yearStart,
+            endDate: new Date(yearStart.getFullYear(), 5, 30),
+          },
+          {
+            name: "Term 2",
+            startDate: new Date(yearStart.getFullYear(), 6, 1),
+            endDate: yearEnd,
+          },
+        ],
+      },
+    },
+  });
+
   // CLASS
   for (let i = 1; i <= 6; i++) {
     await prisma.class.create({
       data: {
         name: `${i}A`, 
         gradeId: i, 
+        academicYearId: 1, 
         capacity: Math.floor(Math.random() * (20 - 15 + 1)) + 15,
       },
     });
@@ -74,6 +101,48 @@ async function main() {
     });
   }
 
+  // PERIOD
+  const periodTimes = [
+    ["08:00", "08:45"],
+    ["08:50", "09:35"],
+    ["09:50", "10:35"],
+    ["10:40", "11:25"],
+    ["11:30", "12:15"],
+    ["13:00", "13:45"],
+  ];
+  for (let i = 0; i < periodTimes.length; i++) {
+    await prisma.period.create({
+      data: {
+        name: `Period ${i + 1}`,
+        startTime: periodTimes[i][0],
+        endTime: periodTimes[i][1],
+      },
+    });
+  }
+
+  // ROOM
+  for (let i = 1; i <= 8; i++) {
+    await prisma.room.create({
+      data: {
+        name: `Room ${100 + i}`,
+        capacity: 30,
+      },
+    });
+  }
+
+  // SUBJECT HOURS
+  for (let i = 1; i <= 6; i++) {
+    for (let j = 1; j <= 10; j++) {
+      await prisma.classSubjectHours.create({
+        data: {
+          classId: i,
+          subjectId: j,
+          hoursPerWeek: j <= 3 ? 4 : 2,
+        },
+      });
+    }
+  }
+
   // LESSON
   for (let i = 1; i <= 30; i++) {
     await prisma.lesson.create({
@@ -121,9 +190,33 @@ async function main() {
         address: `Address${i}`,
         bloodType: "O-",
         sex: i % 2 === 0 ? UserSex.MALE : UserSex.FEMALE,
-        parentId: `parentId${Math.ceil(i / 2) % 25 || 25}`, 
+        guardians: {
+          create: [
+            {
+              parentId: `parentId${Math.ceil(i / 2) % 25 || 25}`,
+              isPrimary: true,
+            },
+            // Some have a second guardian who can't pick them up
+            ...(i % 10 === 0
+              ? [
+                  {
+                    parentId: `parentId${(Math.ceil(i / 2) % 25) + 1}`,
+                    relationship: GuardianRelationship.STEPFATHER,
+                    canPickUp: false,
+                  },
+                ]
+              : []),
+          ],
+        },
         gradeId: (i % 6) + 1, 
         classId: (i % 6) + 1, 
+        enrollments: {
+          create: {
+            gradeId: (i % 6) + 1,
+            classId: (i % 6) + 1,
+            academicYearId: 1,
+          },
+        },
         birthday: new Date(new Date().setFullYear(new Date().getFullYear() - 10)),
       },
     });
@@ -159,6 +252,7 @@ async function main() {
       data: {
         score: 90, 
         studentId: `student${i}`, 
+        termId: new Date().getMonth() < 6 ? 1 : 2, 
         ...(i <= 5 ? { examId: i } : { assignmentId: i - 5 }), 
       },
     });
@@ -168,7 +262,8 @@ async function main() {
   for (let i = 1; i <= 10; i++) {
     await prisma.attendance.create({
       data: {
-        date: new Date(), 
+        date: new Date(new Date().setUTCHours(0, 0, 0, 0)), 
+        status: "PRESENT", 
         present: true, 
         studentId: `student${i}`, 
         lessonId: (i % 30) + 1, 
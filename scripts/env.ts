@@ -0,0 +1,5 @@
+import { loadEnvConfig } from "@next/env";
+
+// Loads .env files the way `next` does. Imported first, as settings are read
+// when their modules load
+loadEnvConfig(process.cwd());
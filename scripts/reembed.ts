@@ -0,0 +1,25 @@
+import "./env";
+import prisma from "@/lib/prisma";
+import { AI_SETTINGS } from "@/lib/settings";
+import { reembedLibrary } from "@/lib/ai/utils/vector-store";
+
+// Re-embeds the AI library with the configured embedding model and size,
+// after AI_EMBEDDING_MODEL or AI_EMBEDDING_DIMENSIONS changed
+async function main() {
+  console.log(
+    `Re-embedding with ${AI_SETTINGS.embeddingModel} ` +
+      `(${AI_SETTINGS.embeddingDimensions} dimensions)`
+  );
+  const { chunksReembedded } = await reembedLibrary();
+  console.log(`Done, ${chunksReembedded} chunks re-embedded`);
+}
+
+main()
+  .then(async () => {
+    await prisma.$disconnect();
+  })
+  .catch(async (e) => {
+    console.error(e);
+    await prisma.$disconnect();
+    process.exit(1);
+  });
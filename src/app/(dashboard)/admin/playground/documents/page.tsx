@@ -0,0 +1,154 @@
+import Pagination from "@/components/Pagination";
+import Table from "@/components/Table";
+import TableSearch from "@/components/TableSearch";
+import AIDocumentActions from "@/components/ai/AIDocumentActions";
+import AIDocumentUpload from "@/components/ai/AIDocumentUpload";
+import prisma from "@/lib/prisma";
+import { ITEM_PER_PAGE } from "@/lib/settings";
+import { AIDocument, Class, Prisma } from "@prisma/client";
+
+type DocumentList = AIDocument & {
+  class: Pick<Class, "name"> | null;
+  _count: { chunks: number };
+};
+
+const AdminDocumentsPage = async ({
+  searchParams,
+}: {
+  searchParams: { [key: string]: string | undefined };
+}) => {
+  const columns = [
+    {
+      header: "Title",
+      accessor: "title",
+    },
+    {
+      header: "Subject",
+      accessor: "subject",
+      className: "hidden md:table-cell",
+    },
+    {
+      header: "Grade",
+      accessor: "gradeLevel",
+      className: "hidden md:table-cell",
+    },
+    {
+      header: "Class",
+      accessor: "class",
+      className: "hidden lg:table-cell",
+    },
+    {
+      header: "Uploaded by",
+      accessor: "uploadedByRole",
+      className: "hidden lg:table-cell",
+    },
+    {
+      header: "Chunks",
+      accessor: "chunks",
+      className: "hidden md:table-cell",
+    },
+    {
+      header: "Visibility",
+      accessor: "isPublic",
+    },
+    {
+      header: "Actions",
+      accessor: "action",
+    },
+  ];
+
+  const renderRow = (item: DocumentList) => (
+    <tr
+      key={item.id}
+      className="border-b border-gray-200 even:bg-slate-50 text-sm hover:bg-lamaPurpleLight"
+    >
+      <td className="p-4">
+        <div className="flex flex-col">
+          <span className="font-semibold">{item.title}</span>
+          <span className="text-xs text-gray-500">
+            {item.fileType} ·{" "}
+            {new Intl.DateTimeFormat("en-US").format(item.createdAt)}
+          </span>
+        </div>
+      </td>
+      <td className="hidden md:table-cell">{item.subject ?? "-"}</td>
+      <td className="hidden md:table-cell">{item.gradeLevel ?? "-"}</td>
+      <td className="hidden lg:table-cell">{item.class?.name ?? "-"}</td>
+      <td className="hidden lg:table-cell capitalize">{item.uploadedByRole}</td>
+      <td className="hidden md:table-cell">{item._count.chunks}</td>
+      <td>{item.isPublic ? "Public" : "Private"}</td>
+      <td>
+        <AIDocumentActions documentId={item.id} isPublic={item.isPublic} />
+      </td>
+    </tr>
+  );
+
+  const { page, ...queryParams } = searchParams;
+
+  const p = page ? parseInt(page) : 1;
+
+  // URL PARAMS CONDITION
+
+  const query: Prisma.AIDocumentWhereInput = {};
+
+  if (queryParams) {
+    for (const [key, value] of Object.entries(queryParams)) {
+      if (value !== undefined) {
+        switch (key) {
+          case "subject":
+            query.subject = value;
+            break;
+          case "visibility":
+            query.isPublic = value === "public";
+            break;
+          case "search":
+            query.OR = [
+              { title: { contains: value, mode: "insensitive" } },
+              { description: { contains: value, mode: "insensitive" } },
+            ];
+            break;
+          default:
+            break;
+        }
+      }
+    }
+  }
+
+  const [data, count] = await prisma.$transaction([
+    prisma.aIDocument.findMany({
+      where: query,
+      include: {
+        class: { select: { name: true } },
+        _count: { select: { chunks: true } },
+      },
+      orderBy: { createdAt: "desc" },
+      take: ITEM_PER_PAGE,
+      skip: ITEM_PER_PAGE * (p - 1),
+    }),
+    prisma.aIDocument.count({ where: query }),
+  ]);
+
+  return (
+    <div className="flex-1 p-4 flex flex-col gap-4 xl:flex-row">
+      <div className="bg-white p-4 rounded-md flex-1">
+        {/* TOP */}
+        <div className="flex items-center justify-between">
+          <h1 className="hidden md:block text-lg font-semibold">
+            Document Library
+          </h1>
+          <TableSearch />
+        </div>
+        {/* LIST */}
+        <Table columns={columns} renderRow={renderRow} data={data} />
+        {/* PAGINATION */}
+        <Pagination page={p} count={count} />
+      </div>
+      <div className="w-full xl:w-1/3 bg-white p-4 rounded-md h-fit">
+        <h2 className="text-lg font-semibold mb-3">Upload Document</h2>
+        <AIDocumentUpload />
+      </div>
+    </div>
+  );
+};
+
+export default AdminDocumentsPage;
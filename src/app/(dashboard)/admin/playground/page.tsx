@@ -0,0 +1,78 @@
+import { auth } from "@clerk/nextjs/server";
+import { redirect } from "next/navigation";
+import AIPlaygroundStudent from "@/components/ai/AIPlaygroundStudent";
+import prisma from "@/lib/prisma";
+import Link from "next/link";
+
+export default async function AdminPlaygroundPage() {
+  const { userId } = await auth();
+
+  if (!userId) {
+    redirect("/sign-in");
+  }
+
+  const [documents, publicDocuments, conversations] = await prisma.$transaction([
+    prisma.aIDocument.count(),
+    prisma.aIDocument.count({ where: { isPublic: true } }),
+    prisma.aIConversation.count(),
+  ]);
+
+  return (
+    <div className="flex-1 p-4 flex flex-col gap-4">
+      {/* Header */}
+      <div className="bg-white p-4 rounded-md flex justify-between items-center">
+        <div>
+          <h1 className="text-xl font-semibold">🤖 AI Playground</h1>
+          <p className="text-sm text-gray-500">
+            Try the assistant and manage the school&apos;s knowledge base
+          </p>
+        </div>
+        <Link
+          href="/admin/playground/documents"
+          className="px-4 py-2 bg-lamaSky text-white rounded-md hover:bg-blue-600 text-sm"
+        >
+          📚 Document Library
+        </Link>
+      </div>
+
+      {/* Main Content */}
+      <div className="flex gap-4 xl:flex-row flex-col">
+        <div className="w-full xl:w-2/3">
+          <div className="bg-white p-4 rounded-md h-[calc(100vh-250px)]">
+            <AIPlaygroundStudent userId={userId} />
+          </div>
+        </div>
+
+        {/* Sidebar */}
+        <div className="w-full xl:w-1/3 flex flex-col gap-4">
+          <div className="bg-white p-4 rounded-md">
+            <h2 className="text-lg font-semibold mb-3">📊 Knowledge Base</h2>
+            <div className="space-y-2 text-sm">
+              <div className="flex justify-between">
+                <span className="text-gray-600">Documents</span>
+                <span className="font-semibold">{documents}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray-600">Visible to students</span>
+                <span className="font-semibold">{publicDocuments}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray-600">Conversations</span>
+                <span className="font-semibold">{conversations}</span>
+              </div>
+            </div>
+          </div>
+
+          <div className="bg-lamaSkyLight p-4 rounded-md">
+            <h2 className="text-lg font-semibold mb-3">💡 Tips</h2>
+            <ul className="space-y-2 text-sm text-gray-700">
+              <li>• Admins see every document, public or private</li>
+              <li>• Students and parents only search public documents</li>
+              <li>• Tag documents with a subject and grade to sharpen answers</li>
+            </ul>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,119 @@
+import CoverAssignment from "@/components/CoverAssignment";
+import { getAbsenceCover } from "@/lib/substitution";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+
+const AbsenceCoverPage = async ({
+  params: { id },
+}: {
+  params: { id: string };
+}) => {
+  const cover = await getAbsenceCover(parseInt(id));
+
+  if (!cover) {
+    return notFound();
+  }
+
+  const { absence, needs } = cover;
+
+  const formatDate = (date: Date) =>
+    new Intl.DateTimeFormat("en-US", {
+      timeZone: "UTC",
+      weekday: "short",
+      month: "short",
+      day: "numeric",
+    }).format(date);
+
+  const formatTime = (date: Date) =>
+    date.toLocaleTimeString("en-US", {
+      hour: "2-digit",
+      minute: "2-digit",
+      hour12: false,
+    });
+
+  const uncovered = needs.filter(
+    (need) => !need.exception?.cancelled && !need.exception?.substituteTeacher
+  ).length;
+
+  return (
+    <div className="bg-white p-4 rounded-md flex-1 m-4 mt-0 flex flex-col gap-4">
+      {/* TOP */}
+      <div className="flex items-center justify-between">
+        <div className="flex flex-col">
+          <h1 className="text-lg font-semibold">
+            Cover for {absence.teacher.name + " " + absence.teacher.surname}
+          </h1>
+          <span className="text-xs text-gray-500">
+            {formatDate(absence.startDate)} - {formatDate(absence.endDate)}
+            {absence.reason ? ` · ${absence.reason}` : ""}
+          </span>
+        </div>
+        <Link href="/list/absences" className="text-blue-500 text-sm">
+          All absences
+        </Link>
+      </div>
+      <span className="text-sm">
+        {needs.length} lessons, {uncovered} without cover.
+      </span>
+      {/* LESSONS */}
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-gray-500">
+            <th className="p-2">Date</th>
+            <th className="p-2">Lesson</th>
+            <th className="p-2 hidden md:table-cell">Class</th>
+            <th className="p-2">Status</th>
+            <th className="p-2">Substitute</th>
+          </tr>
+        </thead>
+        <tbody>
+          {needs.map(({ lesson, date, start, end, exception, suggestions }) => (
+            <tr
+              key={`${lesson.id}-${date.getTime()}`}
+              className="border-b border-gray-200 even:bg-slate-50"
+            >
+              <td className="p-2">
+                <div>{formatDate(date)}</div>
+                <div className="text-xs text-gray-400">
+                  {formatTime(start)}-{formatTime(end)}
+                </div>
+              </td>
+              <td className="p-2">{lesson.name}</td>
+              <td className="p-2 hidden md:table-cell">{lesson.class.name}</td>
+              <td className="p-2">
+                {exception?.cancelled ? (
+                  <span className="text-gray-500">Cancelled</span>
+                ) : exception?.substituteTeacher ? (
+                  <span className="text-green-600">
+                    Covered by{" "}
+                    {exception.substituteTeacher.name +
+                      " " +
+                      exception.substituteTeacher.surname}
+                  </span>
+                ) : (
+                  <span className="text-red-500">No cover</span>
+                )}
+              </td>
+              <td className="p-2">
+                <CoverAssignment
+                  lessonId={lesson.id}
+                  date={date.toISOString()}
+                  substituteTeacherId={exception?.substituteTeacherId ?? null}
+                  cancelled={!!exception?.cancelled}
+                  suggestions={suggestions}
+                />
+                {!suggestions.length && (
+                  <span className="text-xs text-gray-400">
+                    No qualified teacher is free
+                  </span>
+                )}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default AbsenceCoverPage;
@@ -0,0 +1,120 @@
+import ExportMenu from "@/components/ExportMenu";
+import FormContainer from "@/components/FormContainer";
+import Pagination from "@/components/Pagination";
+import Table from "@/components/Table";
+import TableSearch from "@/components/TableSearch";
+import { getAbsenceQuery } from "@/lib/listQueries";
+import prisma from "@/lib/prisma";
+import { ITEM_PER_PAGE } from "@/lib/settings";
+import { Teacher, TeacherAbsence } from "@prisma/client";
+import Image from "next/image";
+import Link from "next/link";
+
+type AbsenceList = TeacherAbsence & { teacher: Teacher };
+
+const AbsenceListPage = async ({
+  searchParams,
+}: {
+  searchParams: { [key: string]: string | undefined };
+}) => {
+  const columns = [
+    {
+      header: "Teacher",
+      accessor: "teacher",
+    },
+    {
+      header: "First day",
+      accessor: "startDate",
+    },
+    {
+      header: "Last day",
+      accessor: "endDate",
+    },
+    {
+      header: "Reason",
+      accessor: "reason",
+      className: "hidden md:table-cell",
+    },
+    {
+      header: "Actions",
+      accessor: "action",
+    },
+  ];
+
+  const formatDate = (date: Date) =>
+    new Intl.DateTimeFormat("en-US", { timeZone: "UTC" }).format(date);
+
+  const renderRow = (item: AbsenceList) => (
+    <tr
+      key={item.id}
+      className="border-b border-gray-200 even:bg-slate-50 text-sm hover:bg-lamaPurpleLight"
+    >
+      <td className="flex items-center gap-4 p-4">
+        {item.teacher.name + " " + item.teacher.surname}
+      </td>
+      <td>{formatDate(item.startDate)}</td>
+      <td>{formatDate(item.endDate)}</td>
+      <td className="hidden md:table-cell">{item.reason ?? "-"}</td>
+      <td>
+        <div className="flex items-center gap-2">
+          <Link href={`/list/absences/${item.id}`}>
+            <button className="w-7 h-7 flex items-center justify-center rounded-full bg-lamaSky">
+              <Image src="/view.png" alt="" width={16} height={16} />
+            </button>
+          </Link>
+          <FormContainer table="teacherAbsence" type="update" data={item} />
+          <FormContainer table="teacherAbsence" type="delete" id={item.id} />
+        </div>
+      </td>
+    </tr>
+  );
+
+  const { page, ...queryParams } = searchParams;
+
+  const p = page ? parseInt(page) : 1;
+
+  // URL PARAMS CONDITION
+
+  const query = getAbsenceQuery(queryParams);
+
+  const [data, count] = await prisma.$transaction([
+    prisma.teacherAbsence.findMany({
+      where: query,
+      include: { teacher: true },
+      orderBy: { startDate: "asc" },
+      take: ITEM_PER_PAGE,
+      skip: ITEM_PER_PAGE * (p - 1),
+    }),
+    prisma.teacherAbsence.count({ where: query }),
+  ]);
+
+  return (
+    <div className="bg-white p-4 rounded-md flex-1 m-4 mt-0">
+      {/* TOP */}
+      <div className="flex items-center justify-between">
+        <h1 className="hidden md:block text-lg font-semibold">
+          Teacher Absences
+        </h1>
+        <div className="flex flex-col md:flex-row items-center gap-4 w-full md:w-auto">
+          <TableSearch />
+          <div className="flex items-center gap-4 self-end">
+            <button className="w-8 h-8 flex items-center justify-center rounded-full bg-lamaYellow">
+              <Image src="/filter.png" alt="" width={14} height={14} />
+            </button>
+            <button className="w-8 h-8 flex items-center justify-center rounded-full bg-lamaYellow">
+              <Image src="/sort.png" alt="" width={14} height={14} />
+            </button>
+            <ExportMenu list="absences" />
+            <FormContainer table="teacherAbsence" type="create" />
+          </div>
+        </div>
+      </div>
+      {/* LIST */}
+      <Table columns={columns} renderRow={renderRow} data={data} />
+      {/* PAGINATION */}
+      <Pagination page={p} count={count} />
+    </div>
+  );
+};
+
+export default AbsenceListPage;
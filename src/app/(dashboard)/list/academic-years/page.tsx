@@ -0,0 +1,155 @@
+import ExportMenu from "@/components/ExportMenu";
+import FormContainer from "@/components/FormContainer";
+import Pagination from "@/components/Pagination";
+import Table from "@/components/Table";
+import TableSearch from "@/components/TableSearch";
+import { getAcademicYearQuery } from "@/lib/listQueries";
+import prisma from "@/lib/prisma";
+import { ITEM_PER_PAGE } from "@/lib/settings";
+import { AcademicYear, Term } from "@prisma/client";
+import Image from "next/image";
+import Link from "next/link";
+
+type AcademicYearList = AcademicYear & {
+  terms: Term[];
+  _count: { classes: number; enrollments: number };
+};
+
+const formatDate = (date: Date) =>
+  new Intl.DateTimeFormat("en-US").format(date);
+
+const AcademicYearListPage = async ({
+  searchParams,
+}: {
+  searchParams: { [key: string]: string | undefined };
+}) => {
+  const columns = [
+    {
+      header: "Name",
+      accessor: "name",
+    },
+    {
+      header: "Dates",
+      accessor: "dates",
+      className: "hidden md:table-cell",
+    },
+    {
+      header: "Terms",
+      accessor: "terms",
+      className: "hidden md:table-cell",
+    },
+    {
+      header: "Classes",
+      accessor: "classes",
+      className: "hidden lg:table-cell",
+    },
+    {
+      header: "Students",
+      accessor: "students",
+      className: "hidden lg:table-cell",
+    },
+    {
+      header: "Actions",
+      accessor: "action",
+    },
+  ];
+
+  const renderRow = (item: AcademicYearList) => (
+    <tr
+      key={item.id}
+      className="border-b border-gray-200 even:bg-slate-50 text-sm hover:bg-lamaPurpleLight"
+    >
+      <td className="flex items-center gap-4 p-4">
+        {item.name}
+        {item.isCurrent && (
+          <span className="px-2 py-1 rounded-md text-xs bg-lamaSkyLight">
+            Current
+          </span>
+        )}
+        {item.archived && (
+          <span className="px-2 py-1 rounded-md text-xs bg-gray-100">
+            Archived
+          </span>
+        )}
+      </td>
+      <td className="hidden md:table-cell">
+        {formatDate(item.startDate)} - {formatDate(item.endDate)}
+      </td>
+      <td className="hidden md:table-cell">
+        {item.terms.map((term) => term.name).join(", ")}
+      </td>
+      <td className="hidden lg:table-cell">
+        <Link href={`/list/classes?academicYearId=${item.id}`}>
+          {item._count.classes}
+        </Link>
+      </td>
+      <td className="hidden lg:table-cell">{item._count.enrollments}</td>
+      <td>
+        <div className="flex items-center gap-2">
+          <FormContainer table="academicYear" type="update" data={item} />
+          {!item.isCurrent && (
+            <FormContainer table="academicYear" type="delete" id={item.id} />
+          )}
+        </div>
+      </td>
+    </tr>
+  );
+
+  const { page, ...queryParams } = searchParams;
+
+  const p = page ? parseInt(page) : 1;
+
+  // URL PARAMS CONDITION
+
+  const query = getAcademicYearQuery(queryParams);
+
+  const [data, count] = await prisma.$transaction([
+    prisma.academicYear.findMany({
+      where: query,
+      include: {
+        terms: { orderBy: { startDate: "asc" } },
+        _count: { select: { classes: true, enrollments: true } },
+      },
+      orderBy: { startDate: "desc" },
+      take: ITEM_PER_PAGE,
+      skip: ITEM_PER_PAGE * (p - 1),
+    }),
+    prisma.academicYear.count({ where: query }),
+  ]);
+
+  return (
+    <div className="bg-white p-4 rounded-md flex-1 m-4 mt-0">
+      {/* TOP */}
+      <div className="flex items-center justify-between">
+        <h1 className="hidden md:block text-lg font-semibold">
+          Academic Years
+        </h1>
+        <div className="flex flex-col md:flex-row items-center gap-4 w-full md:w-auto">
+          <TableSearch />
+          <div className="flex items-center gap-4 self-end">
+            <button className="w-8 h-8 flex items-center justify-center rounded-full bg-lamaYellow">
+              <Image src="/filter.png" alt="" width={14} height={14} />
+            </button>
+            <button className="w-8 h-8 flex items-center justify-center rounded-full bg-lamaYellow">
+              <Image src="/sort.png" alt="" width={14} height={14} />
+            </button>
+            <ExportMenu list="academic-years" />
+            <Link
+              href="/list/academic-years/rollover"
+              className="px-3 h-8 flex items-center justify-center rounded-full bg-lamaSky text-xs"
+            >
+              Roll over
+            </Link>
+            <FormContainer table="academicYear" type="create" />
+          </div>
+        </div>
+      </div>
+      {/* LIST */}
+      <Table columns={columns} renderRow={renderRow} data={data} />
+      {/* PAGINATION */}
+      <Pagination page={p} count={count} />
+    </div>
+  );
+};
+
+export default AcademicYearListPage;
@@ -0,0 +1,102 @@
+import RolloverForm from "@/components/RolloverForm";
+import { getCurrentAcademicYear } from "@/lib/academicYear";
+import prisma from "@/lib/prisma";
+import Link from "next/link";
+
+const toDateInput = (date: Date) => date.toISOString().split("T")[0];
+
+const nextYear = (date: Date) => {
+  const next = new Date(date);
+  next.setUTCFullYear(next.getUTCFullYear() + 1);
+  return next;
+};
+
+// Next year's name shifts every year number in the current name: "2025-2026" -> "2026-2027"
+const nextYearName = (name: string) =>
+  name.replace(/\d{4}/g, (year) => String(parseInt(year) + 1));
+
+const RolloverPage = async () => {
+  const currentYear = await getCurrentAcademicYear();
+
+  if (!currentYear) {
+    return (
+      <div className="bg-white p-4 rounded-md flex-1 m-4 mt-0">
+        <span className="text-sm text-gray-500">
+          There is no current academic year to roll over.
+        </span>
+      </div>
+    );
+  }
+
+  const classes = await prisma.class.findMany({
+    where: { academicYearId: currentYear.id, deletedAt: null },
+    select: {
+      id: true,
+      name: true,
+      grade: { select: { level: true } },
+      _count: {
+        select: { students: { where: { deletedAt: null } }, lessons: true },
+      },
+    },
+    orderBy: { name: "asc" },
+  });
+  const topLevel = await prisma.grade.aggregate({ _max: { level: true } });
+
+  return (
+    <div className="bg-white p-4 rounded-md flex-1 m-4 mt-0 flex flex-col gap-8">
+      <div className="flex items-center justify-between">
+        <h1 className="text-lg font-semibold">
+          Roll over {currentYear.name}
+        </h1>
+        <Link href="/list/academic-years" className="text-xs text-gray-500">
+          Back to academic years
+        </Link>
+      </div>
+      <div className="flex flex-col gap-2 text-sm text-gray-500">
+        <p>
+          Every class is recreated in the new year. Students move up one grade
+          into the matching class. {currentYear.name} is then archived and the
+          new year becomes current.
+        </p>
+        <table className="w-full">
+          <thead>
+            <tr className="text-left">
+              <th>Class</th>
+              <th>Students</th>
+              <th>Lessons</th>
+              <th>Next year</th>
+            </tr>
+          </thead>
+          <tbody>
+            {classes.map((item) => (
+              <tr key={item.id} className="border-b border-gray-200">
+                <td className="py-2">{item.name}</td>
+                <td>{item._count.students}</td>
+                <td>{item._count.lessons}</td>
+                <td>
+                  {item.grade.level === topLevel._max.level
+                    ? "Graduate"
+                    : `Grade ${item.grade.level + 1}`}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <RolloverForm
+        defaults={{
+          name: nextYearName(currentYear.name),
+          startDate: toDateInput(nextYear(currentYear.startDate)),
+          endDate: toDateInput(nextYear(currentYear.endDate)),
+          terms: currentYear.terms.map((term) => ({
+            name: term.name,
+            startDate: toDateInput(nextYear(term.startDate)),
+            endDate: toDateInput(nextYear(term.endDate)),
+          })),
+        }}
+      />
+    </div>
+  );
+};
+
+export default RolloverPage;
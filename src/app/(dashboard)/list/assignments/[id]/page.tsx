@@ -0,0 +1,185 @@
+import SubmissionStatusBadge from "@/components/SubmissionStatusBadge";
+import SubmissionForm from "@/components/forms/SubmissionForm";
+import { authorize } from "@/lib/policy";
+import prisma from "@/lib/prisma";
+import {
+  getSubmissionBlocker,
+  getSubmissionStatus,
+  isLate,
+} from "@/lib/submissions";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+
+const formatDateTime = (date: Date) =>
+  date.toLocaleString("en-US", { dateStyle: "medium", timeStyle: "short" });
+
+// A student's view of one assignment: what they handed in, the teacher's
+// grade and feedback, and the form to hand in (again)
+const SingleAssignmentPage = async ({
+  params: { id },
+}: {
+  params: { id: string };
+}) => {
+  const assignmentId = parseInt(id);
+
+  const actor = await authorize("submission", "read", {
+    data: { assignmentId },
+  });
+  if (!actor) {
+    return notFound();
+  }
+
+  const assignment = await prisma.assignment.findUnique({
+    where: { id: assignmentId },
+    include: {
+      lesson: {
+        select: {
+          subject: { select: { name: true } },
+          teacher: { select: { name: true, surname: true } },
+        },
+      },
+      submissions: {
+        where: { studentId: actor.userId },
+        include: {
+          files: true,
+          // The rubric levels behind the grade, AI suggestions aren't shown
+          rubricScores: {
+            where: { gradedAt: { not: null } },
+            include: {
+              criterion: { select: { title: true, position: true } },
+              level: { select: { title: true } },
+            },
+            orderBy: { criterion: { position: "asc" } },
+          },
+        },
+      },
+    },
+  });
+
+  if (!assignment) {
+    return notFound();
+  }
+
+  const submission = assignment.submissions[0] ?? null;
+  const blocker = getSubmissionBlocker(assignment, submission);
+
+  const details = [
+    { label: "Opens", value: formatDateTime(assignment.startDate) },
+    { label: "Due", value: formatDateTime(assignment.dueDate) },
+    { label: "Max score", value: assignment.maxScore },
+    {
+      label: "Attempts",
+      value: submission
+        ? `${submission.attempt} of ${assignment.maxAttempts} used`
+        : assignment.maxAttempts,
+    },
+    {
+      label: "Late work",
+      value: assignment.allowLate ? "Accepted, flagged late" : "Not accepted",
+    },
+  ];
+
+  return (
+    <div className="bg-white p-4 rounded-md flex-1 m-4 mt-0 flex flex-col gap-4">
+      {/* TOP */}
+      <div className="flex items-center justify-between">
+        <div className="flex flex-col gap-1">
+          <h1 className="text-lg font-semibold">{assignment.title}</h1>
+          <span className="text-sm text-gray-500">
+            {assignment.lesson.subject.name} with{" "}
+            {assignment.lesson.teacher.name}{" "}
+            {assignment.lesson.teacher.surname}
+          </span>
+        </div>
+        <SubmissionStatusBadge
+          status={getSubmissionStatus(assignment, submission)}
+        />
+      </div>
+      {/* DETAILS */}
+      <div className="flex gap-4 flex-wrap">
+        {details.map((detail) => (
+          <div
+            key={detail.label}
+            className="bg-lamaSkyLight rounded-md p-4 flex-1 min-w-[120px]"
+          >
+            <h2 className="text-xs text-gray-500">{detail.label}</h2>
+            <span className="text-sm font-semibold">{detail.value}</span>
+          </div>
+        ))}
+      </div>
+      {/* GRADE */}
+      {submission?.gradedAt && (
+        <div className="bg-lamaPurpleLight rounded-md p-4 flex flex-col gap-1">
+          <h2 className="font-semibold">
+            Grade: {submission.score}/{assignment.maxScore}
+          </h2>
+          {submission.rubricScores.map((score) => (
+            <span key={score.id} className="text-sm">
+              <span className="font-semibold">{score.criterion.title}:</span>{" "}
+              {score.level?.title ?? "-"} ({score.points} points)
+            </span>
+          ))}
+          {submission.feedback && (
+            <p className="text-sm whitespace-pre-wrap">
+              {submission.feedback}
+            </p>
+          )}
+        </div>
+      )}
+      {/* HANDED IN */}
+      {submission && (
+        <div className="flex flex-col gap-2">
+          <h2 className="font-semibold">
+            Handed in{" "}
+            <span className="text-sm font-normal text-gray-500">
+              {formatDateTime(submission.submittedAt)}
+              {isLate(submission, assignment) && ", late"}
+            </span>
+          </h2>
+          {submission.text && (
+            <p className="text-sm whitespace-pre-wrap">{submission.text}</p>
+          )}
+          {submission.files.map((file) => (
+            <a
+              key={file.id}
+              href={file.url}
+              target="_blank"
+              rel="noreferrer"
+              className="text-sm text-blue-500 hover:underline self-start"
+            >
+              {file.name}
+            </a>
+          ))}
+        </div>
+      )}
+      {/* HAND IN */}
+      {blocker ? (
+        <p className="text-sm text-gray-400">{blocker}</p>
+      ) : (
+        <div className="flex flex-col gap-2">
+          <h2 className="font-semibold">
+            {submission ? "Hand in again" : "Hand in"}
+          </h2>
+          {submission && (
+            <p className="text-xs text-gray-500">
+              This replaces what you handed in before.
+            </p>
+          )}
+          <SubmissionForm
+            assignmentId={assignment.id}
+            text={submission?.text}
+            files={submission?.files.map(({ name, url }) => ({ name, url }))}
+          />
+        </div>
+      )}
+      <Link
+        href="/list/assignments"
+        className="text-sm text-gray-500 hover:underline self-start"
+      >
+        Back to assignments
+      </Link>
+    </div>
+  );
+};
+
+export default SingleAssignmentPage;
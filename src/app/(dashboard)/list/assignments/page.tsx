@@ -1,12 +1,23 @@
-import FormModal from "@/components/FormModal";
+import ExportMenu from "@/components/ExportMenu";
+import FormContainer from "@/components/FormContainer";
 import Pagination from "@/components/Pagination";
 import Table from "@/components/Table";
 import TableSearch from "@/components/TableSearch";
+import { getAssignmentQuery } from "@/lib/listQueries";
 import prisma from "@/lib/prisma";
 import { ITEM_PER_PAGE } from "@/lib/settings";
-import { Assignment, Class, Prisma, Subject, Teacher } from "@prisma/client";
+import {
+  Assignment,
+  Class,
+  Subject,
+  Submission,
+  Teacher,
+} from "@prisma/client";
 import Image from "next/image";
+import Link from "next/link";
 import { auth } from "@clerk/nextjs/server";
+import SubmissionStatusBadge from "@/components/SubmissionStatusBadge";
+import { getSubmissionStatus } from "@/lib/submissions";
 
 type AssignmentList = Assignment & {
   lesson: {
@@ -14,6 +25,10 @@ type AssignmentList = Assignment & {
     class: Class;
     teacher: Teacher;
   };
+  // The student's own hand-in
+  submissions?: Submission[];
+  // Hand-ins still to grade
+  _count?: { submissions: number };
 };
 
 const AssignmentListPage = async ({
@@ -46,7 +61,15 @@ const AssignmentListPage = async ({
       accessor: "dueDate",
       className: "hidden md:table-cell",
     },
-    ...(role === "admin" || role === "teacher"
+    ...(role === "student"
+      ? [
+          {
+            header: "Status",
+            accessor: "status",
+          },
+        ]
+      : []),
+    ...(role === "admin" || role === "teacher" || role === "student"
       ? [
           {
             header: "Actions",
@@ -69,12 +92,33 @@ const AssignmentListPage = async ({
       <td className="hidden md:table-cell">
         {new Intl.DateTimeFormat("en-US").format(item.dueDate)}
       </td>
+      {role === "student" && (
+        <td>
+          <SubmissionStatusBadge
+            status={getSubmissionStatus(item, item.submissions?.[0] ?? null)}
+          />
+        </td>
+      )}
       <td>
         <div className="flex items-center gap-2">
+          {role === "student" && (
+            <Link
+              href={`/list/assignments/${item.id}`}
+              className="bg-lamaSky p-2 rounded-md text-xs"
+            >
+              Open
+            </Link>
+          )}
           {(role === "admin" || role === "teacher") && (
             <>
-              <FormModal table="assignment" type="update" data={item} />
-              <FormModal table="assignment" type="delete" id={item.id} />
+              <Link
+                href={`/list/submissions?assignmentId=${item.id}`}
+                className="bg-lamaSky p-2 rounded-md text-xs whitespace-nowrap"
+              >
+                Grade ({item._count?.submissions ?? 0})
+              </Link>
+              <FormContainer table="assignment" type="update" data={item} />
+              <FormContainer table="assignment" type="delete" id={item.id} />
             </>
           )}
         </div>
@@ -88,61 +132,7 @@ const AssignmentListPage = async ({
 
   // URL PARAMS CONDITION
 
-  const query: Prisma.AssignmentWhereInput = {};
-
-  query.lesson = {};
-
-  if (queryParams) {
-    for (const [key, value] of Object.entries(queryParams)) {
-      if (value !== undefined) {
-        switch (key) {
-          case "classId":
-            query.lesson.classId = parseInt(value);
-            break;
-          case "teacherId":
-            query.lesson.teacherId = value;
-            break;
-          case "search":
-            query.lesson.subject = {
-              name: { contains: value, mode: "insensitive" },
-            };
-            break;
-          default:
-            break;
-        }
-      }
-    }
-  }
-
-  // ROLE CONDITIONS
-
-  switch (role) {
-    case "admin":
-      break;
-    case "teacher":
-      query.lesson.teacherId = currentUserId!;
-      break;
-    case "student":
-      query.lesson.class = {
-        students: {
-          some: {
-            id: currentUserId!,
-          },
-        },
-      };
-      break;
-    case "parent":
-      query.lesson.class = {
-        students: {
-          some: {
-            parentId: currentUserId!,
-          },
-        },
-      };
-      break;
-    default:
-      break;
-  }
+  const query = getAssignmentQuery(queryParams, { userId: currentUserId!, role });
 
   const [data, count] = await prisma.$transaction([
     prisma.assignment.findMany({
@@ -155,6 +145,13 @@ const AssignmentListPage = async ({
             class: { select: { name: true } },
           },
         },
+        ...(role === "student"
+          ? { submissions: { where: { studentId: currentUserId! } } }
+          : {
+              _count: {
+                select: { submissions: { where: { gradedAt: null } } },
+              },
+            }),
       },
       take: ITEM_PER_PAGE,
       skip: ITEM_PER_PAGE * (p - 1),
@@ -177,10 +174,10 @@ const AssignmentListPage = async ({
             <button className="w-8 h-8 flex items-center justify-center rounded-full bg-lamaYellow">
               <Image src="/sort.png" alt="" width={14} height={14} />
             </button>
-            {role === "admin" ||
-              (role === "teacher" && (
-                <FormModal table="assignment" type="create" />
-              ))}
+            <ExportMenu list="assignments" />
+            {(role === "admin" || role === "teacher") && (
+              <FormContainer table="assignment" type="create" />
+            )}
           </div>
         </div>
       </div>
@@ -0,0 +1,174 @@
+import ExportMenu from "@/components/ExportMenu";
+import FormContainer from "@/components/FormContainer";
+import Pagination from "@/components/Pagination";
+import Table from "@/components/Table";
+import TableSearch from "@/components/TableSearch";
+import { getAttendanceQuery } from "@/lib/listQueries";
+import prisma from "@/lib/prisma";
+import { ITEM_PER_PAGE } from "@/lib/settings";
+import { Attendance, Class, Student, Subject } from "@prisma/client";
+import Image from "next/image";
+import Link from "next/link";
+import { auth } from "@clerk/nextjs/server";
+
+type AttendanceList = Attendance & {
+  student: Student;
+  lesson: {
+    name: string;
+    subject: Subject;
+    class: Class;
+  };
+};
+
+const statusStyles: { [key: string]: string } = {
+  PRESENT: "bg-lamaSkyLight text-gray-600",
+  LATE: "bg-lamaYellowLight text-gray-600",
+  EXCUSED: "bg-lamaPurpleLight text-gray-600",
+  ABSENT: "bg-red-100 text-red-500",
+};
+
+const AttendanceListPage = async ({
+  searchParams,
+}: {
+  searchParams: { [key: string]: string | undefined };
+}) => {
+  const { userId, sessionClaims } = auth();
+  const role = (sessionClaims?.metadata as { role?: string })?.role;
+  const currentUserId = userId;
+
+  const columns = [
+    {
+      header: "Student",
+      accessor: "student",
+    },
+    {
+      header: "Lesson",
+      accessor: "lesson",
+    },
+    {
+      header: "Class",
+      accessor: "class",
+      className: "hidden md:table-cell",
+    },
+    {
+      header: "Date",
+      accessor: "date",
+      className: "hidden md:table-cell",
+    },
+    {
+      header: "Status",
+      accessor: "status",
+    },
+    ...(role === "admin" || role === "teacher"
+      ? [
+          {
+            header: "Actions",
+            accessor: "action",
+          },
+        ]
+      : []),
+  ];
+
+  const renderRow = (item: AttendanceList) => (
+    <tr
+      key={item.id}
+      className="border-b border-gray-200 even:bg-slate-50 text-sm hover:bg-lamaPurpleLight"
+    >
+      <td className="flex items-center gap-4 p-4">
+        {item.student.name + " " + item.student.surname}
+      </td>
+      <td>{item.lesson.name}</td>
+      <td className="hidden md:table-cell">{item.lesson.class.name}</td>
+      <td className="hidden md:table-cell">
+        {new Intl.DateTimeFormat("en-US", { timeZone: "UTC" }).format(
+          item.date
+        )}
+      </td>
+      <td>
+        <span
+          className={`px-2 py-1 rounded-md text-xs ${statusStyles[item.status]}`}
+        >
+          {item.status.charAt(0) + item.status.slice(1).toLowerCase()}
+        </span>
+      </td>
+      <td>
+        <div className="flex items-center gap-2">
+          {(role === "admin" || role === "teacher") && (
+            <>
+              <FormContainer table="attendance" type="update" data={item} />
+              <FormContainer table="attendance" type="delete" id={item.id} />
+            </>
+          )}
+        </div>
+      </td>
+    </tr>
+  );
+
+  const { page, ...queryParams } = searchParams;
+
+  const p = page ? parseInt(page) : 1;
+
+  // URL PARAMS CONDITION
+
+  const query = getAttendanceQuery(queryParams, { userId: currentUserId!, role });
+
+  const [data, count] = await prisma.$transaction([
+    prisma.attendance.findMany({
+      where: query,
+      include: {
+        student: { select: { name: true, surname: true } },
+        lesson: {
+          select: {
+            name: true,
+            subject: { select: { name: true } },
+            class: { select: { name: true } },
+          },
+        },
+      },
+      orderBy: [{ date: "desc" }, { lessonId: "asc" }],
+      take: ITEM_PER_PAGE,
+      skip: ITEM_PER_PAGE * (p - 1),
+    }),
+    prisma.attendance.count({ where: query }),
+  ]);
+
+  return (
+    <div className="bg-white p-4 rounded-md flex-1 m-4 mt-0">
+      {/* TOP */}
+      <div className="flex items-center justify-between">
+        <h1 className="hidden md:block text-lg font-semibold">
+          All Attendance
+        </h1>
+        <div className="flex flex-col md:flex-row items-center gap-4 w-full md:w-auto">
+          <TableSearch />
+          <div className="flex items-center gap-4 self-end">
+            <button className="w-8 h-8 flex items-center justify-center rounded-full bg-lamaYellow">
+              <Image src="/filter.png" alt="" width={14} height={14} />
+            </button>
+            <button className="w-8 h-8 flex items-center justify-center rounded-full bg-lamaYellow">
+              <Image src="/sort.png" alt="" width={14} height={14} />
+            </button>
+            <ExportMenu list="attendance" />
+            {(role === "admin" || role === "teacher") && (
+              <>
+                <Link
+                  href="/list/attendance/register"
+                  className="px-3 h-8 flex items-center justify-center rounded-full bg-lamaSky text-xs"
+                >
+                  Take attendance
+                </Link>
+                <FormContainer table="attendance" type="create" />
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+      {/* LIST */}
+      <Table columns={columns} renderRow={renderRow} data={data} />
+      {/* PAGINATION */}
+      <Pagination page={p} count={count} />
+    </div>
+  );
+};
+
+export default AttendanceListPage;
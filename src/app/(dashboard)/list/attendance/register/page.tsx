@@ -0,0 +1,159 @@
+import AttendanceRegister from "@/components/AttendanceRegister";
+import prisma from "@/lib/prisma";
+import { isLessonCancelled } from "@/lib/schedule";
+import { getLessonDay, toDateOnly } from "@/lib/utils";
+import { auth } from "@clerk/nextjs/server";
+import Link from "next/link";
+
+const AttendanceRegisterPage = async ({
+  searchParams,
+}: {
+  searchParams: { [key: string]: string | undefined };
+}) => {
+  const { userId, sessionClaims } = auth();
+  const role = (sessionClaims?.metadata as { role?: string })?.role;
+  const currentUserId = userId;
+
+  // Teachers also take the register of lessons they cover
+  const lessons = await prisma.lesson.findMany({
+    where:
+      role === "teacher"
+        ? {
+            OR: [
+              { teacherId: currentUserId! },
+              {
+                exceptions: {
+                  some: { substituteTeacherId: currentUserId!, cancelled: false },
+                },
+              },
+            ],
+          }
+        : {},
+    select: {
+      id: true,
+      name: true,
+      day: true,
+      class: { select: { name: true } },
+    },
+    orderBy: [{ classId: "asc" }, { day: "asc" }, { startTime: "asc" }],
+  });
+
+  const dateParam =
+    searchParams.date || new Date().toISOString().split("T")[0];
+  const date = toDateOnly(new Date(dateParam));
+  const lessonId = searchParams.lessonId
+    ? parseInt(searchParams.lessonId)
+    : undefined;
+
+  const lesson = lessonId
+    ? await prisma.lesson.findFirst({
+        where: {
+          id: lessonId,
+          ...(role === "teacher"
+            ? {
+                OR: [
+                  { teacherId: currentUserId! },
+                  {
+                    exceptions: {
+                      some: { substituteTeacherId: currentUserId!, date },
+                    },
+                  },
+                ],
+              }
+            : {}),
+        },
+        include: {
+          class: {
+            select: {
+              name: true,
+              students: {
+                where: { deletedAt: null },
+                select: { id: true, name: true, surname: true },
+                orderBy: [{ surname: "asc" }, { name: "asc" }],
+              },
+            },
+          },
+        },
+      })
+    : null;
+
+  const isOccurrence = !!lesson && getLessonDay(date) === lesson.day;
+  const isCancelled =
+    !!lesson && isOccurrence && (await isLessonCancelled(lesson.id, date));
+
+  const existing =
+    lesson && isOccurrence
+      ? await prisma.attendance.findMany({
+          where: { lessonId: lesson.id, date },
+          select: { studentId: true, status: true },
+        })
+      : [];
+
+  return (
+    <div className="bg-white p-4 rounded-md flex-1 m-4 mt-0 flex flex-col gap-4">
+      {/* TOP */}
+      <div className="flex items-center justify-between">
+        <h1 className="text-lg font-semibold">Take Attendance</h1>
+        <Link href="/list/attendance" className="text-xs text-gray-500">
+          Back to attendance
+        </Link>
+      </div>
+      {/* LESSON PICKER */}
+      <form className="flex flex-col md:flex-row md:items-end gap-4">
+        <div className="flex flex-col gap-2 w-full md:w-1/3">
+          <label className="text-xs text-gray-500">Lesson</label>
+          <select
+            name="lessonId"
+            defaultValue={lessonId}
+            className="ring-[1.5px] ring-gray-300 p-2 rounded-md text-sm w-full"
+          >
+            {lessons.map((lesson) => (
+              <option value={lesson.id} key={lesson.id}>
+                {lesson.name} ({lesson.class.name},{" "}
+                {lesson.day.charAt(0) + lesson.day.slice(1).toLowerCase()})
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="flex flex-col gap-2 w-full md:w-1/4">
+          <label className="text-xs text-gray-500">Date</label>
+          <input
+            type="date"
+            name="date"
+            defaultValue={dateParam}
+            className="ring-[1.5px] ring-gray-300 p-2 rounded-md text-sm w-full"
+          />
+        </div>
+        <button className="bg-blue-400 text-white p-2 rounded-md text-sm">
+          Open register
+        </button>
+      </form>
+      {/* REGISTER */}
+      {lessonId && !lesson && (
+        <span className="text-sm text-red-500">Lesson not found!</span>
+      )}
+      {lesson && !isOccurrence && (
+        <span className="text-sm text-red-500">
+          {lesson.name} does not take place on {dateParam}. Pick a{" "}
+          {lesson.day.toLowerCase()}.
+        </span>
+      )}
+      {lesson && isCancelled && (
+        <span className="text-sm text-red-500">
+          {lesson.name} is cancelled on {dateParam}.
+        </span>
+      )}
+      {lesson && isOccurrence && !isCancelled && (
+        <AttendanceRegister
+          key={`${lesson.id}-${dateParam}`}
+          lessonId={lesson.id}
+          date={dateParam}
+          students={lesson.class.students}
+          existing={existing}
+        />
+      )}
+    </div>
+  );
+};
+
+export default AttendanceRegisterPage;
@@ -0,0 +1,108 @@
+import { getChanges, getUserNames } from "@/lib/audit";
+import prisma from "@/lib/prisma";
+import { AuditAction, Prisma } from "@prisma/client";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+
+const actionColors: Record<AuditAction, string> = {
+  CREATE: "text-green-600",
+  UPDATE: "text-blue-500",
+  DELETE: "text-red-500",
+};
+
+const formatValue = (value: Prisma.JsonValue | undefined) => {
+  if (value === undefined || value === null || value === "") return "-";
+  if (typeof value === "object") return JSON.stringify(value, null, 2);
+  return String(value);
+};
+
+const SingleAuditLogPage = async ({
+  params: { id },
+}: {
+  params: { id: string };
+}) => {
+  const entry = await prisma.auditLog.findUnique({
+    where: { id: parseInt(id) },
+  });
+
+  if (!entry) {
+    return notFound();
+  }
+
+  const names = entry.userId ? await getUserNames([entry.userId]) : null;
+  const before = entry.before as Prisma.JsonObject | null;
+  const after = entry.after as Prisma.JsonObject | null;
+
+  // Changed fields first, then the rest of the record for context
+  const changed = getChanges(before, after);
+  const fields = [
+    ...changed,
+    ...Object.keys(after ?? before ?? {}).filter(
+      (field) => !changed.includes(field)
+    ),
+  ];
+
+  return (
+    <div className="flex-1 p-4 flex flex-col gap-4">
+      {/* TOP */}
+      <div className="bg-white p-4 rounded-md flex flex-col gap-2">
+        <h1 className="text-xl font-semibold">
+          <span className={`capitalize ${actionColors[entry.action]}`}>
+            {entry.action.toLowerCase()}
+          </span>{" "}
+          {entry.entity} {entry.recordId}
+        </h1>
+        <span className="text-sm text-gray-500">
+          {entry.userId
+            ? `${names?.get(entry.userId) ?? entry.userId} (${entry.role})`
+            : "System"}{" "}
+          · {entry.createdAt.toLocaleString("en-US")}
+        </span>
+        {entry.recordId && (
+          <Link
+            href={`/list/audit-log?entity=${entry.entity}&recordId=${entry.recordId}`}
+            className="text-sm text-gray-500 underline"
+          >
+            History of this record
+          </Link>
+        )}
+      </div>
+      {/* DIFF */}
+      <div className="bg-white p-4 rounded-md">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-500">
+              <th className="p-2">Field</th>
+              {before && <th>Before</th>}
+              {after && <th>After</th>}
+            </tr>
+          </thead>
+          <tbody>
+            {fields.map((field) => (
+              <tr
+                key={field}
+                className={`border-b border-gray-200 align-top ${
+                  changed.includes(field) ? "bg-lamaYellowLight" : ""
+                }`}
+              >
+                <td className="p-2 font-medium">{field}</td>
+                {before && (
+                  <td className="p-2 whitespace-pre-wrap break-all">
+                    {formatValue(before[field])}
+                  </td>
+                )}
+                {after && (
+                  <td className="p-2 whitespace-pre-wrap break-all">
+                    {formatValue(after[field])}
+                  </td>
+                )}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default SingleAuditLogPage;
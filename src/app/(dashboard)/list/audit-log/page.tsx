@@ -0,0 +1,215 @@
+import ExportMenu from "@/components/ExportMenu";
+import Pagination from "@/components/Pagination";
+import Table from "@/components/Table";
+import { getUserNames } from "@/lib/audit";
+import { getAuditLogQuery } from "@/lib/listQueries";
+import prisma from "@/lib/prisma";
+import { ITEM_PER_PAGE } from "@/lib/settings";
+import { AuditAction, AuditLog } from "@prisma/client";
+import Image from "next/image";
+import Link from "next/link";
+
+type AuditLogList = Omit<AuditLog, "before" | "after">;
+
+const actionColors: Record<AuditAction, string> = {
+  CREATE: "text-green-600",
+  UPDATE: "text-blue-500",
+  DELETE: "text-red-500",
+};
+
+const formatDateTime = (date: Date) =>
+  date.toLocaleString("en-US", { dateStyle: "medium", timeStyle: "short" });
+
+const AuditLogPage = async ({
+  searchParams,
+}: {
+  searchParams: { [key: string]: string | undefined };
+}) => {
+  const { page, ...queryParams } = searchParams;
+
+  const p = page ? parseInt(page) : 1;
+
+  const query = getAuditLogQuery(queryParams);
+
+  const [data, count, entities, users] = await prisma.$transaction([
+    prisma.auditLog.findMany({
+      where: query,
+      select: {
+        id: true,
+        userId: true,
+        role: true,
+        entity: true,
+        recordId: true,
+        action: true,
+        changes: true,
+        createdAt: true,
+      },
+      orderBy: { createdAt: "desc" },
+      take: ITEM_PER_PAGE,
+      skip: ITEM_PER_PAGE * (p - 1),
+    }),
+    prisma.auditLog.count({ where: query }),
+    prisma.auditLog.findMany({
+      distinct: ["entity"],
+      select: { entity: true },
+      orderBy: { entity: "asc" },
+    }),
+    prisma.auditLog.findMany({
+      where: { userId: { not: null } },
+      distinct: ["userId"],
+      select: { userId: true, role: true },
+    }),
+  ]);
+
+  const names = await getUserNames(users.map((user) => user.userId!));
+  const nameOf = (userId: string | null) =>
+    userId ? names.get(userId) ?? userId : "System";
+
+  const columns = [
+    {
+      header: "Time",
+      accessor: "createdAt",
+    },
+    {
+      header: "User",
+      accessor: "userId",
+    },
+    {
+      header: "Action",
+      accessor: "action",
+    },
+    {
+      header: "Record",
+      accessor: "recordId",
+      className: "hidden md:table-cell",
+    },
+    {
+      header: "Changed",
+      accessor: "changes",
+      className: "hidden lg:table-cell",
+    },
+    {
+      header: "Actions",
+      accessor: "view",
+    },
+  ];
+
+  const renderRow = (item: AuditLogList) => (
+    <tr
+      key={item.id}
+      className="border-b border-gray-200 even:bg-slate-50 text-sm hover:bg-lamaPurpleLight"
+    >
+      <td className="p-4">{formatDateTime(item.createdAt)}</td>
+      <td>
+        <div className="flex flex-col">
+          <span>{nameOf(item.userId)}</span>
+          <span className="text-xs text-gray-500 capitalize">{item.role}</span>
+        </div>
+      </td>
+      <td>
+        <span className={`capitalize ${actionColors[item.action]}`}>
+          {item.action.toLowerCase()}
+        </span>{" "}
+        {item.entity}
+      </td>
+      <td className="hidden md:table-cell">
+        {item.recordId && (
+          <Link
+            href={`/list/audit-log?entity=${item.entity}&recordId=${item.recordId}`}
+            className="text-gray-500 hover:underline"
+            title="History of this record"
+          >
+            {item.recordId}
+          </Link>
+        )}
+      </td>
+      <td className="hidden lg:table-cell text-gray-500">
+        {item.changes.join(", ") || "-"}
+      </td>
+      <td>
+        <Link href={`/list/audit-log/${item.id}`}>
+          <button className="w-7 h-7 flex items-center justify-center rounded-full bg-lamaSky">
+            <Image src="/view.png" alt="" width={16} height={16} />
+          </button>
+        </Link>
+      </td>
+    </tr>
+  );
+
+  return (
+    <div className="bg-white p-4 rounded-md flex-1 m-4 mt-0">
+      {/* TOP */}
+      <div className="flex items-center justify-between">
+        <h1 className="hidden md:block text-lg font-semibold">Audit Log</h1>
+        <div className="flex flex-col md:flex-row items-center gap-4 w-full md:w-auto">
+          <form className="flex flex-wrap items-center gap-2">
+            {queryParams.recordId && (
+              <input
+                type="hidden"
+                name="recordId"
+                value={queryParams.recordId}
+              />
+            )}
+            <select
+              name="entity"
+              defaultValue={queryParams.entity ?? ""}
+              className="ring-[1.5px] ring-gray-300 p-2 rounded-md text-sm"
+            >
+              <option value="">All records</option>
+              {entities.map(({ entity }) => (
+                <option value={entity} key={entity}>
+                  {entity}
+                </option>
+              ))}
+            </select>
+            <select
+              name="userId"
+              defaultValue={queryParams.userId ?? ""}
+              className="ring-[1.5px] ring-gray-300 p-2 rounded-md text-sm"
+            >
+              <option value="">All users</option>
+              {users
+                .map((user) => ({ ...user, name: nameOf(user.userId) }))
+                .sort((a, b) => a.name.localeCompare(b.name))
+                .map((user) => (
+                  <option value={user.userId!} key={user.userId}>
+                    {user.name} ({user.role})
+                  </option>
+                ))}
+            </select>
+            <input
+              type="date"
+              name="from"
+              defaultValue={queryParams.from}
+              className="ring-[1.5px] ring-gray-300 p-2 rounded-md text-sm"
+            />
+            <input
+              type="date"
+              name="to"
+              defaultValue={queryParams.to}
+              className="ring-[1.5px] ring-gray-300 p-2 rounded-md text-sm"
+            />
+            <button className="bg-blue-400 text-white p-2 rounded-md text-sm">
+              Filter
+            </button>
+          </form>
+          <ExportMenu list="audit-log" />
+        </div>
+      </div>
+      {queryParams.recordId && (
+        <div className="mt-4 text-sm text-gray-500">
+          History of {queryParams.entity} {queryParams.recordId} ·{" "}
+          <Link href="/list/audit-log" className="underline">
+            Show all
+          </Link>
+        </div>
+      )}
+      {/* LIST */}
+      <Table columns={columns} renderRow={renderRow} data={data} />
+      {/* PAGINATION */}
+      <Pagination page={p} count={count} />
+    </div>
+  );
+};
+
+export default AuditLogPage;
@@ -1,10 +1,12 @@
+import ExportMenu from "@/components/ExportMenu";
 import FormContainer from "@/components/FormContainer";
 import Pagination from "@/components/Pagination";
 import Table from "@/components/Table";
 import TableSearch from "@/components/TableSearch";
+import { getClassQuery } from "@/lib/listQueries";
 import prisma from "@/lib/prisma";
 import { ITEM_PER_PAGE } from "@/lib/settings";
-import { Class, Prisma, Teacher } from "@prisma/client";
+import { Class, Teacher } from "@prisma/client";
 import Image from "next/image";
 import { auth } from "@clerk/nextjs/server";
 
@@ -80,24 +82,7 @@ const renderRow = (item: ClassList) => (
 
   // URL PARAMS CONDITION
 
-  const query: Prisma.ClassWhereInput = {};
-
-  if (queryParams) {
-    for (const [key, value] of Object.entries(queryParams)) {
-      if (value !== undefined) {
-        switch (key) {
-          case "supervisorId":
-            query.supervisorId = value;
-            break;
-          case "search":
-            query.name = { contains: value, mode: "insensitive" };
-            break;
-          default:
-            break;
-        }
-      }
-    }
-  }
+  const query = getClassQuery(queryParams);
 
   const [data, count] = await prisma.$transaction([
     prisma.class.findMany({
@@ -125,6 +110,7 @@ const renderRow = (item: ClassList) => (
             <button className="w-8 h-8 flex items-center justify-center rounded-full bg-lamaYellow">
               <Image src="/sort.png" alt="" width={14} height={14} />
             </button>
+            <ExportMenu list="classes" />
             {role === "admin" && <FormContainer table="class" type="create" />}
           </div>
         </div>
@@ -0,0 +1,109 @@
+import ExportMenu from "@/components/ExportMenu";
+import FormContainer from "@/components/FormContainer";
+import Pagination from "@/components/Pagination";
+import Table from "@/components/Table";
+import TableSearch from "@/components/TableSearch";
+import { getDiscountQuery } from "@/lib/listQueries";
+import prisma from "@/lib/prisma";
+import { ITEM_PER_PAGE } from "@/lib/settings";
+import { AcademicYear, Discount, Student } from "@prisma/client";
+import Image from "next/image";
+
+type DiscountList = Discount & { student: Student; academicYear: AcademicYear };
+
+const DiscountListPage = async ({
+  searchParams,
+}: {
+  searchParams: { [key: string]: string | undefined };
+}) => {
+  const columns = [
+    {
+      header: "Student",
+      accessor: "student",
+    },
+    {
+      header: "Discount",
+      accessor: "name",
+    },
+    {
+      header: "Percent",
+      accessor: "percent",
+    },
+    {
+      header: "Academic year",
+      accessor: "academicYear",
+      className: "hidden md:table-cell",
+    },
+    {
+      header: "Actions",
+      accessor: "action",
+    },
+  ];
+
+  const renderRow = (item: DiscountList) => (
+    <tr
+      key={item.id}
+      className="border-b border-gray-200 even:bg-slate-50 text-sm hover:bg-lamaPurpleLight"
+    >
+      <td className="p-4">{item.student.name + " " + item.student.surname}</td>
+      <td>{item.name}</td>
+      <td>{item.percent.toNumber()}%</td>
+      <td className="hidden md:table-cell">{item.academicYear.name}</td>
+      <td>
+        <div className="flex items-center gap-2">
+          <FormContainer table="discount" type="update" data={item} />
+          <FormContainer table="discount" type="delete" id={item.id} />
+        </div>
+      </td>
+    </tr>
+  );
+
+  const { page, ...queryParams } = searchParams;
+
+  const p = page ? parseInt(page) : 1;
+
+  // URL PARAMS CONDITION
+
+  const query = getDiscountQuery(queryParams);
+
+  const [data, count] = await prisma.$transaction([
+    prisma.discount.findMany({
+      where: query,
+      include: { student: true, academicYear: true },
+      orderBy: [{ student: { surname: "asc" } }, { name: "asc" }],
+      take: ITEM_PER_PAGE,
+      skip: ITEM_PER_PAGE * (p - 1),
+    }),
+    prisma.discount.count({ where: query }),
+  ]);
+
+  return (
+    <div className="bg-white p-4 rounded-md flex-1 m-4 mt-0">
+      {/* TOP */}
+      <div className="flex items-center justify-between">
+        <h1 className="hidden md:block text-lg font-semibold">
+          Discounts &amp; Scholarships
+        </h1>
+        <div className="flex flex-col md:flex-row items-center gap-4 w-full md:w-auto">
+          <TableSearch />
+          <div className="flex items-center gap-4 self-end">
+            <button className="w-8 h-8 flex items-center justify-center rounded-full bg-lamaYellow">
+              <Image src="/filter.png" alt="" width={14} height={14} />
+            </button>
+            <button className="w-8 h-8 flex items-center justify-center rounded-full bg-lamaYellow">
+              <Image src="/sort.png" alt="" width={14} height={14} />
+            </button>
+            <ExportMenu list="discounts" />
+            <FormContainer table="discount" type="create" />
+          </div>
+        </div>
+      </div>
+      {/* LIST */}
+      <Table columns={columns} renderRow={renderRow} data={data} />
+      {/* PAGINATION */}
+      <Pagination page={p} count={count} />
+    </div>
+  );
+};
+
+export default DiscountListPage;
@@ -0,0 +1,197 @@
+import RubricGrader from "@/components/RubricGrader";
+import TestMarkForm from "@/components/forms/TestMarkForm";
+import {
+  getTestPoints,
+  getTestQuestions,
+  isObjective,
+  TestAnswers,
+  TestMarks,
+} from "@/lib/onlineTests";
+import { authorize } from "@/lib/policy";
+import prisma from "@/lib/prisma";
+import { rubricInclude } from "@/lib/rubrics";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+
+// The short answers and essays of an online test, marked attempt by attempt,
+// against the question's rubric when it has one
+const ExamMarkingPage = async ({
+  params: { id },
+  searchParams,
+}: {
+  params: { id: string };
+  searchParams: { [key: string]: string | undefined };
+}) => {
+  const examId = parseInt(id);
+
+  if (!(await authorize("exam", "update", { id: examId }))) {
+    return notFound();
+  }
+
+  const exam = await prisma.exam.findUnique({
+    where: { id: examId },
+    include: {
+      lesson: {
+        select: {
+          subject: { select: { name: true } },
+          class: { select: { name: true } },
+        },
+      },
+      aiContent: {
+        include: {
+          rubrics: { include: { rubric: { include: rubricInclude } } },
+        },
+      },
+      attempts: {
+        where: { submittedAt: { not: null } },
+        include: {
+          student: { select: { name: true, surname: true } },
+          rubricScores: true,
+        },
+        orderBy: { submittedAt: "asc" },
+      },
+    },
+  });
+
+  if (!exam?.aiContent) {
+    return notFound();
+  }
+
+  const questions = getTestQuestions(exam.aiContent);
+  const toMark = questions.filter((question) => !isObjective(question));
+
+  const attempts = exam.attempts.map((attempt) => ({
+    ...attempt,
+    points: getTestPoints(questions, (attempt.marks ?? {}) as TestMarks),
+  }));
+
+  const selected =
+    attempts.find(
+      (attempt) => attempt.id === parseInt(searchParams.attemptId ?? "")
+    ) ??
+    attempts.find((attempt) => attempt.points.pending) ??
+    attempts[0];
+
+  const answers = (selected?.answers ?? {}) as TestAnswers;
+  const marks = (selected?.marks ?? {}) as TestMarks;
+
+  return (
+    <div className="bg-white p-4 rounded-md flex-1 m-4 mt-0 flex flex-col gap-4">
+      {/* TOP */}
+      <div className="flex flex-col gap-1">
+        <h1 className="text-lg font-semibold">Marking: {exam.title}</h1>
+        <span className="text-sm text-gray-500">
+          {exam.lesson.subject.name}, {exam.lesson.class.name} ·{" "}
+          {toMark.length} question(s) to mark by hand
+        </span>
+      </div>
+      {attempts.length === 0 ? (
+        <p className="text-sm text-gray-500">No attempts have been submitted.</p>
+      ) : (
+        <div className="flex flex-col md:flex-row gap-4">
+          {/* ATTEMPTS */}
+          <div className="flex flex-col gap-1 md:w-56">
+            {attempts.map((attempt) => (
+              <Link
+                key={attempt.id}
+                href={`/list/exams/${exam.id}/marking?attemptId=${attempt.id}`}
+                className={`flex items-center justify-between p-2 rounded-md text-sm ${
+                  attempt.id === selected?.id
+                    ? "bg-lamaSkyLight"
+                    : "hover:bg-slate-50"
+                }`}
+              >
+                <span>
+                  {attempt.student.name} {attempt.student.surname}
+                </span>
+                {attempt.points.pending ? (
+                  <span className="text-xs text-orange-500">
+                    {attempt.points.pending} to mark
+                  </span>
+                ) : (
+                  <span className="text-xs text-gray-500">
+                    {attempt.score}/{exam.maxScore}
+                  </span>
+                )}
+              </Link>
+            ))}
+          </div>
+          {/* ANSWERS */}
+          {selected && (
+            <div className="flex-1 flex flex-col gap-6">
+              <span className="text-sm text-gray-500">
+                {selected.points.earned}/{selected.points.total} points so
+                far, {selected.score ?? 0}/{exam.maxScore} as the result
+              </span>
+              {toMark.map((question) => {
+                const questionRubric = exam.aiContent!.rubrics.find(
+                  (item) => item.questionId === question.id
+                );
+                const answer = answers[question.id] ?? "";
+                return (
+                  <div
+                    key={question.id}
+                    className="flex flex-col gap-2 border-t border-gray-100 pt-4"
+                  >
+                    <span className="text-sm font-semibold">
+                      {question.question}{" "}
+                      <span className="font-normal text-gray-500">
+                        ({question.points} points)
+                      </span>
+                    </span>
+                    {question.correctAnswer && (
+                      <p className="text-xs text-gray-500">
+                        Model answer: {question.correctAnswer}
+                      </p>
+                    )}
+                    <p className="text-sm whitespace-pre-wrap bg-slate-50 rounded-md p-2">
+                      {answer.trim() || "No answer"}
+                    </p>
+                    {!answer.trim() ? (
+                      <span className="text-xs text-gray-500">
+                        Unanswered questions score nothing.
+                      </span>
+                    ) : questionRubric ? (
+                      <div className="flex flex-col gap-1">
+                        <RubricGrader
+                          target={{
+                            attemptId: selected.id,
+                            questionId: question.id,
+                          }}
+                          rubric={questionRubric.rubric}
+                          scores={selected.rubricScores.filter(
+                            (score) => score.questionId === question.id
+                          )}
+                        />
+                        <span className="text-xs text-gray-400">
+                          {marks[question.id] ?? "–"}/{question.points}{" "}
+                          points, the rubric points scaled to the
+                          question&apos;s.
+                        </span>
+                      </div>
+                    ) : (
+                      <TestMarkForm
+                        attemptId={selected.id}
+                        questionId={question.id}
+                        points={marks[question.id] ?? null}
+                        maxPoints={question.points}
+                      />
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      )}
+      <Link
+        href="/list/exams"
+        className="text-sm text-gray-500 hover:underline self-start"
+      >
+        Back to exams
+      </Link>
+    </div>
+  );
+};
+
+export default ExamMarkingPage;
@@ -0,0 +1,158 @@
+import StartTestButton from "@/components/StartTestButton";
+import TestTaker from "@/components/TestTaker";
+import {
+  finishTestAttempt,
+  getStudentQuestions,
+  getTestDeadline,
+  getTestDuration,
+  getTestPoints,
+  getTestQuestions,
+  isPastDeadline,
+  TestAnswers,
+  TestLayout,
+  TestMarks,
+} from "@/lib/onlineTests";
+import { authorize } from "@/lib/policy";
+import prisma from "@/lib/prisma";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+
+const formatDateTime = (date: Date) =>
+  date.toLocaleString("en-US", { dateStyle: "medium", timeStyle: "short" });
+
+// A student taking an exam online: before it opens, while they sit it, and
+// their score once handed in
+const OnlineTestPage = async ({
+  params: { id },
+}: {
+  params: { id: string };
+}) => {
+  const examId = parseInt(id);
+
+  const actor = await authorize("testAttempt", "read", { data: { examId } });
+  if (!actor) {
+    return notFound();
+  }
+
+  const exam = await prisma.exam.findUnique({
+    where: { id: examId },
+    include: {
+      aiContent: true,
+      lesson: {
+        select: {
+          subject: { select: { name: true } },
+          teacher: { select: { name: true, surname: true } },
+        },
+      },
+    },
+  });
+
+  if (!exam?.aiContent) {
+    return notFound();
+  }
+
+  const where = { examId_studentId: { examId, studentId: actor.userId } };
+  let attempt = await prisma.testAttempt.findUnique({ where });
+
+  const questions = getTestQuestions(exam.aiContent);
+  const duration = getTestDuration(exam.aiContent);
+  const deadline = attempt && getTestDeadline(exam, attempt, duration);
+  const now = new Date();
+
+  // Time ran out without the student handing in. When something else handed
+  // it in first, that submission is shown.
+  if (attempt && deadline && !attempt.submittedAt && isPastDeadline(deadline)) {
+    attempt =
+      (await finishTestAttempt(attempt.id)) ??
+      (await prisma.testAttempt.findUnique({ where }));
+  }
+
+  const renderBody = () => {
+    if (attempt?.submittedAt) {
+      const { earned, total, pending } = getTestPoints(
+        questions,
+        (attempt.marks ?? {}) as TestMarks
+      );
+      return (
+        <div className="bg-lamaPurpleLight rounded-md p-4 flex flex-col gap-1">
+          <h2 className="font-semibold">
+            Score: {attempt.score}/{exam.maxScore}
+          </h2>
+          <span className="text-sm text-gray-500">
+            {earned} of {total} points, handed in{" "}
+            {formatDateTime(attempt.submittedAt)}
+          </span>
+          {pending > 0 && (
+            <span className="text-sm text-gray-500">
+              {pending} answer{pending === 1 ? "" : "s"} still to be marked by
+              your teacher, so your score may go up.
+            </span>
+          )}
+        </div>
+      );
+    }
+
+    if (attempt && deadline) {
+      return (
+        <TestTaker
+          examId={exam.id}
+          questions={getStudentQuestions(
+            questions,
+            attempt.layout as TestLayout
+          )}
+          answers={attempt.answers as TestAnswers}
+          deadline={deadline.toISOString()}
+          now={now.toISOString()}
+        />
+      );
+    }
+
+    if (now < exam.startTime) {
+      return (
+        <p className="text-sm text-gray-400">
+          The test opens {formatDateTime(exam.startTime)}.
+        </p>
+      );
+    }
+
+    if (now > exam.endTime) {
+      return <p className="text-sm text-gray-400">The test has closed.</p>;
+    }
+
+    return (
+      <div className="flex flex-col gap-2 items-start">
+        <p className="text-sm text-gray-500">
+          {questions.length} questions.{" "}
+          {duration
+            ? `Once you start you have ${duration} minutes, until ${formatDateTime(exam.endTime)} at the latest.`
+            : `Hand it in by ${formatDateTime(exam.endTime)}.`}{" "}
+          Your answers save as you go.
+        </p>
+        <StartTestButton examId={exam.id} />
+      </div>
+    );
+  };
+
+  return (
+    <div className="bg-white p-4 rounded-md flex-1 m-4 mt-0 flex flex-col gap-4">
+      {/* TOP */}
+      <div className="flex flex-col gap-1">
+        <h1 className="text-lg font-semibold">{exam.title}</h1>
+        <span className="text-sm text-gray-500">
+          {exam.lesson.subject.name} with {exam.lesson.teacher.name}{" "}
+          {exam.lesson.teacher.surname}. Open{" "}
+          {formatDateTime(exam.startTime)} to {formatDateTime(exam.endTime)}.
+        </span>
+      </div>
+      {renderBody()}
+      <Link
+        href="/list/exams"
+        className="text-sm text-gray-500 hover:underline self-start"
+      >
+        Back to exams
+      </Link>
+    </div>
+  );
+};
+
+export default OnlineTestPage;
@@ -1,11 +1,14 @@
+import ExportMenu from "@/components/ExportMenu";
 import FormContainer from "@/components/FormContainer";
 import Pagination from "@/components/Pagination";
 import Table from "@/components/Table";
 import TableSearch from "@/components/TableSearch";
+import { getExamQuery } from "@/lib/listQueries";
 import prisma from "@/lib/prisma";
 import { ITEM_PER_PAGE } from "@/lib/settings";
-import { Class, Exam, Prisma, Subject, Teacher } from "@prisma/client";
+import { Class, Exam, Subject, Teacher } from "@prisma/client";
 import Image from "next/image";
+import Link from "next/link";
 import { auth } from "@clerk/nextjs/server";
 
 type ExamList = Exam & {
@@ -14,6 +17,8 @@ type ExamList = Exam & {
     class: Class;
     teacher: Teacher;
   };
+  // Taken online when published
+  aiContent: { isPublished: boolean } | null;
 };
 
 const ExamListPage = async ({
@@ -46,7 +51,7 @@ const columns = [
     accessor: "date",
     className: "hidden md:table-cell",
   },
-  ...(role === "admin" || role === "teacher"
+  ...(role === "admin" || role === "teacher" || role === "student"
     ? [
         {
           header: "Actions",
@@ -61,7 +66,12 @@ const renderRow = (item: ExamList) => (
     key={item.id}
     className="border-b border-gray-200 even:bg-slate-50 text-sm hover:bg-lamaPurpleLight"
   >
-    <td className="flex items-center gap-4 p-4">{item.lesson.subject.name}</td>
+    <td className="flex items-center gap-4 p-4">
+      {item.lesson.subject.name}
+      {item.aiContent?.isPublished && (
+        <span className="text-xs text-gray-400">online</span>
+      )}
+    </td>
     <td>{item.lesson.class.name}</td>
     <td className="hidden md:table-cell">
       {item.lesson.teacher.name + " " + item.lesson.teacher.surname}
@@ -71,8 +81,24 @@ const renderRow = (item: ExamList) => (
     </td>
     <td>
       <div className="flex items-center gap-2">
+        {role === "student" && item.aiContent?.isPublished && (
+          <Link
+            href={`/list/exams/${item.id}/test`}
+            className="bg-lamaSky p-2 rounded-md text-xs whitespace-nowrap"
+          >
+            Online test
+          </Link>
+        )}
         {(role === "admin" || role === "teacher") && (
           <>
+            {item.aiContent && (
+              <Link
+                href={`/list/exams/${item.id}/marking`}
+                className="bg-lamaSky p-2 rounded-md text-xs whitespace-nowrap"
+              >
+                Marking
+              </Link>
+            )}
             <FormContainer table="exam" type="update" data={item} />
             <FormContainer table="exam" type="delete" id={item.id} />
           </>
@@ -88,61 +114,7 @@ const renderRow = (item: ExamList) => (
 
   // URL PARAMS CONDITION
 
-  const query: Prisma.ExamWhereInput = {};
-
-  query.lesson = {};
-  if (queryParams) {
-    for (const [key, value] of Object.entries(queryParams)) {
-      if (value !== undefined) {
-        switch (key) {
-          case "classId":
-            query.lesson.classId = parseInt(value);
-            break;
-          case "teacherId":
-            query.lesson.teacherId = value;
-            break;
-          case "search":
-            query.lesson.subject = {
-              name: { contains: value, mode: "insensitive" },
-            };
-            break;
-          default:
-            break;
-        }
-      }
-    }
-  }
-
-  // ROLE CONDITIONS
-
-  switch (role) {
-    case "admin":
-      break;
-    case "teacher":
-      query.lesson.teacherId = currentUserId!;
-      break;
-    case "student":
-      query.lesson.class = {
-        students: {
-          some: {
-            id: currentUserId!,
-          },
-        },
-      };
-      break;
-    case "parent":
-      query.lesson.class = {
-        students: {
-          some: {
-            parentId: currentUserId!,
-          },
-        },
-      };
-      break;
-
-    default:
-      break;
-  }
+  const query = getExamQuery(queryParams, { userId: currentUserId!, role });
 
   const [data, count] = await prisma.$transaction([
     prisma.exam.findMany({
@@ -155,6 +127,7 @@ const renderRow = (item: ExamList) => (
             class: { select: { name: true } },
           },
         },
+        aiContent: { select: { isPublished: true } },
       },
       take: ITEM_PER_PAGE,
       skip: ITEM_PER_PAGE * (p - 1),
@@ -176,6 +149,7 @@ const renderRow = (item: ExamList) => (
             <button className="w-8 h-8 flex items-center justify-center rounded-full bg-lamaYellow">
               <Image src="/sort.png" alt="" width={14} height={14} />
             </button>
+            <ExportMenu list="exams" />
             {(role === "admin" || role === "teacher") && (
               <FormContainer table="exam" type="create" />
             )}
@@ -0,0 +1,118 @@
+import ExportMenu from "@/components/ExportMenu";
+import FormContainer from "@/components/FormContainer";
+import Pagination from "@/components/Pagination";
+import Table from "@/components/Table";
+import TableSearch from "@/components/TableSearch";
+import { formatMoney } from "@/lib/finance";
+import { getExpenseQuery } from "@/lib/listQueries";
+import prisma from "@/lib/prisma";
+import { ITEM_PER_PAGE } from "@/lib/settings";
+import { Expense } from "@prisma/client";
+import Image from "next/image";
+
+const ExpenseListPage = async ({
+  searchParams,
+}: {
+  searchParams: { [key: string]: string | undefined };
+}) => {
+  const columns = [
+    {
+      header: "Date",
+      accessor: "date",
+    },
+    {
+      header: "Title",
+      accessor: "title",
+    },
+    {
+      header: "Category",
+      accessor: "category",
+      className: "hidden md:table-cell",
+    },
+    {
+      header: "Amount",
+      accessor: "amount",
+    },
+    {
+      header: "Actions",
+      accessor: "action",
+    },
+  ];
+
+  const formatDate = (date: Date) =>
+    new Intl.DateTimeFormat("en-US", { timeZone: "UTC" }).format(date);
+
+  const renderRow = (item: Expense) => (
+    <tr
+      key={item.id}
+      className="border-b border-gray-200 even:bg-slate-50 text-sm hover:bg-lamaPurpleLight"
+    >
+      <td className="p-4">{formatDate(item.date)}</td>
+      <td>{item.title}</td>
+      <td className="hidden md:table-cell">
+        <span className="px-2 py-1 rounded-md text-xs bg-lamaSkyLight">
+          {item.category}
+        </span>
+      </td>
+      <td>{formatMoney(item.amount)}</td>
+      <td>
+        <div className="flex items-center gap-2">
+          <FormContainer table="expense" type="update" data={item} />
+          <FormContainer table="expense" type="delete" id={item.id} />
+        </div>
+      </td>
+    </tr>
+  );
+
+  const { page, ...queryParams } = searchParams;
+
+  const p = page ? parseInt(page) : 1;
+
+  // URL PARAMS CONDITION
+
+  const query = getExpenseQuery(queryParams);
+
+  const [data, count, total] = await prisma.$transaction([
+    prisma.expense.findMany({
+      where: query,
+      orderBy: [{ date: "desc" }, { id: "desc" }],
+      take: ITEM_PER_PAGE,
+      skip: ITEM_PER_PAGE * (p - 1),
+    }),
+    prisma.expense.count({ where: query }),
+    prisma.expense.aggregate({ where: query, _sum: { amount: true } }),
+  ]);
+
+  return (
+    <div className="bg-white p-4 rounded-md flex-1 m-4 mt-0">
+      {/* TOP */}
+      <div className="flex items-center justify-between">
+        <div className="hidden md:flex flex-col">
+          <h1 className="text-lg font-semibold">Expenses</h1>
+          <span className="text-xs text-gray-500">
+            {formatMoney(total._sum.amount ?? 0)} in total
+          </span>
+        </div>
+        <div className="flex flex-col md:flex-row items-center gap-4 w-full md:w-auto">
+          <TableSearch />
+          <div className="flex items-center gap-4 self-end">
+            <button className="w-8 h-8 flex items-center justify-center rounded-full bg-lamaYellow">
+              <Image src="/filter.png" alt="" width={14} height={14} />
+            </button>
+            <button className="w-8 h-8 flex items-center justify-center rounded-full bg-lamaYellow">
+              <Image src="/sort.png" alt="" width={14} height={14} />
+            </button>
+            <ExportMenu list="expenses" />
+            <FormContainer table="expense" type="create" />
+          </div>
+        </div>
+      </div>
+      {/* LIST */}
+      <Table columns={columns} renderRow={renderRow} data={data} />
+      {/* PAGINATION */}
+      <Pagination page={p} count={count} />
+    </div>
+  );
+};
+
+export default ExpenseListPage;
@@ -0,0 +1,49 @@
+import { EXPORT_FORMATS, ExportFormat, renderExport } from "@/lib/exportFormats";
+import { loadListExport } from "@/lib/listExports";
+import { getActor } from "@/lib/policy";
+import { canAccessRoute } from "@/lib/roles";
+import { NextRequest, NextResponse } from "next/server";
+
+// Downloads a list page as a file: /list/export/<list>?format=csv|xlsx|pdf
+// plus the page's own search params. Whoever may open the page may export it.
+export const GET = async (
+  req: NextRequest,
+  { params }: { params: { list: string } }
+) => {
+  const actor = getActor();
+  if (!actor) {
+    return new NextResponse("Unauthorized", { status: 401 });
+  }
+
+  if (!canAccessRoute(`/list/${params.list}`, actor.role)) {
+    return new NextResponse("Forbidden", { status: 403 });
+  }
+
+  const { format, page, ...queryParams } = Object.fromEntries(
+    req.nextUrl.searchParams
+  );
+
+  if (!EXPORT_FORMATS.includes(format as ExportFormat)) {
+    return new NextResponse("Unknown export format", { status: 400 });
+  }
+
+  try {
+    const table = await loadListExport(params.list, queryParams, actor);
+    if (!table) {
+      return new NextResponse("Not found", { status: 404 });
+    }
+
+    const file = await renderExport(table, format as ExportFormat);
+
+    return new NextResponse(file.body, {
+      headers: {
+        "Content-Type": file.contentType,
+        "Content-Disposition": `attachment; filename="${file.fileName}"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (err) {
+    console.log(err);
+    return new NextResponse("Export failed", { status: 500 });
+  }
+};
@@ -0,0 +1,146 @@
+import ExportMenu from "@/components/ExportMenu";
+import FeeInvoiceButton from "@/components/FeeInvoiceButton";
+import FormContainer from "@/components/FormContainer";
+import Pagination from "@/components/Pagination";
+import Table from "@/components/Table";
+import TableSearch from "@/components/TableSearch";
+import { formatMoney } from "@/lib/finance";
+import { getFeeStructureQuery } from "@/lib/listQueries";
+import prisma from "@/lib/prisma";
+import { ITEM_PER_PAGE } from "@/lib/settings";
+import { AcademicYear, Class, FeeStructure, Grade } from "@prisma/client";
+import Image from "next/image";
+import Link from "next/link";
+
+type FeeList = FeeStructure & {
+  academicYear: AcademicYear;
+  grade: Grade | null;
+  class: Class | null;
+  _count: { invoices: number };
+};
+
+const FeeListPage = async ({
+  searchParams,
+}: {
+  searchParams: { [key: string]: string | undefined };
+}) => {
+  const columns = [
+    {
+      header: "Name",
+      accessor: "name",
+    },
+    {
+      header: "Charged to",
+      accessor: "chargedTo",
+    },
+    {
+      header: "Amount",
+      accessor: "amount",
+    },
+    {
+      header: "Due date",
+      accessor: "dueDate",
+      className: "hidden md:table-cell",
+    },
+    {
+      header: "Invoices",
+      accessor: "invoices",
+      className: "hidden md:table-cell",
+    },
+    {
+      header: "Actions",
+      accessor: "action",
+    },
+  ];
+
+  const formatDate = (date: Date) =>
+    new Intl.DateTimeFormat("en-US", { timeZone: "UTC" }).format(date);
+
+  const renderRow = (item: FeeList) => (
+    <tr
+      key={item.id}
+      className="border-b border-gray-200 even:bg-slate-50 text-sm hover:bg-lamaPurpleLight"
+    >
+      <td className="p-4">
+        <div className="flex flex-col">
+          <span className="font-semibold">{item.name}</span>
+          <span className="text-xs text-gray-500">
+            {item.academicYear.name}
+          </span>
+        </div>
+      </td>
+      <td>
+        {item.class ? `Class ${item.class.name}` : `Grade ${item.grade?.level}`}
+      </td>
+      <td>{formatMoney(item.amount)}</td>
+      <td className="hidden md:table-cell">{formatDate(item.dueDate)}</td>
+      <td className="hidden md:table-cell">
+        <Link
+          href={`/list/invoices?feeStructureId=${item.id}`}
+          className="text-gray-500 hover:underline"
+        >
+          {item._count.invoices} issued
+        </Link>
+      </td>
+      <td>
+        <div className="flex items-center gap-2">
+          <FeeInvoiceButton feeStructureId={item.id} />
+          <FormContainer table="feeStructure" type="update" data={item} />
+          <FormContainer table="feeStructure" type="delete" id={item.id} />
+        </div>
+      </td>
+    </tr>
+  );
+
+  const { page, ...queryParams } = searchParams;
+
+  const p = page ? parseInt(page) : 1;
+
+  // URL PARAMS CONDITION
+
+  const query = getFeeStructureQuery(queryParams);
+
+  const [data, count] = await prisma.$transaction([
+    prisma.feeStructure.findMany({
+      where: query,
+      include: {
+        academicYear: true,
+        grade: true,
+        class: true,
+        _count: { select: { invoices: true } },
+      },
+      orderBy: { dueDate: "desc" },
+      take: ITEM_PER_PAGE,
+      skip: ITEM_PER_PAGE * (p - 1),
+    }),
+    prisma.feeStructure.count({ where: query }),
+  ]);
+
+  return (
+    <div className="bg-white p-4 rounded-md flex-1 m-4 mt-0">
+      {/* TOP */}
+      <div className="flex items-center justify-between">
+        <h1 className="hidden md:block text-lg font-semibold">Fees</h1>
+        <div className="flex flex-col md:flex-row items-center gap-4 w-full md:w-auto">
+          <TableSearch />
+          <div className="flex items-center gap-4 self-end">
+            <button className="w-8 h-8 flex items-center justify-center rounded-full bg-lamaYellow">
+              <Image src="/filter.png" alt="" width={14} height={14} />
+            </button>
+            <button className="w-8 h-8 flex items-center justify-center rounded-full bg-lamaYellow">
+              <Image src="/sort.png" alt="" width={14} height={14} />
+            </button>
+            <ExportMenu list="fees" />
+            <FormContainer table="feeStructure" type="create" />
+          </div>
+        </div>
+      </div>
+      {/* LIST */}
+      <Table columns={columns} renderRow={renderRow} data={data} />
+      {/* PAGINATION */}
+      <Pagination page={p} count={count} />
+    </div>
+  );
+};
+
+export default FeeListPage;
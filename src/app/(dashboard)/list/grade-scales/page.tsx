@@ -0,0 +1,121 @@
+import ExportMenu from "@/components/ExportMenu";
+import FormContainer from "@/components/FormContainer";
+import Pagination from "@/components/Pagination";
+import Table from "@/components/Table";
+import TableSearch from "@/components/TableSearch";
+import { getGradeScaleQuery } from "@/lib/listQueries";
+import prisma from "@/lib/prisma";
+import { ITEM_PER_PAGE } from "@/lib/settings";
+import { GradeBand, GradeScale } from "@prisma/client";
+import Image from "next/image";
+
+type GradeScaleList = GradeScale & {
+  bands: GradeBand[];
+  _count: { classes: number };
+};
+
+const GradeScaleListPage = async ({
+  searchParams,
+}: {
+  searchParams: { [key: string]: string | undefined };
+}) => {
+  const columns = [
+    {
+      header: "Name",
+      accessor: "name",
+    },
+    {
+      header: "Bands",
+      accessor: "bands",
+      className: "hidden md:table-cell",
+    },
+    {
+      header: "Classes",
+      accessor: "classes",
+      className: "hidden md:table-cell",
+    },
+    {
+      header: "Actions",
+      accessor: "action",
+    },
+  ];
+
+  const renderRow = (item: GradeScaleList) => (
+    <tr
+      key={item.id}
+      className="border-b border-gray-200 even:bg-slate-50 text-sm hover:bg-lamaPurpleLight"
+    >
+      <td className="flex items-center gap-4 p-4">
+        {item.name}
+        {item.isDefault && (
+          <span className="px-2 py-1 rounded-md text-xs bg-lamaSkyLight">
+            Default
+          </span>
+        )}
+      </td>
+      <td className="hidden md:table-cell">
+        {item.bands
+          .map((band) => `${band.letter} ≥ ${band.minPercent}%`)
+          .join(", ")}
+      </td>
+      <td className="hidden md:table-cell">{item._count.classes}</td>
+      <td>
+        <div className="flex items-center gap-2">
+          <FormContainer table="gradeScale" type="update" data={item} />
+          <FormContainer table="gradeScale" type="delete" id={item.id} />
+        </div>
+      </td>
+    </tr>
+  );
+
+  const { page, ...queryParams } = searchParams;
+
+  const p = page ? parseInt(page) : 1;
+
+  // URL PARAMS CONDITION
+
+  const query = getGradeScaleQuery(queryParams);
+
+  const [data, count] = await prisma.$transaction([
+    prisma.gradeScale.findMany({
+      where: query,
+      include: {
+        bands: { orderBy: { minPercent: "desc" } },
+        _count: { select: { classes: true } },
+      },
+      take: ITEM_PER_PAGE,
+      skip: ITEM_PER_PAGE * (p - 1),
+    }),
+    prisma.gradeScale.count({ where: query }),
+  ]);
+
+  return (
+    <div className="bg-white p-4 rounded-md flex-1 m-4 mt-0">
+      {/* TOP */}
+      <div className="flex items-center justify-between">
+        <h1 className="hidden md:block text-lg font-semibold">
+          All Grade Scales
+        </h1>
+        <div className="flex flex-col md:flex-row items-center gap-4 w-full md:w-auto">
+          <TableSearch />
+          <div className="flex items-center gap-4 self-end">
+            <button className="w-8 h-8 flex items-center justify-center rounded-full bg-lamaYellow">
+              <Image src="/filter.png" alt="" width={14} height={14} />
+            </button>
+            <button className="w-8 h-8 flex items-center justify-center rounded-full bg-lamaYellow">
+              <Image src="/sort.png" alt="" width={14} height={14} />
+            </button>
+            <ExportMenu list="grade-scales" />
+            <FormContainer table="gradeScale" type="create" />
+          </div>
+        </div>
+      </div>
+      {/* LIST */}
+      <Table columns={columns} renderRow={renderRow} data={data} />
+      {/* PAGINATION */}
+      <Pagination page={p} count={count} />
+    </div>
+  );
+};
+
+export default GradeScaleListPage;
@@ -0,0 +1,226 @@
+import FormContainer from "@/components/FormContainer";
+import { getCurrentTerm } from "@/lib/academicYear";
+import { formatPercent, getClassGradebook } from "@/lib/gradebook";
+import prisma from "@/lib/prisma";
+import { DEFAULT_CATEGORY_WEIGHTS } from "@/lib/settings";
+import { auth } from "@clerk/nextjs/server";
+import Link from "next/link";
+
+const GradebookPage = async ({
+  searchParams,
+}: {
+  searchParams: { [key: string]: string | undefined };
+}) => {
+  const { userId, sessionClaims } = auth();
+  const role = (sessionClaims?.metadata as { role?: string })?.role;
+  const currentUserId = userId;
+
+  // Teachers see the classes they teach or supervise
+  const classes = await prisma.class.findMany({
+    where: {
+      deletedAt: null,
+      academicYear: searchParams.academicYearId
+        ? { id: parseInt(searchParams.academicYearId) }
+        : { isCurrent: true },
+      ...(role === "teacher"
+        ? {
+            OR: [
+              { supervisorId: currentUserId! },
+              { lessons: { some: { teacherId: currentUserId! } } },
+            ],
+          }
+        : {}),
+    },
+    select: { id: true, name: true },
+    orderBy: { name: "asc" },
+  });
+
+  const classId = searchParams.classId
+    ? parseInt(searchParams.classId)
+    : classes[0]?.id;
+  const selectedClass = classes.find((item) => item.id === classId);
+
+  // Averages are per term, the current one by default
+  const terms = selectedClass
+    ? await prisma.term.findMany({
+        where: { academicYear: { classes: { some: { id: selectedClass.id } } } },
+        orderBy: { startDate: "asc" },
+      })
+    : [];
+  const currentTerm = await getCurrentTerm();
+  const termId = searchParams.termId
+    ? parseInt(searchParams.termId)
+    : terms.find((term) => term.id === currentTerm?.id)?.id ?? terms[0]?.id;
+
+  const [subjects, weights, students] = selectedClass
+    ? await Promise.all([
+        prisma.subject.findMany({
+          where: { lessons: { some: { classId: selectedClass.id } } },
+          select: { id: true, name: true },
+          orderBy: { name: "asc" },
+        }),
+        prisma.gradeWeight.findMany({ where: { classId: selectedClass.id } }),
+        getClassGradebook(selectedClass.id, termId),
+      ])
+    : [[], [], []];
+
+  return (
+    <div className="bg-white p-4 rounded-md flex-1 m-4 mt-0 flex flex-col gap-8">
+      {/* TOP */}
+      <div className="flex items-center justify-between">
+        <h1 className="text-lg font-semibold">Gradebook</h1>
+        <form className="flex items-center gap-4">
+          <select
+            name="classId"
+            defaultValue={classId}
+            className="ring-[1.5px] ring-gray-300 p-2 rounded-md text-sm"
+          >
+            {classes.map((item) => (
+              <option value={item.id} key={item.id}>
+                {item.name}
+              </option>
+            ))}
+          </select>
+          {terms.length > 0 && (
+            <select
+              name="termId"
+              defaultValue={termId}
+              className="ring-[1.5px] ring-gray-300 p-2 rounded-md text-sm"
+            >
+              {terms.map((term) => (
+                <option value={term.id} key={term.id}>
+                  {term.name}
+                </option>
+              ))}
+            </select>
+          )}
+          <button className="bg-blue-400 text-white p-2 rounded-md text-sm">
+            Show
+          </button>
+        </form>
+      </div>
+      {!selectedClass ? (
+        <span className="text-sm text-gray-400">No class to show.</span>
+      ) : (
+        <>
+          {/* WEIGHTS */}
+          <div className="flex flex-col gap-2">
+            <h2 className="font-semibold">Weighting</h2>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500">
+                  <th>Subject</th>
+                  <th>Exams</th>
+                  <th>Assignments</th>
+                  <th>Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {subjects.map((subject) => {
+                  const weight = weights.find(
+                    (item) => item.subjectId === subject.id
+                  );
+                  return (
+                    <tr
+                      key={subject.id}
+                      className="border-b border-gray-200 even:bg-slate-50"
+                    >
+                      <td className="p-2">{subject.name}</td>
+                      <td>
+                        {weight?.examWeight ??
+                          DEFAULT_CATEGORY_WEIGHTS.examWeight}
+                        %
+                      </td>
+                      <td>
+                        {weight?.assignmentWeight ??
+                          DEFAULT_CATEGORY_WEIGHTS.assignmentWeight}
+                        %{!weight && " (default)"}
+                      </td>
+                      <td>
+                        <div className="flex items-center gap-2 py-1">
+                          {weight ? (
+                            <>
+                              <FormContainer
+                                table="gradeWeight"
+                                type="update"
+                                data={weight}
+                              />
+                              <FormContainer
+                                table="gradeWeight"
+                                type="delete"
+                                id={weight.id}
+                              />
+                            </>
+                          ) : (
+                            <FormContainer
+                              table="gradeWeight"
+                              type="create"
+                              data={{
+                                classId: selectedClass.id,
+                                subjectId: subject.id,
+                              }}
+                            />
+                          )}
+                        </div>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+          {/* AVERAGES */}
+          <div className="flex flex-col gap-2 overflow-x-auto">
+            <h2 className="font-semibold">Averages</h2>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500">
+                  <th>Student</th>
+                  {subjects.map((subject) => (
+                    <th key={subject.id}>{subject.name}</th>
+                  ))}
+                  <th>Overall</th>
+                </tr>
+              </thead>
+              <tbody>
+                {students.map((student) => (
+                  <tr
+                    key={student.id}
+                    className="border-b border-gray-200 even:bg-slate-50 hover:bg-lamaPurpleLight"
+                  >
+                    <td className="p-2">
+                      <Link href={`/list/students/${student.id}`}>
+                        {student.name + " " + student.surname}
+                      </Link>
+                    </td>
+                    {subjects.map((subject) => {
+                      const average = student.subjects.find(
+                        (item) => item.subjectId === subject.id
+                      );
+                      return (
+                        <td key={subject.id}>
+                          {average
+                            ? `${formatPercent(average.average)} ${
+                                average.letter
+                              }`
+                            : "-"}
+                        </td>
+                      );
+                    })}
+                    <td className="font-semibold">
+                      {student.letter
+                        ? `${formatPercent(student.average)} ${student.letter}`
+                        : "-"}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default GradebookPage;
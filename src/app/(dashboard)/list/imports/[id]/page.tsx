@@ -0,0 +1,215 @@
+import ImportJobActions from "@/components/ImportJobActions";
+import ImportMappingForm from "@/components/ImportMappingForm";
+import Pagination from "@/components/Pagination";
+import Table from "@/components/Table";
+import { IMPORT_FIELDS, ImportMapping } from "@/lib/bulkImport";
+import prisma from "@/lib/prisma";
+import { ITEM_PER_PAGE } from "@/lib/settings";
+import { ImportRow, ImportRowStatus, Prisma } from "@prisma/client";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+
+const statusColors: Record<ImportRowStatus, string> = {
+  INVALID: "text-red-500",
+  READY: "text-blue-500",
+  DONE: "text-green-600",
+  FAILED: "text-orange-500",
+};
+
+const filters: { label: string; status?: ImportRowStatus }[] = [
+  { label: "All" },
+  { label: "Errors", status: "INVALID" },
+  { label: "Ready", status: "READY" },
+  { label: "Failed", status: "FAILED" },
+  { label: "Imported", status: "DONE" },
+];
+
+const SingleImportPage = async ({
+  params: { id },
+  searchParams,
+}: {
+  params: { id: string };
+  searchParams: { [key: string]: string | undefined };
+}) => {
+  const jobId = parseInt(id);
+
+  const job = await prisma.importJob.findUnique({
+    where: { id: jobId },
+    select: {
+      id: true,
+      entity: true,
+      fileName: true,
+      headers: true,
+      mapping: true,
+      status: true,
+      createdAt: true,
+    },
+  });
+
+  if (!job) {
+    return notFound();
+  }
+
+  const columns = [
+    {
+      header: "Row",
+      accessor: "index",
+    },
+    {
+      header: "Record",
+      accessor: "label",
+    },
+    {
+      header: "Action",
+      accessor: "action",
+      className: "hidden md:table-cell",
+    },
+    {
+      header: "Status",
+      accessor: "status",
+    },
+    {
+      header: "Errors",
+      accessor: "errors",
+    },
+  ];
+
+  const renderRow = (item: ImportRow) => (
+    <tr
+      key={item.id}
+      className="border-b border-gray-200 even:bg-slate-50 text-sm hover:bg-lamaPurpleLight"
+    >
+      {/* As numbered in a spreadsheet, below the header line */}
+      <td className="p-4">{item.index + 2}</td>
+      <td>{item.label}</td>
+      <td className="hidden md:table-cell capitalize">
+        {item.action?.toLowerCase() ?? "-"}
+      </td>
+      <td className={`capitalize ${statusColors[item.status]}`}>
+        {item.status.toLowerCase()}
+      </td>
+      <td className="text-xs text-gray-500">{item.errors.join("; ")}</td>
+    </tr>
+  );
+
+  const { page, status } = searchParams;
+
+  const p = page ? parseInt(page) : 1;
+
+  // URL PARAMS CONDITION
+
+  const query: Prisma.ImportRowWhereInput = { jobId };
+
+  if (status && status in statusColors) {
+    query.status = status as ImportRowStatus;
+  }
+
+  const [data, count] = await prisma.$transaction([
+    prisma.importRow.findMany({
+      where: query,
+      orderBy: { index: "asc" },
+      take: ITEM_PER_PAGE,
+      skip: ITEM_PER_PAGE * (p - 1),
+    }),
+    prisma.importRow.count({ where: query }),
+  ]);
+
+  const counts = await prisma.importRow.groupBy({
+    by: ["status", "action"],
+    where: { jobId },
+    _count: true,
+  });
+
+  const countOf = (match: (row: (typeof counts)[number]) => boolean) =>
+    counts.filter(match).reduce((sum, row) => sum + row._count, 0);
+
+  const toCreate = countOf(
+    (row) => row.action === "CREATE" && ["READY", "FAILED"].includes(row.status)
+  );
+  const toUpdate = countOf(
+    (row) => row.action === "UPDATE" && ["READY", "FAILED"].includes(row.status)
+  );
+  const invalid = countOf((row) => row.status === "INVALID");
+  const failed = countOf((row) => row.status === "FAILED");
+  const done = countOf((row) => row.status === "DONE");
+
+  return (
+    <div className="bg-white p-4 rounded-md flex-1 m-4 mt-0 flex flex-col gap-8">
+      {/* TOP */}
+      <div className="flex items-center justify-between">
+        <div className="flex flex-col">
+          <h1 className="text-lg font-semibold">{job.fileName}</h1>
+          <span className="text-xs text-gray-500 capitalize">
+            {job.entity.toLowerCase()}s · {job.status.toLowerCase()} ·
+            uploaded {new Intl.DateTimeFormat("en-US").format(job.createdAt)}
+          </span>
+        </div>
+        <Link href="/list/imports" className="text-blue-500 text-sm">
+          All imports
+        </Link>
+      </div>
+      {/* MAPPING */}
+      {job.status !== "COMPLETED" && (
+        <div className="flex flex-col gap-4">
+          <h2 className="font-semibold">Columns</h2>
+          <ImportMappingForm
+            id={job.id}
+            fields={IMPORT_FIELDS[job.entity]}
+            headers={job.headers}
+            mapping={(job.mapping ?? {}) as ImportMapping}
+          />
+        </div>
+      )}
+      {/* DRY RUN */}
+      {job.status !== "UPLOADED" && (
+        <div className="flex flex-col gap-4">
+          <div className="flex items-center justify-between">
+            <h2 className="font-semibold">Report</h2>
+            {job.status !== "COMPLETED" && (
+              <ImportJobActions jobId={job.id} pending={toCreate + toUpdate} />
+            )}
+          </div>
+          <div className="flex flex-col gap-1 text-sm">
+            <span>
+              {toCreate} to create, {toUpdate} to update, {done} imported.
+            </span>
+            {invalid > 0 && (
+              <span className="text-red-500">
+                {invalid} rows have errors and will be skipped. Fix the file or
+                the school&apos;s records and check the rows again.
+              </span>
+            )}
+            {failed > 0 && (
+              <span className="text-orange-500">
+                {failed} rows failed to save and will be retried on the next
+                import.
+              </span>
+            )}
+          </div>
+          <div className="flex items-center gap-4 text-sm">
+            {filters.map((filter) => (
+              <Link
+                key={filter.label}
+                href={`/list/imports/${job.id}${
+                  filter.status ? `?status=${filter.status}` : ""
+                }`}
+                className={
+                  status === filter.status
+                    ? "font-semibold"
+                    : "text-blue-500"
+                }
+              >
+                {filter.label}
+              </Link>
+            ))}
+          </div>
+          <Table columns={columns} renderRow={renderRow} data={data} />
+          {/* PAGINATION */}
+          <Pagination page={p} count={count} />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SingleImportPage;
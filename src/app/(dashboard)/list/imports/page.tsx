@@ -0,0 +1,127 @@
+import ImportUploadForm from "@/components/ImportUploadForm";
+import Pagination from "@/components/Pagination";
+import Table from "@/components/Table";
+import prisma from "@/lib/prisma";
+import { ITEM_PER_PAGE } from "@/lib/settings";
+import { ImportJob, Prisma } from "@prisma/client";
+import Image from "next/image";
+import Link from "next/link";
+
+type ImportList = Pick<
+  ImportJob,
+  "id" | "entity" | "fileName" | "status" | "createdAt"
+> & { _count: { results: number } };
+
+const ImportListPage = async ({
+  searchParams,
+}: {
+  searchParams: { [key: string]: string | undefined };
+}) => {
+  const columns = [
+    {
+      header: "File",
+      accessor: "fileName",
+    },
+    {
+      header: "Records",
+      accessor: "entity",
+    },
+    {
+      header: "Status",
+      accessor: "status",
+    },
+    {
+      header: "Imported",
+      accessor: "done",
+      className: "hidden md:table-cell",
+    },
+    {
+      header: "Uploaded",
+      accessor: "createdAt",
+      className: "hidden md:table-cell",
+    },
+    {
+      header: "Actions",
+      accessor: "action",
+    },
+  ];
+
+  const renderRow = (item: ImportList) => (
+    <tr
+      key={item.id}
+      className="border-b border-gray-200 even:bg-slate-50 text-sm hover:bg-lamaPurpleLight"
+    >
+      <td className="p-4">{item.fileName}</td>
+      <td className="capitalize">{item.entity.toLowerCase()}s</td>
+      <td className="capitalize">{item.status.toLowerCase()}</td>
+      <td className="hidden md:table-cell">{item._count.results}</td>
+      <td className="hidden md:table-cell">
+        {new Intl.DateTimeFormat("en-US").format(item.createdAt)}
+      </td>
+      <td>
+        <Link href={`/list/imports/${item.id}`}>
+          <button className="w-7 h-7 flex items-center justify-center rounded-full bg-lamaSky">
+            <Image src="/view.png" alt="" width={16} height={16} />
+          </button>
+        </Link>
+      </td>
+    </tr>
+  );
+
+  const { page, ...queryParams } = searchParams;
+
+  const p = page ? parseInt(page) : 1;
+
+  // URL PARAMS CONDITION
+
+  const query: Prisma.ImportJobWhereInput = {};
+
+  if (queryParams) {
+    for (const [key, value] of Object.entries(queryParams)) {
+      if (value !== undefined) {
+        switch (key) {
+          case "entity":
+            query.entity = value as ImportJob["entity"];
+            break;
+          default:
+            break;
+        }
+      }
+    }
+  }
+
+  const [data, count] = await prisma.$transaction([
+    prisma.importJob.findMany({
+      where: query,
+      select: {
+        id: true,
+        entity: true,
+        fileName: true,
+        status: true,
+        createdAt: true,
+        _count: { select: { results: { where: { status: "DONE" } } } },
+      },
+      orderBy: { createdAt: "desc" },
+      take: ITEM_PER_PAGE,
+      skip: ITEM_PER_PAGE * (p - 1),
+    }),
+    prisma.importJob.count({ where: query }),
+  ]);
+
+  return (
+    <div className="bg-white p-4 rounded-md flex-1 m-4 mt-0 flex flex-col gap-8">
+      {/* TOP */}
+      <h1 className="text-lg font-semibold">Import</h1>
+      <ImportUploadForm />
+      {/* LIST */}
+      <div>
+        <h2 className="font-semibold">Previous imports</h2>
+        <Table columns={columns} renderRow={renderRow} data={data} />
+        {/* PAGINATION */}
+        <Pagination page={p} count={count} />
+      </div>
+    </div>
+  );
+};
+
+export default ImportListPage;
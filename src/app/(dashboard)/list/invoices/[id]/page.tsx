@@ -0,0 +1,171 @@
+import FormContainer from "@/components/FormContainer";
+import InvoiceStatusBadge from "@/components/InvoiceStatusBadge";
+import Table from "@/components/Table";
+import {
+  formatMoney,
+  getInvoiceStatus,
+  getInvoiceTotals,
+} from "@/lib/finance";
+import { authorize } from "@/lib/policy";
+import prisma from "@/lib/prisma";
+import { Payment } from "@prisma/client";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+
+const methodLabels: Record<Payment["method"], string> = {
+  CASH: "Cash",
+  CARD: "Card",
+  BANK_TRANSFER: "Bank transfer",
+  CHEQUE: "Cheque",
+};
+
+const formatDate = (date: Date) =>
+  new Intl.DateTimeFormat("en-US", { timeZone: "UTC" }).format(date);
+
+const SingleInvoicePage = async ({
+  params: { id },
+}: {
+  params: { id: string };
+}) => {
+  const invoiceId = parseInt(id);
+
+  const actor = await authorize("invoice", "read", { id: invoiceId });
+  if (!actor) {
+    return notFound();
+  }
+
+  const invoice = await prisma.invoice.findUnique({
+    where: { id: invoiceId },
+    include: {
+      student: { include: { class: true } },
+      parent: true,
+      payments: { orderBy: { paidAt: "asc" } },
+    },
+  });
+
+  if (!invoice) {
+    return notFound();
+  }
+
+  const { total, paid, balance } = getInvoiceTotals(invoice);
+  const isAdmin = actor.role === "admin";
+
+  const columns = [
+    {
+      header: "Paid on",
+      accessor: "paidAt",
+    },
+    {
+      header: "Amount",
+      accessor: "amount",
+    },
+    {
+      header: "Method",
+      accessor: "method",
+      className: "hidden md:table-cell",
+    },
+    {
+      header: "Reference",
+      accessor: "reference",
+      className: "hidden md:table-cell",
+    },
+    ...(isAdmin
+      ? [
+          {
+            header: "Actions",
+            accessor: "action",
+          },
+        ]
+      : []),
+  ];
+
+  const renderRow = (item: Payment) => (
+    <tr
+      key={item.id}
+      className="border-b border-gray-200 even:bg-slate-50 text-sm hover:bg-lamaPurpleLight"
+    >
+      <td className="p-4">{formatDate(item.paidAt)}</td>
+      <td>{formatMoney(item.amount)}</td>
+      <td className="hidden md:table-cell">{methodLabels[item.method]}</td>
+      <td className="hidden md:table-cell">{item.reference ?? "-"}</td>
+      {isAdmin && (
+        <td>
+          <div className="flex items-center gap-2">
+            <FormContainer table="payment" type="update" data={item} />
+            <FormContainer table="payment" type="delete" id={item.id} />
+          </div>
+        </td>
+      )}
+    </tr>
+  );
+
+  const amounts = [
+    { label: "Amount", value: invoice.amount },
+    { label: "Discount", value: invoice.discount.negated() },
+    { label: "Total", value: total },
+    { label: "Paid", value: paid },
+    { label: "Balance", value: balance },
+  ];
+
+  return (
+    <div className="bg-white p-4 rounded-md flex-1 m-4 mt-0 flex flex-col gap-4">
+      {/* TOP */}
+      <div className="flex items-center justify-between">
+        <div className="flex flex-col gap-1">
+          <h1 className="text-lg font-semibold">
+            {invoice.title}{" "}
+            <span className="text-sm text-gray-400">#{invoice.id}</span>
+          </h1>
+          <span className="text-sm text-gray-500">
+            {invoice.student.name} {invoice.student.surname}, class{" "}
+            {invoice.student.class.name}. Billed to {invoice.parent.name}{" "}
+            {invoice.parent.surname}.
+          </span>
+          <span className="text-xs text-gray-400">
+            Issued {formatDate(invoice.issuedAt)}, due{" "}
+            {formatDate(invoice.dueDate)}
+          </span>
+        </div>
+        <InvoiceStatusBadge status={getInvoiceStatus(invoice)} />
+      </div>
+      {/* AMOUNTS */}
+      <div className="flex gap-4 flex-wrap">
+        {amounts.map((amount) => (
+          <div
+            key={amount.label}
+            className="bg-lamaSkyLight rounded-md p-4 flex-1 min-w-[120px]"
+          >
+            <h2 className="text-xs text-gray-500">{amount.label}</h2>
+            <span className="text-lg font-semibold">
+              {formatMoney(amount.value)}
+            </span>
+          </div>
+        ))}
+      </div>
+      {/* PAYMENTS */}
+      <div className="flex items-center justify-between">
+        <h2 className="font-semibold">Payments</h2>
+        {isAdmin && balance.gt(0) && (
+          <FormContainer
+            table="payment"
+            type="create"
+            data={{ invoiceId: invoice.id }}
+          />
+        )}
+      </div>
+      {invoice.payments.length ? (
+        <Table columns={columns} renderRow={renderRow} data={invoice.payments} />
+      ) : (
+        <p className="text-sm text-gray-400">No payments yet</p>
+      )}
+      <Link
+        href="/list/invoices"
+        className="text-sm text-gray-500 hover:underline self-start"
+      >
+        Back to invoices
+      </Link>
+    </div>
+  );
+};
+
+export default SingleInvoicePage;
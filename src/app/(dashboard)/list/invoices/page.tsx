@@ -0,0 +1,157 @@
+import ExportMenu from "@/components/ExportMenu";
+import FormContainer from "@/components/FormContainer";
+import InvoiceStatusBadge from "@/components/InvoiceStatusBadge";
+import Pagination from "@/components/Pagination";
+import Table from "@/components/Table";
+import TableSearch from "@/components/TableSearch";
+import {
+  formatMoney,
+  getInvoiceStatus,
+  getInvoiceTotals,
+} from "@/lib/finance";
+import { getInvoiceQuery } from "@/lib/listQueries";
+import prisma from "@/lib/prisma";
+import { ITEM_PER_PAGE } from "@/lib/settings";
+import { auth } from "@clerk/nextjs/server";
+import { Invoice, Payment, Student } from "@prisma/client";
+import Image from "next/image";
+import Link from "next/link";
+
+type InvoiceList = Invoice & { student: Student; payments: Payment[] };
+
+const InvoiceListPage = async ({
+  searchParams,
+}: {
+  searchParams: { [key: string]: string | undefined };
+}) => {
+  const { userId, sessionClaims } = auth();
+  const role = (sessionClaims?.metadata as { role?: string })?.role;
+  const currentUserId = userId;
+
+  const columns = [
+    {
+      header: "Invoice",
+      accessor: "title",
+    },
+    {
+      header: "Student",
+      accessor: "student",
+      className: "hidden md:table-cell",
+    },
+    {
+      header: "Due date",
+      accessor: "dueDate",
+      className: "hidden md:table-cell",
+    },
+    {
+      header: "Total",
+      accessor: "total",
+      className: "hidden lg:table-cell",
+    },
+    {
+      header: "Balance",
+      accessor: "balance",
+    },
+    {
+      header: "Status",
+      accessor: "status",
+    },
+    {
+      header: "Actions",
+      accessor: "action",
+    },
+  ];
+
+  const formatDate = (date: Date) =>
+    new Intl.DateTimeFormat("en-US", { timeZone: "UTC" }).format(date);
+
+  const renderRow = (item: InvoiceList) => {
+    const { total, balance } = getInvoiceTotals(item);
+    return (
+      <tr
+        key={item.id}
+        className="border-b border-gray-200 even:bg-slate-50 text-sm hover:bg-lamaPurpleLight"
+      >
+        <td className="p-4">
+          <div className="flex flex-col">
+            <span className="font-semibold">{item.title}</span>
+            <span className="text-xs text-gray-500">#{item.id}</span>
+          </div>
+        </td>
+        <td className="hidden md:table-cell">
+          {item.student.name + " " + item.student.surname}
+        </td>
+        <td className="hidden md:table-cell">{formatDate(item.dueDate)}</td>
+        <td className="hidden lg:table-cell">{formatMoney(total)}</td>
+        <td>{formatMoney(balance)}</td>
+        <td>
+          <InvoiceStatusBadge status={getInvoiceStatus(item)} />
+        </td>
+        <td>
+          <div className="flex items-center gap-2">
+            <Link href={`/list/invoices/${item.id}`}>
+              <button className="w-7 h-7 flex items-center justify-center rounded-full bg-lamaSky">
+                <Image src="/view.png" alt="" width={16} height={16} />
+              </button>
+            </Link>
+            {role === "admin" && (
+              <>
+                <FormContainer table="invoice" type="update" data={item} />
+                <FormContainer table="invoice" type="delete" id={item.id} />
+              </>
+            )}
+          </div>
+        </td>
+      </tr>
+    );
+  };
+
+  const { page, ...queryParams } = searchParams;
+
+  const p = page ? parseInt(page) : 1;
+
+  // URL PARAMS CONDITION
+
+  const query = getInvoiceQuery(queryParams, { userId: currentUserId!, role });
+
+  const [data, count] = await prisma.$transaction([
+    prisma.invoice.findMany({
+      where: query,
+      include: { student: true, payments: true },
+      orderBy: [{ dueDate: "desc" }, { id: "desc" }],
+      take: ITEM_PER_PAGE,
+      skip: ITEM_PER_PAGE * (p - 1),
+    }),
+    prisma.invoice.count({ where: query }),
+  ]);
+
+  return (
+    <div className="bg-white p-4 rounded-md flex-1 m-4 mt-0">
+      {/* TOP */}
+      <div className="flex items-center justify-between">
+        <h1 className="hidden md:block text-lg font-semibold">Invoices</h1>
+        <div className="flex flex-col md:flex-row items-center gap-4 w-full md:w-auto">
+          <TableSearch />
+          <div className="flex items-center gap-4 self-end">
+            <button className="w-8 h-8 flex items-center justify-center rounded-full bg-lamaYellow">
+              <Image src="/filter.png" alt="" width={14} height={14} />
+            </button>
+            <button className="w-8 h-8 flex items-center justify-center rounded-full bg-lamaYellow">
+              <Image src="/sort.png" alt="" width={14} height={14} />
+            </button>
+            <ExportMenu list="invoices" />
+            {role === "admin" && (
+              <FormContainer table="invoice" type="create" />
+            )}
+          </div>
+        </div>
+      </div>
+      {/* LIST */}
+      <Table columns={columns} renderRow={renderRow} data={data} />
+      {/* PAGINATION */}
+      <Pagination page={p} count={count} />
+    </div>
+  );
+};
+
+export default InvoiceListPage;
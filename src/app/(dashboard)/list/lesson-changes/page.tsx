@@ -0,0 +1,150 @@
+import ExportMenu from "@/components/ExportMenu";
+import FormContainer from "@/components/FormContainer";
+import Pagination from "@/components/Pagination";
+import Table from "@/components/Table";
+import TableSearch from "@/components/TableSearch";
+import { getLessonChangeQuery } from "@/lib/listQueries";
+import prisma from "@/lib/prisma";
+import { ITEM_PER_PAGE } from "@/lib/settings";
+import { Class, Lesson, LessonException, Room, Teacher } from "@prisma/client";
+import Image from "next/image";
+import { auth } from "@clerk/nextjs/server";
+
+type LessonChangeList = LessonException & {
+  lesson: Lesson & { class: Class };
+} & { substituteTeacher: Teacher | null } & { room: Room | null };
+
+const LessonChangeListPage = async ({
+  searchParams,
+}: {
+  searchParams: { [key: string]: string | undefined };
+}) => {
+  const { userId, sessionClaims } = auth();
+  const role = (sessionClaims?.metadata as { role?: string })?.role;
+  const currentUserId = userId;
+
+  const columns = [
+    {
+      header: "Date",
+      accessor: "date",
+    },
+    {
+      header: "Lesson",
+      accessor: "lesson",
+    },
+    {
+      header: "Class",
+      accessor: "class",
+      className: "hidden md:table-cell",
+    },
+    {
+      header: "Change",
+      accessor: "change",
+    },
+    {
+      header: "Reason",
+      accessor: "reason",
+      className: "hidden md:table-cell",
+    },
+    ...(role === "admin"
+      ? [
+          {
+            header: "Actions",
+            accessor: "action",
+          },
+        ]
+      : []),
+  ];
+
+  const renderRow = (item: LessonChangeList) => (
+    <tr
+      key={item.id}
+      className="border-b border-gray-200 even:bg-slate-50 text-sm hover:bg-lamaPurpleLight"
+    >
+      <td className="p-4">
+        {new Intl.DateTimeFormat("en-US", { timeZone: "UTC" }).format(
+          item.date
+        )}
+      </td>
+      <td>{item.lesson.name}</td>
+      <td className="hidden md:table-cell">{item.lesson.class.name}</td>
+      <td>
+        {item.cancelled
+          ? "Cancelled"
+          : [
+              item.substituteTeacher &&
+                `Cover: ${item.substituteTeacher.name} ${item.substituteTeacher.surname}`,
+              item.room && `Room: ${item.room.name}`,
+            ]
+              .filter(Boolean)
+              .join(", ")}
+      </td>
+      <td className="hidden md:table-cell">{item.reason ?? "-"}</td>
+      <td>
+        <div className="flex items-center gap-2">
+          {role === "admin" && (
+            <>
+              <FormContainer table="lessonException" type="update" data={item} />
+              <FormContainer table="lessonException" type="delete" id={item.id} />
+            </>
+          )}
+        </div>
+      </td>
+    </tr>
+  );
+
+  const { page, ...queryParams } = searchParams;
+
+  const p = page ? parseInt(page) : 1;
+
+  // URL PARAMS CONDITION
+
+  const query = getLessonChangeQuery(queryParams, { userId: currentUserId!, role });
+
+  const [data, count] = await prisma.$transaction([
+    prisma.lessonException.findMany({
+      where: query,
+      include: {
+        lesson: { include: { class: { select: { name: true } } } },
+        substituteTeacher: { select: { name: true, surname: true } },
+        room: { select: { name: true } },
+      },
+      orderBy: { date: "asc" },
+      take: ITEM_PER_PAGE,
+      skip: ITEM_PER_PAGE * (p - 1),
+    }),
+    prisma.lessonException.count({ where: query }),
+  ]);
+
+  return (
+    <div className="bg-white p-4 rounded-md flex-1 m-4 mt-0">
+      {/* TOP */}
+      <div className="flex items-center justify-between">
+        <h1 className="hidden md:block text-lg font-semibold">
+          Lesson Changes
+        </h1>
+        <div className="flex flex-col md:flex-row items-center gap-4 w-full md:w-auto">
+          <TableSearch />
+          <div className="flex items-center gap-4 self-end">
+            <button className="w-8 h-8 flex items-center justify-center rounded-full bg-lamaYellow">
+              <Image src="/filter.png" alt="" width={14} height={14} />
+            </button>
+            <button className="w-8 h-8 flex items-center justify-center rounded-full bg-lamaYellow">
+              <Image src="/sort.png" alt="" width={14} height={14} />
+            </button>
+            <ExportMenu list="lesson-changes" />
+            {role === "admin" && (
+              <FormContainer table="lessonException" type="create" />
+            )}
+          </div>
+        </div>
+      </div>
+      {/* LIST */}
+      <Table columns={columns} renderRow={renderRow} data={data} />
+      {/* PAGINATION */}
+      <Pagination page={p} count={count} />
+    </div>
+  );
+};
+
+export default LessonChangeListPage;
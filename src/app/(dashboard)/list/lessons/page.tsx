@@ -1,16 +1,18 @@
+import ExportMenu from "@/components/ExportMenu";
 import FormContainer from "@/components/FormContainer";
 import Pagination from "@/components/Pagination";
 import Table from "@/components/Table";
 import TableSearch from "@/components/TableSearch";
+import { getLessonQuery } from "@/lib/listQueries";
 import prisma from "@/lib/prisma";
 import { ITEM_PER_PAGE } from "@/lib/settings";
-import { Class, Lesson, Prisma, Subject, Teacher } from "@prisma/client";
+import { Class, Lesson, Room, Subject, Teacher } from "@prisma/client";
 import Image from "next/image";
 import { auth } from "@clerk/nextjs/server";
 
 type LessonList = Lesson & { subject: Subject } & { class: Class } & {
   teacher: Teacher;
-};
+} & { room: Room | null };
 
 
 const LessonListPage = async ({
@@ -37,6 +39,11 @@ const columns = [
     accessor: "teacher",
     className: "hidden md:table-cell",
   },
+  {
+    header: "Room",
+    accessor: "room",
+    className: "hidden md:table-cell",
+  },
   ...(role === "admin"
     ? [
         {
@@ -57,6 +64,7 @@ const renderRow = (item: LessonList) => (
     <td className="hidden md:table-cell">
       {item.teacher.name + " " + item.teacher.surname}
     </td>
+    <td className="hidden md:table-cell">{item.room?.name ?? "-"}</td>
     <td>
       <div className="flex items-center gap-2">
         {role === "admin" && (
@@ -76,30 +84,7 @@ const renderRow = (item: LessonList) => (
 
   // URL PARAMS CONDITION
 
-  const query: Prisma.LessonWhereInput = {};
-
-  if (queryParams) {
-    for (const [key, value] of Object.entries(queryParams)) {
-      if (value !== undefined) {
-        switch (key) {
-          case "classId":
-            query.classId = parseInt(value);
-            break;
-          case "teacherId":
-            query.teacherId = value;
-            break;
-          case "search":
-            query.OR = [
-              { subject: { name: { contains: value, mode: "insensitive" } } },
-              { teacher: { name: { contains: value, mode: "insensitive" } } },
-            ];
-            break;
-          default:
-            break;
-        }
-      }
-    }
-  }
+  const query = getLessonQuery(queryParams);
 
   const [data, count] = await prisma.$transaction([
     prisma.lesson.findMany({
@@ -108,6 +93,7 @@ const renderRow = (item: LessonList) => (
         subject: { select: { name: true } },
         class: { select: { name: true } },
         teacher: { select: { name: true, surname: true } },
+        room: { select: { name: true } },
       },
       take: ITEM_PER_PAGE,
       skip: ITEM_PER_PAGE * (p - 1),
@@ -129,6 +115,7 @@ const renderRow = (item: LessonList) => (
             <button className="w-8 h-8 flex items-center justify-center rounded-full bg-lamaYellow">
               <Image src="/sort.png" alt="" width={14} height={14} />
             </button>
+            <ExportMenu list="lessons" />
             {role === "admin" && <FormContainer table="lesson" type="create" />}
           </div>
         </div>
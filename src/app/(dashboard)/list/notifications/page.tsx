@@ -0,0 +1,141 @@
+import MarkReadButton from "@/components/MarkReadButton";
+import Pagination from "@/components/Pagination";
+import Table from "@/components/Table";
+import NotificationPreferencesForm from "@/components/forms/NotificationPreferencesForm";
+import { isEmailEnabled } from "@/lib/mailer";
+import { getNotificationPreferences } from "@/lib/notifications";
+import prisma from "@/lib/prisma";
+import { ITEM_PER_PAGE } from "@/lib/settings";
+import { auth } from "@clerk/nextjs/server";
+import { Notification, Prisma } from "@prisma/client";
+import Link from "next/link";
+
+const formatDateTime = (date: Date) =>
+  date.toLocaleString("en-US", { dateStyle: "medium", timeStyle: "short" });
+
+const columns = [
+  {
+    header: "Notification",
+    accessor: "title",
+  },
+  {
+    header: "Received",
+    accessor: "createdAt",
+    className: "hidden md:table-cell",
+  },
+  {
+    header: "Actions",
+    accessor: "action",
+  },
+];
+
+const renderRow = (item: Notification) => (
+  <tr
+    key={item.id}
+    className={`border-b border-gray-200 text-sm hover:bg-lamaPurpleLight ${
+      item.readAt ? "" : "bg-lamaSkyLight"
+    }`}
+  >
+    <td className="p-4">
+      <div className="flex flex-col gap-1">
+        <h3 className={item.readAt ? "" : "font-semibold"}>{item.title}</h3>
+        <p className="text-xs text-gray-500">{item.body}</p>
+      </div>
+    </td>
+    <td className="hidden md:table-cell">{formatDateTime(item.createdAt)}</td>
+    <td>
+      <div className="flex items-center gap-2">
+        {item.link &&
+          (item.readAt ? (
+            <Link
+              href={item.link}
+              className="bg-lamaSky p-2 rounded-md text-xs"
+            >
+              Open
+            </Link>
+          ) : (
+            <MarkReadButton id={item.id} link={item.link} label="Open" />
+          ))}
+        {!item.readAt && <MarkReadButton id={item.id} label="Mark read" />}
+      </div>
+    </td>
+  </tr>
+);
+
+const NotificationsPage = async ({
+  searchParams,
+}: {
+  searchParams: { [key: string]: string | undefined };
+}) => {
+  const { userId } = auth();
+
+  const { page, unread } = searchParams;
+  const p = page ? parseInt(page) : 1;
+
+  const query: Prisma.NotificationWhereInput = {
+    userId: userId!,
+    inApp: true,
+    ...(unread === "true" && { readAt: null }),
+  };
+
+  const [data, count, unreadCount] = await prisma.$transaction([
+    prisma.notification.findMany({
+      where: query,
+      orderBy: { createdAt: "desc" },
+      take: ITEM_PER_PAGE,
+      skip: ITEM_PER_PAGE * (p - 1),
+    }),
+    prisma.notification.count({ where: query }),
+    prisma.notification.count({
+      where: { userId: userId!, inApp: true, readAt: null },
+    }),
+  ]);
+
+  const preferences = await getNotificationPreferences(userId!);
+
+  return (
+    <div className="flex-1 m-4 mt-0 flex flex-col gap-4">
+      <div className="bg-white p-4 rounded-md">
+        {/* TOP */}
+        <div className="flex items-center justify-between">
+          <h1 className="text-lg font-semibold">
+            Notifications{" "}
+            <span className="text-sm font-normal text-gray-500">
+              ({unreadCount} unread)
+            </span>
+          </h1>
+          <div className="flex items-center gap-4">
+            <Link
+              href={
+                unread === "true"
+                  ? "/list/notifications"
+                  : "/list/notifications?unread=true"
+              }
+              className="text-xs text-gray-500 underline"
+            >
+              {unread === "true" ? "Show all" : "Only unread"}
+            </Link>
+            {unreadCount > 0 && <MarkReadButton label="Mark all as read" />}
+          </div>
+        </div>
+        {/* LIST */}
+        {data.length ? (
+          <Table columns={columns} renderRow={renderRow} data={data} />
+        ) : (
+          <p className="mt-4 text-sm text-gray-400">Nothing new.</p>
+        )}
+        {/* PAGINATION */}
+        <Pagination page={p} count={count} />
+      </div>
+      <div className="bg-white p-4 rounded-md">
+        <h2 className="text-lg font-semibold mb-2">Settings</h2>
+        <NotificationPreferencesForm
+          preferences={preferences}
+          emailEnabled={isEmailEnabled()}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default NotificationsPage;
@@ -1,15 +1,18 @@
+import ExportMenu from "@/components/ExportMenu";
 import FormContainer from "@/components/FormContainer";
 import Pagination from "@/components/Pagination";
 import Table from "@/components/Table";
 import TableSearch from "@/components/TableSearch";
+import { RELATIONSHIP_LABELS } from "@/lib/guardians";
+import { getParentQuery } from "@/lib/listQueries";
 import prisma from "@/lib/prisma";
 import { ITEM_PER_PAGE } from "@/lib/settings";
-import { Parent, Prisma, Student } from "@prisma/client";
+import { Guardian, Parent, Student } from "@prisma/client";
 import Image from "next/image";
 
 import { auth } from "@clerk/nextjs/server";
 
-type ParentList = Parent & { students: Student[] };
+type ParentList = Parent & { children: (Guardian & { student: Student })[] };
 
 const ParentListPage = async ({
   searchParams,
@@ -63,7 +66,14 @@ const renderRow = (item: ParentList) => (
       </div>
     </td>
     <td className="hidden md:table-cell">
-      {item.students.map((student) => student.name).join(",")}
+      {item.children
+        .map(
+          (guardian) =>
+            `${guardian.student.name} (${
+              RELATIONSHIP_LABELS[guardian.relationship]
+            })`
+        )
+        .join(", ")}
     </td>
     <td className="hidden md:table-cell">{item.phone}</td>
     <td className="hidden md:table-cell">{item.address}</td>
@@ -86,27 +96,13 @@ const renderRow = (item: ParentList) => (
 
   // URL PARAMS CONDITION
 
-  const query: Prisma.ParentWhereInput = {};
-
-  if (queryParams) {
-    for (const [key, value] of Object.entries(queryParams)) {
-      if (value !== undefined) {
-        switch (key) {
-          case "search":
-            query.name = { contains: value, mode: "insensitive" };
-            break;
-          default:
-            break;
-        }
-      }
-    }
-  }
+  const query = getParentQuery(queryParams);
 
   const [data, count] = await prisma.$transaction([
     prisma.parent.findMany({
       where: query,
       include: {
-        students: true,
+        children: { include: { student: true } },
       },
       take: ITEM_PER_PAGE,
       skip: ITEM_PER_PAGE * (p - 1),
@@ -128,6 +124,7 @@ const renderRow = (item: ParentList) => (
             <button className="w-8 h-8 flex items-center justify-center rounded-full bg-lamaYellow">
               <Image src="/sort.png" alt="" width={14} height={14} />
             </button>
+            <ExportMenu list="parents" />
             {role === "admin" && <FormContainer table="parent" type="create" />}
           </div>
         </div>
@@ -0,0 +1,65 @@
+import ExportMenu from "@/components/ExportMenu";
+import FormContainer from "@/components/FormContainer";
+import Table from "@/components/Table";
+import prisma from "@/lib/prisma";
+import { Period } from "@prisma/client";
+
+// Periods make up one school day, so they are listed in full and in order
+const PeriodListPage = async () => {
+  const columns = [
+    {
+      header: "Name",
+      accessor: "name",
+    },
+    {
+      header: "Start",
+      accessor: "startTime",
+    },
+    {
+      header: "End",
+      accessor: "endTime",
+    },
+    {
+      header: "Actions",
+      accessor: "action",
+    },
+  ];
+
+  const renderRow = (item: Period) => (
+    <tr
+      key={item.id}
+      className="border-b border-gray-200 even:bg-slate-50 text-sm hover:bg-lamaPurpleLight"
+    >
+      <td className="flex items-center gap-4 p-4">{item.name}</td>
+      <td>{item.startTime}</td>
+      <td>{item.endTime}</td>
+      <td>
+        <div className="flex items-center gap-2">
+          <FormContainer table="period" type="update" data={item} />
+          <FormContainer table="period" type="delete" id={item.id} />
+        </div>
+      </td>
+    </tr>
+  );
+
+  const data = await prisma.period.findMany({
+    orderBy: { startTime: "asc" },
+  });
+
+  return (
+    <div className="bg-white p-4 rounded-md flex-1 m-4 mt-0">
+      {/* TOP */}
+      <div className="flex items-center justify-between">
+        <h1 className="text-lg font-semibold">Periods</h1>
+        <div className="flex items-center gap-4">
+          <ExportMenu list="periods" />
+          <FormContainer table="period" type="create" />
+        </div>
+      </div>
+      {/* LIST */}
+      <Table columns={columns} renderRow={renderRow} data={data} />
+    </div>
+  );
+};
+
+export default PeriodListPage;
@@ -0,0 +1,215 @@
+import ReportCardCommentForm from "@/components/ReportCardCommentForm";
+import { formatPercent } from "@/lib/gradebook";
+import { authorize } from "@/lib/policy";
+import prisma from "@/lib/prisma";
+import { getSummary, reportCardInclude } from "@/lib/reportCards";
+import { notFound } from "next/navigation";
+
+const formatDate = (date: Date) =>
+  new Intl.DateTimeFormat("en-US", { timeZone: "UTC" }).format(date);
+
+const SingleReportCardPage = async ({
+  params: { id },
+}: {
+  params: { id: string };
+}) => {
+  const cardId = parseInt(id);
+
+  const actor = await authorize("reportCard", "read", { id: cardId });
+  if (!actor) {
+    return notFound();
+  }
+
+  const card = await prisma.reportCard.findUnique({
+    where: { id: cardId },
+    include: reportCardInclude,
+  });
+
+  if (!card) {
+    return notFound();
+  }
+
+  const summary = getSummary(card);
+  const { template } = card;
+
+  // Comments can be written until the card is published
+  const editable = !card.releaseDate;
+  const taughtSubjects =
+    editable && actor.role === "teacher"
+      ? (
+          await prisma.lesson.findMany({
+            where: { classId: card.classId, teacherId: actor.userId },
+            select: { subjectId: true },
+          })
+        ).map((lesson) => lesson.subjectId)
+      : [];
+  const canComment = (subjectId: number) =>
+    editable &&
+    (actor.role === "admin" || taughtSubjects.includes(subjectId));
+  const canCommentAsSupervisor =
+    editable &&
+    (actor.role === "admin" || card.class.supervisorId === actor.userId);
+
+  return (
+    <div className="flex-1 p-4 flex flex-col gap-4">
+      {/* TOP */}
+      <div className="bg-white p-4 rounded-md flex flex-col gap-2">
+        <div className="flex items-center justify-between">
+          <div className="flex flex-col gap-1">
+            <span className="text-xs text-gray-500">{template.heading}</span>
+            <h1 className="text-xl font-semibold">
+              {card.student.name + " " + card.student.surname}
+            </h1>
+            <span className="text-sm text-gray-500">
+              Class {card.class.name} · {card.term.name}{" "}
+              {card.term.academicYear.name} ·{" "}
+              {card.releaseDate
+                ? `Published for ${formatDate(card.releaseDate)}`
+                : "Draft"}
+            </span>
+          </div>
+          <a
+            href={`/list/report-cards/pdf?id=${card.id}`}
+            className="bg-lamaSky p-2 rounded-md text-sm"
+          >
+            Download PDF
+          </a>
+        </div>
+      </div>
+      {/* SUBJECTS */}
+      <div className="bg-white p-4 rounded-md flex flex-col gap-4">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-500">
+              <th className="p-2">Subject</th>
+              <th className="hidden md:table-cell">Teacher</th>
+              {template.showCategories && (
+                <>
+                  <th className="hidden md:table-cell">Exams</th>
+                  <th className="hidden md:table-cell">Assignments</th>
+                </>
+              )}
+              <th>Average</th>
+              <th>Grade</th>
+            </tr>
+          </thead>
+          <tbody>
+            {summary.subjects.map((subject) => (
+              <tr
+                key={subject.subjectId}
+                className="border-b border-gray-200 even:bg-slate-50"
+              >
+                <td className="p-2">{subject.subjectName}</td>
+                <td className="hidden md:table-cell">
+                  {subject.teacher ?? "-"}
+                </td>
+                {template.showCategories && (
+                  <>
+                    <td className="hidden md:table-cell">
+                      {formatPercent(subject.examAverage)}
+                    </td>
+                    <td className="hidden md:table-cell">
+                      {formatPercent(subject.assignmentAverage)}
+                    </td>
+                  </>
+                )}
+                <td>{formatPercent(subject.average)}</td>
+                <td className="font-semibold">{subject.letter ?? "-"}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <div className="flex flex-wrap gap-8 text-sm">
+          <span className="font-semibold">
+            Overall: {formatPercent(summary.average)} {summary.letter ?? ""}
+          </span>
+          {template.showAttendance && (
+            <span>
+              Attendance: {formatPercent(summary.attendance.percent)} (
+              {summary.attendance.present} of {summary.attendance.total}{" "}
+              lessons)
+            </span>
+          )}
+          {template.showRank && summary.rank && (
+            <span>
+              Class rank: {summary.rank} of {summary.rankedStudents}
+            </span>
+          )}
+        </div>
+        <span className="text-xs text-gray-400">
+          Generated {card.generatedAt.toLocaleString("en-US")}
+        </span>
+      </div>
+      {/* COMMENTS */}
+      <div className="bg-white p-4 rounded-md flex flex-col gap-4">
+        <h2 className="font-semibold">Comments</h2>
+        {summary.subjects.map((subject) => {
+          const comment = card.comments.find(
+            (item) => item.subjectId === subject.subjectId
+          );
+          if (!comment && !canComment(subject.subjectId)) return null;
+          return (
+            <div key={subject.subjectId} className="flex flex-col gap-1">
+              <span className="text-sm font-medium">
+                {subject.subjectName}
+                {comment && (
+                  <span className="text-xs text-gray-500 font-normal">
+                    {" "}
+                    ({comment.teacher.name + " " + comment.teacher.surname})
+                  </span>
+                )}
+              </span>
+              {canComment(subject.subjectId) ? (
+                <ReportCardCommentForm
+                  reportCardId={card.id}
+                  subjectId={subject.subjectId}
+                  comment={comment?.comment ?? ""}
+                />
+              ) : (
+                <p className="text-sm text-gray-600">{comment?.comment}</p>
+              )}
+            </div>
+          );
+        })}
+        {(card.supervisorComment || canCommentAsSupervisor) && (
+          <div className="flex flex-col gap-1">
+            <span className="text-sm font-medium">
+              Class supervisor
+              {card.class.supervisor && (
+                <span className="text-xs text-gray-500 font-normal">
+                  {" "}
+                  (
+                  {card.class.supervisor.name +
+                    " " +
+                    card.class.supervisor.surname}
+                  )
+                </span>
+              )}
+            </span>
+            {canCommentAsSupervisor ? (
+              <ReportCardCommentForm
+                reportCardId={card.id}
+                comment={card.supervisorComment ?? ""}
+              />
+            ) : (
+              <p className="text-sm text-gray-600">{card.supervisorComment}</p>
+            )}
+          </div>
+        )}
+        {!card.comments.length &&
+          !card.supervisorComment &&
+          !canCommentAsSupervisor &&
+          !summary.subjects.some((subject) =>
+            canComment(subject.subjectId)
+          ) && <span className="text-sm text-gray-400">No comments.</span>}
+        {template.footer && (
+          <p className="text-xs text-gray-500 whitespace-pre-line">
+            {template.footer}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SingleReportCardPage;
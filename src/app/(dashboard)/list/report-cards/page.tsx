@@ -0,0 +1,293 @@
+import FormContainer from "@/components/FormContainer";
+import ReportCardBatchActions from "@/components/ReportCardBatchActions";
+import { getCurrentTerm } from "@/lib/academicYear";
+import { formatPercent } from "@/lib/gradebook";
+import prisma from "@/lib/prisma";
+import { getSummary, isReleased } from "@/lib/reportCards";
+import { auth } from "@clerk/nextjs/server";
+import Image from "next/image";
+import Link from "next/link";
+
+const formatDate = (date: Date) =>
+  new Intl.DateTimeFormat("en-US", { timeZone: "UTC" }).format(date);
+
+const ReportCardsPage = async ({
+  searchParams,
+}: {
+  searchParams: { [key: string]: string | undefined };
+}) => {
+  const { userId, sessionClaims } = auth();
+  const role = (sessionClaims?.metadata as { role?: string })?.role;
+  const currentUserId = userId;
+
+  // Teachers see the classes they teach or supervise
+  const classes = await prisma.class.findMany({
+    where: {
+      deletedAt: null,
+      academicYear: searchParams.academicYearId
+        ? { id: parseInt(searchParams.academicYearId) }
+        : { isCurrent: true },
+      ...(role === "teacher"
+        ? {
+            OR: [
+              { supervisorId: currentUserId! },
+              { lessons: { some: { teacherId: currentUserId! } } },
+            ],
+          }
+        : {}),
+    },
+    select: { id: true, name: true },
+    orderBy: { name: "asc" },
+  });
+
+  const classId = searchParams.classId
+    ? parseInt(searchParams.classId)
+    : classes[0]?.id;
+  const selectedClass = classes.find((item) => item.id === classId);
+
+  const terms = selectedClass
+    ? await prisma.term.findMany({
+        where: { academicYear: { classes: { some: { id: selectedClass.id } } } },
+        orderBy: { startDate: "asc" },
+      })
+    : [];
+  const currentTerm = await getCurrentTerm();
+  const termId = searchParams.termId
+    ? parseInt(searchParams.termId)
+    : terms.find((term) => term.id === currentTerm?.id)?.id ?? terms[0]?.id;
+
+  const [cards, students, templates] = await Promise.all([
+    selectedClass && termId
+      ? prisma.reportCard.findMany({
+          where: { classId: selectedClass.id, termId },
+          include: { student: { select: { name: true, surname: true } } },
+          orderBy: [
+            { student: { surname: "asc" } },
+            { student: { name: "asc" } },
+          ],
+        })
+      : [],
+    selectedClass
+      ? prisma.student.findMany({
+          where: { classId: selectedClass.id, deletedAt: null },
+          select: { id: true, name: true, surname: true },
+          orderBy: [{ surname: "asc" }, { name: "asc" }],
+        })
+      : [],
+    role === "admin"
+      ? prisma.reportCardTemplate.findMany({ orderBy: { name: "asc" } })
+      : [],
+  ]);
+
+  const withoutCard = students.filter(
+    (student) => !cards.some((card) => card.studentId === student.id)
+  );
+  const published = cards.filter((card) => card.releaseDate).length;
+
+  return (
+    <div className="bg-white p-4 rounded-md flex-1 m-4 mt-0 flex flex-col gap-8">
+      {/* TOP */}
+      <div className="flex items-center justify-between">
+        <h1 className="text-lg font-semibold">Report Cards</h1>
+        <form className="flex items-center gap-4">
+          <select
+            name="classId"
+            defaultValue={classId}
+            className="ring-[1.5px] ring-gray-300 p-2 rounded-md text-sm"
+          >
+            {classes.map((item) => (
+              <option value={item.id} key={item.id}>
+                {item.name}
+              </option>
+            ))}
+          </select>
+          {terms.length > 0 && (
+            <select
+              name="termId"
+              defaultValue={termId}
+              className="ring-[1.5px] ring-gray-300 p-2 rounded-md text-sm"
+            >
+              {terms.map((term) => (
+                <option value={term.id} key={term.id}>
+                  {term.name}
+                </option>
+              ))}
+            </select>
+          )}
+          <button className="bg-blue-400 text-white p-2 rounded-md text-sm">
+            Show
+          </button>
+        </form>
+      </div>
+      {!selectedClass || !termId ? (
+        <span className="text-sm text-gray-400">No class to show.</span>
+      ) : (
+        <>
+          {/* BATCH */}
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            {role === "admin" ? (
+              <ReportCardBatchActions
+                classId={selectedClass.id}
+                termId={termId}
+                templates={templates}
+                defaultTemplateId={
+                  templates.find((template) => template.isDefault)?.id
+                }
+                cards={cards.length}
+                published={published}
+              />
+            ) : (
+              <span className="text-xs text-gray-500">
+                Open a draft card to write your comments.
+              </span>
+            )}
+            {cards.length > 0 && (
+              <a
+                href={`/list/report-cards/pdf?classId=${selectedClass.id}&termId=${termId}`}
+                className="bg-lamaSky p-2 rounded-md text-sm"
+              >
+                Download all (PDF)
+              </a>
+            )}
+          </div>
+          {/* LIST */}
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500">
+                <th className="p-2">Student</th>
+                <th>Overall</th>
+                <th className="hidden md:table-cell">Rank</th>
+                <th className="hidden md:table-cell">Attendance</th>
+                <th>Status</th>
+                <th>Actions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {cards.map((card) => {
+                const summary = getSummary(card);
+                return (
+                  <tr
+                    key={card.id}
+                    className="border-b border-gray-200 even:bg-slate-50 hover:bg-lamaPurpleLight"
+                  >
+                    <td className="p-2">
+                      {card.student.name + " " + card.student.surname}
+                    </td>
+                    <td className="font-semibold">
+                      {summary.letter
+                        ? `${formatPercent(summary.average)} ${summary.letter}`
+                        : "-"}
+                    </td>
+                    <td className="hidden md:table-cell">
+                      {summary.rank
+                        ? `${summary.rank} of ${summary.rankedStudents}`
+                        : "-"}
+                    </td>
+                    <td className="hidden md:table-cell">
+                      {formatPercent(summary.attendance.percent)}
+                    </td>
+                    <td>
+                      {!card.releaseDate ? (
+                        <span className="text-gray-500">Draft</span>
+                      ) : isReleased(card) ? (
+                        <span className="text-green-600">
+                          Released {formatDate(card.releaseDate)}
+                        </span>
+                      ) : (
+                        <span className="text-blue-500">
+                          Releases {formatDate(card.releaseDate)}
+                        </span>
+                      )}
+                    </td>
+                    <td>
+                      <Link href={`/list/report-cards/${card.id}`}>
+                        <button className="w-7 h-7 flex items-center justify-center rounded-full bg-lamaSky">
+                          <Image src="/view.png" alt="" width={16} height={16} />
+                        </button>
+                      </Link>
+                    </td>
+                  </tr>
+                );
+              })}
+              {withoutCard.map((student) => (
+                <tr
+                  key={student.id}
+                  className="border-b border-gray-200 even:bg-slate-50 text-gray-400"
+                >
+                  <td className="p-2">{student.name + " " + student.surname}</td>
+                  <td>-</td>
+                  <td className="hidden md:table-cell">-</td>
+                  <td className="hidden md:table-cell">-</td>
+                  <td>Not generated</td>
+                  <td></td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </>
+      )}
+      {/* TEMPLATES */}
+      {role === "admin" && (
+        <div className="flex flex-col gap-2">
+          <div className="flex items-center justify-between">
+            <h2 className="font-semibold">Templates</h2>
+            <FormContainer table="reportCardTemplate" type="create" />
+          </div>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500">
+                <th className="p-2">Name</th>
+                <th className="hidden md:table-cell">Heading</th>
+                <th>Shows</th>
+                <th>Actions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {templates.map((template) => (
+                <tr
+                  key={template.id}
+                  className="border-b border-gray-200 even:bg-slate-50"
+                >
+                  <td className="flex items-center gap-4 p-2">
+                    {template.name}
+                    {template.isDefault && (
+                      <span className="px-2 py-1 rounded-md text-xs bg-lamaSkyLight">
+                        Default
+                      </span>
+                    )}
+                  </td>
+                  <td className="hidden md:table-cell">{template.heading}</td>
+                  <td>
+                    {[
+                      template.showCategories && "Exams/assignments",
+                      template.showAttendance && "Attendance",
+                      template.showRank && "Rank",
+                    ]
+                      .filter(Boolean)
+                      .join(", ") || "Averages only"}
+                  </td>
+                  <td>
+                    <div className="flex items-center gap-2 py-1">
+                      <FormContainer
+                        table="reportCardTemplate"
+                        type="update"
+                        data={template}
+                      />
+                      <FormContainer
+                        table="reportCardTemplate"
+                        type="delete"
+                        id={template.id}
+                      />
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ReportCardsPage;
@@ -0,0 +1,59 @@
+import { authorize } from "@/lib/policy";
+import prisma from "@/lib/prisma";
+import { renderReportCards } from "@/lib/reportCardPdf";
+import { reportCardInclude } from "@/lib/reportCards";
+import { NextRequest, NextResponse } from "next/server";
+
+// One card (?id=) or every card of a class for a term (?classId=&termId=)
+export const GET = async (req: NextRequest) => {
+  const params = req.nextUrl.searchParams;
+  const id = params.get("id") ? parseInt(params.get("id")!) : undefined;
+  const classId = parseInt(params.get("classId") ?? "");
+  const termId = parseInt(params.get("termId") ?? "");
+
+  if (!id && !(classId && termId)) {
+    return new NextResponse("Pick a report card or a class and term", {
+      status: 400,
+    });
+  }
+
+  const actor = await authorize(
+    "reportCard",
+    "read",
+    id ? { id } : { data: { classId } }
+  );
+  if (!actor) {
+    return new NextResponse("Forbidden", { status: 403 });
+  }
+
+  try {
+    const cards = await prisma.reportCard.findMany({
+      where: id ? { id } : { classId, termId },
+      include: reportCardInclude,
+      orderBy: [{ student: { surname: "asc" } }, { student: { name: "asc" } }],
+    });
+
+    if (!cards.length) {
+      return new NextResponse("Not found", { status: 404 });
+    }
+
+    const title = id
+      ? `Report card ${cards[0].student.name} ${cards[0].student.surname} ${cards[0].term.name}`
+      : `Report cards ${cards[0].class.name} ${cards[0].term.name}`;
+    const fileName =
+      title.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/-$/, "") + ".pdf";
+
+    return new NextResponse(await renderReportCards(cards, title), {
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `attachment; filename="${fileName}"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (err) {
+    console.log(err);
+    return new NextResponse("Report cards could not be rendered", {
+      status: 500,
+    });
+  }
+};
@@ -1,22 +1,33 @@
+import ExportMenu from "@/components/ExportMenu";
 import FormContainer from "@/components/FormContainer";
 import Pagination from "@/components/Pagination";
 import Table from "@/components/Table";
 import TableSearch from "@/components/TableSearch";
+import StudentGrades from "@/components/StudentGrades";
+import { formatPercent, getGradeBands, letterFor, toPercent } from "@/lib/gradebook";
+import { childrenOf } from "@/lib/guardians";
+import { getResultQuery } from "@/lib/listQueries";
 import prisma from "@/lib/prisma";
 import { ITEM_PER_PAGE } from "@/lib/settings";
-import { Prisma } from "@prisma/client";
 import Image from "next/image";
+import Link from "next/link";
 
 import { auth } from "@clerk/nextjs/server";
 
 type ResultList = {
   id: number;
+  studentId: string;
+  examId: number | null;
+  assignmentId: number | null;
   title: string;
   studentName: string;
   studentSurname: string;
   teacherName: string;
   teacherSurname: string;
   score: number;
+  maxScore: number;
+  percent: number;
+  letter: string;
   className: string;
   startTime: Date;
 };
@@ -47,6 +58,10 @@ const columns = [
     accessor: "score",
     className: "hidden md:table-cell",
   },
+  {
+    header: "Grade",
+    accessor: "grade",
+  },
   {
     header: "Teacher",
     accessor: "teacher",
@@ -78,8 +93,11 @@ const renderRow = (item: ResultList) => (
     className="border-b border-gray-200 even:bg-slate-50 text-sm hover:bg-lamaPurpleLight"
   >
     <td className="flex items-center gap-4 p-4">{item.title}</td>
-    <td>{item.studentName + " " + item.studentName}</td>
-    <td className="hidden md:table-cell">{item.score}</td>
+    <td>{item.studentName + " " + item.studentSurname}</td>
+    <td className="hidden md:table-cell">
+      {item.score}/{item.maxScore} ({formatPercent(item.percent)})
+    </td>
+    <td className="font-semibold">{item.letter}</td>
     <td className="hidden md:table-cell">
       {item.teacherName + " " + item.teacherSurname}
     </td>
@@ -106,52 +124,7 @@ const renderRow = (item: ResultList) => (
 
   // URL PARAMS CONDITION
 
-  const query: Prisma.ResultWhereInput = {};
-
-  if (queryParams) {
-    for (const [key, value] of Object.entries(queryParams)) {
-      if (value !== undefined) {
-        switch (key) {
-          case "studentId":
-            query.studentId = value;
-            break;
-          case "search":
-            query.OR = [
-              { exam: { title: { contains: value, mode: "insensitive" } } },
-              { student: { name: { contains: value, mode: "insensitive" } } },
-            ];
-            break;
-          default:
-            break;
-        }
-      }
-    }
-  }
-
-  // ROLE CONDITIONS
-
-  switch (role) {
-    case "admin":
-      break;
-    case "teacher":
-      query.OR = [
-        { exam: { lesson: { teacherId: currentUserId! } } },
-        { assignment: { lesson: { teacherId: currentUserId! } } },
-      ];
-      break;
-
-    case "student":
-      query.studentId = currentUserId!;
-      break;
-
-    case "parent":
-      query.student = {
-        parentId: currentUserId!,
-      };
-      break;
-    default:
-      break;
-  }
+  const query = getResultQuery(queryParams, { userId: currentUserId!, role });
 
   const [dataRes, count] = await prisma.$transaction([
     prisma.result.findMany({
@@ -162,7 +135,7 @@ const renderRow = (item: ResultList) => (
           include: {
             lesson: {
               select: {
-                class: { select: { name: true } },
+                class: { select: { id: true, name: true } },
                 teacher: { select: { name: true, surname: true } },
               },
             },
@@ -172,7 +145,7 @@ const renderRow = (item: ResultList) => (
           include: {
             lesson: {
               select: {
-                class: { select: { name: true } },
+                class: { select: { id: true, name: true } },
                 teacher: { select: { name: true, surname: true } },
               },
             },
@@ -185,26 +158,58 @@ const renderRow = (item: ResultList) => (
     prisma.result.count({ where: query }),
   ]);
 
+  const bands = await getGradeBands(
+    Array.from(
+      new Set(
+        dataRes.map(
+          (item) => (item.exam || item.assignment)?.lesson.class.id ?? 0
+        )
+      )
+    )
+  );
+
   const data = dataRes.map((item) => {
     const assessment = item.exam || item.assignment;
 
     if (!assessment) return null;
 
     const isExam = "startTime" in assessment;
+    const percent = toPercent(item.score, assessment.maxScore);
 
     return {
       id: item.id,
+      studentId: item.studentId,
+      examId: item.examId,
+      assignmentId: item.assignmentId,
       title: assessment.title,
       studentName: item.student.name,
       studentSurname: item.student.surname,
       teacherName: assessment.lesson.teacher.name,
       teacherSurname: assessment.lesson.teacher.surname,
       score: item.score,
+      maxScore: assessment.maxScore,
+      percent,
+      letter: letterFor(percent, bands.get(assessment.lesson.class.id)!),
       className: assessment.lesson.class.name,
       startTime: isExam ? assessment.startTime : assessment.startDate,
     };
   });
 
+  // COMPUTED AVERAGES FOR A SINGLE STUDENT (OR A PARENT'S CHILDREN)
+
+  const gradebookStudents =
+    role === "student" || role === "parent" || queryParams.studentId
+      ? await prisma.student.findMany({
+          where:
+            role === "student"
+              ? { id: currentUserId! }
+              : role === "parent"
+              ? childrenOf(currentUserId!)
+              : { id: queryParams.studentId },
+          select: { id: true, name: true, surname: true },
+        })
+      : [];
+
   return (
     <div className="bg-white p-4 rounded-md flex-1 m-4 mt-0">
       {/* TOP */}
@@ -219,12 +224,33 @@ const renderRow = (item: ResultList) => (
             <button className="w-8 h-8 flex items-center justify-center rounded-full bg-lamaYellow">
               <Image src="/sort.png" alt="" width={14} height={14} />
             </button>
+            <ExportMenu list="results" />
             {(role === "admin" || role === "teacher") && (
-              <FormContainer table="result" type="create" />
+              <>
+                <Link
+                  href="/list/results/statistics"
+                  className="text-sm text-gray-500 hover:underline"
+                >
+                  Statistics
+                </Link>
+                <FormContainer table="result" type="create" />
+              </>
             )}
           </div>
         </div>
       </div>
+      {/* AVERAGES */}
+      {gradebookStudents.map((student) => (
+        <div key={student.id} className="mt-4 ring-[1.5px] ring-gray-100 rounded-md">
+          <StudentGrades
+            id={student.id}
+            termId={
+              queryParams.termId ? parseInt(queryParams.termId) : undefined
+            }
+            title={`${student.name} ${student.surname}'s averages`}
+          />
+        </div>
+      ))}
       {/* LIST */}
       <Table columns={columns} renderRow={renderRow} data={data} />
       {/* PAGINATION */}
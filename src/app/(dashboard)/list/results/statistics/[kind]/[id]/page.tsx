@@ -0,0 +1,150 @@
+import ScoreHistogram from "@/components/ScoreHistogram";
+import { formatPercent } from "@/lib/gradebook";
+import { authorize } from "@/lib/policy";
+import { getAssessmentStatistics } from "@/lib/resultStats";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+
+const formatScore = (value: number | null) =>
+  value === null ? "-" : Math.round(value * 10) / 10;
+
+const formatIndex = (value: number | null) =>
+  value === null ? "-" : value.toFixed(2);
+
+// How one class did on an exam or assignment, and for online tests how each
+// question did
+const AssessmentStatisticsPage = async ({
+  params: { kind, id },
+}: {
+  params: { kind: string; id: string };
+}) => {
+  if (kind !== "exam" && kind !== "assignment") {
+    return notFound();
+  }
+
+  const actor = await authorize(kind, "update", { id: parseInt(id) });
+  if (!actor) {
+    return notFound();
+  }
+
+  const statistics = await getAssessmentStatistics(kind, parseInt(id));
+  if (!statistics) {
+    return notFound();
+  }
+
+  const { summary, questions } = statistics;
+
+  return (
+    <div className="bg-white p-4 rounded-md flex-1 m-4 mt-0 flex flex-col gap-8">
+      {/* TOP */}
+      <div className="flex flex-col gap-1">
+        <h1 className="text-lg font-semibold">{statistics.title}</h1>
+        <span className="text-sm text-gray-500 capitalize">
+          {kind} · {statistics.subjectName}, {statistics.className} · out of{" "}
+          {statistics.maxScore}
+        </span>
+      </div>
+      {/* SUMMARY */}
+      <div className="flex gap-4 flex-wrap">
+        {[
+          { label: "Results", value: summary.count },
+          { label: "Mean", value: formatScore(summary.mean) },
+          { label: "Median", value: formatScore(summary.median) },
+          {
+            label: "Std. deviation",
+            value: formatScore(summary.standardDeviation),
+          },
+          {
+            label: `Pass rate (${summary.passPercent}% and up)`,
+            value: formatPercent(summary.passRate),
+          },
+        ].map((item) => (
+          <div
+            key={item.label}
+            className="flex flex-col gap-1 p-4 rounded-md bg-lamaSkyLight min-w-[140px]"
+          >
+            <span className="text-xl font-semibold">{item.value}</span>
+            <span className="text-xs text-gray-500">{item.label}</span>
+          </div>
+        ))}
+      </div>
+      {/* HISTOGRAM */}
+      <div className="flex flex-col gap-2">
+        <h2 className="font-semibold">Score distribution</h2>
+        {summary.count ? (
+          <div className="w-full h-[300px]">
+            <ScoreHistogram data={statistics.histogram} />
+          </div>
+        ) : (
+          <span className="text-sm text-gray-400">No results yet.</span>
+        )}
+      </div>
+      {/* ITEM ANALYSIS */}
+      {questions && (
+        <div className="flex flex-col gap-2 overflow-x-auto">
+          <div className="flex items-center justify-between">
+            <h2 className="font-semibold">Questions</h2>
+            {statistics.contentCreatedBy === actor.userId && (
+              <Link
+                href={`/teacher/playground/content/${statistics.contentId}`}
+                className="text-sm text-gray-500 hover:underline"
+              >
+                Open the generated content
+              </Link>
+            )}
+          </div>
+          <span className="text-xs text-gray-500">
+            Difficulty is the share of a question&apos;s points students
+            earned, discrimination how much better the top 27% did than the
+            bottom 27%. Only fully marked attempts count.
+          </span>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500">
+                <th className="p-2">Question</th>
+                <th className="hidden md:table-cell">Points</th>
+                <th>Difficulty</th>
+                <th>Discrimination</th>
+                <th>Flags</th>
+              </tr>
+            </thead>
+            <tbody>
+              {questions.map((question, index) => (
+                <tr
+                  key={question.id}
+                  className="border-b border-gray-200 even:bg-slate-50"
+                >
+                  <td className="p-2">
+                    <div className="flex flex-col">
+                      <span>
+                        {index + 1}. {question.question}
+                      </span>
+                      <span className="text-xs text-gray-500">
+                        {question.type.replace("_", " ")} ·{" "}
+                        {question.marked} attempt(s)
+                      </span>
+                    </div>
+                  </td>
+                  <td className="hidden md:table-cell">{question.points}</td>
+                  <td>{formatIndex(question.difficulty)}</td>
+                  <td>{formatIndex(question.discrimination)}</td>
+                  <td className="text-xs text-red-500">
+                    {question.flags.join(", ")}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+      <Link
+        href="/list/results/statistics"
+        className="text-sm text-gray-500 hover:underline self-start"
+      >
+        Back to statistics
+      </Link>
+    </div>
+  );
+};
+
+export default AssessmentStatisticsPage;
@@ -0,0 +1,136 @@
+import { formatPercent } from "@/lib/gradebook";
+import prisma from "@/lib/prisma";
+import { getClassStatistics } from "@/lib/resultStats";
+import { auth } from "@clerk/nextjs/server";
+import Link from "next/link";
+
+const formatScore = (value: number | null) =>
+  value === null ? "-" : Math.round(value * 10) / 10;
+
+// Score statistics of every exam and assignment of a class, teachers seeing
+// their own lessons'
+const ResultStatisticsPage = async ({
+  searchParams,
+}: {
+  searchParams: { [key: string]: string | undefined };
+}) => {
+  const { userId, sessionClaims } = auth();
+  const role = (sessionClaims?.metadata as { role?: string })?.role;
+  const currentUserId = userId;
+
+  const classes = await prisma.class.findMany({
+    where: {
+      deletedAt: null,
+      academicYear: { isCurrent: true },
+      ...(role === "teacher"
+        ? { lessons: { some: { teacherId: currentUserId! } } }
+        : {}),
+    },
+    select: { id: true, name: true },
+    orderBy: { name: "asc" },
+  });
+
+  const classId = searchParams.classId
+    ? parseInt(searchParams.classId)
+    : classes[0]?.id;
+  const selectedClass = classes.find((item) => item.id === classId);
+
+  const assessments = selectedClass
+    ? await getClassStatistics(
+        selectedClass.id,
+        role === "teacher" ? currentUserId! : undefined
+      )
+    : [];
+
+  return (
+    <div className="bg-white p-4 rounded-md flex-1 m-4 mt-0 flex flex-col gap-4">
+      {/* TOP */}
+      <div className="flex items-center justify-between">
+        <div className="flex flex-col">
+          <h1 className="text-lg font-semibold">Result Statistics</h1>
+          <Link
+            href="/list/results"
+            className="text-xs text-gray-500 hover:underline"
+          >
+            All results
+          </Link>
+        </div>
+        <form className="flex items-center gap-4">
+          <select
+            name="classId"
+            defaultValue={classId}
+            className="ring-[1.5px] ring-gray-300 p-2 rounded-md text-sm"
+          >
+            {classes.map((item) => (
+              <option value={item.id} key={item.id}>
+                {item.name}
+              </option>
+            ))}
+          </select>
+          <button className="bg-blue-400 text-white p-2 rounded-md text-sm">
+            Show
+          </button>
+        </form>
+      </div>
+      {!selectedClass ? (
+        <span className="text-sm text-gray-400">No class to show.</span>
+      ) : !assessments.length ? (
+        <span className="text-sm text-gray-400">
+          No exams or assignments in {selectedClass.name}.
+        </span>
+      ) : (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-500">
+              <th className="p-2">Title</th>
+              <th className="hidden md:table-cell">Date</th>
+              <th>Results</th>
+              <th>Mean</th>
+              <th className="hidden md:table-cell">Median</th>
+              <th className="hidden md:table-cell">Std. dev.</th>
+              <th>Pass rate</th>
+            </tr>
+          </thead>
+          <tbody>
+            {assessments.map((item) => (
+              <tr
+                key={`${item.kind}-${item.id}`}
+                className="border-b border-gray-200 even:bg-slate-50 hover:bg-lamaPurpleLight"
+              >
+                <td className="p-2">
+                  <div className="flex flex-col">
+                    <Link
+                      href={`/list/results/statistics/${item.kind}/${item.id}`}
+                      className="font-semibold hover:underline"
+                    >
+                      {item.title}
+                    </Link>
+                    <span className="text-xs text-gray-500 capitalize">
+                      {item.kind} · {item.subjectName}
+                    </span>
+                  </div>
+                </td>
+                <td className="hidden md:table-cell">
+                  {new Intl.DateTimeFormat("en-US").format(item.date)}
+                </td>
+                <td>{item.summary.count}</td>
+                <td>
+                  {formatScore(item.summary.mean)}/{item.maxScore}
+                </td>
+                <td className="hidden md:table-cell">
+                  {formatScore(item.summary.median)}
+                </td>
+                <td className="hidden md:table-cell">
+                  {formatScore(item.summary.standardDeviation)}
+                </td>
+                <td>{formatPercent(item.summary.passRate)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
+
+export default ResultStatisticsPage;
@@ -0,0 +1,125 @@
+import FormContainer from "@/components/FormContainer";
+import Pagination from "@/components/Pagination";
+import Table from "@/components/Table";
+import TableSearch from "@/components/TableSearch";
+import { getRubricQuery } from "@/lib/listQueries";
+import prisma from "@/lib/prisma";
+import { getRubricMaxPoints, rubricInclude } from "@/lib/rubrics";
+import { ITEM_PER_PAGE } from "@/lib/settings";
+import { auth } from "@clerk/nextjs/server";
+import { Prisma } from "@prisma/client";
+
+const include = {
+  ...rubricInclude,
+  _count: { select: { assignments: true, questions: true } },
+} satisfies Prisma.RubricInclude;
+
+type RubricList = Prisma.RubricGetPayload<{ include: typeof include }>;
+
+const RubricListPage = async ({
+  searchParams,
+}: {
+  searchParams: { [key: string]: string | undefined };
+}) => {
+  const { userId, sessionClaims } = auth();
+  const role = (sessionClaims?.metadata as { role?: string })?.role;
+
+  const columns = [
+    {
+      header: "Title",
+      accessor: "title",
+    },
+    {
+      header: "Criteria",
+      accessor: "criteria",
+      className: "hidden md:table-cell",
+    },
+    {
+      header: "Points",
+      accessor: "points",
+      className: "hidden md:table-cell",
+    },
+    {
+      header: "Used by",
+      accessor: "used",
+      className: "hidden lg:table-cell",
+    },
+    {
+      header: "Actions",
+      accessor: "action",
+    },
+  ];
+
+  const renderRow = (item: RubricList) => (
+    <tr
+      key={item.id}
+      className="border-b border-gray-200 even:bg-slate-50 text-sm hover:bg-lamaPurpleLight"
+    >
+      <td className="p-4">
+        <div className="flex flex-col">
+          <span className="font-semibold">{item.title}</span>
+          {item.description && (
+            <span className="text-xs text-gray-500">{item.description}</span>
+          )}
+        </div>
+      </td>
+      <td className="hidden md:table-cell">
+        {item.criteria.map((criterion) => criterion.title).join(", ")}
+      </td>
+      <td className="hidden md:table-cell">{getRubricMaxPoints(item)}</td>
+      <td className="hidden lg:table-cell">
+        {item._count.assignments} assignments, {item._count.questions}{" "}
+        questions
+      </td>
+      <td>
+        {/* Teachers grade with any rubric, and change their own */}
+        {(role === "admin" || item.createdBy === userId) && (
+          <div className="flex items-center gap-2">
+            <FormContainer table="rubric" type="update" data={item} />
+            <FormContainer table="rubric" type="delete" id={item.id} />
+          </div>
+        )}
+      </td>
+    </tr>
+  );
+
+  const { page, ...queryParams } = searchParams;
+
+  const p = page ? parseInt(page) : 1;
+
+  // URL PARAMS CONDITION
+
+  const query = getRubricQuery(queryParams);
+
+  const [data, count] = await prisma.$transaction([
+    prisma.rubric.findMany({
+      where: query,
+      include,
+      orderBy: { title: "asc" },
+      take: ITEM_PER_PAGE,
+      skip: ITEM_PER_PAGE * (p - 1),
+    }),
+    prisma.rubric.count({ where: query }),
+  ]);
+
+  return (
+    <div className="bg-white p-4 rounded-md flex-1 m-4 mt-0">
+      {/* TOP */}
+      <div className="flex items-center justify-between">
+        <h1 className="hidden md:block text-lg font-semibold">All Rubrics</h1>
+        <div className="flex flex-col md:flex-row items-center gap-4 w-full md:w-auto">
+          <TableSearch />
+          <div className="flex items-center gap-4 self-end">
+            <FormContainer table="rubric" type="create" />
+          </div>
+        </div>
+      </div>
+      {/* LIST */}
+      <Table columns={columns} renderRow={renderRow} data={data} />
+      {/* PAGINATION */}
+      <Pagination page={p} count={count} />
+    </div>
+  );
+};
+
+export default RubricListPage;
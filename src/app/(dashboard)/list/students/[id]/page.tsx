@@ -3,9 +3,11 @@ import BigCalendarContainer from "@/components/BigCalendarContainer";
 import FormContainer from "@/components/FormContainer";
 import Performance from "@/components/Performance";
 import StudentAttendanceCard from "@/components/StudentAttendanceCard";
+import StudentGrades from "@/components/StudentGrades";
+import StudentGuardians from "@/components/StudentGuardians";
 import prisma from "@/lib/prisma";
 import { auth } from "@clerk/nextjs/server";
-import { Class, Student } from "@prisma/client";
+import { Class, Guardian, Student } from "@prisma/client";
 import Image from "next/image";
 import Link from "next/link";
 import { notFound } from "next/navigation";
@@ -22,11 +24,13 @@ const SingleStudentPage = async ({
   const student:
     | (Student & {
         class: Class & { _count: { lessons: number } };
+        guardians: Guardian[];
       })
     | null = await prisma.student.findUnique({
     where: { id },
     include: {
       class: { include: { _count: { select: { lessons: true } } } },
+      guardians: true,
     },
   });
 
@@ -191,6 +195,12 @@ const SingleStudentPage = async ({
             </Link>
           </div>
         </div>
+        <Suspense fallback="loading...">
+          <StudentGuardians id={student.id} />
+        </Suspense>
+        <Suspense fallback="loading...">
+          <StudentGrades id={student.id} />
+        </Suspense>
         <Performance />
         <Announcements />
       </div>
@@ -0,0 +1,133 @@
+import RubricGrader from "@/components/RubricGrader";
+import SubmissionStatusBadge from "@/components/SubmissionStatusBadge";
+import SubmissionGradeForm from "@/components/forms/SubmissionGradeForm";
+import { authorize } from "@/lib/policy";
+import prisma from "@/lib/prisma";
+import { rubricInclude } from "@/lib/rubrics";
+import { getSubmissionStatus } from "@/lib/submissions";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+
+const formatDateTime = (date: Date) =>
+  date.toLocaleString("en-US", { dateStyle: "medium", timeStyle: "short" });
+
+// One submission graded against its assignment's rubric, or with a score when
+// the assignment has none
+const SingleSubmissionPage = async ({
+  params: { id },
+}: {
+  params: { id: string };
+}) => {
+  const submissionId = parseInt(id);
+
+  if (!(await authorize("submission", "update", { id: submissionId }))) {
+    return notFound();
+  }
+
+  const submission = await prisma.submission.findUnique({
+    where: { id: submissionId },
+    include: {
+      student: { select: { name: true, surname: true } },
+      files: true,
+      rubricScores: true,
+      assignment: {
+        include: {
+          rubric: { include: rubricInclude },
+          lesson: {
+            select: {
+              subject: { select: { name: true } },
+              class: { select: { name: true } },
+            },
+          },
+        },
+      },
+    },
+  });
+
+  if (!submission) {
+    return notFound();
+  }
+
+  const { assignment } = submission;
+
+  return (
+    <div className="bg-white p-4 rounded-md flex-1 m-4 mt-0 flex flex-col gap-4">
+      {/* TOP */}
+      <div className="flex items-center justify-between">
+        <div className="flex flex-col gap-1">
+          <h1 className="text-lg font-semibold">
+            {submission.student.name} {submission.student.surname}
+          </h1>
+          <span className="text-sm text-gray-500">
+            {assignment.title} · {assignment.lesson.subject.name},{" "}
+            {assignment.lesson.class.name}
+          </span>
+        </div>
+        <SubmissionStatusBadge
+          status={getSubmissionStatus(assignment, submission)}
+        />
+      </div>
+      {/* HANDED IN */}
+      <div className="flex flex-col gap-2">
+        <h2 className="font-semibold">
+          Handed in{" "}
+          <span className="text-sm font-normal text-gray-500">
+            {formatDateTime(submission.submittedAt)}
+          </span>
+        </h2>
+        {submission.text && (
+          <p className="text-sm whitespace-pre-wrap">{submission.text}</p>
+        )}
+        {submission.files.map((file) => (
+          <a
+            key={file.id}
+            href={file.url}
+            target="_blank"
+            rel="noreferrer"
+            className="text-sm text-blue-500 hover:underline self-start"
+          >
+            {file.name}
+          </a>
+        ))}
+      </div>
+      {/* GRADE */}
+      {submission.gradedAt && (
+        <span className="text-sm text-gray-500">
+          Graded {submission.score}/{assignment.maxScore} on{" "}
+          {formatDateTime(submission.gradedAt)}
+        </span>
+      )}
+      {assignment.rubric ? (
+        <div className="flex flex-col gap-1">
+          <RubricGrader
+            target={{ submissionId: submission.id }}
+            rubric={assignment.rubric}
+            scores={submission.rubricScores}
+            feedback={submission.feedback}
+          />
+          <span className="text-xs text-gray-400">
+            The rubric points are scaled to the assignment&apos;s max score
+            of {assignment.maxScore}.
+          </span>
+        </div>
+      ) : (
+        <div className="w-64">
+          <SubmissionGradeForm
+            id={submission.id}
+            score={submission.score}
+            feedback={submission.feedback}
+            maxScore={assignment.maxScore}
+          />
+        </div>
+      )}
+      <Link
+        href={`/list/submissions?assignmentId=${assignment.id}`}
+        className="text-sm text-gray-500 hover:underline self-start"
+      >
+        Back to grading
+      </Link>
+    </div>
+  );
+};
+
+export default SingleSubmissionPage;
@@ -0,0 +1,227 @@
+import Pagination from "@/components/Pagination";
+import SubmissionStatusBadge from "@/components/SubmissionStatusBadge";
+import Table from "@/components/Table";
+import TableSearch from "@/components/TableSearch";
+import SubmissionGradeForm from "@/components/forms/SubmissionGradeForm";
+import { getSubmissionQuery } from "@/lib/listQueries";
+import prisma from "@/lib/prisma";
+import { ITEM_PER_PAGE } from "@/lib/settings";
+import { getSubmissionStatus } from "@/lib/submissions";
+import { auth } from "@clerk/nextjs/server";
+import { Prisma } from "@prisma/client";
+import Link from "next/link";
+
+const include = {
+  student: { select: { name: true, surname: true } },
+  files: true,
+  assignment: {
+    include: {
+      lesson: {
+        select: {
+          subject: { select: { name: true } },
+          class: { select: { name: true } },
+        },
+      },
+    },
+  },
+} satisfies Prisma.SubmissionInclude;
+
+type SubmissionList = Prisma.SubmissionGetPayload<{ include: typeof include }>;
+
+const formatDateTime = (date: Date) =>
+  date.toLocaleString("en-US", { dateStyle: "medium", timeStyle: "short" });
+
+const columns = [
+  {
+    header: "Student",
+    accessor: "student",
+  },
+  {
+    header: "Work",
+    accessor: "work",
+  },
+  {
+    header: "Handed in",
+    accessor: "submittedAt",
+    className: "hidden md:table-cell",
+  },
+  {
+    header: "Grade",
+    accessor: "grade",
+  },
+];
+
+const renderRow = (item: SubmissionList) => (
+  <tr
+    key={item.id}
+    className="border-b border-gray-200 even:bg-slate-50 text-sm align-top"
+  >
+    <td className="p-4">
+      <div className="flex flex-col">
+        <h3 className="font-semibold">
+          {item.student.name + " " + item.student.surname}
+        </h3>
+        <p className="text-xs text-gray-500">
+          {item.assignment.title} · {item.assignment.lesson.subject.name},{" "}
+          {item.assignment.lesson.class.name}
+        </p>
+      </div>
+    </td>
+    <td className="py-4 pr-4 max-w-md">
+      {item.text && (
+        <p className="whitespace-pre-wrap line-clamp-6">{item.text}</p>
+      )}
+      <div className="flex flex-col mt-1">
+        {item.files.map((file) => (
+          <a
+            key={file.id}
+            href={file.url}
+            target="_blank"
+            rel="noreferrer"
+            className="text-xs text-blue-500 hover:underline truncate"
+          >
+            {file.name}
+          </a>
+        ))}
+      </div>
+    </td>
+    <td className="hidden md:table-cell py-4">
+      <div className="flex flex-col items-start gap-1">
+        <span>{formatDateTime(item.submittedAt)}</span>
+        <SubmissionStatusBadge
+          status={getSubmissionStatus(item.assignment, item)}
+        />
+        {item.assignment.maxAttempts > 1 && (
+          <span className="text-xs text-gray-500">
+            Attempt {item.attempt} of {item.assignment.maxAttempts}
+          </span>
+        )}
+      </div>
+    </td>
+    <td className="py-4 pr-4 w-64">
+      {item.assignment.rubricId ? (
+        <div className="flex flex-col items-start gap-1">
+          {item.gradedAt && (
+            <span>
+              {item.score}/{item.assignment.maxScore}
+            </span>
+          )}
+          <Link
+            href={`/list/submissions/${item.id}`}
+            className="bg-lamaSky p-2 rounded-md text-xs whitespace-nowrap"
+          >
+            {item.gradedAt ? "Regrade with rubric" : "Grade with rubric"}
+          </Link>
+        </div>
+      ) : (
+        <SubmissionGradeForm
+          id={item.id}
+          score={item.score}
+          feedback={item.feedback}
+          maxScore={item.assignment.maxScore}
+        />
+      )}
+    </td>
+  </tr>
+);
+
+const SubmissionListPage = async ({
+  searchParams,
+}: {
+  searchParams: { [key: string]: string | undefined };
+}) => {
+  const { userId, sessionClaims } = auth();
+  const role = (sessionClaims?.metadata as { role?: string })?.role;
+
+  const { page, ...queryParams } = searchParams;
+  const p = page ? parseInt(page) : 1;
+  const graded = queryParams.status === "graded";
+
+  const query = getSubmissionQuery(queryParams, { userId: userId!, role });
+
+  const [data, count] = await prisma.$transaction([
+    prisma.submission.findMany({
+      where: query,
+      include,
+      // Ungraded work oldest first, it has waited longest
+      orderBy: { submittedAt: graded ? "desc" : "asc" },
+      take: ITEM_PER_PAGE,
+      skip: ITEM_PER_PAGE * (p - 1),
+    }),
+    prisma.submission.count({ where: query }),
+  ]);
+
+  // How much of the class has handed in, when looking at one assignment
+  const assignment = queryParams.assignmentId
+    ? await prisma.assignment.findUnique({
+        where: { id: parseInt(queryParams.assignmentId) },
+        select: {
+          title: true,
+          _count: {
+            select: {
+              submissions: { where: { student: { deletedAt: null } } },
+            },
+          },
+          lesson: {
+            select: {
+              class: {
+                select: {
+                  _count: {
+                    select: { students: { where: { deletedAt: null } } },
+                  },
+                },
+              },
+            },
+          },
+        },
+      })
+    : null;
+
+  const toggleParams = new URLSearchParams({
+    ...(queryParams.assignmentId && {
+      assignmentId: queryParams.assignmentId,
+    }),
+    ...(!graded && { status: "graded" }),
+  });
+
+  return (
+    <div className="bg-white p-4 rounded-md flex-1 m-4 mt-0">
+      {/* TOP */}
+      <div className="flex items-center justify-between">
+        <div className="hidden md:flex flex-col">
+          <h1 className="text-lg font-semibold">
+            {graded ? "Graded submissions" : "To grade"}
+            {assignment && `: ${assignment.title}`}
+          </h1>
+          {assignment && (
+            <span className="text-xs text-gray-500">
+              {assignment._count.submissions} of{" "}
+              {assignment.lesson.class._count.students} students handed in
+            </span>
+          )}
+        </div>
+        <div className="flex flex-col md:flex-row items-center gap-4 w-full md:w-auto">
+          <TableSearch />
+          <Link
+            href={`/list/submissions?${toggleParams}`}
+            className="text-xs text-gray-500 underline self-end md:self-auto"
+          >
+            {graded ? "Show ungraded" : "Show graded"}
+          </Link>
+        </div>
+      </div>
+      {/* LIST */}
+      {data.length ? (
+        <Table columns={columns} renderRow={renderRow} data={data} />
+      ) : (
+        <p className="mt-4 text-sm text-gray-400">
+          {graded ? "Nothing graded yet." : "Nothing left to grade."}
+        </p>
+      )}
+      {/* PAGINATION */}
+      <Pagination page={p} count={count} />
+    </div>
+  );
+};
+
+export default SubmissionListPage;
@@ -0,0 +1,64 @@
+import TeacherAvailabilityGrid from "@/components/TeacherAvailabilityGrid";
+import prisma from "@/lib/prisma";
+
+const TeacherAvailabilityPage = async ({
+  searchParams,
+}: {
+  searchParams: { [key: string]: string | undefined };
+}) => {
+  const teachers = await prisma.teacher.findMany({
+    where: { deletedAt: null },
+    select: { id: true, name: true, surname: true },
+    orderBy: [{ surname: "asc" }, { name: "asc" }],
+  });
+
+  const teacherId = searchParams.teacherId ?? teachers[0]?.id;
+  const teacher = teachers.find((item) => item.id === teacherId);
+
+  const [periods, unavailable] = await Promise.all([
+    prisma.period.findMany({ orderBy: { startTime: "asc" } }),
+    teacher
+      ? prisma.teacherUnavailability.findMany({
+          where: { teacherId: teacher.id },
+          select: { day: true, periodId: true },
+        })
+      : [],
+  ]);
+
+  return (
+    <div className="bg-white p-4 rounded-md flex-1 m-4 mt-0 flex flex-col gap-8">
+      {/* TOP */}
+      <div className="flex items-center justify-between">
+        <h1 className="text-lg font-semibold">Teacher Availability</h1>
+        <form className="flex items-center gap-4">
+          <select
+            name="teacherId"
+            defaultValue={teacherId}
+            className="ring-[1.5px] ring-gray-300 p-2 rounded-md text-sm"
+          >
+            {teachers.map((item) => (
+              <option value={item.id} key={item.id}>
+                {item.name + " " + item.surname}
+              </option>
+            ))}
+          </select>
+          <button className="bg-blue-400 text-white p-2 rounded-md text-sm">
+            Show
+          </button>
+        </form>
+      </div>
+      {!teacher ? (
+        <span className="text-sm text-gray-400">No teacher to show.</span>
+      ) : (
+        <TeacherAvailabilityGrid
+          key={teacher.id}
+          teacherId={teacher.id}
+          periods={periods}
+          unavailable={unavailable}
+        />
+      )}
+    </div>
+  );
+};
+
+export default TeacherAvailabilityPage;
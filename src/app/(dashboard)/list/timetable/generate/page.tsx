@@ -0,0 +1,218 @@
+import TimetableDraftActions from "@/components/TimetableDraftActions";
+import TimetableGenerateForm from "@/components/TimetableGenerateForm";
+import prisma from "@/lib/prisma";
+import { planDraftCommit } from "@/lib/timetable";
+import {
+  findSoftViolations,
+  UnplacedRequirement,
+} from "@/lib/timetableSolver";
+import { Day } from "@prisma/client";
+import Link from "next/link";
+
+const days: Day[] = ["MONDAY", "TUESDAY", "WEDNESDAY", "THURSDAY", "FRIDAY"];
+
+type UnplacedItem = UnplacedRequirement & {
+  className?: string;
+  subjectName?: string;
+};
+
+const TimetableGeneratePage = async ({
+  searchParams,
+}: {
+  searchParams: { [key: string]: string | undefined };
+}) => {
+  const [classes, periods, draft] = await Promise.all([
+    prisma.class.findMany({
+      where: { academicYear: { isCurrent: true }, deletedAt: null },
+      select: {
+        id: true,
+        name: true,
+        subjectHours: { select: { hoursPerWeek: true } },
+      },
+      orderBy: { name: "asc" },
+    }),
+    prisma.period.findMany({ orderBy: { startTime: "asc" } }),
+    prisma.timetableDraft.findFirst({
+      where: { committedAt: null },
+      include: {
+        classes: { select: { id: true, name: true }, orderBy: { name: "asc" } },
+        lessons: {
+          include: {
+            subject: { select: { name: true } },
+            teacher: { select: { name: true, surname: true } },
+            room: { select: { name: true } },
+          },
+        },
+      },
+      orderBy: { createdAt: "desc" },
+    }),
+  ]);
+
+  const plan = draft ? await planDraftCommit(draft.id) : null;
+  const unplaced = (draft?.unplaced ?? []) as UnplacedItem[];
+  const violations = draft
+    ? findSoftViolations(
+        draft.lessons,
+        periods.map((period) => period.id)
+      )
+    : [];
+
+  const classId = searchParams.classId
+    ? parseInt(searchParams.classId)
+    : draft?.classes[0]?.id;
+  const previewClass = draft?.classes.find((item) => item.id === classId);
+
+  const lessonAt = (day: Day, periodId: number) =>
+    draft?.lessons.find(
+      (lesson) =>
+        lesson.classId === previewClass?.id &&
+        lesson.day === day &&
+        lesson.periodId === periodId
+    );
+
+  return (
+    <div className="bg-white p-4 rounded-md flex-1 m-4 mt-0 flex flex-col gap-8">
+      {/* TOP */}
+      <div className="flex items-center justify-between">
+        <h1 className="text-lg font-semibold">Generate Timetable</h1>
+        <div className="flex items-center gap-4 text-sm">
+          <Link href="/list/timetable/hours" className="text-blue-500">
+            Subject hours
+          </Link>
+          <Link href="/list/timetable/availability" className="text-blue-500">
+            Teacher availability
+          </Link>
+        </div>
+      </div>
+      <TimetableGenerateForm
+        classes={classes.map((item) => ({
+          id: item.id,
+          name: item.name,
+          hours: item.subjectHours.reduce(
+            (sum, hours) => sum + hours.hoursPerWeek,
+            0
+          ),
+        }))}
+      />
+      {draft && plan && (
+        <div className="flex flex-col gap-4">
+          <div className="flex items-center justify-between">
+            <h2 className="font-semibold">
+              Draft from {draft.createdAt.toLocaleString()}
+            </h2>
+            <TimetableDraftActions
+              draftId={draft.id}
+              canCommit={!plan.blocked.length}
+            />
+          </div>
+          {/* SUMMARY */}
+          <div className="flex flex-col gap-1 text-sm">
+            <span>
+              {plan.update.length} lessons moved, {plan.replace.length} ended
+              and started again in their new slot, {plan.create.length}{" "}
+              created, {plan.remove.length} removed.
+            </span>
+            {plan.blocked.length > 0 && (
+              <span className="text-red-500">
+                Can&apos;t commit: {plan.blocked.map((item) => item.name).join(", ")}{" "}
+                would be removed but have exams, assignments or attendance.
+              </span>
+            )}
+            {unplaced.map((item) => (
+              <span
+                key={`${item.classId}-${item.subjectId}`}
+                className="text-red-500"
+              >
+                {item.className} {item.subjectName}: {item.hours} periods not
+                placed ({item.reason})
+              </span>
+            ))}
+            {violations.map((violation) => (
+              <span
+                key={`${violation.classId}-${violation.day}-${violation.subjectId}`}
+                className="text-orange-500"
+              >
+                {draft.classes.find((c) => c.id === violation.classId)?.name}{" "}
+                has {violation.length} consecutive periods of{" "}
+                {
+                  draft.lessons.find((l) => l.subjectId === violation.subjectId)
+                    ?.subject.name
+                }{" "}
+                on {violation.day.toLowerCase()}
+              </span>
+            ))}
+          </div>
+          {/* PREVIEW */}
+          <form className="flex items-center gap-4">
+            <select
+              name="classId"
+              defaultValue={classId}
+              className="ring-[1.5px] ring-gray-300 p-2 rounded-md text-sm"
+            >
+              {draft.classes.map((item) => (
+                <option value={item.id} key={item.id}>
+                  {item.name}
+                </option>
+              ))}
+            </select>
+            <button className="bg-blue-400 text-white p-2 rounded-md text-sm">
+              Preview
+            </button>
+          </form>
+          {previewClass && (
+            <table className="w-full text-sm table-fixed">
+              <thead>
+                <tr className="text-left text-gray-500">
+                  <th className="w-32 p-2">Period</th>
+                  {days.map((day) => (
+                    <th key={day} className="p-2 capitalize">
+                      {day.toLowerCase()}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {periods.map((period) => (
+                  <tr key={period.id} className="border-t border-gray-200">
+                    <td className="p-2 align-top">
+                      <div className="font-semibold">{period.name}</div>
+                      <div className="text-xs text-gray-400">
+                        {period.startTime}-{period.endTime}
+                      </div>
+                    </td>
+                    {days.map((day) => {
+                      const lesson = lessonAt(day, period.id);
+                      return (
+                        <td key={day} className="p-2 align-top">
+                          {lesson && (
+                            <div className="flex flex-col p-2 rounded-md bg-lamaSkyLight">
+                              <span className="font-semibold">
+                                {lesson.subject.name}
+                              </span>
+                              <span className="text-xs text-gray-500">
+                                {lesson.teacher.name +
+                                  " " +
+                                  lesson.teacher.surname}
+                              </span>
+                              {lesson.room && (
+                                <span className="text-xs text-gray-500">
+                                  {lesson.room.name}
+                                </span>
+                              )}
+                            </div>
+                          )}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TimetableGeneratePage;
@@ -0,0 +1,117 @@
+import FormContainer from "@/components/FormContainer";
+import prisma from "@/lib/prisma";
+
+const SubjectHoursPage = async ({
+  searchParams,
+}: {
+  searchParams: { [key: string]: string | undefined };
+}) => {
+  const classes = await prisma.class.findMany({
+    where: { academicYear: { isCurrent: true }, deletedAt: null },
+    select: { id: true, name: true },
+    orderBy: { name: "asc" },
+  });
+
+  const classId = searchParams.classId
+    ? parseInt(searchParams.classId)
+    : classes[0]?.id;
+  const selectedClass = classes.find((item) => item.id === classId);
+
+  const [hours, periodCount] = await Promise.all([
+    selectedClass
+      ? prisma.classSubjectHours.findMany({
+          where: { classId: selectedClass.id },
+          include: { subject: { select: { name: true } } },
+          orderBy: { subject: { name: "asc" } },
+        })
+      : [],
+    prisma.period.count(),
+  ]);
+
+  const total = hours.reduce((sum, item) => sum + item.hoursPerWeek, 0);
+  // Five school days of every period
+  const slots = periodCount * 5;
+
+  return (
+    <div className="bg-white p-4 rounded-md flex-1 m-4 mt-0 flex flex-col gap-8">
+      {/* TOP */}
+      <div className="flex items-center justify-between">
+        <h1 className="text-lg font-semibold">Subject Hours</h1>
+        <div className="flex items-center gap-4">
+          <form className="flex items-center gap-4">
+            <select
+              name="classId"
+              defaultValue={classId}
+              className="ring-[1.5px] ring-gray-300 p-2 rounded-md text-sm"
+            >
+              {classes.map((item) => (
+                <option value={item.id} key={item.id}>
+                  {item.name}
+                </option>
+              ))}
+            </select>
+            <button className="bg-blue-400 text-white p-2 rounded-md text-sm">
+              Show
+            </button>
+          </form>
+          {selectedClass && (
+            <FormContainer
+              table="subjectHours"
+              type="create"
+              data={{ classId: selectedClass.id }}
+            />
+          )}
+        </div>
+      </div>
+      {!selectedClass ? (
+        <span className="text-sm text-gray-400">No class to show.</span>
+      ) : (
+        <div className="flex flex-col gap-2">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500">
+                <th>Subject</th>
+                <th>Periods per week</th>
+                <th>Actions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {hours.map((item) => (
+                <tr
+                  key={item.id}
+                  className="border-b border-gray-200 even:bg-slate-50 hover:bg-lamaPurpleLight"
+                >
+                  <td className="p-2">{item.subject.name}</td>
+                  <td>{item.hoursPerWeek}</td>
+                  <td>
+                    <div className="flex items-center gap-2">
+                      <FormContainer
+                        table="subjectHours"
+                        type="update"
+                        data={item}
+                      />
+                      <FormContainer
+                        table="subjectHours"
+                        type="delete"
+                        id={item.id}
+                      />
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <span
+            className={`text-xs ${
+              total > slots ? "text-red-500" : "text-gray-400"
+            }`}
+          >
+            {total} of {slots} weekly periods used
+          </span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SubjectHoursPage;
@@ -0,0 +1,172 @@
+import FormContainer from "@/components/FormContainer";
+import prisma from "@/lib/prisma";
+import { getPeriodTimes, toMinutes } from "@/lib/utils";
+import { Day } from "@prisma/client";
+import Link from "next/link";
+
+const days: Day[] = ["MONDAY", "TUESDAY", "WEDNESDAY", "THURSDAY", "FRIDAY"];
+
+const TimetablePage = async ({
+  searchParams,
+}: {
+  searchParams: { [key: string]: string | undefined };
+}) => {
+  const classes = await prisma.class.findMany({
+    where: { academicYear: { isCurrent: true }, deletedAt: null },
+    select: { id: true, name: true },
+    orderBy: { name: "asc" },
+  });
+
+  const classId = searchParams.classId
+    ? parseInt(searchParams.classId)
+    : classes[0]?.id;
+  const selectedClass = classes.find((item) => item.id === classId);
+
+  const [periods, lessons] = await Promise.all([
+    prisma.period.findMany({ orderBy: { startTime: "asc" } }),
+    selectedClass
+      ? prisma.lesson.findMany({
+          where: { classId: selectedClass.id },
+          include: {
+            subject: { select: { name: true } },
+            teacher: { select: { name: true, surname: true } },
+            room: { select: { name: true } },
+          },
+        })
+      : [],
+  ]);
+
+  // Lessons without a period still land in the period their start time falls in
+  const lessonsIn = (day: Day, period: (typeof periods)[number]) =>
+    lessons.filter((lesson) => {
+      if (lesson.day !== day) return false;
+      if (lesson.periodId) return lesson.periodId === period.id;
+      const start =
+        lesson.startTime.getHours() * 60 + lesson.startTime.getMinutes();
+      return (
+        start >= toMinutes(period.startTime) && start < toMinutes(period.endTime)
+      );
+    });
+
+  return (
+    <div className="bg-white p-4 rounded-md flex-1 m-4 mt-0 flex flex-col gap-8">
+      {/* TOP */}
+      <div className="flex items-center justify-between">
+        <h1 className="text-lg font-semibold">Timetable</h1>
+        <div className="flex items-center gap-4">
+          <Link
+            href="/list/timetable/generate"
+            className="text-sm text-blue-500"
+          >
+            Generate
+          </Link>
+          <form className="flex items-center gap-4">
+            <select
+              name="classId"
+              defaultValue={classId}
+              className="ring-[1.5px] ring-gray-300 p-2 rounded-md text-sm"
+            >
+              {classes.map((item) => (
+                <option value={item.id} key={item.id}>
+                  {item.name}
+                </option>
+              ))}
+            </select>
+            <button className="bg-blue-400 text-white p-2 rounded-md text-sm">
+              Show
+            </button>
+          </form>
+        </div>
+      </div>
+      {!selectedClass ? (
+        <span className="text-sm text-gray-400">No class to show.</span>
+      ) : !periods.length ? (
+        <span className="text-sm text-gray-400">
+          Define the periods of the school day first.
+        </span>
+      ) : (
+        <table className="w-full text-sm table-fixed">
+          <thead>
+            <tr className="text-left text-gray-500">
+              <th className="w-32 p-2">Period</th>
+              {days.map((day) => (
+                <th key={day} className="p-2 capitalize">
+                  {day.toLowerCase()}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {periods.map((period) => (
+              <tr key={period.id} className="border-t border-gray-200">
+                <td className="p-2 align-top">
+                  <div className="font-semibold">{period.name}</div>
+                  <div className="text-xs text-gray-400">
+                    {period.startTime}-{period.endTime}
+                  </div>
+                </td>
+                {days.map((day) => {
+                  const cellLessons = lessonsIn(day, period);
+                  return (
+                    <td key={day} className="p-2 align-top">
+                      <div className="flex flex-col gap-2">
+                        {cellLessons.map((lesson) => (
+                          <div
+                            key={lesson.id}
+                            className="flex items-start justify-between gap-2 p-2 rounded-md bg-lamaSkyLight"
+                          >
+                            <div className="flex flex-col">
+                              <span className="font-semibold">
+                                {lesson.subject.name}
+                              </span>
+                              <span className="text-xs text-gray-500">
+                                {lesson.teacher.name +
+                                  " " +
+                                  lesson.teacher.surname}
+                              </span>
+                              {lesson.room && (
+                                <span className="text-xs text-gray-500">
+                                  {lesson.room.name}
+                                </span>
+                              )}
+                            </div>
+                            <div className="flex items-center gap-1">
+                              <FormContainer
+                                table="lesson"
+                                type="update"
+                                data={lesson}
+                              />
+                              <FormContainer
+                                table="lesson"
+                                type="delete"
+                                id={lesson.id}
+                              />
+                            </div>
+                          </div>
+                        ))}
+                        {!cellLessons.length && (
+                          <FormContainer
+                            table="lesson"
+                            type="create"
+                            data={{
+                              day,
+                              classId: selectedClass.id,
+                              periodId: period.id,
+                              ...getPeriodTimes(day, period),
+                            }}
+                          />
+                        )}
+                      </div>
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
+
+export default TimetablePage;
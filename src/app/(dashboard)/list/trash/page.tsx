@@ -0,0 +1,155 @@
+import Table from "@/components/Table";
+import TrashActions from "@/components/TrashActions";
+import prisma from "@/lib/prisma";
+import { TrashEntity } from "@/lib/trash";
+import Image from "next/image";
+
+type TrashItem = {
+  entity: TrashEntity;
+  id: number | string;
+  name: string;
+  detail: string;
+  deletedAt: Date;
+};
+
+type TrashSection = { title: string; items: TrashItem[] };
+
+const formatDateTime = (date: Date) =>
+  date.toLocaleString("en-US", { dateStyle: "medium", timeStyle: "short" });
+
+const columns = [
+  {
+    header: "Name",
+    accessor: "name",
+  },
+  {
+    header: "Details",
+    accessor: "detail",
+    className: "hidden md:table-cell",
+  },
+  {
+    header: "Deleted",
+    accessor: "deletedAt",
+    className: "hidden md:table-cell",
+  },
+  {
+    header: "Actions",
+    accessor: "action",
+  },
+];
+
+const TrashPage = async () => {
+  const inTrash = { deletedAt: { not: null } };
+  const orderBy = { deletedAt: "desc" } as const;
+
+  const [classes, teachers, students] = await prisma.$transaction([
+    prisma.class.findMany({
+      where: inTrash,
+      include: {
+        academicYear: { select: { name: true } },
+        _count: { select: { students: true } },
+      },
+      orderBy,
+    }),
+    prisma.teacher.findMany({
+      where: inTrash,
+      include: { subjects: { select: { name: true } } },
+      orderBy,
+    }),
+    prisma.student.findMany({
+      where: inTrash,
+      include: { class: { select: { name: true, deletedAt: true } } },
+      orderBy,
+    }),
+  ]);
+
+  const sections: TrashSection[] = [
+    {
+      title: "Classes",
+      items: classes.map((item) => ({
+        entity: "class",
+        id: item.id,
+        name: item.name,
+        detail: `${item.academicYear.name}, ${item._count.students} students`,
+        deletedAt: item.deletedAt!,
+      })),
+    },
+    {
+      title: "Teachers",
+      items: teachers.map((item) => ({
+        entity: "teacher",
+        id: item.id,
+        name: `${item.name} ${item.surname}`,
+        detail: item.subjects.map((subject) => subject.name).join(", "),
+        deletedAt: item.deletedAt!,
+      })),
+    },
+    {
+      title: "Students",
+      items: students.map((item) => ({
+        entity: "student",
+        id: item.id,
+        name: `${item.name} ${item.surname}`,
+        detail: `Class ${item.class.name}${
+          item.class.deletedAt ? " (in the trash)" : ""
+        }`,
+        deletedAt: item.deletedAt!,
+      })),
+    },
+  ];
+
+  const renderRow = (item: TrashItem) => (
+    <tr
+      key={item.id}
+      className="border-b border-gray-200 even:bg-slate-50 text-sm hover:bg-lamaPurpleLight"
+    >
+      <td className="p-4 font-medium">{item.name}</td>
+      <td className="hidden md:table-cell text-gray-500">
+        {item.detail || "-"}
+      </td>
+      <td className="hidden md:table-cell">
+        {formatDateTime(item.deletedAt)}
+      </td>
+      <td>
+        <TrashActions entity={item.entity} id={item.id} />
+      </td>
+    </tr>
+  );
+
+  return (
+    <div className="bg-white p-4 rounded-md flex-1 m-4 mt-0">
+      {/* TOP */}
+      <div className="flex items-center gap-4">
+        <Image src="/delete.png" alt="" width={20} height={20} />
+        <h1 className="text-lg font-semibold">Trash</h1>
+      </div>
+      <p className="mt-2 text-sm text-gray-500">
+        Deleted classes, teachers and students keep their history here until
+        they&apos;re restored. Deleting one for good only works once nothing
+        refers to it anymore.
+      </p>
+      {/* LIST */}
+      {sections.map((section) => (
+        <div key={section.title} className="mt-6">
+          <h2 className="font-semibold">
+            {section.title}{" "}
+            <span className="text-sm text-gray-400">
+              {section.items.length}
+            </span>
+          </h2>
+          {section.items.length ? (
+            <Table
+              columns={columns}
+              renderRow={renderRow}
+              data={section.items}
+            />
+          ) : (
+            <p className="mt-2 text-sm text-gray-400">Nothing in the trash</p>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default TrashPage;
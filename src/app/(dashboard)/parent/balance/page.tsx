@@ -0,0 +1,94 @@
+import InvoiceStatusBadge from "@/components/InvoiceStatusBadge";
+import { formatMoney, getParentBalances, sumMoney } from "@/lib/finance";
+import { auth } from "@clerk/nextjs/server";
+import Image from "next/image";
+import Link from "next/link";
+
+const formatDate = (date: Date) =>
+  new Intl.DateTimeFormat("en-US", { timeZone: "UTC" }).format(date);
+
+const ParentBalancePage = async () => {
+  const { userId } = auth();
+
+  const children = await getParentBalances(userId!);
+  const outstanding = sumMoney(children.map((child) => child.balance));
+
+  return (
+    <div className="flex-1 p-4 flex flex-col gap-4">
+      {/* TOP */}
+      <div className="bg-white p-4 rounded-md flex items-center justify-between">
+        <div className="flex items-center gap-4">
+          <Image src="/finance.png" alt="" width={24} height={24} />
+          <div className="flex flex-col">
+            <h1 className="text-lg font-semibold">Balance</h1>
+            <span className="text-sm text-gray-500">
+              {outstanding.gt(0)
+                ? `${formatMoney(outstanding)} outstanding`
+                : "Nothing outstanding"}
+            </span>
+          </div>
+        </div>
+        <Link
+          href="/list/invoices"
+          className="text-sm text-gray-500 hover:underline"
+        >
+          All invoices
+        </Link>
+      </div>
+      {!children.length && (
+        <div className="bg-white p-4 rounded-md text-sm text-gray-400">
+          No invoices have been issued yet.
+        </div>
+      )}
+      {/* CHILDREN */}
+      {children.map((child) => (
+        <div
+          key={child.student.id}
+          className="bg-white p-4 rounded-md flex flex-col gap-4"
+        >
+          <div className="flex items-center justify-between">
+            <h2 className="font-semibold">
+              {child.student.name} {child.student.surname}
+            </h2>
+            <div className="flex items-center gap-4 text-sm">
+              {child.overdue.gt(0) && (
+                <span className="text-red-500">
+                  {formatMoney(child.overdue)} overdue
+                </span>
+              )}
+              <span className="font-semibold">
+                {formatMoney(child.balance)}
+              </span>
+            </div>
+          </div>
+          {child.open.length ? (
+            <div className="flex flex-col gap-2">
+              {child.open.map(({ invoice, balance, status }) => (
+                <Link
+                  key={invoice.id}
+                  href={`/list/invoices/${invoice.id}`}
+                  className="flex items-center justify-between gap-4 p-2 rounded-md text-sm odd:bg-lamaSkyLight even:bg-lamaPurpleLight"
+                >
+                  <div className="flex flex-col">
+                    <span>{invoice.title}</span>
+                    <span className="text-xs text-gray-500">
+                      Due {formatDate(invoice.dueDate)}
+                    </span>
+                  </div>
+                  <div className="flex items-center gap-4">
+                    <InvoiceStatusBadge status={status} />
+                    <span>{formatMoney(balance)}</span>
+                  </div>
+                </Link>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-gray-400">Everything is paid</p>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default ParentBalancePage;
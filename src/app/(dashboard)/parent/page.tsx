@@ -1,5 +1,7 @@
 import Announcements from "@/components/Announcements";
 import BigCalendarContainer from "@/components/BigCalendarContainer";
+import ReportCards from "@/components/ReportCards";
+import { childrenOf } from "@/lib/guardians";
 import prisma from "@/lib/prisma";
 import { auth } from "@clerk/nextjs/server";
 
@@ -10,7 +12,8 @@ const ParentPage = async () => {
   
   const students = await prisma.student.findMany({
     where: {
-      parentId: currentUserId!,
+      ...childrenOf(currentUserId!),
+      deletedAt: null,
     },
   });
 
@@ -31,6 +34,7 @@ const ParentPage = async () => {
       </div>
       {/* RIGHT */}
       <div className="w-full xl:w-1/3 flex flex-col gap-8">
+        <ReportCards />
         <Announcements />
       </div>
     </div>
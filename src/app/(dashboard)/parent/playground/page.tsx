@@ -0,0 +1,82 @@
+import { auth } from "@clerk/nextjs/server";
+import { redirect } from "next/navigation";
+import AIPlaygroundParent from "@/components/ai/AIPlaygroundParent";
+import { childrenOf } from "@/lib/guardians";
+import prisma from "@/lib/prisma";
+
+export default async function ParentPlaygroundPage() {
+  const { userId } = await auth();
+
+  if (!userId) {
+    redirect("/sign-in");
+  }
+
+  const students = await prisma.student.findMany({
+    where: { ...childrenOf(userId), deletedAt: null },
+    select: {
+      id: true,
+      name: true,
+      surname: true,
+      class: { select: { name: true } },
+    },
+    orderBy: { name: "asc" },
+  });
+
+  return (
+    <div className="flex-1 p-4 flex flex-col gap-4 xl:flex-row">
+      {/* Main Content */}
+      <div className="w-full xl:w-2/3">
+        <div className="h-full bg-white p-4 rounded-md">
+          <h1 className="text-xl font-semibold mb-4">🤖 AI Playground</h1>
+          <AIPlaygroundParent
+            students={students.map((student) => ({
+              id: student.id,
+              name: student.name,
+              surname: student.surname,
+              className: student.class.name,
+            }))}
+          />
+        </div>
+      </div>
+
+      {/* Sidebar */}
+      <div className="w-full xl:w-1/3 flex flex-col gap-4">
+        <div className="bg-white p-4 rounded-md">
+          <h2 className="text-lg font-semibold mb-3">What you can ask</h2>
+          <div className="space-y-3 text-sm">
+            <div className="flex gap-3">
+              <span className="text-2xl">📚</span>
+              <div>
+                <p className="font-semibold">Subjects</p>
+                <p className="text-gray-500">What your child is learning and who teaches it</p>
+              </div>
+            </div>
+            <div className="flex gap-3">
+              <span className="text-2xl">📈</span>
+              <div>
+                <p className="font-semibold">Results</p>
+                <p className="text-gray-500">Grades, averages and attendance explained</p>
+              </div>
+            </div>
+            <div className="flex gap-3">
+              <span className="text-2xl">🏠</span>
+              <div>
+                <p className="font-semibold">Support at home</p>
+                <p className="text-gray-500">Ideas to help with the subjects that need it</p>
+              </div>
+            </div>
+          </div>
+        </div>
+
+        <div className="bg-lamaSkyLight p-4 rounded-md">
+          <h2 className="text-lg font-semibold mb-3">💡 Good to know</h2>
+          <ul className="space-y-2 text-sm text-gray-700">
+            <li>• Answers only use your own child&apos;s record</li>
+            <li>• Each child has a separate conversation</li>
+            <li>• Contact the teacher for anything the record can&apos;t explain</li>
+          </ul>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,117 @@
+import QuestionRubricSelect from "@/components/ai/QuestionRubricSelect";
+import SaveGeneratedRubricButton from "@/components/ai/SaveGeneratedRubricButton";
+import { getTestQuestions, isObjective } from "@/lib/onlineTests";
+import { authorize } from "@/lib/policy";
+import prisma from "@/lib/prisma";
+import { parseRubricDefinition } from "@/lib/rubrics";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+
+// A generated quiz or exam question by question, where the short answers and
+// essays get the rubrics they're marked against
+const GeneratedContentDetailPage = async ({
+  params: { id },
+}: {
+  params: { id: string };
+}) => {
+  const actor = await authorize("aiContent", "update", { id });
+  if (!actor) {
+    return notFound();
+  }
+
+  const [content, rubrics] = await Promise.all([
+    prisma.aIGeneratedContent.findUnique({
+      where: { id },
+      include: { rubrics: true },
+    }),
+    prisma.rubric.findMany({
+      select: { id: true, title: true },
+      orderBy: { title: "asc" },
+    }),
+  ]);
+
+  if (!content) {
+    return notFound();
+  }
+
+  const questions = getTestQuestions(content);
+  const generatedRubric = parseRubricDefinition(
+    (content.content as any)?.rubric,
+    `${content.title} rubric`
+  );
+
+  return (
+    <div className="bg-white p-4 rounded-md flex-1 m-4 mt-0 flex flex-col gap-4">
+      {/* TOP */}
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex flex-col gap-1">
+          <h1 className="text-lg font-semibold">{content.title}</h1>
+          <span className="text-xs text-gray-500 capitalize">
+            {content.type} · {questions.length} questions
+          </span>
+        </div>
+        {generatedRubric && <SaveGeneratedRubricButton contentId={id} />}
+      </div>
+      {generatedRubric && (
+        <span className="text-xs text-gray-500">
+          The generator drafted a rubric with{" "}
+          {generatedRubric.criteria.length} criteria. Save it to attach it to
+          questions, and edit it on the{" "}
+          <Link href="/list/rubrics" className="underline">
+            rubric list
+          </Link>
+          .
+        </span>
+      )}
+      {/* QUESTIONS */}
+      <div className="flex flex-col gap-4">
+        {questions.map((question, index) => (
+          <div
+            key={question.id}
+            className="flex flex-col gap-2 border-t border-gray-100 pt-4"
+          >
+            {question.section && (
+              <span className="text-xs text-gray-400">{question.section}</span>
+            )}
+            <span className="text-sm font-semibold">
+              {index + 1}. {question.question}{" "}
+              <span className="font-normal text-gray-500">
+                ({question.points} points)
+              </span>
+            </span>
+            <span className="text-xs text-gray-500">
+              {question.type.replace("_", " ")}
+              {question.correctAnswer &&
+                ` · Answer: ${question.correctAnswer}`}
+            </span>
+            {!isObjective(question) && (
+              <div className="flex items-center gap-2">
+                <QuestionRubricSelect
+                  contentId={id}
+                  questionId={question.id}
+                  rubricId={
+                    content.rubrics.find(
+                      (item) => item.questionId === question.id
+                    )?.rubricId ?? null
+                  }
+                  rubrics={rubrics}
+                />
+                <span className="text-xs text-gray-400">
+                  Marked by hand, or against the rubric
+                </span>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+      <Link
+        href="/teacher/playground/content"
+        className="text-sm text-gray-500 hover:underline self-start"
+      >
+        Back to generated content
+      </Link>
+    </div>
+  );
+};
+
+export default GeneratedContentDetailPage;
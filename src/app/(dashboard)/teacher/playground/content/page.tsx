@@ -0,0 +1,179 @@
+import Pagination from "@/components/Pagination";
+import Table from "@/components/Table";
+import AIContentActions from "@/components/ai/AIContentActions";
+import { getTestQuestions } from "@/lib/onlineTests";
+import { getActor } from "@/lib/policy";
+import prisma from "@/lib/prisma";
+import { ITEM_PER_PAGE } from "@/lib/settings";
+import {
+  AIGeneratedContent,
+  Class,
+  Exam,
+  Prisma,
+  Subject,
+} from "@prisma/client";
+import Link from "next/link";
+import { redirect } from "next/navigation";
+
+type ContentList = AIGeneratedContent & {
+  exam:
+    | (Exam & {
+        lesson: {
+          subject: Pick<Subject, "name">;
+          class: Pick<Class, "name">;
+        };
+      })
+    | null;
+};
+
+const formatDateTime = (date: Date) =>
+  date.toLocaleString("en-US", { dateStyle: "medium", timeStyle: "short" });
+
+// The teacher's generated quizzes and exams, each a draft until published to
+// one of their lessons as an exam
+const GeneratedContentPage = async ({
+  searchParams,
+}: {
+  searchParams: { [key: string]: string | undefined };
+}) => {
+  const actor = getActor();
+  if (!actor) {
+    redirect("/sign-in");
+  }
+
+  const columns = [
+    {
+      header: "Title",
+      accessor: "title",
+    },
+    {
+      header: "Questions",
+      accessor: "questions",
+      className: "hidden md:table-cell",
+    },
+    {
+      header: "Exam",
+      accessor: "exam",
+      className: "hidden md:table-cell",
+    },
+    {
+      header: "Actions",
+      accessor: "action",
+    },
+  ];
+
+  const lessons = await prisma.lesson.findMany({
+    where: actor.role === "teacher" ? { teacherId: actor.userId } : {},
+    select: { id: true, name: true, class: { select: { name: true } } },
+    orderBy: { name: "asc" },
+  });
+  const lessonOptions = lessons.map((lesson) => ({
+    id: lesson.id,
+    name: `${lesson.name} (${lesson.class.name})`,
+  }));
+
+  const renderRow = (item: ContentList) => (
+    <tr
+      key={item.id}
+      className="border-b border-gray-200 even:bg-slate-50 text-sm hover:bg-lamaPurpleLight"
+    >
+      <td className="p-4">
+        <div className="flex flex-col">
+          <Link
+            href={`/teacher/playground/content/${item.id}`}
+            className="font-semibold hover:underline"
+          >
+            {item.title}
+          </Link>
+          <span className="text-xs text-gray-500 capitalize">
+            {item.type} ·{" "}
+            {new Intl.DateTimeFormat("en-US").format(item.createdAt)}
+          </span>
+        </div>
+      </td>
+      <td className="hidden md:table-cell">
+        {getTestQuestions(item).length}
+      </td>
+      <td className="hidden md:table-cell">
+        {item.exam ? (
+          <div className="flex flex-col">
+            <span>
+              {item.exam.lesson.subject.name}, {item.exam.lesson.class.name}
+            </span>
+            <span className="text-xs text-gray-500">
+              {formatDateTime(item.exam.startTime)} to{" "}
+              {formatDateTime(item.exam.endTime)}
+            </span>
+          </div>
+        ) : (
+          <span className="text-gray-400">Draft</span>
+        )}
+      </td>
+      <td>
+        <AIContentActions
+          contentId={item.id}
+          examId={item.examId}
+          lessons={lessonOptions}
+        />
+      </td>
+    </tr>
+  );
+
+  const { page } = searchParams;
+
+  const p = page ? parseInt(page) : 1;
+
+  const query: Prisma.AIGeneratedContentWhereInput = {
+    createdBy: actor.userId,
+    type: { in: ["quiz", "exam"] },
+  };
+
+  const [data, count] = await prisma.$transaction([
+    prisma.aIGeneratedContent.findMany({
+      where: query,
+      include: {
+        exam: {
+          include: {
+            lesson: {
+              select: {
+                subject: { select: { name: true } },
+                class: { select: { name: true } },
+              },
+            },
+          },
+        },
+      },
+      orderBy: { createdAt: "desc" },
+      take: ITEM_PER_PAGE,
+      skip: ITEM_PER_PAGE * (p - 1),
+    }),
+    prisma.aIGeneratedContent.count({ where: query }),
+  ]);
+
+  return (
+    <div className="bg-white p-4 rounded-md flex-1 m-4 mt-0">
+      {/* TOP */}
+      <div className="flex items-center justify-between">
+        <div className="flex flex-col">
+          <h1 className="text-lg font-semibold">Generated Content</h1>
+          <span className="text-xs text-gray-500">
+            Published quizzes and exams are on the exam list and the class
+            calendar, and students take them online.
+          </span>
+        </div>
+        <Link
+          href="/list/exams"
+          className="text-sm text-gray-500 hover:underline"
+        >
+          Exam list
+        </Link>
+      </div>
+      {/* LIST */}
+      <Table columns={columns} renderRow={renderRow} data={data} />
+      {/* PAGINATION */}
+      <Pagination page={p} count={count} />
+    </div>
+  );
+};
+
+export default GeneratedContentPage;
@@ -0,0 +1,22 @@
+import { notifyAssignmentsDueTomorrow } from "@/lib/notifications";
+import { finishExpiredTestAttempts } from "@/lib/onlineTests";
+import { NextRequest, NextResponse } from "next/server";
+
+// Daily reminders, called by a scheduler (cron, Vercel Cron) with
+// `Authorization: Bearer $CRON_SECRET`. Calling it again the same day is
+// harmless. Also hands in online tests left open when their time ran out.
+export const GET = async (req: NextRequest) => {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || req.headers.get("authorization") !== `Bearer ${secret}`) {
+    return new NextResponse("Unauthorized", { status: 401 });
+  }
+
+  try {
+    const assignments = await notifyAssignmentsDueTomorrow();
+    const tests = await finishExpiredTestAttempts();
+    return NextResponse.json({ assignments, tests });
+  } catch (err) {
+    console.log(err);
+    return new NextResponse("Reminders failed", { status: 500 });
+  }
+};
@@ -1,3 +1,4 @@
+import { childrenOf } from "@/lib/guardians";
 import prisma from "@/lib/prisma";
 import { auth } from "@clerk/nextjs/server";
 
@@ -8,7 +9,7 @@ const Announcements = async () => {
   const roleConditions = {
     teacher: { lessons: { some: { teacherId: userId! } } },
     student: { students: { some: { id: userId! } } },
-    parent: { students: { some: { parentId: userId! } } },
+    parent: { students: { some: childrenOf(userId!) } },
   };
 
   const data = await prisma.announcement.findMany({
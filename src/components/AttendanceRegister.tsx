@@ -0,0 +1,147 @@
+"use client";
+
+import { saveAttendanceRegister } from "@/lib/actions";
+import { AttendanceStatus } from "@prisma/client";
+import { useRouter } from "next/navigation";
+import { useEffect, useState } from "react";
+import { useFormState } from "react-dom";
+import { toast } from "react-toastify";
+
+const statuses: { value: AttendanceStatus; label: string }[] = [
+  { value: "PRESENT", label: "Present" },
+  { value: "ABSENT", label: "Absent" },
+  { value: "LATE", label: "Late" },
+  { value: "EXCUSED", label: "Excused" },
+];
+
+const AttendanceRegister = ({
+  lessonId,
+  date,
+  students,
+  existing,
+}: {
+  lessonId: number;
+  date: string;
+  students: { id: string; name: string; surname: string }[];
+  existing: { studentId: string; status: AttendanceStatus }[];
+}) => {
+  const isSaved = existing.length > 0;
+
+  // Students without a record yet default to present
+  const [marks, setMarks] = useState<Record<string, AttendanceStatus>>(() =>
+    Object.fromEntries(
+      students.map((student) => [
+        student.id,
+        existing.find((entry) => entry.studentId === student.id)?.status ??
+          "PRESENT",
+      ])
+    )
+  );
+
+  const [state, formAction] = useFormState(saveAttendanceRegister, {
+    success: false,
+    error: false,
+  });
+
+  const router = useRouter();
+
+  useEffect(() => {
+    if (state.success) {
+      toast("Attendance has been saved!");
+      router.refresh();
+    }
+  }, [state, router]);
+
+  const markAll = (status: AttendanceStatus) => {
+    setMarks(Object.fromEntries(students.map((student) => [student.id, status])));
+  };
+
+  const onSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    formAction({
+      lessonId,
+      date: new Date(date),
+      entries: students.map((student) => ({
+        studentId: student.id,
+        status: marks[student.id],
+      })),
+    });
+  };
+
+  if (students.length === 0) {
+    return (
+      <span className="text-sm text-gray-500">
+        There are no students in this class.
+      </span>
+    );
+  }
+
+  return (
+    <form className="flex flex-col gap-4" onSubmit={onSubmit}>
+      <div className="flex items-center justify-between">
+        <span className="text-xs text-gray-500">
+          {isSaved
+            ? "This register has been saved. Changes will update it."
+            : "Not taken yet."}
+        </span>
+        <div className="flex items-center gap-2">
+          {statuses.map((status) => (
+            <button
+              type="button"
+              key={status.value}
+              onClick={() => markAll(status.value)}
+              className="px-2 py-1 rounded-md text-xs ring-[1.5px] ring-gray-300"
+            >
+              All {status.label.toLowerCase()}
+            </button>
+          ))}
+        </div>
+      </div>
+      <table className="w-full">
+        <thead>
+          <tr className="text-left text-gray-500 text-sm">
+            <th>Student</th>
+            {statuses.map((status) => (
+              <th key={status.value} className="text-center">
+                {status.label}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {students.map((student) => (
+            <tr
+              key={student.id}
+              className="border-b border-gray-200 even:bg-slate-50 text-sm hover:bg-lamaPurpleLight"
+            >
+              <td className="p-4">{student.name + " " + student.surname}</td>
+              {statuses.map((status) => (
+                <td key={status.value} className="text-center">
+                  <input
+                    type="radio"
+                    name={`status-${student.id}`}
+                    checked={marks[student.id] === status.value}
+                    onChange={() =>
+                      setMarks((prev) => ({
+                        ...prev,
+                        [student.id]: status.value,
+                      }))
+                    }
+                  />
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {state.error && (
+        <span className="text-red-500">Something went wrong!</span>
+      )}
+      <button className="bg-blue-400 text-white p-2 rounded-md">
+        {isSaved ? "Update register" : "Save register"}
+      </button>
+    </form>
+  );
+};
+
+export default AttendanceRegister;
@@ -1,6 +1,5 @@
-import prisma from "@/lib/prisma";
 import BigCalendar from "./BigCalender";
-import { adjustScheduleToCurrentWeek } from "@/lib/utils";
+import { getCalendarEvents } from "@/lib/schedule";
 
 const BigCalendarContainer = async ({
   type,
@@ -9,25 +8,29 @@ const BigCalendarContainer = async ({
   type: "teacherId" | "classId";
   id: string | number;
 }) => {
-  const dataRes = await prisma.lesson.findMany({
-    where: {
-      ...(type === "teacherId"
-        ? { teacherId: id as string }
-        : { classId: id as number }),
-    },
-  });
+  const filter =
+    type === "teacherId"
+      ? { teacherId: id as string }
+      : { classId: id as number };
 
-  const data = dataRes.map((lesson) => ({
-    title: lesson.name,
-    start: lesson.startTime,
-    end: lesson.endTime,
-  }));
+  // The current week is rendered on the server, other ranges load on navigation
+  const today = new Date();
+  const monday = new Date(
+    today.getFullYear(),
+    today.getMonth(),
+    today.getDate() - ((today.getDay() + 6) % 7)
+  );
+  const sunday = new Date(
+    monday.getFullYear(),
+    monday.getMonth(),
+    monday.getDate() + 6
+  );
 
-  const schedule = adjustScheduleToCurrentWeek(data);
+  const data = await getCalendarEvents(filter, monday, sunday);
 
   return (
     <div className="">
-      <BigCalendar data={schedule} />
+      <BigCalendar data={data} filter={filter} />
     </div>
   );
 };
@@ -4,30 +4,57 @@ import { Calendar, momentLocalizer, View, Views } from "react-big-calendar";
 import moment from "moment";
 import "react-big-calendar/lib/css/react-big-calendar.css";
 import { useState } from "react";
+import { loadCalendarEvents } from "@/lib/actions";
+import { CalendarEvent, CalendarFilter } from "@/lib/schedule";
 
 const localizer = momentLocalizer(moment);
 
 const BigCalendar = ({
   data,
+  filter,
 }: {
-  data: { title: string; start: Date; end: Date }[];
+  data: CalendarEvent[];
+  filter: CalendarFilter;
 }) => {
   const [view, setView] = useState<View>(Views.WORK_WEEK);
+  const [date, setDate] = useState(new Date());
+  const [events, setEvents] = useState(data);
 
   const handleOnChangeView = (selectedView: View) => {
     setView(selectedView);
   };
 
+  // Week and day views pass the visible days, the month view a start and end
+  const handleOnRangeChange = (range: Date[] | { start: Date; end: Date }) => {
+    const [start, end] = Array.isArray(range)
+      ? [range[0], range[range.length - 1]]
+      : [range.start, range.end];
+    loadCalendarEvents(filter, start, end).then(setEvents);
+  };
+
   return (
     <Calendar
       localizer={localizer}
-      events={data}
+      events={events}
       startAccessor="start"
       endAccessor="end"
-      views={["work_week", "day"]}
+      views={["month", "work_week", "day"]}
       view={view}
+      date={date}
       style={{ height: "98%" }}
       onView={handleOnChangeView}
+      onNavigate={setDate}
+      onRangeChange={handleOnRangeChange}
+      eventPropGetter={(event) => ({
+        className:
+          event.kind === "holiday"
+            ? "calendar-holiday"
+            : event.kind === "exam"
+            ? "calendar-exam"
+            : event.kind === "lesson"
+            ? ""
+            : `lesson-${event.kind}`,
+      })}
       min={new Date(2025, 1, 0, 8, 0, 0)}
       max={new Date(2025, 1, 0, 17, 0, 0)}
     />
@@ -5,6 +5,7 @@ import prisma from "@/lib/prisma";
 const CountChartContainer = async () => {
   const data = await prisma.student.groupBy({
     by: ["sex"],
+    where: { deletedAt: null },
     _count: true,
   });
 
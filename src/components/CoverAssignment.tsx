@@ -0,0 +1,98 @@
+"use client";
+
+import { assignCover } from "@/lib/actions";
+import type { SubstituteSuggestion } from "@/lib/substitution";
+import { useRouter } from "next/navigation";
+import { useEffect, useState } from "react";
+import { useFormState } from "react-dom";
+import { toast } from "react-toastify";
+
+const CoverAssignment = ({
+  lessonId,
+  date,
+  substituteTeacherId,
+  cancelled,
+  suggestions,
+}: {
+  lessonId: number;
+  // Occurrence day as an ISO string, midnight UTC
+  date: string;
+  substituteTeacherId: string | null;
+  cancelled: boolean;
+  suggestions: SubstituteSuggestion[];
+}) => {
+  const [selected, setSelected] = useState(substituteTeacherId ?? "");
+
+  const [state, formAction] = useFormState(assignCover, {
+    success: false,
+    error: false,
+  });
+
+  const router = useRouter();
+
+  useEffect(() => {
+    if (state.success) {
+      toast("The cover has been saved!");
+      router.refresh();
+    }
+  }, [state, router]);
+
+  const save = (cancel: boolean) =>
+    formAction({
+      lessonId,
+      date: new Date(date),
+      substituteTeacherId: cancel ? undefined : selected || undefined,
+      cancelled: cancel,
+    });
+
+  // The current substitute stays selectable even when no longer ranked
+  const isListed = suggestions.some(
+    (suggestion) => suggestion.teacherId === substituteTeacherId
+  );
+
+  return (
+    <div className="flex flex-col gap-1">
+      <div className="flex items-center gap-2">
+        <select
+          className="ring-[1.5px] ring-gray-300 p-2 rounded-md text-sm"
+          value={selected}
+          onChange={(e) => setSelected(e.target.value)}
+        >
+          <option value="">No cover</option>
+          {substituteTeacherId && !isListed && (
+            <option value={substituteTeacherId}>Current substitute</option>
+          )}
+          {suggestions.map((suggestion) => (
+            <option value={suggestion.teacherId} key={suggestion.teacherId}>
+              {suggestion.name + " " + suggestion.surname}
+              {suggestion.teachesClass ? " · teaches the class" : ""}
+              {` · ${suggestion.coversThisWeek} covers this week`}
+              {` · ${suggestion.lessonsThatDay} lessons that day`}
+            </option>
+          ))}
+        </select>
+        <button
+          className="bg-blue-400 text-white p-2 rounded-md text-sm"
+          onClick={() => save(false)}
+        >
+          Save
+        </button>
+        {!cancelled && (
+          <button
+            className="bg-red-700 text-white p-2 rounded-md text-sm"
+            onClick={() => save(true)}
+          >
+            Cancel lesson
+          </button>
+        )}
+      </div>
+      {state.error && (
+        <span className="text-red-500 text-xs">
+          The teacher is not free or qualified for this lesson!
+        </span>
+      )}
+    </div>
+  );
+};
+
+export default CoverAssignment;
@@ -0,0 +1,58 @@
+"use client";
+
+import Image from "next/image";
+import { useSearchParams } from "next/navigation";
+import { useState } from "react";
+
+const FORMATS = [
+  { format: "csv", label: "CSV" },
+  { format: "xlsx", label: "Excel" },
+  { format: "pdf", label: "PDF" },
+];
+
+// Downloads the whole list, with the filters currently in the URL
+const ExportMenu = ({ list }: { list: string }) => {
+  const searchParams = useSearchParams();
+  const [open, setOpen] = useState(false);
+
+  const hrefFor = (format: string) => {
+    const params = new URLSearchParams(searchParams);
+    params.delete("page");
+    params.set("format", format);
+    return `/list/export/${list}?${params}`;
+  };
+
+  return (
+    <div className="relative">
+      <button
+        className="w-8 h-8 flex items-center justify-center rounded-full bg-lamaYellow"
+        title="Export"
+        onClick={() => setOpen((open) => !open)}
+      >
+        <Image
+          src="/upload.png"
+          alt=""
+          width={14}
+          height={14}
+          className="rotate-180"
+        />
+      </button>
+      {open && (
+        <div className="absolute right-0 top-10 z-10 bg-white rounded-md shadow-md ring-[1.5px] ring-gray-100 flex flex-col text-sm w-24">
+          {FORMATS.map(({ format, label }) => (
+            <a
+              key={format}
+              href={hrefFor(format)}
+              className="px-4 py-2 hover:bg-lamaSkyLight"
+              onClick={() => setOpen(false)}
+            >
+              {label}
+            </a>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExportMenu;
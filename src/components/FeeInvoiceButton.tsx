@@ -0,0 +1,38 @@
+"use client";
+
+import { issueFeeInvoices } from "@/lib/actions";
+import { useRouter } from "next/navigation";
+import { useEffect } from "react";
+import { useFormState } from "react-dom";
+import { toast } from "react-toastify";
+
+// Bills the fee to every student it applies to who hasn't been billed yet
+const FeeInvoiceButton = ({ feeStructureId }: { feeStructureId: number }) => {
+  const [state, formAction] = useFormState(issueFeeInvoices, {
+    success: false,
+    error: false,
+  });
+
+  const router = useRouter();
+
+  useEffect(() => {
+    if (state.success) {
+      toast(state.message);
+      router.refresh();
+    }
+    if (state.error) {
+      toast.error(state.message ?? "Something went wrong!");
+    }
+  }, [state, router]);
+
+  return (
+    <form action={formAction}>
+      <input type="text" name="id" value={feeStructureId} hidden readOnly />
+      <button className="bg-blue-400 text-white p-2 rounded-md text-xs">
+        Issue invoices
+      </button>
+    </form>
+  );
+};
+
+export default FeeInvoiceButton;
@@ -0,0 +1,21 @@
+import Image from "next/image";
+import FinanceChart from "./FinanceChart";
+import { getMonthlyFinance } from "@/lib/finance";
+
+// Payments received and expenses paid this year, by month
+const FinanceChartContainer = async () => {
+  const year = new Date().getFullYear();
+  const data = await getMonthlyFinance(year);
+
+  return (
+    <div className="bg-white rounded-xl w-full h-full p-4">
+      <div className="flex justify-between items-center">
+        <h1 className="text-lg font-semibold">Finance {year}</h1>
+        <Image src="/moreDark.png" alt="" width={20} height={20} />
+      </div>
+      <FinanceChart data={data} />
+    </div>
+  );
+};
+
+export default FinanceChartContainer;
@@ -1,6 +1,8 @@
 import prisma from "@/lib/prisma";
 import FormModal from "./FormModal";
 import { auth } from "@clerk/nextjs/server";
+import { getDeleteImpact } from "@/lib/trash";
+import { toPlainAmounts } from "@/lib/finance";
 
 export type FormContainerProps = {
   table:
@@ -15,7 +17,25 @@ export type FormContainerProps = {
     | "result"
     | "attendance"
     | "event"
-    | "announcement";
+    | "announcement"
+    | "gradeWeight"
+    | "gradeScale"
+    | "academicYear"
+    | "room"
+    | "period"
+    | "subjectHours"
+    | "lessonException"
+    | "holiday"
+    | "teacherAbsence"
+    | "reportCardTemplate"
+    | "feeStructure"
+    | "invoice"
+    | "payment"
+    | "discount"
+    | "expense"
+    | "guardian"
+    | "emergencyContact"
+    | "rubric";
   type: "create" | "update" | "delete";
   data?: any;
   id?: number | string;
@@ -32,6 +52,7 @@ const FormContainer = async ({ table, type, data, id }: FormContainerProps) => {
     switch (table) {
       case "subject":
         const subjectTeachers = await prisma.teacher.findMany({
+          where: { deletedAt: null },
           select: { id: true, name: true, surname: true },
         });
         relatedData = { teachers: subjectTeachers };
@@ -41,9 +62,17 @@ const FormContainer = async ({ table, type, data, id }: FormContainerProps) => {
           select: { id: true, level: true },
         });
         const classTeachers = await prisma.teacher.findMany({
+          where: { deletedAt: null },
           select: { id: true, name: true, surname: true },
         });
-        relatedData = { teachers: classTeachers, grades: classGrades };
+        const classGradeScales = await prisma.gradeScale.findMany({
+          select: { id: true, name: true },
+        });
+        relatedData = {
+          teachers: classTeachers,
+          grades: classGrades,
+          gradeScales: classGradeScales,
+        };
         break;
       case "teacher":
         const teacherSubjects = await prisma.subject.findMany({
@@ -56,9 +85,20 @@ const FormContainer = async ({ table, type, data, id }: FormContainerProps) => {
           select: { id: true, level: true },
         });
         const studentClasses = await prisma.class.findMany({
-          include: { _count: { select: { students: true } } },
+          where: { academicYear: { isCurrent: true }, deletedAt: null },
+          include: {
+            _count: { select: { students: { where: { deletedAt: null } } } },
+          },
         });
-        relatedData = { classes: studentClasses, grades: studentGrades };
+        const studentParents = await prisma.parent.findMany({
+          select: { id: true, name: true, surname: true },
+          orderBy: [{ surname: "asc" }, { name: "asc" }],
+        });
+        relatedData = {
+          classes: studentClasses,
+          grades: studentGrades,
+          parents: studentParents,
+        };
         break;
       case "exam":
         const examLessons = await prisma.lesson.findMany({
@@ -69,18 +109,248 @@ const FormContainer = async ({ table, type, data, id }: FormContainerProps) => {
         });
         relatedData = { lessons: examLessons };
         break;
+      case "lesson":
+        const lessonSubjects = await prisma.subject.findMany({
+          select: { id: true, name: true },
+        });
+        const lessonClasses = await prisma.class.findMany({
+          where: { academicYear: { isCurrent: true }, deletedAt: null },
+          select: { id: true, name: true },
+        });
+        const lessonTeachers = await prisma.teacher.findMany({
+          where: { deletedAt: null },
+          select: { id: true, name: true, surname: true },
+        });
+        const lessonRooms = await prisma.room.findMany({
+          select: { id: true, name: true },
+        });
+        const lessonPeriods = await prisma.period.findMany({
+          orderBy: { startTime: "asc" },
+        });
+        relatedData = {
+          subjects: lessonSubjects,
+          classes: lessonClasses,
+          teachers: lessonTeachers,
+          rooms: lessonRooms,
+          periods: lessonPeriods,
+        };
+        break;
+      case "assignment":
+        const assignmentLessons = await prisma.lesson.findMany({
+          where: {
+            ...(role === "teacher" ? { teacherId: currentUserId! } : {}),
+          },
+          select: { id: true, name: true },
+        });
+        const assignmentRubrics = await prisma.rubric.findMany({
+          select: { id: true, title: true },
+          orderBy: { title: "asc" },
+        });
+        relatedData = {
+          lessons: assignmentLessons,
+          rubrics: assignmentRubrics,
+        };
+        break;
+      case "result":
+        const resultStudents = await prisma.student.findMany({
+          where: {
+            deletedAt: null,
+            ...(role === "teacher"
+              ? { class: { lessons: { some: { teacherId: currentUserId! } } } }
+              : {}),
+          },
+          select: { id: true, name: true, surname: true },
+        });
+        const resultExams = await prisma.exam.findMany({
+          where: {
+            ...(role === "teacher"
+              ? { lesson: { teacherId: currentUserId! } }
+              : {}),
+          },
+          select: { id: true, title: true },
+        });
+        const resultAssignments = await prisma.assignment.findMany({
+          where: {
+            ...(role === "teacher"
+              ? { lesson: { teacherId: currentUserId! } }
+              : {}),
+          },
+          select: { id: true, title: true },
+        });
+        relatedData = {
+          students: resultStudents,
+          exams: resultExams,
+          assignments: resultAssignments,
+        };
+        break;
+      case "attendance":
+        const attendanceStudents = await prisma.student.findMany({
+          where: {
+            deletedAt: null,
+            ...(role === "teacher"
+              ? { class: { lessons: { some: { teacherId: currentUserId! } } } }
+              : {}),
+          },
+          select: { id: true, name: true, surname: true },
+        });
+        const attendanceLessons = await prisma.lesson.findMany({
+          where: {
+            ...(role === "teacher" ? { teacherId: currentUserId! } : {}),
+          },
+          select: { id: true, name: true },
+        });
+        relatedData = {
+          students: attendanceStudents,
+          lessons: attendanceLessons,
+        };
+        break;
+      case "gradeWeight":
+        const weightClasses = await prisma.class.findMany({
+          where: {
+            deletedAt: null,
+            ...(role === "teacher"
+              ? { lessons: { some: { teacherId: currentUserId! } } }
+              : {}),
+          },
+          select: { id: true, name: true },
+        });
+        const weightSubjects = await prisma.subject.findMany({
+          where: {
+            ...(role === "teacher"
+              ? { lessons: { some: { teacherId: currentUserId! } } }
+              : {}),
+          },
+          select: { id: true, name: true },
+        });
+        relatedData = { classes: weightClasses, subjects: weightSubjects };
+        break;
+      case "subjectHours":
+        const hoursClasses = await prisma.class.findMany({
+          where: { academicYear: { isCurrent: true }, deletedAt: null },
+          select: { id: true, name: true },
+          orderBy: { name: "asc" },
+        });
+        const hoursSubjects = await prisma.subject.findMany({
+          select: { id: true, name: true },
+          orderBy: { name: "asc" },
+        });
+        relatedData = { classes: hoursClasses, subjects: hoursSubjects };
+        break;
+      case "lessonException":
+        const changeLessons = await prisma.lesson.findMany({
+          where: { class: { academicYear: { isCurrent: true } } },
+          select: {
+            id: true,
+            name: true,
+            day: true,
+            class: { select: { name: true } },
+          },
+          orderBy: [{ classId: "asc" }, { day: "asc" }, { startTime: "asc" }],
+        });
+        const changeTeachers = await prisma.teacher.findMany({
+          where: { deletedAt: null },
+          select: { id: true, name: true, surname: true },
+        });
+        const changeRooms = await prisma.room.findMany({
+          select: { id: true, name: true },
+        });
+        relatedData = {
+          lessons: changeLessons,
+          teachers: changeTeachers,
+          rooms: changeRooms,
+        };
+        break;
+      case "teacherAbsence":
+        const absenceTeachers = await prisma.teacher.findMany({
+          where: { deletedAt: null },
+          select: { id: true, name: true, surname: true },
+          orderBy: [{ surname: "asc" }, { name: "asc" }],
+        });
+        relatedData = { teachers: absenceTeachers };
+        break;
+      case "event":
+      case "announcement":
+        const eventClasses = await prisma.class.findMany({
+          where: { academicYear: { isCurrent: true }, deletedAt: null },
+          select: { id: true, name: true },
+        });
+        relatedData = { classes: eventClasses };
+        break;
+      case "feeStructure":
+        const feeYears = await prisma.academicYear.findMany({
+          where: { archived: false },
+          select: { id: true, name: true },
+          orderBy: { startDate: "desc" },
+        });
+        const feeGrades = await prisma.grade.findMany({
+          select: { id: true, level: true },
+          orderBy: { level: "asc" },
+        });
+        const feeClasses = await prisma.class.findMany({
+          where: { academicYear: { archived: false }, deletedAt: null },
+          select: { id: true, name: true },
+          orderBy: { name: "asc" },
+        });
+        relatedData = {
+          academicYears: feeYears,
+          grades: feeGrades,
+          classes: feeClasses,
+        };
+        break;
+      case "invoice":
+      case "discount":
+        const financeStudents = await prisma.student.findMany({
+          where: { deletedAt: null },
+          select: { id: true, name: true, surname: true },
+          orderBy: [{ surname: "asc" }, { name: "asc" }],
+        });
+        const discountYears = await prisma.academicYear.findMany({
+          where: { archived: false },
+          select: { id: true, name: true },
+          orderBy: { startDate: "desc" },
+        });
+        relatedData = {
+          students: financeStudents,
+          academicYears: discountYears,
+        };
+        break;
+      case "expense":
+        const expenseCategories = await prisma.expense.findMany({
+          distinct: ["category"],
+          select: { category: true },
+          orderBy: { category: "asc" },
+        });
+        relatedData = {
+          categories: expenseCategories.map((expense) => expense.category),
+        };
+        break;
+      case "guardian":
+        const guardianParents = await prisma.parent.findMany({
+          select: { id: true, name: true, surname: true },
+          orderBy: [{ surname: "asc" }, { name: "asc" }],
+        });
+        relatedData = { parents: guardianParents };
+        break;
 
       default:
         break;
     }
   }
 
+  if (
+    type === "delete" &&
+    id &&
+    (table === "class" || table === "teacher" || table === "student")
+  ) {
+    relatedData = { impact: await getDeleteImpact(table, id) };
+  }
+
   return (
     <div className="">
       <FormModal
         table={table}
         type={type}
-        data={data}
+        data={data && toPlainAmounts(data)}
         id={id}
         relatedData={relatedData}
       />
@@ -1,11 +1,36 @@
 "use client";
 
 import {
+  deleteAcademicYear,
+  deleteAnnouncement,
+  deleteAssignment,
+  deleteAttendance,
   deleteClass,
+  deleteDiscount,
+  deleteEmergencyContact,
+  deleteEvent,
   deleteExam,
+  deleteExpense,
+  deleteFeeStructure,
+  deleteGradeScale,
+  deleteGradeWeight,
+  deleteGuardian,
+  deleteHoliday,
+  deleteInvoice,
+  deleteLesson,
+  deleteLessonException,
+  deleteParent,
+  deletePayment,
+  deletePeriod,
+  deleteReportCardTemplate,
+  deleteResult,
+  deleteRoom,
+  deleteRubric,
   deleteStudent,
   deleteSubject,
+  deleteSubjectHours,
   deleteTeacher,
+  deleteTeacherAbsence,
 } from "@/lib/actions";
 import dynamic from "next/dynamic";
 import Image from "next/image";
@@ -14,6 +39,7 @@ import { Dispatch, SetStateAction, useEffect, useState } from "react";
 import { useFormState } from "react-dom";
 import { toast } from "react-toastify";
 import { FormContainerProps } from "./FormContainer";
+import type { DeleteImpact } from "@/lib/trash";
 
 const deleteActionMap = {
   subject: deleteSubject,
@@ -21,14 +47,31 @@ const deleteActionMap = {
   teacher: deleteTeacher,
   student: deleteStudent,
   exam: deleteExam,
-// TODO: OTHER DELETE ACTIONS
-  parent: deleteSubject,
-  lesson: deleteSubject,
-  assignment: deleteSubject,
-  result: deleteSubject,
-  attendance: deleteSubject,
-  event: deleteSubject,
-  announcement: deleteSubject,
+  parent: deleteParent,
+  lesson: deleteLesson,
+  assignment: deleteAssignment,
+  result: deleteResult,
+  attendance: deleteAttendance,
+  event: deleteEvent,
+  announcement: deleteAnnouncement,
+  gradeWeight: deleteGradeWeight,
+  gradeScale: deleteGradeScale,
+  academicYear: deleteAcademicYear,
+  room: deleteRoom,
+  period: deletePeriod,
+  subjectHours: deleteSubjectHours,
+  lessonException: deleteLessonException,
+  holiday: deleteHoliday,
+  teacherAbsence: deleteTeacherAbsence,
+  reportCardTemplate: deleteReportCardTemplate,
+  feeStructure: deleteFeeStructure,
+  invoice: deleteInvoice,
+  payment: deletePayment,
+  discount: deleteDiscount,
+  expense: deleteExpense,
+  guardian: deleteGuardian,
+  emergencyContact: deleteEmergencyContact,
+  rubric: deleteRubric,
 };
 
 // USE LAZY LOADING
@@ -51,7 +94,93 @@ const ClassForm = dynamic(() => import("./forms/ClassForm"), {
 const ExamForm = dynamic(() => import("./forms/ExamForm"), {
   loading: () => <h1>Loading...</h1>,
 });
-// TODO: OTHER FORMS
+const ParentForm = dynamic(() => import("./forms/ParentForm"), {
+  loading: () => <h1>Loading...</h1>,
+});
+const LessonForm = dynamic(() => import("./forms/LessonForm"), {
+  loading: () => <h1>Loading...</h1>,
+});
+const AssignmentForm = dynamic(() => import("./forms/AssignmentForm"), {
+  loading: () => <h1>Loading...</h1>,
+});
+const ResultForm = dynamic(() => import("./forms/ResultForm"), {
+  loading: () => <h1>Loading...</h1>,
+});
+const AttendanceForm = dynamic(() => import("./forms/AttendanceForm"), {
+  loading: () => <h1>Loading...</h1>,
+});
+const EventForm = dynamic(() => import("./forms/EventForm"), {
+  loading: () => <h1>Loading...</h1>,
+});
+const AnnouncementForm = dynamic(() => import("./forms/AnnouncementForm"), {
+  loading: () => <h1>Loading...</h1>,
+});
+const GradeWeightForm = dynamic(() => import("./forms/GradeWeightForm"), {
+  loading: () => <h1>Loading...</h1>,
+});
+const GradeScaleForm = dynamic(() => import("./forms/GradeScaleForm"), {
+  loading: () => <h1>Loading...</h1>,
+});
+const AcademicYearForm = dynamic(() => import("./forms/AcademicYearForm"), {
+  loading: () => <h1>Loading...</h1>,
+});
+const RoomForm = dynamic(() => import("./forms/RoomForm"), {
+  loading: () => <h1>Loading...</h1>,
+});
+const PeriodForm = dynamic(() => import("./forms/PeriodForm"), {
+  loading: () => <h1>Loading...</h1>,
+});
+const SubjectHoursForm = dynamic(() => import("./forms/SubjectHoursForm"), {
+  loading: () => <h1>Loading...</h1>,
+});
+const LessonExceptionForm = dynamic(
+  () => import("./forms/LessonExceptionForm"),
+  {
+    loading: () => <h1>Loading...</h1>,
+  }
+);
+const HolidayForm = dynamic(() => import("./forms/HolidayForm"), {
+  loading: () => <h1>Loading...</h1>,
+});
+const TeacherAbsenceForm = dynamic(
+  () => import("./forms/TeacherAbsenceForm"),
+  {
+    loading: () => <h1>Loading...</h1>,
+  }
+);
+const ReportCardTemplateForm = dynamic(
+  () => import("./forms/ReportCardTemplateForm"),
+  {
+    loading: () => <h1>Loading...</h1>,
+  }
+);
+const FeeStructureForm = dynamic(() => import("./forms/FeeStructureForm"), {
+  loading: () => <h1>Loading...</h1>,
+});
+const InvoiceForm = dynamic(() => import("./forms/InvoiceForm"), {
+  loading: () => <h1>Loading...</h1>,
+});
+const PaymentForm = dynamic(() => import("./forms/PaymentForm"), {
+  loading: () => <h1>Loading...</h1>,
+});
+const DiscountForm = dynamic(() => import("./forms/DiscountForm"), {
+  loading: () => <h1>Loading...</h1>,
+});
+const ExpenseForm = dynamic(() => import("./forms/ExpenseForm"), {
+  loading: () => <h1>Loading...</h1>,
+});
+const GuardianForm = dynamic(() => import("./forms/GuardianForm"), {
+  loading: () => <h1>Loading...</h1>,
+});
+const EmergencyContactForm = dynamic(
+  () => import("./forms/EmergencyContactForm"),
+  {
+    loading: () => <h1>Loading...</h1>,
+  }
+);
+const RubricForm = dynamic(() => import("./forms/RubricForm"), {
+  loading: () => <h1>Loading...</h1>,
+});
 
 const forms: {
   [key: string]: (
@@ -100,7 +229,206 @@ const forms: {
       setOpen={setOpen}
       relatedData={relatedData}
     />
-    // TODO OTHER LIST ITEMS
+  ),
+  parent: (setOpen, type, data, relatedData) => (
+    <ParentForm
+      type={type}
+      data={data}
+      setOpen={setOpen}
+      relatedData={relatedData}
+    />
+  ),
+  lesson: (setOpen, type, data, relatedData) => (
+    <LessonForm
+      type={type}
+      data={data}
+      setOpen={setOpen}
+      relatedData={relatedData}
+    />
+  ),
+  assignment: (setOpen, type, data, relatedData) => (
+    <AssignmentForm
+      type={type}
+      data={data}
+      setOpen={setOpen}
+      relatedData={relatedData}
+    />
+  ),
+  result: (setOpen, type, data, relatedData) => (
+    <ResultForm
+      type={type}
+      data={data}
+      setOpen={setOpen}
+      relatedData={relatedData}
+    />
+  ),
+  attendance: (setOpen, type, data, relatedData) => (
+    <AttendanceForm
+      type={type}
+      data={data}
+      setOpen={setOpen}
+      relatedData={relatedData}
+    />
+  ),
+  event: (setOpen, type, data, relatedData) => (
+    <EventForm
+      type={type}
+      data={data}
+      setOpen={setOpen}
+      relatedData={relatedData}
+    />
+  ),
+  announcement: (setOpen, type, data, relatedData) => (
+    <AnnouncementForm
+      type={type}
+      data={data}
+      setOpen={setOpen}
+      relatedData={relatedData}
+    />
+  ),
+  gradeWeight: (setOpen, type, data, relatedData) => (
+    <GradeWeightForm
+      type={type}
+      data={data}
+      setOpen={setOpen}
+      relatedData={relatedData}
+    />
+  ),
+  gradeScale: (setOpen, type, data, relatedData) => (
+    <GradeScaleForm
+      type={type}
+      data={data}
+      setOpen={setOpen}
+      relatedData={relatedData}
+    />
+  ),
+  academicYear: (setOpen, type, data, relatedData) => (
+    <AcademicYearForm
+      type={type}
+      data={data}
+      setOpen={setOpen}
+      relatedData={relatedData}
+    />
+  ),
+  room: (setOpen, type, data, relatedData) => (
+    <RoomForm
+      type={type}
+      data={data}
+      setOpen={setOpen}
+      relatedData={relatedData}
+    />
+  ),
+  period: (setOpen, type, data, relatedData) => (
+    <PeriodForm
+      type={type}
+      data={data}
+      setOpen={setOpen}
+      relatedData={relatedData}
+    />
+  ),
+  subjectHours: (setOpen, type, data, relatedData) => (
+    <SubjectHoursForm
+      type={type}
+      data={data}
+      setOpen={setOpen}
+      relatedData={relatedData}
+    />
+  ),
+  lessonException: (setOpen, type, data, relatedData) => (
+    <LessonExceptionForm
+      type={type}
+      data={data}
+      setOpen={setOpen}
+      relatedData={relatedData}
+    />
+  ),
+  holiday: (setOpen, type, data, relatedData) => (
+    <HolidayForm
+      type={type}
+      data={data}
+      setOpen={setOpen}
+      relatedData={relatedData}
+    />
+  ),
+  teacherAbsence: (setOpen, type, data, relatedData) => (
+    <TeacherAbsenceForm
+      type={type}
+      data={data}
+      setOpen={setOpen}
+      relatedData={relatedData}
+    />
+  ),
+  reportCardTemplate: (setOpen, type, data, relatedData) => (
+    <ReportCardTemplateForm
+      type={type}
+      data={data}
+      setOpen={setOpen}
+      relatedData={relatedData}
+    />
+  ),
+  feeStructure: (setOpen, type, data, relatedData) => (
+    <FeeStructureForm
+      type={type}
+      data={data}
+      setOpen={setOpen}
+      relatedData={relatedData}
+    />
+  ),
+  invoice: (setOpen, type, data, relatedData) => (
+    <InvoiceForm
+      type={type}
+      data={data}
+      setOpen={setOpen}
+      relatedData={relatedData}
+    />
+  ),
+  payment: (setOpen, type, data, relatedData) => (
+    <PaymentForm
+      type={type}
+      data={data}
+      setOpen={setOpen}
+      relatedData={relatedData}
+    />
+  ),
+  discount: (setOpen, type, data, relatedData) => (
+    <DiscountForm
+      type={type}
+      data={data}
+      setOpen={setOpen}
+      relatedData={relatedData}
+    />
+  ),
+  expense: (setOpen, type, data, relatedData) => (
+    <ExpenseForm
+      type={type}
+      data={data}
+      setOpen={setOpen}
+      relatedData={relatedData}
+    />
+  ),
+  guardian: (setOpen, type, data, relatedData) => (
+    <GuardianForm
+      type={type}
+      data={data}
+      setOpen={setOpen}
+      relatedData={relatedData}
+    />
+  ),
+  emergencyContact: (setOpen, type, data, relatedData) => (
+    <EmergencyContactForm
+      type={type}
+      data={data}
+      setOpen={setOpen}
+      relatedData={relatedData}
+    />
+  ),
+  rubric: (setOpen, type, data, relatedData) => (
+    <RubricForm
+      type={type}
+      data={data}
+      setOpen={setOpen}
+      relatedData={relatedData}
+    />
   ),
 };
 
@@ -129,20 +457,73 @@ const FormModal = ({
 
     const router = useRouter();
 
+    // Classes, teachers and students go to the trash, after the admin decides
+    // what happens to what depends on them
+    const impact: DeleteImpact | undefined = relatedData?.impact;
+    const kept = (impact?.kept ?? [])
+      .filter((item) => item.count)
+      .map((item) => `${item.count} ${item.label}`);
+
     useEffect(() => {
       if (state.success) {
-        toast(`${table} has been deleted!`);
+        toast(
+          impact
+            ? `${table} has been moved to the trash!`
+            : `${table} has been deleted!`
+        );
         setOpen(false);
         router.refresh();
       }
-    }, [state, router]);
+    }, [state, router, impact]);
 
     return type === "delete" && id ? (
       <form action={formAction} className="p-4 flex flex-col gap-4">
         <input type="text | number" name="id" value={id} hidden />
-        <span className="text-center font-medium">
-          All data will be lost. Are you sure you want to delete this {table}?
-        </span>
+        {impact ? (
+          <>
+            <span className="text-center font-medium">
+              Move {impact.name} to the trash? It can be restored from there.
+            </span>
+            {impact.dependents.map((group) => (
+              <label key={group.key} className="flex flex-col gap-2 text-sm">
+                <span className="text-gray-500">
+                  This {table} has {group.label}.
+                </span>
+                <select
+                  name={group.key}
+                  required
+                  defaultValue=""
+                  className="ring-[1.5px] ring-gray-300 p-2 rounded-md text-sm"
+                >
+                  <option value="" disabled>
+                    Choose what happens to them
+                  </option>
+                  {group.options.map((option) => (
+                    <option key={option.id} value={option.id}>
+                      {group.moveLabel} {option.name}
+                    </option>
+                  ))}
+                  <option value="archive">{group.archiveLabel}</option>
+                </select>
+              </label>
+            ))}
+            {kept.length > 0 && (
+              <span className="text-center text-xs text-gray-400">
+                Kept with it: {kept.join(", ")}
+              </span>
+            )}
+          </>
+        ) : (
+          <span className="text-center font-medium">
+            All data will be lost. Are you sure you want to delete this{" "}
+            {table}?
+          </span>
+        )}
+        {state.error && (
+          <span className="text-center text-sm text-red-500">
+            {state.message ?? "Something went wrong!"}
+          </span>
+        )}
         <button className="bg-red-700 text-white py-2 px-4 rounded-md border-none w-max self-center">
           Delete
         </button>
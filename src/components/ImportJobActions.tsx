@@ -0,0 +1,67 @@
+"use client";
+
+import { deleteImportJob, runImport } from "@/lib/actions";
+import { useRouter } from "next/navigation";
+import { useEffect } from "react";
+import { useFormState } from "react-dom";
+import { toast } from "react-toastify";
+
+const ImportJobActions = ({
+  jobId,
+  pending,
+}: {
+  jobId: number;
+  pending: number;
+}) => {
+  const [runState, runAction] = useFormState(runImport, {
+    success: false,
+    error: false,
+  });
+  const [deleteState, deleteAction] = useFormState(deleteImportJob, {
+    success: false,
+    error: false,
+  });
+
+  const router = useRouter();
+
+  useEffect(() => {
+    if (runState.success) {
+      toast("The import has run, check the report for failed rows!");
+      router.refresh();
+    }
+  }, [runState, router]);
+
+  useEffect(() => {
+    if (deleteState.success) {
+      toast("The import has been discarded!");
+      router.push("/list/imports");
+    }
+  }, [deleteState, router]);
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="flex items-center gap-4">
+        <form action={runAction}>
+          <input type="text" name="id" value={jobId} hidden readOnly />
+          <button
+            className="bg-blue-400 text-white p-2 rounded-md text-sm disabled:bg-gray-300"
+            disabled={!pending}
+          >
+            Import {pending} rows
+          </button>
+        </form>
+        <form action={deleteAction}>
+          <input type="text" name="id" value={jobId} hidden readOnly />
+          <button className="bg-red-700 text-white p-2 rounded-md text-sm">
+            Discard
+          </button>
+        </form>
+      </div>
+      {(runState.error || deleteState.error) && (
+        <span className="text-red-500 text-sm">Something went wrong!</span>
+      )}
+    </div>
+  );
+};
+
+export default ImportJobActions;
@@ -0,0 +1,89 @@
+"use client";
+
+import { validateImport } from "@/lib/actions";
+import type { ImportField, ImportMapping } from "@/lib/bulkImport";
+import {
+  importMappingSchema,
+  ImportMappingSchema,
+} from "@/lib/formValidationSchemas";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useRouter } from "next/navigation";
+import { useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { useFormState } from "react-dom";
+import { toast } from "react-toastify";
+
+const ImportMappingForm = ({
+  id,
+  fields,
+  headers,
+  mapping,
+}: {
+  id: number;
+  fields: ImportField[];
+  headers: string[];
+  mapping: ImportMapping;
+}) => {
+  const { register, handleSubmit } = useForm<ImportMappingSchema>({
+    resolver: zodResolver(importMappingSchema),
+    defaultValues: { id, mapping },
+  });
+
+  const [state, formAction] = useFormState(validateImport, {
+    success: false,
+    error: false,
+  });
+
+  const onSubmit = handleSubmit((data) => {
+    formAction(data);
+  });
+
+  const router = useRouter();
+
+  useEffect(() => {
+    if (state.success) {
+      toast("The dry run is ready to review!");
+      router.refresh();
+    }
+  }, [state, router]);
+
+  return (
+    <form className="flex flex-col gap-4" onSubmit={onSubmit}>
+      <input type="text" hidden {...register("id")} />
+      <div className="flex flex-wrap gap-4">
+        {fields.map((field) => (
+          <div key={field.key} className="flex flex-col gap-2 w-full md:w-1/5">
+            <label className="text-xs text-gray-500">
+              {field.label}
+              {field.required && " *"}
+            </label>
+            <select
+              className="ring-[1.5px] ring-gray-300 p-2 rounded-md text-sm w-full"
+              {...register(`mapping.${field.key}`)}
+            >
+              <option value="">Not imported</option>
+              {headers.map((header) => (
+                <option key={header} value={header}>
+                  {header}
+                </option>
+              ))}
+            </select>
+            {field.hint && (
+              <span className="text-xs text-gray-400">{field.hint}</span>
+            )}
+          </div>
+        ))}
+      </div>
+      {state.error && (
+        <span className="text-red-500 text-sm">
+          {state.message ?? "Something went wrong!"}
+        </span>
+      )}
+      <button className="bg-blue-400 text-white p-2 rounded-md text-sm self-start">
+        Check rows
+      </button>
+    </form>
+  );
+};
+
+export default ImportMappingForm;
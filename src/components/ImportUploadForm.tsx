@@ -0,0 +1,65 @@
+"use client";
+
+import { createImportJob } from "@/lib/actions";
+import { useRouter } from "next/navigation";
+import { useEffect } from "react";
+import { useFormState } from "react-dom";
+
+const ImportUploadForm = () => {
+  const [state, formAction] = useFormState(createImportJob, {
+    success: false,
+    error: false,
+  });
+
+  const router = useRouter();
+
+  useEffect(() => {
+    if (state.success) {
+      router.push(`/list/imports/${state.data.id}`);
+    }
+  }, [state, router]);
+
+  return (
+    <form action={formAction} className="flex flex-col gap-4">
+      <span className="text-xs text-gray-500">
+        Upload a CSV or XLSX file with a header line. Its columns are mapped to
+        fields on the next step and nothing is saved before you confirm the dry
+        run.
+      </span>
+      <div className="flex flex-wrap items-end gap-4">
+        <div className="flex flex-col gap-2 w-full md:w-1/4">
+          <label className="text-xs text-gray-500">Records</label>
+          <select
+            name="entity"
+            className="ring-[1.5px] ring-gray-300 p-2 rounded-md text-sm w-full"
+          >
+            <option value="STUDENT">Students</option>
+            <option value="TEACHER">Teachers</option>
+            <option value="PARENT">Parents</option>
+            <option value="CLASS">Classes</option>
+          </select>
+        </div>
+        <div className="flex flex-col gap-2 w-full md:w-1/3">
+          <label className="text-xs text-gray-500">File</label>
+          <input
+            type="file"
+            name="file"
+            accept=".csv,.xlsx,.txt"
+            required
+            className="text-sm"
+          />
+        </div>
+        <button className="bg-blue-400 text-white p-2 rounded-md text-sm">
+          Upload
+        </button>
+      </div>
+      {state.error && (
+        <span className="text-red-500 text-sm">
+          {state.message ?? "Something went wrong!"}
+        </span>
+      )}
+    </form>
+  );
+};
+
+export default ImportUploadForm;
@@ -0,0 +1,19 @@
+import { InvoiceStatus } from "@/lib/finance";
+
+const statusStyles: Record<InvoiceStatus, { label: string; className: string }> =
+  {
+    PAID: { label: "Paid", className: "bg-green-100 text-green-700" },
+    PARTIAL: { label: "Part paid", className: "bg-lamaYellowLight" },
+    UNPAID: { label: "Unpaid", className: "bg-lamaSkyLight" },
+    OVERDUE: { label: "Overdue", className: "bg-red-100 text-red-600" },
+  };
+
+const InvoiceStatusBadge = ({ status }: { status: InvoiceStatus }) => (
+  <span
+    className={`px-2 py-1 rounded-md text-xs ${statusStyles[status].className}`}
+  >
+    {statusStyles[status].label}
+  </span>
+);
+
+export default InvoiceStatusBadge;
@@ -0,0 +1,48 @@
+"use client";
+
+import { markNotificationsRead } from "@/lib/actions";
+import { useRouter } from "next/navigation";
+import { useEffect } from "react";
+import { useFormState } from "react-dom";
+import { toast } from "react-toastify";
+
+// Marks one notification read, or all of them without an id. With a link it
+// then opens what the notification is about.
+const MarkReadButton = ({
+  id,
+  link,
+  label,
+}: {
+  id?: number;
+  link?: string | null;
+  label: string;
+}) => {
+  const [state, formAction] = useFormState(markNotificationsRead, {
+    success: false,
+    error: false,
+  });
+
+  const router = useRouter();
+
+  useEffect(() => {
+    if (state.success) {
+      if (link) {
+        router.push(link);
+      } else {
+        router.refresh();
+      }
+    }
+    if (state.error) {
+      toast.error(state.message ?? "Something went wrong!");
+    }
+  }, [state, router, link]);
+
+  return (
+    <form action={formAction}>
+      {id && <input type="text" name="id" value={id} hidden readOnly />}
+      <button className="bg-lamaSky p-2 rounded-md text-xs">{label}</button>
+    </form>
+  );
+};
+
+export default MarkReadButton;
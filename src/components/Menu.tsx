@@ -42,12 +42,72 @@ const menuItems = [
         href: "/list/classes",
         visible: ["admin", "teacher"],
       },
+      {
+        icon: "/calendar.png",
+        label: "Academic Years",
+        href: "/list/academic-years",
+        visible: ["admin"],
+      },
       {
         icon: "/lesson.png",
         label: "Lessons",
         href: "/list/lessons",
         visible: ["admin", "teacher"],
       },
+      {
+        icon: "/calendar.png",
+        label: "Timetable",
+        href: "/list/timetable",
+        visible: ["admin"],
+      },
+      {
+        icon: "/lesson.png",
+        label: "Lesson Changes",
+        href: "/list/lesson-changes",
+        visible: ["admin", "teacher"],
+      },
+      {
+        icon: "/teacher.png",
+        label: "Absences",
+        href: "/list/absences",
+        visible: ["admin"],
+      },
+      {
+        icon: "/upload.png",
+        label: "Import",
+        href: "/list/imports",
+        visible: ["admin"],
+      },
+      {
+        icon: "/setting.png",
+        label: "Audit Log",
+        href: "/list/audit-log",
+        visible: ["admin"],
+      },
+      {
+        icon: "/delete.png",
+        label: "Trash",
+        href: "/list/trash",
+        visible: ["admin"],
+      },
+      {
+        icon: "/calendar.png",
+        label: "Holidays",
+        href: "/list/holidays",
+        visible: ["admin"],
+      },
+      {
+        icon: "/lesson.png",
+        label: "Periods",
+        href: "/list/periods",
+        visible: ["admin"],
+      },
+      {
+        icon: "/singleBranch.png",
+        label: "Rooms",
+        href: "/list/rooms",
+        visible: ["admin"],
+      },
       {
         icon: "/exam.png",
         label: "Exams",
@@ -60,12 +120,78 @@ const menuItems = [
         href: "/list/assignments",
         visible: ["admin", "teacher", "student", "parent"],
       },
+      {
+        icon: "/assignment.png",
+        label: "Grading",
+        href: "/list/submissions",
+        visible: ["admin", "teacher"],
+      },
+      {
+        icon: "/assignment.png",
+        label: "Rubrics",
+        href: "/list/rubrics",
+        visible: ["admin", "teacher"],
+      },
       {
         icon: "/result.png",
         label: "Results",
         href: "/list/results",
         visible: ["admin", "teacher", "student", "parent"],
       },
+      {
+        icon: "/result.png",
+        label: "Result Statistics",
+        href: "/list/results/statistics",
+        visible: ["admin", "teacher"],
+      },
+      {
+        icon: "/result.png",
+        label: "Gradebook",
+        href: "/list/gradebook",
+        visible: ["admin", "teacher"],
+      },
+      {
+        icon: "/result.png",
+        label: "Report Cards",
+        href: "/list/report-cards",
+        visible: ["admin", "teacher"],
+      },
+      {
+        icon: "/result.png",
+        label: "Grade Scales",
+        href: "/list/grade-scales",
+        visible: ["admin"],
+      },
+      {
+        icon: "/finance.png",
+        label: "Fees",
+        href: "/list/fees",
+        visible: ["admin"],
+      },
+      {
+        icon: "/finance.png",
+        label: "Invoices",
+        href: "/list/invoices",
+        visible: ["admin"],
+      },
+      {
+        icon: "/finance.png",
+        label: "Discounts",
+        href: "/list/discounts",
+        visible: ["admin"],
+      },
+      {
+        icon: "/finance.png",
+        label: "Expenses",
+        href: "/list/expenses",
+        visible: ["admin"],
+      },
+      {
+        icon: "/finance.png",
+        label: "Balance",
+        href: "/parent/balance",
+        visible: ["parent"],
+      },
       {
         icon: "/attendance.png",
         label: "Attendance",
@@ -78,6 +204,12 @@ const menuItems = [
         href: "/list/events",
         visible: ["admin", "teacher", "student", "parent"],
       },
+      {
+        icon: "/announcement.png",
+        label: "Notifications",
+        href: "/list/notifications",
+        visible: ["admin", "teacher", "student", "parent"],
+      },
       {
         icon: "/message.png",
         label: "Messages",
@@ -113,6 +245,12 @@ const menuItems = [
         href: "/student/playground",
         visible: ["student"],
       },
+      {
+        icon: "/brain.png",
+        label: "AI Playground",
+        href: "/parent/playground",
+        visible: ["parent"],
+      },
     ],
   },
   {
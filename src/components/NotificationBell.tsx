@@ -0,0 +1,32 @@
+import prisma from "@/lib/prisma";
+import { auth } from "@clerk/nextjs/server";
+import Image from "next/image";
+import Link from "next/link";
+
+// Unread in-app notifications of the current user
+const NotificationBell = async () => {
+  const { userId } = auth();
+
+  const unread = userId
+    ? await prisma.notification.count({
+        where: { userId, inApp: true, readAt: null },
+      })
+    : 0;
+
+  return (
+    <Link
+      href="/list/notifications"
+      className="bg-white rounded-full w-7 h-7 flex items-center justify-center cursor-pointer relative"
+      aria-label={`Notifications, ${unread} unread`}
+    >
+      <Image src="/announcement.png" alt="" width={20} height={20} />
+      {unread > 0 && (
+        <div className="absolute -top-3 -right-3 w-5 h-5 flex items-center justify-center bg-purple-500 text-white rounded-full text-xs">
+          {unread > 99 ? "99+" : unread}
+        </div>
+      )}
+    </Link>
+  );
+};
+
+export default NotificationBell;
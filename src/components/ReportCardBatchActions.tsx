@@ -0,0 +1,155 @@
+"use client";
+
+import {
+  generateReportCards,
+  publishReportCards,
+  unpublishReportCards,
+} from "@/lib/actions";
+import { useRouter } from "next/navigation";
+import { useEffect, useState } from "react";
+import { useFormState } from "react-dom";
+import { toast } from "react-toastify";
+
+// Generating, publishing and unpublishing the cards of one class for a term
+const ReportCardBatchActions = ({
+  classId,
+  termId,
+  templates,
+  defaultTemplateId,
+  cards,
+  published,
+}: {
+  classId: number;
+  termId: number;
+  templates: { id: number; name: string }[];
+  defaultTemplateId?: number;
+  cards: number;
+  published: number;
+}) => {
+  const [templateId, setTemplateId] = useState(
+    String(defaultTemplateId ?? templates[0]?.id ?? "")
+  );
+  const [releaseDate, setReleaseDate] = useState(
+    new Date().toISOString().split("T")[0]
+  );
+
+  const [generateState, generateAction] = useFormState(generateReportCards, {
+    success: false,
+    error: false,
+  });
+  const [publishState, publishAction] = useFormState(publishReportCards, {
+    success: false,
+    error: false,
+  });
+  const [unpublishState, unpublishAction] = useFormState(
+    unpublishReportCards,
+    {
+      success: false,
+      error: false,
+    }
+  );
+
+  const router = useRouter();
+
+  useEffect(() => {
+    if (generateState.success) {
+      toast(generateState.message);
+      router.refresh();
+    }
+  }, [generateState, router]);
+
+  useEffect(() => {
+    if (publishState.success) {
+      toast(publishState.message);
+      router.refresh();
+    }
+  }, [publishState, router]);
+
+  useEffect(() => {
+    if (unpublishState.success) {
+      toast("The report cards are drafts again!");
+      router.refresh();
+    }
+  }, [unpublishState, router]);
+
+  const error = [generateState, publishState, unpublishState].find(
+    (state) => state.error
+  );
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="flex flex-wrap items-center gap-4">
+        {templates.length ? (
+          <div className="flex items-center gap-2">
+            <select
+              className="ring-[1.5px] ring-gray-300 p-2 rounded-md text-sm"
+              value={templateId}
+              onChange={(e) => setTemplateId(e.target.value)}
+            >
+              {templates.map((template) => (
+                <option value={template.id} key={template.id}>
+                  {template.name}
+                </option>
+              ))}
+            </select>
+            <button
+              className="bg-blue-400 text-white p-2 rounded-md text-sm disabled:bg-gray-300"
+              disabled={published > 0 && published === cards}
+              onClick={() =>
+                generateAction({
+                  classId,
+                  termId,
+                  templateId: parseInt(templateId),
+                })
+              }
+            >
+              {cards ? "Regenerate drafts" : "Generate"}
+            </button>
+          </div>
+        ) : (
+          <span className="text-xs text-gray-400">
+            Create a template to generate report cards.
+          </span>
+        )}
+        {cards > 0 && (
+          <div className="flex items-center gap-2">
+            <input
+              type="date"
+              className="ring-[1.5px] ring-gray-300 p-2 rounded-md text-sm"
+              value={releaseDate}
+              onChange={(e) => setReleaseDate(e.target.value)}
+            />
+            <button
+              className="bg-blue-400 text-white p-2 rounded-md text-sm"
+              onClick={() =>
+                publishAction({
+                  classId,
+                  termId,
+                  releaseDate: new Date(releaseDate),
+                })
+              }
+            >
+              Publish
+            </button>
+          </div>
+        )}
+        {published > 0 && (
+          <form action={unpublishAction}>
+            <input type="text" name="classId" value={classId} hidden readOnly />
+            <input type="text" name="termId" value={termId} hidden readOnly />
+            <button className="bg-red-700 text-white p-2 rounded-md text-sm">
+              Unpublish
+            </button>
+          </form>
+        )}
+      </div>
+      {error && (
+        <span className="text-red-500 text-sm">
+          {error.message ?? "Something went wrong!"}
+        </span>
+      )}
+    </div>
+  );
+};
+
+export default ReportCardBatchActions;
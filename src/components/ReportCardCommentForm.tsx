@@ -0,0 +1,64 @@
+"use client";
+
+import { saveReportCardComment } from "@/lib/actions";
+import { useRouter } from "next/navigation";
+import { useEffect, useState } from "react";
+import { useFormState } from "react-dom";
+import { toast } from "react-toastify";
+
+// A subject teacher's comment, or the supervisor's without a subject
+const ReportCardCommentForm = ({
+  reportCardId,
+  subjectId,
+  comment,
+}: {
+  reportCardId: number;
+  subjectId?: number;
+  comment: string;
+}) => {
+  const [value, setValue] = useState(comment);
+
+  const [state, formAction] = useFormState(saveReportCardComment, {
+    success: false,
+    error: false,
+  });
+
+  const router = useRouter();
+
+  useEffect(() => {
+    if (state.success) {
+      toast("The comment has been saved!");
+      router.refresh();
+    }
+  }, [state, router]);
+
+  return (
+    <div className="flex flex-col gap-2">
+      <textarea
+        className="ring-[1.5px] ring-gray-300 p-2 rounded-md text-sm w-full"
+        rows={2}
+        maxLength={1000}
+        value={value}
+        onChange={(e) => setValue(e.target.value)}
+      />
+      <div className="flex items-center gap-4">
+        <button
+          className="bg-blue-400 text-white p-2 rounded-md text-sm disabled:bg-gray-300"
+          disabled={value === comment}
+          onClick={() =>
+            formAction({ reportCardId, subjectId, comment: value })
+          }
+        >
+          Save
+        </button>
+        {state.error && (
+          <span className="text-red-500 text-sm">
+            {state.message ?? "Something went wrong!"}
+          </span>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ReportCardCommentForm;
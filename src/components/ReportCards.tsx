@@ -0,0 +1,74 @@
+import { formatPercent } from "@/lib/gradebook";
+import { childrenOf } from "@/lib/guardians";
+import prisma from "@/lib/prisma";
+import { getSummary } from "@/lib/reportCards";
+import { toDateOnly } from "@/lib/utils";
+import { auth } from "@clerk/nextjs/server";
+import Link from "next/link";
+
+// Released report cards of the student, or of the parent's children
+const ReportCards = async () => {
+  const { userId, sessionClaims } = auth();
+  const role = (sessionClaims?.metadata as { role?: string })?.role;
+
+  const data = await prisma.reportCard.findMany({
+    where: {
+      releaseDate: { lte: toDateOnly(new Date()) },
+      student: role === "parent" ? childrenOf(userId!) : { id: userId! },
+    },
+    include: {
+      student: { select: { name: true, surname: true } },
+      term: { include: { academicYear: { select: { name: true } } } },
+    },
+    orderBy: { term: { startDate: "desc" } },
+  });
+
+  return (
+    <div className="bg-white p-4 rounded-md">
+      <h1 className="text-xl font-semibold">Report Cards</h1>
+      <div className="flex flex-col gap-4 mt-4">
+        {data.map((card) => {
+          const summary = getSummary(card);
+          return (
+            <div
+              key={card.id}
+              className="bg-lamaSkyLight rounded-md p-4 flex items-center justify-between"
+            >
+              <div className="flex flex-col">
+                <Link
+                  href={`/list/report-cards/${card.id}`}
+                  className="font-medium"
+                >
+                  {card.term.name} {card.term.academicYear.name}
+                </Link>
+                {role === "parent" && (
+                  <span className="text-xs text-gray-500">
+                    {card.student.name + " " + card.student.surname}
+                  </span>
+                )}
+              </div>
+              <div className="flex items-center gap-4">
+                <span className="text-sm font-semibold">
+                  {formatPercent(summary.average)} {summary.letter ?? ""}
+                </span>
+                <a
+                  href={`/list/report-cards/pdf?id=${card.id}`}
+                  className="text-xs text-gray-500 bg-white rounded-md px-2 py-1"
+                >
+                  PDF
+                </a>
+              </div>
+            </div>
+          );
+        })}
+        {!data.length && (
+          <span className="text-sm text-gray-400">
+            No report cards have been released yet.
+          </span>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ReportCards;
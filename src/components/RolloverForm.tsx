@@ -0,0 +1,97 @@
+"use client";
+
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import InputField from "./InputField";
+import TermFields from "./forms/TermFields";
+import { rolloverSchema, RolloverSchema } from "@/lib/formValidationSchemas";
+import { rolloverAcademicYear } from "@/lib/actions";
+import { useFormState } from "react-dom";
+import { useEffect } from "react";
+import { toast } from "react-toastify";
+import { useRouter } from "next/navigation";
+
+// Suggested values for the next year are worked out by the page
+const RolloverForm = ({
+  defaults,
+}: {
+  defaults: {
+    name: string;
+    startDate: string;
+    endDate: string;
+    terms: { name: string; startDate: string; endDate: string }[];
+  };
+}) => {
+  const {
+    register,
+    control,
+    handleSubmit,
+    formState: { errors },
+  } = useForm<RolloverSchema>({
+    resolver: zodResolver(rolloverSchema),
+    defaultValues: { terms: defaults.terms as any, copyLessons: true },
+  });
+
+  const [state, formAction] = useFormState(rolloverAcademicYear, {
+    success: false,
+    error: false,
+  });
+
+  const onSubmit = handleSubmit((data) => {
+    formAction(data);
+  });
+
+  const router = useRouter();
+
+  useEffect(() => {
+    if (state.success) {
+      toast("The new academic year has started!");
+      router.push("/list/academic-years");
+    }
+  }, [state, router]);
+
+  return (
+    <form className="flex flex-col gap-8" onSubmit={onSubmit}>
+      <div className="flex justify-between flex-wrap gap-4">
+        <InputField
+          label="New year name"
+          name="name"
+          defaultValue={defaults.name}
+          register={register}
+          error={errors?.name}
+        />
+        <InputField
+          label="Start date"
+          name="startDate"
+          defaultValue={defaults.startDate}
+          register={register}
+          error={errors?.startDate}
+          type="date"
+        />
+        <InputField
+          label="End date"
+          name="endDate"
+          defaultValue={defaults.endDate}
+          register={register}
+          error={errors?.endDate}
+          type="date"
+        />
+        <div className="flex items-center gap-2 w-full md:w-1/4">
+          <input type="checkbox" id="copyLessons" {...register("copyLessons")} />
+          <label htmlFor="copyLessons" className="text-xs text-gray-500">
+            Copy each class&apos;s timetable
+          </label>
+        </div>
+      </div>
+      <TermFields control={control} register={register} error={errors.terms} />
+      {state.error && (
+        <span className="text-red-500">Something went wrong!</span>
+      )}
+      <button className="bg-blue-400 text-white p-2 rounded-md">
+        Roll over
+      </button>
+    </form>
+  );
+};
+
+export default RolloverForm;
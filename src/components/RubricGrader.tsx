@@ -0,0 +1,203 @@
+"use client";
+
+import { gradeSubmission, markTestAnswer } from "@/lib/actions";
+import { suggestRubricScores } from "@/lib/actions-ai";
+import {
+  getChosenLevels,
+  getInitialSelection,
+  getRubricMaxPoints,
+  getRubricPoints,
+  RubricSelection,
+  RubricTarget,
+  RubricWithLevels,
+} from "@/lib/rubrics";
+import { RubricScore } from "@prisma/client";
+import { useRouter } from "next/navigation";
+import { useEffect, useState } from "react";
+import { useFormState } from "react-dom";
+import { toast } from "react-toastify";
+
+// Grades a submission or a test answer against a rubric, one level per
+// criterion. The AI's suggestions fill in the levels with its reasons next to
+// them, and count once the teacher confirms the grade.
+const RubricGrader = ({
+  target,
+  rubric,
+  scores,
+  feedback,
+}: {
+  target: RubricTarget;
+  rubric: RubricWithLevels;
+  scores: RubricScore[];
+  // Submissions carry written feedback as well
+  feedback?: string | null;
+}) => {
+  const [selection, setSelection] = useState<RubricSelection>(() =>
+    getInitialSelection(scores)
+  );
+  const [comment, setComment] = useState(feedback ?? "");
+  const [isSuggesting, setIsSuggesting] = useState(false);
+
+  const [gradeState, gradeAction] = useFormState(gradeSubmission, {
+    success: false,
+    error: false,
+  });
+  const [markState, markAction] = useFormState(markTestAnswer, {
+    success: false,
+    error: false,
+  });
+  const state = "submissionId" in target ? gradeState : markState;
+
+  const router = useRouter();
+
+  useEffect(() => {
+    if (state.success) {
+      toast("The grade has been saved!");
+      router.refresh();
+    }
+  }, [state, router]);
+
+  const suggest = async () => {
+    setIsSuggesting(true);
+    const result = await suggestRubricScores(target);
+    setIsSuggesting(false);
+
+    if (result.success) {
+      toast(result.message || "Suggestions are ready!");
+      // The teacher's own choices stay, the rest take the suggestion
+      setSelection((current) => ({
+        ...Object.fromEntries(
+          (result.data as { criterionId: number; levelId: number }[]).map(
+            (suggestion) => [suggestion.criterionId, suggestion.levelId]
+          )
+        ),
+        ...current,
+      }));
+      router.refresh();
+    } else {
+      toast.error(result.message || "Something went wrong!");
+    }
+  };
+
+  const confirm = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if ("submissionId" in target) {
+      gradeAction({
+        id: target.submissionId,
+        levels: selection,
+        feedback: comment,
+      });
+    } else {
+      markAction({ ...target, levels: selection });
+    }
+  };
+
+  const chosen = getChosenLevels(rubric, selection);
+  const graded = scores.some((score) => score.gradedAt);
+
+  return (
+    <form className="flex flex-col gap-4" onSubmit={confirm}>
+      <div className="flex items-center justify-between">
+        <h2 className="font-semibold">{rubric.title}</h2>
+        <button
+          type="button"
+          className="px-2 py-1 rounded-md text-xs bg-lamaPurpleLight disabled:opacity-50"
+          disabled={isSuggesting}
+          onClick={suggest}
+        >
+          {isSuggesting ? "Suggesting…" : "Suggest with AI"}
+        </button>
+      </div>
+      {rubric.criteria.map((criterion) => {
+        const score = scores.find((item) => item.criterionId === criterion.id);
+        const suggested = criterion.levels.find(
+          (level) => level.id === score?.suggestedLevelId
+        );
+        return (
+          <div key={criterion.id} className="flex flex-col gap-2">
+            <div className="flex flex-col">
+              <span className="text-sm font-semibold">{criterion.title}</span>
+              {criterion.description && (
+                <span className="text-xs text-gray-500">
+                  {criterion.description}
+                </span>
+              )}
+            </div>
+            <div className="flex flex-wrap gap-2">
+              {criterion.levels.map((level) => (
+                <label
+                  key={level.id}
+                  className={`flex flex-col gap-1 p-2 rounded-md text-xs cursor-pointer ring-[1.5px] w-40 ${
+                    selection[criterion.id] === level.id
+                      ? "ring-lamaSky bg-lamaSkyLight"
+                      : "ring-gray-200"
+                  }`}
+                >
+                  <span className="flex items-center gap-2">
+                    <input
+                      type="radio"
+                      name={`criterion-${criterion.id}`}
+                      checked={selection[criterion.id] === level.id}
+                      onChange={() =>
+                        setSelection((current) => ({
+                          ...current,
+                          [criterion.id]: level.id,
+                        }))
+                      }
+                    />
+                    <span className="font-semibold">
+                      {level.title} ({level.points})
+                    </span>
+                    {level.id === suggested?.id && (
+                      <span className="text-[10px] text-lamaPurple">AI</span>
+                    )}
+                  </span>
+                  {level.description && (
+                    <span className="text-gray-500">{level.description}</span>
+                  )}
+                </label>
+              ))}
+            </div>
+            {suggested && score?.justification && (
+              <p className="text-xs text-gray-500 bg-lamaPurpleLight rounded-md p-2">
+                <span className="font-semibold">
+                  AI suggests {suggested.title}:
+                </span>{" "}
+                {score.justification}
+              </p>
+            )}
+          </div>
+        );
+      })}
+      {"submissionId" in target && (
+        <textarea
+          className="ring-[1.5px] ring-gray-300 p-2 rounded-md text-sm w-full"
+          rows={3}
+          maxLength={5000}
+          placeholder="Feedback for the student"
+          value={comment}
+          onChange={(e) => setComment(e.target.value)}
+        />
+      )}
+      <div className="flex items-center gap-4">
+        <button
+          className="bg-blue-400 text-white p-2 rounded-md text-sm disabled:opacity-50"
+          disabled={!chosen}
+        >
+          {graded ? "Confirm regrade" : "Confirm grade"}
+        </button>
+        <span className="text-sm text-gray-500">
+          {chosen ? getRubricPoints(chosen) : "–"} /{" "}
+          {getRubricMaxPoints(rubric)} points
+        </span>
+        {state.error && (
+          <span className="text-red-500 text-sm">
+            {state.message ?? "Something went wrong!"}
+          </span>
+        )}
+      </div>
+    </form>
+  );
+};
+
+export default RubricGrader;
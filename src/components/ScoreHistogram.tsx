@@ -0,0 +1,42 @@
+"use client";
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+} from "recharts";
+
+const ScoreHistogram = ({
+  data,
+}: {
+  data: { name: string; students: number }[];
+}) => {
+  return (
+    <ResponsiveContainer width="100%" height="100%">
+      <BarChart width={500} height={300} data={data} barSize={24}>
+        <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#ddd" />
+        <XAxis
+          dataKey="name"
+          axisLine={false}
+          tick={{ fill: "#9ca3af", fontSize: 12 }}
+          tickLine={false}
+        />
+        <YAxis
+          axisLine={false}
+          tick={{ fill: "#9ca3af" }}
+          tickLine={false}
+          allowDecimals={false}
+        />
+        <Tooltip
+          contentStyle={{ borderRadius: "10px", borderColor: "lightgray" }}
+        />
+        <Bar dataKey="students" fill="#C3EBFA" radius={[10, 10, 0, 0]} />
+      </BarChart>
+    </ResponsiveContainer>
+  );
+};
+
+export default ScoreHistogram;
@@ -0,0 +1,37 @@
+"use client";
+
+import { startTest } from "@/lib/actions";
+import { useRouter } from "next/navigation";
+import { useEffect } from "react";
+import { useFormState } from "react-dom";
+import { toast } from "react-toastify";
+
+// Starts the clock on the student's online test
+const StartTestButton = ({ examId }: { examId: number }) => {
+  const [state, formAction] = useFormState(startTest, {
+    success: false,
+    error: false,
+  });
+
+  const router = useRouter();
+
+  useEffect(() => {
+    if (state.success) {
+      router.refresh();
+    }
+    if (state.error) {
+      toast.error(state.message ?? "Something went wrong!");
+    }
+  }, [state, router]);
+
+  return (
+    <form action={formAction}>
+      <input type="text" name="examId" value={examId} hidden readOnly />
+      <button className="bg-blue-400 text-white p-2 rounded-md text-sm">
+        Start the test
+      </button>
+    </form>
+  );
+};
+
+export default StartTestButton;
@@ -0,0 +1,73 @@
+import { getCurrentTerm } from "@/lib/academicYear";
+import { formatPercent, getStudentGradebook } from "@/lib/gradebook";
+import prisma from "@/lib/prisma";
+
+// Averages for one term, the current one unless another is given
+const StudentGrades = async ({
+  id,
+  termId,
+  title = "Grades",
+}: {
+  id: string;
+  termId?: number;
+  title?: string;
+}) => {
+  const term = termId
+    ? await prisma.term.findUnique({ where: { id: termId } })
+    : await getCurrentTerm();
+  const gradebook = await getStudentGradebook(id, term?.id);
+
+  return (
+    <div className="bg-white p-4 rounded-md">
+      <div className="flex items-center justify-between">
+        <div className="flex flex-col">
+          <h1 className="text-xl font-semibold">{title}</h1>
+          {term && <span className="text-xs text-gray-400">{term.name}</span>}
+        </div>
+        {gradebook?.letter && (
+          <span className="text-sm text-gray-500">
+            Overall {formatPercent(gradebook.average)}{" "}
+            <span className="font-semibold text-gray-700">
+              {gradebook.letter}
+            </span>
+          </span>
+        )}
+      </div>
+      {!gradebook?.subjects.length ? (
+        <p className="mt-4 text-sm text-gray-400">No results yet.</p>
+      ) : (
+        <table className="w-full mt-4 text-sm">
+          <thead>
+            <tr className="text-left text-gray-500">
+              <th>Subject</th>
+              <th className="hidden md:table-cell">Exams</th>
+              <th className="hidden md:table-cell">Assignments</th>
+              <th>Average</th>
+              <th>Grade</th>
+            </tr>
+          </thead>
+          <tbody>
+            {gradebook.subjects.map((subject) => (
+              <tr
+                key={subject.subjectId}
+                className="border-b border-gray-200 even:bg-slate-50"
+              >
+                <td className="py-2">{subject.subjectName}</td>
+                <td className="hidden md:table-cell">
+                  {formatPercent(subject.examAverage)}
+                </td>
+                <td className="hidden md:table-cell">
+                  {formatPercent(subject.assignmentAverage)}
+                </td>
+                <td>{formatPercent(subject.average)}</td>
+                <td className="font-semibold">{subject.letter}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
+
+export default StudentGrades;
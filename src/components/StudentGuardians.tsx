@@ -0,0 +1,145 @@
+import { RELATIONSHIP_LABELS } from "@/lib/guardians";
+import prisma from "@/lib/prisma";
+import { auth } from "@clerk/nextjs/server";
+import FormContainer from "./FormContainer";
+
+// Who to call about the student and who may collect them, primary guardian
+// first
+const StudentGuardians = async ({ id }: { id: string }) => {
+  const { sessionClaims } = auth();
+  const role = (sessionClaims?.metadata as { role?: string })?.role;
+
+  const [guardians, contacts] = await prisma.$transaction([
+    prisma.guardian.findMany({
+      where: { studentId: id },
+      include: { parent: true },
+      orderBy: [{ isPrimary: "desc" }, { parent: { surname: "asc" } }],
+    }),
+    prisma.emergencyContact.findMany({
+      where: { studentId: id },
+      orderBy: { priority: "asc" },
+    }),
+  ]);
+
+  return (
+    <div className="bg-white p-4 rounded-md">
+      <div className="flex items-center justify-between">
+        <h1 className="text-xl font-semibold">Guardians</h1>
+        {role === "admin" && (
+          <FormContainer
+            table="guardian"
+            type="create"
+            data={{ studentId: id }}
+          />
+        )}
+      </div>
+      <div className="flex flex-col gap-4 mt-4">
+        {guardians.map((guardian) => (
+          <div
+            key={guardian.id}
+            className="flex items-start justify-between gap-2 text-sm"
+          >
+            <div className="flex flex-col gap-1">
+              <span className="font-semibold">
+                {guardian.parent.name + " " + guardian.parent.surname}
+                <span className="font-normal text-gray-500">
+                  {" "}
+                  · {RELATIONSHIP_LABELS[guardian.relationship]}
+                </span>
+              </span>
+              <span className="text-xs text-gray-500">
+                {guardian.parent.phone}
+              </span>
+              <div className="flex flex-wrap gap-1 text-xs">
+                {guardian.isPrimary && (
+                  <span className="px-2 rounded-md bg-lamaSkyLight">
+                    Primary contact
+                  </span>
+                )}
+                {guardian.hasCustody && (
+                  <span className="px-2 rounded-md bg-lamaPurpleLight">
+                    Custody
+                  </span>
+                )}
+                <span
+                  className={`px-2 rounded-md ${
+                    guardian.canPickUp
+                      ? "bg-lamaYellowLight"
+                      : "bg-red-50 text-red-500"
+                  }`}
+                >
+                  {guardian.canPickUp ? "Can pick up" : "May not pick up"}
+                </span>
+                {guardian.isEmergencyContact && (
+                  <span className="px-2 rounded-md bg-pink-50">Emergency</span>
+                )}
+              </div>
+            </div>
+            {role === "admin" && (
+              <div className="flex items-center gap-2">
+                <FormContainer table="guardian" type="update" data={guardian} />
+                <FormContainer
+                  table="guardian"
+                  type="delete"
+                  id={guardian.id}
+                />
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <div className="flex items-center justify-between mt-6">
+        <h2 className="font-semibold">Emergency contacts</h2>
+        {role === "admin" && (
+          <FormContainer
+            table="emergencyContact"
+            type="create"
+            data={{ studentId: id }}
+          />
+        )}
+      </div>
+      {!contacts.length ? (
+        <p className="mt-2 text-sm text-gray-400">
+          Only the guardians marked for emergencies.
+        </p>
+      ) : (
+        <div className="flex flex-col gap-2 mt-2">
+          {contacts.map((contact) => (
+            <div
+              key={contact.id}
+              className="flex items-center justify-between gap-2 text-sm"
+            >
+              <div className="flex flex-col">
+                <span>
+                  {contact.priority}. {contact.name}
+                  <span className="text-gray-500">
+                    {" "}
+                    · {contact.relationship}
+                  </span>
+                </span>
+                <span className="text-xs text-gray-500">{contact.phone}</span>
+              </div>
+              {role === "admin" && (
+                <div className="flex items-center gap-2">
+                  <FormContainer
+                    table="emergencyContact"
+                    type="update"
+                    data={contact}
+                  />
+                  <FormContainer
+                    table="emergencyContact"
+                    type="delete"
+                    id={contact.id}
+                  />
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default StudentGuardians;
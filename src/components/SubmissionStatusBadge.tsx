@@ -0,0 +1,22 @@
+import { SubmissionStatus } from "@/lib/submissions";
+
+const statusStyles: Record<
+  SubmissionStatus,
+  { label: string; className: string }
+> = {
+  PENDING: { label: "Not handed in", className: "bg-lamaSkyLight" },
+  MISSING: { label: "Missing", className: "bg-red-100 text-red-600" },
+  SUBMITTED: { label: "Handed in", className: "bg-lamaYellowLight" },
+  LATE: { label: "Handed in late", className: "bg-orange-100 text-orange-700" },
+  GRADED: { label: "Graded", className: "bg-green-100 text-green-700" },
+};
+
+const SubmissionStatusBadge = ({ status }: { status: SubmissionStatus }) => (
+  <span
+    className={`px-2 py-1 rounded-md text-xs whitespace-nowrap ${statusStyles[status].className}`}
+  >
+    {statusStyles[status].label}
+  </span>
+);
+
+export default SubmissionStatusBadge;
@@ -0,0 +1,121 @@
+"use client";
+
+import { saveTeacherAvailability } from "@/lib/actions";
+import { Day } from "@prisma/client";
+import { useRouter } from "next/navigation";
+import { useEffect, useState } from "react";
+import { useFormState } from "react-dom";
+import { toast } from "react-toastify";
+
+const days: Day[] = ["MONDAY", "TUESDAY", "WEDNESDAY", "THURSDAY", "FRIDAY"];
+
+const TeacherAvailabilityGrid = ({
+  teacherId,
+  periods,
+  unavailable,
+}: {
+  teacherId: string;
+  periods: { id: number; name: string; startTime: string; endTime: string }[];
+  unavailable: { day: Day; periodId: number }[];
+}) => {
+  // Ticked slots are the ones the teacher can be timetabled in
+  const [blocked, setBlocked] = useState<Set<string>>(
+    () => new Set(unavailable.map((slot) => `${slot.day}-${slot.periodId}`))
+  );
+
+  const [state, formAction] = useFormState(saveTeacherAvailability, {
+    success: false,
+    error: false,
+  });
+
+  const router = useRouter();
+
+  useEffect(() => {
+    if (state.success) {
+      toast("Availability has been saved!");
+      router.refresh();
+    }
+  }, [state, router]);
+
+  const toggle = (key: string) => {
+    setBlocked((prev) => {
+      const next = new Set(prev);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+  };
+
+  const onSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    formAction({
+      teacherId,
+      unavailable: days.flatMap((day) =>
+        periods
+          .filter((period) => blocked.has(`${day}-${period.id}`))
+          .map((period) => ({ day, periodId: period.id }))
+      ),
+    });
+  };
+
+  if (periods.length === 0) {
+    return (
+      <span className="text-sm text-gray-500">
+        Define the periods of the school day first.
+      </span>
+    );
+  }
+
+  return (
+    <form className="flex flex-col gap-4" onSubmit={onSubmit}>
+      <span className="text-xs text-gray-500">
+        Untick the periods this teacher can&apos;t teach in.
+      </span>
+      <table className="w-full">
+        <thead>
+          <tr className="text-left text-gray-500 text-sm">
+            <th>Period</th>
+            {days.map((day) => (
+              <th key={day} className="text-center capitalize">
+                {day.toLowerCase()}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {periods.map((period) => (
+            <tr
+              key={period.id}
+              className="border-b border-gray-200 even:bg-slate-50 text-sm hover:bg-lamaPurpleLight"
+            >
+              <td className="p-4">
+                {period.name}{" "}
+                <span className="text-xs text-gray-400">
+                  {period.startTime}-{period.endTime}
+                </span>
+              </td>
+              {days.map((day) => (
+                <td key={day} className="text-center">
+                  <input
+                    type="checkbox"
+                    checked={!blocked.has(`${day}-${period.id}`)}
+                    onChange={() => toggle(`${day}-${period.id}`)}
+                  />
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {state.error && (
+        <span className="text-red-500">Something went wrong!</span>
+      )}
+      <button className="bg-blue-400 text-white p-2 rounded-md">Save</button>
+    </form>
+  );
+};
+
+export default TeacherAvailabilityGrid;
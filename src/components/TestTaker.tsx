@@ -0,0 +1,197 @@
+"use client";
+
+import { saveTestAnswers, submitTest } from "@/lib/actions";
+import type { StudentQuestion, TestAnswers } from "@/lib/onlineTests";
+import { useRouter } from "next/navigation";
+import { useEffect, useRef, useState } from "react";
+import { useFormState } from "react-dom";
+import { toast } from "react-toastify";
+
+const AUTOSAVE_DELAY_MS = 1500;
+
+const formatRemaining = (ms: number) => {
+  const seconds = Math.max(0, Math.ceil(ms / 1000));
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${String(seconds % 60).padStart(2, "0")}`;
+};
+
+// The student's online test: answers save shortly after each change, and the
+// test is handed in by itself when time runs out
+const TestTaker = ({
+  examId,
+  questions,
+  answers: savedAnswers,
+  deadline,
+  now,
+}: {
+  examId: number;
+  questions: StudentQuestion[];
+  answers: TestAnswers;
+  deadline: string;
+  // The server's clock, the countdown follows it rather than the device's
+  now: string;
+}) => {
+  const [answers, setAnswers] = useState<TestAnswers>(savedAnswers);
+  const [dirty, setDirty] = useState(false);
+
+  const [saveState, saveAction] = useFormState(saveTestAnswers, {
+    success: false,
+    error: false,
+  });
+  const [submitState, submitAction] = useFormState(submitTest, {
+    success: false,
+    error: false,
+  });
+
+  const router = useRouter();
+
+  // AUTOSAVE
+
+  useEffect(() => {
+    if (!dirty) return;
+    const timeout = setTimeout(() => {
+      saveAction({ examId, answers });
+      setDirty(false);
+    }, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timeout);
+  }, [answers, dirty, examId, saveAction]);
+
+  const answer = (id: string, value: string) => {
+    setAnswers((current) => ({ ...current, [id]: value }));
+    setDirty(true);
+  };
+
+  // TIMER
+
+  const [clockOffset] = useState(() => new Date(now).getTime() - Date.now());
+  const [remaining, setRemaining] = useState(
+    new Date(deadline).getTime() - new Date(now).getTime()
+  );
+  const submitted = useRef(false);
+
+  const submit = () => {
+    if (submitted.current) return;
+    submitted.current = true;
+    submitAction({ examId, answers });
+  };
+
+  useEffect(() => {
+    const interval = setInterval(() => {
+      setRemaining(new Date(deadline).getTime() - (Date.now() + clockOffset));
+    }, 1000);
+    return () => clearInterval(interval);
+  }, [deadline, clockOffset]);
+
+  useEffect(() => {
+    if (remaining <= 0) submit();
+  });
+
+  useEffect(() => {
+    if (submitState.success) {
+      toast("Your test has been handed in!");
+      router.refresh();
+    }
+    if (submitState.error) {
+      submitted.current = false;
+      toast.error(submitState.message ?? "Something went wrong!");
+    }
+  }, [submitState, router]);
+
+  const answered = questions.filter((q) => answers[q.id]?.trim()).length;
+
+  return (
+    <div className="flex flex-col gap-6">
+      {/* STATUS */}
+      <div className="sticky top-0 bg-white py-2 flex items-center justify-between border-b border-gray-100 z-10">
+        <span
+          className={`text-lg font-semibold ${
+            remaining < 60 * 1000 ? "text-red-500" : ""
+          }`}
+        >
+          {formatRemaining(remaining)}
+        </span>
+        <span className="text-xs text-gray-500">
+          {answered} of {questions.length} answered ·{" "}
+          {dirty
+            ? "Saving…"
+            : saveState.error
+            ? saveState.message ?? "Couldn't save"
+            : "All answers saved"}
+        </span>
+      </div>
+      {/* QUESTIONS */}
+      {questions.map((question, index) => (
+        <div key={question.id} className="flex flex-col gap-2">
+          {question.section &&
+            question.section !== questions[index - 1]?.section && (
+              <div className="flex flex-col mt-2">
+                <h2 className="font-semibold">{question.section}</h2>
+                {question.instructions && (
+                  <p className="text-xs text-gray-500">
+                    {question.instructions}
+                  </p>
+                )}
+              </div>
+            )}
+          <p className="text-sm">
+            <span className="font-semibold">{index + 1}.</span>{" "}
+            {question.question}{" "}
+            <span className="text-xs text-gray-400">
+              ({question.points} point{question.points === 1 ? "" : "s"})
+            </span>
+          </p>
+          {question.type === "multiple_choice" ||
+          question.type === "true_false" ? (
+            <div className="flex flex-col gap-1">
+              {question.options.map((option) => (
+                <label
+                  key={option}
+                  className="flex items-center gap-2 text-sm cursor-pointer"
+                >
+                  <input
+                    type="radio"
+                    name={question.id}
+                    value={option}
+                    checked={answers[question.id] === option}
+                    onChange={() => answer(question.id, option)}
+                  />
+                  {option}
+                </label>
+              ))}
+            </div>
+          ) : question.type === "essay" ? (
+            <textarea
+              className="ring-[1.5px] ring-gray-300 p-2 rounded-md text-sm w-full"
+              rows={6}
+              maxLength={10000}
+              value={answers[question.id] ?? ""}
+              onChange={(e) => answer(question.id, e.target.value)}
+            />
+          ) : (
+            <input
+              type="text"
+              className="ring-[1.5px] ring-gray-300 p-2 rounded-md text-sm w-full md:w-1/2"
+              maxLength={10000}
+              value={answers[question.id] ?? ""}
+              onChange={(e) => answer(question.id, e.target.value)}
+            />
+          )}
+        </div>
+      ))}
+      <button
+        className="bg-blue-400 text-white p-2 rounded-md text-sm self-start"
+        onClick={() => {
+          if (
+            confirm("Hand in your test? You can't change your answers after.")
+          ) {
+            submit();
+          }
+        }}
+      >
+        Hand in
+      </button>
+    </div>
+  );
+};
+
+export default TestTaker;
@@ -0,0 +1,67 @@
+"use client";
+
+import { commitTimetableDraft, discardTimetableDraft } from "@/lib/actions";
+import { useRouter } from "next/navigation";
+import { useEffect } from "react";
+import { useFormState } from "react-dom";
+import { toast } from "react-toastify";
+
+const TimetableDraftActions = ({
+  draftId,
+  canCommit,
+}: {
+  draftId: number;
+  canCommit: boolean;
+}) => {
+  const [commitState, commitAction] = useFormState(commitTimetableDraft, {
+    success: false,
+    error: false,
+  });
+  const [discardState, discardAction] = useFormState(discardTimetableDraft, {
+    success: false,
+    error: false,
+  });
+
+  const router = useRouter();
+
+  useEffect(() => {
+    if (commitState.success) {
+      toast("The timetable has been updated!");
+      router.push("/list/timetable");
+    }
+  }, [commitState, router]);
+
+  useEffect(() => {
+    if (discardState.success) {
+      toast("The draft has been discarded!");
+      router.refresh();
+    }
+  }, [discardState, router]);
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="flex items-center gap-4">
+        <form action={commitAction}>
+          <input type="text" name="id" value={draftId} hidden readOnly />
+          <button
+            className="bg-blue-400 text-white p-2 rounded-md text-sm disabled:bg-gray-300"
+            disabled={!canCommit}
+          >
+            Commit draft
+          </button>
+        </form>
+        <form action={discardAction}>
+          <input type="text" name="id" value={draftId} hidden readOnly />
+          <button className="bg-red-700 text-white p-2 rounded-md text-sm">
+            Discard
+          </button>
+        </form>
+      </div>
+      {(commitState.error || discardState.error) && (
+        <span className="text-red-500 text-sm">Something went wrong!</span>
+      )}
+    </div>
+  );
+};
+
+export default TimetableDraftActions;
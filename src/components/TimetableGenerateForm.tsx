@@ -0,0 +1,85 @@
+"use client";
+
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import {
+  timetableGenerationSchema,
+  TimetableGenerationSchema,
+} from "@/lib/formValidationSchemas";
+import { generateTimetableDraft } from "@/lib/actions";
+import { useFormState } from "react-dom";
+import { useEffect } from "react";
+import { toast } from "react-toastify";
+import { useRouter } from "next/navigation";
+
+const TimetableGenerateForm = ({
+  classes,
+}: {
+  classes: { id: number; name: string; hours: number }[];
+}) => {
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+  } = useForm<TimetableGenerationSchema>({
+    resolver: zodResolver(timetableGenerationSchema),
+    defaultValues: {
+      classIds: classes
+        .filter((item) => item.hours > 0)
+        .map((item) => String(item.id)) as any,
+    },
+  });
+
+  const [state, formAction] = useFormState(generateTimetableDraft, {
+    success: false,
+    error: false,
+  });
+
+  const onSubmit = handleSubmit((data) => {
+    formAction(data);
+  });
+
+  const router = useRouter();
+
+  useEffect(() => {
+    if (state.success) {
+      toast("A new timetable draft is ready to review!");
+      router.refresh();
+    }
+  }, [state, router]);
+
+  return (
+    <form className="flex flex-col gap-4" onSubmit={onSubmit}>
+      <span className="text-xs text-gray-500">
+        The lessons of the ticked classes will be planned from their subject
+        hours. Other classes keep their lessons.
+      </span>
+      <div className="flex flex-wrap gap-4">
+        {classes.map((item) => (
+          <label key={item.id} className="flex items-center gap-2 text-sm">
+            <input type="checkbox" value={item.id} {...register("classIds")} />
+            {item.name}
+            <span className="text-xs text-gray-400">
+              ({item.hours} periods)
+            </span>
+          </label>
+        ))}
+      </div>
+      {errors.classIds?.message && (
+        <p className="text-xs text-red-400">
+          {errors.classIds.message.toString()}
+        </p>
+      )}
+      {state.error && (
+        <span className="text-red-500">
+          Something went wrong! Check that the periods of the day are defined.
+        </span>
+      )}
+      <button className="bg-blue-400 text-white p-2 rounded-md self-start">
+        Generate draft
+      </button>
+    </form>
+  );
+};
+
+export default TimetableGenerateForm;
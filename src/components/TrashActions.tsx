@@ -0,0 +1,71 @@
+"use client";
+
+import { deletePermanently, restoreFromTrash } from "@/lib/actions";
+import type { TrashEntity } from "@/lib/trash";
+import { useRouter } from "next/navigation";
+import { useEffect } from "react";
+import { useFormState } from "react-dom";
+import { toast } from "react-toastify";
+
+const TrashActions = ({
+  entity,
+  id,
+}: {
+  entity: TrashEntity;
+  id: number | string;
+}) => {
+  const [restoreState, restoreAction] = useFormState(restoreFromTrash, {
+    success: false,
+    error: false,
+  });
+  const [deleteState, deleteAction] = useFormState(deletePermanently, {
+    success: false,
+    error: false,
+  });
+
+  const router = useRouter();
+
+  useEffect(() => {
+    if (restoreState.success) {
+      toast(`The ${entity} has been restored!`);
+      router.refresh();
+    }
+  }, [restoreState, router, entity]);
+
+  useEffect(() => {
+    if (deleteState.success) {
+      toast(`The ${entity} has been deleted for good!`);
+      router.refresh();
+    }
+  }, [deleteState, router, entity]);
+
+  const error = restoreState.error ? restoreState : deleteState;
+
+  return (
+    <div className="flex flex-col gap-1">
+      <div className="flex items-center gap-2">
+        <form action={restoreAction}>
+          <input type="text" name="entity" value={entity} hidden readOnly />
+          <input type="text" name="id" value={id} hidden readOnly />
+          <button className="bg-blue-400 text-white p-2 rounded-md text-xs">
+            Restore
+          </button>
+        </form>
+        <form action={deleteAction}>
+          <input type="text" name="entity" value={entity} hidden readOnly />
+          <input type="text" name="id" value={id} hidden readOnly />
+          <button className="bg-red-700 text-white p-2 rounded-md text-xs">
+            Delete for good
+          </button>
+        </form>
+      </div>
+      {error.error && (
+        <span className="text-red-500 text-xs">
+          {error.message ?? "Something went wrong!"}
+        </span>
+      )}
+    </div>
+  );
+};
+
+export default TrashActions;
@@ -13,7 +13,12 @@ const UserCard = async ({
     parent: prisma.parent,
   };
 
-  const data = await modelMap[type].count();
+  // Teachers and students in the trash aren't counted
+  const data = await modelMap[type].count(
+    type === "teacher" || type === "student"
+      ? { where: { deletedAt: null } }
+      : undefined
+  );
 
   return (
     <div className="rounded-2xl odd:bg-lamaPurple even:bg-lamaYellow p-4 flex-1 min-w-[130px]">
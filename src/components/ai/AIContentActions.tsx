@@ -0,0 +1,114 @@
+"use client";
+
+import {
+  publishGeneratedExam,
+  unpublishGeneratedExam,
+} from "@/lib/actions-ai";
+import { useRouter } from "next/navigation";
+import { useState } from "react";
+import { toast } from "react-toastify";
+
+// Publishes a generated quiz or exam to one of the teacher's lessons, or
+// withdraws it again
+const AIContentActions = ({
+  contentId,
+  examId,
+  lessons,
+}: {
+  contentId: string;
+  examId: number | null;
+  lessons: { id: number; name: string }[];
+}) => {
+  const [isPending, setIsPending] = useState(false);
+  const router = useRouter();
+
+  const run = async (action: () => ReturnType<typeof publishGeneratedExam>) => {
+    setIsPending(true);
+    const result = await action();
+    setIsPending(false);
+
+    if (result.success) {
+      toast(result.message || "Content updated!");
+      router.refresh();
+    } else {
+      toast.error(result.message || "Something went wrong!");
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const formData = new FormData(e.currentTarget);
+
+    run(() =>
+      publishGeneratedExam(contentId, {
+        lessonId: Number(formData.get("lessonId")),
+        // The browser's time zone, as the teacher entered them
+        startTime: new Date(formData.get("startTime") as string),
+        endTime: new Date(formData.get("endTime") as string),
+      })
+    );
+  };
+
+  if (examId) {
+    return (
+      <button
+        className="px-2 py-1 rounded-md text-xs bg-red-700 text-white disabled:opacity-50"
+        disabled={isPending}
+        onClick={() => {
+          if (confirm("Withdraw this exam? It is removed from the class.")) {
+            run(() => unpublishGeneratedExam(contentId));
+          }
+        }}
+      >
+        Withdraw
+      </button>
+    );
+  }
+
+  if (!lessons.length) {
+    return (
+      <span className="text-xs text-gray-400">No lessons to publish to</span>
+    );
+  }
+
+  return (
+    <form
+      className="flex flex-wrap items-center gap-2 text-xs py-2"
+      onSubmit={handleSubmit}
+    >
+      <select
+        name="lessonId"
+        required
+        className="ring-[1.5px] ring-gray-300 p-2 rounded-md text-xs"
+      >
+        {lessons.map((lesson) => (
+          <option value={lesson.id} key={lesson.id}>
+            {lesson.name}
+          </option>
+        ))}
+      </select>
+      <input
+        type="datetime-local"
+        name="startTime"
+        required
+        aria-label="Start time"
+        className="ring-[1.5px] ring-gray-300 p-2 rounded-md text-xs"
+      />
+      <input
+        type="datetime-local"
+        name="endTime"
+        required
+        aria-label="End time"
+        className="ring-[1.5px] ring-gray-300 p-2 rounded-md text-xs"
+      />
+      <button
+        className="px-2 py-1 rounded-md text-xs bg-lamaSky disabled:opacity-50"
+        disabled={isPending}
+      >
+        Publish
+      </button>
+    </form>
+  );
+};
+
+export default AIContentActions;
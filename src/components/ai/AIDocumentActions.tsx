@@ -0,0 +1,57 @@
+"use client";
+
+import { deleteAIDocument, updateAIDocument } from "@/lib/actions-ai";
+import { useRouter } from "next/navigation";
+import { useState } from "react";
+import { toast } from "react-toastify";
+
+const AIDocumentActions = ({
+  documentId,
+  isPublic,
+}: {
+  documentId: string;
+  isPublic: boolean;
+}) => {
+  const [isPending, setIsPending] = useState(false);
+  const router = useRouter();
+
+  const run = async (action: () => ReturnType<typeof deleteAIDocument>) => {
+    setIsPending(true);
+    const result = await action();
+    setIsPending(false);
+
+    if (result.success) {
+      toast(result.message || "Document updated!");
+      router.refresh();
+    } else {
+      toast.error(result.message || "Something went wrong!");
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <button
+        className="px-2 py-1 rounded-md text-xs bg-lamaSkyLight disabled:opacity-50"
+        disabled={isPending}
+        onClick={() =>
+          run(() => updateAIDocument(documentId, { isPublic: !isPublic }))
+        }
+      >
+        {isPublic ? "Make private" : "Make public"}
+      </button>
+      <button
+        className="px-2 py-1 rounded-md text-xs bg-red-700 text-white disabled:opacity-50"
+        disabled={isPending}
+        onClick={() => {
+          if (confirm("Delete this document and its chunks?")) {
+            run(() => deleteAIDocument(documentId));
+          }
+        }}
+      >
+        Delete
+      </button>
+    </div>
+  );
+};
+
+export default AIDocumentActions;
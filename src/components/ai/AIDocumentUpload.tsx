@@ -0,0 +1,83 @@
+"use client";
+
+import { uploadAIDocument } from "@/lib/actions-ai";
+import { useRouter } from "next/navigation";
+import { useState } from "react";
+import { toast } from "react-toastify";
+
+const AIDocumentUpload = () => {
+  const [isPending, setIsPending] = useState(false);
+  const router = useRouter();
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const form = e.currentTarget;
+    const formData = new FormData(form);
+    formData.set("isPublic", formData.get("isPublic") ? "true" : "false");
+
+    setIsPending(true);
+    const result = await uploadAIDocument(formData);
+    setIsPending(false);
+
+    if (result.success) {
+      toast("Document uploaded!");
+      form.reset();
+      router.refresh();
+    } else {
+      toast.error(result.message || "Something went wrong!");
+    }
+  };
+
+  return (
+    <form className="flex flex-col gap-3 text-sm" onSubmit={handleSubmit}>
+      <input
+        type="file"
+        name="file"
+        accept=".pdf,.txt,.md,.docx"
+        required
+        className="text-xs"
+      />
+      <input
+        type="text"
+        name="title"
+        placeholder="Title"
+        required
+        className="ring-[1.5px] ring-gray-300 p-2 rounded-md text-sm w-full"
+      />
+      <input
+        type="text"
+        name="description"
+        placeholder="Description"
+        className="ring-[1.5px] ring-gray-300 p-2 rounded-md text-sm w-full"
+      />
+      <div className="flex gap-2">
+        <input
+          type="text"
+          name="subject"
+          placeholder="Subject (e.g. math)"
+          className="ring-[1.5px] ring-gray-300 p-2 rounded-md text-sm w-full"
+        />
+        <input
+          type="number"
+          name="gradeLevel"
+          placeholder="Grade"
+          min={1}
+          max={12}
+          className="ring-[1.5px] ring-gray-300 p-2 rounded-md text-sm w-24"
+        />
+      </div>
+      <label className="flex items-center gap-2 text-xs text-gray-500">
+        <input type="checkbox" name="isPublic" defaultChecked />
+        Visible to students and parents
+      </label>
+      <button
+        className="bg-blue-400 text-white p-2 rounded-md disabled:bg-gray-300"
+        disabled={isPending}
+      >
+        {isPending ? "Processing..." : "Upload"}
+      </button>
+    </form>
+  );
+};
+
+export default AIDocumentUpload;
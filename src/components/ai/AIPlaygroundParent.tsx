@@ -0,0 +1,213 @@
+"use client";
+
+import { useState, useRef, useEffect } from "react";
+import { queryAIPlayground, submitAIFeedback } from "@/lib/actions-ai";
+import { toast } from "react-toastify";
+
+type Message = {
+  id: string;
+  role: "user" | "assistant";
+  content: string;
+  timestamp: Date;
+};
+
+type Child = { id: string; name: string; surname: string; className: string };
+
+const SUGGESTIONS = [
+  "How is my child doing this term?",
+  "Which subject needs the most attention?",
+  "What is covered in math and how can I help at home?",
+  "Explain the latest results",
+];
+
+export default function AIPlaygroundParent({ students }: { students: Child[] }) {
+  const [messages, setMessages] = useState<Message[]>([]);
+  const [input, setInput] = useState("");
+  const [studentId, setStudentId] = useState(students[0]?.id);
+  const [isLoading, setIsLoading] = useState(false);
+  const [conversationId, setConversationId] = useState<string | undefined>();
+  const messagesEndRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
+  }, [messages]);
+
+  // Each child gets their own conversation
+  const selectStudent = (id: string) => {
+    setStudentId(id);
+    setMessages([]);
+    setConversationId(undefined);
+  };
+
+  const ask = async (question: string) => {
+    if (!question.trim() || isLoading || !studentId) return;
+
+    setMessages((prev) => [
+      ...prev,
+      { id: Date.now().toString(), role: "user", content: question, timestamp: new Date() },
+    ]);
+    setInput("");
+    setIsLoading(true);
+
+    try {
+      const result = await queryAIPlayground(question, {
+        mode: "parent_guide",
+        conversationId,
+        studentId,
+      });
+
+      if (result.success && result.data) {
+        setMessages((prev) => [
+          ...prev,
+          {
+            id: (Date.now() + 1).toString(),
+            role: "assistant",
+            content: result.data.answer,
+            timestamp: new Date(),
+          },
+        ]);
+        setConversationId(result.data.conversationId);
+      } else {
+        toast.error(result.message || "Failed to get response");
+      }
+    } catch (error) {
+      console.error("Error querying AI:", error);
+      toast.error("An error occurred. Please try again.");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleFeedback = async (messageId: string, feedbackType: "thumbs_up" | "thumbs_down") => {
+    if (!conversationId) return;
+
+    try {
+      await submitAIFeedback(messageId, conversationId, { feedbackType });
+      toast.success("Feedback submitted!");
+    } catch (error) {
+      console.error("Error submitting feedback:", error);
+    }
+  };
+
+  if (!students.length) {
+    return (
+      <p className="text-sm text-gray-500">No children are linked to your account.</p>
+    );
+  }
+
+  return (
+    <div className="flex flex-col h-full">
+      {/* Child Selector */}
+      <div className="flex gap-2 mb-4 overflow-x-auto pb-2">
+        {students.map((student) => (
+          <button
+            key={student.id}
+            onClick={() => selectStudent(student.id)}
+            className={`px-4 py-2 rounded-md text-sm whitespace-nowrap transition-colors ${
+              studentId === student.id
+                ? "bg-lamaSky text-white"
+                : "bg-gray-100 text-gray-700 hover:bg-gray-200"
+            }`}
+          >
+            👤 {student.name} ({student.className})
+          </button>
+        ))}
+      </div>
+
+      {/* Messages Container */}
+      <div className="flex-1 overflow-y-auto mb-4 space-y-4 p-4 bg-gray-50 rounded-md">
+        {messages.length === 0 ? (
+          <div className="text-center text-gray-500 mt-10">
+            <p className="text-4xl mb-4">👪</p>
+            <p className="text-lg font-semibold">Ask about your child&apos;s learning</p>
+            <div className="flex flex-wrap justify-center gap-2 mt-4">
+              {SUGGESTIONS.map((suggestion) => (
+                <button
+                  key={suggestion}
+                  onClick={() => ask(suggestion)}
+                  className="px-3 py-2 text-xs bg-white border border-gray-200 rounded-md hover:bg-gray-100"
+                >
+                  {suggestion}
+                </button>
+              ))}
+            </div>
+          </div>
+        ) : (
+          messages.map((message) => (
+            <div
+              key={message.id}
+              className={`flex ${message.role === "user" ? "justify-end" : "justify-start"}`}
+            >
+              <div
+                className={`max-w-[80%] rounded-lg p-4 ${
+                  message.role === "user"
+                    ? "bg-lamaSky text-white"
+                    : "bg-white border border-gray-200"
+                }`}
+              >
+                <p className="whitespace-pre-wrap">{message.content}</p>
+                {message.role === "assistant" && (
+                  <div className="flex gap-2 mt-2">
+                    <button
+                      onClick={() => handleFeedback(message.id, "thumbs_up")}
+                      className="px-2 py-1 text-xs bg-gray-100 hover:bg-gray-200 rounded"
+                      title="Helpful"
+                    >
+                      👍
+                    </button>
+                    <button
+                      onClick={() => handleFeedback(message.id, "thumbs_down")}
+                      className="px-2 py-1 text-xs bg-gray-100 hover:bg-gray-200 rounded"
+                      title="Not helpful"
+                    >
+                      👎
+                    </button>
+                  </div>
+                )}
+              </div>
+            </div>
+          ))
+        )}
+
+        {isLoading && (
+          <div className="flex justify-start">
+            <div className="bg-white border border-gray-200 rounded-lg p-4">
+              <div className="flex gap-1">
+                <span className="animate-bounce">●</span>
+                <span className="animate-bounce delay-100">●</span>
+                <span className="animate-bounce delay-200">●</span>
+              </div>
+            </div>
+          </div>
+        )}
+
+        <div ref={messagesEndRef} />
+      </div>
+
+      {/* Input Form */}
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          ask(input);
+        }}
+        className="flex gap-2"
+      >
+        <input
+          type="text"
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          placeholder="Ask about subjects, results or how to help..."
+          className="flex-1 px-4 py-3 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-lamaSky"
+          disabled={isLoading}
+        />
+        <button
+          type="submit"
+          disabled={isLoading || !input.trim()}
+          className="px-6 py-3 bg-lamaSky text-white rounded-md hover:bg-blue-600 disabled:bg-gray-300 disabled:cursor-not-allowed transition-colors"
+        >
+          {isLoading ? "..." : "Send"}
+        </button>
+      </form>
+    </div>
+  );
+}
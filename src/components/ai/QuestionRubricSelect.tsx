@@ -0,0 +1,59 @@
+"use client";
+
+import { setQuestionRubric } from "@/lib/actions-ai";
+import { useRouter } from "next/navigation";
+import { useState } from "react";
+import { toast } from "react-toastify";
+
+// Attaches a rubric to a short answer or essay question, for the teacher to
+// mark the students' answers against
+const QuestionRubricSelect = ({
+  contentId,
+  questionId,
+  rubricId,
+  rubrics,
+}: {
+  contentId: string;
+  questionId: string;
+  rubricId: number | null;
+  rubrics: { id: number; title: string }[];
+}) => {
+  const [isPending, setIsPending] = useState(false);
+  const router = useRouter();
+
+  const handleChange = async (e: React.ChangeEvent<HTMLSelectElement>) => {
+    setIsPending(true);
+    const result = await setQuestionRubric(
+      contentId,
+      questionId,
+      e.target.value ? Number(e.target.value) : null
+    );
+    setIsPending(false);
+
+    if (result.success) {
+      toast(result.message || "Question updated!");
+      router.refresh();
+    } else {
+      toast.error(result.message || "Something went wrong!");
+    }
+  };
+
+  return (
+    <select
+      className="ring-[1.5px] ring-gray-300 p-2 rounded-md text-xs disabled:opacity-50"
+      defaultValue={rubricId ?? ""}
+      disabled={isPending}
+      onChange={handleChange}
+      aria-label="Rubric"
+    >
+      <option value="">No rubric</option>
+      {rubrics.map((rubric) => (
+        <option value={rubric.id} key={rubric.id}>
+          {rubric.title}
+        </option>
+      ))}
+    </select>
+  );
+};
+
+export default QuestionRubricSelect;
@@ -0,0 +1,37 @@
+"use client";
+
+import { saveGeneratedRubric } from "@/lib/actions-ai";
+import { useRouter } from "next/navigation";
+import { useState } from "react";
+import { toast } from "react-toastify";
+
+// Saves the rubric the exam generator drafted as a rubric of the teacher's
+const SaveGeneratedRubricButton = ({ contentId }: { contentId: string }) => {
+  const [isPending, setIsPending] = useState(false);
+  const router = useRouter();
+
+  const handleClick = async () => {
+    setIsPending(true);
+    const result = await saveGeneratedRubric(contentId);
+    setIsPending(false);
+
+    if (result.success) {
+      toast(result.message || "Rubric saved!");
+      router.refresh();
+    } else {
+      toast.error(result.message || "Something went wrong!");
+    }
+  };
+
+  return (
+    <button
+      className="px-2 py-1 rounded-md text-xs bg-lamaPurpleLight disabled:opacity-50"
+      disabled={isPending}
+      onClick={handleClick}
+    >
+      Save generated rubric
+    </button>
+  );
+};
+
+export default SaveGeneratedRubricButton;
@@ -0,0 +1,125 @@
+"use client";
+
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import InputField from "../InputField";
+import TermFields from "./TermFields";
+import {
+  academicYearSchema,
+  AcademicYearSchema,
+} from "@/lib/formValidationSchemas";
+import { createAcademicYear, updateAcademicYear } from "@/lib/actions";
+import { useFormState } from "react-dom";
+import { Dispatch, SetStateAction, useEffect } from "react";
+import { toast } from "react-toastify";
+import { useRouter } from "next/navigation";
+
+const toDateInput = (date?: Date) => date?.toISOString().split("T")[0];
+
+const AcademicYearForm = ({
+  type,
+  data,
+  setOpen,
+}: {
+  type: "create" | "update";
+  data?: any;
+  setOpen: Dispatch<SetStateAction<boolean>>;
+  relatedData?: any;
+}) => {
+  const {
+    register,
+    control,
+    handleSubmit,
+    formState: { errors },
+  } = useForm<AcademicYearSchema>({
+    resolver: zodResolver(academicYearSchema),
+    defaultValues: {
+      terms: data?.terms.map(
+        (term: { name: string; startDate: Date; endDate: Date }) => ({
+          name: term.name,
+          startDate: toDateInput(term.startDate),
+          endDate: toDateInput(term.endDate),
+        })
+      ) ?? [{ name: "Term 1", startDate: "", endDate: "" }],
+    },
+  });
+
+  const [state, formAction] = useFormState(
+    type === "create" ? createAcademicYear : updateAcademicYear,
+    {
+      success: false,
+      error: false,
+    }
+  );
+
+  const onSubmit = handleSubmit((data) => {
+    formAction(data);
+  });
+
+  const router = useRouter();
+
+  useEffect(() => {
+    if (state.success) {
+      toast(
+        `Academic year has been ${type === "create" ? "created" : "updated"}!`
+      );
+      setOpen(false);
+      router.refresh();
+    }
+  }, [state, router, type, setOpen]);
+
+  return (
+    <form className="flex flex-col gap-8" onSubmit={onSubmit}>
+      <h1 className="text-xl font-semibold">
+        {type === "create"
+          ? "Create a new academic year"
+          : "Update the academic year"}
+      </h1>
+
+      <div className="flex justify-between flex-wrap gap-4">
+        <InputField
+          label="Name"
+          name="name"
+          defaultValue={data?.name}
+          register={register}
+          error={errors?.name}
+        />
+        <InputField
+          label="Start date"
+          name="startDate"
+          defaultValue={toDateInput(data?.startDate)}
+          register={register}
+          error={errors?.startDate}
+          type="date"
+        />
+        <InputField
+          label="End date"
+          name="endDate"
+          defaultValue={toDateInput(data?.endDate)}
+          register={register}
+          error={errors?.endDate}
+          type="date"
+        />
+        {data && (
+          <InputField
+            label="Id"
+            name="id"
+            defaultValue={data?.id}
+            register={register}
+            error={errors?.id}
+            hidden
+          />
+        )}
+      </div>
+      <TermFields control={control} register={register} error={errors.terms} />
+      {state.error && (
+        <span className="text-red-500">Something went wrong!</span>
+      )}
+      <button className="bg-blue-400 text-white p-2 rounded-md">
+        {type === "create" ? "Create" : "Update"}
+      </button>
+    </form>
+  );
+};
+
+export default AcademicYearForm;
@@ -0,0 +1,172 @@
+"use client";
+
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import InputField from "../InputField";
+import {
+  assignmentSchema,
+  AssignmentSchema,
+} from "@/lib/formValidationSchemas";
+import { createAssignment, updateAssignment } from "@/lib/actions";
+import { useFormState } from "react-dom";
+import { Dispatch, SetStateAction, useEffect } from "react";
+import { toast } from "react-toastify";
+import { useRouter } from "next/navigation";
+
+const AssignmentForm = ({
+  type,
+  data,
+  setOpen,
+  relatedData,
+}: {
+  type: "create" | "update";
+  data?: any;
+  setOpen: Dispatch<SetStateAction<boolean>>;
+  relatedData?: any;
+}) => {
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+  } = useForm<AssignmentSchema>({
+    resolver: zodResolver(assignmentSchema),
+  });
+
+  const [state, formAction] = useFormState(
+    type === "create" ? createAssignment : updateAssignment,
+    {
+      success: false,
+      error: false,
+    }
+  );
+
+  const onSubmit = handleSubmit((data) => {
+    formAction(data);
+  });
+
+  const router = useRouter();
+
+  useEffect(() => {
+    if (state.success) {
+      toast(
+        `Assignment has been ${type === "create" ? "created" : "updated"}!`
+      );
+      setOpen(false);
+      router.refresh();
+    }
+  }, [state, router, type, setOpen]);
+
+  const { lessons, rubrics } = relatedData;
+
+  return (
+    <form className="flex flex-col gap-8" onSubmit={onSubmit}>
+      <h1 className="text-xl font-semibold">
+        {type === "create" ? "Create a new assignment" : "Update the assignment"}
+      </h1>
+
+      <div className="flex justify-between flex-wrap gap-4">
+        <InputField
+          label="Assignment title"
+          name="title"
+          defaultValue={data?.title}
+          register={register}
+          error={errors?.title}
+        />
+        <InputField
+          label="Start Date"
+          name="startDate"
+          defaultValue={data?.startDate.toISOString().slice(0, 16)}
+          register={register}
+          error={errors?.startDate}
+          type="datetime-local"
+        />
+        <InputField
+          label="Due Date"
+          name="dueDate"
+          defaultValue={data?.dueDate.toISOString().slice(0, 16)}
+          register={register}
+          error={errors?.dueDate}
+          type="datetime-local"
+        />
+        <InputField
+          label="Max score"
+          name="maxScore"
+          defaultValue={data?.maxScore ?? "100"}
+          register={register}
+          error={errors?.maxScore}
+          type="number"
+        />
+        <InputField
+          label="Attempts allowed"
+          name="maxAttempts"
+          defaultValue={data?.maxAttempts ?? "1"}
+          register={register}
+          error={errors?.maxAttempts}
+          type="number"
+        />
+        {data && (
+          <InputField
+            label="Id"
+            name="id"
+            defaultValue={data?.id}
+            register={register}
+            error={errors?.id}
+            hidden
+          />
+        )}
+        <div className="flex flex-col gap-2 w-full md:w-1/4">
+          <label className="text-xs text-gray-500">Lesson</label>
+          <select
+            className="ring-[1.5px] ring-gray-300 p-2 rounded-md text-sm w-full"
+            {...register("lessonId")}
+            defaultValue={data?.lessonId}
+          >
+            {lessons.map((lesson: { id: number; name: string }) => (
+              <option value={lesson.id} key={lesson.id}>
+                {lesson.name}
+              </option>
+            ))}
+          </select>
+          {errors.lessonId?.message && (
+            <p className="text-xs text-red-400">
+              {errors.lessonId.message.toString()}
+            </p>
+          )}
+        </div>
+        <div className="flex flex-col gap-2 w-full md:w-1/4">
+          <label className="text-xs text-gray-500">Rubric</label>
+          <select
+            className="ring-[1.5px] ring-gray-300 p-2 rounded-md text-sm w-full"
+            {...register("rubricId")}
+            defaultValue={data?.rubricId ?? ""}
+          >
+            <option value="">No rubric</option>
+            {rubrics.map((rubric: { id: number; title: string }) => (
+              <option value={rubric.id} key={rubric.id}>
+                {rubric.title}
+              </option>
+            ))}
+          </select>
+        </div>
+        <label className="flex items-center gap-2 text-sm w-full">
+          <input
+            type="checkbox"
+            {...register("allowLate")}
+            defaultChecked={data?.allowLate ?? true}
+          />
+          Accept late submissions
+        </label>
+      </div>
+      {state.error && (
+        <span className="text-red-500">
+          {state.message ?? "Something went wrong!"}
+        </span>
+      )}
+      <button className="bg-blue-400 text-white p-2 rounded-md">
+        {type === "create" ? "Create" : "Update"}
+      </button>
+    </form>
+  );
+};
+
+export default AssignmentForm;
@@ -64,7 +64,7 @@ const ClassForm = ({
     }
   }, [state, router, type, setOpen]);
 
-  const { teachers, grades } = relatedData;
+  const { teachers, grades, gradeScales } = relatedData;
 
   return (
     <form className="flex flex-col gap-8" onSubmit={onSubmit}>
@@ -145,6 +145,21 @@ const ClassForm = ({
             </p>
           )}
         </div>
+        <div className="flex flex-col gap-2 w-full md:w-1/4">
+          <label className="text-xs text-gray-500">Grade scale</label>
+          <select
+            className="ring-[1.5px] ring-gray-300 p-2 rounded-md text-sm w-full"
+            {...register("gradeScaleId")}
+            defaultValue={data?.gradeScaleId ?? ""}
+          >
+            <option value="">Default scale</option>
+            {gradeScales.map((scale: { id: number; name: string }) => (
+              <option value={scale.id} key={scale.id}>
+                {scale.name}
+              </option>
+            ))}
+          </select>
+        </div>
       </div>
       {state.error && (
         <span className="text-red-500">Something went wrong!</span>
@@ -0,0 +1,145 @@
+"use client";
+
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import InputField from "../InputField";
+import { discountSchema, DiscountSchema } from "@/lib/formValidationSchemas";
+import { createDiscount, updateDiscount } from "@/lib/actions";
+import { useFormState } from "react-dom";
+import { Dispatch, SetStateAction, useEffect } from "react";
+import { toast } from "react-toastify";
+import { useRouter } from "next/navigation";
+
+const DiscountForm = ({
+  type,
+  data,
+  setOpen,
+  relatedData,
+}: {
+  type: "create" | "update";
+  data?: any;
+  setOpen: Dispatch<SetStateAction<boolean>>;
+  relatedData?: any;
+}) => {
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+  } = useForm<DiscountSchema>({
+    resolver: zodResolver(discountSchema),
+  });
+
+  const [state, formAction] = useFormState(
+    type === "create" ? createDiscount : updateDiscount,
+    {
+      success: false,
+      error: false,
+    }
+  );
+
+  const onSubmit = handleSubmit((data) => {
+    formAction(data);
+  });
+
+  const router = useRouter();
+
+  useEffect(() => {
+    if (state.success) {
+      toast(`Discount has been ${type === "create" ? "created" : "updated"}!`);
+      setOpen(false);
+      router.refresh();
+    }
+  }, [state, router, type, setOpen]);
+
+  const { students, academicYears } = relatedData;
+
+  return (
+    <form className="flex flex-col gap-8" onSubmit={onSubmit}>
+      <h1 className="text-xl font-semibold">
+        {type === "create" ? "Create a new discount" : "Update the discount"}
+      </h1>
+      <span className="text-xs text-gray-400">
+        Discounts are taken off the fees issued to the student from now on.
+      </span>
+
+      <div className="flex justify-between flex-wrap gap-4">
+        <InputField
+          label="Name"
+          name="name"
+          defaultValue={data?.name}
+          register={register}
+          error={errors?.name}
+        />
+        <InputField
+          label="Percent"
+          name="percent"
+          type="number"
+          defaultValue={data?.percent}
+          register={register}
+          error={errors?.percent}
+          inputProps={{ step: "0.01", min: 0, max: 100 }}
+        />
+        <div className="flex flex-col gap-2 w-full md:w-1/4">
+          <label className="text-xs text-gray-500">Student</label>
+          <select
+            className="ring-[1.5px] ring-gray-300 p-2 rounded-md text-sm w-full"
+            {...register("studentId")}
+            defaultValue={data?.studentId}
+          >
+            {students.map(
+              (student: { id: string; name: string; surname: string }) => (
+                <option value={student.id} key={student.id}>
+                  {student.name + " " + student.surname}
+                </option>
+              )
+            )}
+          </select>
+          {errors.studentId?.message && (
+            <p className="text-xs text-red-400">
+              {errors.studentId.message.toString()}
+            </p>
+          )}
+        </div>
+        <div className="flex flex-col gap-2 w-full md:w-1/4">
+          <label className="text-xs text-gray-500">Academic year</label>
+          <select
+            className="ring-[1.5px] ring-gray-300 p-2 rounded-md text-sm w-full"
+            {...register("academicYearId")}
+            defaultValue={data?.academicYearId}
+          >
+            {academicYears.map((year: { id: number; name: string }) => (
+              <option value={year.id} key={year.id}>
+                {year.name}
+              </option>
+            ))}
+          </select>
+          {errors.academicYearId?.message && (
+            <p className="text-xs text-red-400">
+              {errors.academicYearId.message.toString()}
+            </p>
+          )}
+        </div>
+        {data && (
+          <InputField
+            label="Id"
+            name="id"
+            defaultValue={data?.id}
+            register={register}
+            error={errors?.id}
+            hidden
+          />
+        )}
+      </div>
+      {state.error && (
+        <span className="text-red-500">
+          {state.message ?? "Something went wrong!"}
+        </span>
+      )}
+      <button className="bg-blue-400 text-white p-2 rounded-md">
+        {type === "create" ? "Create" : "Update"}
+      </button>
+    </form>
+  );
+};
+
+export default DiscountForm;
@@ -0,0 +1,133 @@
+"use client";
+
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import InputField from "../InputField";
+import {
+  emergencyContactSchema,
+  EmergencyContactSchema,
+} from "@/lib/formValidationSchemas";
+import { createEmergencyContact, updateEmergencyContact } from "@/lib/actions";
+import { useFormState } from "react-dom";
+import { Dispatch, SetStateAction, useEffect } from "react";
+import { toast } from "react-toastify";
+import { useRouter } from "next/navigation";
+
+const EmergencyContactForm = ({
+  type,
+  data,
+  setOpen,
+}: {
+  type: "create" | "update";
+  data?: any;
+  setOpen: Dispatch<SetStateAction<boolean>>;
+  relatedData?: any;
+}) => {
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+  } = useForm<EmergencyContactSchema>({
+    resolver: zodResolver(emergencyContactSchema),
+  });
+
+  const [state, formAction] = useFormState(
+    type === "create" ? createEmergencyContact : updateEmergencyContact,
+    {
+      success: false,
+      error: false,
+    }
+  );
+
+  const onSubmit = handleSubmit((data) => {
+    formAction(data);
+  });
+
+  const router = useRouter();
+
+  useEffect(() => {
+    if (state.success) {
+      toast(
+        `Emergency contact has been ${type === "create" ? "added" : "updated"}!`
+      );
+      setOpen(false);
+      router.refresh();
+    }
+  }, [state, router, type, setOpen]);
+
+  return (
+    <form className="flex flex-col gap-8" onSubmit={onSubmit}>
+      <h1 className="text-xl font-semibold">
+        {type === "create"
+          ? "Add an emergency contact"
+          : "Update the emergency contact"}
+      </h1>
+      <span className="text-xs text-gray-400">
+        Called when none of the student&apos;s guardians can be reached, lowest
+        priority first.
+      </span>
+
+      <div className="flex justify-between flex-wrap gap-4">
+        <InputField
+          label="Name"
+          name="name"
+          defaultValue={data?.name}
+          register={register}
+          error={errors?.name}
+        />
+        <InputField
+          label="Relationship"
+          name="relationship"
+          defaultValue={data?.relationship}
+          register={register}
+          error={errors?.relationship}
+          inputProps={{ placeholder: "e.g. Aunt, Neighbour" }}
+        />
+        <InputField
+          label="Phone"
+          name="phone"
+          defaultValue={data?.phone}
+          register={register}
+          error={errors?.phone}
+        />
+        <InputField
+          label="Priority"
+          name="priority"
+          type="number"
+          defaultValue={data?.priority ?? 1}
+          register={register}
+          error={errors?.priority}
+          inputProps={{ min: 1 }}
+        />
+        <InputField
+          label="Student"
+          name="studentId"
+          defaultValue={data?.studentId}
+          register={register}
+          error={errors?.studentId}
+          hidden
+        />
+        {data?.id && (
+          <InputField
+            label="Id"
+            name="id"
+            defaultValue={data?.id}
+            register={register}
+            error={errors?.id}
+            hidden
+          />
+        )}
+      </div>
+      {state.error && (
+        <span className="text-red-500">
+          {state.message ?? "Something went wrong!"}
+        </span>
+      )}
+      <button className="bg-blue-400 text-white p-2 rounded-md">
+        {type === "create" ? "Add" : "Update"}
+      </button>
+    </form>
+  );
+};
+
+export default EmergencyContactForm;
@@ -96,6 +96,14 @@ const ExamForm = ({
           error={errors?.endTime}
           type="datetime-local"
         />
+        <InputField
+          label="Max score"
+          name="maxScore"
+          defaultValue={data?.maxScore ?? "100"}
+          register={register}
+          error={errors?.maxScore}
+          type="number"
+        />
         {data && (
           <InputField
             label="Id"
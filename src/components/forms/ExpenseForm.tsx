@@ -0,0 +1,124 @@
+"use client";
+
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import InputField from "../InputField";
+import { expenseSchema, ExpenseSchema } from "@/lib/formValidationSchemas";
+import { createExpense, updateExpense } from "@/lib/actions";
+import { useFormState } from "react-dom";
+import { Dispatch, SetStateAction, useEffect } from "react";
+import { toast } from "react-toastify";
+import { useRouter } from "next/navigation";
+
+const ExpenseForm = ({
+  type,
+  data,
+  setOpen,
+  relatedData,
+}: {
+  type: "create" | "update";
+  data?: any;
+  setOpen: Dispatch<SetStateAction<boolean>>;
+  relatedData?: any;
+}) => {
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+  } = useForm<ExpenseSchema>({
+    resolver: zodResolver(expenseSchema),
+  });
+
+  const [state, formAction] = useFormState(
+    type === "create" ? createExpense : updateExpense,
+    {
+      success: false,
+      error: false,
+    }
+  );
+
+  const onSubmit = handleSubmit((data) => {
+    formAction(data);
+  });
+
+  const router = useRouter();
+
+  useEffect(() => {
+    if (state.success) {
+      toast(`Expense has been ${type === "create" ? "created" : "updated"}!`);
+      setOpen(false);
+      router.refresh();
+    }
+  }, [state, router, type, setOpen]);
+
+  // Categories used before are suggested
+  const { categories } = relatedData;
+
+  return (
+    <form className="flex flex-col gap-8" onSubmit={onSubmit}>
+      <h1 className="text-xl font-semibold">
+        {type === "create" ? "Record an expense" : "Update the expense"}
+      </h1>
+
+      <div className="flex justify-between flex-wrap gap-4">
+        <InputField
+          label="Title"
+          name="title"
+          defaultValue={data?.title}
+          register={register}
+          error={errors?.title}
+        />
+        <InputField
+          label="Category"
+          name="category"
+          defaultValue={data?.category}
+          register={register}
+          error={errors?.category}
+          inputProps={{ list: "expense-categories" }}
+        />
+        <datalist id="expense-categories">
+          {categories.map((category: string) => (
+            <option value={category} key={category} />
+          ))}
+        </datalist>
+        <InputField
+          label="Amount"
+          name="amount"
+          type="number"
+          defaultValue={data?.amount}
+          register={register}
+          error={errors?.amount}
+          inputProps={{ step: "0.01", min: 0 }}
+        />
+        <InputField
+          label="Date"
+          name="date"
+          defaultValue={(data?.date ?? new Date()).toISOString().split("T")[0]}
+          register={register}
+          error={errors?.date}
+          type="date"
+        />
+        {data && (
+          <InputField
+            label="Id"
+            name="id"
+            defaultValue={data?.id}
+            register={register}
+            error={errors?.id}
+            hidden
+          />
+        )}
+      </div>
+      {state.error && (
+        <span className="text-red-500">
+          {state.message ?? "Something went wrong!"}
+        </span>
+      )}
+      <button className="bg-blue-400 text-white p-2 rounded-md">
+        {type === "create" ? "Create" : "Update"}
+      </button>
+    </form>
+  );
+};
+
+export default ExpenseForm;
@@ -0,0 +1,154 @@
+"use client";
+
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useFieldArray, useForm } from "react-hook-form";
+import InputField from "../InputField";
+import {
+  gradeScaleSchema,
+  GradeScaleSchema,
+} from "@/lib/formValidationSchemas";
+import { createGradeScale, updateGradeScale } from "@/lib/actions";
+import { DEFAULT_GRADE_BANDS } from "@/lib/settings";
+import { useFormState } from "react-dom";
+import { Dispatch, SetStateAction, useEffect } from "react";
+import { toast } from "react-toastify";
+import { useRouter } from "next/navigation";
+
+const GradeScaleForm = ({
+  type,
+  data,
+  setOpen,
+}: {
+  type: "create" | "update";
+  data?: any;
+  setOpen: Dispatch<SetStateAction<boolean>>;
+  relatedData?: any;
+}) => {
+  const {
+    register,
+    control,
+    handleSubmit,
+    formState: { errors },
+  } = useForm<GradeScaleSchema>({
+    resolver: zodResolver(gradeScaleSchema),
+    defaultValues: {
+      bands: data?.bands ?? DEFAULT_GRADE_BANDS,
+    },
+  });
+
+  const { fields, append, remove } = useFieldArray({ control, name: "bands" });
+
+  const [state, formAction] = useFormState(
+    type === "create" ? createGradeScale : updateGradeScale,
+    {
+      success: false,
+      error: false,
+    }
+  );
+
+  const onSubmit = handleSubmit((data) => {
+    formAction(data);
+  });
+
+  const router = useRouter();
+
+  useEffect(() => {
+    if (state.success) {
+      toast(`Grade scale has been ${type === "create" ? "created" : "updated"}!`);
+      setOpen(false);
+      router.refresh();
+    }
+  }, [state, router, type, setOpen]);
+
+  return (
+    <form className="flex flex-col gap-8" onSubmit={onSubmit}>
+      <h1 className="text-xl font-semibold">
+        {type === "create" ? "Create a new grade scale" : "Update the grade scale"}
+      </h1>
+
+      <div className="flex justify-between flex-wrap gap-4">
+        <InputField
+          label="Name"
+          name="name"
+          defaultValue={data?.name}
+          register={register}
+          error={errors?.name}
+        />
+        {data && (
+          <InputField
+            label="Id"
+            name="id"
+            defaultValue={data?.id}
+            register={register}
+            error={errors?.id}
+            hidden
+          />
+        )}
+        <div className="flex items-center gap-2 w-full md:w-1/4">
+          <input
+            type="checkbox"
+            id="isDefault"
+            {...register("isDefault")}
+            defaultChecked={data?.isDefault}
+          />
+          <label htmlFor="isDefault" className="text-xs text-gray-500">
+            Default for classes without a scale
+          </label>
+        </div>
+      </div>
+      <div className="flex flex-col gap-2">
+        <span className="text-xs text-gray-500">
+          Bands (a letter is awarded from its minimum percentage up)
+        </span>
+        {fields.map((field, index) => (
+          <div key={field.id} className="flex items-center gap-4">
+            <input
+              {...register(`bands.${index}.letter`)}
+              placeholder="Letter"
+              className="ring-[1.5px] ring-gray-300 p-2 rounded-md text-sm w-24"
+            />
+            <input
+              type="number"
+              step="0.1"
+              {...register(`bands.${index}.minPercent`)}
+              placeholder="Min %"
+              className="ring-[1.5px] ring-gray-300 p-2 rounded-md text-sm w-24"
+            />
+            <button
+              type="button"
+              onClick={() => remove(index)}
+              className="text-xs text-red-400"
+            >
+              Remove
+            </button>
+          </div>
+        ))}
+        <button
+          type="button"
+          onClick={() => append({ letter: "", minPercent: 0 })}
+          className="text-xs text-gray-500 self-start"
+        >
+          + Add band
+        </button>
+        {errors.bands?.root?.message && (
+          <p className="text-xs text-red-400">
+            {errors.bands.root.message.toString()}
+          </p>
+        )}
+        {errors.bands?.message && (
+          <p className="text-xs text-red-400">
+            {errors.bands.message.toString()}
+          </p>
+        )}
+      </div>
+      {state.error && (
+        <span className="text-red-500">Something went wrong!</span>
+      )}
+      <button className="bg-blue-400 text-white p-2 rounded-md">
+        {type === "create" ? "Create" : "Update"}
+      </button>
+    </form>
+  );
+};
+
+export default GradeScaleForm;
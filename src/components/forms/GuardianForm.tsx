@@ -0,0 +1,161 @@
+"use client";
+
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import InputField from "../InputField";
+import { guardianSchema, GuardianSchema } from "@/lib/formValidationSchemas";
+import { createGuardian, updateGuardian } from "@/lib/actions";
+import { RELATIONSHIP_LABELS } from "@/lib/guardians";
+import { useFormState } from "react-dom";
+import { Dispatch, SetStateAction, useEffect } from "react";
+import { toast } from "react-toastify";
+import { useRouter } from "next/navigation";
+
+const permissions = [
+  { name: "isPrimary", label: "Primary contact" },
+  { name: "hasCustody", label: "Has custody" },
+  { name: "canPickUp", label: "Can pick up" },
+  { name: "isEmergencyContact", label: "Emergency contact" },
+] as const;
+
+const GuardianForm = ({
+  type,
+  data,
+  setOpen,
+  relatedData,
+}: {
+  type: "create" | "update";
+  data?: any;
+  setOpen: Dispatch<SetStateAction<boolean>>;
+  relatedData?: any;
+}) => {
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+  } = useForm<GuardianSchema>({
+    resolver: zodResolver(guardianSchema),
+  });
+
+  const [state, formAction] = useFormState(
+    type === "create" ? createGuardian : updateGuardian,
+    {
+      success: false,
+      error: false,
+    }
+  );
+
+  const onSubmit = handleSubmit((data) => {
+    formAction(data);
+  });
+
+  const router = useRouter();
+
+  useEffect(() => {
+    if (state.success) {
+      toast(`Guardian has been ${type === "create" ? "added" : "updated"}!`);
+      setOpen(false);
+      router.refresh();
+    }
+  }, [state, router, type, setOpen]);
+
+  const { parents } = relatedData;
+
+  return (
+    <form className="flex flex-col gap-8" onSubmit={onSubmit}>
+      <h1 className="text-xl font-semibold">
+        {type === "create" ? "Add a guardian" : "Update the guardian"}
+      </h1>
+
+      <div className="flex justify-between flex-wrap gap-4">
+        <div className="flex flex-col gap-2 w-full md:w-1/4">
+          <label className="text-xs text-gray-500">Parent</label>
+          <select
+            className="ring-[1.5px] ring-gray-300 p-2 rounded-md text-sm w-full"
+            {...register("parentId")}
+            defaultValue={data?.parentId}
+          >
+            {parents.map(
+              (parent: { id: string; name: string; surname: string }) => (
+                <option value={parent.id} key={parent.id}>
+                  {parent.name + " " + parent.surname}
+                </option>
+              )
+            )}
+          </select>
+          {errors.parentId?.message && (
+            <p className="text-xs text-red-400">
+              {errors.parentId.message.toString()}
+            </p>
+          )}
+        </div>
+        <div className="flex flex-col gap-2 w-full md:w-1/4">
+          <label className="text-xs text-gray-500">Relationship</label>
+          <select
+            className="ring-[1.5px] ring-gray-300 p-2 rounded-md text-sm w-full"
+            {...register("relationship")}
+            defaultValue={data?.relationship ?? "PARENT"}
+          >
+            {Object.entries(RELATIONSHIP_LABELS).map(([value, label]) => (
+              <option value={value} key={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+          {errors.relationship?.message && (
+            <p className="text-xs text-red-400">
+              {errors.relationship.message.toString()}
+            </p>
+          )}
+        </div>
+        <InputField
+          label="Student"
+          name="studentId"
+          defaultValue={data?.studentId}
+          register={register}
+          error={errors?.studentId}
+          hidden
+        />
+        {data?.id && (
+          <InputField
+            label="Id"
+            name="id"
+            defaultValue={data?.id}
+            register={register}
+            error={errors?.id}
+            hidden
+          />
+        )}
+      </div>
+      <div className="flex flex-wrap gap-4">
+        {permissions.map((permission) => (
+          <label
+            key={permission.name}
+            className="flex items-center gap-2 text-sm"
+          >
+            <input
+              type="checkbox"
+              {...register(permission.name)}
+              defaultChecked={
+                data?.id
+                  ? data[permission.name]
+                  : permission.name !== "isPrimary"
+              }
+            />
+            {permission.label}
+          </label>
+        ))}
+      </div>
+      {state.error && (
+        <span className="text-red-500">
+          {state.message ?? "Something went wrong!"}
+        </span>
+      )}
+      <button className="bg-blue-400 text-white p-2 rounded-md">
+        {type === "create" ? "Add" : "Update"}
+      </button>
+    </form>
+  );
+};
+
+export default GuardianForm;
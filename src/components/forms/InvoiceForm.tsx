@@ -0,0 +1,140 @@
+"use client";
+
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import InputField from "../InputField";
+import { invoiceSchema, InvoiceSchema } from "@/lib/formValidationSchemas";
+import { createInvoice, updateInvoice } from "@/lib/actions";
+import { useFormState } from "react-dom";
+import { Dispatch, SetStateAction, useEffect } from "react";
+import { toast } from "react-toastify";
+import { useRouter } from "next/navigation";
+
+const InvoiceForm = ({
+  type,
+  data,
+  setOpen,
+  relatedData,
+}: {
+  type: "create" | "update";
+  data?: any;
+  setOpen: Dispatch<SetStateAction<boolean>>;
+  relatedData?: any;
+}) => {
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+  } = useForm<InvoiceSchema>({
+    resolver: zodResolver(invoiceSchema),
+  });
+
+  const [state, formAction] = useFormState(
+    type === "create" ? createInvoice : updateInvoice,
+    {
+      success: false,
+      error: false,
+    }
+  );
+
+  const onSubmit = handleSubmit((data) => {
+    formAction(data);
+  });
+
+  const router = useRouter();
+
+  useEffect(() => {
+    if (state.success) {
+      toast(`Invoice has been ${type === "create" ? "created" : "updated"}!`);
+      setOpen(false);
+      router.refresh();
+    }
+  }, [state, router, type, setOpen]);
+
+  const { students } = relatedData;
+
+  return (
+    <form className="flex flex-col gap-8" onSubmit={onSubmit}>
+      <h1 className="text-xl font-semibold">
+        {type === "create" ? "Create a new invoice" : "Update the invoice"}
+      </h1>
+
+      <div className="flex justify-between flex-wrap gap-4">
+        <InputField
+          label="Title"
+          name="title"
+          defaultValue={data?.title}
+          register={register}
+          error={errors?.title}
+        />
+        <div className="flex flex-col gap-2 w-full md:w-1/4">
+          <label className="text-xs text-gray-500">Student</label>
+          <select
+            className="ring-[1.5px] ring-gray-300 p-2 rounded-md text-sm w-full"
+            {...register("studentId")}
+            defaultValue={data?.studentId}
+          >
+            {students.map(
+              (student: { id: string; name: string; surname: string }) => (
+                <option value={student.id} key={student.id}>
+                  {student.name + " " + student.surname}
+                </option>
+              )
+            )}
+          </select>
+          {errors.studentId?.message && (
+            <p className="text-xs text-red-400">
+              {errors.studentId.message.toString()}
+            </p>
+          )}
+        </div>
+        <InputField
+          label="Due date"
+          name="dueDate"
+          defaultValue={data?.dueDate.toISOString().split("T")[0]}
+          register={register}
+          error={errors?.dueDate}
+          type="date"
+        />
+        <InputField
+          label="Amount"
+          name="amount"
+          type="number"
+          defaultValue={data?.amount}
+          register={register}
+          error={errors?.amount}
+          inputProps={{ step: "0.01", min: 0 }}
+        />
+        <InputField
+          label="Discount"
+          name="discount"
+          type="number"
+          defaultValue={data?.discount ?? 0}
+          register={register}
+          error={errors?.discount}
+          inputProps={{ step: "0.01", min: 0 }}
+        />
+        {data && (
+          <InputField
+            label="Id"
+            name="id"
+            defaultValue={data?.id}
+            register={register}
+            error={errors?.id}
+            hidden
+          />
+        )}
+      </div>
+      {state.error && (
+        <span className="text-red-500">
+          {state.message ?? "Something went wrong!"}
+        </span>
+      )}
+      <button className="bg-blue-400 text-white p-2 rounded-md">
+        {type === "create" ? "Create" : "Update"}
+      </button>
+    </form>
+  );
+};
+
+export default InvoiceForm;
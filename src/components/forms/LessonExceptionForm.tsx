@@ -0,0 +1,187 @@
+"use client";
+
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import InputField from "../InputField";
+import {
+  lessonExceptionSchema,
+  LessonExceptionSchema,
+} from "@/lib/formValidationSchemas";
+import { createLessonException, updateLessonException } from "@/lib/actions";
+import { useFormState } from "react-dom";
+import { Dispatch, SetStateAction, useEffect } from "react";
+import { toast } from "react-toastify";
+import { useRouter } from "next/navigation";
+
+const LessonExceptionForm = ({
+  type,
+  data,
+  setOpen,
+  relatedData,
+}: {
+  type: "create" | "update";
+  data?: any;
+  setOpen: Dispatch<SetStateAction<boolean>>;
+  relatedData?: any;
+}) => {
+  const {
+    register,
+    handleSubmit,
+    watch,
+    formState: { errors },
+  } = useForm<LessonExceptionSchema>({
+    resolver: zodResolver(lessonExceptionSchema),
+    defaultValues: { cancelled: data?.cancelled ?? false },
+  });
+
+  const [state, formAction] = useFormState(
+    type === "create" ? createLessonException : updateLessonException,
+    {
+      success: false,
+      error: false,
+    }
+  );
+
+  const onSubmit = handleSubmit((data) => {
+    formAction(data);
+  });
+
+  const router = useRouter();
+
+  useEffect(() => {
+    if (state.success) {
+      toast(
+        `Lesson change has been ${type === "create" ? "created" : "updated"}!`
+      );
+      setOpen(false);
+      router.refresh();
+    }
+  }, [state, router, type, setOpen]);
+
+  const cancelled = watch("cancelled");
+
+  const { lessons, teachers, rooms } = relatedData;
+
+  return (
+    <form className="flex flex-col gap-8" onSubmit={onSubmit}>
+      <h1 className="text-xl font-semibold">
+        {type === "create" ? "Change a lesson" : "Update the lesson change"}
+      </h1>
+
+      <div className="flex justify-between flex-wrap gap-4">
+        <div className="flex flex-col gap-2 w-full md:w-1/4">
+          <label className="text-xs text-gray-500">Lesson</label>
+          <select
+            className="ring-[1.5px] ring-gray-300 p-2 rounded-md text-sm w-full"
+            {...register("lessonId")}
+            defaultValue={data?.lessonId}
+          >
+            {lessons.map(
+              (lesson: {
+                id: number;
+                name: string;
+                day: string;
+                class: { name: string };
+              }) => (
+                <option value={lesson.id} key={lesson.id}>
+                  {lesson.name} - {lesson.class.name} (
+                  {lesson.day.toLowerCase()})
+                </option>
+              )
+            )}
+          </select>
+          {errors.lessonId?.message && (
+            <p className="text-xs text-red-400">
+              {errors.lessonId.message.toString()}
+            </p>
+          )}
+        </div>
+        <InputField
+          label="Date"
+          name="date"
+          defaultValue={data?.date?.toISOString().split("T")[0]}
+          register={register}
+          error={errors?.date}
+          type="date"
+        />
+        {data?.id && (
+          <InputField
+            label="Id"
+            name="id"
+            defaultValue={data?.id}
+            register={register}
+            error={errors?.id}
+            hidden
+          />
+        )}
+        <div className="flex flex-col gap-2 w-full md:w-1/4">
+          <div className="flex items-center gap-2">
+            <input type="checkbox" id="cancelled" {...register("cancelled")} />
+            <label htmlFor="cancelled" className="text-xs text-gray-500">
+              Cancel this lesson
+            </label>
+          </div>
+          {errors.cancelled?.message && (
+            <p className="text-xs text-red-400">
+              {errors.cancelled.message.toString()}
+            </p>
+          )}
+        </div>
+        {!cancelled && (
+          <>
+            <div className="flex flex-col gap-2 w-full md:w-1/4">
+              <label className="text-xs text-gray-500">Substitute</label>
+              <select
+                className="ring-[1.5px] ring-gray-300 p-2 rounded-md text-sm w-full"
+                {...register("substituteTeacherId")}
+                defaultValue={data?.substituteTeacherId ?? ""}
+              >
+                <option value="">No substitute</option>
+                {teachers.map(
+                  (teacher: { id: string; name: string; surname: string }) => (
+                    <option value={teacher.id} key={teacher.id}>
+                      {teacher.name + " " + teacher.surname}
+                    </option>
+                  )
+                )}
+              </select>
+            </div>
+            <div className="flex flex-col gap-2 w-full md:w-1/4">
+              <label className="text-xs text-gray-500">Room</label>
+              <select
+                className="ring-[1.5px] ring-gray-300 p-2 rounded-md text-sm w-full"
+                {...register("roomId")}
+                defaultValue={data?.roomId ?? ""}
+              >
+                <option value="">Usual room</option>
+                {rooms.map((room: { id: number; name: string }) => (
+                  <option value={room.id} key={room.id}>
+                    {room.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </>
+        )}
+        <InputField
+          label="Reason"
+          name="reason"
+          defaultValue={data?.reason ?? ""}
+          register={register}
+          error={errors?.reason}
+        />
+      </div>
+      {state.error && (
+        <span className="text-red-500">
+          Something went wrong! Check the date is a day of the lesson and the
+          substitute is free.
+        </span>
+      )}
+      <button className="bg-blue-400 text-white p-2 rounded-md">
+        {type === "create" ? "Create" : "Update"}
+      </button>
+    </form>
+  );
+};
+
+export default LessonExceptionForm;
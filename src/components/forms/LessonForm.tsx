@@ -0,0 +1,322 @@
+"use client";
+
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import InputField from "../InputField";
+import { lessonSchema, LessonSchema } from "@/lib/formValidationSchemas";
+import {
+  checkLessonClashes,
+  createLesson,
+  updateLesson,
+} from "@/lib/actions";
+import { LessonClash } from "@/lib/timetable";
+import { getPeriodTimes } from "@/lib/utils";
+import { useFormState } from "react-dom";
+import { Dispatch, SetStateAction, useEffect, useState } from "react";
+import { toast } from "react-toastify";
+import { useRouter } from "next/navigation";
+
+const LessonForm = ({
+  type,
+  data,
+  setOpen,
+  relatedData,
+}: {
+  type: "create" | "update";
+  data?: any;
+  setOpen: Dispatch<SetStateAction<boolean>>;
+  relatedData?: any;
+}) => {
+  const {
+    register,
+    handleSubmit,
+    watch,
+    setValue,
+    formState: { errors },
+  } = useForm<LessonSchema>({
+    resolver: zodResolver(lessonSchema),
+  });
+
+  const [clashes, setClashes] = useState<LessonClash[]>([]);
+
+  // Check the timetable for clashes as the slot is edited, before saving
+  const [day, startTime, endTime, classId, teacherId, roomId, periodId] =
+    watch(["day", "startTime", "endTime", "classId", "teacherId", "roomId", "periodId"]);
+
+  // Picking a period fills in its times on the chosen day
+  useEffect(() => {
+    const period = relatedData.periods.find(
+      (period: { id: number }) => period.id === Number(periodId)
+    );
+    if (!period || !day) return;
+
+    const toInputValue = (date: Date) =>
+      new Date(date.getTime() - date.getTimezoneOffset() * 60000)
+        .toISOString()
+        .slice(0, 16);
+
+    const times = getPeriodTimes(day, period);
+    setValue("startTime", toInputValue(times.startTime) as unknown as Date);
+    setValue("endTime", toInputValue(times.endTime) as unknown as Date);
+  }, [periodId, day, relatedData.periods, setValue]);
+
+  useEffect(() => {
+    if (!day || !classId || !teacherId || (!periodId && (!startTime || !endTime))) {
+      return;
+    }
+
+    const timeout = setTimeout(async () => {
+      setClashes(
+        await checkLessonClashes({
+          id: data?.id,
+          name: "",
+          day,
+          startTime: new Date(startTime),
+          endTime: new Date(endTime),
+          subjectId: 0,
+          classId: Number(classId),
+          teacherId,
+          roomId: Number(roomId) || undefined,
+          periodId: Number(periodId) || undefined,
+        })
+      );
+    }, 400);
+
+    return () => clearTimeout(timeout);
+  }, [day, startTime, endTime, classId, teacherId, roomId, periodId, data?.id]);
+
+  const [state, formAction] = useFormState(
+    type === "create" ? createLesson : updateLesson,
+    {
+      success: false,
+      error: false,
+    }
+  );
+
+  const onSubmit = handleSubmit((data) => {
+    formAction(data);
+  });
+
+  const router = useRouter();
+
+  useEffect(() => {
+    if (state.success) {
+      toast(`Lesson has been ${type === "create" ? "created" : "updated"}!`);
+      setOpen(false);
+      router.refresh();
+    }
+  }, [state, router, type, setOpen]);
+
+  const { subjects, classes, teachers, rooms, periods } = relatedData;
+
+  return (
+    <form className="flex flex-col gap-8" onSubmit={onSubmit}>
+      <h1 className="text-xl font-semibold">
+        {type === "create" ? "Create a new lesson" : "Update the lesson"}
+      </h1>
+
+      <div className="flex justify-between flex-wrap gap-4">
+        <InputField
+          label="Lesson name"
+          name="name"
+          defaultValue={data?.name}
+          register={register}
+          error={errors?.name}
+        />
+        <div className="flex flex-col gap-2 w-full md:w-1/4">
+          <label className="text-xs text-gray-500">Period</label>
+          <select
+            className="ring-[1.5px] ring-gray-300 p-2 rounded-md text-sm w-full"
+            {...register("periodId")}
+            defaultValue={data?.periodId ?? ""}
+          >
+            <option value="">Custom times</option>
+            {periods.map(
+              (period: {
+                id: number;
+                name: string;
+                startTime: string;
+                endTime: string;
+              }) => (
+                <option value={period.id} key={period.id}>
+                  {period.name} ({period.startTime}-{period.endTime})
+                </option>
+              )
+            )}
+          </select>
+        </div>
+        <InputField
+          label="Start Time"
+          name="startTime"
+          defaultValue={data?.startTime.toISOString().slice(0, 16)}
+          register={register}
+          error={errors?.startTime}
+          type="datetime-local"
+        />
+        <InputField
+          label="End Time"
+          name="endTime"
+          defaultValue={data?.endTime.toISOString().slice(0, 16)}
+          register={register}
+          error={errors?.endTime}
+          type="datetime-local"
+        />
+        <InputField
+          label="Runs from (optional)"
+          name="validFrom"
+          defaultValue={data?.validFrom?.toISOString().split("T")[0]}
+          register={register}
+          error={errors?.validFrom}
+          type="date"
+        />
+        <InputField
+          label="Runs until (optional)"
+          name="validUntil"
+          defaultValue={data?.validUntil?.toISOString().split("T")[0]}
+          register={register}
+          error={errors?.validUntil}
+          type="date"
+        />
+        {data?.id && (
+          <InputField
+            label="Id"
+            name="id"
+            defaultValue={data?.id}
+            register={register}
+            error={errors?.id}
+            hidden
+          />
+        )}
+        <div className="flex flex-col gap-2 w-full md:w-1/4">
+          <label className="text-xs text-gray-500">Day</label>
+          <select
+            className="ring-[1.5px] ring-gray-300 p-2 rounded-md text-sm w-full"
+            {...register("day")}
+            defaultValue={data?.day}
+          >
+            <option value="MONDAY">Monday</option>
+            <option value="TUESDAY">Tuesday</option>
+            <option value="WEDNESDAY">Wednesday</option>
+            <option value="THURSDAY">Thursday</option>
+            <option value="FRIDAY">Friday</option>
+          </select>
+          {errors.day?.message && (
+            <p className="text-xs text-red-400">
+              {errors.day.message.toString()}
+            </p>
+          )}
+        </div>
+        <div className="flex flex-col gap-2 w-full md:w-1/4">
+          <label className="text-xs text-gray-500">Subject</label>
+          <select
+            className="ring-[1.5px] ring-gray-300 p-2 rounded-md text-sm w-full"
+            {...register("subjectId")}
+            defaultValue={data?.subjectId}
+          >
+            {subjects.map((subject: { id: number; name: string }) => (
+              <option value={subject.id} key={subject.id}>
+                {subject.name}
+              </option>
+            ))}
+          </select>
+          {errors.subjectId?.message && (
+            <p className="text-xs text-red-400">
+              {errors.subjectId.message.toString()}
+            </p>
+          )}
+        </div>
+        <div className="flex flex-col gap-2 w-full md:w-1/4">
+          <label className="text-xs text-gray-500">Class</label>
+          <select
+            className="ring-[1.5px] ring-gray-300 p-2 rounded-md text-sm w-full"
+            {...register("classId")}
+            defaultValue={data?.classId}
+          >
+            {classes.map((classItem: { id: number; name: string }) => (
+              <option value={classItem.id} key={classItem.id}>
+                {classItem.name}
+              </option>
+            ))}
+          </select>
+          {errors.classId?.message && (
+            <p className="text-xs text-red-400">
+              {errors.classId.message.toString()}
+            </p>
+          )}
+        </div>
+        <div className="flex flex-col gap-2 w-full md:w-1/4">
+          <label className="text-xs text-gray-500">Teacher</label>
+          <select
+            className="ring-[1.5px] ring-gray-300 p-2 rounded-md text-sm w-full"
+            {...register("teacherId")}
+            defaultValue={data?.teacherId}
+          >
+            {teachers.map(
+              (teacher: { id: string; name: string; surname: string }) => (
+                <option value={teacher.id} key={teacher.id}>
+                  {teacher.name + " " + teacher.surname}
+                </option>
+              )
+            )}
+          </select>
+          {errors.teacherId?.message && (
+            <p className="text-xs text-red-400">
+              {errors.teacherId.message.toString()}
+            </p>
+          )}
+        </div>
+        <div className="flex flex-col gap-2 w-full md:w-1/4">
+          <label className="text-xs text-gray-500">Room</label>
+          <select
+            className="ring-[1.5px] ring-gray-300 p-2 rounded-md text-sm w-full"
+            {...register("roomId")}
+            defaultValue={data?.roomId ?? ""}
+          >
+            <option value="">No room</option>
+            {rooms.map((room: { id: number; name: string }) => (
+              <option value={room.id} key={room.id}>
+                {room.name}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+      {clashes.length > 0 && (
+        <div className="flex flex-col gap-1 text-xs text-red-500">
+          <span className="font-semibold">This lesson clashes with:</span>
+          {clashes.map((clash) => (
+            <span key={`${clash.kind}-${clash.lessonId}`}>
+              {clash.kind === "teacher"
+                ? `${clash.teacherName} is teaching`
+                : clash.kind === "class"
+                ? `${clash.className} has`
+                : `${clash.roomName} is used by`}{" "}
+              {clash.lessonName} ({clash.className}){" "}
+              {new Date(clash.startTime).toLocaleTimeString([], {
+                hour: "2-digit",
+                minute: "2-digit",
+              })}
+              -
+              {new Date(clash.endTime).toLocaleTimeString([], {
+                hour: "2-digit",
+                minute: "2-digit",
+              })}
+            </span>
+          ))}
+        </div>
+      )}
+      {state.error && (
+        <span className="text-red-500">
+          {clashes.length
+            ? "Resolve the clashes before saving!"
+            : "Something went wrong!"}
+        </span>
+      )}
+      <button className="bg-blue-400 text-white p-2 rounded-md">
+        {type === "create" ? "Create" : "Update"}
+      </button>
+    </form>
+  );
+};
+
+export default LessonForm;
@@ -0,0 +1,126 @@
+"use client";
+
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import {
+  notificationPreferencesSchema,
+  NotificationPreferencesSchema,
+} from "@/lib/formValidationSchemas";
+import { saveNotificationPreferences, sendTestEmail } from "@/lib/actions";
+import { useFormState } from "react-dom";
+import { useEffect } from "react";
+import { toast } from "react-toastify";
+import { useRouter } from "next/navigation";
+
+type Preference = NotificationPreferencesSchema["preferences"][number] & {
+  label: string;
+};
+
+// Which channels the user gets each type of notification on
+const NotificationPreferencesForm = ({
+  preferences,
+  emailEnabled,
+}: {
+  preferences: Preference[];
+  emailEnabled: boolean;
+}) => {
+  const { register, handleSubmit } = useForm<NotificationPreferencesSchema>({
+    resolver: zodResolver(notificationPreferencesSchema),
+    defaultValues: { preferences },
+  });
+
+  const [state, formAction] = useFormState(saveNotificationPreferences, {
+    success: false,
+    error: false,
+  });
+  const [testState, testAction] = useFormState(sendTestEmail, {
+    success: false,
+    error: false,
+  });
+
+  const onSubmit = handleSubmit((data) => {
+    formAction(data);
+  });
+
+  const router = useRouter();
+
+  useEffect(() => {
+    if (state.success) {
+      toast("Notification settings have been saved!");
+      router.refresh();
+    }
+  }, [state, router]);
+
+  useEffect(() => {
+    if (testState.success) {
+      toast(testState.message);
+    }
+    if (testState.error) {
+      toast.error(testState.message ?? "Something went wrong!");
+    }
+  }, [testState]);
+
+  return (
+    <div className="flex flex-col gap-4">
+      <form className="flex flex-col gap-4" onSubmit={onSubmit}>
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-500">
+              <th className="py-2">Notify me about</th>
+              <th className="py-2 text-center">In the app</th>
+              <th className="py-2 text-center">By email</th>
+            </tr>
+          </thead>
+          <tbody>
+            {preferences.map((preference, index) => (
+              <tr key={preference.type} className="border-t border-gray-100">
+                <td className="py-2">
+                  {preference.label}
+                  <input
+                    type="text"
+                    {...register(`preferences.${index}.type`)}
+                    hidden
+                  />
+                </td>
+                <td className="py-2 text-center">
+                  <input
+                    type="checkbox"
+                    {...register(`preferences.${index}.inApp`)}
+                  />
+                </td>
+                <td className="py-2 text-center">
+                  <input
+                    type="checkbox"
+                    {...register(`preferences.${index}.email`)}
+                  />
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {state.error && (
+          <span className="text-red-500">
+            {state.message ?? "Something went wrong!"}
+          </span>
+        )}
+        <button className="bg-blue-400 text-white p-2 rounded-md self-start text-sm">
+          Save
+        </button>
+      </form>
+      {emailEnabled ? (
+        <form action={testAction}>
+          <button className="text-xs text-gray-500 underline">
+            Send me a test email
+          </button>
+        </form>
+      ) : (
+        <span className="text-xs text-gray-400">
+          Email isn&apos;t set up on this server yet, so for now notifications
+          are only shown here.
+        </span>
+      )}
+    </div>
+  );
+};
+
+export default NotificationPreferencesForm;
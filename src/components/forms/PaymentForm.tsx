@@ -0,0 +1,144 @@
+"use client";
+
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import InputField from "../InputField";
+import { paymentSchema, PaymentSchema } from "@/lib/formValidationSchemas";
+import { createPayment, updatePayment } from "@/lib/actions";
+import { useFormState } from "react-dom";
+import { Dispatch, SetStateAction, useEffect } from "react";
+import { toast } from "react-toastify";
+import { useRouter } from "next/navigation";
+
+const methods = [
+  { value: "CASH", label: "Cash" },
+  { value: "CARD", label: "Card" },
+  { value: "BANK_TRANSFER", label: "Bank transfer" },
+  { value: "CHEQUE", label: "Cheque" },
+];
+
+// Payments are recorded on an invoice, which `data.invoiceId` names
+const PaymentForm = ({
+  type,
+  data,
+  setOpen,
+}: {
+  type: "create" | "update";
+  data?: any;
+  setOpen: Dispatch<SetStateAction<boolean>>;
+  relatedData?: any;
+}) => {
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+  } = useForm<PaymentSchema>({
+    resolver: zodResolver(paymentSchema),
+  });
+
+  const [state, formAction] = useFormState(
+    type === "create" ? createPayment : updatePayment,
+    {
+      success: false,
+      error: false,
+    }
+  );
+
+  const onSubmit = handleSubmit((data) => {
+    formAction(data);
+  });
+
+  const router = useRouter();
+
+  useEffect(() => {
+    if (state.success) {
+      toast(`Payment has been ${type === "create" ? "recorded" : "updated"}!`);
+      setOpen(false);
+      router.refresh();
+    }
+  }, [state, router, type, setOpen]);
+
+  return (
+    <form className="flex flex-col gap-8" onSubmit={onSubmit}>
+      <h1 className="text-xl font-semibold">
+        {type === "create" ? "Record a payment" : "Update the payment"}
+      </h1>
+
+      <div className="flex justify-between flex-wrap gap-4">
+        <InputField
+          label="Amount"
+          name="amount"
+          type="number"
+          defaultValue={data?.amount}
+          register={register}
+          error={errors?.amount}
+          inputProps={{ step: "0.01", min: 0 }}
+        />
+        <InputField
+          label="Paid on"
+          name="paidAt"
+          defaultValue={
+            (data?.paidAt ?? new Date()).toISOString().split("T")[0]
+          }
+          register={register}
+          error={errors?.paidAt}
+          type="date"
+        />
+        <div className="flex flex-col gap-2 w-full md:w-1/4">
+          <label className="text-xs text-gray-500">Method</label>
+          <select
+            className="ring-[1.5px] ring-gray-300 p-2 rounded-md text-sm w-full"
+            {...register("method")}
+            defaultValue={data?.method}
+          >
+            {methods.map((method) => (
+              <option value={method.value} key={method.value}>
+                {method.label}
+              </option>
+            ))}
+          </select>
+          {errors.method?.message && (
+            <p className="text-xs text-red-400">
+              {errors.method.message.toString()}
+            </p>
+          )}
+        </div>
+        <InputField
+          label="Reference"
+          name="reference"
+          defaultValue={data?.reference ?? ""}
+          register={register}
+          error={errors?.reference}
+        />
+        <InputField
+          label="Invoice"
+          name="invoiceId"
+          defaultValue={data?.invoiceId}
+          register={register}
+          error={errors?.invoiceId}
+          hidden
+        />
+        {data?.id && (
+          <InputField
+            label="Id"
+            name="id"
+            defaultValue={data?.id}
+            register={register}
+            error={errors?.id}
+            hidden
+          />
+        )}
+      </div>
+      {state.error && (
+        <span className="text-red-500">
+          {state.message ?? "Something went wrong!"}
+        </span>
+      )}
+      <button className="bg-blue-400 text-white p-2 rounded-md">
+        {type === "create" ? "Record" : "Update"}
+      </button>
+    </form>
+  );
+};
+
+export default PaymentForm;
@@ -0,0 +1,150 @@
+"use client";
+
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import InputField from "../InputField";
+import {
+  reportCardTemplateSchema,
+  ReportCardTemplateSchema,
+} from "@/lib/formValidationSchemas";
+import {
+  createReportCardTemplate,
+  updateReportCardTemplate,
+} from "@/lib/actions";
+import { useFormState } from "react-dom";
+import { Dispatch, SetStateAction, useEffect } from "react";
+import { toast } from "react-toastify";
+import { useRouter } from "next/navigation";
+
+const sections = [
+  { name: "showCategories", label: "Exam and assignment averages" },
+  { name: "showAttendance", label: "Attendance" },
+  { name: "showRank", label: "Class rank" },
+] as const;
+
+const ReportCardTemplateForm = ({
+  type,
+  data,
+  setOpen,
+}: {
+  type: "create" | "update";
+  data?: any;
+  setOpen: Dispatch<SetStateAction<boolean>>;
+  relatedData?: any;
+}) => {
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+  } = useForm<ReportCardTemplateSchema>({
+    resolver: zodResolver(reportCardTemplateSchema),
+  });
+
+  const [state, formAction] = useFormState(
+    type === "create" ? createReportCardTemplate : updateReportCardTemplate,
+    {
+      success: false,
+      error: false,
+    }
+  );
+
+  const onSubmit = handleSubmit((data) => {
+    formAction(data);
+  });
+
+  const router = useRouter();
+
+  useEffect(() => {
+    if (state.success) {
+      toast(`Template has been ${type === "create" ? "created" : "updated"}!`);
+      setOpen(false);
+      router.refresh();
+    }
+  }, [state, router, type, setOpen]);
+
+  return (
+    <form className="flex flex-col gap-8" onSubmit={onSubmit}>
+      <h1 className="text-xl font-semibold">
+        {type === "create"
+          ? "Create a new report card template"
+          : "Update the report card template"}
+      </h1>
+
+      <div className="flex justify-between flex-wrap gap-4">
+        <InputField
+          label="Name"
+          name="name"
+          defaultValue={data?.name}
+          register={register}
+          error={errors?.name}
+        />
+        <InputField
+          label="Heading"
+          name="heading"
+          defaultValue={data?.heading}
+          register={register}
+          error={errors?.heading}
+        />
+        {data && (
+          <InputField
+            label="Id"
+            name="id"
+            defaultValue={data?.id}
+            register={register}
+            error={errors?.id}
+            hidden
+          />
+        )}
+        <div className="flex items-center gap-2 w-full md:w-1/4">
+          <input
+            type="checkbox"
+            id="isDefault"
+            {...register("isDefault")}
+            defaultChecked={data?.isDefault}
+          />
+          <label htmlFor="isDefault" className="text-xs text-gray-500">
+            Default template
+          </label>
+        </div>
+      </div>
+      <div className="flex flex-col gap-2">
+        <span className="text-xs text-gray-500">
+          Shown besides the subject averages
+        </span>
+        <div className="flex flex-wrap gap-4">
+          {sections.map((section) => (
+            <label
+              key={section.name}
+              className="flex items-center gap-2 text-sm"
+            >
+              <input
+                type="checkbox"
+                {...register(section.name)}
+                defaultChecked={data ? data[section.name] : true}
+              />
+              {section.label}
+            </label>
+          ))}
+        </div>
+      </div>
+      <div className="flex flex-col gap-2 w-full">
+        <label className="text-xs text-gray-500">Footer</label>
+        <textarea
+          {...register("footer")}
+          defaultValue={data?.footer ?? ""}
+          placeholder="e.g. a signature line or a note to parents"
+          className="ring-[1.5px] ring-gray-300 p-2 rounded-md text-sm w-full"
+          rows={3}
+        />
+      </div>
+      {state.error && (
+        <span className="text-red-500">Something went wrong!</span>
+      )}
+      <button className="bg-blue-400 text-white p-2 rounded-md">
+        {type === "create" ? "Create" : "Update"}
+      </button>
+    </form>
+  );
+};
+
+export default ReportCardTemplateForm;
@@ -0,0 +1,239 @@
+"use client";
+
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useFieldArray, useForm } from "react-hook-form";
+import InputField from "../InputField";
+import { rubricSchema, RubricSchema } from "@/lib/formValidationSchemas";
+import { createRubric, updateRubric } from "@/lib/actions";
+import { useFormState } from "react-dom";
+import { Dispatch, SetStateAction, useEffect } from "react";
+import { toast } from "react-toastify";
+import { useRouter } from "next/navigation";
+
+const DEFAULT_LEVELS = [
+  { title: "Excellent", description: "", points: 4 },
+  { title: "Good", description: "", points: 3 },
+  { title: "Fair", description: "", points: 2 },
+  { title: "Poor", description: "", points: 1 },
+];
+
+// The levels of one criterion, best first
+const LevelFields = ({
+  control,
+  register,
+  criterion,
+  error,
+}: {
+  control: any;
+  register: any;
+  criterion: number;
+  error?: { message?: string; root?: { message?: string } };
+}) => {
+  const { fields, append, remove } = useFieldArray({
+    control,
+    name: `criteria.${criterion}.levels`,
+  });
+
+  return (
+    <div className="flex flex-col gap-2 pl-4">
+      {fields.map((field, index) => (
+        <div key={field.id} className="flex items-center gap-2 flex-wrap">
+          <input
+            {...register(`criteria.${criterion}.levels.${index}.title`)}
+            placeholder="Level"
+            className="ring-[1.5px] ring-gray-300 p-2 rounded-md text-sm w-28"
+          />
+          <input
+            type="number"
+            {...register(`criteria.${criterion}.levels.${index}.points`)}
+            placeholder="Points"
+            className="ring-[1.5px] ring-gray-300 p-2 rounded-md text-sm w-20"
+          />
+          <input
+            {...register(`criteria.${criterion}.levels.${index}.description`)}
+            placeholder="What earns this level"
+            className="ring-[1.5px] ring-gray-300 p-2 rounded-md text-sm flex-1"
+          />
+          <button
+            type="button"
+            onClick={() => remove(index)}
+            className="text-xs text-red-400"
+          >
+            Remove
+          </button>
+        </div>
+      ))}
+      <button
+        type="button"
+        onClick={() => append({ title: "", description: "", points: 0 })}
+        className="text-xs text-gray-500 self-start"
+      >
+        + Add level
+      </button>
+      {(error?.message || error?.root?.message) && (
+        <p className="text-xs text-red-400">
+          {error.message || error.root?.message}
+        </p>
+      )}
+    </div>
+  );
+};
+
+const RubricForm = ({
+  type,
+  data,
+  setOpen,
+}: {
+  type: "create" | "update";
+  data?: any;
+  setOpen: Dispatch<SetStateAction<boolean>>;
+  relatedData?: any;
+}) => {
+  const {
+    register,
+    control,
+    handleSubmit,
+    formState: { errors },
+  } = useForm<RubricSchema>({
+    resolver: zodResolver(rubricSchema),
+    defaultValues: {
+      criteria: data?.criteria.map((criterion: any) => ({
+        title: criterion.title,
+        description: criterion.description ?? "",
+        levels: criterion.levels.map((level: any) => ({
+          title: level.title,
+          description: level.description ?? "",
+          points: level.points,
+        })),
+      })) ?? [{ title: "", description: "", levels: DEFAULT_LEVELS }],
+    },
+  });
+
+  const { fields, append, remove } = useFieldArray({
+    control,
+    name: "criteria",
+  });
+
+  const [state, formAction] = useFormState(
+    type === "create" ? createRubric : updateRubric,
+    {
+      success: false,
+      error: false,
+    }
+  );
+
+  const onSubmit = handleSubmit((data) => {
+    formAction(data);
+  });
+
+  const router = useRouter();
+
+  useEffect(() => {
+    if (state.success) {
+      toast(`Rubric has been ${type === "create" ? "created" : "updated"}!`);
+      setOpen(false);
+      router.refresh();
+    }
+  }, [state, router, type, setOpen]);
+
+  return (
+    <form
+      className="flex flex-col gap-8 max-h-[80vh] overflow-y-auto"
+      onSubmit={onSubmit}
+    >
+      <h1 className="text-xl font-semibold">
+        {type === "create" ? "Create a new rubric" : "Update the rubric"}
+      </h1>
+
+      <div className="flex justify-between flex-wrap gap-4">
+        <InputField
+          label="Title"
+          name="title"
+          defaultValue={data?.title}
+          register={register}
+          error={errors?.title}
+        />
+        <InputField
+          label="Description"
+          name="description"
+          defaultValue={data?.description ?? ""}
+          register={register}
+          error={errors?.description}
+        />
+        {data && (
+          <InputField
+            label="Id"
+            name="id"
+            defaultValue={data?.id}
+            register={register}
+            error={errors?.id}
+            hidden
+          />
+        )}
+      </div>
+      <div className="flex flex-col gap-4">
+        <span className="text-xs text-gray-500">
+          Criteria (each is scored at one of its levels)
+        </span>
+        {fields.map((field, index) => (
+          <div key={field.id} className="flex flex-col gap-2">
+            <div className="flex items-center gap-2 flex-wrap">
+              <input
+                {...register(`criteria.${index}.title`)}
+                placeholder="Criterion"
+                className="ring-[1.5px] ring-gray-300 p-2 rounded-md text-sm w-40"
+              />
+              <input
+                {...register(`criteria.${index}.description`)}
+                placeholder="What it looks at"
+                className="ring-[1.5px] ring-gray-300 p-2 rounded-md text-sm flex-1"
+              />
+              <button
+                type="button"
+                onClick={() => remove(index)}
+                className="text-xs text-red-400"
+              >
+                Remove
+              </button>
+            </div>
+            {errors.criteria?.[index]?.title?.message && (
+              <p className="text-xs text-red-400">
+                {errors.criteria[index]?.title?.message?.toString()}
+              </p>
+            )}
+            <LevelFields
+              control={control}
+              register={register}
+              criterion={index}
+              error={errors.criteria?.[index]?.levels}
+            />
+          </div>
+        ))}
+        <button
+          type="button"
+          onClick={() =>
+            append({ title: "", description: "", levels: DEFAULT_LEVELS })
+          }
+          className="text-xs text-gray-500 self-start"
+        >
+          + Add criterion
+        </button>
+        {errors.criteria?.message && (
+          <p className="text-xs text-red-400">
+            {errors.criteria.message.toString()}
+          </p>
+        )}
+      </div>
+      {state.error && (
+        <span className="text-red-500">
+          {state.message ?? "Something went wrong!"}
+        </span>
+      )}
+      <button className="bg-blue-400 text-white p-2 rounded-md">
+        {type === "create" ? "Create" : "Update"}
+      </button>
+    </form>
+  );
+};
+
+export default RubricForm;
@@ -21,6 +21,8 @@ import {
 import { useRouter } from "next/navigation";
 import { toast } from "react-toastify";
 import { CldUploadWidget } from "next-cloudinary";
+import { primaryGuardian, RELATIONSHIP_LABELS } from "@/lib/guardians";
+import { Guardian } from "@prisma/client";
 
 const StudentForm = ({
   type,
@@ -67,7 +69,7 @@ const StudentForm = ({
     }
   }, [state, router, type, setOpen]);
 
-  const { grades, classes } = relatedData;
+  const { grades, classes, parents } = relatedData;
 
   return (
     <form className="flex flex-col gap-8" onSubmit={onSubmit}>
@@ -167,13 +169,6 @@ const StudentForm = ({
           error={errors.birthday}
           type="date"
         />
-        <InputField
-          label="Parent Id"
-          name="parentId"
-          defaultValue={data?.parentId}
-          register={register}
-          error={errors.parentId}
-        />
         {data && (
           <InputField
             label="Id"
@@ -200,6 +195,46 @@ const StudentForm = ({
             </p>
           )}
         </div>
+        <div className="flex flex-col gap-2 w-full md:w-1/4">
+          <label className="text-xs text-gray-500">Primary guardian</label>
+          <select
+            className="ring-[1.5px] ring-gray-300 p-2 rounded-md text-sm w-full"
+            {...register("parentId")}
+            defaultValue={
+              data && primaryGuardian<Guardian>(data.guardians)?.parentId
+            }
+          >
+            {parents.map(
+              (parent: { id: string; name: string; surname: string }) => (
+                <option value={parent.id} key={parent.id}>
+                  {parent.name + " " + parent.surname}
+                </option>
+              )
+            )}
+          </select>
+          {errors.parentId?.message && (
+            <p className="text-xs text-red-400">
+              {errors.parentId.message.toString()}
+            </p>
+          )}
+        </div>
+        {/* Other guardians are added on the student's page */}
+        {type === "create" && (
+          <div className="flex flex-col gap-2 w-full md:w-1/4">
+            <label className="text-xs text-gray-500">Relationship</label>
+            <select
+              className="ring-[1.5px] ring-gray-300 p-2 rounded-md text-sm w-full"
+              {...register("relationship")}
+              defaultValue="PARENT"
+            >
+              {Object.entries(RELATIONSHIP_LABELS).map(([value, label]) => (
+                <option value={value} key={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
         <div className="flex flex-col gap-2 w-full md:w-1/4">
           <label className="text-xs text-gray-500">Grade</label>
           <select
@@ -249,7 +284,9 @@ const StudentForm = ({
         </div>
       </div>
       {state.error && (
-        <span className="text-red-500">Something went wrong!</span>
+        <span className="text-red-500">
+          {state.message ?? "Something went wrong!"}
+        </span>
       )}
       <button type="submit" className="bg-blue-400 text-white p-2 rounded-md">
         {type === "create" ? "Create" : "Update"}
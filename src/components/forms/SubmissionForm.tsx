@@ -0,0 +1,147 @@
+"use client";
+
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import {
+  submissionSchema,
+  SubmissionSchema,
+} from "@/lib/formValidationSchemas";
+import { submitAssignment } from "@/lib/actions";
+import { useFormState } from "react-dom";
+import { useEffect } from "react";
+import { toast } from "react-toastify";
+import { useRouter } from "next/navigation";
+import { CldUploadWidget } from "next-cloudinary";
+import Image from "next/image";
+
+type SubmissionFile = SubmissionSchema["files"][number];
+
+// A student's hand-in, prefilled with the last attempt when handing in again
+const SubmissionForm = ({
+  assignmentId,
+  text,
+  files: initialFiles = [],
+}: {
+  assignmentId: number;
+  text?: string | null;
+  files?: SubmissionFile[];
+}) => {
+  const {
+    register,
+    handleSubmit,
+    setValue,
+    getValues,
+    watch,
+    formState: { errors },
+  } = useForm<SubmissionSchema>({
+    resolver: zodResolver(submissionSchema),
+    defaultValues: { assignmentId, text: text ?? "", files: initialFiles },
+  });
+
+  const files = watch("files");
+  const setFiles = (next: SubmissionFile[]) =>
+    setValue("files", next, { shouldValidate: true });
+
+  const [state, formAction] = useFormState(submitAssignment, {
+    success: false,
+    error: false,
+  });
+
+  const onSubmit = handleSubmit((data) => {
+    formAction(data);
+  });
+
+  const router = useRouter();
+
+  useEffect(() => {
+    if (state.success) {
+      toast("Your work has been handed in!");
+      router.refresh();
+    }
+  }, [state, router]);
+
+  return (
+    <form className="flex flex-col gap-4" onSubmit={onSubmit}>
+      <input type="number" {...register("assignmentId")} hidden />
+      <div className="flex flex-col gap-2">
+        <label className="text-xs text-gray-500">Your answer</label>
+        <textarea
+          className="ring-[1.5px] ring-gray-300 p-2 rounded-md text-sm w-full"
+          rows={8}
+          {...register("text")}
+        />
+        {errors.text?.message && (
+          <p className="text-xs text-red-400">
+            {errors.text.message.toString()}
+          </p>
+        )}
+      </div>
+      <div className="flex flex-col gap-2">
+        {files.map((file) => (
+          <div
+            key={file.url}
+            className="flex items-center justify-between gap-2 text-sm"
+          >
+            <a
+              href={file.url}
+              target="_blank"
+              rel="noreferrer"
+              className="text-blue-500 hover:underline truncate"
+            >
+              {file.name}
+            </a>
+            <button
+              type="button"
+              className="text-xs text-gray-500 underline"
+              onClick={() =>
+                setFiles(files.filter((item) => item.url !== file.url))
+              }
+            >
+              Remove
+            </button>
+          </div>
+        ))}
+        <CldUploadWidget
+          uploadPreset="school"
+          options={{ multiple: true, resourceType: "auto" }}
+          onSuccess={(result) => {
+            if (typeof result.info === "string" || !result.info) return;
+            const { original_filename, format, secure_url } = result.info;
+            const name = format
+              ? `${original_filename}.${format}`
+              : original_filename;
+            // Uploads can finish together, so read the files as they are now
+            setFiles([...getValues("files"), { name, url: secure_url }]);
+          }}
+        >
+          {({ open }) => {
+            return (
+              <div
+                className="text-xs text-gray-500 flex items-center gap-2 cursor-pointer"
+                onClick={() => open()}
+              >
+                <Image src="/upload.png" alt="" width={28} height={28} />
+                <span>Attach files</span>
+              </div>
+            );
+          }}
+        </CldUploadWidget>
+        {errors.files?.message && (
+          <p className="text-xs text-red-400">
+            {errors.files.message.toString()}
+          </p>
+        )}
+      </div>
+      {state.error && (
+        <span className="text-red-500">
+          {state.message ?? "Something went wrong!"}
+        </span>
+      )}
+      <button className="bg-blue-400 text-white p-2 rounded-md self-start text-sm">
+        Hand in
+      </button>
+    </form>
+  );
+};
+
+export default SubmissionForm;
@@ -0,0 +1,97 @@
+"use client";
+
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import {
+  submissionGradeSchema,
+  SubmissionGradeSchema,
+} from "@/lib/formValidationSchemas";
+import { gradeSubmission } from "@/lib/actions";
+import { useFormState } from "react-dom";
+import { useEffect } from "react";
+import { toast } from "react-toastify";
+import { useRouter } from "next/navigation";
+
+// Score and feedback inline in the grading queue, again to regrade
+const SubmissionGradeForm = ({
+  id,
+  score,
+  feedback,
+  maxScore,
+}: {
+  id: number;
+  score: number | null;
+  feedback: string | null;
+  maxScore: number;
+}) => {
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+  } = useForm<SubmissionGradeSchema>({
+    resolver: zodResolver(submissionGradeSchema),
+    defaultValues: { id, score: score ?? undefined, feedback: feedback ?? "" },
+  });
+
+  const [state, formAction] = useFormState(gradeSubmission, {
+    success: false,
+    error: false,
+  });
+
+  const onSubmit = handleSubmit((data) => {
+    formAction(data);
+  });
+
+  const router = useRouter();
+
+  useEffect(() => {
+    if (state.success) {
+      toast("The submission has been graded!");
+      router.refresh();
+    }
+  }, [state, router]);
+
+  return (
+    <form className="flex flex-col gap-2" onSubmit={onSubmit}>
+      <input type="number" {...register("id")} hidden />
+      <div className="flex items-center gap-2">
+        <input
+          type="number"
+          className="ring-[1.5px] ring-gray-300 p-2 rounded-md text-sm w-20"
+          min={0}
+          max={maxScore}
+          {...register("score")}
+        />
+        <span className="text-sm text-gray-500">/ {maxScore}</span>
+      </div>
+      {errors.score?.message && (
+        <p className="text-xs text-red-400">
+          {errors.score.message.toString()}
+        </p>
+      )}
+      <textarea
+        className="ring-[1.5px] ring-gray-300 p-2 rounded-md text-sm w-full"
+        rows={2}
+        placeholder="Feedback for the student"
+        {...register("feedback")}
+      />
+      {errors.feedback?.message && (
+        <p className="text-xs text-red-400">
+          {errors.feedback.message.toString()}
+        </p>
+      )}
+      <div className="flex items-center gap-4">
+        <button className="bg-blue-400 text-white p-2 rounded-md text-sm">
+          {score === null ? "Grade" : "Regrade"}
+        </button>
+        {state.error && (
+          <span className="text-red-500 text-sm">
+            {state.message ?? "Something went wrong!"}
+          </span>
+        )}
+      </div>
+    </form>
+  );
+};
+
+export default SubmissionGradeForm;
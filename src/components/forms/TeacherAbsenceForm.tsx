@@ -0,0 +1,131 @@
+"use client";
+
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import InputField from "../InputField";
+import {
+  teacherAbsenceSchema,
+  TeacherAbsenceSchema,
+} from "@/lib/formValidationSchemas";
+import { createTeacherAbsence, updateTeacherAbsence } from "@/lib/actions";
+import { useFormState } from "react-dom";
+import { Dispatch, SetStateAction, useEffect } from "react";
+import { toast } from "react-toastify";
+import { useRouter } from "next/navigation";
+
+const TeacherAbsenceForm = ({
+  type,
+  data,
+  setOpen,
+  relatedData,
+}: {
+  type: "create" | "update";
+  data?: any;
+  setOpen: Dispatch<SetStateAction<boolean>>;
+  relatedData?: any;
+}) => {
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+  } = useForm<TeacherAbsenceSchema>({
+    resolver: zodResolver(teacherAbsenceSchema),
+  });
+
+  const [state, formAction] = useFormState(
+    type === "create" ? createTeacherAbsence : updateTeacherAbsence,
+    {
+      success: false,
+      error: false,
+    }
+  );
+
+  const onSubmit = handleSubmit((data) => {
+    formAction(data);
+  });
+
+  const router = useRouter();
+
+  useEffect(() => {
+    if (state.success) {
+      toast(`Absence has been ${type === "create" ? "created" : "updated"}!`);
+      setOpen(false);
+      router.refresh();
+    }
+  }, [state, router, type, setOpen]);
+
+  const { teachers } = relatedData;
+
+  return (
+    <form className="flex flex-col gap-8" onSubmit={onSubmit}>
+      <h1 className="text-xl font-semibold">
+        {type === "create" ? "Record a teacher absence" : "Update the absence"}
+      </h1>
+
+      <div className="flex justify-between flex-wrap gap-4">
+        <div className="flex flex-col gap-2 w-full md:w-1/4">
+          <label className="text-xs text-gray-500">Teacher</label>
+          <select
+            className="ring-[1.5px] ring-gray-300 p-2 rounded-md text-sm w-full"
+            {...register("teacherId")}
+            defaultValue={data?.teacherId}
+          >
+            {teachers.map(
+              (teacher: { id: string; name: string; surname: string }) => (
+                <option value={teacher.id} key={teacher.id}>
+                  {teacher.name + " " + teacher.surname}
+                </option>
+              )
+            )}
+          </select>
+          {errors.teacherId?.message && (
+            <p className="text-xs text-red-400">
+              {errors.teacherId.message.toString()}
+            </p>
+          )}
+        </div>
+        <InputField
+          label="First day"
+          name="startDate"
+          defaultValue={data?.startDate.toISOString().split("T")[0]}
+          register={register}
+          error={errors?.startDate}
+          type="date"
+        />
+        <InputField
+          label="Last day"
+          name="endDate"
+          defaultValue={data?.endDate.toISOString().split("T")[0]}
+          register={register}
+          error={errors?.endDate}
+          type="date"
+        />
+        <InputField
+          label="Reason"
+          name="reason"
+          defaultValue={data?.reason ?? ""}
+          register={register}
+          error={errors?.reason}
+        />
+        {data && (
+          <InputField
+            label="Id"
+            name="id"
+            defaultValue={data?.id}
+            register={register}
+            error={errors?.id}
+            hidden
+          />
+        )}
+      </div>
+      {state.error && (
+        <span className="text-red-500">Something went wrong!</span>
+      )}
+      <button className="bg-blue-400 text-white p-2 rounded-md">
+        {type === "create" ? "Create" : "Update"}
+      </button>
+    </form>
+  );
+};
+
+export default TeacherAbsenceForm;
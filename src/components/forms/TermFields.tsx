@@ -0,0 +1,64 @@
+"use client";
+
+import { useFieldArray } from "react-hook-form";
+
+// Term rows shared by the academic year and rollover forms
+const TermFields = ({
+  control,
+  register,
+  error,
+}: {
+  control: any;
+  register: any;
+  error?: { message?: string; root?: { message?: string } };
+}) => {
+  const { fields, append, remove } = useFieldArray({ control, name: "terms" });
+
+  return (
+    <div className="flex flex-col gap-2">
+      <span className="text-xs text-gray-500">Terms</span>
+      {fields.map((field, index) => (
+        <div key={field.id} className="flex items-center gap-4 flex-wrap">
+          <input
+            {...register(`terms.${index}.name`)}
+            placeholder="Name"
+            className="ring-[1.5px] ring-gray-300 p-2 rounded-md text-sm w-32"
+          />
+          <input
+            type="date"
+            {...register(`terms.${index}.startDate`)}
+            className="ring-[1.5px] ring-gray-300 p-2 rounded-md text-sm"
+          />
+          <input
+            type="date"
+            {...register(`terms.${index}.endDate`)}
+            className="ring-[1.5px] ring-gray-300 p-2 rounded-md text-sm"
+          />
+          <button
+            type="button"
+            onClick={() => remove(index)}
+            className="text-xs text-red-400"
+          >
+            Remove
+          </button>
+        </div>
+      ))}
+      <button
+        type="button"
+        onClick={() =>
+          append({ name: `Term ${fields.length + 1}`, startDate: "", endDate: "" })
+        }
+        className="text-xs text-gray-500 self-start"
+      >
+        + Add term
+      </button>
+      {(error?.message || error?.root?.message) && (
+        <p className="text-xs text-red-400">
+          {error.message || error.root?.message}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default TermFields;
@@ -0,0 +1,81 @@
+"use client";
+
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import { testMarkSchema, TestMarkSchema } from "@/lib/formValidationSchemas";
+import { markTestAnswer } from "@/lib/actions";
+import { useFormState } from "react-dom";
+import { useEffect } from "react";
+import { toast } from "react-toastify";
+import { useRouter } from "next/navigation";
+
+// Points for a short answer or essay question that has no rubric
+const TestMarkForm = ({
+  attemptId,
+  questionId,
+  points,
+  maxPoints,
+}: {
+  attemptId: number;
+  questionId: string;
+  points: number | null;
+  maxPoints: number;
+}) => {
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+  } = useForm<TestMarkSchema>({
+    resolver: zodResolver(testMarkSchema),
+    defaultValues: { attemptId, questionId, points: points ?? undefined },
+  });
+
+  const [state, formAction] = useFormState(markTestAnswer, {
+    success: false,
+    error: false,
+  });
+
+  const onSubmit = handleSubmit((data) => {
+    formAction(data);
+  });
+
+  const router = useRouter();
+
+  useEffect(() => {
+    if (state.success) {
+      toast("The answer has been marked!");
+      router.refresh();
+    }
+  }, [state, router]);
+
+  return (
+    <form className="flex items-center gap-2 flex-wrap" onSubmit={onSubmit}>
+      <input type="number" {...register("attemptId")} hidden />
+      <input type="text" {...register("questionId")} hidden />
+      <input
+        type="number"
+        step="0.5"
+        className="ring-[1.5px] ring-gray-300 p-2 rounded-md text-sm w-20"
+        min={0}
+        max={maxPoints}
+        {...register("points")}
+      />
+      <span className="text-sm text-gray-500">/ {maxPoints}</span>
+      <button className="bg-blue-400 text-white p-2 rounded-md text-sm">
+        {points === null ? "Mark" : "Remark"}
+      </button>
+      {errors.points?.message && (
+        <p className="text-xs text-red-400">
+          {errors.points.message.toString()}
+        </p>
+      )}
+      {state.error && (
+        <span className="text-red-500 text-sm">
+          {state.message ?? "Something went wrong!"}
+        </span>
+      )}
+    </form>
+  );
+};
+
+export default TestMarkForm;
@@ -0,0 +1,32 @@
+import prisma from "./prisma";
+
+// ACADEMIC YEARS AND TERMS
+
+export const getCurrentAcademicYear = () =>
+  prisma.academicYear.findFirst({
+    where: { isCurrent: true },
+    include: { terms: { orderBy: { startDate: "asc" } } },
+  });
+
+// The term containing the date in any year. Dates that fall between or outside
+// the terms go to the nearest term of the current year.
+export const getTermForDate = async (date: Date) => {
+  const term = await prisma.term.findFirst({
+    where: { startDate: { lte: date }, endDate: { gte: date } },
+  });
+
+  if (term) return term;
+
+  const year = await getCurrentAcademicYear();
+  if (!year?.terms.length) return null;
+
+  const distance = (t: { startDate: Date; endDate: Date }) =>
+    Math.min(
+      Math.abs(t.startDate.getTime() - date.getTime()),
+      Math.abs(t.endDate.getTime() - date.getTime())
+    );
+
+  return year.terms.reduce((a, b) => (distance(b) < distance(a) ? b : a));
+};
+
+export const getCurrentTerm = () => getTermForDate(new Date());
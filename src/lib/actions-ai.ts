@@ -6,18 +6,23 @@
  */
 
 import { revalidatePath } from "next/cache";
-import { auth } from "@clerk/nextjs/server";
 import prisma from "./prisma";
-import { executeRAGWorkflow } from "./ai/graphs/rag-workflow";
+import { executeRAGWorkflow, WorkflowOptions } from "./ai/graphs/rag-workflow";
 import { processDocument, deleteDocument, updateDocumentMetadata } from "./ai/utils/document-processing";
 import { logAnalytics } from "./ai/utils/analytics";
-
-type ActionResult = {
-  success: boolean;
-  error: boolean;
-  message?: string;
-  data?: any;
-};
+import { buildStudentContext } from "./ai/utils/student-context";
+import { ActionResult, authorize, FORBIDDEN } from "./policy";
+import { audit, auditChanges } from "./audit";
+import { notify } from "./notifications";
+import { linkToExamModel } from "./ai/generators/exam-generator";
+import { suggestRubricLevels } from "./ai/generators/rubric-grader";
+import { getTestQuestions, isObjective, TestAnswers } from "./onlineTests";
+import {
+  parseRubricDefinition,
+  rubricInclude,
+  RubricTarget,
+  saveRubricScores,
+} from "./rubrics";
 
 /**
  * Query the AI Playground
@@ -25,29 +30,72 @@ type ActionResult = {
 export async function queryAIPlayground(
   query: string,
   options: {
-    mode: "research" | "math_solver" | "physics_solver" | "chemistry_solver" | "quiz_creator" | "exam_creator";
+    mode: "research" | "math_solver" | "physics_solver" | "chemistry_solver" | "quiz_creator" | "exam_creator" | "parent_guide";
     subject?: string;
     gradeLevel?: number;
     conversationId?: string;
     streaming?: boolean;
+    // The child a parent asks about in parent_guide mode
+    studentId?: string;
   }
 ): Promise<ActionResult> {
   try {
-    const { userId } = await auth();
+    const actor = await authorize(
+      "aiConversation",
+      options.conversationId ? "update" : "create",
+      { id: options.conversationId }
+    );
+
+    if (!actor) {
+      return FORBIDDEN;
+    }
 
-    if (!userId) {
-      return { success: false, error: true, message: "Unauthorized" };
+    const { userId, role: userRole } = actor;
+
+    // Content creation is for teachers, parents ask about their children
+    const isCreatorMode = options.mode === "quiz_creator" || options.mode === "exam_creator";
+    if (
+      (isCreatorMode && userRole !== "teacher") ||
+      (userRole === "parent" && options.mode !== "parent_guide")
+    ) {
+      return FORBIDDEN;
     }
 
-    // Get user role from session
-    const user = await prisma.student.findUnique({ where: { id: userId } })
-      || await prisma.teacher.findUnique({ where: { id: userId } });
+    let workflowOptions: WorkflowOptions = {
+      subject: options.subject,
+      gradeLevel: options.gradeLevel,
+    };
 
-    if (!user) {
-      return { success: false, error: true, message: "User not found" };
+    if (userRole === "student") {
+      const student = await prisma.student.findUnique({
+        where: { id: userId },
+        select: { classId: true },
+      });
+      // Students only search their own class's documents plus the shared library
+      workflowOptions.classId = student?.classId;
     }
 
-    const userRole = "username" in user && user.username.includes("teacher") ? "teacher" : "student";
+    if (options.mode === "parent_guide") {
+      if (
+        !options.studentId ||
+        !(await authorize("studentRecord", "read", { id: options.studentId }))
+      ) {
+        return FORBIDDEN;
+      }
+
+      const record = await buildStudentContext(options.studentId);
+      if (!record) {
+        return { success: false, error: true, message: "Student not found" };
+      }
+
+      // Answers draw on the child's class material and their record
+      workflowOptions = {
+        ...workflowOptions,
+        classId: record.classId,
+        gradeLevel: workflowOptions.gradeLevel ?? record.gradeLevel,
+        studentContext: record.context,
+      };
+    }
 
     // Create or get conversation
     let conversationId = options.conversationId;
@@ -60,8 +108,10 @@ export async function queryAIPlayground(
           mode: options.mode,
           subject: options.subject,
           gradeLevel: options.gradeLevel,
+          metadata: options.studentId ? { studentId: options.studentId } : undefined,
         },
       });
+      await audit({ entity: "AIConversation", action: "CREATE", after: conversation });
       conversationId = conversation.id;
     }
 
@@ -72,23 +122,21 @@ export async function queryAIPlayground(
       userRole,
       options.mode,
       conversationId,
-      {
-        subject: options.subject,
-        gradeLevel: options.gradeLevel,
-      }
+      workflowOptions
     );
 
     // Store message
-    await prisma.aIMessage.create({
+    const message = await prisma.aIMessage.create({
       data: {
         conversationId,
         role: "user",
         content: query,
       },
     });
+    await audit({ entity: "AIMessage", action: "CREATE", after: message });
 
     if (result.success && result.answer) {
-      await prisma.aIMessage.create({
+      const answer = await prisma.aIMessage.create({
         data: {
           conversationId,
           role: "assistant",
@@ -98,6 +146,7 @@ export async function queryAIPlayground(
           metadata: result.metadata,
         },
       });
+      await audit({ entity: "AIMessage", action: "CREATE", after: answer });
     }
 
     return {
@@ -127,23 +176,13 @@ export async function queryAIPlayground(
  */
 export async function uploadAIDocument(formData: FormData): Promise<ActionResult> {
   try {
-    const { userId } = await auth();
+    const actor = await authorize("aiDocument", "create");
 
-    if (!userId) {
-      return { success: false, error: true, message: "Unauthorized" };
+    if (!actor) {
+      return FORBIDDEN;
     }
 
-    // Check if user is teacher or admin
-    const teacher = await prisma.teacher.findUnique({ where: { id: userId } });
-    const admin = await prisma.admin.findUnique({ where: { id: userId } });
-
-    if (!teacher && !admin) {
-      return {
-        success: false,
-        error: true,
-        message: "Only teachers and admins can upload documents"
-      };
-    }
+    const { userId } = actor;
 
     const file = formData.get("file") as File;
     const title = formData.get("title") as string;
@@ -182,7 +221,7 @@ export async function uploadAIDocument(formData: FormData): Promise<ActionResult
         classId,
         subjectId,
         uploadedBy: userId,
-        uploadedByRole: teacher ? "teacher" : "admin",
+        uploadedByRole: actor.role,
         isPublic,
       }
     );
@@ -211,13 +250,15 @@ export async function uploadAIDocument(formData: FormData): Promise<ActionResult
  */
 export async function deleteAIDocument(documentId: string): Promise<ActionResult> {
   try {
-    const { userId } = await auth();
+    const actor = await authorize("aiDocument", "delete", { id: documentId });
 
-    if (!userId) {
-      return { success: false, error: true, message: "Unauthorized" };
+    if (!actor) {
+      return FORBIDDEN;
     }
 
-    await deleteDocument(documentId, userId);
+    const { userId } = actor;
+
+    await deleteDocument(documentId, userId, actor.role);
 
     revalidatePath("/teacher/playground/documents");
     revalidatePath("/admin/playground/documents");
@@ -251,13 +292,15 @@ export async function updateAIDocument(
   }
 ): Promise<ActionResult> {
   try {
-    const { userId } = await auth();
+    const actor = await authorize("aiDocument", "update", { id: documentId });
 
-    if (!userId) {
-      return { success: false, error: true, message: "Unauthorized" };
+    if (!actor) {
+      return FORBIDDEN;
     }
 
-    const result = await updateDocumentMetadata(documentId, userId, updates);
+    const { userId } = actor;
+
+    const result = await updateDocumentMetadata(documentId, userId, actor.role, updates);
 
     revalidatePath("/teacher/playground/documents");
     revalidatePath("/admin/playground/documents");
@@ -292,21 +335,13 @@ export async function generateQuiz(
   }
 ): Promise<ActionResult> {
   try {
-    const { userId } = await auth();
+    const actor = await authorize("aiContent", "create");
 
-    if (!userId) {
-      return { success: false, error: true, message: "Unauthorized" };
+    if (!actor) {
+      return FORBIDDEN;
     }
 
-    // Check if user is teacher
-    const teacher = await prisma.teacher.findUnique({ where: { id: userId } });
-    if (!teacher) {
-      return {
-        success: false,
-        error: true,
-        message: "Only teachers can generate quizzes"
-      };
-    }
+    const { userId } = actor;
 
     // Create conversation for tracking
     const conversation = await prisma.aIConversation.create({
@@ -319,6 +354,7 @@ export async function generateQuiz(
         gradeLevel: options.gradeLevel,
       },
     });
+    await audit({ entity: "AIConversation", action: "CREATE", after: conversation });
 
     // Build prompt for quiz generation
     const prompt = `Generate a quiz on the topic: "${topic}"
@@ -399,6 +435,11 @@ Format the output as JSON with this structure:
         format: "json",
       },
     });
+    await audit({
+      entity: "AIGeneratedContent",
+      action: "CREATE",
+      after: generatedContent,
+    });
 
     return {
       success: true,
@@ -434,21 +475,13 @@ export async function generateExam(
   }
 ): Promise<ActionResult> {
   try {
-    const { userId } = await auth();
+    const actor = await authorize("aiContent", "create");
 
-    if (!userId) {
-      return { success: false, error: true, message: "Unauthorized" };
+    if (!actor) {
+      return FORBIDDEN;
     }
 
-    // Check if user is teacher
-    const teacher = await prisma.teacher.findUnique({ where: { id: userId } });
-    if (!teacher) {
-      return {
-        success: false,
-        error: true,
-        message: "Only teachers can generate exams"
-      };
-    }
+    const { userId } = actor;
 
     // Create conversation
     const conversation = await prisma.aIConversation.create({
@@ -461,6 +494,7 @@ export async function generateExam(
         gradeLevel: options.gradeLevel,
       },
     });
+    await audit({ entity: "AIConversation", action: "CREATE", after: conversation });
 
     // Build prompt
     const prompt = `Generate a comprehensive exam covering these topics: ${topics.join(", ")}
@@ -485,7 +519,17 @@ Format as JSON:
       "points": 30
     }
   ],
-  "answerKey": {...}
+  "answerKey": {...},
+  "rubric": {
+    "title": "Essay rubric",
+    "criteria": [
+      {
+        "title": "Criterion",
+        "description": "What it looks at",
+        "levels": [{ "title": "Level", "description": "What earns it", "points": 4 }]
+      }
+    ]
+  }
 }`;
 
     // Execute RAG workflow
@@ -539,6 +583,11 @@ Format as JSON:
         format: "json",
       },
     });
+    await audit({
+      entity: "AIGeneratedContent",
+      action: "CREATE",
+      after: generatedContent,
+    });
 
     return {
       success: true,
@@ -574,13 +623,17 @@ export async function submitAIFeedback(
   }
 ): Promise<ActionResult> {
   try {
-    const { userId } = await auth();
+    const actor = await authorize("aiConversation", "update", {
+      id: conversationId,
+    });
 
-    if (!userId) {
-      return { success: false, error: true, message: "Unauthorized" };
+    if (!actor) {
+      return FORBIDDEN;
     }
 
-    await prisma.aIFeedback.create({
+    const { userId } = actor;
+
+    const created = await prisma.aIFeedback.create({
       data: {
         conversationId,
         messageId,
@@ -591,6 +644,7 @@ export async function submitAIFeedback(
         correctedAnswer: feedback.correctedAnswer,
       },
     });
+    await audit({ entity: "AIFeedback", action: "CREATE", after: created });
 
     // Log feedback event
     await logAnalytics({
@@ -625,12 +679,14 @@ export async function getConversationHistory(
   offset: number = 0
 ): Promise<ActionResult> {
   try {
-    const { userId } = await auth();
+    const actor = await authorize("aiConversation", "read");
 
-    if (!userId) {
-      return { success: false, error: true, message: "Unauthorized" };
+    if (!actor) {
+      return FORBIDDEN;
     }
 
+    const { userId } = actor;
+
     const conversations = await prisma.aIConversation.findMany({
       where: { userId },
       orderBy: { updatedAt: "desc" },
@@ -669,22 +725,23 @@ export async function getConversationMessages(
   conversationId: string
 ): Promise<ActionResult> {
   try {
-    const { userId } = await auth();
+    const actor = await authorize("aiConversation", "read", { id: conversationId });
 
-    if (!userId) {
-      return { success: false, error: true, message: "Unauthorized" };
+    if (!actor) {
+      return FORBIDDEN;
     }
 
-    // Verify ownership
+    const { userId } = actor;
+
     const conversation = await prisma.aIConversation.findUnique({
       where: { id: conversationId },
     });
 
-    if (!conversation || conversation.userId !== userId) {
+    if (!conversation) {
       return {
         success: false,
         error: true,
-        message: "Conversation not found or unauthorized"
+        message: "Conversation not found"
       };
     }
 
@@ -721,28 +778,18 @@ export async function deleteConversation(
   conversationId: string
 ): Promise<ActionResult> {
   try {
-    const { userId } = await auth();
+    const actor = await authorize("aiConversation", "delete", { id: conversationId });
 
-    if (!userId) {
-      return { success: false, error: true, message: "Unauthorized" };
+    if (!actor) {
+      return FORBIDDEN;
     }
 
-    // Verify ownership
-    const conversation = await prisma.aIConversation.findUnique({
-      where: { id: conversationId },
-    });
-
-    if (!conversation || conversation.userId !== userId) {
-      return {
-        success: false,
-        error: true,
-        message: "Conversation not found or unauthorized"
-      };
-    }
+    const { userId } = actor;
 
-    await prisma.aIConversation.delete({
+    const conversation = await prisma.aIConversation.delete({
       where: { id: conversationId },
     });
+    await audit({ entity: "AIConversation", action: "DELETE", before: conversation });
 
     revalidatePath("/teacher/playground");
     revalidatePath("/student/playground");
@@ -773,28 +820,17 @@ export async function getUserAIDocuments(
   }
 ): Promise<ActionResult> {
   try {
-    const { userId } = await auth();
+    const actor = await authorize("aiDocument", "read");
 
-    if (!userId) {
-      return { success: false, error: true, message: "Unauthorized" };
+    if (!actor) {
+      return FORBIDDEN;
     }
 
-    // Determine user role
-    const teacher = await prisma.teacher.findUnique({ where: { id: userId } });
-    const student = await prisma.student.findUnique({ where: { id: userId } });
-    const admin = await prisma.admin.findUnique({ where: { id: userId } });
-
-    let userRole: "teacher" | "student" | "admin";
-    if (teacher) userRole = "teacher";
-    else if (admin) userRole = "admin";
-    else if (student) userRole = "student";
-    else {
-      return { success: false, error: true, message: "User not found" };
-    }
+    const { userId } = actor;
 
     const whereClause: any = {};
 
-    if (userRole === "teacher" || userRole === "admin") {
+    if (actor.role === "teacher" || actor.role === "admin") {
       whereClause.uploadedBy = userId;
     } else {
       whereClause.isPublic = true;
@@ -836,12 +872,14 @@ export async function getGeneratedContent(
   type?: "quiz" | "exam" | "slide" | "poster"
 ): Promise<ActionResult> {
   try {
-    const { userId } = await auth();
+    const actor = await authorize("aiContent", "read");
 
-    if (!userId) {
-      return { success: false, error: true, message: "Unauthorized" };
+    if (!actor) {
+      return FORBIDDEN;
     }
 
+    const { userId } = actor;
+
     const whereClause: any = { createdBy: userId };
     if (type) whereClause.type = type;
 
@@ -873,3 +911,424 @@ export async function getGeneratedContent(
     };
   }
 }
+
+/**
+ * Publish a generated quiz or exam as an Exam on one of the teacher's lessons
+ */
+export async function publishGeneratedExam(
+  contentId: string,
+  schedule: { lessonId: number; startTime: Date; endTime: Date }
+): Promise<ActionResult> {
+  try {
+    const actor = await authorize("aiContent", "update", { id: contentId });
+
+    if (
+      !actor ||
+      !(await authorize("exam", "create", {
+        data: { lessonId: schedule.lessonId },
+      }))
+    ) {
+      return FORBIDDEN;
+    }
+
+    const startTime = new Date(schedule.startTime);
+    const endTime = new Date(schedule.endTime);
+    if (isNaN(startTime.getTime()) || isNaN(endTime.getTime())) {
+      return {
+        success: false,
+        error: true,
+        message: "Start and end time are required",
+      };
+    }
+    if (endTime <= startTime) {
+      return {
+        success: false,
+        error: true,
+        message: "The exam must end after it starts",
+      };
+    }
+
+    const content = await prisma.aIGeneratedContent.findUnique({
+      where: { id: contentId },
+      select: { type: true, examId: true },
+    });
+    if (!content || (content.type !== "quiz" && content.type !== "exam")) {
+      return {
+        success: false,
+        error: true,
+        message: "Only quizzes and exams can be published",
+      };
+    }
+    if (content.examId) {
+      return {
+        success: false,
+        error: true,
+        message: "This content is already published to an exam",
+      };
+    }
+
+    const { exam, content: linked, before } = await linkToExamModel(
+      contentId,
+      schedule.lessonId,
+      startTime,
+      endTime
+    );
+    await audit([
+      { entity: "Exam", action: "CREATE", after: exam },
+      {
+        entity: "AIGeneratedContent",
+        action: "UPDATE",
+        before,
+        after: linked,
+      },
+    ]);
+    await notify({ type: "EXAM", examId: exam.id });
+
+    revalidatePath("/teacher/playground/content");
+
+    return {
+      success: true,
+      error: false,
+      message: "Published to the exam list",
+      data: { examId: exam.id },
+    };
+  } catch (error: any) {
+    console.error("Error publishing content:", error);
+    return {
+      success: false,
+      error: true,
+      message: error.message || "Failed to publish content",
+    };
+  }
+}
+
+/**
+ * Withdraw published content: its Exam is deleted and the content goes back
+ * to a draft. Once students have sat it, or have results for it, the exam is
+ * kept.
+ */
+export async function unpublishGeneratedExam(
+  contentId: string
+): Promise<ActionResult> {
+  try {
+    const actor = await authorize("aiContent", "update", { id: contentId });
+
+    if (!actor) {
+      return FORBIDDEN;
+    }
+
+    const before = await prisma.aIGeneratedContent.findUniqueOrThrow({
+      where: { id: contentId },
+      include: {
+        exam: {
+          include: { _count: { select: { attempts: true, results: true } } },
+        },
+      },
+    });
+    const { exam, ...contentBefore } = before;
+    if (!exam) {
+      return {
+        success: false,
+        error: true,
+        message: "This content isn't published",
+      };
+    }
+    if (exam._count.attempts || exam._count.results) {
+      return {
+        success: false,
+        error: true,
+        message: "Students have already sat this exam",
+      };
+    }
+
+    const { _count, ...examBefore } = exam;
+    const [content] = await prisma.$transaction(async (tx) => [
+      await tx.aIGeneratedContent.update({
+        where: { id: contentId },
+        data: { examId: null, isPublished: false },
+      }),
+      await tx.exam.delete({ where: { id: exam.id } }),
+    ]);
+    await audit([
+      {
+        entity: "AIGeneratedContent",
+        action: "UPDATE",
+        before: contentBefore,
+        after: content,
+      },
+      { entity: "Exam", action: "DELETE", before: examBefore },
+    ]);
+
+    revalidatePath("/teacher/playground/content");
+
+    return {
+      success: true,
+      error: false,
+      message: "Withdrawn from the exam list",
+    };
+  } catch (error: any) {
+    console.error("Error unpublishing content:", error);
+    return {
+      success: false,
+      error: true,
+      message: error.message || "Failed to unpublish content",
+    };
+  }
+}
+
+/**
+ * The rubric a submission or a test answer is graded against, with the task
+ * and the student's answer
+ */
+async function getRubricWork(target: RubricTarget) {
+  if ("submissionId" in target) {
+    const submission = await prisma.submission.findUnique({
+      where: { id: target.submissionId },
+      include: {
+        files: true,
+        assignment: { include: { rubric: { include: rubricInclude } } },
+      },
+    });
+    const rubric = submission?.assignment.rubric;
+    if (!submission || !rubric) return null;
+
+    return {
+      rubric,
+      task: submission.assignment.title,
+      answer: [
+        submission.text ?? "",
+        ...submission.files.map((file) => `Attached file: ${file.name}`),
+      ].join("\n"),
+    };
+  }
+
+  const attempt = await prisma.testAttempt.findUnique({
+    where: { id: target.attemptId },
+    include: {
+      exam: {
+        include: {
+          aiContent: {
+            include: {
+              rubrics: {
+                where: { questionId: target.questionId },
+                include: { rubric: { include: rubricInclude } },
+              },
+            },
+          },
+        },
+      },
+    },
+  });
+  const content = attempt?.exam.aiContent;
+  const question =
+    content &&
+    getTestQuestions(content).find((item) => item.id === target.questionId);
+  const rubric = content?.rubrics[0]?.rubric;
+  if (!attempt || !question || !rubric) return null;
+
+  return {
+    rubric,
+    task: question.question,
+    answer: (attempt.answers as TestAnswers)[question.id] ?? "",
+    modelAnswer: question.correctAnswer,
+  };
+}
+
+/**
+ * Suggest a rubric level per criterion, with the reasons, for a submission or
+ * a test answer. Suggestions are only saved as such: the grade comes from the
+ * levels the teacher confirms.
+ */
+export async function suggestRubricScores(
+  target: RubricTarget
+): Promise<ActionResult> {
+  try {
+    const actor =
+      "submissionId" in target
+        ? await authorize("submission", "update", { id: target.submissionId })
+        : await authorize("testAttempt", "update", { id: target.attemptId });
+
+    if (!actor) {
+      return FORBIDDEN;
+    }
+
+    const work = await getRubricWork(target);
+    if (!work) {
+      return {
+        success: false,
+        error: true,
+        message: "There is no rubric to grade this against",
+      };
+    }
+
+    const suggestions = await suggestRubricLevels(work.rubric, work);
+    if (!suggestions.length) {
+      return {
+        success: false,
+        error: true,
+        message: "No levels could be suggested",
+      };
+    }
+
+    const suggestedAt = new Date();
+    const { before, after } = await prisma.$transaction((tx) =>
+      saveRubricScores(
+        tx,
+        target,
+        suggestions.map((suggestion) => ({
+          criterionId: suggestion.criterionId,
+          suggestedLevelId: suggestion.levelId,
+          justification: suggestion.justification,
+          suggestedAt,
+        }))
+      )
+    );
+    await auditChanges("RubricScore", before, after);
+
+    return {
+      success: true,
+      error: false,
+      message: "Suggestions are ready for your review",
+      data: suggestions,
+    };
+  } catch (error: any) {
+    console.error("Error suggesting rubric scores:", error);
+    return {
+      success: false,
+      error: true,
+      message: error.message || "Failed to suggest rubric scores",
+    };
+  }
+}
+
+/**
+ * Attach a rubric to a short answer or essay question of generated content,
+ * or detach it with null
+ */
+export async function setQuestionRubric(
+  contentId: string,
+  questionId: string,
+  rubricId: number | null
+): Promise<ActionResult> {
+  try {
+    const actor = await authorize("aiContent", "update", { id: contentId });
+
+    if (!actor || (rubricId && !(await authorize("rubric", "read")))) {
+      return FORBIDDEN;
+    }
+
+    const content = await prisma.aIGeneratedContent.findUniqueOrThrow({
+      where: { id: contentId },
+    });
+    const question = getTestQuestions(content).find(
+      (item) => item.id === questionId
+    );
+    if (!question || isObjective(question)) {
+      return {
+        success: false,
+        error: true,
+        message: "Rubrics are for short answer and essay questions",
+      };
+    }
+
+    const where = { contentId_questionId: { contentId, questionId } };
+    const before = await prisma.questionRubric.findUnique({ where });
+
+    if (rubricId) {
+      const after = await prisma.questionRubric.upsert({
+        where,
+        create: { contentId, questionId, rubricId },
+        update: { rubricId },
+      });
+      await audit({
+        entity: "QuestionRubric",
+        action: before ? "UPDATE" : "CREATE",
+        before,
+        after,
+      });
+    } else if (before) {
+      await prisma.questionRubric.delete({ where });
+      await audit({ entity: "QuestionRubric", action: "DELETE", before });
+    }
+
+    revalidatePath(`/teacher/playground/content/${contentId}`);
+
+    return {
+      success: true,
+      error: false,
+      message: rubricId ? "Rubric attached" : "Rubric removed",
+    };
+  } catch (error: any) {
+    console.error("Error setting question rubric:", error);
+    return {
+      success: false,
+      error: true,
+      message: error.message || "Failed to set question rubric",
+    };
+  }
+}
+
+/**
+ * Save the rubric a generated exam came with as a Rubric, to attach to its
+ * questions and to assignments
+ */
+export async function saveGeneratedRubric(
+  contentId: string
+): Promise<ActionResult> {
+  try {
+    const actor = await authorize("aiContent", "update", { id: contentId });
+
+    if (!actor || !(await authorize("rubric", "create"))) {
+      return FORBIDDEN;
+    }
+
+    const content = await prisma.aIGeneratedContent.findUniqueOrThrow({
+      where: { id: contentId },
+    });
+    const definition = parseRubricDefinition(
+      (content.content as any)?.rubric,
+      `${content.title} rubric`
+    );
+    if (!definition) {
+      return {
+        success: false,
+        error: true,
+        message: "This content has no usable rubric",
+      };
+    }
+
+    const rubric = await prisma.rubric.create({
+      data: {
+        title: definition.title,
+        description: definition.description || null,
+        createdBy: actor.userId,
+        criteria: {
+          create: definition.criteria.map((criterion, position) => ({
+            title: criterion.title,
+            description: criterion.description || null,
+            position,
+            levels: { create: criterion.levels },
+          })),
+        },
+      },
+      include: rubricInclude,
+    });
+    await audit({ entity: "Rubric", action: "CREATE", after: rubric });
+
+    revalidatePath(`/teacher/playground/content/${contentId}`);
+
+    return {
+      success: true,
+      error: false,
+      message: "Rubric saved",
+      data: { rubricId: rubric.id },
+    };
+  } catch (error: any) {
+    console.error("Error saving generated rubric:", error);
+    return {
+      success: false,
+      error: true,
+      message: error.message || "Failed to save rubric",
+    };
+  }
+}
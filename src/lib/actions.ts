@@ -2,30 +2,142 @@
 
 import { revalidatePath } from "next/cache";
 import {
+  AcademicYearSchema,
+  AnnouncementSchema,
+  AssignmentSchema,
+  AttendanceRegisterSchema,
+  AttendanceSchema,
   ClassSchema,
+  CoverAssignmentSchema,
+  DiscountSchema,
+  EmergencyContactSchema,
+  EventSchema,
   ExamSchema,
+  ExpenseSchema,
+  FeeStructureSchema,
+  GradeScaleSchema,
+  GradeWeightSchema,
+  GuardianSchema,
+  HolidaySchema,
+  ImportMappingSchema,
+  InvoiceSchema,
+  LessonExceptionSchema,
+  LessonSchema,
+  NotificationPreferencesSchema,
+  ParentSchema,
+  PaymentSchema,
+  PeriodSchema,
+  ReportCardCommentSchema,
+  ReportCardGenerationSchema,
+  ReportCardPublishSchema,
+  ReportCardTemplateSchema,
+  ResultSchema,
+  RolloverSchema,
+  RoomSchema,
+  RubricSchema,
   StudentSchema,
+  SubjectHoursSchema,
+  SubmissionGradeSchema,
+  SubmissionSchema,
   SubjectSchema,
+  TeacherAbsenceSchema,
+  TeacherAvailabilitySchema,
   TeacherSchema,
+  TestAnswersSchema,
+  TestMarkSchema,
+  TimetableGenerationSchema,
 } from "./formValidationSchemas";
 import prisma from "./prisma";
 import { clerkClient } from "@clerk/nextjs/server";
+import { getLessonDay, getPeriodTimes, toDateOnly } from "./utils";
+import {
+  findLessonClashes,
+  getSolverInput,
+  LessonClash,
+  LessonSlot,
+  planDraftCommit,
+} from "./timetable";
+import { solveTimetable } from "./timetableSolver";
+import {
+  CalendarFilter,
+  getCalendarEvents,
+  isLessonCancelled,
+} from "./schedule";
+import { getCurrentAcademicYear, getTermForDate } from "./academicYear";
+import { canSubstitute } from "./substitution";
+import { ActionResult, authorize, FORBIDDEN } from "./policy";
+import {
+  describeImportError,
+  getMissingFields,
+  IMPORT_FIELDS,
+  ImportFileRow,
+  ImportMapping,
+  prepareImport,
+  readImportFile,
+  saveImportRow,
+  suggestMapping,
+} from "./bulkImport";
+import { Class, ImportEntity, Lesson, Period, Prisma } from "@prisma/client";
+import { generateClassReportCards } from "./reportCards";
+import { audit, auditChanges } from "./audit";
+import { isStillReferenced, runningLessons, TrashEntity } from "./trash";
+import {
+  formatMoney,
+  getInvoiceTotals,
+  planFeeInvoices,
+  roundMoney,
+} from "./finance";
+import { primaryGuardian, setPrimaryGuardian } from "./guardians";
+import { isEmailEnabled, sendEmail } from "./mailer";
+import { notify } from "./notifications";
+import { getSubmissionBlocker } from "./submissions";
+import {
+  finishTestAttempt,
+  getTestDeadline,
+  getTestDuration,
+  getTestQuestions,
+  isObjective,
+  isPastDeadline,
+  recordTestScore,
+  scaleScore,
+  shuffleTest,
+  TestAnswers,
+  TestLayout,
+  TestMarks,
+} from "./onlineTests";
+import {
+  getChosenLevels,
+  getRubricMaxPoints,
+  getRubricPoints,
+  rubricInclude,
+  saveRubricScores,
+} from "./rubrics";
 
-type CurrentState = { success: boolean; error: boolean };
+type CurrentState = ActionResult;
+
+// Another request created the same record at the same moment
+const isUniqueViolation = (err: unknown) =>
+  err instanceof Prisma.PrismaClientKnownRequestError && err.code === "P2002";
 
 export const createSubject = async (
   currentState: CurrentState,
   data: SubjectSchema
 ) => {
   try {
-    await prisma.subject.create({
+    if (!(await authorize("subject", "create", { data }))) {
+      return FORBIDDEN;
+    }
+
+    const subject = await prisma.subject.create({
       data: {
         name: data.name,
         teachers: {
           connect: data.teachers.map((teacherId) => ({ id: teacherId })),
         },
       },
+      include: { teachers: { select: { id: true } } },
     });
+    await audit({ entity: "Subject", action: "CREATE", after: subject });
 
     // revalidatePath("/list/subjects");
     return { success: true, error: false };
@@ -40,7 +152,16 @@ export const updateSubject = async (
   data: SubjectSchema
 ) => {
   try {
-    await prisma.subject.update({
+    if (!(await authorize("subject", "update", { id: data.id, data }))) {
+      return FORBIDDEN;
+    }
+
+    const before = await prisma.subject.findUnique({
+      where: { id: data.id },
+      include: { teachers: { select: { id: true } } },
+    });
+
+    const subject = await prisma.subject.update({
       where: {
         id: data.id,
       },
@@ -50,6 +171,13 @@ export const updateSubject = async (
           set: data.teachers.map((teacherId) => ({ id: teacherId })),
         },
       },
+      include: { teachers: { select: { id: true } } },
+    });
+    await audit({
+      entity: "Subject",
+      action: "UPDATE",
+      before,
+      after: subject,
     });
 
     // revalidatePath("/list/subjects");
@@ -66,11 +194,16 @@ export const deleteSubject = async (
 ) => {
   const id = data.get("id") as string;
   try {
-    await prisma.subject.delete({
+    if (!(await authorize("subject", "delete", { id }))) {
+      return FORBIDDEN;
+    }
+
+    const subject = await prisma.subject.delete({
       where: {
         id: parseInt(id),
       },
     });
+    await audit({ entity: "Subject", action: "DELETE", before: subject });
 
     // revalidatePath("/list/subjects");
     return { success: true, error: false };
@@ -85,9 +218,25 @@ export const createClass = async (
   data: ClassSchema
 ) => {
   try {
-    await prisma.class.create({
-      data,
+    if (!(await authorize("class", "create", { data }))) {
+      return FORBIDDEN;
+    }
+
+    // New classes always belong to the current academic year
+    const academicYear = await getCurrentAcademicYear();
+
+    if (!academicYear) {
+      return { success: false, error: true };
+    }
+
+    const created = await prisma.class.create({
+      data: {
+        ...data,
+        gradeScaleId: data.gradeScaleId || null,
+        academicYearId: academicYear.id,
+      },
     });
+    await audit({ entity: "Class", action: "CREATE", after: created });
 
     // revalidatePath("/list/class");
     return { success: true, error: false };
@@ -102,12 +251,19 @@ export const updateClass = async (
   data: ClassSchema
 ) => {
   try {
-    await prisma.class.update({
+    if (!(await authorize("class", "update", { id: data.id, data }))) {
+      return FORBIDDEN;
+    }
+
+    const before = await prisma.class.findUnique({ where: { id: data.id } });
+
+    const updated = await prisma.class.update({
       where: {
         id: data.id,
       },
-      data,
+      data: { ...data, gradeScaleId: data.gradeScaleId || null },
     });
+    await audit({ entity: "Class", action: "UPDATE", before, after: updated });
 
     // revalidatePath("/list/class");
     return { success: true, error: false };
@@ -117,17 +273,184 @@ export const updateClass = async (
   }
 };
 
+// Lessons moving to another teacher or class must fit into their timetable.
+// Describes each clash of the moved lessons with the target's own lessons.
+const findMoveClashes = async (
+  lessons: Lesson[],
+  target: { teacherId: string } | { classId: number },
+  kind: LessonClash["kind"]
+) => {
+  const clashes: string[] = [];
+  for (const lesson of lessons) {
+    for (const clash of await findLessonClashes({ ...lesson, ...target })) {
+      if (clash.kind === kind) {
+        clashes.push(
+          `${lesson.name} on ${lesson.day} clashes with ${clash.lessonName} (${clash.className})`
+        );
+      }
+    }
+  }
+  return clashes;
+};
+
+const moveClashes = (clashes: string[]): ActionResult => ({
+  success: false,
+  error: true,
+  message: `The lessons can't move: ${clashes.join("; ")}`,
+});
+
+// Moves the class to the trash. Its students and running lessons move to
+// another class of the same year or, as the admin chose, to the trash with it
+// and into the past.
 export const deleteClass = async (
   currentState: CurrentState,
   data: FormData
 ) => {
   const id = data.get("id") as string;
+  const studentsTo = data.get("students") as string | null;
+  const lessonsTo = data.get("lessons") as string | null;
   try {
-    await prisma.class.delete({
-      where: {
-        id: parseInt(id),
+    if (!(await authorize("class", "delete", { id }))) {
+      return FORBIDDEN;
+    }
+
+    const found = await prisma.class.findUnique({
+      where: { id: parseInt(id) },
+      include: {
+        students: { where: { deletedAt: null } },
+        lessons: { where: runningLessons() },
       },
     });
+    if (!found) {
+      return { success: false, error: true };
+    }
+    const { students, lessons, ...before } = found;
+
+    if (
+      (students.length && !studentsTo) ||
+      (lessons.length && !lessonsTo)
+    ) {
+      return {
+        success: false,
+        error: true,
+        message: "Choose what happens to the students and lessons",
+      };
+    }
+
+    // Another class of the same year, not in the trash
+    const findTarget = (to: string | null) =>
+      to && to !== "archive"
+        ? prisma.class.findFirst({
+            where: {
+              id: { equals: parseInt(to), not: before.id },
+              academicYearId: before.academicYearId,
+              deletedAt: null,
+            },
+            include: {
+              _count: { select: { students: { where: { deletedAt: null } } } },
+            },
+          })
+        : null;
+    const studentTarget = await findTarget(studentsTo);
+    const lessonTarget = await findTarget(lessonsTo);
+
+    if (
+      (studentsTo !== "archive" && students.length && !studentTarget) ||
+      (lessonsTo !== "archive" && lessons.length && !lessonTarget)
+    ) {
+      return {
+        success: false,
+        error: true,
+        message: "Choose another class of the same year",
+      };
+    }
+    if (
+      studentTarget &&
+      studentTarget._count.students + students.length > studentTarget.capacity
+    ) {
+      const room = studentTarget.capacity - studentTarget._count.students;
+      return {
+        success: false,
+        error: true,
+        message: `Class ${studentTarget.name} has room for ${room} more students`,
+      };
+    }
+
+    if (lessonTarget) {
+      const clashes = await findMoveClashes(
+        lessons,
+        { classId: lessonTarget.id },
+        "class"
+      );
+      if (clashes.length) {
+        return moveClashes(clashes);
+      }
+    }
+
+    const studentIds = students.map((student) => student.id);
+    const lessonIds = lessons.map((lesson) => lesson.id);
+    const now = new Date();
+
+    const after = await prisma.$transaction(async (tx) => {
+      if (studentTarget) {
+        const moved = {
+          classId: studentTarget.id,
+          gradeId: studentTarget.gradeId,
+        };
+        await tx.student.updateMany({
+          where: { id: { in: studentIds } },
+          data: moved,
+        });
+        await tx.enrollment.updateMany({
+          where: {
+            studentId: { in: studentIds },
+            academicYearId: before.academicYearId,
+          },
+          data: moved,
+        });
+      } else {
+        await tx.student.updateMany({
+          where: { id: { in: studentIds } },
+          data: { deletedAt: now },
+        });
+      }
+
+      await tx.lesson.updateMany({
+        where: { id: { in: lessonIds } },
+        data: lessonTarget
+          ? { classId: lessonTarget.id }
+          : { validUntil: toDateOnly(now) },
+      });
+
+      return {
+        classItem: await tx.class.update({
+          where: { id: before.id },
+          data: { deletedAt: now },
+        }),
+        students: await tx.student.findMany({
+          where: { id: { in: studentIds } },
+        }),
+        lessons: await tx.lesson.findMany({ where: { id: { in: lessonIds } } }),
+      };
+    });
+
+    // Students in the trash can't sign in until they're restored
+    if (!studentTarget) {
+      for (const studentId of studentIds) {
+        await clerkClient.users.banUser(studentId);
+      }
+    }
+
+    await prisma.$transaction([
+      audit({
+        entity: "Class",
+        action: "UPDATE",
+        before,
+        after: after.classItem,
+      }),
+      auditChanges("Student", students, after.students),
+      auditChanges("Lesson", lessons, after.lessons),
+    ]);
 
     // revalidatePath("/list/class");
     return { success: true, error: false };
@@ -142,6 +465,10 @@ export const createTeacher = async (
   data: TeacherSchema
 ) => {
   try {
+    if (!(await authorize("teacher", "create", { data }))) {
+      return FORBIDDEN;
+    }
+
     const user = await clerkClient.users.createUser({
       username: data.username,
       password: data.password,
@@ -150,7 +477,7 @@ export const createTeacher = async (
       publicMetadata:{role:"teacher"}
     });
 
-    await prisma.teacher.create({
+    const teacher = await prisma.teacher.create({
       data: {
         id: user.id,
         username: data.username,
@@ -169,7 +496,9 @@ export const createTeacher = async (
           })),
         },
       },
+      include: { subjects: { select: { id: true } } },
     });
+    await audit({ entity: "Teacher", action: "CREATE", after: teacher });
 
     // revalidatePath("/list/teachers");
     return { success: true, error: false };
@@ -187,6 +516,10 @@ export const updateTeacher = async (
     return { success: false, error: true };
   }
   try {
+    if (!(await authorize("teacher", "update", { id: data.id, data }))) {
+      return FORBIDDEN;
+    }
+
     const user = await clerkClient.users.updateUser(data.id, {
       username: data.username,
       ...(data.password !== "" && { password: data.password }),
@@ -194,7 +527,12 @@ export const updateTeacher = async (
       lastName: data.surname,
     });
 
-    await prisma.teacher.update({
+    const before = await prisma.teacher.findUnique({
+      where: { id: data.id },
+      include: { subjects: { select: { id: true } } },
+    });
+
+    const teacher = await prisma.teacher.update({
       where: {
         id: data.id,
       },
@@ -216,6 +554,13 @@ export const updateTeacher = async (
           })),
         },
       },
+      include: { subjects: { select: { id: true } } },
+    });
+    await audit({
+      entity: "Teacher",
+      action: "UPDATE",
+      before,
+      after: teacher,
     });
     // revalidatePath("/list/teachers");
     return { success: true, error: false };
@@ -225,19 +570,131 @@ export const updateTeacher = async (
   }
 };
 
+// Moves the teacher to the trash and bans their account. Their running lessons
+// and supervised classes go to another teacher or, as the admin chose, the
+// lessons end and the classes lose their supervisor.
 export const deleteTeacher = async (
   currentState: CurrentState,
   data: FormData
 ) => {
   const id = data.get("id") as string;
+  const lessonsTo = data.get("lessons") as string | null;
+  const classesTo = data.get("classes") as string | null;
   try {
-    await clerkClient.users.deleteUser(id);
+    if (!(await authorize("teacher", "delete", { id }))) {
+      return FORBIDDEN;
+    }
 
-    await prisma.teacher.delete({
-      where: {
-        id: id,
+    const found = await prisma.teacher.findUnique({
+      where: { id },
+      include: {
+        subjects: { select: { id: true } },
+        lessons: { where: runningLessons() },
+        classes: { where: { deletedAt: null } },
       },
     });
+    if (!found) {
+      return { success: false, error: true };
+    }
+    const { lessons, classes, ...before } = found;
+
+    if ((lessons.length && !lessonsTo) || (classes.length && !classesTo)) {
+      return {
+        success: false,
+        error: true,
+        message: "Choose what happens to the lessons and classes",
+      };
+    }
+
+    const findTarget = (to: string | null) =>
+      to && to !== "archive"
+        ? prisma.teacher.findFirst({
+            where: { id: { equals: to, not: id }, deletedAt: null },
+          })
+        : null;
+    const lessonTarget = await findTarget(lessonsTo);
+    const classTarget = await findTarget(classesTo);
+
+    if (
+      (lessonsTo !== "archive" && lessons.length && !lessonTarget) ||
+      (classesTo !== "archive" && classes.length && !classTarget)
+    ) {
+      return {
+        success: false,
+        error: true,
+        message: "Choose another teacher",
+      };
+    }
+
+    if (lessonTarget) {
+      // The new teacher must teach the lessons' subjects and be free for them
+      const { subjects } = await prisma.teacher.findUniqueOrThrow({
+        where: { id: lessonTarget.id },
+        select: { subjects: { select: { id: true } } },
+      });
+      const unqualified = lessons.filter(
+        (lesson) =>
+          !subjects.some((subject) => subject.id === lesson.subjectId)
+      );
+      if (unqualified.length) {
+        return {
+          success: false,
+          error: true,
+          message: `${lessonTarget.name} ${lessonTarget.surname} doesn't teach the subject of ${unqualified
+            .map((lesson) => lesson.name)
+            .join(", ")}`,
+        };
+      }
+
+      const clashes = await findMoveClashes(
+        lessons,
+        { teacherId: lessonTarget.id },
+        "teacher"
+      );
+      if (clashes.length) {
+        return moveClashes(clashes);
+      }
+    }
+
+    const lessonIds = lessons.map((lesson) => lesson.id);
+    const classIds = classes.map((classItem) => classItem.id);
+    const now = new Date();
+
+    const after = await prisma.$transaction(async (tx) => {
+      await tx.lesson.updateMany({
+        where: { id: { in: lessonIds } },
+        data: lessonTarget
+          ? { teacherId: lessonTarget.id }
+          : { validUntil: toDateOnly(now) },
+      });
+      await tx.class.updateMany({
+        where: { id: { in: classIds } },
+        data: { supervisorId: classTarget?.id ?? null },
+      });
+
+      return {
+        teacher: await tx.teacher.update({
+          where: { id },
+          data: { deletedAt: now },
+          include: { subjects: { select: { id: true } } },
+        }),
+        lessons: await tx.lesson.findMany({ where: { id: { in: lessonIds } } }),
+        classes: await tx.class.findMany({ where: { id: { in: classIds } } }),
+      };
+    });
+
+    await clerkClient.users.banUser(id);
+
+    await prisma.$transaction([
+      audit({
+        entity: "Teacher",
+        action: "UPDATE",
+        before,
+        after: after.teacher,
+      }),
+      auditChanges("Lesson", lessons, after.lessons),
+      auditChanges("Class", classes, after.classes),
+    ]);
 
     // revalidatePath("/list/teachers");
     return { success: true, error: false };
@@ -253,9 +710,15 @@ export const createStudent = async (
 ) => {
   console.log(data);
   try {
+    if (!(await authorize("student", "create", { data }))) {
+      return FORBIDDEN;
+    }
+
     const classItem = await prisma.class.findUnique({
       where: { id: data.classId },
-      include: { _count: { select: { students: true } } },
+      include: {
+        _count: { select: { students: { where: { deletedAt: null } } } },
+      },
     });
 
     if (classItem && classItem.capacity === classItem._count.students) {
@@ -270,7 +733,7 @@ export const createStudent = async (
       publicMetadata:{role:"student"}
     });
 
-    await prisma.student.create({
+    const { guardians, ...student } = await prisma.student.create({
       data: {
         id: user.id,
         username: data.username,
@@ -285,9 +748,29 @@ export const createStudent = async (
         birthday: data.birthday,
         gradeId: data.gradeId,
         classId: data.classId,
-        parentId: data.parentId,
+        guardians: {
+          create: {
+            parentId: data.parentId,
+            relationship: data.relationship,
+            isPrimary: true,
+          },
+        },
+        enrollments: classItem
+          ? {
+              create: {
+                classId: data.classId,
+                gradeId: data.gradeId,
+                academicYearId: classItem.academicYearId,
+              },
+            }
+          : undefined,
       },
+      include: { guardians: true },
     });
+    await prisma.$transaction([
+      audit({ entity: "Student", action: "CREATE", after: student }),
+      auditChanges("Guardian", [], guardians),
+    ]);
 
     // revalidatePath("/list/students");
     return { success: true, error: false };
@@ -305,6 +788,10 @@ export const updateStudent = async (
     return { success: false, error: true };
   }
   try {
+    if (!(await authorize("student", "update", { id: data.id, data }))) {
+      return FORBIDDEN;
+    }
+
     const user = await clerkClient.users.updateUser(data.id, {
       username: data.username,
       ...(data.password !== "" && { password: data.password }),
@@ -312,7 +799,17 @@ export const updateStudent = async (
       lastName: data.surname,
     });
 
-    await prisma.student.update({
+    const classItem = await prisma.class.findUnique({
+      where: { id: data.classId },
+    });
+
+    if (!classItem) {
+      return { success: false, error: true };
+    }
+
+    const before = await prisma.student.findUnique({ where: { id: data.id } });
+
+    const student = await prisma.student.update({
       where: {
         id: data.id,
       },
@@ -330,9 +827,37 @@ export const updateStudent = async (
         birthday: data.birthday,
         gradeId: data.gradeId,
         classId: data.classId,
-        parentId: data.parentId,
+        // Keep the enrollment of the class's year in step with the student
+        enrollments: {
+          upsert: {
+            where: {
+              studentId_academicYearId: {
+                studentId: data.id,
+                academicYearId: classItem.academicYearId,
+              },
+            },
+            create: {
+              classId: data.classId,
+              gradeId: data.gradeId,
+              academicYearId: classItem.academicYearId,
+            },
+            update: { classId: data.classId, gradeId: data.gradeId },
+          },
+        },
       },
     });
+    const guardians = await prisma.$transaction((tx) =>
+      setPrimaryGuardian(tx, student.id, data.parentId, data.relationship)
+    );
+    await prisma.$transaction([
+      audit({
+        entity: "Student",
+        action: "UPDATE",
+        before,
+        after: student,
+      }),
+      auditChanges("Guardian", guardians.before, guardians.after),
+    ]);
     // revalidatePath("/list/students");
     return { success: true, error: false };
   } catch (err) {
@@ -341,19 +866,28 @@ export const updateStudent = async (
   }
 };
 
+// Moves the student to the trash and bans their account. Results, attendance
+// and report cards stay with them.
 export const deleteStudent = async (
   currentState: CurrentState,
   data: FormData
 ) => {
   const id = data.get("id") as string;
   try {
-    await clerkClient.users.deleteUser(id);
+    if (!(await authorize("student", "delete", { id }))) {
+      return FORBIDDEN;
+    }
+
+    const before = await prisma.student.findUnique({ where: { id } });
 
-    await prisma.student.delete({
+    const student = await prisma.student.update({
       where: {
         id: id,
       },
+      data: { deletedAt: new Date() },
     });
+    await clerkClient.users.banUser(id);
+    await audit({ entity: "Student", action: "UPDATE", before, after: student });
 
     // revalidatePath("/list/students");
     return { success: true, error: false };
@@ -367,31 +901,22 @@ export const createExam = async (
   currentState: CurrentState,
   data: ExamSchema
 ) => {
-  // const { userId, sessionClaims } = auth();
-  // const role = (sessionClaims?.metadata as { role?: string })?.role;
-
   try {
-    // if (role === "teacher") {
-    //   const teacherLesson = await prisma.lesson.findFirst({
-    //     where: {
-    //       teacherId: userId!,
-    //       id: data.lessonId,
-    //     },
-    //   });
-
-    //   if (!teacherLesson) {
-    //     return { success: false, error: true };
-    //   }
-    // }
+    if (!(await authorize("exam", "create", { data }))) {
+      return FORBIDDEN;
+    }
 
-    await prisma.exam.create({
+    const exam = await prisma.exam.create({
       data: {
         title: data.title,
         startTime: data.startTime,
         endTime: data.endTime,
+        maxScore: data.maxScore,
         lessonId: data.lessonId,
       },
     });
+    await audit({ entity: "Exam", action: "CREATE", after: exam });
+    await notify({ type: "EXAM", examId: exam.id });
 
     // revalidatePath("/list/subjects");
     return { success: true, error: false };
@@ -401,28 +926,40 @@ export const createExam = async (
   }
 };
 
+// Generated content published to an exam carries the exam's title
+const syncContentTitle = async (exam: { id: number; title: string }) => {
+  const before = await prisma.aIGeneratedContent.findUnique({
+    where: { examId: exam.id },
+  });
+  if (!before || before.title === exam.title) return;
+
+  const content = await prisma.aIGeneratedContent.update({
+    where: { id: before.id },
+    data: { title: exam.title },
+  });
+  await audit({
+    entity: "AIGeneratedContent",
+    action: "UPDATE",
+    before,
+    after: content,
+  });
+};
+
 export const updateExam = async (
   currentState: CurrentState,
   data: ExamSchema
 ) => {
-  // const { userId, sessionClaims } = auth();
-  // const role = (sessionClaims?.metadata as { role?: string })?.role;
-
   try {
-    // if (role === "teacher") {
-    //   const teacherLesson = await prisma.lesson.findFirst({
-    //     where: {
-    //       teacherId: userId!,
-    //       id: data.lessonId,
-    //     },
-    //   });
+    if (!(await authorize("exam", "update", { id: data.id, data }))) {
+      return FORBIDDEN;
+    }
 
-    //   if (!teacherLesson) {
-    //     return { success: false, error: true };
-    //   }
-    // }
+    const [before, resultsBefore] = await Promise.all([
+      prisma.exam.findUnique({ where: { id: data.id } }),
+      prisma.result.findMany({ where: { examId: data.id } }),
+    ]);
 
-    await prisma.exam.update({
+    const exam = await prisma.exam.update({
       where: {
         id: data.id,
       },
@@ -430,9 +967,29 @@ export const updateExam = async (
         title: data.title,
         startTime: data.startTime,
         endTime: data.endTime,
+        maxScore: data.maxScore,
         lessonId: data.lessonId,
       },
     });
+    await audit({ entity: "Exam", action: "UPDATE", before, after: exam });
+    if (before?.title !== exam.title) {
+      await syncContentTitle(exam);
+    }
+    if (before?.startTime.getTime() !== exam.startTime.getTime()) {
+      await notify({ type: "EXAM", examId: exam.id, rescheduled: true });
+    }
+
+    // Moving the exam can move its results into another term
+    const term = await getTermForDate(data.startTime);
+    await prisma.result.updateMany({
+      where: { examId: data.id },
+      data: { termId: term?.id ?? null },
+    });
+    await auditChanges(
+      "Result",
+      resultsBefore,
+      await prisma.result.findMany({ where: { examId: data.id } })
+    );
 
     // revalidatePath("/list/subjects");
     return { success: true, error: false };
@@ -448,21 +1005,4804 @@ export const deleteExam = async (
 ) => {
   const id = data.get("id") as string;
 
-  // const { userId, sessionClaims } = auth();
-  // const role = (sessionClaims?.metadata as { role?: string })?.role;
+  try {
+    if (!(await authorize("exam", "delete", { id }))) {
+      return FORBIDDEN;
+    }
+
+    // Generated content published to the exam goes back to a draft
+    const contentBefore = await prisma.aIGeneratedContent.findUnique({
+      where: { examId: parseInt(id) },
+    });
+
+    const [content, exam] = await prisma.$transaction(async (tx) => [
+      contentBefore &&
+        (await tx.aIGeneratedContent.update({
+          where: { id: contentBefore.id },
+          data: { examId: null, isPublished: false },
+        })),
+      await tx.exam.delete({
+        where: {
+          id: parseInt(id),
+        },
+      }),
+    ]);
+    await audit({ entity: "Exam", action: "DELETE", before: exam });
+    if (content) {
+      await audit({
+        entity: "AIGeneratedContent",
+        action: "UPDATE",
+        before: contentBefore,
+        after: content,
+      });
+    }
+
+    // revalidatePath("/list/subjects");
+    return { success: true, error: false };
+  } catch (err) {
+    console.log(err);
+    return { success: false, error: true };
+  }
+};
+
+export const createParent = async (
+  currentState: CurrentState,
+  data: ParentSchema
+) => {
+  try {
+    if (!(await authorize("parent", "create", { data }))) {
+      return FORBIDDEN;
+    }
+
+    const user = await clerkClient.users.createUser({
+      username: data.username,
+      password: data.password,
+      firstName: data.name,
+      lastName: data.surname,
+      publicMetadata: { role: "parent" },
+    });
+
+    const parent = await prisma.parent.create({
+      data: {
+        id: user.id,
+        username: data.username,
+        name: data.name,
+        surname: data.surname,
+        email: data.email || null,
+        phone: data.phone,
+        address: data.address,
+      },
+    });
+    await audit({ entity: "Parent", action: "CREATE", after: parent });
+
+    // revalidatePath("/list/parents");
+    return { success: true, error: false };
+  } catch (err) {
+    console.log(err);
+    return { success: false, error: true };
+  }
+};
 
+export const updateParent = async (
+  currentState: CurrentState,
+  data: ParentSchema
+) => {
+  if (!data.id) {
+    return { success: false, error: true };
+  }
   try {
-    await prisma.exam.delete({
+    if (!(await authorize("parent", "update", { id: data.id, data }))) {
+      return FORBIDDEN;
+    }
+
+    await clerkClient.users.updateUser(data.id, {
+      username: data.username,
+      ...(data.password !== "" && { password: data.password }),
+      firstName: data.name,
+      lastName: data.surname,
+    });
+
+    const before = await prisma.parent.findUnique({ where: { id: data.id } });
+
+    const parent = await prisma.parent.update({
       where: {
-        id: parseInt(id),
-        // ...(role === "teacher" ? { lesson: { teacherId: userId! } } : {}),
+        id: data.id,
+      },
+      data: {
+        username: data.username,
+        name: data.name,
+        surname: data.surname,
+        email: data.email || null,
+        phone: data.phone,
+        address: data.address,
       },
     });
+    await audit({ entity: "Parent", action: "UPDATE", before, after: parent });
+    // revalidatePath("/list/parents");
+    return { success: true, error: false };
+  } catch (err) {
+    console.log(err);
+    return { success: false, error: true };
+  }
+};
 
-    // revalidatePath("/list/subjects");
+export const deleteParent = async (
+  currentState: CurrentState,
+  data: FormData
+) => {
+  const id = data.get("id") as string;
+  try {
+    if (!(await authorize("parent", "delete", { id }))) {
+      return FORBIDDEN;
+    }
+
+    // Guardianships and invoices keep the parent, remove them first
+    const links = await prisma.parent.findUnique({
+      where: { id },
+      select: { _count: { select: { children: true, invoices: true } } },
+    });
+    if (links?._count.children || links?._count.invoices) {
+      return {
+        success: false,
+        error: true,
+        message: links._count.children
+          ? "This parent is still a guardian, remove them from their students first"
+          : "This parent has invoices, so it can't be deleted",
+      };
+    }
+
+    // The login goes once the record is gone, so a failed delete keeps both
+    const parent = await prisma.parent.delete({
+      where: {
+        id: id,
+      },
+    });
+    await clerkClient.users.deleteUser(id);
+    await audit({ entity: "Parent", action: "DELETE", before: parent });
+
+    // revalidatePath("/list/parents");
+    return { success: true, error: false };
+  } catch (err) {
+    console.log(err);
+    return { success: false, error: true };
+  }
+};
+
+// Lessons on a period take the period's times
+const toLessonSlot = async (data: LessonSchema): Promise<LessonSlot> => {
+  const period = data.periodId
+    ? await prisma.period.findUnique({ where: { id: data.periodId } })
+    : null;
+
+  return {
+    id: data.id,
+    day: data.day,
+    ...(period
+      ? getPeriodTimes(data.day, period)
+      : { startTime: data.startTime, endTime: data.endTime }),
+    teacherId: data.teacherId,
+    classId: data.classId,
+    roomId: data.roomId || null,
+    validFrom: data.validFrom ?? null,
+    validUntil: data.validUntil ?? null,
+  };
+};
+
+export const loadCalendarEvents = async (
+  filter: CalendarFilter,
+  start: Date,
+  end: Date
+) => {
+  try {
+    if (!(await authorize("calendar", "read", { data: filter }))) {
+      return [];
+    }
+
+    return await getCalendarEvents(filter, start, end);
+  } catch (err) {
+    console.log(err);
+    return [];
+  }
+};
+
+export const checkLessonClashes = async (data: LessonSchema) => {
+  try {
+    if (!(await authorize("lesson", "read"))) {
+      return [];
+    }
+
+    return await findLessonClashes(await toLessonSlot(data));
+  } catch (err) {
+    console.log(err);
+    return [];
+  }
+};
+
+export const createLesson = async (
+  currentState: CurrentState,
+  data: LessonSchema
+) => {
+  try {
+    if (!(await authorize("lesson", "create", { data }))) {
+      return FORBIDDEN;
+    }
+
+    const slot = await toLessonSlot(data);
+
+    if ((await findLessonClashes(slot)).length) {
+      return { success: false, error: true };
+    }
+
+    const lesson = await prisma.lesson.create({
+      data: {
+        name: data.name,
+        day: data.day,
+        startTime: slot.startTime,
+        endTime: slot.endTime,
+        subjectId: data.subjectId,
+        classId: data.classId,
+        teacherId: data.teacherId,
+        roomId: slot.roomId,
+        periodId: data.periodId || null,
+        validFrom: data.validFrom ?? null,
+        validUntil: data.validUntil ?? null,
+      },
+    });
+    await audit({ entity: "Lesson", action: "CREATE", after: lesson });
+
+    // revalidatePath("/list/lessons");
     return { success: true, error: false };
   } catch (err) {
     console.log(err);
     return { success: false, error: true };
   }
 };
+
+export const updateLesson = async (
+  currentState: CurrentState,
+  data: LessonSchema
+) => {
+  try {
+    if (!(await authorize("lesson", "update", { id: data.id, data }))) {
+      return FORBIDDEN;
+    }
+
+    const slot = await toLessonSlot(data);
+
+    if ((await findLessonClashes(slot)).length) {
+      return { success: false, error: true };
+    }
+
+    const before = await prisma.lesson.findUnique({ where: { id: data.id } });
+
+    const lesson = await prisma.lesson.update({
+      where: {
+        id: data.id,
+      },
+      data: {
+        name: data.name,
+        day: data.day,
+        startTime: slot.startTime,
+        endTime: slot.endTime,
+        subjectId: data.subjectId,
+        classId: data.classId,
+        teacherId: data.teacherId,
+        roomId: slot.roomId,
+        periodId: data.periodId || null,
+        validFrom: data.validFrom ?? null,
+        validUntil: data.validUntil ?? null,
+      },
+    });
+    await audit({ entity: "Lesson", action: "UPDATE", before, after: lesson });
+
+    // revalidatePath("/list/lessons");
+    return { success: true, error: false };
+  } catch (err) {
+    console.log(err);
+    return { success: false, error: true };
+  }
+};
+
+export const deleteLesson = async (
+  currentState: CurrentState,
+  data: FormData
+) => {
+  const id = data.get("id") as string;
+  try {
+    if (!(await authorize("lesson", "delete", { id }))) {
+      return FORBIDDEN;
+    }
+
+    const lesson = await prisma.lesson.delete({
+      where: {
+        id: parseInt(id),
+      },
+    });
+    await audit({ entity: "Lesson", action: "DELETE", before: lesson });
+
+    // revalidatePath("/list/lessons");
+    return { success: true, error: false };
+  } catch (err) {
+    console.log(err);
+    return { success: false, error: true };
+  }
+};
+
+export const createAssignment = async (
+  currentState: CurrentState,
+  data: AssignmentSchema
+) => {
+  try {
+    if (!(await authorize("assignment", "create", { data }))) {
+      return FORBIDDEN;
+    }
+
+    const assignment = await prisma.assignment.create({
+      data: {
+        title: data.title,
+        startDate: data.startDate,
+        dueDate: data.dueDate,
+        maxScore: data.maxScore,
+        maxAttempts: data.maxAttempts,
+        allowLate: data.allowLate,
+        rubricId: data.rubricId || null,
+        lessonId: data.lessonId,
+      },
+    });
+    await audit({ entity: "Assignment", action: "CREATE", after: assignment });
+
+    // revalidatePath("/list/assignments");
+    return { success: true, error: false };
+  } catch (err) {
+    console.log(err);
+    return { success: false, error: true };
+  }
+};
+
+export const updateAssignment = async (
+  currentState: CurrentState,
+  data: AssignmentSchema
+) => {
+  try {
+    if (!(await authorize("assignment", "update", { id: data.id, data }))) {
+      return FORBIDDEN;
+    }
+
+    const [before, resultsBefore] = await Promise.all([
+      prisma.assignment.findUnique({ where: { id: data.id } }),
+      prisma.result.findMany({ where: { assignmentId: data.id } }),
+    ]);
+
+    const assignment = await prisma.assignment.update({
+      where: {
+        id: data.id,
+      },
+      data: {
+        title: data.title,
+        startDate: data.startDate,
+        dueDate: data.dueDate,
+        maxScore: data.maxScore,
+        maxAttempts: data.maxAttempts,
+        allowLate: data.allowLate,
+        rubricId: data.rubricId || null,
+        lessonId: data.lessonId,
+      },
+    });
+    await audit({
+      entity: "Assignment",
+      action: "UPDATE",
+      before,
+      after: assignment,
+    });
+
+    const term = await getTermForDate(data.dueDate);
+    await prisma.result.updateMany({
+      where: { assignmentId: data.id },
+      data: { termId: term?.id ?? null },
+    });
+    await auditChanges(
+      "Result",
+      resultsBefore,
+      await prisma.result.findMany({ where: { assignmentId: data.id } })
+    );
+
+    // revalidatePath("/list/assignments");
+    return { success: true, error: false };
+  } catch (err) {
+    console.log(err);
+    return { success: false, error: true };
+  }
+};
+
+export const deleteAssignment = async (
+  currentState: CurrentState,
+  data: FormData
+) => {
+  const id = data.get("id") as string;
+  try {
+    if (!(await authorize("assignment", "delete", { id }))) {
+      return FORBIDDEN;
+    }
+
+    const assignment = await prisma.assignment.delete({
+      where: {
+        id: parseInt(id),
+      },
+    });
+    await audit({ entity: "Assignment", action: "DELETE", before: assignment });
+
+    // revalidatePath("/list/assignments");
+    return { success: true, error: false };
+  } catch (err) {
+    console.log(err);
+    return { success: false, error: true };
+  }
+};
+
+// The student's own hand-in, replacing the previous attempt's text and files
+export const submitAssignment = async (
+  currentState: CurrentState,
+  data: SubmissionSchema
+) => {
+  try {
+    const actor = await authorize("submission", "create", { data });
+    if (!actor) {
+      return FORBIDDEN;
+    }
+
+    const where = {
+      assignmentId_studentId: {
+        assignmentId: data.assignmentId,
+        studentId: actor.userId,
+      },
+    };
+    const [assignment, before] = await Promise.all([
+      prisma.assignment.findUniqueOrThrow({
+        where: { id: data.assignmentId },
+      }),
+      prisma.submission.findUnique({ where, include: { files: true } }),
+    ]);
+
+    const blocker = getSubmissionBlocker(assignment, before);
+    if (blocker) {
+      return { success: false, error: true, message: blocker };
+    }
+
+    // A resubmission only goes through while the submission is still
+    // ungraded and has attempts left at the moment it is written, so one
+    // graded or submitted at the same time isn't overwritten
+    const text = data.text?.trim() || null;
+    const submission = await prisma.$transaction(async (tx) => {
+      if (!before) {
+        return tx.submission.create({
+          data: {
+            assignmentId: data.assignmentId,
+            studentId: actor.userId,
+            text,
+            files: { create: data.files },
+          },
+          include: { files: true },
+        });
+      }
+
+      const { count } = await tx.submission.updateMany({
+        where: {
+          id: before.id,
+          gradedAt: null,
+          attempt: { lt: assignment.maxAttempts },
+        },
+        data: { text, attempt: { increment: 1 }, submittedAt: new Date() },
+      });
+      if (!count) return null;
+
+      return tx.submission.update({
+        where: { id: before.id },
+        data: { files: { deleteMany: {}, create: data.files } },
+        include: { files: true },
+      });
+    });
+    if (!submission) {
+      const latest = await prisma.submission.findUnique({ where });
+      return {
+        success: false,
+        error: true,
+        message:
+          getSubmissionBlocker(assignment, latest) ??
+          "The assignment was submitted at the same time, try again",
+      };
+    }
+    await audit({
+      entity: "Submission",
+      action: before ? "UPDATE" : "CREATE",
+      before,
+      after: submission,
+    });
+
+    // revalidatePath("/list/assignments");
+    return { success: true, error: false };
+  } catch (err) {
+    console.log(err);
+    if (isUniqueViolation(err)) {
+      return {
+        success: false,
+        error: true,
+        message: "The assignment was submitted at the same time, try again",
+      };
+    }
+    return { success: false, error: true };
+  }
+};
+
+// Grades a submission with a score, or with a level of every criterion of the
+// assignment's rubric which is then scaled to the assignment's max score. The
+// score is recorded as the student's assignment result
+export const gradeSubmission = async (
+  currentState: CurrentState,
+  data: SubmissionGradeSchema
+) => {
+  try {
+    const actor = await authorize("submission", "update", { id: data.id });
+    if (!actor) {
+      return FORBIDDEN;
+    }
+
+    const { assignment, ...before } =
+      await prisma.submission.findUniqueOrThrow({
+        where: { id: data.id },
+        include: {
+          assignment: { include: { rubric: { include: rubricInclude } } },
+        },
+      });
+    const { rubric } = assignment;
+
+    const levels =
+      rubric && data.levels && getChosenLevels(rubric, data.levels);
+    if (rubric && data.levels && !levels) {
+      return {
+        success: false,
+        error: true,
+        message: "Choose a level for every criterion",
+      };
+    }
+    const score = levels
+      ? scaleScore(
+          getRubricPoints(levels),
+          getRubricMaxPoints(rubric!),
+          assignment.maxScore
+        )
+      : data.score;
+
+    if (score === undefined) {
+      return { success: false, error: true, message: "Score is required" };
+    }
+    if (score > assignment.maxScore) {
+      return {
+        success: false,
+        error: true,
+        message: `The score can't be more than ${assignment.maxScore}`,
+      };
+    }
+
+    const term = await getTermForDate(assignment.dueDate);
+    const resultWhere = {
+      assignmentId_studentId: {
+        assignmentId: assignment.id,
+        studentId: before.studentId,
+      },
+    };
+
+    // Grading twice at once, e.g. a double click, updates the one result
+    const { submission, resultBefore, result, rubricScores } =
+      await prisma.$transaction(async (tx) => ({
+        submission: await tx.submission.update({
+          where: { id: data.id },
+          data: {
+            score,
+            feedback: data.feedback?.trim() || null,
+            gradedAt: new Date(),
+            gradedBy: actor.userId,
+          },
+        }),
+        resultBefore: await tx.result.findUnique({ where: resultWhere }),
+        result: await tx.result.upsert({
+          where: resultWhere,
+          update: { score, termId: term?.id ?? null },
+          create: {
+            score,
+            studentId: before.studentId,
+            assignmentId: assignment.id,
+            termId: term?.id ?? null,
+          },
+        }),
+        rubricScores:
+          levels &&
+          (await saveRubricScores(
+            tx,
+            { submissionId: data.id },
+            levels.map((level) => ({
+              criterionId: level.criterionId,
+              levelId: level.id,
+              points: level.points,
+              gradedAt: new Date(),
+              gradedBy: actor.userId,
+            }))
+          )),
+      }));
+    await audit([
+      {
+        entity: "Submission",
+        action: "UPDATE",
+        before,
+        after: submission,
+      },
+      {
+        entity: "Result",
+        action: resultBefore ? "UPDATE" : "CREATE",
+        before: resultBefore,
+        after: result,
+      },
+    ]);
+    if (rubricScores) {
+      await auditChanges(
+        "RubricScore",
+        rubricScores.before,
+        rubricScores.after
+      );
+    }
+    await notify({ type: "RESULT", resultId: result.id });
+
+    // revalidatePath("/list/submissions");
+    return { success: true, error: false };
+  } catch (err) {
+    console.log(err);
+    return { success: false, error: true };
+  }
+};
+
+// Criteria and levels as the rubric form edits them, to tell if they changed
+const toRubricCriteria = (
+  criteria: {
+    title: string;
+    description?: string | null;
+    levels: { title: string; description?: string | null; points: number }[];
+  }[]
+) =>
+  JSON.stringify(
+    criteria.map((criterion) => ({
+      title: criterion.title,
+      description: criterion.description || "",
+      levels: criterion.levels.map((level) => ({
+        title: level.title,
+        description: level.description || "",
+        points: level.points,
+      })),
+    }))
+  );
+
+const createRubricCriteria = (criteria: RubricSchema["criteria"]) => ({
+  create: criteria.map((criterion, position) => ({
+    title: criterion.title,
+    description: criterion.description || null,
+    position,
+    levels: {
+      create: criterion.levels.map((level) => ({
+        title: level.title,
+        description: level.description || null,
+        points: level.points,
+      })),
+    },
+  })),
+});
+
+// Whether work has been graded against the rubric, its criteria can't change
+// then without losing what the grades were made of
+const isRubricUsed = async (rubricId: number) =>
+  !!(await prisma.rubricScore.findFirst({
+    where: { criterion: { rubricId }, gradedAt: { not: null } },
+    select: { id: true },
+  }));
+
+export const createRubric = async (
+  currentState: CurrentState,
+  data: RubricSchema
+) => {
+  try {
+    const actor = await authorize("rubric", "create", { data });
+    if (!actor) {
+      return FORBIDDEN;
+    }
+
+    const rubric = await prisma.rubric.create({
+      data: {
+        title: data.title,
+        description: data.description || null,
+        createdBy: actor.userId,
+        criteria: createRubricCriteria(data.criteria),
+      },
+      include: rubricInclude,
+    });
+    await audit({ entity: "Rubric", action: "CREATE", after: rubric });
+
+    // revalidatePath("/list/rubrics");
+    return { success: true, error: false };
+  } catch (err) {
+    console.log(err);
+    return { success: false, error: true };
+  }
+};
+
+export const updateRubric = async (
+  currentState: CurrentState,
+  data: RubricSchema
+) => {
+  try {
+    if (!(await authorize("rubric", "update", { id: data.id, data }))) {
+      return FORBIDDEN;
+    }
+
+    const before = await prisma.rubric.findUniqueOrThrow({
+      where: { id: data.id },
+      include: rubricInclude,
+    });
+
+    const criteriaChanged =
+      toRubricCriteria(before.criteria) !== toRubricCriteria(data.criteria);
+    if (criteriaChanged && (await isRubricUsed(before.id))) {
+      return {
+        success: false,
+        error: true,
+        message:
+          "Work has been graded with this rubric, so its criteria can't change. Create a new rubric instead.",
+      };
+    }
+
+    const rubric = await prisma.rubric.update({
+      where: { id: data.id },
+      data: {
+        title: data.title,
+        description: data.description || null,
+        ...(criteriaChanged && {
+          criteria: { deleteMany: {}, ...createRubricCriteria(data.criteria) },
+        }),
+      },
+      include: rubricInclude,
+    });
+    await audit({ entity: "Rubric", action: "UPDATE", before, after: rubric });
+
+    // revalidatePath("/list/rubrics");
+    return { success: true, error: false };
+  } catch (err) {
+    console.log(err);
+    return { success: false, error: true };
+  }
+};
+
+export const deleteRubric = async (
+  currentState: CurrentState,
+  data: FormData
+) => {
+  const id = data.get("id") as string;
+  try {
+    if (!(await authorize("rubric", "delete", { id }))) {
+      return FORBIDDEN;
+    }
+
+    if (await isRubricUsed(parseInt(id))) {
+      return {
+        success: false,
+        error: true,
+        message: "Work has been graded with this rubric, it can't be deleted",
+      };
+    }
+
+    const rubric = await prisma.rubric.delete({
+      where: {
+        id: parseInt(id),
+      },
+      include: rubricInclude,
+    });
+    await audit({ entity: "Rubric", action: "DELETE", before: rubric });
+
+    // revalidatePath("/list/rubrics");
+    return { success: true, error: false };
+  } catch (err) {
+    console.log(err);
+    return { success: false, error: true };
+  }
+};
+
+// The exam or assignment a result belongs to, with the date that places it in a term
+const getResultAssessment = async (data: ResultSchema) => {
+  if (data.examId) {
+    const exam = await prisma.exam.findUnique({ where: { id: data.examId } });
+    return exam && { maxScore: exam.maxScore, date: exam.startTime };
+  }
+
+  const assignment = await prisma.assignment.findUnique({
+    where: { id: data.assignmentId },
+  });
+  return (
+    assignment && { maxScore: assignment.maxScore, date: assignment.dueDate }
+  );
+};
+
+// A student has one result per exam or assignment
+const hasOtherResult = async (data: ResultSchema) =>
+  !!(await prisma.result.findFirst({
+    where: {
+      studentId: data.studentId,
+      ...(data.examId
+        ? { examId: data.examId }
+        : { assignmentId: data.assignmentId }),
+      ...(data.id ? { NOT: { id: data.id } } : {}),
+    },
+  }));
+
+const DUPLICATE_RESULT: ActionResult = {
+  success: false,
+  error: true,
+  message: "The student already has a result for it",
+};
+
+export const createResult = async (
+  currentState: CurrentState,
+  data: ResultSchema
+) => {
+  try {
+    if (!(await authorize("result", "create", { data }))) {
+      return FORBIDDEN;
+    }
+
+    const assessment = await getResultAssessment(data);
+
+    if (!assessment) {
+      return { success: false, error: true };
+    }
+    // A score can't exceed the max score of its exam or assignment
+    if (data.score > assessment.maxScore) {
+      return {
+        success: false,
+        error: true,
+        message: `Score cannot exceed ${assessment.maxScore}`,
+      };
+    }
+    if (await hasOtherResult(data)) {
+      return DUPLICATE_RESULT;
+    }
+
+    const term = await getTermForDate(assessment.date);
+
+    const result = await prisma.result.create({
+      data: {
+        score: data.score,
+        studentId: data.studentId,
+        examId: data.examId || null,
+        assignmentId: data.assignmentId || null,
+        termId: term?.id ?? null,
+      },
+    });
+    await audit({ entity: "Result", action: "CREATE", after: result });
+    await notify({ type: "RESULT", resultId: result.id });
+
+    // revalidatePath("/list/results");
+    return { success: true, error: false };
+  } catch (err) {
+    console.log(err);
+    return { success: false, error: true };
+  }
+};
+
+export const updateResult = async (
+  currentState: CurrentState,
+  data: ResultSchema
+) => {
+  try {
+    if (!(await authorize("result", "update", { id: data.id, data }))) {
+      return FORBIDDEN;
+    }
+
+    const assessment = await getResultAssessment(data);
+
+    if (!assessment) {
+      return { success: false, error: true };
+    }
+    // A score can't exceed the max score of its exam or assignment
+    if (data.score > assessment.maxScore) {
+      return {
+        success: false,
+        error: true,
+        message: `Score cannot exceed ${assessment.maxScore}`,
+      };
+    }
+    if (await hasOtherResult(data)) {
+      return DUPLICATE_RESULT;
+    }
+
+    const term = await getTermForDate(assessment.date);
+
+    const before = await prisma.result.findUnique({ where: { id: data.id } });
+
+    const result = await prisma.result.update({
+      where: {
+        id: data.id,
+      },
+      data: {
+        score: data.score,
+        studentId: data.studentId,
+        examId: data.examId || null,
+        assignmentId: data.assignmentId || null,
+        termId: term?.id ?? null,
+      },
+    });
+    await audit({ entity: "Result", action: "UPDATE", before, after: result });
+
+    // revalidatePath("/list/results");
+    return { success: true, error: false };
+  } catch (err) {
+    console.log(err);
+    return { success: false, error: true };
+  }
+};
+
+export const deleteResult = async (
+  currentState: CurrentState,
+  data: FormData
+) => {
+  const id = data.get("id") as string;
+  try {
+    if (!(await authorize("result", "delete", { id }))) {
+      return FORBIDDEN;
+    }
+
+    const result = await prisma.result.delete({
+      where: {
+        id: parseInt(id),
+      },
+    });
+    await audit({ entity: "Result", action: "DELETE", before: result });
+
+    // revalidatePath("/list/results");
+    return { success: true, error: false };
+  } catch (err) {
+    console.log(err);
+    return { success: false, error: true };
+  }
+};
+
+// The student's attempt at the online test of an exam, with the exam and its
+// content
+const getTestAttempt = (examId: number, studentId: string) =>
+  prisma.testAttempt.findUnique({
+    where: { examId_studentId: { examId, studentId } },
+    include: { exam: { include: { aiContent: true } } },
+  });
+
+// Only answers to the attempt's own questions are kept
+const pickTestAnswers = (layout: TestLayout, answers: TestAnswers) =>
+  Object.fromEntries(
+    layout.flatMap(({ id }) => (id in answers ? [[id, answers[id]]] : []))
+  );
+
+// Starts the student's online test in their own shuffled order. Starting
+// again carries on with the same attempt.
+export const startTest = async (
+  currentState: CurrentState,
+  data: FormData
+) => {
+  const examId = parseInt(data.get("examId") as string);
+  try {
+    const actor = await authorize("testAttempt", "create", {
+      data: { examId },
+    });
+    if (!actor) {
+      return FORBIDDEN;
+    }
+
+    if (await getTestAttempt(examId, actor.userId)) {
+      return { success: true, error: false };
+    }
+
+    const exam = await prisma.exam.findUniqueOrThrow({
+      where: { id: examId },
+      include: { aiContent: true },
+    });
+
+    const now = new Date();
+    if (now < exam.startTime || now > exam.endTime) {
+      return {
+        success: false,
+        error: true,
+        message: "The test isn't open right now",
+      };
+    }
+
+    const questions = exam.aiContent ? getTestQuestions(exam.aiContent) : [];
+    if (!questions.length) {
+      return {
+        success: false,
+        error: true,
+        message: "This test has no questions",
+      };
+    }
+
+    const attempt = await prisma.testAttempt.create({
+      data: {
+        examId,
+        studentId: actor.userId,
+        layout: shuffleTest(questions),
+      },
+    });
+    await audit({ entity: "TestAttempt", action: "CREATE", after: attempt });
+
+    return { success: true, error: false };
+  } catch (err) {
+    // Started twice at once, e.g. a double click or a second tab: the test
+    // goes on with the attempt the other request created
+    if (isUniqueViolation(err)) {
+      return { success: true, error: false };
+    }
+    console.log(err);
+    return { success: false, error: true };
+  }
+};
+
+// Autosave while the test is taken. Saves aren't audited, the submitted
+// answers are.
+export const saveTestAnswers = async (
+  currentState: CurrentState,
+  data: TestAnswersSchema
+) => {
+  try {
+    const actor = await authorize("testAttempt", "update", { data });
+    if (!actor) {
+      return FORBIDDEN;
+    }
+
+    const attempt = await getTestAttempt(data.examId, actor.userId);
+    if (!attempt?.exam.aiContent || attempt.submittedAt) {
+      return {
+        success: false,
+        error: true,
+        message: "This test has already been submitted",
+      };
+    }
+
+    const deadline = getTestDeadline(
+      attempt.exam,
+      attempt,
+      getTestDuration(attempt.exam.aiContent)
+    );
+    if (isPastDeadline(deadline)) {
+      return { success: false, error: true, message: "Time is up" };
+    }
+
+    // An attempt handed in meanwhile keeps the answers it was marked on
+    const { count } = await prisma.testAttempt.updateMany({
+      where: { id: attempt.id, submittedAt: null },
+      data: {
+        answers: pickTestAnswers(attempt.layout as TestLayout, data.answers),
+        savedAt: new Date(),
+      },
+    });
+    if (!count) {
+      return {
+        success: false,
+        error: true,
+        message: "This test has already been submitted",
+      };
+    }
+
+    return { success: true, error: false };
+  } catch (err) {
+    console.log(err);
+    return { success: false, error: true };
+  }
+};
+
+// Hands the test in and marks it. Once time is up only what was saved in time
+// is marked.
+export const submitTest = async (
+  currentState: CurrentState,
+  data: TestAnswersSchema
+) => {
+  try {
+    const actor = await authorize("testAttempt", "update", { data });
+    if (!actor) {
+      return FORBIDDEN;
+    }
+
+    const attempt = await getTestAttempt(data.examId, actor.userId);
+    if (!attempt?.exam.aiContent || attempt.submittedAt) {
+      return {
+        success: false,
+        error: true,
+        message: "This test has already been submitted",
+      };
+    }
+
+    const deadline = getTestDeadline(
+      attempt.exam,
+      attempt,
+      getTestDuration(attempt.exam.aiContent)
+    );
+    if (!isPastDeadline(deadline)) {
+      await prisma.testAttempt.updateMany({
+        where: { id: attempt.id, submittedAt: null },
+        data: {
+          answers: pickTestAnswers(attempt.layout as TestLayout, data.answers),
+          savedAt: new Date(),
+        },
+      });
+    }
+
+    if (!(await finishTestAttempt(attempt.id))) {
+      return {
+        success: false,
+        error: true,
+        message: "This test has already been submitted",
+      };
+    }
+
+    // revalidatePath("/list/exams");
+    return { success: true, error: false };
+  } catch (err) {
+    console.log(err);
+    return { success: false, error: true };
+  }
+};
+
+// The teacher marks a short answer or essay of a handed in test, with points
+// or against the question's rubric, whose points are scaled to the question's
+export const markTestAnswer = async (
+  currentState: CurrentState,
+  data: TestMarkSchema
+) => {
+  try {
+    const actor = await authorize("testAttempt", "update", {
+      id: data.attemptId,
+    });
+    if (!actor) {
+      return FORBIDDEN;
+    }
+
+    const { exam, ...before } = await prisma.testAttempt.findUniqueOrThrow({
+      where: { id: data.attemptId },
+      include: {
+        exam: {
+          include: {
+            aiContent: {
+              include: {
+                rubrics: {
+                  where: { questionId: data.questionId },
+                  include: { rubric: { include: rubricInclude } },
+                },
+              },
+            },
+          },
+        },
+      },
+    });
+    const { aiContent } = exam;
+    const question =
+      aiContent &&
+      getTestQuestions(aiContent).find((item) => item.id === data.questionId);
+
+    if (!aiContent || !question || isObjective(question)) {
+      return {
+        success: false,
+        error: true,
+        message: "Only short answers and essays are marked by hand",
+      };
+    }
+    if (!before.submittedAt) {
+      return {
+        success: false,
+        error: true,
+        message: "The test hasn't been handed in yet",
+      };
+    }
+
+    const rubric = aiContent.rubrics[0]?.rubric;
+    const levels =
+      rubric && data.levels && getChosenLevels(rubric, data.levels);
+    if (rubric && data.levels && !levels) {
+      return {
+        success: false,
+        error: true,
+        message: "Choose a level for every criterion",
+      };
+    }
+    const maxPoints = rubric ? getRubricMaxPoints(rubric) : 0;
+    const points = levels
+      ? maxPoints
+        ? Math.round(
+            (getRubricPoints(levels) / maxPoints) * question.points * 100
+          ) / 100
+        : 0
+      : data.points;
+
+    if (points === undefined) {
+      return { success: false, error: true, message: "Points are required" };
+    }
+    if (points > question.points) {
+      return {
+        success: false,
+        error: true,
+        message: `The points can't be more than ${question.points}`,
+      };
+    }
+
+    await recordTestScore(
+      before,
+      { ...exam, aiContent },
+      { marks: { ...(before.marks as TestMarks), [question.id]: points } },
+      levels
+        ? { questionId: question.id, levels, gradedBy: actor.userId }
+        : undefined
+    );
+
+    // revalidatePath("/list/exams");
+    return { success: true, error: false };
+  } catch (err) {
+    console.log(err);
+    return { success: false, error: true };
+  }
+};
+
+export const createAttendance = async (
+  currentState: CurrentState,
+  data: AttendanceSchema
+) => {
+  try {
+    if (!(await authorize("attendance", "create", { data }))) {
+      return FORBIDDEN;
+    }
+
+    const attendance = await prisma.attendance.create({
+      data: {
+        date: toDateOnly(data.date),
+        status: data.status,
+        present: data.status === "PRESENT" || data.status === "LATE",
+        studentId: data.studentId,
+        lessonId: data.lessonId,
+      },
+    });
+    await audit({ entity: "Attendance", action: "CREATE", after: attendance });
+
+    // revalidatePath("/list/attendance");
+    return { success: true, error: false };
+  } catch (err) {
+    console.log(err);
+    return { success: false, error: true };
+  }
+};
+
+export const updateAttendance = async (
+  currentState: CurrentState,
+  data: AttendanceSchema
+) => {
+  try {
+    if (!(await authorize("attendance", "update", { id: data.id, data }))) {
+      return FORBIDDEN;
+    }
+
+    const before = await prisma.attendance.findUnique({
+      where: { id: data.id },
+    });
+
+    const attendance = await prisma.attendance.update({
+      where: {
+        id: data.id,
+      },
+      data: {
+        date: toDateOnly(data.date),
+        status: data.status,
+        present: data.status === "PRESENT" || data.status === "LATE",
+        studentId: data.studentId,
+        lessonId: data.lessonId,
+      },
+    });
+    await audit({
+      entity: "Attendance",
+      action: "UPDATE",
+      before,
+      after: attendance,
+    });
+
+    // revalidatePath("/list/attendance");
+    return { success: true, error: false };
+  } catch (err) {
+    console.log(err);
+    return { success: false, error: true };
+  }
+};
+
+export const saveAttendanceRegister = async (
+  currentState: CurrentState,
+  data: AttendanceRegisterSchema
+) => {
+  const date = toDateOnly(data.date);
+
+  try {
+    // A substitute takes the register of the lessons they cover
+    if (
+      !(await authorize("attendance", "create", {
+        data: { lessonId: data.lessonId, date },
+      }))
+    ) {
+      return FORBIDDEN;
+    }
+
+    const lesson = await prisma.lesson.findUnique({
+      where: { id: data.lessonId },
+      include: {
+        class: {
+          select: {
+            students: { where: { deletedAt: null }, select: { id: true } },
+          },
+        },
+      },
+    });
+
+    if (!lesson) {
+      return { success: false, error: true };
+    }
+
+    // The date has to be an occurrence of the lesson that takes place
+    if (
+      getLessonDay(date) !== lesson.day ||
+      (await isLessonCancelled(lesson.id, date))
+    ) {
+      return { success: false, error: true };
+    }
+
+    const roster = new Set(lesson.class.students.map((student) => student.id));
+    if (data.entries.some((entry) => !roster.has(entry.studentId))) {
+      return { success: false, error: true };
+    }
+
+    const before = await prisma.attendance.findMany({
+      where: { lessonId: lesson.id, date },
+    });
+
+    // Upsert on (student, lesson, date) so a saved register can be edited
+    // without creating duplicate records
+    const saved = await prisma.$transaction(
+      data.entries.map((entry) =>
+        prisma.attendance.upsert({
+          where: {
+            studentId_lessonId_date: {
+              studentId: entry.studentId,
+              lessonId: lesson.id,
+              date,
+            },
+          },
+          create: {
+            date,
+            status: entry.status,
+            present: entry.status === "PRESENT" || entry.status === "LATE",
+            studentId: entry.studentId,
+            lessonId: lesson.id,
+          },
+          update: {
+            status: entry.status,
+            present: entry.status === "PRESENT" || entry.status === "LATE",
+          },
+        })
+      )
+    );
+    // Students left out of the register keep their record
+    await auditChanges(
+      "Attendance",
+      before.filter((record) => saved.some((item) => item.id === record.id)),
+      saved
+    );
+
+    // revalidatePath("/list/attendance");
+    return { success: true, error: false };
+  } catch (err) {
+    console.log(err);
+    return { success: false, error: true };
+  }
+};
+
+export const deleteAttendance = async (
+  currentState: CurrentState,
+  data: FormData
+) => {
+  const id = data.get("id") as string;
+  try {
+    if (!(await authorize("attendance", "delete", { id }))) {
+      return FORBIDDEN;
+    }
+
+    const attendance = await prisma.attendance.delete({
+      where: {
+        id: parseInt(id),
+      },
+    });
+    await audit({ entity: "Attendance", action: "DELETE", before: attendance });
+
+    // revalidatePath("/list/attendance");
+    return { success: true, error: false };
+  } catch (err) {
+    console.log(err);
+    return { success: false, error: true };
+  }
+};
+
+export const createEvent = async (
+  currentState: CurrentState,
+  data: EventSchema
+) => {
+  try {
+    if (!(await authorize("event", "create", { data }))) {
+      return FORBIDDEN;
+    }
+
+    const event = await prisma.event.create({
+      data: {
+        title: data.title,
+        description: data.description,
+        startTime: data.startTime,
+        endTime: data.endTime,
+        classId: data.classId || null,
+      },
+    });
+    await audit({ entity: "Event", action: "CREATE", after: event });
+
+    // revalidatePath("/list/events");
+    return { success: true, error: false };
+  } catch (err) {
+    console.log(err);
+    return { success: false, error: true };
+  }
+};
+
+export const updateEvent = async (
+  currentState: CurrentState,
+  data: EventSchema
+) => {
+  try {
+    if (!(await authorize("event", "update", { id: data.id, data }))) {
+      return FORBIDDEN;
+    }
+
+    const before = await prisma.event.findUnique({ where: { id: data.id } });
+
+    const event = await prisma.event.update({
+      where: {
+        id: data.id,
+      },
+      data: {
+        title: data.title,
+        description: data.description,
+        startTime: data.startTime,
+        endTime: data.endTime,
+        classId: data.classId || null,
+      },
+    });
+    await audit({ entity: "Event", action: "UPDATE", before, after: event });
+
+    // revalidatePath("/list/events");
+    return { success: true, error: false };
+  } catch (err) {
+    console.log(err);
+    return { success: false, error: true };
+  }
+};
+
+export const deleteEvent = async (
+  currentState: CurrentState,
+  data: FormData
+) => {
+  const id = data.get("id") as string;
+  try {
+    if (!(await authorize("event", "delete", { id }))) {
+      return FORBIDDEN;
+    }
+
+    const event = await prisma.event.delete({
+      where: {
+        id: parseInt(id),
+      },
+    });
+    await audit({ entity: "Event", action: "DELETE", before: event });
+
+    // revalidatePath("/list/events");
+    return { success: true, error: false };
+  } catch (err) {
+    console.log(err);
+    return { success: false, error: true };
+  }
+};
+
+export const createAnnouncement = async (
+  currentState: CurrentState,
+  data: AnnouncementSchema
+) => {
+  try {
+    if (!(await authorize("announcement", "create", { data }))) {
+      return FORBIDDEN;
+    }
+
+    const announcement = await prisma.announcement.create({
+      data: {
+        title: data.title,
+        description: data.description,
+        date: data.date,
+        classId: data.classId || null,
+      },
+    });
+    await audit({
+      entity: "Announcement",
+      action: "CREATE",
+      after: announcement,
+    });
+    await notify({ type: "ANNOUNCEMENT", announcementId: announcement.id });
+
+    // revalidatePath("/list/announcements");
+    return { success: true, error: false };
+  } catch (err) {
+    console.log(err);
+    return { success: false, error: true };
+  }
+};
+
+export const updateAnnouncement = async (
+  currentState: CurrentState,
+  data: AnnouncementSchema
+) => {
+  try {
+    if (!(await authorize("announcement", "update", { id: data.id, data }))) {
+      return FORBIDDEN;
+    }
+
+    const before = await prisma.announcement.findUnique({
+      where: { id: data.id },
+    });
+
+    const announcement = await prisma.announcement.update({
+      where: {
+        id: data.id,
+      },
+      data: {
+        title: data.title,
+        description: data.description,
+        date: data.date,
+        classId: data.classId || null,
+      },
+    });
+    await audit({
+      entity: "Announcement",
+      action: "UPDATE",
+      before,
+      after: announcement,
+    });
+
+    // revalidatePath("/list/announcements");
+    return { success: true, error: false };
+  } catch (err) {
+    console.log(err);
+    return { success: false, error: true };
+  }
+};
+
+export const deleteAnnouncement = async (
+  currentState: CurrentState,
+  data: FormData
+) => {
+  const id = data.get("id") as string;
+  try {
+    if (!(await authorize("announcement", "delete", { id }))) {
+      return FORBIDDEN;
+    }
+
+    const announcement = await prisma.announcement.delete({
+      where: {
+        id: parseInt(id),
+      },
+    });
+    await audit({
+      entity: "Announcement",
+      action: "DELETE",
+      before: announcement,
+    });
+
+    // revalidatePath("/list/announcements");
+    return { success: true, error: false };
+  } catch (err) {
+    console.log(err);
+    return { success: false, error: true };
+  }
+};
+
+export const createGradeWeight = async (
+  currentState: CurrentState,
+  data: GradeWeightSchema
+) => {
+  try {
+    if (!(await authorize("gradeWeight", "create", { data }))) {
+      return FORBIDDEN;
+    }
+
+    const gradeWeight = await prisma.gradeWeight.create({
+      data: {
+        examWeight: data.examWeight,
+        assignmentWeight: data.assignmentWeight,
+        classId: data.classId,
+        subjectId: data.subjectId,
+      },
+    });
+    await audit({
+      entity: "GradeWeight",
+      action: "CREATE",
+      after: gradeWeight,
+    });
+
+    // revalidatePath("/list/gradebook");
+    return { success: true, error: false };
+  } catch (err) {
+    console.log(err);
+    return { success: false, error: true };
+  }
+};
+
+export const updateGradeWeight = async (
+  currentState: CurrentState,
+  data: GradeWeightSchema
+) => {
+  try {
+    if (!(await authorize("gradeWeight", "update", { id: data.id, data }))) {
+      return FORBIDDEN;
+    }
+
+    const before = await prisma.gradeWeight.findUnique({
+      where: { id: data.id },
+    });
+
+    const gradeWeight = await prisma.gradeWeight.update({
+      where: {
+        id: data.id,
+      },
+      data: {
+        examWeight: data.examWeight,
+        assignmentWeight: data.assignmentWeight,
+        classId: data.classId,
+        subjectId: data.subjectId,
+      },
+    });
+    await audit({
+      entity: "GradeWeight",
+      action: "UPDATE",
+      before,
+      after: gradeWeight,
+    });
+
+    // revalidatePath("/list/gradebook");
+    return { success: true, error: false };
+  } catch (err) {
+    console.log(err);
+    return { success: false, error: true };
+  }
+};
+
+export const deleteGradeWeight = async (
+  currentState: CurrentState,
+  data: FormData
+) => {
+  const id = data.get("id") as string;
+  try {
+    if (!(await authorize("gradeWeight", "delete", { id }))) {
+      return FORBIDDEN;
+    }
+
+    const gradeWeight = await prisma.gradeWeight.delete({
+      where: {
+        id: parseInt(id),
+      },
+    });
+    await audit({
+      entity: "GradeWeight",
+      action: "DELETE",
+      before: gradeWeight,
+    });
+
+    // revalidatePath("/list/gradebook");
+    return { success: true, error: false };
+  } catch (err) {
+    console.log(err);
+    return { success: false, error: true };
+  }
+};
+
+// Making a scale the default changes the others too, so all are compared
+const findGradeScales = () =>
+  prisma.gradeScale.findMany({ include: { bands: true } });
+
+export const createGradeScale = async (
+  currentState: CurrentState,
+  data: GradeScaleSchema
+) => {
+  try {
+    if (!(await authorize("gradeScale", "create", { data }))) {
+      return FORBIDDEN;
+    }
+
+    const before = await findGradeScales();
+
+    await prisma.$transaction([
+      // Only one scale can be the default
+      ...(data.isDefault
+        ? [prisma.gradeScale.updateMany({ data: { isDefault: false } })]
+        : []),
+      prisma.gradeScale.create({
+        data: {
+          name: data.name,
+          isDefault: data.isDefault,
+          bands: { create: data.bands },
+        },
+      }),
+    ]);
+    await auditChanges("GradeScale", before, await findGradeScales());
+
+    // revalidatePath("/list/grade-scales");
+    return { success: true, error: false };
+  } catch (err) {
+    console.log(err);
+    return { success: false, error: true };
+  }
+};
+
+export const updateGradeScale = async (
+  currentState: CurrentState,
+  data: GradeScaleSchema
+) => {
+  try {
+    if (!(await authorize("gradeScale", "update", { id: data.id, data }))) {
+      return FORBIDDEN;
+    }
+
+    const before = await findGradeScales();
+
+    await prisma.$transaction([
+      ...(data.isDefault
+        ? [
+            prisma.gradeScale.updateMany({
+              where: { id: { not: data.id } },
+              data: { isDefault: false },
+            }),
+          ]
+        : []),
+      prisma.gradeScale.update({
+        where: {
+          id: data.id,
+        },
+        data: {
+          name: data.name,
+          isDefault: data.isDefault,
+          bands: { deleteMany: {}, create: data.bands },
+        },
+      }),
+    ]);
+    await auditChanges("GradeScale", before, await findGradeScales());
+
+    // revalidatePath("/list/grade-scales");
+    return { success: true, error: false };
+  } catch (err) {
+    console.log(err);
+    return { success: false, error: true };
+  }
+};
+
+export const deleteGradeScale = async (
+  currentState: CurrentState,
+  data: FormData
+) => {
+  const id = data.get("id") as string;
+  try {
+    if (!(await authorize("gradeScale", "delete", { id }))) {
+      return FORBIDDEN;
+    }
+
+    const gradeScale = await prisma.gradeScale.delete({
+      where: {
+        id: parseInt(id),
+      },
+    });
+    await audit({ entity: "GradeScale", action: "DELETE", before: gradeScale });
+
+    // revalidatePath("/list/grade-scales");
+    return { success: true, error: false };
+  } catch (err) {
+    console.log(err);
+    return { success: false, error: true };
+  }
+};
+
+export const createAcademicYear = async (
+  currentState: CurrentState,
+  data: AcademicYearSchema
+) => {
+  try {
+    if (!(await authorize("academicYear", "create", { data }))) {
+      return FORBIDDEN;
+    }
+
+    const academicYear = await prisma.academicYear.create({
+      data: {
+        name: data.name,
+        startDate: data.startDate,
+        endDate: data.endDate,
+        terms: { create: data.terms },
+      },
+      include: { terms: true },
+    });
+    await audit({
+      entity: "AcademicYear",
+      action: "CREATE",
+      after: academicYear,
+    });
+
+    // revalidatePath("/list/academic-years");
+    return { success: true, error: false };
+  } catch (err) {
+    console.log(err);
+    return { success: false, error: true };
+  }
+};
+
+export const updateAcademicYear = async (
+  currentState: CurrentState,
+  data: AcademicYearSchema
+) => {
+  try {
+    if (!(await authorize("academicYear", "update", { id: data.id, data }))) {
+      return FORBIDDEN;
+    }
+
+    const before = await prisma.academicYear.findUnique({
+      where: { id: data.id },
+      include: { terms: true },
+    });
+
+    // Terms are matched by name so existing terms keep their results
+    const academicYear = await prisma.academicYear.update({
+      where: {
+        id: data.id,
+      },
+      data: {
+        name: data.name,
+        startDate: data.startDate,
+        endDate: data.endDate,
+        terms: {
+          deleteMany: { name: { notIn: data.terms.map((term) => term.name) } },
+          upsert: data.terms.map((term) => ({
+            where: {
+              academicYearId_name: { academicYearId: data.id!, name: term.name },
+            },
+            create: term,
+            update: term,
+          })),
+        },
+      },
+      include: { terms: true },
+    });
+    await audit({
+      entity: "AcademicYear",
+      action: "UPDATE",
+      before,
+      after: academicYear,
+    });
+
+    // revalidatePath("/list/academic-years");
+    return { success: true, error: false };
+  } catch (err) {
+    console.log(err);
+    return { success: false, error: true };
+  }
+};
+
+export const deleteAcademicYear = async (
+  currentState: CurrentState,
+  data: FormData
+) => {
+  const id = data.get("id") as string;
+  try {
+    if (!(await authorize("academicYear", "delete", { id }))) {
+      return FORBIDDEN;
+    }
+
+    // Years with classes or enrollments can't be deleted, only archived by a rollover
+    const academicYear = await prisma.academicYear.delete({
+      where: {
+        id: parseInt(id),
+        isCurrent: false,
+      },
+    });
+    await audit({
+      entity: "AcademicYear",
+      action: "DELETE",
+      before: academicYear,
+    });
+
+    // revalidatePath("/list/academic-years");
+    return { success: true, error: false };
+  } catch (err) {
+    console.log(err);
+    return { success: false, error: true };
+  }
+};
+
+// Promotion keeps the section: "3A" in grade 3 goes to "4A" in grade 4
+const promotedClassName = (name: string, level: number) =>
+  name.startsWith(String(level))
+    ? `${level + 1}${name.slice(String(level).length)}`
+    : name;
+
+export const rolloverAcademicYear = async (
+  currentState: CurrentState,
+  data: RolloverSchema
+) => {
+  try {
+    if (!(await authorize("academicYear", "create", { data }))) {
+      return FORBIDDEN;
+    }
+
+    const currentYear = await getCurrentAcademicYear();
+
+    if (!currentYear) {
+      return { success: false, error: true };
+    }
+
+    const [studentsBefore, oldClasses, grades] = await Promise.all([
+      prisma.student.findMany({
+        where: { class: { academicYearId: currentYear.id } },
+      }),
+      prisma.class.findMany({
+        where: { academicYearId: currentYear.id, deletedAt: null },
+        include: {
+          grade: true,
+          students: {
+            where: { deletedAt: null },
+            select: { id: true, name: true, surname: true },
+          },
+          lessons: true,
+          gradeWeights: true,
+        },
+        orderBy: { name: "asc" },
+      }),
+      prisma.grade.findMany(),
+    ]);
+
+    // Students move up a grade, into their promoted class first ("3A" goes
+    // to "4A") and then into the next grade's classes with the most room
+    // left. Students with no next grade graduate and stay in their archived
+    // class. A next grade without a class this year gets one, named as the
+    // promoted class. Every class carries over empty, with its capacity.
+    const room = new Map(oldClasses.map((item) => [`${item.id}`, item.capacity]));
+    const classNames = oldClasses.map((item) => item.name);
+    const missingClasses = new Map<
+      number,
+      { key: string; name: string; capacity: number; gradeScaleId: number | null }
+    >();
+    const promotions: { key: string; gradeId: number; studentIds: string[] }[] =
+      [];
+    const unplaced: string[] = [];
+
+    for (const oldClass of oldClasses) {
+      const nextGrade = grades.find(
+        (grade) => grade.level === oldClass.grade.level + 1
+      );
+      if (!nextGrade || !oldClass.students.length) continue;
+
+      const promotedName = promotedClassName(
+        oldClass.name,
+        oldClass.grade.level
+      );
+      let targets = oldClasses
+        .filter((item) => item.gradeId === nextGrade.id)
+        .map((item) => ({ key: `${item.id}`, name: item.name }));
+      if (!targets.length) {
+        if (!missingClasses.has(nextGrade.id)) {
+          const missing = {
+            key: `grade-${nextGrade.id}`,
+            name: classNames.includes(promotedName)
+              ? `${promotedName} (grade ${nextGrade.level})`
+              : promotedName,
+            capacity: oldClass.capacity,
+            gradeScaleId: oldClass.gradeScaleId,
+          };
+          missingClasses.set(nextGrade.id, missing);
+          classNames.push(missing.name);
+          room.set(missing.key, missing.capacity);
+        }
+        targets = [missingClasses.get(nextGrade.id)!];
+      }
+      targets.sort(
+        (a, b) =>
+          Number(b.name === promotedName) - Number(a.name === promotedName) ||
+          room.get(b.key)! - room.get(a.key)!
+      );
+
+      let students = oldClass.students;
+      for (const target of targets) {
+        const count = Math.min(room.get(target.key)!, students.length);
+        if (!count) continue;
+        promotions.push({
+          key: target.key,
+          gradeId: nextGrade.id,
+          studentIds: students.slice(0, count).map((student) => student.id),
+        });
+        room.set(target.key, room.get(target.key)! - count);
+        students = students.slice(count);
+      }
+      unplaced.push(
+        ...students.map(
+          (student) =>
+            `${student.name} ${student.surname} (${oldClass.name})`
+        )
+      );
+    }
+
+    if (unplaced.length) {
+      return {
+        success: false,
+        error: true,
+        message: `The next grade's classes have no room for ${unplaced.join(", ")}`,
+      };
+    }
+
+    const { newYear, newClasses } = await prisma.$transaction(
+      async (tx) => {
+        const newYear = await tx.academicYear.create({
+          data: {
+            name: data.name,
+            startDate: data.startDate,
+            endDate: data.endDate,
+            terms: { create: data.terms },
+          },
+        });
+
+        // Every class carries over with the same name, grade and settings
+        const newClasses: Class[] = [];
+        const classByKey = new Map<string, Class>();
+        for (const oldClass of oldClasses) {
+          const newClass = await tx.class.create({
+            data: {
+              name: oldClass.name,
+              capacity: oldClass.capacity,
+              gradeId: oldClass.gradeId,
+              supervisorId: oldClass.supervisorId,
+              gradeScaleId: oldClass.gradeScaleId,
+              academicYearId: newYear.id,
+              gradeWeights: {
+                create: oldClass.gradeWeights.map((weight) => ({
+                  examWeight: weight.examWeight,
+                  assignmentWeight: weight.assignmentWeight,
+                  subjectId: weight.subjectId,
+                })),
+              },
+              lessons: data.copyLessons
+                ? {
+                    create: oldClass.lessons.map((lesson) => ({
+                      name: lesson.name,
+                      day: lesson.day,
+                      startTime: lesson.startTime,
+                      endTime: lesson.endTime,
+                      subjectId: lesson.subjectId,
+                      teacherId: lesson.teacherId,
+                    })),
+                  }
+                : undefined,
+            },
+          });
+          newClasses.push(newClass);
+          classByKey.set(`${oldClass.id}`, newClass);
+        }
+
+        for (const [gradeId, missing] of Array.from(missingClasses)) {
+          const newClass = await tx.class.create({
+            data: {
+              name: missing.name,
+              capacity: missing.capacity,
+              gradeId,
+              gradeScaleId: missing.gradeScaleId,
+              academicYearId: newYear.id,
+            },
+          });
+          newClasses.push(newClass);
+          classByKey.set(missing.key, newClass);
+        }
+
+        for (const { key, gradeId, studentIds } of promotions) {
+          const target = classByKey.get(key)!;
+          await tx.student.updateMany({
+            where: { id: { in: studentIds } },
+            data: { classId: target.id, gradeId },
+          });
+          await tx.enrollment.createMany({
+            data: studentIds.map((studentId) => ({
+              studentId,
+              classId: target.id,
+              gradeId,
+              academicYearId: newYear.id,
+            })),
+          });
+        }
+
+        await tx.academicYear.update({
+          where: { id: currentYear.id },
+          data: { isCurrent: false, archived: true },
+        });
+        await tx.academicYear.update({
+          where: { id: newYear.id },
+          data: { isCurrent: true },
+        });
+
+        return { newYear, newClasses };
+      },
+      { timeout: 60000 }
+    );
+
+    const [years, studentsAfter] = await Promise.all([
+      prisma.academicYear.findMany({
+        where: { id: { in: [currentYear.id, newYear.id] } },
+        include: { terms: { orderBy: { startDate: "asc" } } },
+      }),
+      prisma.student.findMany({
+        where: { id: { in: studentsBefore.map((student) => student.id) } },
+      }),
+    ]);
+    await prisma.$transaction([
+      auditChanges("AcademicYear", [currentYear], years),
+      audit(
+        newClasses.map((item) => ({
+          entity: "Class" as const,
+          action: "CREATE" as const,
+          after: item,
+        }))
+      ),
+      auditChanges("Student", studentsBefore, studentsAfter),
+    ]);
+
+    // revalidatePath("/list/academic-years");
+    return { success: true, error: false };
+  } catch (err) {
+    console.log(err);
+    return { success: false, error: true };
+  }
+};
+
+export const createRoom = async (
+  currentState: CurrentState,
+  data: RoomSchema
+) => {
+  try {
+    if (!(await authorize("room", "create", { data }))) {
+      return FORBIDDEN;
+    }
+
+    const room = await prisma.room.create({
+      data: {
+        name: data.name,
+        capacity: data.capacity || null,
+      },
+    });
+    await audit({ entity: "Room", action: "CREATE", after: room });
+
+    // revalidatePath("/list/rooms");
+    return { success: true, error: false };
+  } catch (err) {
+    console.log(err);
+    return { success: false, error: true };
+  }
+};
+
+export const updateRoom = async (
+  currentState: CurrentState,
+  data: RoomSchema
+) => {
+  try {
+    if (!(await authorize("room", "update", { id: data.id, data }))) {
+      return FORBIDDEN;
+    }
+
+    const before = await prisma.room.findUnique({ where: { id: data.id } });
+
+    const room = await prisma.room.update({
+      where: {
+        id: data.id,
+      },
+      data: {
+        name: data.name,
+        capacity: data.capacity || null,
+      },
+    });
+    await audit({ entity: "Room", action: "UPDATE", before, after: room });
+
+    // revalidatePath("/list/rooms");
+    return { success: true, error: false };
+  } catch (err) {
+    console.log(err);
+    return { success: false, error: true };
+  }
+};
+
+export const deleteRoom = async (
+  currentState: CurrentState,
+  data: FormData
+) => {
+  const id = data.get("id") as string;
+  try {
+    if (!(await authorize("room", "delete", { id }))) {
+      return FORBIDDEN;
+    }
+
+    const room = await prisma.room.delete({
+      where: {
+        id: parseInt(id),
+      },
+    });
+    await audit({ entity: "Room", action: "DELETE", before: room });
+
+    // revalidatePath("/list/rooms");
+    return { success: true, error: false };
+  } catch (err) {
+    console.log(err);
+    return { success: false, error: true };
+  }
+};
+
+// Periods split the day, so no two of them share a moment
+const findOverlappingPeriod = (data: PeriodSchema) =>
+  prisma.period.findFirst({
+    where: {
+      startTime: { lt: data.endTime },
+      endTime: { gt: data.startTime },
+      ...(data.id ? { id: { not: data.id } } : {}),
+    },
+  });
+
+const periodOverlap = (period: Period): ActionResult => ({
+  success: false,
+  error: true,
+  message: `It overlaps ${period.name} (${period.startTime}–${period.endTime})`,
+});
+
+export const createPeriod = async (
+  currentState: CurrentState,
+  data: PeriodSchema
+) => {
+  try {
+    if (!(await authorize("period", "create", { data }))) {
+      return FORBIDDEN;
+    }
+
+    const overlapping = await findOverlappingPeriod(data);
+    if (overlapping) {
+      return periodOverlap(overlapping);
+    }
+
+    const period = await prisma.period.create({
+      data: {
+        name: data.name,
+        startTime: data.startTime,
+        endTime: data.endTime,
+      },
+    });
+    await audit({ entity: "Period", action: "CREATE", after: period });
+
+    // revalidatePath("/list/periods");
+    return { success: true, error: false };
+  } catch (err) {
+    console.log(err);
+    return { success: false, error: true };
+  }
+};
+
+export const updatePeriod = async (
+  currentState: CurrentState,
+  data: PeriodSchema
+) => {
+  try {
+    if (!(await authorize("period", "update", { id: data.id, data }))) {
+      return FORBIDDEN;
+    }
+
+    const overlapping = await findOverlappingPeriod(data);
+    if (overlapping) {
+      return periodOverlap(overlapping);
+    }
+
+    const [before, lessonsBefore] = await Promise.all([
+      prisma.period.findUnique({ where: { id: data.id } }),
+      prisma.lesson.findMany({ where: { periodId: data.id } }),
+    ]);
+
+    // Lessons off the timetable's periods may be in the way of the new times.
+    // The period's own lessons move together, so they can't newly clash.
+    for (const lesson of lessonsBefore) {
+      const clashes = await findLessonClashes({
+        ...lesson,
+        ...getPeriodTimes(lesson.day, data),
+      });
+      const clash = clashes.find(
+        (item) => !lessonsBefore.some((moved) => moved.id === item.lessonId)
+      );
+      if (clash) {
+        return {
+          success: false,
+          error: true,
+          message: `${lesson.name} would clash with ${clash.lessonName} (${clash.className}) on ${lesson.day}`,
+        };
+      }
+    }
+
+    const { lessons, ...period } = await prisma.period.update({
+      where: {
+        id: data.id,
+      },
+      data: {
+        name: data.name,
+        startTime: data.startTime,
+        endTime: data.endTime,
+      },
+      include: { lessons: { select: { id: true, day: true } } },
+    });
+    await audit({ entity: "Period", action: "UPDATE", before, after: period });
+
+    // Lessons on the period follow its new times
+    const lessonsAfter = await prisma.$transaction(
+      lessons.map((lesson) =>
+        prisma.lesson.update({
+          where: { id: lesson.id },
+          data: getPeriodTimes(lesson.day, period),
+        })
+      )
+    );
+    await auditChanges("Lesson", lessonsBefore, lessonsAfter);
+
+    // revalidatePath("/list/periods");
+    return { success: true, error: false };
+  } catch (err) {
+    console.log(err);
+    return { success: false, error: true };
+  }
+};
+
+export const deletePeriod = async (
+  currentState: CurrentState,
+  data: FormData
+) => {
+  const id = data.get("id") as string;
+  try {
+    if (!(await authorize("period", "delete", { id }))) {
+      return FORBIDDEN;
+    }
+
+    const period = await prisma.period.delete({
+      where: {
+        id: parseInt(id),
+      },
+    });
+    await audit({ entity: "Period", action: "DELETE", before: period });
+
+    // revalidatePath("/list/periods");
+    return { success: true, error: false };
+  } catch (err) {
+    console.log(err);
+    return { success: false, error: true };
+  }
+};
+
+export const createSubjectHours = async (
+  currentState: CurrentState,
+  data: SubjectHoursSchema
+) => {
+  try {
+    if (!(await authorize("subjectHours", "create", { data }))) {
+      return FORBIDDEN;
+    }
+
+    const classSubjectHours = await prisma.classSubjectHours.create({
+      data: {
+        classId: data.classId,
+        subjectId: data.subjectId,
+        hoursPerWeek: data.hoursPerWeek,
+      },
+    });
+    await audit({
+      entity: "ClassSubjectHours",
+      action: "CREATE",
+      after: classSubjectHours,
+    });
+
+    // revalidatePath("/list/timetable/hours");
+    return { success: true, error: false };
+  } catch (err) {
+    console.log(err);
+    return { success: false, error: true };
+  }
+};
+
+export const updateSubjectHours = async (
+  currentState: CurrentState,
+  data: SubjectHoursSchema
+) => {
+  try {
+    if (!(await authorize("subjectHours", "update", { id: data.id, data }))) {
+      return FORBIDDEN;
+    }
+
+    const before = await prisma.classSubjectHours.findUnique({
+      where: { id: data.id },
+    });
+
+    const classSubjectHours = await prisma.classSubjectHours.update({
+      where: {
+        id: data.id,
+      },
+      data: {
+        classId: data.classId,
+        subjectId: data.subjectId,
+        hoursPerWeek: data.hoursPerWeek,
+      },
+    });
+    await audit({
+      entity: "ClassSubjectHours",
+      action: "UPDATE",
+      before,
+      after: classSubjectHours,
+    });
+
+    // revalidatePath("/list/timetable/hours");
+    return { success: true, error: false };
+  } catch (err) {
+    console.log(err);
+    return { success: false, error: true };
+  }
+};
+
+export const deleteSubjectHours = async (
+  currentState: CurrentState,
+  data: FormData
+) => {
+  const id = data.get("id") as string;
+  try {
+    if (!(await authorize("subjectHours", "delete", { id }))) {
+      return FORBIDDEN;
+    }
+
+    const classSubjectHours = await prisma.classSubjectHours.delete({
+      where: {
+        id: parseInt(id),
+      },
+    });
+    await audit({
+      entity: "ClassSubjectHours",
+      action: "DELETE",
+      before: classSubjectHours,
+    });
+
+    // revalidatePath("/list/timetable/hours");
+    return { success: true, error: false };
+  } catch (err) {
+    console.log(err);
+    return { success: false, error: true };
+  }
+};
+
+export const saveTeacherAvailability = async (
+  currentState: CurrentState,
+  data: TeacherAvailabilitySchema
+) => {
+  try {
+    if (!(await authorize("teacherAvailability", "update", { data }))) {
+      return FORBIDDEN;
+    }
+
+    const before = await prisma.teacherUnavailability.findMany({
+      where: { teacherId: data.teacherId },
+    });
+
+    await prisma.$transaction([
+      prisma.teacherUnavailability.deleteMany({
+        where: { teacherId: data.teacherId },
+      }),
+      prisma.teacherUnavailability.createMany({
+        data: data.unavailable.map((slot) => ({
+          teacherId: data.teacherId,
+          day: slot.day,
+          periodId: slot.periodId,
+        })),
+      }),
+    ]);
+    await auditChanges(
+      "TeacherUnavailability",
+      before,
+      await prisma.teacherUnavailability.findMany({
+        where: { teacherId: data.teacherId },
+      })
+    );
+
+    // revalidatePath("/list/timetable/availability");
+    return { success: true, error: false };
+  } catch (err) {
+    console.log(err);
+    return { success: false, error: true };
+  }
+};
+
+// A new draft replaces any earlier one that was never committed
+export const generateTimetableDraft = async (
+  currentState: CurrentState,
+  data: TimetableGenerationSchema
+) => {
+  try {
+    if (!(await authorize("timetableDraft", "create", { data }))) {
+      return FORBIDDEN;
+    }
+
+    const input = await getSolverInput(data.classIds);
+
+    if (!input.periodIds.length) {
+      return { success: false, error: true };
+    }
+
+    const result = solveTimetable(input);
+
+    const [classes, subjects, drafts] = await prisma.$transaction([
+      prisma.class.findMany({
+        where: { id: { in: data.classIds } },
+        select: { id: true, name: true },
+      }),
+      prisma.subject.findMany({ select: { id: true, name: true } }),
+      prisma.timetableDraft.findMany({ where: { committedAt: null } }),
+    ]);
+
+    const [, draft] = await prisma.$transaction([
+      prisma.timetableDraft.deleteMany({ where: { committedAt: null } }),
+      prisma.timetableDraft.create({
+        data: {
+          penalty: result.penalty,
+          unplaced: result.unplaced.map((item) => ({
+            ...item,
+            className: classes.find((c) => c.id === item.classId)?.name,
+            subjectName: subjects.find((s) => s.id === item.subjectId)?.name,
+          })),
+          classes: { connect: data.classIds.map((id) => ({ id })) },
+          lessons: { create: result.lessons },
+        },
+      }),
+    ]);
+    await audit([
+      ...drafts.map((item) => ({
+        entity: "TimetableDraft" as const,
+        action: "DELETE" as const,
+        before: item,
+      })),
+      { entity: "TimetableDraft", action: "CREATE", after: draft },
+    ]);
+
+    // revalidatePath("/list/timetable/generate");
+    return { success: true, error: false };
+  } catch (err) {
+    console.log(err);
+    return { success: false, error: true };
+  }
+};
+
+export const commitTimetableDraft = async (
+  currentState: CurrentState,
+  data: FormData
+) => {
+  const id = parseInt(data.get("id") as string);
+  try {
+    if (!(await authorize("timetableDraft", "update", { id }))) {
+      return FORBIDDEN;
+    }
+
+    // Lessons of the draft's classes are the ones the commit can change
+    const findLessons = () =>
+      prisma.lesson.findMany({
+        where: { class: { drafts: { some: { id } } } },
+      });
+    const [before, lessonsBefore] = await Promise.all([
+      prisma.timetableDraft.findUnique({ where: { id } }),
+      findLessons(),
+    ]);
+
+    const draft = await prisma.$transaction(
+      async (tx) => {
+        const plan = await planDraftCommit(id, tx);
+
+        if (!plan || plan.blocked.length) {
+          throw new Error("The draft can't replace the current lessons");
+        }
+
+        const draftLessons = await tx.timetableDraftLesson.findMany({
+          where: { draftId: id },
+          include: { period: true, subject: { select: { name: true } } },
+        });
+
+        const toLesson = (draftLesson: (typeof draftLessons)[number]) => ({
+          day: draftLesson.day,
+          ...getPeriodTimes(draftLesson.day, draftLesson.period),
+          periodId: draftLesson.periodId,
+          teacherId: draftLesson.teacherId,
+          roomId: draftLesson.roomId,
+        });
+
+        for (const { lessonId, draftLessonId } of plan.update) {
+          await tx.lesson.update({
+            where: { id: lessonId },
+            data: toLesson(draftLessons.find((l) => l.id === draftLessonId)!),
+          });
+        }
+
+        // Lessons with history end yesterday, their replacements start today
+        const today = toDateOnly(new Date());
+        const yesterday = new Date(today.getTime() - 24 * 60 * 60 * 1000);
+        for (const { lessonId, draftLessonId } of plan.replace) {
+          const ended = await tx.lesson.update({
+            where: { id: lessonId },
+            data: { validUntil: yesterday },
+          });
+          await tx.lesson.create({
+            data: {
+              ...toLesson(draftLessons.find((l) => l.id === draftLessonId)!),
+              name: ended.name,
+              classId: ended.classId,
+              subjectId: ended.subjectId,
+              validFrom: today,
+              validUntil: null,
+            },
+          });
+        }
+
+        await tx.lesson.createMany({
+          data: draftLessons
+            .filter((draftLesson) => plan.create.includes(draftLesson.id))
+            .map((draftLesson) => ({
+              ...toLesson(draftLesson),
+              name: draftLesson.subject.name,
+              classId: draftLesson.classId,
+              subjectId: draftLesson.subjectId,
+            })),
+        });
+
+        await tx.lesson.deleteMany({ where: { id: { in: plan.remove } } });
+
+        return tx.timetableDraft.update({
+          where: { id },
+          data: { committedAt: new Date() },
+        });
+      },
+      { timeout: 60000 }
+    );
+    await prisma.$transaction([
+      auditChanges("Lesson", lessonsBefore, await findLessons()),
+      audit({
+        entity: "TimetableDraft",
+        action: "UPDATE",
+        before,
+        after: draft,
+      }),
+    ]);
+
+    // revalidatePath("/list/timetable");
+    return { success: true, error: false };
+  } catch (err) {
+    console.log(err);
+    return { success: false, error: true };
+  }
+};
+
+export const discardTimetableDraft = async (
+  currentState: CurrentState,
+  data: FormData
+) => {
+  const id = data.get("id") as string;
+  try {
+    if (!(await authorize("timetableDraft", "delete", { id }))) {
+      return FORBIDDEN;
+    }
+
+    const timetableDraft = await prisma.timetableDraft.delete({
+      where: {
+        id: parseInt(id),
+        committedAt: null,
+      },
+    });
+    await audit({
+      entity: "TimetableDraft",
+      action: "DELETE",
+      before: timetableDraft,
+    });
+
+    // revalidatePath("/list/timetable/generate");
+    return { success: true, error: false };
+  } catch (err) {
+    console.log(err);
+    return { success: false, error: true };
+  }
+};
+
+// Only real occurrences of the lesson can be changed, and a substitute must be
+// free of their own lessons at that time
+const isValidException = async (data: LessonExceptionSchema) => {
+  const date = toDateOnly(data.date);
+  const lesson = await prisma.lesson.findUnique({
+    where: { id: data.lessonId },
+  });
+
+  if (!lesson || getLessonDay(date) !== lesson.day) return false;
+
+  if (data.substituteTeacherId) {
+    const clashes = await findLessonClashes({
+      day: lesson.day,
+      startTime: lesson.startTime,
+      endTime: lesson.endTime,
+      teacherId: data.substituteTeacherId,
+      classId: lesson.classId,
+      validFrom: date,
+      validUntil: date,
+    });
+    if (clashes.some((clash) => clash.kind === "teacher")) return false;
+  }
+
+  return true;
+};
+
+export const createLessonException = async (
+  currentState: CurrentState,
+  data: LessonExceptionSchema
+) => {
+  try {
+    if (!(await authorize("lessonException", "create", { data }))) {
+      return FORBIDDEN;
+    }
+
+    if (!(await isValidException(data))) {
+      return { success: false, error: true };
+    }
+
+    const lessonException = await prisma.lessonException.create({
+      data: {
+        lessonId: data.lessonId,
+        date: toDateOnly(data.date),
+        cancelled: data.cancelled,
+        substituteTeacherId: data.cancelled
+          ? null
+          : data.substituteTeacherId || null,
+        roomId: data.cancelled ? null : data.roomId || null,
+        reason: data.reason || null,
+      },
+    });
+    await audit({
+      entity: "LessonException",
+      action: "CREATE",
+      after: lessonException,
+    });
+
+    // revalidatePath("/list/lesson-changes");
+    return { success: true, error: false };
+  } catch (err) {
+    console.log(err);
+    return { success: false, error: true };
+  }
+};
+
+export const updateLessonException = async (
+  currentState: CurrentState,
+  data: LessonExceptionSchema
+) => {
+  try {
+    if (!(await authorize("lessonException", "update", { id: data.id, data }))) {
+      return FORBIDDEN;
+    }
+
+    if (!(await isValidException(data))) {
+      return { success: false, error: true };
+    }
+
+    const before = await prisma.lessonException.findUnique({
+      where: { id: data.id },
+    });
+
+    const lessonException = await prisma.lessonException.update({
+      where: {
+        id: data.id,
+      },
+      data: {
+        lessonId: data.lessonId,
+        date: toDateOnly(data.date),
+        cancelled: data.cancelled,
+        substituteTeacherId: data.cancelled
+          ? null
+          : data.substituteTeacherId || null,
+        roomId: data.cancelled ? null : data.roomId || null,
+        reason: data.reason || null,
+      },
+    });
+    await audit({
+      entity: "LessonException",
+      action: "UPDATE",
+      before,
+      after: lessonException,
+    });
+
+    // revalidatePath("/list/lesson-changes");
+    return { success: true, error: false };
+  } catch (err) {
+    console.log(err);
+    return { success: false, error: true };
+  }
+};
+
+export const deleteLessonException = async (
+  currentState: CurrentState,
+  data: FormData
+) => {
+  const id = data.get("id") as string;
+  try {
+    if (!(await authorize("lessonException", "delete", { id }))) {
+      return FORBIDDEN;
+    }
+
+    const lessonException = await prisma.lessonException.delete({
+      where: {
+        id: parseInt(id),
+      },
+    });
+    await audit({
+      entity: "LessonException",
+      action: "DELETE",
+      before: lessonException,
+    });
+
+    // revalidatePath("/list/lesson-changes");
+    return { success: true, error: false };
+  } catch (err) {
+    console.log(err);
+    return { success: false, error: true };
+  }
+};
+
+export const createHoliday = async (
+  currentState: CurrentState,
+  data: HolidaySchema
+) => {
+  try {
+    if (!(await authorize("holiday", "create", { data }))) {
+      return FORBIDDEN;
+    }
+
+    const holiday = await prisma.holiday.create({
+      data: {
+        name: data.name,
+        startDate: toDateOnly(data.startDate),
+        endDate: toDateOnly(data.endDate),
+      },
+    });
+    await audit({ entity: "Holiday", action: "CREATE", after: holiday });
+
+    // revalidatePath("/list/holidays");
+    return { success: true, error: false };
+  } catch (err) {
+    console.log(err);
+    return { success: false, error: true };
+  }
+};
+
+export const updateHoliday = async (
+  currentState: CurrentState,
+  data: HolidaySchema
+) => {
+  try {
+    if (!(await authorize("holiday", "update", { id: data.id, data }))) {
+      return FORBIDDEN;
+    }
+
+    const before = await prisma.holiday.findUnique({ where: { id: data.id } });
+
+    const holiday = await prisma.holiday.update({
+      where: {
+        id: data.id,
+      },
+      data: {
+        name: data.name,
+        startDate: toDateOnly(data.startDate),
+        endDate: toDateOnly(data.endDate),
+      },
+    });
+    await audit({
+      entity: "Holiday",
+      action: "UPDATE",
+      before,
+      after: holiday,
+    });
+
+    // revalidatePath("/list/holidays");
+    return { success: true, error: false };
+  } catch (err) {
+    console.log(err);
+    return { success: false, error: true };
+  }
+};
+
+export const deleteHoliday = async (
+  currentState: CurrentState,
+  data: FormData
+) => {
+  const id = data.get("id") as string;
+  try {
+    if (!(await authorize("holiday", "delete", { id }))) {
+      return FORBIDDEN;
+    }
+
+    const holiday = await prisma.holiday.delete({
+      where: {
+        id: parseInt(id),
+      },
+    });
+    await audit({ entity: "Holiday", action: "DELETE", before: holiday });
+
+    // revalidatePath("/list/holidays");
+    return { success: true, error: false };
+  } catch (err) {
+    console.log(err);
+    return { success: false, error: true };
+  }
+};
+
+export const createTeacherAbsence = async (
+  currentState: CurrentState,
+  data: TeacherAbsenceSchema
+) => {
+  try {
+    if (!(await authorize("teacherAbsence", "create", { data }))) {
+      return FORBIDDEN;
+    }
+
+    const teacherAbsence = await prisma.teacherAbsence.create({
+      data: {
+        teacherId: data.teacherId,
+        startDate: toDateOnly(data.startDate),
+        endDate: toDateOnly(data.endDate),
+        reason: data.reason || null,
+      },
+    });
+    await audit({
+      entity: "TeacherAbsence",
+      action: "CREATE",
+      after: teacherAbsence,
+    });
+
+    // revalidatePath("/list/absences");
+    return { success: true, error: false };
+  } catch (err) {
+    console.log(err);
+    return { success: false, error: true };
+  }
+};
+
+export const updateTeacherAbsence = async (
+  currentState: CurrentState,
+  data: TeacherAbsenceSchema
+) => {
+  try {
+    if (!(await authorize("teacherAbsence", "update", { id: data.id, data }))) {
+      return FORBIDDEN;
+    }
+
+    const before = await prisma.teacherAbsence.findUnique({
+      where: { id: data.id },
+    });
+
+    const teacherAbsence = await prisma.teacherAbsence.update({
+      where: {
+        id: data.id,
+      },
+      data: {
+        teacherId: data.teacherId,
+        startDate: toDateOnly(data.startDate),
+        endDate: toDateOnly(data.endDate),
+        reason: data.reason || null,
+      },
+    });
+    await audit({
+      entity: "TeacherAbsence",
+      action: "UPDATE",
+      before,
+      after: teacherAbsence,
+    });
+
+    // revalidatePath("/list/absences");
+    return { success: true, error: false };
+  } catch (err) {
+    console.log(err);
+    return { success: false, error: true };
+  }
+};
+
+// Covers already assigned stay as lesson changes after the absence is deleted
+export const deleteTeacherAbsence = async (
+  currentState: CurrentState,
+  data: FormData
+) => {
+  const id = data.get("id") as string;
+  try {
+    if (!(await authorize("teacherAbsence", "delete", { id }))) {
+      return FORBIDDEN;
+    }
+
+    const teacherAbsence = await prisma.teacherAbsence.delete({
+      where: {
+        id: parseInt(id),
+      },
+    });
+    await audit({
+      entity: "TeacherAbsence",
+      action: "DELETE",
+      before: teacherAbsence,
+    });
+
+    // revalidatePath("/list/absences");
+    return { success: true, error: false };
+  } catch (err) {
+    console.log(err);
+    return { success: false, error: true };
+  }
+};
+
+// Covers or cancels one occurrence of a lesson, keeping any room change
+export const assignCover = async (
+  currentState: CurrentState,
+  data: CoverAssignmentSchema
+) => {
+  const date = toDateOnly(data.date);
+  const where = { lessonId_date: { lessonId: data.lessonId, date } };
+
+  try {
+    if (!(await authorize("lessonException", "update", { data }))) {
+      return FORBIDDEN;
+    }
+
+    const lesson = await prisma.lesson.findUnique({
+      where: { id: data.lessonId },
+    });
+
+    if (!lesson || getLessonDay(date) !== lesson.day) {
+      return { success: false, error: true };
+    }
+
+    if (
+      !data.cancelled &&
+      data.substituteTeacherId &&
+      !(await canSubstitute(lesson.id, date, data.substituteTeacherId))
+    ) {
+      return { success: false, error: true };
+    }
+
+    const existing = await prisma.lessonException.findUnique({ where });
+
+    if (!data.cancelled && !data.substituteTeacherId) {
+      if (existing?.roomId) {
+        const exception = await prisma.lessonException.update({
+          where,
+          data: { cancelled: false, substituteTeacherId: null },
+        });
+        await audit({
+          entity: "LessonException",
+          action: "UPDATE",
+          before: existing,
+          after: exception,
+        });
+      } else if (existing) {
+        await prisma.lessonException.delete({ where });
+        await audit({
+          entity: "LessonException",
+          action: "DELETE",
+          before: existing,
+        });
+      }
+    } else {
+      const exception = await prisma.lessonException.upsert({
+        where,
+        create: {
+          lessonId: lesson.id,
+          date,
+          cancelled: data.cancelled,
+          substituteTeacherId: data.cancelled ? null : data.substituteTeacherId,
+          reason: "Teacher absent",
+        },
+        update: {
+          cancelled: data.cancelled,
+          substituteTeacherId: data.cancelled ? null : data.substituteTeacherId,
+          ...(data.cancelled ? { roomId: null } : {}),
+        },
+      });
+      await audit({
+        entity: "LessonException",
+        action: existing ? "UPDATE" : "CREATE",
+        before: existing,
+        after: exception,
+      });
+    }
+
+    // revalidatePath("/list/absences");
+    return { success: true, error: false };
+  } catch (err) {
+    console.log(err);
+    return { success: false, error: true };
+  }
+};
+
+export const createImportJob = async (
+  currentState: CurrentState,
+  data: FormData
+) => {
+  try {
+    if (!(await authorize("importJob", "create"))) {
+      return FORBIDDEN;
+    }
+
+    const entity = data.get("entity") as ImportEntity;
+    const file = data.get("file") as File | null;
+
+    if (!file || !(entity in IMPORT_FIELDS)) {
+      return { success: false, error: true };
+    }
+
+    const parsed = await readImportFile(file);
+
+    if ("error" in parsed) {
+      return { success: false, error: true, message: parsed.error };
+    }
+
+    const job = await prisma.importJob.create({
+      data: {
+        entity,
+        fileName: file.name,
+        headers: parsed.headers,
+        rows: parsed.rows,
+        mapping: suggestMapping(entity, parsed.headers),
+      },
+    });
+    await audit({ entity: "ImportJob", action: "CREATE", after: job });
+
+    // revalidatePath("/list/imports");
+    return { success: true, error: false, data: { id: job.id } };
+  } catch (err) {
+    console.log(err);
+    return { success: false, error: true };
+  }
+};
+
+// The dry run: checks every row not imported yet against the school as it is
+// now and records what importing it would do
+export const validateImport = async (
+  currentState: CurrentState,
+  data: ImportMappingSchema
+) => {
+  try {
+    if (!(await authorize("importJob", "update", { id: data.id, data }))) {
+      return FORBIDDEN;
+    }
+
+    const job = await prisma.importJob.findUnique({
+      where: { id: data.id },
+      include: { results: { where: { status: "DONE" } } },
+    });
+
+    if (!job || job.status === "COMPLETED") {
+      return { success: false, error: true };
+    }
+
+    const mapping: ImportMapping = Object.fromEntries(
+      Object.entries(data.mapping).filter(([, column]) =>
+        job.headers.includes(column)
+      )
+    );
+    const missing = getMissingFields(job.entity, mapping);
+
+    if (missing.length) {
+      return {
+        success: false,
+        error: true,
+        message: `Choose a column for ${missing
+          .map((field) => field.label)
+          .join(", ")}`,
+      };
+    }
+
+    const rows = job.rows as ImportFileRow[];
+    const { results, ...before } = job;
+    const done = results.map((result) => result.index);
+    const prepared = await prepareImport(
+      job.entity,
+      rows,
+      mapping,
+      rows.map((_, index) => index).filter((index) => !done.includes(index))
+    );
+
+    const [updated] = await prisma.$transaction([
+      prisma.importJob.update({
+        where: { id: job.id },
+        data: { mapping, status: "VALIDATED" },
+      }),
+      // Rows keep the Clerk user of an earlier failed attempt
+      ...prepared.map((row) => {
+        const fields = {
+          label: row.label,
+          action: row.action,
+          status: row.data ? ("READY" as const) : ("INVALID" as const),
+          errors: row.errors,
+        };
+        return prisma.importRow.upsert({
+          where: { jobId_index: { jobId: job.id, index: row.index } },
+          create: { jobId: job.id, index: row.index, ...fields },
+          update: fields,
+        });
+      }),
+    ]);
+    await audit({
+      entity: "ImportJob",
+      action: "UPDATE",
+      before,
+      after: updated,
+    });
+
+    // revalidatePath(`/list/imports/${job.id}`);
+    return { success: true, error: false };
+  } catch (err) {
+    console.log(err);
+    return { success: false, error: true };
+  }
+};
+
+// Saves the ready and failed rows one by one, so an import cut short or with
+// failures can be resumed from where it stopped
+export const runImport = async (currentState: CurrentState, data: FormData) => {
+  const id = parseInt(data.get("id") as string);
+  try {
+    if (!(await authorize("importJob", "update", { id }))) {
+      return FORBIDDEN;
+    }
+
+    const job = await prisma.importJob.findUnique({
+      where: { id },
+      include: {
+        results: { where: { status: { in: ["READY", "FAILED"] } } },
+      },
+    });
+
+    if (!job?.mapping || job.status === "UPLOADED") {
+      return { success: false, error: true };
+    }
+
+    // Checked again, the school may have changed since the dry run
+    const prepared = await prepareImport(
+      job.entity,
+      job.rows as ImportFileRow[],
+      job.mapping as ImportMapping,
+      job.results.map((result) => result.index)
+    );
+
+    for (const row of prepared) {
+      const result = job.results.find((item) => item.index === row.index)!;
+
+      if (!row.data) {
+        await prisma.importRow.update({
+          where: { id: result.id },
+          data: { status: "INVALID", action: row.action, errors: row.errors },
+        });
+        continue;
+      }
+
+      try {
+        const recordId = await saveImportRow(
+          job.entity,
+          row.data,
+          result.recordId,
+          (userId) =>
+            prisma.importRow.update({
+              where: { id: result.id },
+              data: { recordId: userId },
+            })
+        );
+
+        await prisma.importRow.update({
+          where: { id: result.id },
+          data: { status: "DONE", action: row.action, errors: [], recordId },
+        });
+      } catch (err) {
+        console.log(err);
+        await prisma.importRow.update({
+          where: { id: result.id },
+          data: { status: "FAILED", errors: [describeImportError(err)] },
+        });
+      }
+    }
+
+    const remaining = await prisma.importRow.count({
+      where: { jobId: id, status: { not: "DONE" } },
+    });
+
+    const before = await prisma.importJob.findUnique({ where: { id } });
+
+    const importJob = await prisma.importJob.update({
+      where: { id },
+      data: { status: remaining ? "PARTIAL" : "COMPLETED" },
+    });
+    await audit({
+      entity: "ImportJob",
+      action: "UPDATE",
+      before,
+      after: importJob,
+    });
+
+    // revalidatePath(`/list/imports/${id}`);
+    return { success: true, error: false };
+  } catch (err) {
+    console.log(err);
+    return { success: false, error: true };
+  }
+};
+
+export const deleteImportJob = async (
+  currentState: CurrentState,
+  data: FormData
+) => {
+  const id = data.get("id") as string;
+  try {
+    if (!(await authorize("importJob", "delete", { id }))) {
+      return FORBIDDEN;
+    }
+
+    const importJob = await prisma.importJob.delete({
+      where: {
+        id: parseInt(id),
+      },
+    });
+    await audit({ entity: "ImportJob", action: "DELETE", before: importJob });
+
+    // revalidatePath("/list/imports");
+    return { success: true, error: false };
+  } catch (err) {
+    console.log(err);
+    return { success: false, error: true };
+  }
+};
+
+export const createReportCardTemplate = async (
+  currentState: CurrentState,
+  data: ReportCardTemplateSchema
+) => {
+  try {
+    if (!(await authorize("reportCardTemplate", "create", { data }))) {
+      return FORBIDDEN;
+    }
+
+    const { id, ...template } = data;
+    const before = await prisma.reportCardTemplate.findMany();
+
+    await prisma.$transaction([
+      // Only one template can be the default
+      ...(data.isDefault
+        ? [prisma.reportCardTemplate.updateMany({ data: { isDefault: false } })]
+        : []),
+      prisma.reportCardTemplate.create({
+        data: { ...template, footer: template.footer || null },
+      }),
+    ]);
+    await auditChanges(
+      "ReportCardTemplate",
+      before,
+      await prisma.reportCardTemplate.findMany()
+    );
+
+    // revalidatePath("/list/report-cards");
+    return { success: true, error: false };
+  } catch (err) {
+    console.log(err);
+    return { success: false, error: true };
+  }
+};
+
+export const updateReportCardTemplate = async (
+  currentState: CurrentState,
+  data: ReportCardTemplateSchema
+) => {
+  try {
+    if (
+      !(await authorize("reportCardTemplate", "update", { id: data.id, data }))
+    ) {
+      return FORBIDDEN;
+    }
+
+    const { id, ...template } = data;
+    const before = await prisma.reportCardTemplate.findMany();
+
+    await prisma.$transaction([
+      ...(data.isDefault
+        ? [
+            prisma.reportCardTemplate.updateMany({
+              where: { id: { not: id } },
+              data: { isDefault: false },
+            }),
+          ]
+        : []),
+      prisma.reportCardTemplate.update({
+        where: {
+          id,
+        },
+        data: { ...template, footer: template.footer || null },
+      }),
+    ]);
+    await auditChanges(
+      "ReportCardTemplate",
+      before,
+      await prisma.reportCardTemplate.findMany()
+    );
+
+    // revalidatePath("/list/report-cards");
+    return { success: true, error: false };
+  } catch (err) {
+    console.log(err);
+    return { success: false, error: true };
+  }
+};
+
+export const deleteReportCardTemplate = async (
+  currentState: CurrentState,
+  data: FormData
+) => {
+  const id = data.get("id") as string;
+  try {
+    if (!(await authorize("reportCardTemplate", "delete", { id }))) {
+      return FORBIDDEN;
+    }
+
+    const used = await prisma.reportCard.count({
+      where: { templateId: parseInt(id) },
+    });
+    if (used) {
+      return {
+        success: false,
+        error: true,
+        message: `${used} report cards use this template`,
+      };
+    }
+
+    const reportCardTemplate = await prisma.reportCardTemplate.delete({
+      where: {
+        id: parseInt(id),
+      },
+    });
+    await audit({
+      entity: "ReportCardTemplate",
+      action: "DELETE",
+      before: reportCardTemplate,
+    });
+
+    // revalidatePath("/list/report-cards");
+    return { success: true, error: false };
+  } catch (err) {
+    console.log(err);
+    return { success: false, error: true };
+  }
+};
+
+export const generateReportCards = async (
+  currentState: CurrentState,
+  data: ReportCardGenerationSchema
+) => {
+  try {
+    if (!(await authorize("reportCard", "create", { data }))) {
+      return FORBIDDEN;
+    }
+
+    const { generated, skipped } = await generateClassReportCards(
+      data.classId,
+      data.termId,
+      data.templateId
+    );
+
+    // revalidatePath("/list/report-cards");
+    return {
+      success: true,
+      error: false,
+      message:
+        `${generated} report cards generated` +
+        (skipped ? `, ${skipped} published ones left unchanged` : ""),
+    };
+  } catch (err) {
+    console.log(err);
+    return { success: false, error: true };
+  }
+};
+
+export const publishReportCards = async (
+  currentState: CurrentState,
+  data: ReportCardPublishSchema
+) => {
+  try {
+    if (!(await authorize("reportCard", "update", { data }))) {
+      return FORBIDDEN;
+    }
+
+    const where = { classId: data.classId, termId: data.termId };
+    const before = await prisma.reportCard.findMany({ where });
+
+    const { count } = await prisma.reportCard.updateMany({
+      where,
+      data: { releaseDate: toDateOnly(data.releaseDate) },
+    });
+    await auditChanges(
+      "ReportCard",
+      before,
+      await prisma.reportCard.findMany({ where })
+    );
+
+    // revalidatePath("/list/report-cards");
+    return {
+      success: true,
+      error: false,
+      message: `${count} report cards published`,
+    };
+  } catch (err) {
+    console.log(err);
+    return { success: false, error: true };
+  }
+};
+
+// Takes the class's cards back to drafts so they can be regenerated or edited
+export const unpublishReportCards = async (
+  currentState: CurrentState,
+  data: FormData
+) => {
+  const classId = parseInt(data.get("classId") as string);
+  const termId = parseInt(data.get("termId") as string);
+  try {
+    if (
+      !(await authorize("reportCard", "update", { data: { classId, termId } }))
+    ) {
+      return FORBIDDEN;
+    }
+
+    const before = await prisma.reportCard.findMany({
+      where: { classId, termId },
+    });
+
+    await prisma.reportCard.updateMany({
+      where: { classId, termId },
+      data: { releaseDate: null },
+    });
+    await auditChanges(
+      "ReportCard",
+      before,
+      await prisma.reportCard.findMany({ where: { classId, termId } })
+    );
+
+    // revalidatePath("/list/report-cards");
+    return { success: true, error: false };
+  } catch (err) {
+    console.log(err);
+    return { success: false, error: true };
+  }
+};
+
+export const saveReportCardComment = async (
+  currentState: CurrentState,
+  data: ReportCardCommentSchema
+) => {
+  try {
+    const actor = await authorize("reportCardComment", "update", {
+      id: data.reportCardId,
+      data,
+    });
+    if (!actor) {
+      return FORBIDDEN;
+    }
+
+    const card = await prisma.reportCard.findUniqueOrThrow({
+      where: { id: data.reportCardId },
+    });
+
+    if (card.releaseDate) {
+      return {
+        success: false,
+        error: true,
+        message: "Published report cards can't be changed",
+      };
+    }
+
+    const comment = data.comment.trim();
+
+    if (!data.subjectId) {
+      const updated = await prisma.reportCard.update({
+        where: { id: data.reportCardId },
+        data: { supervisorComment: comment || null },
+      });
+      await audit({
+        entity: "ReportCard",
+        action: "UPDATE",
+        before: card,
+        after: updated,
+      });
+      return { success: true, error: false };
+    }
+
+    const where = {
+      reportCardId_subjectId: {
+        reportCardId: data.reportCardId,
+        subjectId: data.subjectId,
+      },
+    };
+    const existing = await prisma.reportCardComment.findUnique({ where });
+
+    if (!comment) {
+      if (existing) {
+        await prisma.reportCardComment.delete({ where });
+        await audit({
+          entity: "ReportCardComment",
+          action: "DELETE",
+          before: existing,
+        });
+      }
+      return { success: true, error: false };
+    }
+
+    // Admins write on behalf of whoever teaches the subject in the class
+    const teacherId =
+      actor.role === "teacher"
+        ? actor.userId
+        : (
+            await prisma.lesson.findFirst({
+              where: { classId: card.classId, subjectId: data.subjectId },
+              select: { teacherId: true },
+            })
+          )?.teacherId;
+
+    if (!teacherId) {
+      return {
+        success: false,
+        error: true,
+        message: "Nobody teaches this subject in the class",
+      };
+    }
+
+    const saved = await prisma.reportCardComment.upsert({
+      where,
+      create: {
+        reportCardId: data.reportCardId,
+        subjectId: data.subjectId,
+        teacherId,
+        comment,
+      },
+      update: { teacherId, comment },
+    });
+    await audit({
+      entity: "ReportCardComment",
+      action: existing ? "UPDATE" : "CREATE",
+      before: existing,
+      after: saved,
+    });
+
+    // revalidatePath(`/list/report-cards/${data.reportCardId}`);
+    return { success: true, error: false };
+  } catch (err) {
+    console.log(err);
+    return { success: false, error: true };
+  }
+};
+
+// Takes a class, teacher or student back out of the trash. What was moved
+// elsewhere when it was deleted stays where it went.
+export const restoreFromTrash = async (
+  currentState: CurrentState,
+  data: FormData
+) => {
+  const entity = data.get("entity") as TrashEntity;
+  const id = data.get("id") as string;
+  try {
+    if (!(await authorize(entity, "delete", { id }))) {
+      return FORBIDDEN;
+    }
+
+    if (entity === "class") {
+      const before = await prisma.class.findUnique({
+        where: { id: parseInt(id) },
+      });
+      const classItem = await prisma.class.update({
+        where: { id: parseInt(id) },
+        data: { deletedAt: null },
+      });
+      await audit({
+        entity: "Class",
+        action: "UPDATE",
+        before,
+        after: classItem,
+      });
+    }
+
+    if (entity === "teacher") {
+      const include = { subjects: { select: { id: true } } };
+      const before = await prisma.teacher.findUnique({
+        where: { id },
+        include,
+      });
+      const teacher = await prisma.teacher.update({
+        where: { id },
+        data: { deletedAt: null },
+        include,
+      });
+      await clerkClient.users.unbanUser(id);
+      await audit({
+        entity: "Teacher",
+        action: "UPDATE",
+        before,
+        after: teacher,
+      });
+    }
+
+    if (entity === "student") {
+      const found = await prisma.student.findUnique({
+        where: { id },
+        include: { class: true },
+      });
+      if (!found) {
+        return { success: false, error: true };
+      }
+      const { class: classItem, ...before } = found;
+
+      if (classItem.deletedAt) {
+        return {
+          success: false,
+          error: true,
+          message: `Restore class ${classItem.name} first or move the student`,
+        };
+      }
+
+      const student = await prisma.student.update({
+        where: { id },
+        data: { deletedAt: null },
+      });
+      await clerkClient.users.unbanUser(id);
+      await audit({
+        entity: "Student",
+        action: "UPDATE",
+        before,
+        after: student,
+      });
+    }
+
+    // revalidatePath("/list/trash");
+    return { success: true, error: false };
+  } catch (err) {
+    console.log(err);
+    return { success: false, error: true };
+  }
+};
+
+// Deletes a record in the trash for good. Records that others still refer to,
+// like a student with results, can only stay in the trash.
+export const deletePermanently = async (
+  currentState: CurrentState,
+  data: FormData
+) => {
+  const entity = data.get("entity") as TrashEntity;
+  const id = data.get("id") as string;
+  try {
+    if (!(await authorize(entity, "delete", { id }))) {
+      return FORBIDDEN;
+    }
+
+    const inTrash = { deletedAt: { not: null } };
+
+    if (entity === "class") {
+      const classItem = await prisma.class.delete({
+        where: { id: parseInt(id), ...inTrash },
+      });
+      await audit({ entity: "Class", action: "DELETE", before: classItem });
+    }
+
+    if (entity === "teacher") {
+      const teacher = await prisma.teacher.delete({
+        where: { id, ...inTrash },
+      });
+      await clerkClient.users.deleteUser(id);
+      await audit({ entity: "Teacher", action: "DELETE", before: teacher });
+    }
+
+    if (entity === "student") {
+      const student = await prisma.student.delete({
+        where: { id, ...inTrash },
+      });
+      await clerkClient.users.deleteUser(id);
+      await audit({ entity: "Student", action: "DELETE", before: student });
+    }
+
+    // revalidatePath("/list/trash");
+    return { success: true, error: false };
+  } catch (err) {
+    console.log(err);
+    if (isStillReferenced(err)) {
+      return {
+        success: false,
+        error: true,
+        message: `Other records still refer to this ${entity}, so it stays in the trash`,
+      };
+    }
+    return { success: false, error: true };
+  }
+};
+
+const feeStructureData = (data: FeeStructureSchema) => ({
+  name: data.name,
+  amount: roundMoney(data.amount),
+  dueDate: toDateOnly(data.dueDate),
+  academicYearId: data.academicYearId,
+  gradeId: data.gradeId || null,
+  classId: data.classId || null,
+});
+
+export const createFeeStructure = async (
+  currentState: CurrentState,
+  data: FeeStructureSchema
+) => {
+  try {
+    if (!(await authorize("feeStructure", "create", { data }))) {
+      return FORBIDDEN;
+    }
+
+    const feeStructure = await prisma.feeStructure.create({
+      data: feeStructureData(data),
+    });
+    await audit({
+      entity: "FeeStructure",
+      action: "CREATE",
+      after: feeStructure,
+    });
+
+    // revalidatePath("/list/fees");
+    return { success: true, error: false };
+  } catch (err) {
+    console.log(err);
+    return { success: false, error: true };
+  }
+};
+
+// Invoices already issued keep the amount they were issued for
+export const updateFeeStructure = async (
+  currentState: CurrentState,
+  data: FeeStructureSchema
+) => {
+  try {
+    if (!(await authorize("feeStructure", "update", { id: data.id, data }))) {
+      return FORBIDDEN;
+    }
+
+    const before = await prisma.feeStructure.findUnique({
+      where: { id: data.id },
+    });
+
+    const feeStructure = await prisma.feeStructure.update({
+      where: {
+        id: data.id,
+      },
+      data: feeStructureData(data),
+    });
+    await audit({
+      entity: "FeeStructure",
+      action: "UPDATE",
+      before,
+      after: feeStructure,
+    });
+
+    // revalidatePath("/list/fees");
+    return { success: true, error: false };
+  } catch (err) {
+    console.log(err);
+    return { success: false, error: true };
+  }
+};
+
+export const deleteFeeStructure = async (
+  currentState: CurrentState,
+  data: FormData
+) => {
+  const id = data.get("id") as string;
+  try {
+    if (!(await authorize("feeStructure", "delete", { id }))) {
+      return FORBIDDEN;
+    }
+
+    const issued = await prisma.invoice.count({
+      where: { feeStructureId: parseInt(id) },
+    });
+    if (issued) {
+      return {
+        success: false,
+        error: true,
+        message: `${issued} invoices were issued for this fee`,
+      };
+    }
+
+    const feeStructure = await prisma.feeStructure.delete({
+      where: {
+        id: parseInt(id),
+      },
+    });
+    await audit({
+      entity: "FeeStructure",
+      action: "DELETE",
+      before: feeStructure,
+    });
+
+    // revalidatePath("/list/fees");
+    return { success: true, error: false };
+  } catch (err) {
+    console.log(err);
+    return { success: false, error: true };
+  }
+};
+
+// Bills the fee to the primary guardian of every student it applies to. Students who
+// joined since the last run are billed too; nobody is billed twice.
+export const issueFeeInvoices = async (
+  currentState: CurrentState,
+  data: FormData
+) => {
+  const id = data.get("id") as string;
+  try {
+    if (!(await authorize("invoice", "create", { id }))) {
+      return FORBIDDEN;
+    }
+
+    const fee = await prisma.feeStructure.findUnique({
+      where: { id: parseInt(id) },
+    });
+    if (!fee) {
+      return { success: false, error: true };
+    }
+
+    const planned = await planFeeInvoices(fee);
+    if (!planned.length) {
+      return {
+        success: true,
+        error: false,
+        message: "Every student already has an invoice for this fee",
+      };
+    }
+
+    const invoices = await prisma.invoice.createManyAndReturn({
+      data: planned,
+    });
+    await auditChanges("Invoice", [], invoices);
+
+    // revalidatePath("/list/invoices");
+    return {
+      success: true,
+      error: false,
+      message: `${invoices.length} invoices issued`,
+    };
+  } catch (err) {
+    console.log(err);
+    return { success: false, error: true };
+  }
+};
+
+const noPrimaryGuardian = (student: { name: string; surname: string }) => ({
+  success: false,
+  error: true,
+  message: `${student.name} ${student.surname} has no primary guardian to bill`,
+});
+
+// Invoices are billed to whoever is the student's primary guardian when
+// they're saved
+export const createInvoice = async (
+  currentState: CurrentState,
+  data: InvoiceSchema
+) => {
+  try {
+    if (!(await authorize("invoice", "create", { data }))) {
+      return FORBIDDEN;
+    }
+
+    const student = await prisma.student.findUnique({
+      where: { id: data.studentId },
+      include: { guardians: { where: { isPrimary: true } } },
+    });
+    if (!student) {
+      return { success: false, error: true };
+    }
+    const guardian = primaryGuardian(student.guardians);
+    if (!guardian) {
+      return noPrimaryGuardian(student);
+    }
+
+    const invoice = await prisma.invoice.create({
+      data: {
+        title: data.title,
+        amount: roundMoney(data.amount),
+        discount: roundMoney(data.discount),
+        dueDate: toDateOnly(data.dueDate),
+        studentId: student.id,
+        parentId: guardian.parentId,
+      },
+    });
+    await audit({ entity: "Invoice", action: "CREATE", after: invoice });
+
+    // revalidatePath("/list/invoices");
+    return { success: true, error: false };
+  } catch (err) {
+    console.log(err);
+    return { success: false, error: true };
+  }
+};
+
+export const updateInvoice = async (
+  currentState: CurrentState,
+  data: InvoiceSchema
+) => {
+  try {
+    if (!(await authorize("invoice", "update", { id: data.id, data }))) {
+      return FORBIDDEN;
+    }
+
+    const student = await prisma.student.findUnique({
+      where: { id: data.studentId },
+      include: { guardians: { where: { isPrimary: true } } },
+    });
+    const found = await prisma.invoice.findUnique({
+      where: { id: data.id },
+      include: { payments: true },
+    });
+    if (!student || !found) {
+      return { success: false, error: true };
+    }
+    const guardian = primaryGuardian(student.guardians);
+    if (!guardian) {
+      return noPrimaryGuardian(student);
+    }
+    const { payments, ...before } = found;
+
+    const { paid } = getInvoiceTotals(found);
+    if (roundMoney(data.amount).minus(roundMoney(data.discount)).lt(paid)) {
+      return {
+        success: false,
+        error: true,
+        message: `${formatMoney(paid)} has already been paid`,
+      };
+    }
+
+    const invoice = await prisma.invoice.update({
+      where: {
+        id: data.id,
+      },
+      data: {
+        title: data.title,
+        amount: roundMoney(data.amount),
+        discount: roundMoney(data.discount),
+        dueDate: toDateOnly(data.dueDate),
+        studentId: student.id,
+        parentId: guardian.parentId,
+      },
+    });
+    await audit({
+      entity: "Invoice",
+      action: "UPDATE",
+      before,
+      after: invoice,
+    });
+
+    // revalidatePath("/list/invoices");
+    return { success: true, error: false };
+  } catch (err) {
+    console.log(err);
+    return { success: false, error: true };
+  }
+};
+
+export const deleteInvoice = async (
+  currentState: CurrentState,
+  data: FormData
+) => {
+  const id = data.get("id") as string;
+  try {
+    if (!(await authorize("invoice", "delete", { id }))) {
+      return FORBIDDEN;
+    }
+
+    const payments = await prisma.payment.count({
+      where: { invoiceId: parseInt(id) },
+    });
+    if (payments) {
+      return {
+        success: false,
+        error: true,
+        message: "Payments were made on this invoice, delete them first",
+      };
+    }
+
+    const invoice = await prisma.invoice.delete({
+      where: {
+        id: parseInt(id),
+      },
+    });
+    await audit({ entity: "Invoice", action: "DELETE", before: invoice });
+
+    // revalidatePath("/list/invoices");
+    return { success: true, error: false };
+  } catch (err) {
+    console.log(err);
+    return { success: false, error: true };
+  }
+};
+
+// A payment can't be more than what is still due on its invoice
+const checkPayment = async (data: PaymentSchema) => {
+  const invoice = await prisma.invoice.findUnique({
+    where: { id: data.invoiceId },
+    include: { payments: { where: { id: { not: data.id } } } },
+  });
+  if (!invoice) return "Invoice not found";
+
+  const { balance } = getInvoiceTotals(invoice);
+  return roundMoney(data.amount).gt(balance)
+    ? `Only ${formatMoney(balance)} is due on this invoice`
+    : null;
+};
+
+export const createPayment = async (
+  currentState: CurrentState,
+  data: PaymentSchema
+) => {
+  try {
+    if (!(await authorize("payment", "create", { data }))) {
+      return FORBIDDEN;
+    }
+
+    const problem = await checkPayment(data);
+    if (problem) {
+      return { success: false, error: true, message: problem };
+    }
+
+    const payment = await prisma.payment.create({
+      data: {
+        invoiceId: data.invoiceId,
+        amount: roundMoney(data.amount),
+        paidAt: toDateOnly(data.paidAt),
+        method: data.method,
+        reference: data.reference || null,
+      },
+    });
+    await audit({ entity: "Payment", action: "CREATE", after: payment });
+
+    // revalidatePath(`/list/invoices/${data.invoiceId}`);
+    return { success: true, error: false };
+  } catch (err) {
+    console.log(err);
+    return { success: false, error: true };
+  }
+};
+
+export const updatePayment = async (
+  currentState: CurrentState,
+  data: PaymentSchema
+) => {
+  try {
+    if (!(await authorize("payment", "update", { id: data.id, data }))) {
+      return FORBIDDEN;
+    }
+
+    const problem = await checkPayment(data);
+    if (problem) {
+      return { success: false, error: true, message: problem };
+    }
+
+    const before = await prisma.payment.findUnique({ where: { id: data.id } });
+
+    const payment = await prisma.payment.update({
+      where: {
+        id: data.id,
+      },
+      data: {
+        amount: roundMoney(data.amount),
+        paidAt: toDateOnly(data.paidAt),
+        method: data.method,
+        reference: data.reference || null,
+      },
+    });
+    await audit({
+      entity: "Payment",
+      action: "UPDATE",
+      before,
+      after: payment,
+    });
+
+    // revalidatePath(`/list/invoices/${data.invoiceId}`);
+    return { success: true, error: false };
+  } catch (err) {
+    console.log(err);
+    return { success: false, error: true };
+  }
+};
+
+export const deletePayment = async (
+  currentState: CurrentState,
+  data: FormData
+) => {
+  const id = data.get("id") as string;
+  try {
+    if (!(await authorize("payment", "delete", { id }))) {
+      return FORBIDDEN;
+    }
+
+    const payment = await prisma.payment.delete({
+      where: {
+        id: parseInt(id),
+      },
+    });
+    await audit({ entity: "Payment", action: "DELETE", before: payment });
+
+    // revalidatePath(`/list/invoices/${payment.invoiceId}`);
+    return { success: true, error: false };
+  } catch (err) {
+    console.log(err);
+    return { success: false, error: true };
+  }
+};
+
+// Discounts apply to invoices issued from now on
+export const createDiscount = async (
+  currentState: CurrentState,
+  data: DiscountSchema
+) => {
+  try {
+    if (!(await authorize("discount", "create", { data }))) {
+      return FORBIDDEN;
+    }
+
+    const discount = await prisma.discount.create({
+      data: {
+        name: data.name,
+        percent: data.percent,
+        studentId: data.studentId,
+        academicYearId: data.academicYearId,
+      },
+    });
+    await audit({ entity: "Discount", action: "CREATE", after: discount });
+
+    // revalidatePath("/list/discounts");
+    return { success: true, error: false };
+  } catch (err) {
+    console.log(err);
+    return { success: false, error: true };
+  }
+};
+
+export const updateDiscount = async (
+  currentState: CurrentState,
+  data: DiscountSchema
+) => {
+  try {
+    if (!(await authorize("discount", "update", { id: data.id, data }))) {
+      return FORBIDDEN;
+    }
+
+    const before = await prisma.discount.findUnique({ where: { id: data.id } });
+
+    const discount = await prisma.discount.update({
+      where: {
+        id: data.id,
+      },
+      data: {
+        name: data.name,
+        percent: data.percent,
+        studentId: data.studentId,
+        academicYearId: data.academicYearId,
+      },
+    });
+    await audit({
+      entity: "Discount",
+      action: "UPDATE",
+      before,
+      after: discount,
+    });
+
+    // revalidatePath("/list/discounts");
+    return { success: true, error: false };
+  } catch (err) {
+    console.log(err);
+    return { success: false, error: true };
+  }
+};
+
+export const deleteDiscount = async (
+  currentState: CurrentState,
+  data: FormData
+) => {
+  const id = data.get("id") as string;
+  try {
+    if (!(await authorize("discount", "delete", { id }))) {
+      return FORBIDDEN;
+    }
+
+    const discount = await prisma.discount.delete({
+      where: {
+        id: parseInt(id),
+      },
+    });
+    await audit({ entity: "Discount", action: "DELETE", before: discount });
+
+    // revalidatePath("/list/discounts");
+    return { success: true, error: false };
+  } catch (err) {
+    console.log(err);
+    return { success: false, error: true };
+  }
+};
+
+export const createExpense = async (
+  currentState: CurrentState,
+  data: ExpenseSchema
+) => {
+  try {
+    if (!(await authorize("expense", "create", { data }))) {
+      return FORBIDDEN;
+    }
+
+    const expense = await prisma.expense.create({
+      data: {
+        title: data.title,
+        category: data.category,
+        amount: roundMoney(data.amount),
+        date: toDateOnly(data.date),
+      },
+    });
+    await audit({ entity: "Expense", action: "CREATE", after: expense });
+
+    // revalidatePath("/list/expenses");
+    return { success: true, error: false };
+  } catch (err) {
+    console.log(err);
+    return { success: false, error: true };
+  }
+};
+
+export const updateExpense = async (
+  currentState: CurrentState,
+  data: ExpenseSchema
+) => {
+  try {
+    if (!(await authorize("expense", "update", { id: data.id, data }))) {
+      return FORBIDDEN;
+    }
+
+    const before = await prisma.expense.findUnique({ where: { id: data.id } });
+
+    const expense = await prisma.expense.update({
+      where: {
+        id: data.id,
+      },
+      data: {
+        title: data.title,
+        category: data.category,
+        amount: roundMoney(data.amount),
+        date: toDateOnly(data.date),
+      },
+    });
+    await audit({
+      entity: "Expense",
+      action: "UPDATE",
+      before,
+      after: expense,
+    });
+
+    // revalidatePath("/list/expenses");
+    return { success: true, error: false };
+  } catch (err) {
+    console.log(err);
+    return { success: false, error: true };
+  }
+};
+
+export const deleteExpense = async (
+  currentState: CurrentState,
+  data: FormData
+) => {
+  const id = data.get("id") as string;
+  try {
+    if (!(await authorize("expense", "delete", { id }))) {
+      return FORBIDDEN;
+    }
+
+    const expense = await prisma.expense.delete({
+      where: {
+        id: parseInt(id),
+      },
+    });
+    await audit({ entity: "Expense", action: "DELETE", before: expense });
+
+    // revalidatePath("/list/expenses");
+    return { success: true, error: false };
+  } catch (err) {
+    console.log(err);
+    return { success: false, error: true };
+  }
+};
+
+// A student always has exactly one primary guardian: making a guardian primary
+// takes it from the current one, and the primary guardian can only be removed
+// once another guardian is primary
+const guardianData = (data: GuardianSchema) => ({
+  parentId: data.parentId,
+  relationship: data.relationship,
+  isPrimary: data.isPrimary,
+  hasCustody: data.hasCustody,
+  canPickUp: data.canPickUp,
+  isEmergencyContact: data.isEmergencyContact,
+});
+
+const ALREADY_GUARDIAN = {
+  success: false,
+  error: true,
+  message: "This parent is already a guardian of the student",
+};
+
+export const createGuardian = async (
+  currentState: CurrentState,
+  data: GuardianSchema
+) => {
+  try {
+    if (!(await authorize("guardian", "create", { data }))) {
+      return FORBIDDEN;
+    }
+
+    const { studentId, parentId } = data;
+    const before = await prisma.guardian.findMany({ where: { studentId } });
+    if (before.some((guardian) => guardian.parentId === parentId)) {
+      return ALREADY_GUARDIAN;
+    }
+
+    // The first guardian is the primary one
+    const isPrimary = data.isPrimary || !primaryGuardian(before);
+    const after = await prisma.$transaction(async (tx) => {
+      if (isPrimary) {
+        await tx.guardian.updateMany({
+          where: { studentId },
+          data: { isPrimary: false },
+        });
+      }
+      await tx.guardian.create({
+        data: { ...guardianData(data), isPrimary, studentId },
+      });
+      return tx.guardian.findMany({ where: { studentId } });
+    });
+    await auditChanges("Guardian", before, after);
+
+    // revalidatePath(`/list/students/${studentId}`);
+    return { success: true, error: false };
+  } catch (err) {
+    console.log(err);
+    return { success: false, error: true };
+  }
+};
+
+export const updateGuardian = async (
+  currentState: CurrentState,
+  data: GuardianSchema
+) => {
+  try {
+    if (!(await authorize("guardian", "update", { id: data.id, data }))) {
+      return FORBIDDEN;
+    }
+
+    const found = await prisma.guardian.findUnique({ where: { id: data.id } });
+    if (!found) {
+      return { success: false, error: true };
+    }
+    if (found.isPrimary && !data.isPrimary) {
+      return {
+        success: false,
+        error: true,
+        message: "Make another guardian primary instead",
+      };
+    }
+
+    const { studentId } = found;
+    const before = await prisma.guardian.findMany({ where: { studentId } });
+    if (
+      before.some(
+        (guardian) =>
+          guardian.parentId === data.parentId && guardian.id !== found.id
+      )
+    ) {
+      return ALREADY_GUARDIAN;
+    }
+
+    const after = await prisma.$transaction(async (tx) => {
+      if (data.isPrimary) {
+        await tx.guardian.updateMany({
+          where: { studentId, id: { not: found.id } },
+          data: { isPrimary: false },
+        });
+      }
+      await tx.guardian.update({
+        where: { id: found.id },
+        data: guardianData(data),
+      });
+      return tx.guardian.findMany({ where: { studentId } });
+    });
+    await auditChanges("Guardian", before, after);
+
+    // revalidatePath(`/list/students/${studentId}`);
+    return { success: true, error: false };
+  } catch (err) {
+    console.log(err);
+    return { success: false, error: true };
+  }
+};
+
+export const deleteGuardian = async (
+  currentState: CurrentState,
+  data: FormData
+) => {
+  const id = data.get("id") as string;
+  try {
+    if (!(await authorize("guardian", "delete", { id }))) {
+      return FORBIDDEN;
+    }
+
+    const found = await prisma.guardian.findUnique({
+      where: { id: parseInt(id) },
+    });
+    if (!found) {
+      return { success: false, error: true };
+    }
+    if (found.isPrimary) {
+      return {
+        success: false,
+        error: true,
+        message: "Make another guardian primary before removing this one",
+      };
+    }
+
+    const guardian = await prisma.guardian.delete({
+      where: {
+        id: found.id,
+      },
+    });
+    await audit({ entity: "Guardian", action: "DELETE", before: guardian });
+
+    // revalidatePath(`/list/students/${guardian.studentId}`);
+    return { success: true, error: false };
+  } catch (err) {
+    console.log(err);
+    return { success: false, error: true };
+  }
+};
+
+const emergencyContactData = (data: EmergencyContactSchema) => ({
+  name: data.name,
+  relationship: data.relationship,
+  phone: data.phone,
+  priority: data.priority,
+  studentId: data.studentId,
+});
+
+export const createEmergencyContact = async (
+  currentState: CurrentState,
+  data: EmergencyContactSchema
+) => {
+  try {
+    if (!(await authorize("emergencyContact", "create", { data }))) {
+      return FORBIDDEN;
+    }
+
+    const contact = await prisma.emergencyContact.create({
+      data: emergencyContactData(data),
+    });
+    await audit({
+      entity: "EmergencyContact",
+      action: "CREATE",
+      after: contact,
+    });
+
+    // revalidatePath(`/list/students/${data.studentId}`);
+    return { success: true, error: false };
+  } catch (err) {
+    console.log(err);
+    return { success: false, error: true };
+  }
+};
+
+export const updateEmergencyContact = async (
+  currentState: CurrentState,
+  data: EmergencyContactSchema
+) => {
+  try {
+    if (
+      !(await authorize("emergencyContact", "update", { id: data.id, data }))
+    ) {
+      return FORBIDDEN;
+    }
+
+    const before = await prisma.emergencyContact.findUnique({
+      where: { id: data.id },
+    });
+
+    const contact = await prisma.emergencyContact.update({
+      where: {
+        id: data.id,
+      },
+      data: emergencyContactData(data),
+    });
+    await audit({
+      entity: "EmergencyContact",
+      action: "UPDATE",
+      before,
+      after: contact,
+    });
+
+    // revalidatePath(`/list/students/${data.studentId}`);
+    return { success: true, error: false };
+  } catch (err) {
+    console.log(err);
+    return { success: false, error: true };
+  }
+};
+
+export const deleteEmergencyContact = async (
+  currentState: CurrentState,
+  data: FormData
+) => {
+  const id = data.get("id") as string;
+  try {
+    if (!(await authorize("emergencyContact", "delete", { id }))) {
+      return FORBIDDEN;
+    }
+
+    const contact = await prisma.emergencyContact.delete({
+      where: {
+        id: parseInt(id),
+      },
+    });
+    await audit({
+      entity: "EmergencyContact",
+      action: "DELETE",
+      before: contact,
+    });
+
+    // revalidatePath(`/list/students/${contact.studentId}`);
+    return { success: true, error: false };
+  } catch (err) {
+    console.log(err);
+    return { success: false, error: true };
+  }
+};
+
+// Reading notifications isn't logged, it changes nothing anyone else sees
+export const markNotificationsRead = async (
+  currentState: CurrentState,
+  data: FormData
+) => {
+  // Without an id, all of them
+  const id = data.get("id") as string | null;
+  try {
+    const actor = await authorize("notification", "update", {
+      id: id ?? undefined,
+    });
+    if (!actor) {
+      return FORBIDDEN;
+    }
+
+    await prisma.notification.updateMany({
+      where: {
+        userId: actor.userId,
+        readAt: null,
+        ...(id && { id: parseInt(id) }),
+      },
+      data: { readAt: new Date() },
+    });
+
+    // revalidatePath("/list/notifications");
+    return { success: true, error: false };
+  } catch (err) {
+    console.log(err);
+    return { success: false, error: true };
+  }
+};
+
+export const saveNotificationPreferences = async (
+  currentState: CurrentState,
+  data: NotificationPreferencesSchema
+) => {
+  try {
+    const actor = await authorize("notificationPreference", "update", {
+      data,
+    });
+    if (!actor) {
+      return FORBIDDEN;
+    }
+    const { userId } = actor;
+
+    const before = await prisma.notificationPreference.findMany({
+      where: { userId },
+    });
+    const after = await prisma.$transaction(
+      data.preferences.map(({ type, inApp, email }) =>
+        prisma.notificationPreference.upsert({
+          where: { userId_type: { userId, type } },
+          create: { userId, type, inApp, email },
+          update: { inApp, email },
+        })
+      )
+    );
+    await auditChanges("NotificationPreference", before, after);
+
+    // revalidatePath("/list/notifications");
+    return { success: true, error: false };
+  } catch (err) {
+    console.log(err);
+    return { success: false, error: true };
+  }
+};
+
+// Checks the email channel end to end, against the SMTP stand-in locally
+export const sendTestEmail = async (
+  currentState: CurrentState,
+  data: FormData
+) => {
+  try {
+    const actor = await authorize("notificationPreference", "update");
+    if (!actor) {
+      return FORBIDDEN;
+    }
+
+    if (!isEmailEnabled()) {
+      return {
+        success: false,
+        error: true,
+        message: "Email isn't set up, SMTP_HOST is empty",
+      };
+    }
+
+    const where = { id: actor.userId };
+    const user =
+      (await prisma.teacher.findUnique({ where })) ??
+      (await prisma.student.findUnique({ where })) ??
+      (await prisma.parent.findUnique({ where }));
+    if (!user?.email) {
+      return {
+        success: false,
+        error: true,
+        message: "Your profile has no email address",
+      };
+    }
+
+    await sendEmail({
+      to: user.email,
+      subject: "Test notification",
+      text: "Notifications you chose to get by email will arrive like this.",
+    });
+
+    return {
+      success: true,
+      error: false,
+      message: `Test email sent to ${user.email}`,
+    };
+  } catch (err) {
+    console.log(err);
+    return {
+      success: false,
+      error: true,
+      message: "The email couldn't be sent, check the SMTP settings",
+    };
+  }
+};
@@ -3,17 +3,15 @@
  * Generates comprehensive exams with multiple sections
  */
 
-import { ChatOpenAI } from "@langchain/openai";
 import { PromptTemplate } from "@langchain/core/prompts";
 import { StringOutputParser } from "@langchain/core/output_parsers";
 import { retrieveDocuments } from "../utils/vector-store";
 import { QuizQuestion } from "./quiz-generator";
+import { getChatModel } from "../utils/model-provider";
+import prisma from "@/lib/prisma";
+import { RubricDefinition } from "@/lib/rubrics";
 
-const llm = new ChatOpenAI({
-  modelName: "gpt-4o",
-  temperature: 0.7,
-  openAIApiKey: process.env.OPENAI_API_KEY,
-});
+const llm = getChatModel({ temperature: 0.7 });
 
 export interface ExamSection {
   title: string;
@@ -33,7 +31,8 @@ export interface Exam {
   sections: ExamSection[];
   instructions?: string;
   answerKey?: any;
-  rubric?: any;
+  // For the essay questions, saved as a Rubric from the generated content page
+  rubric?: RubricDefinition;
   metadata?: any;
 }
 
@@ -153,10 +152,18 @@ Format as JSON:
     }}
   }},
   "rubric": {{
-    "essay": {{
-      "criteria": ["Content", "Organization", "Grammar"],
-      "scoring": "Point breakdown for each criterion"
-    }}
+    "title": "Essay rubric",
+    "criteria": [
+      {{
+        "title": "Content",
+        "description": "What the criterion looks at",
+        "levels": [
+          {{ "title": "Excellent", "description": "What earns it", "points": 4 }},
+          {{ "title": "Adequate", "description": "What earns it", "points": 2 }},
+          {{ "title": "Missing", "description": "What earns it", "points": 0 }}
+        ]
+      }}
+    ]
   }}
 }}
 
@@ -402,6 +409,10 @@ export function calculateSectionTimes(exam: Exam): Exam {
 
 /**
  * Link exam to existing Exam model in database
+ *
+ * Creates the Exam on the lesson and points the generated content at it, so
+ * the class sees it in the exam list, on its calendar and as an online test.
+ * The exam is marked out of the content's total points when it has them.
  */
 export async function linkToExamModel(
   generatedExamId: string,
@@ -409,13 +420,30 @@ export async function linkToExamModel(
   startTime: Date,
   endTime: Date
 ) {
-  // This would create an entry in the existing Exam table
-  // linking to the AIGeneratedContent
-  // Implementation depends on your specific needs
-  return {
-    generatedExamId,
-    lessonId,
-    startTime,
-    endTime,
-  };
+  const content = await prisma.aIGeneratedContent.findUniqueOrThrow({
+    where: { id: generatedExamId },
+  });
+  if (content.examId) {
+    throw new Error("This content is already published to an exam");
+  }
+
+  const totalPoints = Number((content.content as any)?.totalPoints);
+
+  return prisma.$transaction(async (tx) => {
+    const exam = await tx.exam.create({
+      data: {
+        title: content.title,
+        startTime,
+        endTime,
+        maxScore:
+          Number.isInteger(totalPoints) && totalPoints > 0 ? totalPoints : 100,
+        lessonId,
+      },
+    });
+    const linked = await tx.aIGeneratedContent.update({
+      where: { id: generatedExamId },
+      data: { examId: exam.id, isPublished: true },
+    });
+    return { exam, content: linked, before: content };
+  });
 }
@@ -3,16 +3,12 @@
  * Generates educational posters and infographics
  */
 
-import { ChatOpenAI } from "@langchain/openai";
 import { PromptTemplate } from "@langchain/core/prompts";
 import { StringOutputParser } from "@langchain/core/output_parsers";
 import { retrieveDocuments } from "../utils/vector-store";
+import { getChatModel } from "../utils/model-provider";
 
-const llm = new ChatOpenAI({
-  modelName: "gpt-4o",
-  temperature: 0.8,
-  openAIApiKey: process.env.OPENAI_API_KEY,
-});
+const llm = getChatModel({ temperature: 0.8 });
 
 export interface PosterSection {
   type: "title" | "text" | "list" | "diagram" | "fact" | "quote" | "image";
@@ -0,0 +1,109 @@
+/**
+ * Rubric Grader
+ * Suggests a level of every rubric criterion for a student's work, with the
+ * reasons, for the teacher to confirm or change
+ */
+
+import { PromptTemplate } from "@langchain/core/prompts";
+import { StringOutputParser } from "@langchain/core/output_parsers";
+import { getChatModel } from "../utils/model-provider";
+import { RubricWithLevels } from "@/lib/rubrics";
+
+const llm = getChatModel({ temperature: 0 });
+
+export interface RubricSuggestion {
+  criterionId: number;
+  levelId: number;
+  justification: string;
+}
+
+export interface GradingTask {
+  // The assignment or question the student answered
+  task: string;
+  answer: string;
+  // What a good answer looks like, when the question has a model answer
+  modelAnswer?: string;
+}
+
+/**
+ * Suggest a level per criterion. Criteria the model leaves out, or answers
+ * with a level that isn't theirs, get no suggestion.
+ */
+export async function suggestRubricLevels(
+  rubric: RubricWithLevels,
+  { task, answer, modelAnswer }: GradingTask
+): Promise<RubricSuggestion[]> {
+  const gradingPrompt = PromptTemplate.fromTemplate(`You are helping a teacher grade a student's work against a rubric.
+
+Task given to the student:
+{task}
+
+Model answer:
+{modelAnswer}
+
+Student's answer:
+{answer}
+
+Rubric "{title}":
+{criteria}
+
+For every criterion choose the one level that best matches the student's answer, quoting or pointing at the answer to justify it in one or two sentences. Judge only what the student wrote.
+
+Format as JSON:
+{{
+  "scores": [
+    {{ "criterionId": 1, "levelId": 3, "justification": "Why this level" }}
+  ]
+}}`);
+
+  const criteria = rubric.criteria
+    .map(
+      (criterion) =>
+        `Criterion ${criterion.id}: ${criterion.title}${
+          criterion.description ? ` - ${criterion.description}` : ""
+        }\n${criterion.levels
+          .map(
+            (level) =>
+              `  Level ${level.id}: ${level.title} (${level.points} points)${
+                level.description ? ` - ${level.description}` : ""
+              }`
+          )
+          .join("\n")}`
+    )
+    .join("\n");
+
+  const chain = gradingPrompt.pipe(llm).pipe(new StringOutputParser());
+
+  const response = await chain.invoke({
+    task,
+    modelAnswer: modelAnswer || "None given",
+    answer: answer.trim() || "(no answer)",
+    title: rubric.title,
+    criteria,
+  });
+
+  const jsonMatch = response.match(/\{[\s\S]*\}/);
+  if (!jsonMatch) {
+    throw new Error("Failed to parse rubric scores from response");
+  }
+
+  const scores: any[] = JSON.parse(jsonMatch[0])?.scores ?? [];
+
+  return rubric.criteria.flatMap((criterion) => {
+    const score = scores.find(
+      (item) => Number(item?.criterionId) === criterion.id
+    );
+    const level = criterion.levels.find(
+      (item) => item.id === Number(score?.levelId)
+    );
+    return level
+      ? [
+          {
+            criterionId: criterion.id,
+            levelId: level.id,
+            justification: String(score.justification ?? ""),
+          },
+        ]
+      : [];
+  });
+}
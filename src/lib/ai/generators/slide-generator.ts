@@ -3,16 +3,12 @@
  * Generates presentation slides from topics
  */
 
-import { ChatOpenAI } from "@langchain/openai";
 import { PromptTemplate } from "@langchain/core/prompts";
 import { StringOutputParser } from "@langchain/core/output_parsers";
 import { retrieveDocuments } from "../utils/vector-store";
+import { getChatModel } from "../utils/model-provider";
 
-const llm = new ChatOpenAI({
-  modelName: "gpt-4o",
-  temperature: 0.7,
-  openAIApiKey: process.env.OPENAI_API_KEY,
-});
+const llm = getChatModel({ temperature: 0.7 });
 
 export interface Slide {
   title: string;
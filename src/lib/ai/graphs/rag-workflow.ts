@@ -5,7 +5,6 @@
 
 import { StateGraph, END, START } from "@langchain/langgraph";
 import { BaseMessage, HumanMessage, AIMessage, SystemMessage } from "@langchain/core/messages";
-import { ChatOpenAI } from "@langchain/openai";
 import { PromptTemplate } from "@langchain/core/prompts";
 import { StringOutputParser } from "@langchain/core/output_parsers";
 import { RunnableSequence } from "@langchain/core/runnables";
@@ -16,6 +15,7 @@ import { refineQuery } from "../utils/query-refinement";
 import { generateAnswer } from "../utils/answer-generation";
 import { evaluateAnswer } from "../utils/self-evaluation";
 import { logAnalytics } from "../utils/analytics";
+import { Role } from "@/lib/roles";
 
 /**
  * State interface for the RAG workflow
@@ -25,10 +25,13 @@ export interface RAGState {
   originalQuery: string;
   refinedQuery?: string;
   userId: string;
-  userRole: "teacher" | "student";
-  mode: "research" | "math_solver" | "physics_solver" | "chemistry_solver" | "quiz_creator" | "exam_creator";
+  userRole: Role;
+  mode: "research" | "math_solver" | "physics_solver" | "chemistry_solver" | "quiz_creator" | "exam_creator" | "parent_guide";
   subject?: string;
   gradeLevel?: number;
+  classId?: number;
+  // Summary of a student's record the answer is grounded in (parent mode)
+  studentContext?: string;
   conversationId: string;
 
   // Retrieval
@@ -60,16 +63,23 @@ export interface RAGState {
   error?: string;
 }
 
+export type WorkflowOptions = {
+  subject?: string;
+  gradeLevel?: number;
+  classId?: number;
+  studentContext?: string;
+};
+
 /**
  * Initial state
  */
 export const createInitialState = (
   query: string,
   userId: string,
-  userRole: "teacher" | "student",
+  userRole: Role,
   mode: string,
   conversationId: string,
-  options?: { subject?: string; gradeLevel?: number }
+  options?: WorkflowOptions
 ): RAGState => ({
   originalQuery: query,
   userId,
@@ -77,6 +87,8 @@ export const createInitialState = (
   mode: mode as any,
   subject: options?.subject,
   gradeLevel: options?.gradeLevel,
+  classId: options?.classId,
+  studentContext: options?.studentContext,
   conversationId,
   retrievedDocuments: [],
   needsRefinement: false,
@@ -135,6 +147,7 @@ async function documentRetrievalNode(state: RAGState): Promise<Partial<RAGState>
     const retrievedDocuments = await retrieveDocuments(queryToUse, {
       subject: state.subject,
       gradeLevel: state.gradeLevel,
+      classId: state.classId,
       userRole: state.userRole,
       topK: 5,
     });
@@ -187,7 +200,8 @@ async function answerGenerationNode(state: RAGState): Promise<Partial<RAGState>>
       state.refinedQuery || state.originalQuery,
       state.retrievedDocuments,
       state.mode,
-      state.messages
+      state.messages,
+      state.studentContext
     );
 
     // Log generation analytics
@@ -290,6 +304,8 @@ export function buildRAGWorkflow() {
       mode: null,
       subject: null,
       gradeLevel: null,
+      classId: null,
+      studentContext: null,
       conversationId: null,
       retrievedDocuments: null,
       relevanceScores: null,
@@ -335,10 +351,10 @@ export function buildRAGWorkflow() {
 export async function executeRAGWorkflow(
   query: string,
   userId: string,
-  userRole: "teacher" | "student",
+  userRole: Role,
   mode: string,
   conversationId: string,
-  options?: { subject?: string; gradeLevel?: number }
+  options?: WorkflowOptions
 ) {
   const startTime = Date.now();
 
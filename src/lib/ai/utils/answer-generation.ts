@@ -3,22 +3,14 @@
  * Generate answers using RAG with LLM
  */
 
-import { ChatOpenAI } from "@langchain/openai";
 import { PromptTemplate } from "@langchain/core/prompts";
 import { BaseMessage } from "@langchain/core/messages";
 import { StringOutputParser } from "@langchain/core/output_parsers";
+import { getChatModel } from "./model-provider";
 
-const llm = new ChatOpenAI({
-  modelName: "gpt-4o",
-  temperature: 0.7,
-  openAIApiKey: process.env.OPENAI_API_KEY,
-});
+const llm = getChatModel({ temperature: 0.7 });
 
-const llmMath = new ChatOpenAI({
-  modelName: "gpt-4o",
-  temperature: 0.2, // Lower temperature for mathematical accuracy
-  openAIApiKey: process.env.OPENAI_API_KEY,
-});
+const llmMath = getChatModel({ temperature: 0.2 }); // Lower temperature for mathematical accuracy
 
 /**
  * Mode-specific system prompts
@@ -73,6 +65,12 @@ Include:
 4. Point values for each question
 5. Answer key with explanations
 6. Time recommendations`,
+
+  parent_guide: `You are a friendly school guide helping a parent understand their child's learning.
+Explain subjects, topics and results in plain language without jargon.
+Base anything you say about the child only on the student record provided, never invent grades.
+Point out strengths and areas to work on, and suggest practical ways to help at home.
+For questions about a specific grade or decision, suggest contacting the teacher.`,
 };
 
 /**
@@ -86,7 +84,8 @@ export async function generateAnswer(
     score: number;
   }>,
   mode: string,
-  conversationHistory: BaseMessage[] = []
+  conversationHistory: BaseMessage[] = [],
+  studentContext?: string
 ) {
   const startTime = Date.now();
 
@@ -125,7 +124,7 @@ CONVERSATION HISTORY:
 
 CONTEXT FROM KNOWLEDGE BASE:
 {context}
-
+{studentRecord}
 CURRENT QUESTION:
 {query}
 
@@ -163,6 +162,7 @@ ANSWER:`);
     }
   ]
 }`,
+      parent_guide: `Answer the parent directly and warmly. Refer to the student record for anything about their child.`,
     };
 
     const modeSpecificInstructions =
@@ -177,6 +177,7 @@ ANSWER:`);
       context: context || "No specific context available from knowledge base",
       query,
       modeSpecificInstructions,
+      studentRecord: studentContext ? `\nSTUDENT RECORD:\n${studentContext}\n` : "",
     });
 
     // Extract sources
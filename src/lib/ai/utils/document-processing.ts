@@ -7,6 +7,8 @@ import pdf from "pdf-parse/lib/pdf-parse.js";
 import mammoth from "mammoth";
 import { storeDocumentChunks } from "./vector-store";
 import prisma from "@/lib/prisma";
+import { audit } from "@/lib/audit";
+import { Role } from "@/lib/roles";
 
 /**
  * Supported document types
@@ -91,6 +93,7 @@ export async function processDocument(
         },
       },
     });
+    await audit({ entity: "AIDocument", action: "CREATE", after: document });
 
     // Store chunks with embeddings
     await storeDocumentChunks(document.id, chunks);
@@ -266,7 +269,11 @@ export async function semanticChunkDocument(
 /**
  * Delete document and all its chunks
  */
-export async function deleteDocument(documentId: string, userId: string) {
+export async function deleteDocument(
+  documentId: string,
+  userId: string,
+  userRole: Role
+) {
   try {
     // Verify ownership
     const document = await prisma.aIDocument.findUnique({
@@ -277,7 +284,8 @@ export async function deleteDocument(documentId: string, userId: string) {
       throw new Error("Document not found");
     }
 
-    if (document.uploadedBy !== userId) {
+    // Admins manage every document in the library
+    if (userRole !== "admin" && document.uploadedBy !== userId) {
       throw new Error("Unauthorized to delete this document");
     }
 
@@ -285,6 +293,7 @@ export async function deleteDocument(documentId: string, userId: string) {
     await prisma.aIDocument.delete({
       where: { id: documentId },
     });
+    await audit({ entity: "AIDocument", action: "DELETE", before: document });
 
     console.log(`Deleted document: ${documentId}`);
 
@@ -301,6 +310,7 @@ export async function deleteDocument(documentId: string, userId: string) {
 export async function updateDocumentMetadata(
   documentId: string,
   userId: string,
+  userRole: Role,
   updates: {
     title?: string;
     description?: string;
@@ -319,7 +329,7 @@ export async function updateDocumentMetadata(
       throw new Error("Document not found");
     }
 
-    if (document.uploadedBy !== userId) {
+    if (userRole !== "admin" && document.uploadedBy !== userId) {
       throw new Error("Unauthorized to update this document");
     }
 
@@ -328,6 +338,12 @@ export async function updateDocumentMetadata(
       where: { id: documentId },
       data: updates,
     });
+    await audit({
+      entity: "AIDocument",
+      action: "UPDATE",
+      before: document,
+      after: updatedDocument,
+    });
 
     return { success: true, document: updatedDocument };
   } catch (error: any) {
@@ -341,7 +357,7 @@ export async function updateDocumentMetadata(
  */
 export async function getUserDocuments(
   userId: string,
-  userRole: "teacher" | "student" | "admin",
+  userRole: Role,
   filters?: {
     subject?: string;
     gradeLevel?: number;
@@ -352,7 +368,7 @@ export async function getUserDocuments(
     const whereClause: any = {};
 
     // Teachers and admins see their own documents
-    // Students see only public documents
+    // Students and parents see only public documents
     if (userRole === "teacher" || userRole === "admin") {
       whereClause.uploadedBy = userId;
     } else {
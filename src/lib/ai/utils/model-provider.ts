@@ -0,0 +1,115 @@
+/**
+ * Model Provider Registry
+ * Single place where chat and embedding models are created, configured from AI_SETTINGS
+ */
+
+import { ChatOpenAI, OpenAIEmbeddings } from "@langchain/openai";
+import { BaseChatModel } from "@langchain/core/language_models/chat_models";
+import { Embeddings } from "@langchain/core/embeddings";
+import { FakeChatModel, SyntheticEmbeddings } from "@langchain/core/utils/testing";
+import { AI_SETTINGS } from "@/lib/settings";
+
+/**
+ * "default" is the main generation model, "fast" the cheaper model used for
+ * query refinement and self-evaluation
+ */
+export type ChatModelTier = "default" | "fast";
+
+export interface ChatModelOptions {
+  tier?: ChatModelTier;
+  temperature?: number;
+}
+
+export interface ModelProvider {
+  createChatModel(model: string, options: { temperature: number }): BaseChatModel;
+  createEmbeddings(model: string, dimensions: number): Embeddings;
+}
+
+const openAIProvider: ModelProvider = {
+  createChatModel: (model, { temperature }) =>
+    new ChatOpenAI({
+      model,
+      temperature,
+      apiKey: AI_SETTINGS.apiKey,
+    }),
+  createEmbeddings: (model, dimensions) =>
+    new OpenAIEmbeddings({
+      model,
+      dimensions,
+      apiKey: AI_SETTINGS.apiKey,
+    }),
+};
+
+// OpenAI-compatible local server (Ollama, vLLM, LM Studio, llama.cpp)
+const localProvider: ModelProvider = {
+  createChatModel: (model, { temperature }) =>
+    new ChatOpenAI({
+      model,
+      temperature,
+      // Local servers ignore the key, but the client requires one
+      apiKey: AI_SETTINGS.apiKey || "local",
+      configuration: { baseURL: AI_SETTINGS.baseUrl },
+    }),
+  createEmbeddings: (model) =>
+    new OpenAIEmbeddings({
+      model,
+      apiKey: AI_SETTINGS.apiKey || "local",
+      configuration: { baseURL: AI_SETTINGS.baseUrl },
+    }),
+};
+
+// Deterministic, network-free models: the chat model echoes its prompt and
+// embeddings are derived from the text itself
+const fakeProvider: ModelProvider = {
+  createChatModel: () => new FakeChatModel({}),
+  createEmbeddings: (_model, dimensions) =>
+    new SyntheticEmbeddings({ vectorSize: dimensions }),
+};
+
+const providers: Record<string, ModelProvider> = {
+  openai: openAIProvider,
+  local: localProvider,
+  fake: fakeProvider,
+};
+
+/**
+ * Register (or replace) a provider by name
+ */
+export function registerModelProvider(name: string, provider: ModelProvider) {
+  providers[name] = provider;
+}
+
+/**
+ * Get the provider selected in settings
+ */
+export function getModelProvider(name: string = AI_SETTINGS.provider): ModelProvider {
+  const provider = providers[name];
+
+  if (!provider) {
+    throw new Error(
+      `Unknown AI provider "${name}". Available: ${Object.keys(providers).join(", ")}`
+    );
+  }
+
+  return provider;
+}
+
+/**
+ * Create a chat model from the configured provider
+ */
+export function getChatModel(options: ChatModelOptions = {}): BaseChatModel {
+  const { tier = "default", temperature = 0.7 } = options;
+  const model = tier === "fast" ? AI_SETTINGS.fastChatModel : AI_SETTINGS.chatModel;
+
+  return getModelProvider().createChatModel(model, { temperature });
+}
+
+/**
+ * Create the embeddings model from the configured provider
+ */
+export function getEmbeddings(): Embeddings {
+  return getModelProvider().createEmbeddings(
+    AI_SETTINGS.embeddingModel,
+    AI_SETTINGS.embeddingDimensions
+  );
+}
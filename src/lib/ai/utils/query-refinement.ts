@@ -4,14 +4,10 @@
  */
 
 import prisma from "@/lib/prisma";
-import { ChatOpenAI } from "@langchain/openai";
 import { PromptTemplate } from "@langchain/core/prompts";
+import { getChatModel } from "./model-provider";
 
-const llm = new ChatOpenAI({
-  modelName: "gpt-4o-mini",
-  temperature: 0.3,
-  openAIApiKey: process.env.OPENAI_API_KEY,
-});
+const llm = getChatModel({ tier: "fast", temperature: 0.3 });
 
 /**
  * Refine query using historical successful refinements
@@ -3,15 +3,11 @@
  * Evaluates answer quality for self-learning
  */
 
-import { ChatOpenAI } from "@langchain/openai";
 import { PromptTemplate } from "@langchain/core/prompts";
 import { StringOutputParser } from "@langchain/core/output_parsers";
+import { getChatModel } from "./model-provider";
 
-const evaluationLLM = new ChatOpenAI({
-  modelName: "gpt-4o-mini",
-  temperature: 0,
-  openAIApiKey: process.env.OPENAI_API_KEY,
-});
+const evaluationLLM = getChatModel({ tier: "fast", temperature: 0 });
 
 /**
  * Evaluate answer quality
@@ -0,0 +1,125 @@
+/**
+ * Student Context Utility
+ * Summarise a student's subjects, grades and attendance for parent mode
+ */
+
+import prisma from "@/lib/prisma";
+import { getCurrentTerm } from "@/lib/academicYear";
+import { formatPercent, getStudentGradebook, toPercent } from "@/lib/gradebook";
+
+const RECENT_RESULTS = 10;
+
+const subjectOf = { select: { subject: { select: { name: true } } } } as const;
+
+/**
+ * Build the plain-text student record the answer is grounded in
+ */
+export async function buildStudentContext(studentId: string) {
+  const student = await prisma.student.findUnique({
+    where: { id: studentId },
+    include: {
+      grade: { select: { level: true } },
+      class: {
+        select: {
+          name: true,
+          lessons: {
+            select: {
+              subject: { select: { name: true } },
+              teacher: { select: { name: true, surname: true } },
+            },
+            distinct: ["subjectId"],
+          },
+        },
+      },
+    },
+  });
+
+  if (!student) return null;
+
+  const term = await getCurrentTerm();
+
+  const [gradebook, results, attendance] = await Promise.all([
+    getStudentGradebook(studentId, term?.id),
+    prisma.result.findMany({
+      where: { studentId },
+      include: {
+        exam: {
+          select: { title: true, maxScore: true, startTime: true, lesson: subjectOf },
+        },
+        assignment: {
+          select: { title: true, maxScore: true, dueDate: true, lesson: subjectOf },
+        },
+      },
+      orderBy: { id: "desc" },
+      take: RECENT_RESULTS,
+    }),
+    prisma.attendance.groupBy({
+      by: ["present"],
+      where: {
+        studentId,
+        ...(term ? { date: { gte: term.startDate, lte: term.endDate } } : {}),
+      },
+      _count: true,
+    }),
+  ]);
+
+  const lines: string[] = [
+    `Name: ${student.name} ${student.surname}`,
+    `Class: ${student.class.name} (grade ${student.grade.level})`,
+    term ? `Current term: ${term.name}` : "No current term",
+    "",
+    "Subjects and teachers:",
+    ...student.class.lessons.map(
+      (lesson) =>
+        `- ${lesson.subject.name}: ${lesson.teacher.name} ${lesson.teacher.surname}`
+    ),
+  ];
+
+  if (gradebook?.subjects.length) {
+    lines.push(
+      "",
+      `Averages this term (overall ${formatPercent(gradebook.average)}, ${gradebook.letter ?? "-"}):`,
+      ...gradebook.subjects.map(
+        (subject) =>
+          `- ${subject.subjectName}: ${formatPercent(subject.average)} (${subject.letter}); ` +
+          `exams ${formatPercent(subject.examAverage)}, ` +
+          `assignments ${formatPercent(subject.assignmentAverage)}`
+      )
+    );
+  }
+
+  if (results.length) {
+    lines.push(
+      "",
+      "Recent results:",
+      ...results.map((result) => {
+        const assessment = result.exam ?? result.assignment;
+        if (!assessment) return `- Score ${result.score}`;
+        const kind = result.exam ? "exam" : "assignment";
+        const date = (result.exam?.startTime ?? result.assignment?.dueDate)
+          ?.toISOString()
+          .split("T")[0];
+        const percent = formatPercent(toPercent(result.score, assessment.maxScore));
+        return (
+          `- ${assessment.lesson.subject.name} ${kind} "${assessment.title}" (${date}): ` +
+          `${result.score}/${assessment.maxScore} (${percent})`
+        );
+      })
+    );
+  }
+
+  const present = attendance.find((row) => row.present)?._count ?? 0;
+  const total = attendance.reduce((sum, row) => sum + row._count, 0);
+  if (total) {
+    lines.push(
+      "",
+      `Attendance this term: ${formatPercent((present / total) * 100)} of ${total} lessons`
+    );
+  }
+
+  return {
+    context: lines.join("\n"),
+    classId: student.classId,
+    gradeLevel: student.grade.level,
+  };
+}
@@ -3,14 +3,14 @@
  * Handles document embedding and retrieval
  */
 
-import { OpenAIEmbeddings } from "@langchain/openai";
+import { Prisma } from "@prisma/client";
 import prisma from "@/lib/prisma";
+import { AI_SETTINGS } from "@/lib/settings";
+import { Role } from "@/lib/roles";
+import { getEmbeddings } from "./model-provider";
 
 // Initialize embeddings model
-const embeddings = new OpenAIEmbeddings({
-  modelName: "text-embedding-3-small",
-  openAIApiKey: process.env.OPENAI_API_KEY,
-});
+const embeddings = getEmbeddings();
 
 /**
  * Generate embedding for text
@@ -18,6 +18,13 @@ const embeddings = new OpenAIEmbeddings({
 export async function generateEmbedding(text: string): Promise<number[]> {
   try {
     const embedding = await embeddings.embedQuery(text);
+
+    if (embedding.length !== AI_SETTINGS.embeddingDimensions) {
+      throw new Error(
+        `Embedding model returned ${embedding.length} dimensions, expected ${AI_SETTINGS.embeddingDimensions} (set AI_EMBEDDING_DIMENSIONS)`
+      );
+    }
+
     return embedding;
   } catch (error) {
     console.error("Error generating embedding:", error);
@@ -53,92 +60,144 @@ export function cosineSimilarity(vecA: number[], vecB: number[]): number {
   return dotProduct / (normA * normB);
 }
 
+/**
+ * Serialize an embedding into pgvector's text representation
+ */
+export function toVectorLiteral(embedding: number[]): string {
+  return `[${embedding.join(",")}]`;
+}
+
+/**
+ * The configured embedding size, inlined into SQL: a type modifier cannot be
+ * a query parameter, and the partial HNSW index only serves queries that
+ * compare with the same literal
+ */
+function embeddingDimensionsSql(): Prisma.Sql {
+  const dimensions = AI_SETTINGS.embeddingDimensions;
+
+  if (!Number.isInteger(dimensions) || dimensions <= 0) {
+    throw new Error(`Invalid embedding dimensions: ${dimensions}`);
+  }
+
+  return Prisma.raw(String(dimensions));
+}
+
+/**
+ * Retrieval filters, pushed into the SQL query alongside the ANN search
+ */
+export interface RetrievalFilters {
+  subject?: string;
+  gradeLevel?: number;
+  classId?: number;
+  userRole: Role;
+}
+
+/**
+ * Build the WHERE clause for chunk retrieval
+ */
+function buildRetrievalConditions(filters: RetrievalFilters): Prisma.Sql {
+  // Chunks embedded at another size, left over from a previous embedding
+  // model, are skipped until the library is re-embedded
+  const conditions: Prisma.Sql[] = [
+    Prisma.sql`c."embedding" IS NOT NULL`,
+    Prisma.sql`vector_dims(c."embedding") = ${embeddingDimensionsSql()}`,
+  ];
+
+  if (filters.subject) {
+    conditions.push(Prisma.sql`d."subject" = ${filters.subject}`);
+  }
+
+  if (filters.gradeLevel) {
+    conditions.push(Prisma.sql`d."gradeLevel" = ${filters.gradeLevel}`);
+  }
+
+  // Class-scoped documents are only searched for that class; library-wide
+  // documents (no class) are always included
+  if (filters.classId) {
+    conditions.push(
+      Prisma.sql`(d."classId" IS NULL OR d."classId" = ${filters.classId})`
+    );
+  }
+
+  // Students and parents can only see public documents
+  if (filters.userRole === "student" || filters.userRole === "parent") {
+    conditions.push(Prisma.sql`d."isPublic" = true`);
+  }
+
+  return Prisma.join(conditions, " AND ");
+}
+
+type ChunkSearchRow = {
+  id: string;
+  content: string;
+  chunkIndex: number;
+  metadata: Prisma.JsonValue;
+  documentId: string;
+  documentTitle: string;
+  subject: string | null;
+  gradeLevel: number | null;
+  fileUrl: string | null;
+  distance: number;
+};
+
 /**
  * Retrieve relevant documents from vector store
+ * Runs an indexed nearest-neighbour search (cosine distance) over the whole library
  */
 export async function retrieveDocuments(
   query: string,
-  options: {
-    subject?: string;
-    gradeLevel?: number;
-    userRole: "teacher" | "student";
+  options: RetrievalFilters & {
     topK?: number;
   }
 ) {
-  const { subject, gradeLevel, userRole, topK = 5 } = options;
+  const { topK = 5 } = options;
 
   try {
     // Generate query embedding
     const queryEmbedding = await generateEmbedding(query);
-
-    // Build filter criteria
-    const whereClause: any = {};
-
-    if (subject) {
-      whereClause.document = {
-        ...whereClause.document,
-        subject,
-      };
-    }
-
-    if (gradeLevel) {
-      whereClause.document = {
-        ...whereClause.document,
-        gradeLevel,
-      };
-    }
-
-    // Students can only see public documents
-    if (userRole === "student") {
-      whereClause.document = {
-        ...whereClause.document,
-        isPublic: true,
-      };
-    }
-
-    // Retrieve all chunks with embeddings
-    const chunks = await prisma.aIDocumentChunk.findMany({
-      where: whereClause,
-      include: {
-        document: {
-          select: {
-            id: true,
-            title: true,
-            subject: true,
-            gradeLevel: true,
-            fileUrl: true,
-          },
-        },
+    const vector = toVectorLiteral(queryEmbedding);
+    const type = Prisma.sql`vector(${embeddingDimensionsSql()})`;
+
+    // Filters are applied to what the HNSW index returns, so without an
+    // iterative scan (pgvector 0.8) a selective filter can leave fewer than
+    // topK chunks although more match
+    const [, rows] = await prisma.$transaction([
+      prisma.$executeRaw`SET LOCAL hnsw.iterative_scan = strict_order`,
+      prisma.$queryRaw<ChunkSearchRow[]>`
+        SELECT
+          c."id",
+          c."content",
+          c."chunkIndex",
+          c."metadata",
+          d."id" AS "documentId",
+          d."title" AS "documentTitle",
+          d."subject",
+          d."gradeLevel",
+          d."fileUrl",
+          c."embedding"::${type} <=> ${vector}::${type} AS "distance"
+        FROM "AIDocumentChunk" c
+        JOIN "AIDocument" d ON d."id" = c."documentId"
+        WHERE ${buildRetrievalConditions(options)}
+        ORDER BY c."embedding"::${type} <=> ${vector}::${type}
+        LIMIT ${topK}
+      `,
+    ]);
+
+    const scoredChunks = rows.map((row) => ({
+      id: row.id,
+      content: row.content,
+      // Cosine distance is in [0, 2]; convert back to a similarity score
+      score: 1 - Number(row.distance),
+      metadata: {
+        documentId: row.documentId,
+        documentTitle: row.documentTitle,
+        subject: row.subject,
+        gradeLevel: row.gradeLevel,
+        fileUrl: row.fileUrl,
+        chunkIndex: row.chunkIndex,
+        ...(row.metadata as Record<string, any> | null),
       },
-      take: 100, // Get more initially, then filter by similarity
-    });
-
-    // Calculate similarity scores
-    const scoredChunks = chunks
-      .map((chunk) => {
-        if (!chunk.embedding) return null;
-
-        const chunkEmbedding = JSON.parse(chunk.embedding);
-        const score = cosineSimilarity(queryEmbedding, chunkEmbedding);
-
-        return {
-          id: chunk.id,
-          content: chunk.content,
-          score,
-          metadata: {
-            documentId: chunk.document.id,
-            documentTitle: chunk.document.title,
-            subject: chunk.document.subject,
-            gradeLevel: chunk.document.gradeLevel,
-            fileUrl: chunk.document.fileUrl,
-            chunkIndex: chunk.chunkIndex,
-            ...chunk.metadata,
-          },
-        };
-      })
-      .filter((item): item is NonNullable<typeof item> => item !== null)
-      .sort((a, b) => b.score - a.score)
-      .slice(0, topK);
+    }));
 
     console.log(`Retrieved ${scoredChunks.length} documents for query: "${query}"`);
 
@@ -159,22 +218,31 @@ export async function storeDocumentChunks(
   try {
     // Generate embeddings for all chunks
     const chunksWithEmbeddings = await Promise.all(
-      chunks.map(async (chunk) => {
-        const embedding = await generateEmbedding(chunk.content);
-        return {
+      chunks.map(async (chunk) => ({
+        ...chunk,
+        embedding: await generateEmbedding(chunk.content),
+      }))
+    );
+
+    // Store in database. The vector column is not part of the Prisma client
+    // API, so embeddings are written with raw SQL in the same transaction
+    await prisma.$transaction([
+      prisma.aIDocumentChunk.createMany({
+        data: chunksWithEmbeddings.map((chunk) => ({
           documentId,
           content: chunk.content,
-          embedding: JSON.stringify(embedding),
           chunkIndex: chunk.chunkIndex,
           metadata: chunk.metadata,
-        };
-      })
-    );
-
-    // Store in database
-    await prisma.aIDocumentChunk.createMany({
-      data: chunksWithEmbeddings,
-    });
+        })),
+      }),
+      ...chunksWithEmbeddings.map(
+        (chunk) => prisma.$executeRaw`
+          UPDATE "AIDocumentChunk"
+          SET "embedding" = ${toVectorLiteral(chunk.embedding)}::vector
+          WHERE "documentId" = ${documentId} AND "chunkIndex" = ${chunk.chunkIndex}
+        `
+      ),
+    ]);
 
     console.log(`Stored ${chunks.length} chunks for document ${documentId}`);
 
@@ -185,6 +253,53 @@ export async function storeDocumentChunks(
   }
 }
 
+/**
+ * Re-embed every chunk not embedded at the configured size, then rebuild the
+ * HNSW index for that size. Run after changing the embedding model; an
+ * interrupted run picks up where it stopped
+ */
+export async function reembedLibrary(batchSize = 100) {
+  const dimensions = embeddingDimensionsSql();
+  let reembedded = 0;
+
+  try {
+    // The old index is for the old size, and would only slow the updates
+    await prisma.$executeRaw`DROP INDEX IF EXISTS "AIDocumentChunk_embedding_idx"`;
+
+    for (;;) {
+      const chunks = await prisma.$queryRaw<{ id: string; content: string }[]>`
+        SELECT "id", "content" FROM "AIDocumentChunk"
+        WHERE "embedding" IS NULL OR vector_dims("embedding") <> ${dimensions}
+        LIMIT ${batchSize}
+      `;
+      if (!chunks.length) break;
+
+      for (const chunk of chunks) {
+        const embedding = await generateEmbedding(chunk.content);
+        await prisma.$executeRaw`
+          UPDATE "AIDocumentChunk"
+          SET "embedding" = ${toVectorLiteral(embedding)}::vector
+          WHERE "id" = ${chunk.id}
+        `;
+      }
+
+      reembedded += chunks.length;
+      console.log(`Re-embedded ${reembedded} chunks`);
+    }
+
+    await prisma.$executeRaw`
+      CREATE INDEX "AIDocumentChunk_embedding_idx" ON "AIDocumentChunk"
+      USING hnsw (("embedding"::vector(${dimensions})) vector_cosine_ops)
+      WHERE vector_dims("embedding") = ${dimensions}
+    `;
+
+    return { success: true, chunksReembedded: reembedded };
+  } catch (error) {
+    console.error("Error re-embedding the library:", error);
+    throw error;
+  }
+}
+
 /**
  * Delete all chunks for a document
  */
@@ -207,20 +322,17 @@ export async function deleteDocumentChunks(documentId: string) {
  */
 export async function hybridSearch(
   query: string,
-  options: {
-    subject?: string;
-    gradeLevel?: number;
-    userRole: "teacher" | "student";
+  options: RetrievalFilters & {
     topK?: number;
     alpha?: number; // Weight for vector search (0-1), 1-alpha for keyword search
   }
 ) {
   const { alpha = 0.7, topK = 5 } = options;
 
-  try {
-    // Get vector search results
-    const vectorResults = await retrieveDocuments(query, options);
+  // Get vector search results
+  const vectorResults = await retrieveDocuments(query, options);
 
+  try {
     // Get keyword search results
     const keywords = query
       .toLowerCase()
@@ -240,7 +352,21 @@ export async function hybridSearch(
       whereClause.document = { subject: options.subject };
     }
 
-    if (options.userRole === "student") {
+    if (options.gradeLevel) {
+      whereClause.document = {
+        ...whereClause.document,
+        gradeLevel: options.gradeLevel,
+      };
+    }
+
+    if (options.classId) {
+      whereClause.document = {
+        ...whereClause.document,
+        OR: [{ classId: null }, { classId: options.classId }],
+      };
+    }
+
+    if (options.userRole === "student" || options.userRole === "parent") {
       whereClause.document = {
         ...whereClause.document,
         isPublic: true,
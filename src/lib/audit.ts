@@ -0,0 +1,125 @@
+import { AuditAction, Prisma } from "@prisma/client";
+import { getActor } from "./policy";
+import prisma from "./prisma";
+
+// AUDIT LOG
+// Every action that writes records who changed which record and how it looked
+// before and after. Actions read the record before writing and pass what the
+// write returned; `audit` returns the insert unawaited so it can join the
+// action's transaction. Import rows aren't logged, they only report on the
+// records an import saves, and those are.
+
+type AuditRecord = { id: number | string; [field: string]: unknown };
+
+export type AuditEntry = {
+  entity: Prisma.ModelName;
+  action: AuditAction;
+  before?: AuditRecord | null;
+  after?: AuditRecord | null;
+};
+
+// Too large to copy into every entry
+const OMITTED: Partial<Record<Prisma.ModelName, string[]>> = {
+  ImportJob: ["rows"],
+  AIMessage: ["retrievedDocs"],
+};
+
+// Changes on every write, so it isn't a change of its own
+const IGNORED = ["updatedAt"];
+
+const snapshot = (entity: Prisma.ModelName, record?: AuditRecord | null) => {
+  if (!record) return undefined;
+  const omitted = OMITTED[entity] ?? [];
+  const fields = Object.entries(record).filter(
+    ([field]) => !omitted.includes(field)
+  );
+  // Dates become ISO strings, as they'd be read back from the column anyway
+  return JSON.parse(
+    JSON.stringify(Object.fromEntries(fields))
+  ) as Prisma.JsonObject;
+};
+
+export const getChanges = (
+  before?: Prisma.JsonObject | null,
+  after?: Prisma.JsonObject | null
+) => {
+  if (!before || !after) return [];
+  const fields = new Set([...Object.keys(before), ...Object.keys(after)]);
+  return Array.from(fields).filter(
+    (field) =>
+      !IGNORED.includes(field) &&
+      JSON.stringify(before[field]) !== JSON.stringify(after[field])
+  );
+};
+
+// Updates that changed nothing are left out
+export const audit = (entries: AuditEntry | AuditEntry[]) => {
+  const actor = getActor();
+
+  const data = [entries].flat().flatMap((entry) => {
+    const before = snapshot(entry.entity, entry.before);
+    const after = snapshot(entry.entity, entry.after);
+    const changes = getChanges(before, after);
+    if (entry.action === "UPDATE" && !changes.length) return [];
+
+    const record = entry.after ?? entry.before;
+    return [
+      {
+        userId: actor?.userId ?? null,
+        role: actor?.role ?? null,
+        entity: entry.entity,
+        recordId: record ? String(record.id) : null,
+        action: entry.action,
+        before,
+        after,
+        changes,
+      },
+    ];
+  });
+
+  return prisma.auditLog.createMany({ data });
+};
+
+// Entries for records written together, matched by id: records only before
+// were deleted, records only after were created
+export const auditChanges = (
+  entity: Prisma.ModelName,
+  before: AuditRecord[],
+  after: AuditRecord[]
+) => {
+  const entries: AuditEntry[] = [
+    ...after.map((record) => {
+      const previous = before.find((item) => item.id === record.id);
+      return {
+        entity,
+        action: previous ? ("UPDATE" as const) : ("CREATE" as const),
+        before: previous,
+        after: record,
+      };
+    }),
+    ...before
+      .filter((record) => !after.some((item) => item.id === record.id))
+      .map((record) => ({ entity, action: "DELETE" as const, before: record })),
+  ];
+  return audit(entries);
+};
+
+// Who made the changes, by Clerk user ID. Users deleted since aren't found.
+export const getUserNames = async (userIds: string[]) => {
+  const where = { id: { in: userIds } };
+  const person = { id: true, name: true, surname: true } as const;
+
+  const [admins, teachers, students, parents] = await Promise.all([
+    prisma.admin.findMany({ where, select: { id: true, username: true } }),
+    prisma.teacher.findMany({ where, select: person }),
+    prisma.student.findMany({ where, select: person }),
+    prisma.parent.findMany({ where, select: person }),
+  ]);
+
+  return new Map<string, string>([
+    ...admins.map((admin) => [admin.id, admin.username] as const),
+    ...[...teachers, ...students, ...parents].map(
+      (user) => [user.id, `${user.name} ${user.surname}`] as const
+    ),
+  ]);
+};
@@ -0,0 +1,727 @@
+import { clerkClient } from "@clerk/nextjs/server";
+import { ImportAction, ImportEntity, Prisma } from "@prisma/client";
+import ExcelJS from "exceljs";
+import { ZodIssue } from "zod";
+import { getCurrentAcademicYear } from "./academicYear";
+import { audit, auditChanges } from "./audit";
+import {
+  classSchema,
+  ClassSchema,
+  parentSchema,
+  ParentSchema,
+  studentSchema,
+  StudentSchema,
+  teacherSchema,
+  TeacherSchema,
+} from "./formValidationSchemas";
+import { setPrimaryGuardian } from "./guardians";
+import prisma from "./prisma";
+
+// BULK IMPORT
+// A CSV or XLSX file becomes rows keyed by its header line. Each target field
+// is mapped to a column, classes, grades, parents, teachers and subjects are
+// resolved by name and the result is validated with the schemas of the forms.
+// A row whose username (for classes, name in the current year) already exists
+// updates that record, any other row creates one.
+
+export type ImportField = {
+  key: string;
+  label: string;
+  required?: boolean;
+  hint?: string;
+};
+
+// Target field -> file column
+export type ImportMapping = Record<string, string>;
+
+export type ImportFileRow = Record<string, string>;
+
+export type PreparedRow = {
+  index: number;
+  label: string;
+  action: ImportAction | null;
+  errors: string[];
+  // Form data ready to save, only when the row is valid
+  data?: StudentSchema | TeacherSchema | ParentSchema | ClassSchema;
+};
+
+export const MAX_IMPORT_ROWS = 2000;
+
+const userFields: ImportField[] = [
+  { key: "username", label: "Username", required: true },
+  { key: "password", label: "Password", hint: "Unchanged on updates when empty" },
+  { key: "name", label: "First name", required: true },
+  { key: "surname", label: "Last name", required: true },
+  { key: "email", label: "Email" },
+  { key: "phone", label: "Phone" },
+  { key: "address", label: "Address" },
+];
+
+const profileFields: ImportField[] = [
+  { key: "bloodType", label: "Blood type", required: true },
+  { key: "birthday", label: "Birthday", required: true, hint: "YYYY-MM-DD" },
+  { key: "sex", label: "Sex", required: true, hint: "MALE/FEMALE or M/F" },
+];
+
+export const IMPORT_FIELDS: Record<ImportEntity, ImportField[]> = {
+  STUDENT: [
+    ...userFields,
+    ...profileFields,
+    {
+      key: "class",
+      label: "Class",
+      required: true,
+      hint: "Class name in the current year",
+    },
+    { key: "grade", label: "Grade", hint: "Level, the class's when empty" },
+    {
+      key: "parent",
+      label: "Parent",
+      required: true,
+      hint: "Primary guardian's username",
+    },
+  ],
+  TEACHER: [
+    ...userFields,
+    ...profileFields,
+    { key: "subjects", label: "Subjects", hint: "Names separated by commas" },
+  ],
+  PARENT: userFields.map((field) =>
+    field.key === "phone" || field.key === "address"
+      ? { ...field, required: true }
+      : field
+  ),
+  CLASS: [
+    { key: "name", label: "Name", required: true },
+    { key: "capacity", label: "Capacity", required: true },
+    { key: "grade", label: "Grade", required: true, hint: "Level" },
+    { key: "supervisor", label: "Supervisor", hint: "Teacher username" },
+  ],
+};
+
+// MAPPING
+
+const normalize = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+const aliases: Record<string, string[]> = {
+  name: ["firstname", "first", "givenname"],
+  surname: ["lastname", "last", "familyname"],
+  birthday: ["birthdate", "dateofbirth", "dob"],
+  sex: ["gender"],
+  bloodType: ["blood"],
+  phone: ["phonenumber", "mobile"],
+  class: ["classname"],
+  grade: ["gradelevel", "level"],
+  parent: ["parentusername"],
+  supervisor: ["supervisorusername"],
+};
+
+// Columns whose header matches a field's key, label or a common alias
+export const suggestMapping = (
+  entity: ImportEntity,
+  headers: string[]
+): ImportMapping => {
+  const mapping: ImportMapping = {};
+
+  for (const field of IMPORT_FIELDS[entity]) {
+    const names = [field.key, field.label, ...(aliases[field.key] ?? [])].map(
+      normalize
+    );
+    const header = headers.find((header) => names.includes(normalize(header)));
+    if (header) mapping[field.key] = header;
+  }
+
+  return mapping;
+};
+
+export const getMissingFields = (entity: ImportEntity, mapping: ImportMapping) =>
+  IMPORT_FIELDS[entity].filter((field) => field.required && !mapping[field.key]);
+
+// FILES
+
+const countOf = (text: string, char: string) => text.split(char).length - 1;
+
+// Fields may be quoted, with doubled quotes, delimiters and line breaks inside.
+// The delimiter is whichever of comma, semicolon or tab the header uses most.
+const parseCsv = (content: string): string[][] => {
+  const text = content.replace(/^\uFEFF/, "");
+  const header = text.split(/\r?\n/, 1)[0];
+  const delimiter = [";", "\t"].reduce(
+    (best, char) => (countOf(header, char) > countOf(header, best) ? char : best),
+    ","
+  );
+
+  const lines: string[][] = [];
+  let line: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char !== '"') {
+        field += char;
+      } else if (text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else {
+        quoted = false;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      line.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      line.push(field);
+      lines.push(line);
+      line = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || line.length) {
+    line.push(field);
+    lines.push(line);
+  }
+
+  return lines;
+};
+
+const cellText = (value: ExcelJS.CellValue): string => {
+  if (value === null || value === undefined) return "";
+  if (value instanceof Date) return value.toISOString().split("T")[0];
+  if (typeof value === "object") {
+    if ("result" in value) return cellText(value.result as ExcelJS.CellValue);
+    if ("richText" in value) {
+      return value.richText.map((part) => part.text).join("");
+    }
+    if ("text" in value) return String(value.text);
+    return "";
+  }
+  return String(value);
+};
+
+// The first worksheet only
+const parseXlsx = async (buffer: Buffer): Promise<string[][]> => {
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(buffer);
+
+  const sheet = workbook.worksheets[0];
+  const lines: string[][] = [];
+
+  sheet?.eachRow((row) => {
+    lines.push(
+      Array.from({ length: sheet.columnCount }, (_, i) =>
+        cellText(row.getCell(i + 1).value)
+      )
+    );
+  });
+
+  return lines;
+};
+
+export const readImportFile = async (
+  file: File
+): Promise<
+  { headers: string[]; rows: ImportFileRow[] } | { error: string }
+> => {
+  const isXlsx = /\.xlsx$/i.test(file.name);
+
+  if (!isXlsx && !/\.(csv|txt)$/i.test(file.name)) {
+    return { error: "Upload a .csv or .xlsx file" };
+  }
+
+  const lines = (
+    isXlsx
+      ? await parseXlsx(Buffer.from(await file.arrayBuffer()))
+      : parseCsv(await file.text())
+  ).map((line) => line.map((value) => value.trim()));
+
+  const [headerLine = [], ...body] = lines;
+
+  // Blank and repeated headers still need a name to be mapped by
+  const headers: string[] = [];
+  headerLine.forEach((header, i) => {
+    const name = header || `Column ${i + 1}`;
+    headers.push(headers.includes(name) ? `${name} (${i + 1})` : name);
+  });
+
+  const rows = body
+    .filter((line) => line.some(Boolean))
+    .map((line) =>
+      Object.fromEntries(headers.map((header, i) => [header, line[i] ?? ""]))
+    );
+
+  if (!rows.length) {
+    return { error: "The file has no rows below its header" };
+  }
+  if (rows.length > MAX_IMPORT_ROWS) {
+    return { error: `Import at most ${MAX_IMPORT_ROWS} rows at a time` };
+  }
+
+  return { headers, rows };
+};
+
+// VALIDATION
+
+const sexes: Record<string, string> = { M: "MALE", F: "FEMALE" };
+
+const toSex = (value: string) =>
+  sexes[value.toUpperCase()] ?? value.toUpperCase();
+
+const splitList = (value: string) =>
+  value
+    .split(/[,;]/)
+    .map((item) => item.trim())
+    .filter(Boolean);
+
+const schemaLabels: Record<string, string> = {
+  gradeId: "Grade",
+  classId: "Class",
+  parentId: "Parent",
+  supervisorId: "Supervisor",
+};
+
+// Every row of the file (or the given ones) with its action and errors.
+// References are looked up once for the whole file.
+export const prepareImport = async (
+  entity: ImportEntity,
+  rows: ImportFileRow[],
+  mapping: ImportMapping,
+  indices = rows.map((_, i) => i)
+): Promise<PreparedRow[]> => {
+  const fields = IMPORT_FIELDS[entity];
+  const cell = (row: ImportFileRow, key: string) =>
+    (mapping[key] ? row[mapping[key]] ?? "" : "").trim();
+  const columnOf = (key: string) =>
+    indices.map((i) => cell(rows[i], key)).filter(Boolean);
+
+  const lower = (values: string[]) => values.map((value) => value.toLowerCase());
+  const usernames = columnOf("username");
+
+  const [year, grades, subjects, students, teachers, parents] =
+    await Promise.all([
+      getCurrentAcademicYear(),
+      prisma.grade.findMany(),
+      prisma.subject.findMany({ select: { id: true, name: true } }),
+      prisma.student.findMany({
+        where: { username: { in: usernames } },
+        select: { id: true, username: true, classId: true },
+      }),
+      prisma.teacher.findMany({
+        where: {
+          username: { in: [...usernames, ...columnOf("supervisor")] },
+        },
+        select: { id: true, username: true },
+      }),
+      prisma.parent.findMany({
+        where: { username: { in: [...usernames, ...columnOf("parent")] } },
+        select: { id: true, username: true },
+      }),
+    ]);
+
+  const classes = year
+    ? await prisma.class.findMany({
+        where: { academicYearId: year.id },
+        include: {
+          _count: { select: { students: { where: { deletedAt: null } } } },
+        },
+      })
+    : [];
+
+  const findClass = (name: string) =>
+    classes.find((item) => item.name.toLowerCase() === name.toLowerCase());
+  const seats = new Map(
+    classes.map((item) => [item.id, item.capacity - item._count.students])
+  );
+
+  const users = { student: students, teacher: teachers, parent: parents };
+  const ownRole = entity.toLowerCase() as keyof typeof users;
+
+  const seen = new Map<string, number>();
+
+  return indices.map((index) => {
+    const row = rows[index];
+    const get = (key: string) => cell(row, key);
+    const errors: string[] = [];
+    // Schema fields whose value was already reported as not found
+    const unresolved = new Set<string>();
+
+    // The username, or for classes the name, identifies the record
+    const key = (entity === "CLASS" ? get("name") : get("username")).toLowerCase();
+    const label =
+      entity === "CLASS"
+        ? get("name")
+        : `${get("name")} ${get("surname")} (${get("username")})`;
+
+    if (key && seen.has(key)) {
+      errors.push(`Same ${entity === "CLASS" ? "name" : "username"} as row ${seen.get(key)! + 2}`);
+    } else if (key) {
+      seen.set(key, index);
+    }
+
+    let existingId: string | number | undefined;
+    let input: Record<string, unknown>;
+
+    if (entity === "CLASS") {
+      if (!year) errors.push("There is no current academic year");
+
+      const grade = grades.find((item) => String(item.level) === get("grade"));
+      if (get("grade") && !grade) {
+        errors.push(`Grade ${get("grade")} not found`);
+        unresolved.add("gradeId");
+      }
+
+      const supervisor = teachers.find(
+        (teacher) => teacher.username === get("supervisor")
+      );
+      if (get("supervisor") && !supervisor) {
+        errors.push(`Teacher ${get("supervisor")} not found`);
+      }
+
+      existingId = findClass(get("name"))?.id;
+      input = {
+        id: existingId,
+        name: get("name"),
+        capacity: get("capacity"),
+        gradeId: grade?.id,
+        supervisorId: supervisor?.id,
+      };
+    } else {
+      const username = get("username");
+
+      // Clerk usernames are shared by every role
+      for (const [role, list] of Object.entries(users)) {
+        const user = list.find((item) => item.username === username);
+        if (user && role === ownRole) {
+          existingId = user.id;
+        } else if (user) {
+          errors.push(`Username ${username} belongs to a ${role}`);
+        }
+      }
+
+      input = {
+        id: existingId,
+        username,
+        password: get("password"),
+        name: get("name"),
+        surname: get("surname"),
+        email: get("email"),
+        phone: get("phone"),
+        address: get("address"),
+      };
+
+      if (entity !== "PARENT") {
+        input.bloodType = get("bloodType");
+        input.birthday = get("birthday");
+        input.sex = toSex(get("sex"));
+      }
+
+      if (entity === "STUDENT") {
+        const classItem = findClass(get("class"));
+        if (get("class") && !classItem) {
+          errors.push(`Class ${get("class")} not found in the current year`);
+          unresolved.add("classId");
+        }
+
+        const grade = get("grade")
+          ? grades.find((item) => String(item.level) === get("grade"))
+          : grades.find((item) => item.id === classItem?.gradeId);
+        if (get("grade") && !grade) {
+          errors.push(`Grade ${get("grade")} not found`);
+          unresolved.add("gradeId");
+        } else if (grade && classItem && grade.id !== classItem.gradeId) {
+          errors.push(`Class ${classItem.name} is not in grade ${grade.level}`);
+        }
+
+        const parent = parents.find((item) => item.username === get("parent"));
+        if (get("parent") && !parent) {
+          errors.push(`Parent ${get("parent")} not found`);
+          unresolved.add("parentId");
+        }
+
+        // A new student, or one moving class, needs a free seat
+        const current = students.find((student) => student.id === existingId);
+        if (classItem && current?.classId !== classItem.id) {
+          const free = seats.get(classItem.id) ?? 0;
+          if (free <= 0) {
+            errors.push(`Class ${classItem.name} is full`);
+          } else if (!errors.length) {
+            seats.set(classItem.id, free - 1);
+          }
+        }
+
+        input.gradeId = grade?.id;
+        input.classId = classItem?.id;
+        input.parentId = parent?.id;
+      }
+
+      if (entity === "TEACHER") {
+        const names = splitList(get("subjects"));
+        const missing = names.filter(
+          (name) => !lower(subjects.map((s) => s.name)).includes(name.toLowerCase())
+        );
+        if (missing.length) {
+          errors.push(`Subjects not found: ${missing.join(", ")}`);
+        }
+        input.subjects = subjects
+          .filter((subject) => lower(names).includes(subject.name.toLowerCase()))
+          .map((subject) => String(subject.id));
+      }
+    }
+
+    const schema = {
+      STUDENT: studentSchema,
+      TEACHER: teacherSchema,
+      PARENT: parentSchema,
+      CLASS: classSchema,
+    }[entity];
+    const result = schema.safeParse(input);
+
+    // The schemas' own messages name their field, zod's defaults don't
+    const describe = (issue: ZodIssue) => {
+      const path = String(issue.path[0]);
+      const fieldLabel =
+        schemaLabels[path] ?? fields.find((field) => field.key === path)?.label;
+      return fieldLabel && !issue.message.endsWith("!")
+        ? `${fieldLabel}: ${issue.message}`
+        : issue.message;
+    };
+
+    if (!result.success) {
+      errors.push(
+        ...result.error.issues
+          .filter((issue) => !unresolved.has(String(issue.path[0])))
+          .map(describe)
+      );
+    }
+
+    return {
+      index,
+      label: label.trim() || `Row ${index + 2}`,
+      action: existingId ? "UPDATE" : "CREATE",
+      errors,
+      data: result.success && !errors.length ? result.data : undefined,
+    };
+  });
+};
+
+// WRITING
+
+// Clerk user first, so the record can take its id. `userId` is a Clerk user
+// created by an earlier attempt whose database write failed.
+const saveUser = async (
+  role: "student" | "teacher" | "parent",
+  data: StudentSchema | TeacherSchema | ParentSchema,
+  userId: string | null,
+  onUserCreated: (userId: string) => Promise<unknown>
+) => {
+  const id = data.id ?? userId;
+
+  if (id) {
+    await clerkClient.users.updateUser(id, {
+      username: data.username,
+      ...(data.password && { password: data.password }),
+      firstName: data.name,
+      lastName: data.surname,
+    });
+    return id;
+  }
+
+  const user = await clerkClient.users.createUser({
+    username: data.username,
+    password: data.password,
+    firstName: data.name,
+    lastName: data.surname,
+    publicMetadata: { role },
+  });
+  await onUserCreated(user.id);
+  return user.id;
+};
+
+// Creates or updates the record of a valid row and returns its id
+export const saveImportRow = async (
+  entity: ImportEntity,
+  row: NonNullable<PreparedRow["data"]>,
+  userId: string | null,
+  onUserCreated: (userId: string) => Promise<unknown>
+) => {
+  switch (entity) {
+    case "STUDENT": {
+      const data = row as StudentSchema;
+      const id = await saveUser("student", data, userId, onUserCreated);
+      const classItem = await prisma.class.findUniqueOrThrow({
+        where: { id: data.classId },
+      });
+
+      const fields = {
+        username: data.username,
+        name: data.name,
+        surname: data.surname,
+        email: data.email || null,
+        phone: data.phone || null,
+        address: data.address,
+        bloodType: data.bloodType,
+        sex: data.sex,
+        birthday: data.birthday,
+        gradeId: data.gradeId,
+        classId: data.classId,
+      };
+      const enrollment = {
+        classId: data.classId,
+        gradeId: data.gradeId,
+        academicYearId: classItem.academicYearId,
+      };
+
+      const before = await prisma.student.findUnique({ where: { id } });
+
+      const student = await prisma.student.upsert({
+        where: { id },
+        create: { id, ...fields, enrollments: { create: enrollment } },
+        update: {
+          ...fields,
+          enrollments: {
+            upsert: {
+              where: {
+                studentId_academicYearId: {
+                  studentId: id,
+                  academicYearId: classItem.academicYearId,
+                },
+              },
+              create: enrollment,
+              update: { classId: data.classId, gradeId: data.gradeId },
+            },
+          },
+        },
+      });
+      const guardians = await prisma.$transaction((tx) =>
+        setPrimaryGuardian(tx, id, data.parentId)
+      );
+      await prisma.$transaction([
+        audit({
+          entity: "Student",
+          action: before ? "UPDATE" : "CREATE",
+          before,
+          after: student,
+        }),
+        auditChanges("Guardian", guardians.before, guardians.after),
+      ]);
+      return id;
+    }
+    case "TEACHER": {
+      const data = row as TeacherSchema;
+      const id = await saveUser("teacher", data, userId, onUserCreated);
+      const subjects = data.subjects?.map((subjectId) => ({
+        id: parseInt(subjectId),
+      }));
+
+      const fields = {
+        username: data.username,
+        name: data.name,
+        surname: data.surname,
+        email: data.email || null,
+        phone: data.phone || null,
+        address: data.address,
+        bloodType: data.bloodType,
+        sex: data.sex,
+        birthday: data.birthday,
+      };
+
+      const before = await prisma.teacher.findUnique({
+        where: { id },
+        include: { subjects: { select: { id: true } } },
+      });
+
+      const teacher = await prisma.teacher.upsert({
+        where: { id },
+        create: { id, ...fields, subjects: { connect: subjects } },
+        update: { ...fields, subjects: { set: subjects } },
+        include: { subjects: { select: { id: true } } },
+      });
+      await audit({
+        entity: "Teacher",
+        action: before ? "UPDATE" : "CREATE",
+        before,
+        after: teacher,
+      });
+      return id;
+    }
+    case "PARENT": {
+      const data = row as ParentSchema;
+      const id = await saveUser("parent", data, userId, onUserCreated);
+
+      const fields = {
+        username: data.username,
+        name: data.name,
+        surname: data.surname,
+        email: data.email || null,
+        phone: data.phone,
+        address: data.address,
+      };
+
+      const before = await prisma.parent.findUnique({ where: { id } });
+
+      const parent = await prisma.parent.upsert({
+        where: { id },
+        create: { id, ...fields },
+        update: fields,
+      });
+      await audit({
+        entity: "Parent",
+        action: before ? "UPDATE" : "CREATE",
+        before,
+        after: parent,
+      });
+      return id;
+    }
+    case "CLASS": {
+      const data = row as ClassSchema;
+      const year = await getCurrentAcademicYear();
+
+      if (!year) {
+        throw new Error("There is no current academic year");
+      }
+
+      const fields = {
+        capacity: data.capacity,
+        gradeId: data.gradeId,
+        supervisorId: data.supervisorId || null,
+      };
+
+      const where = {
+        name_academicYearId: { name: data.name, academicYearId: year.id },
+      };
+      const before = await prisma.class.findUnique({ where });
+
+      const classItem = await prisma.class.upsert({
+        where,
+        create: { name: data.name, academicYearId: year.id, ...fields },
+        update: fields,
+      });
+      await audit({
+        entity: "Class",
+        action: before ? "UPDATE" : "CREATE",
+        before,
+        after: classItem,
+      });
+      return String(classItem.id);
+    }
+  }
+};
+
+// A message for the report rather than the stack
+export const describeImportError = (err: unknown) => {
+  const clerkError = (err as { errors?: { longMessage?: string; message: string }[] })
+    ?.errors?.[0];
+
+  if (clerkError) return clerkError.longMessage ?? clerkError.message;
+  if (err instanceof Prisma.PrismaClientKnownRequestError && err.code === "P2002") {
+    return `Already used by another record: ${String(err.meta?.target ?? "")}`;
+  }
+  return err instanceof Error ? err.message : "Could not be saved";
+};
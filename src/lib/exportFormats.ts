@@ -0,0 +1,272 @@
+import ExcelJS from "exceljs";
+import { PDFDocument, PDFFont, PDFPage, StandardFonts, rgb } from "pdf-lib";
+
+// EXPORT FORMATS
+// A titled table written out as a file. Dates are calendar days (midnight
+// UTC) and stay typed in spreadsheets; times of day are formatted by the
+// caller. The PDF is a landscape A4 print with the header on every page.
+
+export type ExportValue = string | number | Date | null | undefined;
+
+export type ExportTable = {
+  title: string;
+  headers: string[];
+  rows: ExportValue[][];
+};
+
+export const EXPORT_FORMATS = ["csv", "xlsx", "pdf"] as const;
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export type ExportFile = {
+  body: Uint8Array;
+  contentType: string;
+  fileName: string;
+};
+
+const formatDay = (date: Date) => date.toISOString().split("T")[0];
+
+const toText = (value: ExportValue) =>
+  value === null || value === undefined
+    ? ""
+    : value instanceof Date
+    ? formatDay(value)
+    : String(value);
+
+const slug = (title: string) =>
+  title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "") || "export";
+
+// CSV
+
+// Spreadsheet apps run cells starting with these as formulas
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+const csvCell = (value: ExportValue) => {
+  let text = toText(value);
+  if (typeof value === "string" && FORMULA_START.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toCsv = ({ headers, rows }: ExportTable) => {
+  const lines = [headers, ...rows].map((row) => row.map(csvCell).join(","));
+  // The BOM makes Excel read the file as UTF-8
+  return new TextEncoder().encode("\uFEFF" + lines.join("\r\n") + "\r\n");
+};
+
+// XLSX
+
+const MAX_COLUMN_WIDTH = 50;
+
+const toXlsx = async ({ title, headers, rows }: ExportTable) => {
+  const workbook = new ExcelJS.Workbook();
+  const sheet = workbook.addWorksheet(
+    title.replace(/[\\/?*[\]:]/g, " ").slice(0, 31) || "Export",
+    { views: [{ state: "frozen", ySplit: 1 }] }
+  );
+
+  sheet.addRow(headers).font = { bold: true };
+  rows.forEach((row) => sheet.addRow(row.map((value) => value ?? null)));
+
+  sheet.columns.forEach((column, index) => {
+    const longest = Math.max(
+      headers[index].length,
+      ...rows.map((row) => toText(row[index]).length)
+    );
+    column.width = Math.min(longest + 2, MAX_COLUMN_WIDTH);
+    if (rows.some((row) => row[index] instanceof Date)) {
+      column.numFmt = "yyyy-mm-dd";
+    }
+  });
+
+  return new Uint8Array(await workbook.xlsx.writeBuffer());
+};
+
+// PDF
+
+const PAGE_SIZE: [number, number] = [841.89, 595.28];
+const MARGIN = 36;
+const FONT_SIZE = 8;
+const TITLE_SIZE = 14;
+const ROW_HEIGHT = 14;
+const CELL_PADDING = 3;
+// Columns wider than this share of the page are truncated
+const MAX_COLUMN_SHARE = 0.35;
+
+// The standard fonts only encode Latin-1
+export const printable = (text: string) =>
+  text.replace(/\s+/g, " ").replace(/[^\x20-\x7E\xA0-\xFF]/g, "?");
+
+export const fitText = (
+  text: string,
+  font: PDFFont,
+  width: number,
+  size = FONT_SIZE
+) => {
+  if (font.widthOfTextAtSize(text, size) <= width) return text;
+  let end = text.length;
+  while (
+    end > 0 &&
+    font.widthOfTextAtSize(text.slice(0, end) + "...", size) > width
+  ) {
+    end--;
+  }
+  return text.slice(0, end) + "...";
+};
+
+const columnWidths = (table: string[][], font: PDFFont, available: number) => {
+  const natural = table[0].map((_, index) =>
+    Math.min(
+      Math.max(
+        ...table.map((row) => font.widthOfTextAtSize(row[index], FONT_SIZE))
+      ) +
+        CELL_PADDING * 2,
+      available * MAX_COLUMN_SHARE
+    )
+  );
+  const total = natural.reduce((sum, width) => sum + width, 0);
+  return natural.map((width) => (width / total) * available);
+};
+
+const drawTable = (
+  document: PDFDocument,
+  fonts: { regular: PDFFont; bold: PDFFont },
+  { title, headers, rows }: ExportTable,
+  subtitle?: string
+) => {
+  const available = PAGE_SIZE[0] - MARGIN * 2;
+  const text = [headers, ...rows.map((row) => row.map(toText))].map((row) =>
+    row.map(printable)
+  );
+  const widths = columnWidths(text, fonts.regular, available);
+
+  let page: PDFPage = document.addPage(PAGE_SIZE);
+  let y = 0;
+
+  const drawRow = (cells: string[], font: PDFFont, shaded: boolean) => {
+    if (shaded) {
+      page.drawRectangle({
+        x: MARGIN,
+        y: y - ROW_HEIGHT + 4,
+        width: available,
+        height: ROW_HEIGHT,
+        color: rgb(0.95, 0.96, 0.98),
+      });
+    }
+    let x = MARGIN;
+    cells.forEach((cell, index) => {
+      page.drawText(fitText(cell, font, widths[index] - CELL_PADDING * 2), {
+        x: x + CELL_PADDING,
+        y,
+        size: FONT_SIZE,
+        font,
+      });
+      x += widths[index];
+    });
+    y -= ROW_HEIGHT;
+  };
+
+  const startPage = (first: boolean) => {
+    if (!first) page = document.addPage(PAGE_SIZE);
+    y = PAGE_SIZE[1] - MARGIN;
+    if (first) {
+      page.drawText(printable(title), {
+        x: MARGIN,
+        y: y - TITLE_SIZE,
+        size: TITLE_SIZE,
+        font: fonts.bold,
+      });
+      y -= TITLE_SIZE + 8;
+      if (subtitle) {
+        page.drawText(printable(subtitle), {
+          x: MARGIN,
+          y: y - FONT_SIZE,
+          size: FONT_SIZE,
+          font: fonts.regular,
+          color: rgb(0.4, 0.4, 0.4),
+        });
+        y -= FONT_SIZE + 8;
+      }
+    }
+    y -= FONT_SIZE + 4;
+    drawRow(text[0], fonts.bold, false);
+    page.drawLine({
+      start: { x: MARGIN, y: y + ROW_HEIGHT - 3 },
+      end: { x: MARGIN + available, y: y + ROW_HEIGHT - 3 },
+      thickness: 0.5,
+      color: rgb(0.6, 0.6, 0.6),
+    });
+  };
+
+  startPage(true);
+  text.slice(1).forEach((row, index) => {
+    if (y < MARGIN + ROW_HEIGHT) startPage(false);
+    drawRow(row, fonts.regular, index % 2 === 1);
+  });
+};
+
+export const embedFonts = async (document: PDFDocument) => ({
+  regular: await document.embedFont(StandardFonts.Helvetica),
+  bold: await document.embedFont(StandardFonts.HelveticaBold),
+});
+
+export const numberPages = (document: PDFDocument, font: PDFFont) => {
+  const pages = document.getPages();
+  pages.forEach((page, index) => {
+    const label = `Page ${index + 1} of ${pages.length}`;
+    page.drawText(label, {
+      x: page.getWidth() - MARGIN - font.widthOfTextAtSize(label, FONT_SIZE),
+      y: MARGIN / 2,
+      size: FONT_SIZE,
+      font,
+      color: rgb(0.4, 0.4, 0.4),
+    });
+  });
+};
+
+const toPdf = async (table: ExportTable) => {
+  const document = await PDFDocument.create();
+  document.setTitle(table.title);
+  const fonts = await embedFonts(document);
+
+  drawTable(
+    document,
+    fonts,
+    table,
+    `${table.rows.length} rows, exported ${formatDay(new Date())}`
+  );
+  numberPages(document, fonts.regular);
+
+  return document.save();
+};
+
+export const renderExport = async (
+  table: ExportTable,
+  format: ExportFormat
+): Promise<ExportFile> => {
+  const fileName = `${slug(table.title)}-${formatDay(new Date())}.${format}`;
+
+  switch (format) {
+    case "csv":
+      return {
+        body: toCsv(table),
+        contentType: "text/csv; charset=utf-8",
+        fileName,
+      };
+    case "xlsx":
+      return {
+        body: await toXlsx(table),
+        contentType:
+          "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+        fileName,
+      };
+    case "pdf":
+      return {
+        body: await toPdf(table),
+        contentType: "application/pdf",
+        fileName,
+      };
+  }
+};
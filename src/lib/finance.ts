@@ -0,0 +1,207 @@
+import { FeeStructure, Invoice, Payment, Prisma } from "@prisma/client";
+import { childrenOf } from "./guardians";
+import prisma from "./prisma";
+import { CURRENCY } from "./settings";
+import { toDateOnly } from "./utils";
+
+// FINANCE
+// Fee structures charge every student of a grade or class once a year; issuing
+// them creates one invoice per student, billed to their primary guardian, less
+// the student's discounts for the year. Invoices are paid in one or more
+// payments. Income is what was paid, when it was paid.
+
+export type InvoiceStatus = "PAID" | "PARTIAL" | "UNPAID" | "OVERDUE";
+
+type InvoiceWithPayments = Invoice & { payments: Pick<Payment, "amount">[] };
+
+// Amounts are exact decimals in the currency's units, rounded to cents, and
+// are added up and compared as such
+export const roundMoney = (amount: Prisma.Decimal.Value) =>
+  new Prisma.Decimal(amount).toDecimalPlaces(2);
+
+export const sumMoney = (amounts: Prisma.Decimal.Value[]) =>
+  amounts.reduce<Prisma.Decimal>(
+    (sum, amount) => sum.plus(amount),
+    new Prisma.Decimal(0)
+  );
+
+export const formatMoney = (amount: Prisma.Decimal.Value) =>
+  new Intl.NumberFormat("en-US", { style: "currency", currency: CURRENCY })
+    .format(new Prisma.Decimal(amount).toNumber());
+
+// Client components only take plain values, so decimals are passed as numbers
+export const toPlainAmounts = (value: unknown): any => {
+  if (Prisma.Decimal.isDecimal(value)) return value.toNumber();
+  if (Array.isArray(value)) return value.map(toPlainAmounts);
+  if (value && typeof value === "object" && !(value instanceof Date)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, toPlainAmounts(item)])
+    );
+  }
+  return value;
+};
+
+export const getInvoiceTotals = (invoice: InvoiceWithPayments) => {
+  const total = invoice.amount.minus(invoice.discount);
+  const paid = sumMoney(invoice.payments.map((payment) => payment.amount));
+  return { total, paid, balance: total.minus(paid) };
+};
+
+export const getInvoiceStatus = (
+  invoice: InvoiceWithPayments
+): InvoiceStatus => {
+  const { paid, balance } = getInvoiceTotals(invoice);
+  if (balance.lte(0)) return "PAID";
+  if (invoice.dueDate < toDateOnly(new Date())) return "OVERDUE";
+  return paid.gt(0) ? "PARTIAL" : "UNPAID";
+};
+
+// Students still at school in the fee's class, or in any class of its grade
+export const feeStudentsQuery = (
+  fee: Pick<FeeStructure, "academicYearId" | "gradeId" | "classId">
+): Prisma.StudentWhereInput => ({
+  deletedAt: null,
+  class: {
+    academicYearId: fee.academicYearId,
+    deletedAt: null,
+    ...(fee.classId ? { id: fee.classId } : { gradeId: fee.gradeId! }),
+  },
+});
+
+// Invoices for the students of the fee who don't have one for it yet
+export const planFeeInvoices = async (fee: FeeStructure) => {
+  const students = await prisma.student.findMany({
+    where: {
+      ...feeStudentsQuery(fee),
+      invoices: { none: { feeStructureId: fee.id } },
+    },
+    select: {
+      id: true,
+      guardians: { where: { isPrimary: true }, select: { parentId: true } },
+      discounts: {
+        where: { academicYearId: fee.academicYearId },
+        select: { percent: true },
+      },
+    },
+  });
+
+  return students.flatMap((student) => {
+    // Every student has one, but a student without one can't be billed
+    const [guardian] = student.guardians;
+    if (!guardian) return [];
+
+    // Discounts add up, to at most the whole fee
+    const percent = Prisma.Decimal.min(
+      100,
+      sumMoney(student.discounts.map((discount) => discount.percent))
+    );
+    return {
+      title: fee.name,
+      amount: fee.amount,
+      discount: roundMoney(fee.amount.times(percent).dividedBy(100)),
+      dueDate: fee.dueDate,
+      studentId: student.id,
+      parentId: guardian.parentId,
+      feeStructureId: fee.id,
+    };
+  });
+};
+
+const MONTHS = [
+  "Jan",
+  "Feb",
+  "Mar",
+  "Apr",
+  "May",
+  "Jun",
+  "Jul",
+  "Aug",
+  "Sep",
+  "Oct",
+  "Nov",
+  "Dec",
+];
+
+// Payments received and expenses paid in each month of the year. Like other
+// dates they're stored as days at midnight UTC.
+export const getMonthlyFinance = async (year: number) => {
+  const range = {
+    gte: new Date(Date.UTC(year, 0, 1)),
+    lt: new Date(Date.UTC(year + 1, 0, 1)),
+  };
+
+  const [payments, expenses] = await prisma.$transaction([
+    prisma.payment.findMany({
+      where: { paidAt: range },
+      select: { amount: true, paidAt: true },
+    }),
+    prisma.expense.findMany({
+      where: { date: range },
+      select: { amount: true, date: true },
+    }),
+  ]);
+
+  // The chart takes numbers, so the month's totals are converted at the end
+  return MONTHS.map((name, month) => ({
+    name,
+    income: sumMoney(
+      payments
+        .filter((payment) => payment.paidAt.getUTCMonth() === month)
+        .map((payment) => payment.amount)
+    ).toNumber(),
+    expense: sumMoney(
+      expenses
+        .filter((expense) => expense.date.getUTCMonth() === month)
+        .map((expense) => expense.amount)
+    ).toNumber(),
+  }));
+};
+
+// What is still owed for each of a parent's children, with the invoices not
+// paid in full, whichever guardian they're billed to
+export const getParentBalances = async (parentId: string) => {
+  const invoices = await prisma.invoice.findMany({
+    where: { student: childrenOf(parentId) },
+    include: {
+      student: { select: { id: true, name: true, surname: true } },
+      payments: { select: { amount: true } },
+    },
+    orderBy: { dueDate: "asc" },
+  });
+
+  const children = new Map<
+    string,
+    {
+      student: (typeof invoices)[number]["student"];
+      balance: Prisma.Decimal;
+      overdue: Prisma.Decimal;
+      open: {
+        invoice: (typeof invoices)[number];
+        balance: Prisma.Decimal;
+        status: InvoiceStatus;
+      }[];
+    }
+  >();
+
+  for (const invoice of invoices) {
+    const child = children.get(invoice.studentId) ?? {
+      student: invoice.student,
+      balance: new Prisma.Decimal(0),
+      overdue: new Prisma.Decimal(0),
+      open: [],
+    };
+    children.set(invoice.studentId, child);
+
+    const { balance } = getInvoiceTotals(invoice);
+    if (balance.lte(0)) continue;
+
+    const status = getInvoiceStatus(invoice);
+    child.balance = child.balance.plus(balance);
+    if (status === "OVERDUE") {
+      child.overdue = child.overdue.plus(balance);
+    }
+    child.open.push({ invoice, balance, status });
+  }
+
+  return Array.from(children.values());
+};
@@ -14,6 +14,7 @@ export const classSchema = z.object({
   capacity: z.coerce.number().min(1, { message: "Capacity name is required!" }),
   gradeId: z.coerce.number().min(1, { message: "Grade name is required!" }),
   supervisorId: z.coerce.string().optional(),
+  gradeScaleId: z.coerce.number().optional(),
 });
 
 export type ClassSchema = z.infer<typeof classSchema>;
@@ -47,6 +48,22 @@ export const teacherSchema = z.object({
 
 export type TeacherSchema = z.infer<typeof teacherSchema>;
 
+const guardianRelationship = z.enum(
+  [
+    "PARENT",
+    "MOTHER",
+    "FATHER",
+    "STEPMOTHER",
+    "STEPFATHER",
+    "GRANDPARENT",
+    "SIBLING",
+    "FOSTER_PARENT",
+    "LEGAL_GUARDIAN",
+    "OTHER",
+  ],
+  { message: "Relationship is required!" }
+);
+
 export const studentSchema = z.object({
   id: z.string().optional(),
   username: z
@@ -73,7 +90,9 @@ export const studentSchema = z.object({
   sex: z.enum(["MALE", "FEMALE"], { message: "Sex is required!" }),
   gradeId: z.coerce.number().min(1, { message: "Grade is required!" }),
   classId: z.coerce.number().min(1, { message: "Class is required!" }),
-  parentId: z.string().min(1, { message: "Parent Id is required!" }),
+  // The primary guardian, who becomes one if they aren't yet
+  parentId: z.string().min(1, { message: "Primary guardian is required!" }),
+  relationship: guardianRelationship.optional(),
 });
 
 export type StudentSchema = z.infer<typeof studentSchema>;
@@ -83,7 +102,620 @@ export const examSchema = z.object({
   title: z.string().min(1, { message: "Title name is required!" }),
   startTime: z.coerce.date({ message: "Start time is required!" }),
   endTime: z.coerce.date({ message: "End time is required!" }),
+  maxScore: z.coerce.number().min(1, { message: "Max score is required!" }),
   lessonId: z.coerce.number({ message: "Lesson is required!" }),
 });
 
 export type ExamSchema = z.infer<typeof examSchema>;
+
+export const parentSchema = z.object({
+  id: z.string().optional(),
+  username: z
+    .string()
+    .min(3, { message: "Username must be at least 3 characters long!" })
+    .max(20, { message: "Username must be at most 20 characters long!" }),
+  password: z
+    .string()
+    .min(8, { message: "Password must be at least 8 characters long!" })
+    .optional()
+    .or(z.literal("")),
+  name: z.string().min(1, { message: "First name is required!" }),
+  surname: z.string().min(1, { message: "Last name is required!" }),
+  email: z
+    .string()
+    .email({ message: "Invalid email address!" })
+    .optional()
+    .or(z.literal("")),
+  phone: z.string().min(1, { message: "Phone is required!" }),
+  address: z.string().min(1, { message: "Address is required!" }),
+});
+
+export type ParentSchema = z.infer<typeof parentSchema>;
+
+// Empty date inputs mean "not set"
+const optionalDate = z.preprocess(
+  (value) => value || undefined,
+  z.coerce.date().optional()
+);
+
+export const lessonSchema = z.object({
+  id: z.coerce.number().optional(),
+  name: z.string().min(1, { message: "Lesson name is required!" }),
+  day: z.enum(["MONDAY", "TUESDAY", "WEDNESDAY", "THURSDAY", "FRIDAY"], {
+    message: "Day is required!",
+  }),
+  startTime: z.coerce.date({ message: "Start time is required!" }),
+  endTime: z.coerce.date({ message: "End time is required!" }),
+  subjectId: z.coerce.number({ message: "Subject is required!" }),
+  classId: z.coerce.number({ message: "Class is required!" }),
+  teacherId: z.string().min(1, { message: "Teacher is required!" }),
+  roomId: z.coerce.number().optional(),
+  periodId: z.coerce.number().optional(),
+  validFrom: optionalDate,
+  validUntil: optionalDate,
+});
+
+export type LessonSchema = z.infer<typeof lessonSchema>;
+
+export const assignmentSchema = z.object({
+  id: z.coerce.number().optional(),
+  title: z.string().min(1, { message: "Title is required!" }),
+  startDate: z.coerce.date({ message: "Start date is required!" }),
+  dueDate: z.coerce.date({ message: "Due date is required!" }),
+  maxScore: z.coerce.number().min(1, { message: "Max score is required!" }),
+  maxAttempts: z.coerce
+    .number()
+    .int()
+    .min(1, { message: "At least one attempt!" }),
+  allowLate: z.coerce.boolean(),
+  lessonId: z.coerce.number({ message: "Lesson is required!" }),
+  rubricId: z.coerce.number().optional(),
+});
+
+export type AssignmentSchema = z.infer<typeof assignmentSchema>;
+
+export const submissionSchema = z
+  .object({
+    assignmentId: z.coerce.number(),
+    text: z
+      .string()
+      .max(20000, { message: "Text must be at most 20000 characters long!" })
+      .optional(),
+    files: z
+      .array(z.object({ name: z.string().min(1), url: z.string().url() }))
+      .max(10, { message: "At most 10 files!" }),
+  })
+  .refine((data) => !!data.text?.trim() || data.files.length > 0, {
+    message: "Write something or attach a file!",
+    path: ["text"],
+  });
+
+export type SubmissionSchema = z.infer<typeof submissionSchema>;
+
+// Chosen level id by criterion id, when grading against a rubric
+const rubricLevels = z.record(z.coerce.number());
+
+export const submissionGradeSchema = z
+  .object({
+    id: z.coerce.number(),
+    score: z.coerce
+      .number()
+      .int()
+      .min(0, { message: "Score is required!" })
+      .optional(),
+    feedback: z
+      .string()
+      .max(5000, { message: "Feedback must be at most 5000 characters long!" })
+      .optional(),
+    levels: rubricLevels.optional(),
+  })
+  .refine((data) => data.score !== undefined || data.levels, {
+    message: "Score is required!",
+    path: ["score"],
+  });
+
+export type SubmissionGradeSchema = z.infer<typeof submissionGradeSchema>;
+
+export const resultSchema = z
+  .object({
+    id: z.coerce.number().optional(),
+    score: z.coerce
+      .number()
+      .int({ message: "Score must be a whole number!" })
+      .min(0, { message: "Score is required!" }),
+    studentId: z.string().min(1, { message: "Student is required!" }),
+    examId: z.coerce.number().optional(),
+    assignmentId: z.coerce.number().optional(),
+  })
+  .refine((data) => !!data.examId !== !!data.assignmentId, {
+    message: "Choose either an exam or an assignment!",
+    path: ["examId"],
+  });
+
+export type ResultSchema = z.infer<typeof resultSchema>;
+
+export const testAnswersSchema = z.object({
+  examId: z.coerce.number(),
+  // Answer by question id
+  answers: z.record(z.string().max(10000)),
+});
+
+export type TestAnswersSchema = z.infer<typeof testAnswersSchema>;
+
+// A short answer or essay marked by hand, or against the question's rubric
+export const testMarkSchema = z
+  .object({
+    attemptId: z.coerce.number(),
+    questionId: z.string().min(1),
+    points: z.coerce
+      .number()
+      .min(0, { message: "Points are required!" })
+      .optional(),
+    levels: rubricLevels.optional(),
+  })
+  .refine((data) => data.points !== undefined || data.levels, {
+    message: "Points are required!",
+    path: ["points"],
+  });
+
+export type TestMarkSchema = z.infer<typeof testMarkSchema>;
+
+export const rubricSchema = z.object({
+  id: z.coerce.number().optional(),
+  title: z.string().min(1, { message: "Title is required!" }),
+  description: z.string().optional(),
+  criteria: z
+    .array(
+      z.object({
+        title: z.string().min(1, { message: "Criterion is required!" }),
+        description: z.string().optional(),
+        levels: z
+          .array(
+            z.object({
+              title: z.string().min(1, { message: "Level is required!" }),
+              description: z.string().optional(),
+              points: z.coerce
+                .number()
+                .int()
+                .min(0, { message: "Points are required!" }),
+            })
+          )
+          .min(1, { message: "At least one level is required!" }),
+      })
+    )
+    .min(1, { message: "At least one criterion is required!" }),
+});
+
+export type RubricSchema = z.infer<typeof rubricSchema>;
+
+const attendanceStatus = z.enum(["PRESENT", "ABSENT", "LATE", "EXCUSED"], {
+  message: "Status is required!",
+});
+
+export const attendanceSchema = z.object({
+  id: z.coerce.number().optional(),
+  date: z.coerce.date({ message: "Date is required!" }),
+  status: attendanceStatus,
+  studentId: z.string().min(1, { message: "Student is required!" }),
+  lessonId: z.coerce.number({ message: "Lesson is required!" }),
+});
+
+export type AttendanceSchema = z.infer<typeof attendanceSchema>;
+
+export const attendanceRegisterSchema = z.object({
+  lessonId: z.coerce.number({ message: "Lesson is required!" }),
+  date: z.coerce.date({ message: "Date is required!" }),
+  entries: z.array(
+    z.object({
+      studentId: z.string(),
+      status: attendanceStatus,
+    })
+  ),
+});
+
+export type AttendanceRegisterSchema = z.infer<
+  typeof attendanceRegisterSchema
+>;
+
+export const eventSchema = z.object({
+  id: z.coerce.number().optional(),
+  title: z.string().min(1, { message: "Title is required!" }),
+  description: z.string().min(1, { message: "Description is required!" }),
+  startTime: z.coerce.date({ message: "Start time is required!" }),
+  endTime: z.coerce.date({ message: "End time is required!" }),
+  classId: z.coerce.number().optional(),
+});
+
+export type EventSchema = z.infer<typeof eventSchema>;
+
+export const announcementSchema = z.object({
+  id: z.coerce.number().optional(),
+  title: z.string().min(1, { message: "Title is required!" }),
+  description: z.string().min(1, { message: "Description is required!" }),
+  date: z.coerce.date({ message: "Date is required!" }),
+  classId: z.coerce.number().optional(),
+});
+
+export type AnnouncementSchema = z.infer<typeof announcementSchema>;
+
+export const gradeWeightSchema = z
+  .object({
+    id: z.coerce.number().optional(),
+    classId: z.coerce.number({ message: "Class is required!" }),
+    subjectId: z.coerce.number({ message: "Subject is required!" }),
+    examWeight: z.coerce.number().min(0).max(100),
+    assignmentWeight: z.coerce.number().min(0).max(100),
+  })
+  .refine((data) => data.examWeight + data.assignmentWeight === 100, {
+    message: "Weights must add up to 100!",
+    path: ["examWeight"],
+  });
+
+export type GradeWeightSchema = z.infer<typeof gradeWeightSchema>;
+
+export const gradeScaleSchema = z.object({
+  id: z.coerce.number().optional(),
+  name: z.string().min(1, { message: "Name is required!" }),
+  isDefault: z.coerce.boolean(),
+  bands: z
+    .array(
+      z.object({
+        letter: z.string().min(1, { message: "Letter is required!" }),
+        minPercent: z.coerce.number().min(0).max(100),
+      })
+    )
+    .min(1, { message: "At least one band is required!" })
+    .refine((bands) => bands.some((band) => band.minPercent === 0), {
+      message: "One band must start at 0%!",
+    })
+    .refine(
+      (bands) => new Set(bands.map((band) => band.letter)).size === bands.length,
+      { message: "Letters must be unique!" }
+    ),
+});
+
+export type GradeScaleSchema = z.infer<typeof gradeScaleSchema>;
+
+const academicYearFields = z.object({
+  id: z.coerce.number().optional(),
+  name: z.string().min(1, { message: "Name is required!" }),
+  startDate: z.coerce.date({ message: "Start date is required!" }),
+  endDate: z.coerce.date({ message: "End date is required!" }),
+  terms: z
+    .array(
+      z.object({
+        name: z.string().min(1, { message: "Term name is required!" }),
+        startDate: z.coerce.date({ message: "Start date is required!" }),
+        endDate: z.coerce.date({ message: "End date is required!" }),
+      })
+    )
+    .min(1, { message: "At least one term is required!" }),
+});
+
+// Terms must sit inside the year and must not overlap each other
+const hasValidTerms = (data: z.infer<typeof academicYearFields>) => {
+  const terms = [...data.terms].sort(
+    (a, b) => a.startDate.getTime() - b.startDate.getTime()
+  );
+  return (
+    data.startDate < data.endDate &&
+    terms.every(
+      (term, i) =>
+        term.startDate < term.endDate &&
+        term.startDate >= data.startDate &&
+        term.endDate <= data.endDate &&
+        (i === 0 || terms[i - 1].endDate < term.startDate)
+    )
+  );
+};
+
+const termsMessage = {
+  message: "Terms must be inside the year and must not overlap!",
+  path: ["terms"],
+};
+
+export const academicYearSchema = academicYearFields.refine(
+  hasValidTerms,
+  termsMessage
+);
+
+export type AcademicYearSchema = z.infer<typeof academicYearSchema>;
+
+export const rolloverSchema = academicYearFields
+  .extend({ copyLessons: z.coerce.boolean() })
+  .refine(hasValidTerms, termsMessage);
+
+export type RolloverSchema = z.infer<typeof rolloverSchema>;
+
+export const roomSchema = z.object({
+  id: z.coerce.number().optional(),
+  name: z.string().min(1, { message: "Room name is required!" }),
+  capacity: z.coerce.number().optional(),
+});
+
+export type RoomSchema = z.infer<typeof roomSchema>;
+
+const timeOfDay = z
+  .string()
+  .regex(/^([01]\d|2[0-3]):[0-5]\d$/, { message: "Use the HH:mm format!" });
+
+export const periodSchema = z
+  .object({
+    id: z.coerce.number().optional(),
+    name: z.string().min(1, { message: "Period name is required!" }),
+    startTime: timeOfDay,
+    endTime: timeOfDay,
+  })
+  .refine((data) => data.startTime < data.endTime, {
+    message: "The period must end after it starts!",
+    path: ["endTime"],
+  });
+
+export type PeriodSchema = z.infer<typeof periodSchema>;
+
+export const subjectHoursSchema = z.object({
+  id: z.coerce.number().optional(),
+  classId: z.coerce.number({ message: "Class is required!" }),
+  subjectId: z.coerce.number({ message: "Subject is required!" }),
+  hoursPerWeek: z.coerce
+    .number()
+    .int()
+    .min(1, { message: "At least one period a week!" })
+    .max(40, { message: "At most 40 periods a week!" }),
+});
+
+export type SubjectHoursSchema = z.infer<typeof subjectHoursSchema>;
+
+export const teacherAvailabilitySchema = z.object({
+  teacherId: z.string().min(1, { message: "Teacher is required!" }),
+  unavailable: z.array(
+    z.object({
+      day: z.enum(["MONDAY", "TUESDAY", "WEDNESDAY", "THURSDAY", "FRIDAY"]),
+      periodId: z.coerce.number(),
+    })
+  ),
+});
+
+export type TeacherAvailabilitySchema = z.infer<
+  typeof teacherAvailabilitySchema
+>;
+
+export const timetableGenerationSchema = z.object({
+  classIds: z
+    .array(z.coerce.number())
+    .min(1, { message: "Pick at least one class!" }),
+});
+
+export type TimetableGenerationSchema = z.infer<
+  typeof timetableGenerationSchema
+>;
+
+export const lessonExceptionSchema = z
+  .object({
+    id: z.coerce.number().optional(),
+    lessonId: z.coerce.number({ message: "Lesson is required!" }),
+    date: z.coerce.date({ message: "Date is required!" }),
+    cancelled: z.coerce.boolean(),
+    substituteTeacherId: z.string().optional(),
+    roomId: z.coerce.number().optional(),
+    reason: z.string().optional(),
+  })
+  .refine(
+    (data) => data.cancelled || data.substituteTeacherId || data.roomId,
+    {
+      message: "Cancel the lesson, pick a substitute or change the room!",
+      path: ["cancelled"],
+    }
+  );
+
+export type LessonExceptionSchema = z.infer<typeof lessonExceptionSchema>;
+
+export const holidaySchema = z
+  .object({
+    id: z.coerce.number().optional(),
+    name: z.string().min(1, { message: "Name is required!" }),
+    startDate: z.coerce.date({ message: "Start date is required!" }),
+    endDate: z.coerce.date({ message: "End date is required!" }),
+  })
+  .refine((data) => data.startDate <= data.endDate, {
+    message: "The holiday must end after it starts!",
+    path: ["endDate"],
+  });
+
+export type HolidaySchema = z.infer<typeof holidaySchema>;
+
+export const teacherAbsenceSchema = z
+  .object({
+    id: z.coerce.number().optional(),
+    teacherId: z.string().min(1, { message: "Teacher is required!" }),
+    startDate: z.coerce.date({ message: "First day is required!" }),
+    endDate: z.coerce.date({ message: "Last day is required!" }),
+    reason: z.string().optional(),
+  })
+  .refine((data) => data.startDate <= data.endDate, {
+    message: "The absence must end after it starts!",
+    path: ["endDate"],
+  });
+
+export type TeacherAbsenceSchema = z.infer<typeof teacherAbsenceSchema>;
+
+// An empty substitute without cancelling hands the lesson back to its teacher
+export const coverAssignmentSchema = z.object({
+  lessonId: z.coerce.number(),
+  date: z.coerce.date(),
+  substituteTeacherId: z.string().optional(),
+  cancelled: z.coerce.boolean(),
+});
+
+export type CoverAssignmentSchema = z.infer<typeof coverAssignmentSchema>;
+
+// Target field -> file column, unmapped fields left empty
+export const importMappingSchema = z.object({
+  id: z.coerce.number(),
+  mapping: z.record(z.string()),
+});
+
+export type ImportMappingSchema = z.infer<typeof importMappingSchema>;
+
+export const reportCardTemplateSchema = z.object({
+  id: z.coerce.number().optional(),
+  name: z.string().min(1, { message: "Name is required!" }),
+  heading: z.string().min(1, { message: "Heading is required!" }),
+  footer: z.string().optional(),
+  isDefault: z.coerce.boolean(),
+  showCategories: z.coerce.boolean(),
+  showAttendance: z.coerce.boolean(),
+  showRank: z.coerce.boolean(),
+});
+
+export type ReportCardTemplateSchema = z.infer<typeof reportCardTemplateSchema>;
+
+export const reportCardGenerationSchema = z.object({
+  classId: z.coerce.number({ message: "Class is required!" }),
+  termId: z.coerce.number({ message: "Term is required!" }),
+  templateId: z.coerce.number({ message: "Template is required!" }),
+});
+
+export type ReportCardGenerationSchema = z.infer<
+  typeof reportCardGenerationSchema
+>;
+
+export const reportCardPublishSchema = z.object({
+  classId: z.coerce.number({ message: "Class is required!" }),
+  termId: z.coerce.number({ message: "Term is required!" }),
+  releaseDate: z.coerce.date({ message: "Release date is required!" }),
+});
+
+export type ReportCardPublishSchema = z.infer<typeof reportCardPublishSchema>;
+
+// Without a subject the comment is the class supervisor's; empty clears it
+export const reportCardCommentSchema = z.object({
+  reportCardId: z.coerce.number(),
+  subjectId: z.coerce.number().optional(),
+  comment: z
+    .string()
+    .max(1000, { message: "Comment must be at most 1000 characters long!" }),
+});
+
+export type ReportCardCommentSchema = z.infer<typeof reportCardCommentSchema>;
+
+// Charged in one class, or in every class of a grade
+export const feeStructureSchema = z
+  .object({
+    id: z.coerce.number().optional(),
+    name: z.string().min(1, { message: "Name is required!" }),
+    amount: z.coerce
+      .number()
+      .positive({ message: "Amount must be more than zero!" }),
+    dueDate: z.coerce.date({ message: "Due date is required!" }),
+    academicYearId: z.coerce.number({ message: "Academic year is required!" }),
+    gradeId: z.coerce.number().optional(),
+    classId: z.coerce.number().optional(),
+  })
+  .refine((data) => !data.gradeId !== !data.classId, {
+    message: "Choose either a grade or a class!",
+    path: ["classId"],
+  });
+
+export type FeeStructureSchema = z.infer<typeof feeStructureSchema>;
+
+export const invoiceSchema = z
+  .object({
+    id: z.coerce.number().optional(),
+    title: z.string().min(1, { message: "Title is required!" }),
+    studentId: z.string().min(1, { message: "Student is required!" }),
+    amount: z.coerce
+      .number()
+      .positive({ message: "Amount must be more than zero!" }),
+    discount: z.coerce
+      .number()
+      .min(0, { message: "Discount can't be negative!" }),
+    dueDate: z.coerce.date({ message: "Due date is required!" }),
+  })
+  .refine((data) => data.discount <= data.amount, {
+    message: "Discount can't be more than the amount!",
+    path: ["discount"],
+  });
+
+export type InvoiceSchema = z.infer<typeof invoiceSchema>;
+
+export const paymentSchema = z.object({
+  id: z.coerce.number().optional(),
+  invoiceId: z.coerce.number(),
+  amount: z.coerce
+    .number()
+    .positive({ message: "Amount must be more than zero!" }),
+  paidAt: z.coerce.date({ message: "Payment date is required!" }),
+  method: z.enum(["CASH", "CARD", "BANK_TRANSFER", "CHEQUE"], {
+    message: "Method is required!",
+  }),
+  reference: z.string().optional(),
+});
+
+export type PaymentSchema = z.infer<typeof paymentSchema>;
+
+export const discountSchema = z.object({
+  id: z.coerce.number().optional(),
+  name: z.string().min(1, { message: "Name is required!" }),
+  percent: z.coerce
+    .number()
+    .gt(0, { message: "Percent must be more than zero!" })
+    .max(100, { message: "Percent can't be more than 100!" }),
+  studentId: z.string().min(1, { message: "Student is required!" }),
+  academicYearId: z.coerce.number({ message: "Academic year is required!" }),
+});
+
+export type DiscountSchema = z.infer<typeof discountSchema>;
+
+export const expenseSchema = z.object({
+  id: z.coerce.number().optional(),
+  title: z.string().min(1, { message: "Title is required!" }),
+  category: z.string().min(1, { message: "Category is required!" }),
+  amount: z.coerce
+    .number()
+    .positive({ message: "Amount must be more than zero!" }),
+  date: z.coerce.date({ message: "Date is required!" }),
+});
+
+export type ExpenseSchema = z.infer<typeof expenseSchema>;
+
+export const guardianSchema = z.object({
+  id: z.coerce.number().optional(),
+  studentId: z.string().min(1, { message: "Student is required!" }),
+  parentId: z.string().min(1, { message: "Parent is required!" }),
+  relationship: guardianRelationship,
+  isPrimary: z.coerce.boolean(),
+  hasCustody: z.coerce.boolean(),
+  canPickUp: z.coerce.boolean(),
+  isEmergencyContact: z.coerce.boolean(),
+});
+
+export type GuardianSchema = z.infer<typeof guardianSchema>;
+
+export const emergencyContactSchema = z.object({
+  id: z.coerce.number().optional(),
+  studentId: z.string().min(1, { message: "Student is required!" }),
+  name: z.string().min(1, { message: "Name is required!" }),
+  relationship: z.string().min(1, { message: "Relationship is required!" }),
+  phone: z.string().min(1, { message: "Phone is required!" }),
+  priority: z.coerce
+    .number()
+    .int()
+    .min(1, { message: "Priority must be at least 1!" }),
+});
+
+export type EmergencyContactSchema = z.infer<typeof emergencyContactSchema>;
+
+export const notificationPreferencesSchema = z.object({
+  preferences: z.array(
+    z.object({
+      type: z.enum(["RESULT", "EXAM", "ANNOUNCEMENT", "ASSIGNMENT_DUE"]),
+      inApp: z.coerce.boolean(),
+      email: z.coerce.boolean(),
+    })
+  ),
+});
+
+export type NotificationPreferencesSchema = z.infer<
+  typeof notificationPreferencesSchema
+>;
@@ -0,0 +1,242 @@
+import { Prisma } from "@prisma/client";
+import prisma from "./prisma";
+import { DEFAULT_CATEGORY_WEIGHTS, DEFAULT_GRADE_BANDS } from "./settings";
+
+// GRADEBOOK: WEIGHTED SUBJECT AVERAGES AND LETTER GRADES
+
+export type LetterBand = { letter: string; minPercent: number };
+
+export type CategoryWeights = { examWeight: number; assignmentWeight: number };
+
+export type SubjectAverage = {
+  subjectId: number;
+  subjectName: string;
+  examAverage: number | null;
+  assignmentAverage: number | null;
+  average: number;
+  letter: string;
+};
+
+export type StudentGradebook = {
+  subjects: SubjectAverage[];
+  average: number | null;
+  letter: string | null;
+};
+
+type GradedResult = {
+  score: number;
+  maxScore: number;
+  category: "exam" | "assignment";
+  subjectId: number;
+  subjectName: string;
+};
+
+const mean = (values: number[]) =>
+  values.length ? values.reduce((a, b) => a + b, 0) / values.length : null;
+
+export const toPercent = (score: number, maxScore: number) =>
+  maxScore > 0 ? (score / maxScore) * 100 : 0;
+
+export const letterFor = (percent: number, bands: LetterBand[]) => {
+  const sorted = [...bands].sort((a, b) => b.minPercent - a.minPercent);
+  const band = sorted.find((band) => percent >= band.minPercent);
+  return band ? band.letter : sorted[sorted.length - 1]?.letter ?? "-";
+};
+
+export const formatPercent = (percent: number | null) =>
+  percent === null ? "-" : `${Math.round(percent * 10) / 10}%`;
+
+// A subject with only exams or only assignments is averaged on what it has,
+// instead of treating the missing category as zero
+export const computeSubjectAverages = (
+  results: GradedResult[],
+  weights: Map<number, CategoryWeights>,
+  bands: LetterBand[]
+): SubjectAverage[] => {
+  const bySubject = new Map<number, GradedResult[]>();
+  for (const result of results) {
+    bySubject.set(result.subjectId, [
+      ...(bySubject.get(result.subjectId) ?? []),
+      result,
+    ]);
+  }
+
+  return Array.from(bySubject.entries())
+    .map(([subjectId, subjectResults]) => {
+      const percents = (category: GradedResult["category"]) =>
+        subjectResults
+          .filter((result) => result.category === category)
+          .map((result) => toPercent(result.score, result.maxScore));
+
+      const examAverage = mean(percents("exam"));
+      const assignmentAverage = mean(percents("assignment"));
+      const { examWeight, assignmentWeight } =
+        weights.get(subjectId) ?? DEFAULT_CATEGORY_WEIGHTS;
+
+      const average =
+        examAverage !== null && assignmentAverage !== null
+          ? (examAverage * examWeight + assignmentAverage * assignmentWeight) /
+            (examWeight + assignmentWeight || 1)
+          : (examAverage ?? assignmentAverage)!;
+
+      return {
+        subjectId,
+        subjectName: subjectResults[0].subjectName,
+        examAverage,
+        assignmentAverage,
+        average,
+        letter: letterFor(average, bands),
+      };
+    })
+    .sort((a, b) => a.subjectName.localeCompare(b.subjectName));
+};
+
+export const computeOverall = (
+  subjects: SubjectAverage[],
+  bands: LetterBand[]
+): Pick<StudentGradebook, "average" | "letter"> => {
+  const average = mean(subjects.map((subject) => subject.average));
+  return {
+    average,
+    letter: average === null ? null : letterFor(average, bands),
+  };
+};
+
+// Bands for each class: its own scale, else the default scale, else the built-in one
+export const getGradeBands = async (classIds: number[]) => {
+  const [classes, defaultScale] = await prisma.$transaction([
+    prisma.class.findMany({
+      where: { id: { in: classIds } },
+      select: {
+        id: true,
+        gradeScale: { select: { bands: true } },
+      },
+    }),
+    prisma.gradeScale.findFirst({
+      where: { isDefault: true },
+      select: { bands: true },
+    }),
+  ]);
+
+  const fallback = defaultScale?.bands.length
+    ? defaultScale.bands
+    : DEFAULT_GRADE_BANDS;
+
+  return new Map<number, LetterBand[]>(
+    classIds.map((classId) => {
+      const bands = classes.find((c) => c.id === classId)?.gradeScale?.bands;
+      return [classId, bands?.length ? bands : fallback];
+    })
+  );
+};
+
+const getCategoryWeights = async (classId: number) => {
+  const weights = await prisma.gradeWeight.findMany({ where: { classId } });
+  return new Map<number, CategoryWeights>(
+    weights.map((weight) => [weight.subjectId, weight])
+  );
+};
+
+const resultInclude = {
+  exam: {
+    select: {
+      maxScore: true,
+      lesson: { select: { subject: { select: { id: true, name: true } } } },
+    },
+  },
+  assignment: {
+    select: {
+      maxScore: true,
+      lesson: { select: { subject: { select: { id: true, name: true } } } },
+    },
+  },
+} satisfies Prisma.ResultInclude;
+
+type ResultWithAssessment = Prisma.ResultGetPayload<{
+  include: typeof resultInclude;
+}>;
+
+const toGradedResult = (result: ResultWithAssessment): GradedResult | null => {
+  const assessment = result.exam || result.assignment;
+  if (!assessment) return null;
+  return {
+    score: result.score,
+    maxScore: assessment.maxScore,
+    category: result.exam ? "exam" : "assignment",
+    subjectId: assessment.lesson.subject.id,
+    subjectName: assessment.lesson.subject.name,
+  };
+};
+
+// Without a term, averages cover every result the student has
+export const getStudentGradebook = async (
+  studentId: string,
+  termId?: number
+): Promise<StudentGradebook | null> => {
+  const student = await prisma.student.findUnique({
+    where: { id: studentId },
+    select: { classId: true },
+  });
+
+  if (!student) return null;
+
+  const [results, weights, bands] = await Promise.all([
+    prisma.result.findMany({
+      where: { studentId, ...(termId ? { termId } : {}) },
+      include: resultInclude,
+    }),
+    getCategoryWeights(student.classId),
+    getGradeBands([student.classId]),
+  ]);
+
+  const classBands = bands.get(student.classId)!;
+  const subjects = computeSubjectAverages(
+    results.map(toGradedResult).filter((r): r is GradedResult => !!r),
+    weights,
+    classBands
+  );
+
+  return { subjects, ...computeOverall(subjects, classBands) };
+};
+
+export const getClassGradebook = async (
+  classId: number,
+  termId?: number
+) => {
+  const [students, weights, bands] = await Promise.all([
+    prisma.student.findMany({
+      where: { classId, deletedAt: null },
+      select: {
+        id: true,
+        name: true,
+        surname: true,
+        results: {
+          where: termId ? { termId } : {},
+          include: resultInclude,
+        },
+      },
+      orderBy: [{ surname: "asc" }, { name: "asc" }],
+    }),
+    getCategoryWeights(classId),
+    getGradeBands([classId]),
+  ]);
+
+  const classBands = bands.get(classId)!;
+
+  return students.map((student) => {
+    const subjects = computeSubjectAverages(
+      student.results
+        .map(toGradedResult)
+        .filter((r): r is GradedResult => !!r),
+      weights,
+      classBands
+    );
+    return {
+      id: student.id,
+      name: student.name,
+      surname: student.surname,
+      subjects,
+      ...computeOverall(subjects, classBands),
+    };
+  });
+};
@@ -0,0 +1,53 @@
+import { Guardian, GuardianRelationship, Prisma } from "@prisma/client";
+
+// GUARDIANS
+// A student has one or more guardians: parents, step-parents or other adults
+// with a parent account. Everything a parent sees is scoped to the students
+// they're a guardian of. The primary guardian is contacted first and billed.
+
+export const RELATIONSHIP_LABELS: Record<GuardianRelationship, string> = {
+  PARENT: "Parent",
+  MOTHER: "Mother",
+  FATHER: "Father",
+  STEPMOTHER: "Stepmother",
+  STEPFATHER: "Stepfather",
+  GRANDPARENT: "Grandparent",
+  SIBLING: "Sibling",
+  FOSTER_PARENT: "Foster parent",
+  LEGAL_GUARDIAN: "Legal guardian",
+  OTHER: "Other",
+};
+
+// The students a parent is a guardian of
+export const childrenOf = (parentId: string): Prisma.StudentWhereInput => ({
+  guardians: { some: { parentId } },
+});
+
+export const primaryGuardian = <T extends Pick<Guardian, "isPrimary">>(
+  guardians: T[]
+) => guardians.find((guardian) => guardian.isPrimary);
+
+// Makes the parent the student's only primary guardian, adding them as a
+// guardian first if they aren't one. Returns the student's guardians before
+// and after, for the audit log.
+export const setPrimaryGuardian = async (
+  tx: Prisma.TransactionClient,
+  studentId: string,
+  parentId: string,
+  relationship?: GuardianRelationship
+) => {
+  const before = await tx.guardian.findMany({ where: { studentId } });
+
+  await tx.guardian.updateMany({
+    where: { studentId, parentId: { not: parentId }, isPrimary: true },
+    data: { isPrimary: false },
+  });
+  await tx.guardian.upsert({
+    where: { studentId_parentId: { studentId, parentId } },
+    create: { studentId, parentId, relationship, isPrimary: true },
+    update: { isPrimary: true },
+  });
+
+  const after = await tx.guardian.findMany({ where: { studentId } });
+  return { before, after };
+};
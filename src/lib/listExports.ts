@@ -0,0 +1,766 @@
+import { getUserNames } from "./audit";
+import { ExportTable, ExportValue } from "./exportFormats";
+import { getInvoiceStatus, getInvoiceTotals } from "./finance";
+import { getGradeBands, letterFor, toPercent } from "./gradebook";
+import { primaryGuardian, RELATIONSHIP_LABELS } from "./guardians";
+import {
+  getAbsenceQuery,
+  getAcademicYearQuery,
+  getAnnouncementQuery,
+  getAssignmentQuery,
+  getAttendanceQuery,
+  getAuditLogQuery,
+  getClassQuery,
+  getDiscountQuery,
+  getEventQuery,
+  getExamQuery,
+  getExpenseQuery,
+  getFeeStructureQuery,
+  getGradeScaleQuery,
+  getHolidayQuery,
+  getInvoiceQuery,
+  getLessonChangeQuery,
+  getLessonQuery,
+  getParentQuery,
+  getResultQuery,
+  getRoomQuery,
+  getStudentQuery,
+  getSubjectQuery,
+  getTeacherQuery,
+  ListParams,
+  Viewer,
+} from "./listQueries";
+import prisma from "./prisma";
+
+// LIST EXPORTS
+// Every list page can be downloaded whole: the same filters and role scoping
+// as the page, without pagination. Keys are the page's path under /list.
+
+type ListExport = {
+  title: string;
+  headers: string[];
+  load: (params: ListParams, viewer: Viewer) => Promise<ExportValue[][]>;
+};
+
+const fullName = (person?: { name: string; surname: string } | null) =>
+  person ? `${person.name} ${person.surname}` : null;
+
+const formatTime = (date: Date) =>
+  date.toLocaleTimeString("en-US", {
+    hour: "2-digit",
+    minute: "2-digit",
+    hour12: false,
+  });
+
+const formatDateTime = (date: Date) =>
+  `${new Intl.DateTimeFormat("en-CA").format(date)} ${formatTime(date)}`;
+
+const teacherAndClass = {
+  select: {
+    subject: { select: { name: true } },
+    class: { select: { name: true } },
+    teacher: { select: { name: true, surname: true } },
+  },
+} as const;
+
+export const LIST_EXPORTS: Record<string, ListExport> = {
+  students: {
+    title: "Students",
+    headers: [
+      "Username",
+      "First name",
+      "Last name",
+      "Class",
+      "Grade",
+      "Sex",
+      "Birthday",
+      "Blood type",
+      "Email",
+      "Phone",
+      "Address",
+      "Guardians",
+      "Primary guardian phone",
+    ],
+    load: async (params) => {
+      const students = await prisma.student.findMany({
+        where: getStudentQuery(params),
+        include: {
+          class: true,
+          grade: true,
+          guardians: {
+            include: { parent: true },
+            orderBy: { isPrimary: "desc" },
+          },
+        },
+        orderBy: [{ surname: "asc" }, { name: "asc" }],
+      });
+      return students.map((student) => [
+        student.username,
+        student.name,
+        student.surname,
+        student.class.name,
+        student.grade.level,
+        student.sex,
+        student.birthday,
+        student.bloodType,
+        student.email,
+        student.phone,
+        student.address,
+        student.guardians
+          .map(
+            (guardian) =>
+              `${fullName(guardian.parent)} (${
+                RELATIONSHIP_LABELS[guardian.relationship]
+              })`
+          )
+          .join(", "),
+        primaryGuardian(student.guardians)?.parent.phone,
+      ]);
+    },
+  },
+  teachers: {
+    title: "Teachers",
+    headers: [
+      "Username",
+      "First name",
+      "Last name",
+      "Subjects",
+      "Classes",
+      "Sex",
+      "Birthday",
+      "Blood type",
+      "Email",
+      "Phone",
+      "Address",
+    ],
+    load: async (params) => {
+      const teachers = await prisma.teacher.findMany({
+        where: getTeacherQuery(params),
+        include: { subjects: true, classes: true },
+        orderBy: [{ surname: "asc" }, { name: "asc" }],
+      });
+      return teachers.map((teacher) => [
+        teacher.username,
+        teacher.name,
+        teacher.surname,
+        teacher.subjects.map((subject) => subject.name).join(", "),
+        teacher.classes.map((item) => item.name).join(", "),
+        teacher.sex,
+        teacher.birthday,
+        teacher.bloodType,
+        teacher.email,
+        teacher.phone,
+        teacher.address,
+      ]);
+    },
+  },
+  parents: {
+    title: "Parents",
+    headers: [
+      "Username",
+      "First name",
+      "Last name",
+      "Students",
+      "Email",
+      "Phone",
+      "Address",
+    ],
+    load: async (params) => {
+      const parents = await prisma.parent.findMany({
+        where: getParentQuery(params),
+        include: { children: { include: { student: true } } },
+        orderBy: [{ surname: "asc" }, { name: "asc" }],
+      });
+      return parents.map((parent) => [
+        parent.username,
+        parent.name,
+        parent.surname,
+        parent.children
+          .map((guardian) => fullName(guardian.student))
+          .join(", "),
+        parent.email,
+        parent.phone,
+        parent.address,
+      ]);
+    },
+  },
+  subjects: {
+    title: "Subjects",
+    headers: ["Name", "Teachers"],
+    load: async (params) => {
+      const subjects = await prisma.subject.findMany({
+        where: getSubjectQuery(params),
+        include: { teachers: true },
+        orderBy: { name: "asc" },
+      });
+      return subjects.map((subject) => [
+        subject.name,
+        subject.teachers.map(fullName).join(", "),
+      ]);
+    },
+  },
+  classes: {
+    title: "Classes",
+    headers: [
+      "Name",
+      "Grade",
+      "Academic year",
+      "Capacity",
+      "Students",
+      "Supervisor",
+    ],
+    load: async (params) => {
+      const classes = await prisma.class.findMany({
+        where: getClassQuery(params),
+        include: {
+          grade: true,
+          academicYear: true,
+          supervisor: true,
+          _count: { select: { students: { where: { deletedAt: null } } } },
+        },
+        orderBy: { name: "asc" },
+      });
+      return classes.map((item) => [
+        item.name,
+        item.grade.level,
+        item.academicYear.name,
+        item.capacity,
+        item._count.students,
+        fullName(item.supervisor),
+      ]);
+    },
+  },
+  lessons: {
+    title: "Lessons",
+    headers: [
+      "Name",
+      "Subject",
+      "Class",
+      "Teacher",
+      "Day",
+      "Start",
+      "End",
+      "Room",
+    ],
+    load: async (params) => {
+      const lessons = await prisma.lesson.findMany({
+        where: getLessonQuery(params),
+        include: {
+          subject: { select: { name: true } },
+          class: { select: { name: true } },
+          teacher: { select: { name: true, surname: true } },
+          room: { select: { name: true } },
+        },
+        orderBy: [
+          { class: { name: "asc" } },
+          { day: "asc" },
+          { startTime: "asc" },
+        ],
+      });
+      return lessons.map((lesson) => [
+        lesson.name,
+        lesson.subject.name,
+        lesson.class.name,
+        fullName(lesson.teacher),
+        lesson.day,
+        formatTime(lesson.startTime),
+        formatTime(lesson.endTime),
+        lesson.room?.name,
+      ]);
+    },
+  },
+  exams: {
+    title: "Exams",
+    headers: [
+      "Title",
+      "Subject",
+      "Class",
+      "Teacher",
+      "Start",
+      "End",
+      "Max score",
+    ],
+    load: async (params, viewer) => {
+      const exams = await prisma.exam.findMany({
+        where: getExamQuery(params, viewer),
+        include: { lesson: teacherAndClass },
+        orderBy: { startTime: "asc" },
+      });
+      return exams.map((exam) => [
+        exam.title,
+        exam.lesson.subject.name,
+        exam.lesson.class.name,
+        fullName(exam.lesson.teacher),
+        formatDateTime(exam.startTime),
+        formatDateTime(exam.endTime),
+        exam.maxScore,
+      ]);
+    },
+  },
+  assignments: {
+    title: "Assignments",
+    headers: [
+      "Title",
+      "Subject",
+      "Class",
+      "Teacher",
+      "Start date",
+      "Due date",
+      "Max score",
+    ],
+    load: async (params, viewer) => {
+      const assignments = await prisma.assignment.findMany({
+        where: getAssignmentQuery(params, viewer),
+        include: { lesson: teacherAndClass },
+        orderBy: { dueDate: "asc" },
+      });
+      return assignments.map((assignment) => [
+        assignment.title,
+        assignment.lesson.subject.name,
+        assignment.lesson.class.name,
+        fullName(assignment.lesson.teacher),
+        formatDateTime(assignment.startDate),
+        formatDateTime(assignment.dueDate),
+        assignment.maxScore,
+      ]);
+    },
+  },
+  results: {
+    title: "Results",
+    headers: [
+      "Student",
+      "Class",
+      "Subject",
+      "Type",
+      "Title",
+      "Teacher",
+      "Date",
+      "Score",
+      "Max score",
+      "Percent",
+      "Grade",
+      "Term",
+    ],
+    load: async (params, viewer) => {
+      const assessment = {
+        include: {
+          lesson: {
+            select: {
+              subject: { select: { name: true } },
+              class: { select: { id: true, name: true } },
+              teacher: { select: { name: true, surname: true } },
+            },
+          },
+        },
+      } as const;
+      const results = await prisma.result.findMany({
+        where: getResultQuery(params, viewer),
+        include: {
+          student: { select: { name: true, surname: true } },
+          term: { select: { name: true } },
+          exam: assessment,
+          assignment: assessment,
+        },
+        orderBy: [{ student: { surname: "asc" } }, { id: "asc" }],
+      });
+
+      const bands = await getGradeBands(
+        Array.from(
+          new Set(
+            results.map(
+              (item) => (item.exam || item.assignment)?.lesson.class.id ?? 0
+            )
+          )
+        )
+      );
+
+      return results.flatMap((result) => {
+        const assessment = result.exam || result.assignment;
+        if (!assessment) return [];
+
+        const percent = toPercent(result.score, assessment.maxScore);
+        return [
+          [
+            fullName(result.student),
+            assessment.lesson.class.name,
+            assessment.lesson.subject.name,
+            result.exam ? "Exam" : "Assignment",
+            assessment.title,
+            fullName(assessment.lesson.teacher),
+            formatDateTime(
+              result.exam ? result.exam.startTime : result.assignment!.dueDate
+            ),
+            result.score,
+            assessment.maxScore,
+            Math.round(percent * 10) / 10,
+            letterFor(percent, bands.get(assessment.lesson.class.id)!),
+            result.term?.name,
+          ],
+        ];
+      });
+    },
+  },
+  attendance: {
+    title: "Attendance",
+    headers: ["Date", "Student", "Class", "Lesson", "Subject", "Status"],
+    load: async (params, viewer) => {
+      const attendances = await prisma.attendance.findMany({
+        where: getAttendanceQuery(params, viewer),
+        include: {
+          student: { select: { name: true, surname: true } },
+          lesson: {
+            select: {
+              name: true,
+              subject: { select: { name: true } },
+              class: { select: { name: true } },
+            },
+          },
+        },
+        orderBy: [{ date: "desc" }, { student: { surname: "asc" } }],
+      });
+      return attendances.map((attendance) => [
+        attendance.date,
+        fullName(attendance.student),
+        attendance.lesson.class.name,
+        attendance.lesson.name,
+        attendance.lesson.subject.name,
+        attendance.status,
+      ]);
+    },
+  },
+  events: {
+    title: "Events",
+    headers: ["Title", "Class", "Start", "End", "Description"],
+    load: async (params, viewer) => {
+      const events = await prisma.event.findMany({
+        where: getEventQuery(params, viewer),
+        include: { class: true },
+        orderBy: { startTime: "asc" },
+      });
+      return events.map((event) => [
+        event.title,
+        event.class?.name ?? "All",
+        formatDateTime(event.startTime),
+        formatDateTime(event.endTime),
+        event.description,
+      ]);
+    },
+  },
+  announcements: {
+    title: "Announcements",
+    headers: ["Title", "Class", "Date", "Description"],
+    load: async (params, viewer) => {
+      const announcements = await prisma.announcement.findMany({
+        where: getAnnouncementQuery(params, viewer),
+        include: { class: true },
+        orderBy: { date: "desc" },
+      });
+      return announcements.map((announcement) => [
+        announcement.title,
+        announcement.class?.name ?? "All",
+        formatDateTime(announcement.date),
+        announcement.description,
+      ]);
+    },
+  },
+  "lesson-changes": {
+    title: "Lesson Changes",
+    headers: [
+      "Date",
+      "Lesson",
+      "Class",
+      "Change",
+      "Substitute",
+      "Room",
+      "Reason",
+    ],
+    load: async (params, viewer) => {
+      const changes = await prisma.lessonException.findMany({
+        where: getLessonChangeQuery(params, viewer),
+        include: {
+          lesson: { include: { class: { select: { name: true } } } },
+          substituteTeacher: { select: { name: true, surname: true } },
+          room: { select: { name: true } },
+        },
+        orderBy: { date: "asc" },
+      });
+      return changes.map((change) => [
+        change.date,
+        change.lesson.name,
+        change.lesson.class.name,
+        change.cancelled
+          ? "Cancelled"
+          : [
+              change.substituteTeacher && "Substitute",
+              change.room && "Room change",
+            ]
+              .filter(Boolean)
+              .join(", "),
+        fullName(change.substituteTeacher),
+        change.room?.name,
+        change.reason,
+      ]);
+    },
+  },
+  absences: {
+    title: "Teacher Absences",
+    headers: ["Teacher", "First day", "Last day", "Reason"],
+    load: async (params) => {
+      const absences = await prisma.teacherAbsence.findMany({
+        where: getAbsenceQuery(params),
+        include: { teacher: true },
+        orderBy: { startDate: "asc" },
+      });
+      return absences.map((absence) => [
+        fullName(absence.teacher),
+        absence.startDate,
+        absence.endDate,
+        absence.reason,
+      ]);
+    },
+  },
+  holidays: {
+    title: "Holidays",
+    headers: ["Name", "First day", "Last day"],
+    load: async (params) => {
+      const holidays = await prisma.holiday.findMany({
+        where: getHolidayQuery(params),
+        orderBy: { startDate: "desc" },
+      });
+      return holidays.map((holiday) => [
+        holiday.name,
+        holiday.startDate,
+        holiday.endDate,
+      ]);
+    },
+  },
+  rooms: {
+    title: "Rooms",
+    headers: ["Name", "Capacity", "Lessons this year"],
+    load: async (params) => {
+      const rooms = await prisma.room.findMany({
+        where: getRoomQuery(params),
+        include: {
+          _count: {
+            select: {
+              lessons: {
+                where: { class: { academicYear: { isCurrent: true } } },
+              },
+            },
+          },
+        },
+        orderBy: { name: "asc" },
+      });
+      return rooms.map((room) => [
+        room.name,
+        room.capacity,
+        room._count.lessons,
+      ]);
+    },
+  },
+  periods: {
+    title: "Periods",
+    headers: ["Name", "Start", "End"],
+    load: async () => {
+      const periods = await prisma.period.findMany({
+        orderBy: { startTime: "asc" },
+      });
+      return periods.map((period) => [
+        period.name,
+        period.startTime,
+        period.endTime,
+      ]);
+    },
+  },
+  "academic-years": {
+    title: "Academic Years",
+    headers: [
+      "Name",
+      "Start",
+      "End",
+      "Current",
+      "Archived",
+      "Terms",
+      "Classes",
+      "Enrollments",
+    ],
+    load: async (params) => {
+      const years = await prisma.academicYear.findMany({
+        where: getAcademicYearQuery(params),
+        include: {
+          terms: { orderBy: { startDate: "asc" } },
+          _count: { select: { classes: true, enrollments: true } },
+        },
+        orderBy: { startDate: "desc" },
+      });
+      return years.map((year) => [
+        year.name,
+        year.startDate,
+        year.endDate,
+        year.isCurrent ? "Yes" : "No",
+        year.archived ? "Yes" : "No",
+        year.terms.map((term) => term.name).join(", "),
+        year._count.classes,
+        year._count.enrollments,
+      ]);
+    },
+  },
+  "grade-scales": {
+    title: "Grade Scales",
+    headers: ["Name", "Default", "Bands", "Classes"],
+    load: async (params) => {
+      const scales = await prisma.gradeScale.findMany({
+        where: getGradeScaleQuery(params),
+        include: {
+          bands: { orderBy: { minPercent: "desc" } },
+          _count: { select: { classes: true } },
+        },
+        orderBy: { name: "asc" },
+      });
+      return scales.map((scale) => [
+        scale.name,
+        scale.isDefault ? "Yes" : "No",
+        scale.bands
+          .map((band) => `${band.letter} >= ${band.minPercent}%`)
+          .join(", "),
+        scale._count.classes,
+      ]);
+    },
+  },
+  "audit-log": {
+    title: "Audit Log",
+    headers: ["Time", "User", "Role", "Action", "Entity", "Record", "Changed"],
+    load: async (params) => {
+      const entries = await prisma.auditLog.findMany({
+        where: getAuditLogQuery(params),
+        select: {
+          userId: true,
+          role: true,
+          action: true,
+          entity: true,
+          recordId: true,
+          changes: true,
+          createdAt: true,
+        },
+        orderBy: { createdAt: "desc" },
+      });
+      const names = await getUserNames(
+        Array.from(new Set(entries.map((entry) => entry.userId ?? "")))
+      );
+      return entries.map((entry) => [
+        formatDateTime(entry.createdAt),
+        entry.userId ? names.get(entry.userId) ?? entry.userId : null,
+        entry.role,
+        entry.action,
+        entry.entity,
+        entry.recordId,
+        entry.changes.join(", "),
+      ]);
+    },
+  },
+  fees: {
+    title: "Fees",
+    headers: ["Name", "Academic year", "Charged to", "Amount", "Due date"],
+    load: async (params) => {
+      const fees = await prisma.feeStructure.findMany({
+        where: getFeeStructureQuery(params),
+        include: { academicYear: true, grade: true, class: true },
+        orderBy: { dueDate: "desc" },
+      });
+      return fees.map((fee) => [
+        fee.name,
+        fee.academicYear.name,
+        fee.class ? `Class ${fee.class.name}` : `Grade ${fee.grade?.level}`,
+        fee.amount.toNumber(),
+        fee.dueDate,
+      ]);
+    },
+  },
+  invoices: {
+    title: "Invoices",
+    headers: [
+      "Invoice",
+      "Title",
+      "Student",
+      "Billed to",
+      "Issued",
+      "Due date",
+      "Amount",
+      "Discount",
+      "Paid",
+      "Balance",
+      "Status",
+    ],
+    load: async (params, viewer) => {
+      const invoices = await prisma.invoice.findMany({
+        where: getInvoiceQuery(params, viewer),
+        include: { student: true, parent: true, payments: true },
+        orderBy: { dueDate: "desc" },
+      });
+      return invoices.map((invoice) => {
+        const { paid, balance } = getInvoiceTotals(invoice);
+        return [
+          invoice.id,
+          invoice.title,
+          fullName(invoice.student),
+          fullName(invoice.parent),
+          invoice.issuedAt,
+          invoice.dueDate,
+          invoice.amount.toNumber(),
+          invoice.discount.toNumber(),
+          paid.toNumber(),
+          balance.toNumber(),
+          getInvoiceStatus(invoice),
+        ];
+      });
+    },
+  },
+  discounts: {
+    title: "Discounts",
+    headers: ["Student", "Discount", "Percent", "Academic year"],
+    load: async (params) => {
+      const discounts = await prisma.discount.findMany({
+        where: getDiscountQuery(params),
+        include: { student: true, academicYear: true },
+        orderBy: [{ student: { surname: "asc" } }, { name: "asc" }],
+      });
+      return discounts.map((discount) => [
+        fullName(discount.student),
+        discount.name,
+        discount.percent.toNumber(),
+        discount.academicYear.name,
+      ]);
+    },
+  },
+  expenses: {
+    title: "Expenses",
+    headers: ["Date", "Title", "Category", "Amount"],
+    load: async (params) => {
+      const expenses = await prisma.expense.findMany({
+        where: getExpenseQuery(params),
+        orderBy: { date: "desc" },
+      });
+      return expenses.map((expense) => [
+        expense.date,
+        expense.title,
+        expense.category,
+        expense.amount.toNumber(),
+      ]);
+    },
+  },
+};
+
+export const loadListExport = async (
+  list: string,
+  params: ListParams,
+  viewer: Viewer
+): Promise<ExportTable | null> => {
+  const definition = LIST_EXPORTS[list];
+  if (!definition) return null;
+
+  return {
+    title: definition.title,
+    headers: definition.headers,
+    rows: await definition.load(params, viewer),
+  };
+};
@@ -0,0 +1,684 @@
+import { Prisma } from "@prisma/client";
+import { childrenOf } from "./guardians";
+import { toDateOnly } from "./utils";
+
+// LIST QUERIES
+// The `where` of each list page, built from its search params and, for lists
+// scoped to the caller, their role. Pages show one page of it and exports the
+// whole result set, so both always agree on what is in the list.
+
+export type ListParams = { [key: string]: string | undefined };
+
+export type Viewer = { userId: string; role?: string };
+
+export const getStudentQuery = (params: ListParams) => {
+  // Students in the trash are listed there instead
+  const query: Prisma.StudentWhereInput = { deletedAt: null };
+
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== undefined) {
+      switch (key) {
+        case "teacherId":
+          query.class = {
+            lessons: {
+              some: {
+                teacherId: value,
+              },
+            },
+          };
+          break;
+        case "search":
+          query.name = { contains: value, mode: "insensitive" };
+          break;
+        default:
+          break;
+      }
+    }
+  }
+
+  return query;
+};
+
+export const getTeacherQuery = (params: ListParams) => {
+  const query: Prisma.TeacherWhereInput = { deletedAt: null };
+
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== undefined) {
+      switch (key) {
+        case "classId":
+          query.lessons = {
+            some: {
+              classId: parseInt(value),
+            },
+          };
+          break;
+        case "search":
+          query.name = { contains: value, mode: "insensitive" };
+          break;
+        default:
+          break;
+      }
+    }
+  }
+
+  return query;
+};
+
+export const getClassQuery = (params: ListParams) => {
+  const query: Prisma.ClassWhereInput = { deletedAt: null };
+
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== undefined) {
+      switch (key) {
+        case "supervisorId":
+          query.supervisorId = value;
+          break;
+        case "search":
+          query.name = { contains: value, mode: "insensitive" };
+          break;
+        case "academicYearId":
+          query.academicYearId = parseInt(value);
+          break;
+        default:
+          break;
+      }
+    }
+  }
+
+  // Archived years are only shown when asked for
+  if (!query.academicYearId) {
+    query.academicYear = { isCurrent: true };
+  }
+
+  return query;
+};
+
+export const getLessonQuery = (params: ListParams) => {
+  const query: Prisma.LessonWhereInput = {};
+
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== undefined) {
+      switch (key) {
+        case "classId":
+          query.classId = parseInt(value);
+          break;
+        case "teacherId":
+          query.teacherId = value;
+          break;
+        case "search":
+          query.OR = [
+            { subject: { name: { contains: value, mode: "insensitive" } } },
+            { teacher: { name: { contains: value, mode: "insensitive" } } },
+          ];
+          break;
+        case "academicYearId":
+          query.class = { academicYearId: parseInt(value) };
+          break;
+        default:
+          break;
+      }
+    }
+  }
+
+  // Archived years are only shown when asked for
+  if (!query.classId && !query.class) {
+    query.class = { academicYear: { isCurrent: true } };
+  }
+
+  return query;
+};
+
+// Exams and assignments share their filters and scoping, both hang off a lesson
+const getAssessmentLessonQuery = (
+  params: ListParams,
+  { userId, role }: Viewer
+) => {
+  const lesson: Prisma.LessonWhereInput = {};
+
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== undefined) {
+      switch (key) {
+        case "classId":
+          lesson.classId = parseInt(value);
+          break;
+        case "teacherId":
+          lesson.teacherId = value;
+          break;
+        case "search":
+          lesson.subject = {
+            name: { contains: value, mode: "insensitive" },
+          };
+          break;
+        default:
+          break;
+      }
+    }
+  }
+
+  // ROLE CONDITIONS
+
+  switch (role) {
+    case "admin":
+      break;
+    case "teacher":
+      lesson.teacherId = userId;
+      break;
+    case "student":
+      lesson.class = {
+        students: {
+          some: {
+            id: userId,
+          },
+        },
+      };
+      break;
+    case "parent":
+      lesson.class = {
+        students: {
+          some: childrenOf(userId),
+        },
+      };
+      break;
+    default:
+      break;
+  }
+
+  return lesson;
+};
+
+export const getExamQuery = (
+  params: ListParams,
+  viewer: Viewer
+): Prisma.ExamWhereInput => ({
+  lesson: getAssessmentLessonQuery(params, viewer),
+});
+
+export const getAssignmentQuery = (
+  params: ListParams,
+  viewer: Viewer
+): Prisma.AssignmentWhereInput => ({
+  lesson: getAssessmentLessonQuery(params, viewer),
+});
+
+// The grading queue: what is still to grade, or with `status=graded` what has
+// been
+export const getSubmissionQuery = (
+  params: ListParams,
+  { userId, role }: Viewer
+) => {
+  const query: Prisma.SubmissionWhereInput = {
+    gradedAt: params.status === "graded" ? { not: null } : null,
+    student: { deletedAt: null },
+  };
+
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== undefined) {
+      switch (key) {
+        case "assignmentId":
+          query.assignmentId = parseInt(value);
+          break;
+        case "search":
+          query.OR = [
+            { student: { name: { contains: value, mode: "insensitive" } } },
+            {
+              student: { surname: { contains: value, mode: "insensitive" } },
+            },
+            {
+              assignment: { title: { contains: value, mode: "insensitive" } },
+            },
+          ];
+          break;
+        default:
+          break;
+      }
+    }
+  }
+
+  // ROLE CONDITIONS
+
+  if (role === "teacher") {
+    query.assignment = { lesson: { teacherId: userId } };
+  }
+
+  return query;
+};
+
+// A result dated outside every term has no term, it goes by the academic
+// year of the class it was set for instead
+const inAcademicYear = (
+  academicYear: Prisma.AcademicYearWhereInput
+): Prisma.ResultWhereInput => ({
+  OR: [
+    { term: { academicYear } },
+    {
+      termId: null,
+      OR: [
+        { exam: { lesson: { class: { academicYear } } } },
+        { assignment: { lesson: { class: { academicYear } } } },
+      ],
+    },
+  ],
+});
+
+export const getResultQuery = (params: ListParams, { userId, role }: Viewer) => {
+  const query: Prisma.ResultWhereInput = {};
+
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== undefined) {
+      switch (key) {
+        case "studentId":
+          query.studentId = value;
+          break;
+        case "termId":
+          query.termId = parseInt(value);
+          break;
+        case "academicYearId":
+          query.AND = [inAcademicYear({ id: parseInt(value) })];
+          break;
+        case "search":
+          query.OR = [
+            { exam: { title: { contains: value, mode: "insensitive" } } },
+            { student: { name: { contains: value, mode: "insensitive" } } },
+          ];
+          break;
+        default:
+          break;
+      }
+    }
+  }
+
+  // Archived years are only shown when asked for
+  if (!query.termId && !query.AND) {
+    query.AND = [inAcademicYear({ isCurrent: true })];
+  }
+
+  // ROLE CONDITIONS
+
+  switch (role) {
+    case "admin":
+      break;
+    case "teacher":
+      query.OR = [
+        { exam: { lesson: { teacherId: userId } } },
+        { assignment: { lesson: { teacherId: userId } } },
+      ];
+      break;
+
+    case "student":
+      query.studentId = userId;
+      break;
+
+    case "parent":
+      query.student = childrenOf(userId);
+      break;
+    default:
+      break;
+  }
+
+  return query;
+};
+
+export const getAttendanceQuery = (
+  params: ListParams,
+  { userId, role }: Viewer
+) => {
+  const query: Prisma.AttendanceWhereInput = {};
+
+  query.lesson = {};
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== undefined) {
+      switch (key) {
+        case "studentId":
+          query.studentId = value;
+          break;
+        case "lessonId":
+          query.lessonId = parseInt(value);
+          break;
+        case "classId":
+          query.lesson.classId = parseInt(value);
+          break;
+        case "date":
+          query.date = new Date(value);
+          break;
+        case "search":
+          query.OR = [
+            { student: { name: { contains: value, mode: "insensitive" } } },
+            {
+              student: { surname: { contains: value, mode: "insensitive" } },
+            },
+            { lesson: { name: { contains: value, mode: "insensitive" } } },
+          ];
+          break;
+        default:
+          break;
+      }
+    }
+  }
+
+  // ROLE CONDITIONS
+
+  switch (role) {
+    case "admin":
+      break;
+    case "teacher":
+      query.lesson.teacherId = userId;
+      break;
+    case "student":
+      query.studentId = userId;
+      break;
+    case "parent":
+      query.student = childrenOf(userId);
+      break;
+
+    default:
+      break;
+  }
+
+  return query;
+};
+
+// Events and announcements for the whole school or the caller's classes
+const classOfViewer = ({ userId, role }: Viewer) => {
+  const roleConditions = {
+    teacher: { lessons: { some: { teacherId: userId } } },
+    student: { students: { some: { id: userId } } },
+    parent: { students: { some: childrenOf(userId) } },
+  };
+
+  return roleConditions[role as keyof typeof roleConditions] || {};
+};
+
+export const getEventQuery = (params: ListParams, viewer: Viewer) => {
+  const query: Prisma.EventWhereInput = {};
+
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== undefined) {
+      switch (key) {
+        case "search":
+          query.title = { contains: value, mode: "insensitive" };
+          break;
+        default:
+          break;
+      }
+    }
+  }
+
+  // ROLE CONDITIONS
+
+  query.OR = [{ classId: null }, { class: classOfViewer(viewer) }];
+
+  return query;
+};
+
+export const getAnnouncementQuery = (params: ListParams, viewer: Viewer) => {
+  const query: Prisma.AnnouncementWhereInput = {};
+
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== undefined) {
+      switch (key) {
+        case "search":
+          query.title = { contains: value, mode: "insensitive" };
+          break;
+        default:
+          break;
+      }
+    }
+  }
+
+  // ROLE CONDITIONS
+
+  query.OR = [{ classId: null }, { class: classOfViewer(viewer) }];
+
+  return query;
+};
+
+export const getLessonChangeQuery = (
+  params: ListParams,
+  { userId, role }: Viewer
+) => {
+  const query: Prisma.LessonExceptionWhereInput = {};
+
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== undefined) {
+      switch (key) {
+        case "lessonId":
+          query.lessonId = parseInt(value);
+          break;
+        case "search":
+          query.lesson = { name: { contains: value, mode: "insensitive" } };
+          break;
+        default:
+          break;
+      }
+    }
+  }
+
+  // Past changes are only shown when asked for
+  if (!params.past) {
+    query.date = { gte: toDateOnly(new Date()) };
+  }
+
+  // ROLE CONDITIONS
+
+  switch (role) {
+    case "admin":
+      break;
+    case "teacher":
+      query.OR = [
+        { lesson: { teacherId: userId } },
+        { substituteTeacherId: userId },
+      ];
+      break;
+    default:
+      break;
+  }
+
+  return query;
+};
+
+export const getAbsenceQuery = (params: ListParams) => {
+  // Current and upcoming absences unless past ones are asked for
+  const query: Prisma.TeacherAbsenceWhereInput = params.past
+    ? {}
+    : { endDate: { gte: toDateOnly(new Date()) } };
+
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== undefined) {
+      switch (key) {
+        case "teacherId":
+          query.teacherId = value;
+          break;
+        case "search":
+          query.teacher = {
+            OR: [
+              { name: { contains: value, mode: "insensitive" } },
+              { surname: { contains: value, mode: "insensitive" } },
+            ],
+          };
+          break;
+        default:
+          break;
+      }
+    }
+  }
+
+  return query;
+};
+
+// Lists searched by name only
+const byName = (params: ListParams) =>
+  params.search
+    ? { name: { contains: params.search, mode: "insensitive" as const } }
+    : {};
+
+export const getParentQuery = (params: ListParams): Prisma.ParentWhereInput =>
+  byName(params);
+
+export const getSubjectQuery = (params: ListParams): Prisma.SubjectWhereInput =>
+  byName(params);
+
+export const getHolidayQuery = (params: ListParams): Prisma.HolidayWhereInput =>
+  byName(params);
+
+export const getRoomQuery = (params: ListParams): Prisma.RoomWhereInput =>
+  byName(params);
+
+export const getAcademicYearQuery = (
+  params: ListParams
+): Prisma.AcademicYearWhereInput => byName(params);
+
+export const getGradeScaleQuery = (
+  params: ListParams
+): Prisma.GradeScaleWhereInput => byName(params);
+
+export const getRubricQuery = (params: ListParams): Prisma.RubricWhereInput =>
+  params.search
+    ? { title: { contains: params.search, mode: "insensitive" } }
+    : {};
+
+export const getAuditLogQuery = (params: ListParams) => {
+  const query: Prisma.AuditLogWhereInput = {};
+  const createdAt: Prisma.DateTimeFilter = {};
+
+  for (const [key, value] of Object.entries(params)) {
+    if (value) {
+      switch (key) {
+        case "entity":
+          query.entity = value;
+          break;
+        case "userId":
+          query.userId = value;
+          break;
+        case "recordId":
+          query.recordId = value;
+          break;
+        case "from":
+          createdAt.gte = new Date(value);
+          break;
+        // The whole day of the "to" date is included
+        case "to":
+          createdAt.lt = new Date(new Date(value).getTime() + 86400000);
+          break;
+        default:
+          break;
+      }
+    }
+  }
+
+  if (createdAt.gte || createdAt.lt) {
+    query.createdAt = createdAt;
+  }
+
+  return query;
+};
+
+export const getFeeStructureQuery = (params: ListParams) => {
+  const query: Prisma.FeeStructureWhereInput = {};
+
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== undefined) {
+      switch (key) {
+        case "academicYearId":
+          query.academicYearId = parseInt(value);
+          break;
+        case "search":
+          query.name = { contains: value, mode: "insensitive" };
+          break;
+        default:
+          break;
+      }
+    }
+  }
+
+  return query;
+};
+
+const studentNameContains = (value: string): Prisma.StudentWhereInput => ({
+  OR: [
+    { name: { contains: value, mode: "insensitive" } },
+    { surname: { contains: value, mode: "insensitive" } },
+  ],
+});
+
+// Parents see what is billed for their children
+export const getInvoiceQuery = (
+  params: ListParams,
+  { userId, role }: Viewer
+) => {
+  const query: Prisma.InvoiceWhereInput = {};
+
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== undefined) {
+      switch (key) {
+        case "studentId":
+          query.studentId = value;
+          break;
+        case "feeStructureId":
+          query.feeStructureId = parseInt(value);
+          break;
+        case "search":
+          query.OR = [
+            { title: { contains: value, mode: "insensitive" } },
+            { student: studentNameContains(value) },
+          ];
+          break;
+        default:
+          break;
+      }
+    }
+  }
+
+  if (role === "parent") {
+    query.student = childrenOf(userId);
+  }
+
+  return query;
+};
+
+export const getDiscountQuery = (params: ListParams) => {
+  const query: Prisma.DiscountWhereInput = {};
+
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== undefined) {
+      switch (key) {
+        case "academicYearId":
+          query.academicYearId = parseInt(value);
+          break;
+        case "search":
+          query.OR = [
+            { name: { contains: value, mode: "insensitive" } },
+            { student: studentNameContains(value) },
+          ];
+          break;
+        default:
+          break;
+      }
+    }
+  }
+
+  return query;
+};
+
+export const getExpenseQuery = (params: ListParams) => {
+  const query: Prisma.ExpenseWhereInput = {};
+
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== undefined) {
+      switch (key) {
+        case "category":
+          query.category = value;
+          break;
+        case "search":
+          query.OR = [
+            { title: { contains: value, mode: "insensitive" } },
+            { category: { contains: value, mode: "insensitive" } },
+          ];
+          break;
+        default:
+          break;
+      }
+    }
+  }
+
+  return query;
+};
@@ -0,0 +1,45 @@
+import nodemailer from "nodemailer";
+import { EMAIL_SETTINGS } from "./settings";
+
+// EMAIL
+// The notification emails: plain text, one recipient per message. Locally
+// they go to an SMTP stand-in like Mailpit, which keeps what it receives
+// instead of delivering it. Without SMTP_HOST nothing is sent.
+
+export type Email = { to: string; subject: string; text: string };
+
+const TIMEOUT_MS = 10_000;
+
+let transport: nodemailer.Transporter | null = null;
+
+// Without TLS from the start the connection is upgraded with STARTTLS when
+// the server offers it. Credentials are never sent unencrypted: with a user
+// set, a server that can't upgrade the connection is refused.
+const getTransport = () => {
+  const { host, port, secure, user, password, heloName } = EMAIL_SETTINGS;
+  transport ??= nodemailer.createTransport({
+    host,
+    port,
+    secure,
+    requireTLS: !secure && !!user,
+    auth: user ? { user, pass: password ?? "" } : undefined,
+    name: heloName,
+    connectionTimeout: TIMEOUT_MS,
+    greetingTimeout: TIMEOUT_MS,
+    socketTimeout: TIMEOUT_MS,
+  });
+  return transport;
+};
+
+export const isEmailEnabled = () => !!EMAIL_SETTINGS.host;
+
+export const sendEmail = async (email: Email) => {
+  if (!isEmailEnabled()) return;
+
+  await getTransport().sendMail({
+    from: EMAIL_SETTINGS.from,
+    to: email.to,
+    subject: email.subject,
+    text: email.text,
+  });
+};
@@ -0,0 +1,376 @@
+import { Notification, NotificationType } from "@prisma/client";
+import { isEmailEnabled, sendEmail } from "./mailer";
+import { getActor } from "./policy";
+import prisma from "./prisma";
+import { EMAIL_SETTINGS } from "./settings";
+import { toDateOnly } from "./utils";
+
+// NOTIFICATIONS
+// Domain events (a result recorded, an exam scheduled, an announcement to a
+// class, an assignment due tomorrow) fan out to one notification per affected
+// student, guardian and teacher. Each user picks the channels they get every
+// type on: in the app, by email, both or neither. Whoever caused an event
+// isn't notified of it. Notifying never fails the action that triggered it.
+
+export type NotificationEvent =
+  | { type: "RESULT"; resultId: number }
+  | { type: "EXAM"; examId: number; rescheduled?: boolean }
+  | { type: "ANNOUNCEMENT"; announcementId: number }
+  | { type: "ASSIGNMENT_DUE"; assignmentId: number };
+
+export type NotificationChannels = { inApp: boolean; email: boolean };
+
+export const NOTIFICATION_TYPES: {
+  type: NotificationType;
+  label: string;
+  defaults: NotificationChannels;
+}[] = [
+  {
+    type: "RESULT",
+    label: "New results",
+    defaults: { inApp: true, email: true },
+  },
+  {
+    type: "EXAM",
+    label: "Exams scheduled",
+    defaults: { inApp: true, email: true },
+  },
+  {
+    type: "ANNOUNCEMENT",
+    label: "Class announcements",
+    defaults: { inApp: true, email: false },
+  },
+  {
+    type: "ASSIGNMENT_DUE",
+    label: "Assignments due tomorrow",
+    defaults: { inApp: true, email: false },
+  },
+];
+
+type Message = {
+  key: string;
+  title: string;
+  body: string;
+  link: string;
+  recipients: string[];
+};
+
+const dateTime = new Intl.DateTimeFormat("en-US", {
+  dateStyle: "medium",
+  timeStyle: "short",
+});
+
+// RECIPIENTS
+
+const guardiansOf = async (studentIds: string[]) =>
+  (
+    await prisma.guardian.findMany({
+      where: { studentId: { in: studentIds } },
+      select: { parentId: true },
+    })
+  ).map((guardian) => guardian.parentId);
+
+// The class's students and their guardians, and with `teachers` whoever
+// teaches or supervises it
+const classAudience = async (
+  classId: number,
+  { teachers = false } = {}
+) => {
+  const classItem = await prisma.class.findUnique({
+    where: { id: classId },
+    select: {
+      supervisorId: true,
+      students: { where: { deletedAt: null }, select: { id: true } },
+      lessons: {
+        where: { teacher: { deletedAt: null } },
+        select: { teacherId: true },
+      },
+    },
+  });
+  if (!classItem) return [];
+
+  const studentIds = classItem.students.map((student) => student.id);
+  return [
+    ...studentIds,
+    ...(await guardiansOf(studentIds)),
+    ...(teachers
+      ? [
+          ...classItem.lessons.map((lesson) => lesson.teacherId),
+          ...(classItem.supervisorId ? [classItem.supervisorId] : []),
+        ]
+      : []),
+  ];
+};
+
+// MESSAGES
+
+const resultMessage = async (id: number): Promise<Message | null> => {
+  const result = await prisma.result.findUnique({
+    where: { id },
+    include: {
+      student: { select: { id: true, name: true, surname: true } },
+      exam: { select: { title: true } },
+      assignment: { select: { title: true, maxScore: true } },
+    },
+  });
+  if (!result) return null;
+
+  const title = result.exam?.title ?? result.assignment?.title ?? "";
+  const outOf = result.assignment ? `/${result.assignment.maxScore}` : "";
+  return {
+    key: `result:${id}`,
+    title: `New result: ${title}`,
+    body: `${result.student.name} ${result.student.surname} scored ${result.score}${outOf}.`,
+    link: `/list/results?studentId=${result.studentId}`,
+    recipients: [
+      result.studentId,
+      ...(await guardiansOf([result.studentId])),
+    ],
+  };
+};
+
+const examMessage = async (
+  id: number,
+  rescheduled = false
+): Promise<Message | null> => {
+  const exam = await prisma.exam.findUnique({
+    where: { id },
+    include: {
+      lesson: {
+        select: {
+          teacherId: true,
+          classId: true,
+          class: { select: { name: true } },
+          subject: { select: { name: true } },
+        },
+      },
+    },
+  });
+  if (!exam) return null;
+
+  const { lesson } = exam;
+  return {
+    // Moving the exam is news again
+    key: `exam:${id}:${exam.startTime.toISOString()}`,
+    title: `${rescheduled ? "Exam rescheduled" : "Exam scheduled"}: ${
+      exam.title
+    }`,
+    body: `${lesson.subject.name} for class ${lesson.class.name} on ${dateTime.format(exam.startTime)}.`,
+    link: `/list/exams?classId=${lesson.classId}`,
+    recipients: [
+      ...(await classAudience(lesson.classId)),
+      lesson.teacherId,
+    ],
+  };
+};
+
+// School-wide announcements are only shown on the dashboards
+const announcementMessage = async (id: number): Promise<Message | null> => {
+  const announcement = await prisma.announcement.findUnique({
+    where: { id },
+    include: { class: { select: { name: true } } },
+  });
+  if (!announcement?.classId || !announcement.class) return null;
+
+  return {
+    key: `announcement:${id}`,
+    title: `Class ${announcement.class.name}: ${announcement.title}`,
+    body: announcement.description,
+    link: "/list/announcements",
+    recipients: await classAudience(announcement.classId, { teachers: true }),
+  };
+};
+
+const assignmentDueMessage = async (id: number): Promise<Message | null> => {
+  const assignment = await prisma.assignment.findUnique({
+    where: { id },
+    include: {
+      lesson: {
+        select: {
+          classId: true,
+          class: { select: { name: true } },
+          subject: { select: { name: true } },
+        },
+      },
+    },
+  });
+  if (!assignment) return null;
+
+  // Students who already handed it in aren't reminded
+  const handedIn = new Set(
+    (
+      await prisma.submission.findMany({
+        where: { assignmentId: id },
+        select: { studentId: true },
+      })
+    ).map((submission) => submission.studentId)
+  );
+
+  const { lesson } = assignment;
+  return {
+    key: `assignment-due:${id}`,
+    title: `Due tomorrow: ${assignment.title}`,
+    body: `${lesson.subject.name} for class ${lesson.class.name}, due ${dateTime.format(assignment.dueDate)}.`,
+    link: `/list/assignments?classId=${lesson.classId}`,
+    recipients: (await classAudience(lesson.classId)).filter(
+      (userId) => !handedIn.has(userId)
+    ),
+  };
+};
+
+const getMessage = (event: NotificationEvent) => {
+  switch (event.type) {
+    case "RESULT":
+      return resultMessage(event.resultId);
+    case "EXAM":
+      return examMessage(event.examId, event.rescheduled);
+    case "ANNOUNCEMENT":
+      return announcementMessage(event.announcementId);
+    case "ASSIGNMENT_DUE":
+      return assignmentDueMessage(event.assignmentId);
+  }
+};
+
+// PREFERENCES
+
+// Each type's channels for the user, their own choice or the defaults
+export const getNotificationPreferences = async (userId: string) => {
+  const saved = await prisma.notificationPreference.findMany({
+    where: { userId },
+  });
+
+  return NOTIFICATION_TYPES.map(({ type, label, defaults }) => {
+    const preference = saved.find((item) => item.type === type);
+    return {
+      type,
+      label,
+      inApp: preference?.inApp ?? defaults.inApp,
+      email: preference?.email ?? defaults.email,
+    };
+  });
+};
+
+const getChannels = async (userIds: string[], type: NotificationType) => {
+  const saved = await prisma.notificationPreference.findMany({
+    where: { userId: { in: userIds }, type },
+  });
+  const { defaults } = NOTIFICATION_TYPES.find((item) => item.type === type)!;
+
+  return new Map<string, NotificationChannels>(
+    userIds.map((userId) => {
+      const preference = saved.find((item) => item.userId === userId);
+      return [userId, preference ?? defaults];
+    })
+  );
+};
+
+// DELIVERY
+
+// Addresses by Clerk user ID. Admins and users without one aren't emailed.
+const getUserEmails = async (userIds: string[]) => {
+  const where = { id: { in: userIds }, email: { not: null } };
+  const select = { id: true, email: true } as const;
+
+  const users = (
+    await Promise.all([
+      prisma.teacher.findMany({ where, select }),
+      prisma.student.findMany({ where, select }),
+      prisma.parent.findMany({ where, select }),
+    ])
+  ).flat();
+
+  return new Map(users.map((user) => [user.id, user.email!]));
+};
+
+const emailNotifications = async (notifications: Notification[]) => {
+  if (!isEmailEnabled() || !notifications.length) return;
+
+  const emails = await getUserEmails(
+    notifications.map((notification) => notification.userId)
+  );
+
+  for (const notification of notifications) {
+    const to = emails.get(notification.userId);
+    if (!to) continue;
+
+    try {
+      await sendEmail({
+        to,
+        subject: notification.title,
+        text: [
+          notification.body,
+          ...(notification.link
+            ? ["", `${EMAIL_SETTINGS.appUrl}${notification.link}`]
+            : []),
+        ].join("\n"),
+      });
+      await prisma.notification.update({
+        where: { id: notification.id },
+        data: { emailedAt: new Date() },
+      });
+    } catch (err) {
+      console.log(err);
+    }
+  }
+};
+
+// Stores the event's notifications on the channels each recipient wants and
+// emails those who want email. Recipients already notified of the event are
+// skipped, so an event can safely be raised again.
+export const notify = async (event: NotificationEvent) => {
+  try {
+    const message = await getMessage(event);
+    if (!message) return;
+
+    const actor = getActor();
+    const userIds = Array.from(new Set(message.recipients)).filter(
+      (userId) => userId !== actor?.userId
+    );
+    if (!userIds.length) return;
+
+    const channels = await getChannels(userIds, event.type);
+    const wanted = userIds.filter((userId) => {
+      const { inApp, email } = channels.get(userId)!;
+      return inApp || email;
+    });
+
+    const notifications = await prisma.notification.createManyAndReturn({
+      data: wanted.map((userId) => ({
+        userId,
+        type: event.type,
+        key: message.key,
+        title: message.title,
+        body: message.body,
+        link: message.link,
+        inApp: channels.get(userId)!.inApp,
+      })),
+      skipDuplicates: true,
+    });
+
+    await emailNotifications(
+      notifications.filter(
+        (notification) => channels.get(notification.userId)!.email
+      )
+    );
+  } catch (err) {
+    console.log(err);
+  }
+};
+
+// Raises ASSIGNMENT_DUE for every assignment due tomorrow. Run once a day;
+// running it again the same day notifies nobody twice.
+export const notifyAssignmentsDueTomorrow = async () => {
+  const today = toDateOnly(new Date());
+  const tomorrow = new Date(today.getTime() + 24 * 60 * 60 * 1000);
+  const dayAfter = new Date(tomorrow.getTime() + 24 * 60 * 60 * 1000);
+
+  const assignments = await prisma.assignment.findMany({
+    where: { dueDate: { gte: tomorrow, lt: dayAfter } },
+    select: { id: true },
+  });
+
+  for (const assignment of assignments) {
+    await notify({ type: "ASSIGNMENT_DUE", assignmentId: assignment.id });
+  }
+  return assignments.length;
+};
@@ -0,0 +1,399 @@
+import {
+  AIGeneratedContent,
+  Exam,
+  RubricLevel,
+  TestAttempt,
+} from "@prisma/client";
+import { randomInt } from "crypto";
+import { getTermForDate } from "./academicYear";
+import { audit, auditChanges } from "./audit";
+import { notify } from "./notifications";
+import prisma from "./prisma";
+import { saveRubricScores } from "./rubrics";
+
+// ONLINE TESTS
+// A quiz or exam from the AI playground, once published and linked to an
+// Exam, is taken online by the exam's class between its start and end time,
+// and within the test's own duration from when the student starts. Every
+// student gets the questions, and multiple choice options, in their own order.
+// Answers save as the student goes. On submission the objective questions
+// (multiple choice, true/false, fill in the blank) are marked; answered short
+// answers and essays are left for the teacher, who marks them by hand or
+// against the question's rubric. The points, scaled to the exam's max score,
+// become the student's Result.
+
+export type QuestionType =
+  | "multiple_choice"
+  | "true_false"
+  | "fill_blank"
+  | "short_answer"
+  | "essay";
+
+export type TestQuestion = {
+  // Section and position in the content, e.g. "0-3"
+  id: string;
+  section: string | null;
+  instructions: string | null;
+  type: QuestionType;
+  question: string;
+  options: string[];
+  correctAnswer: string;
+  points: number;
+};
+
+// What the student is shown
+export type StudentQuestion = Omit<TestQuestion, "correctAnswer">;
+
+// The student's order of questions, and of each question's options
+export type TestLayout = { id: string; options: number[] }[];
+
+export type TestAnswers = Record<string, string>;
+
+// Points per question, null while an answer waits for the teacher
+export type TestMarks = Record<string, number | null>;
+
+const QUESTION_TYPES: QuestionType[] = [
+  "multiple_choice",
+  "true_false",
+  "fill_blank",
+  "short_answer",
+  "essay",
+];
+
+const OBJECTIVE_TYPES: QuestionType[] = [
+  "multiple_choice",
+  "true_false",
+  "fill_blank",
+];
+
+// Answers sent this long after the deadline still count, they were on their
+// way when time ran out
+export const SUBMIT_GRACE_MS = 30 * 1000;
+
+// CONTENT
+
+// Generated content is model output, so anything malformed is skipped
+const toQuestion = (
+  raw: any,
+  id: string,
+  section: { title: string | null; instructions: string | null }
+): TestQuestion | null => {
+  if (typeof raw?.question !== "string" || !raw.question.trim()) return null;
+
+  const type: QuestionType = QUESTION_TYPES.includes(raw.type)
+    ? raw.type
+    : "short_answer";
+  const options = Array.isArray(raw.options) ? raw.options.map(String) : [];
+
+  return {
+    id,
+    section: section.title,
+    instructions: section.instructions,
+    type,
+    question: raw.question,
+    options:
+      type === "true_false" && !options.length ? ["True", "False"] : options,
+    correctAnswer: String(raw.correct_answer ?? ""),
+    points: Number(raw.points) > 0 ? Number(raw.points) : 1,
+  };
+};
+
+// A quiz is one list of questions, an exam has sections of them
+export const getTestQuestions = (
+  content: Pick<AIGeneratedContent, "type" | "content">
+): TestQuestion[] => {
+  const data = content.content as any;
+  const sections: any[] =
+    content.type === "exam"
+      ? Array.isArray(data?.sections)
+        ? data.sections
+        : []
+      : [{ questions: data?.questions }];
+
+  return sections.flatMap((section, s) => {
+    const questions: any[] = Array.isArray(section?.questions)
+      ? section.questions
+      : [];
+    const info = {
+      title: typeof section?.title === "string" ? section.title : null,
+      instructions:
+        typeof section?.instructions === "string"
+          ? section.instructions
+          : null,
+    };
+    return questions.flatMap((raw, q) => {
+      const question = toQuestion(raw, `${s}-${q}`, info);
+      return question ? [question] : [];
+    });
+  });
+};
+
+// Minutes the test may take once started, if the content sets one
+export const getTestDuration = (
+  content: Pick<AIGeneratedContent, "content">
+) => {
+  const duration = Number((content.content as any)?.duration);
+  return duration > 0 ? duration : null;
+};
+
+// The exam's end, or sooner when the duration runs out first
+export const getTestDeadline = (
+  exam: Pick<Exam, "endTime">,
+  attempt: Pick<TestAttempt, "startedAt">,
+  duration: number | null
+) =>
+  duration
+    ? new Date(
+        Math.min(
+          exam.endTime.getTime(),
+          attempt.startedAt.getTime() + duration * 60 * 1000
+        )
+      )
+    : exam.endTime;
+
+export const isPastDeadline = (deadline: Date, now = new Date()) =>
+  now.getTime() > deadline.getTime() + SUBMIT_GRACE_MS;
+
+// SHUFFLING
+
+const shuffle = <T>(items: T[]) => {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = randomInt(i + 1);
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+};
+
+// Questions are shuffled within their section, sections keep their order.
+// True/false keeps its options in order.
+export const shuffleTest = (questions: TestQuestion[]): TestLayout => {
+  const sections = new Map<string, TestQuestion[]>();
+  for (const question of questions) {
+    const section = question.id.split("-")[0];
+    sections.set(section, [...(sections.get(section) ?? []), question]);
+  }
+
+  return Array.from(sections.values()).flatMap((section) =>
+    shuffle(section).map((question) => {
+      const order = question.options.map((_, index) => index);
+      return {
+        id: question.id,
+        options: question.type === "multiple_choice" ? shuffle(order) : order,
+      };
+    })
+  );
+};
+
+// The questions in the student's order, without the answers
+export const getStudentQuestions = (
+  questions: TestQuestion[],
+  layout: TestLayout
+): StudentQuestion[] =>
+  layout.flatMap(({ id, options }) => {
+    const question = questions.find((item) => item.id === id);
+    if (!question) return [];
+
+    const { correctAnswer, ...shown } = question;
+    return [
+      {
+        ...shown,
+        options: options
+          .filter((index) => index < question.options.length)
+          .map((index) => question.options[index]),
+      },
+    ];
+  });
+
+// MARKING
+
+const normalize = (value: string) =>
+  value
+    .trim()
+    .toLowerCase()
+    .replace(/\s+/g, " ")
+    .replace(/[.!]$/, "");
+
+// Multiple choice keys are the option's text, sometimes its letter ("B") or
+// both ("B. Paris")
+const isCorrect = (question: TestQuestion, answer: string) => {
+  const given = normalize(answer);
+  const key = normalize(question.correctAnswer);
+  if (!given || !key) return false;
+  if (given === key) return true;
+  if (question.type !== "multiple_choice") return false;
+
+  const letter = key.match(/^([a-z])(?:[.)]\s*(.*))?$/);
+  if (!letter) return false;
+  const option = question.options[letter[1].charCodeAt(0) - 97];
+  return (
+    (option !== undefined && given === normalize(option)) ||
+    (!!letter[2] && given === letter[2])
+  );
+};
+
+export const isObjective = (question: Pick<TestQuestion, "type">) =>
+  OBJECTIVE_TYPES.includes(question.type);
+
+// Unanswered questions score nothing, whatever their type
+export const markTest = (
+  questions: TestQuestion[],
+  answers: TestAnswers
+): TestMarks =>
+  Object.fromEntries(
+    questions.map((question) => {
+      const answer = answers[question.id] ?? "";
+      if (!answer.trim()) return [question.id, 0];
+      if (!isObjective(question)) return [question.id, null];
+      return [question.id, isCorrect(question, answer) ? question.points : 0];
+    })
+  );
+
+export const getTestPoints = (
+  questions: TestQuestion[],
+  marks: TestMarks
+) => ({
+  earned: questions.reduce((sum, q) => sum + (marks[q.id] ?? 0), 0),
+  total: questions.reduce((sum, q) => sum + q.points, 0),
+  pending: questions.filter((q) => marks[q.id] === null).length,
+});
+
+export const scaleScore = (earned: number, total: number, maxScore: number) =>
+  total ? Math.round((earned / total) * maxScore) : 0;
+
+// SUBMITTING
+
+// Saves the attempt's marks and its points, scaled to the exam's max score, as
+// the student's Result. Marks given with a rubric keep the levels behind them.
+// Submitting claims the attempt first, so of two submissions racing (a double
+// click, the page and the daily job finishing it) only one records a score;
+// the other gets null.
+export const recordTestScore = async (
+  attemptBefore: TestAttempt,
+  exam: Exam & { aiContent: AIGeneratedContent },
+  data: { marks: TestMarks; submittedAt?: Date },
+  rubric?: { questionId: string; levels: RubricLevel[]; gradedBy: string }
+) => {
+  const questions = getTestQuestions(exam.aiContent);
+  const { earned, total } = getTestPoints(questions, data.marks);
+  const score = scaleScore(earned, total, exam.maxScore);
+  const term = await getTermForDate(exam.startTime);
+  const resultWhere = {
+    examId_studentId: { examId: exam.id, studentId: attemptBefore.studentId },
+  };
+
+  const recorded = await prisma.$transaction(async (tx) => {
+    if (data.submittedAt) {
+      const { count } = await tx.testAttempt.updateMany({
+        where: { id: attemptBefore.id, submittedAt: null },
+        data: { submittedAt: data.submittedAt },
+      });
+      if (!count) return null;
+    }
+
+    const resultBefore = await tx.result.findUnique({ where: resultWhere });
+    return {
+      resultBefore,
+      attempt: await tx.testAttempt.update({
+        where: { id: attemptBefore.id },
+        data: { ...data, score },
+      }),
+      result: await tx.result.upsert({
+        where: resultWhere,
+        update: { score, termId: term?.id ?? null },
+        create: {
+          score,
+          studentId: attemptBefore.studentId,
+          examId: exam.id,
+          termId: term?.id ?? null,
+        },
+      }),
+      rubricScores:
+        rubric &&
+        (await saveRubricScores(
+          tx,
+          { attemptId: attemptBefore.id, questionId: rubric.questionId },
+          rubric.levels.map((level) => ({
+            criterionId: level.criterionId,
+            levelId: level.id,
+            points: level.points,
+            gradedAt: new Date(),
+            gradedBy: rubric.gradedBy,
+          }))
+        )),
+    };
+  });
+  if (!recorded) return null;
+
+  const { resultBefore, attempt, result, rubricScores } = recorded;
+  await audit([
+    {
+      entity: "TestAttempt",
+      action: "UPDATE",
+      before: attemptBefore,
+      after: attempt,
+    },
+    {
+      entity: "Result",
+      action: resultBefore ? "UPDATE" : "CREATE",
+      before: resultBefore,
+      after: result,
+    },
+  ]);
+  if (rubricScores) {
+    await auditChanges(
+      "RubricScore",
+      rubricScores.before,
+      rubricScores.after
+    );
+  }
+  await notify({ type: "RESULT", resultId: result.id });
+
+  return attempt;
+};
+
+// Marks the attempt and records the score as the student's exam result, null
+// when it was already submitted
+export const finishTestAttempt = async (attemptId: number) => {
+  const before = await prisma.testAttempt.findUniqueOrThrow({
+    where: { id: attemptId },
+    include: { exam: { include: { aiContent: true } } },
+  });
+  const { exam, ...attemptBefore } = before;
+  const { aiContent } = exam;
+  if (attemptBefore.submittedAt || !aiContent) return null;
+
+  const marks = markTest(
+    getTestQuestions(aiContent),
+    attemptBefore.answers as TestAnswers
+  );
+
+  return recordTestScore(
+    attemptBefore,
+    { ...exam, aiContent },
+    { marks, submittedAt: new Date() }
+  );
+};
+
+// Submits, as they were last saved, the attempts whose time ran out without
+// the student submitting. Run with the daily reminders; pages showing an
+// attempt also finish it when its time is up.
+export const finishExpiredTestAttempts = async () => {
+  const attempts = await prisma.testAttempt.findMany({
+    where: { submittedAt: null },
+    include: { exam: { include: { aiContent: true } } },
+  });
+
+  const expired = attempts.filter(
+    ({ exam, startedAt }) =>
+      !!exam.aiContent &&
+      isPastDeadline(
+        getTestDeadline(exam, { startedAt }, getTestDuration(exam.aiContent))
+      )
+  );
+
+  for (const attempt of expired) {
+    await finishTestAttempt(attempt.id);
+  }
+  return expired.length;
+};
@@ -0,0 +1,490 @@
+import { auth } from "@clerk/nextjs/server";
+import { childrenOf } from "./guardians";
+import prisma from "./prisma";
+import { getRoleFromClaims, Role } from "./roles";
+import { toDateOnly } from "./utils";
+
+// AUTHORIZATION POLICY
+// Middleware only guards pages, so every server action asks here whether the
+// caller may perform an operation on an entity. Each entity lists, per
+// operation, the roles granted it: `true` for any record, or a check scoping
+// the role to records it owns (a teacher's own lessons, a parent's children).
+
+export type Operation = "read" | "create" | "update" | "delete";
+
+export type Actor = { userId: string; role: Role };
+
+export type ActionResult = {
+  success: boolean;
+  error: boolean;
+  forbidden?: boolean;
+  message?: string;
+  data?: any;
+};
+
+export const FORBIDDEN: ActionResult = {
+  success: false,
+  error: true,
+  forbidden: true,
+  message: "You are not allowed to do this",
+};
+
+// What the action touches: the existing record for updates and deletes, the
+// submitted data for creates and updates
+export type Target = {
+  id?: number | string;
+  data?: Record<string, any>;
+};
+
+type Check = (actor: Actor, target: Target) => Promise<boolean>;
+
+type Grant = Partial<Record<Role, true | Check>>;
+
+type EntityPolicy = Partial<Record<Operation, Grant>>;
+
+// OWNERSHIP
+
+const teachesLesson = async (teacherId: string, lessonId: unknown) =>
+  !!lessonId &&
+  !!(await prisma.lesson.findFirst({
+    where: { id: Number(lessonId), teacherId },
+    select: { id: true },
+  }));
+
+// Supervising a class counts as teaching it
+const teachesClass = async (teacherId: string, classId: unknown) =>
+  !!classId &&
+  !!(await prisma.class.findFirst({
+    where: {
+      id: Number(classId),
+      OR: [{ supervisorId: teacherId }, { lessons: { some: { teacherId } } }],
+    },
+    select: { id: true },
+  }));
+
+const lessonOf = async (entity: "exam" | "assignment", id: unknown) => {
+  if (!id) return null;
+  const record =
+    entity === "exam"
+      ? await prisma.exam.findUnique({
+          where: { id: Number(id) },
+          select: { lessonId: true },
+        })
+      : await prisma.assignment.findUnique({
+          where: { id: Number(id) },
+          select: { lessonId: true },
+        });
+  return record?.lessonId ?? null;
+};
+
+// A substitute takes over the lesson on the day they cover it
+const teachesLessonOn = async (
+  teacherId: string,
+  lessonId: unknown,
+  date: unknown
+) =>
+  (await teachesLesson(teacherId, lessonId)) ||
+  (!!lessonId &&
+    date instanceof Date &&
+    !!(await prisma.lessonException.findFirst({
+      where: {
+        lessonId: Number(lessonId),
+        date: toDateOnly(date),
+        substituteTeacherId: teacherId,
+        cancelled: false,
+      },
+      select: { id: true },
+    })));
+
+const ownLesson: Check = ({ userId }, { data }) =>
+  teachesLesson(userId, data?.lessonId);
+
+// Both the record as it is and where the update moves it must be the teacher's
+const ownRecordLesson =
+  (entity: "exam" | "assignment"): Check =>
+  async ({ userId }, { id, data }) =>
+    (await teachesLesson(userId, await lessonOf(entity, id))) &&
+    (!data || (await teachesLesson(userId, data.lessonId)));
+
+const ownLessonOccurrence: Check = ({ userId }, { data }) =>
+  teachesLessonOn(userId, data?.lessonId, data?.date);
+
+const ownAttendance: Check = async (actor, { id, data }) => {
+  const attendance = await prisma.attendance.findUnique({
+    where: { id: Number(id) },
+    select: { lessonId: true, date: true },
+  });
+
+  return (
+    !!attendance &&
+    (await ownLessonOccurrence(actor, { data: attendance })) &&
+    (!data || (await ownLessonOccurrence(actor, { data })))
+  );
+};
+
+const ownAssessment: Check = async ({ userId }, { data }) =>
+  teachesLesson(
+    userId,
+    data?.examId
+      ? await lessonOf("exam", data.examId)
+      : await lessonOf("assignment", data?.assignmentId)
+  );
+
+const ownResult: Check = async (actor, { id, data }) => {
+  const result = await prisma.result.findUnique({
+    where: { id: Number(id) },
+    select: { examId: true, assignmentId: true },
+  });
+
+  return (
+    !!result &&
+    (await ownAssessment(actor, { data: result })) &&
+    (!data || (await ownAssessment(actor, { data })))
+  );
+};
+
+// Students hand in the assignments of their own class
+const inAssignmentClass: Check = async ({ userId }, { data }) =>
+  !!data?.assignmentId &&
+  !!(await prisma.assignment.findFirst({
+    where: {
+      id: Number(data.assignmentId),
+      lesson: {
+        class: { students: { some: { id: userId, deletedAt: null } } },
+      },
+    },
+    select: { id: true },
+  }));
+
+const teachesAssignment: Check = async ({ userId }, { data }) =>
+  teachesLesson(userId, await lessonOf("assignment", data?.assignmentId));
+
+const gradesSubmission: Check = async ({ userId }, { id }) => {
+  const submission = await prisma.submission.findUnique({
+    where: { id: Number(id) },
+    select: { assignmentId: true },
+  });
+
+  return (
+    !!submission &&
+    (await teachesLesson(
+      userId,
+      await lessonOf("assignment", submission.assignmentId)
+    ))
+  );
+};
+
+// The exam's teacher marks what the test couldn't mark itself
+const marksTestAttempt: Check = async ({ userId }, { id }) => {
+  const attempt = await prisma.testAttempt.findUnique({
+    where: { id: Number(id) },
+    select: { examId: true },
+  });
+
+  return (
+    !!attempt &&
+    (await teachesLesson(userId, await lessonOf("exam", attempt.examId)))
+  );
+};
+
+// Online tests are for the class of the exam they're published to
+const sitsOnlineTest: Check = async ({ userId }, { data }) =>
+  !!data?.examId &&
+  !!(await prisma.exam.findFirst({
+    where: {
+      id: Number(data.examId),
+      aiContent: { isPublished: true },
+      lesson: {
+        class: { students: { some: { id: userId, deletedAt: null } } },
+      },
+    },
+    select: { id: true },
+  }));
+
+const ownClass: Check = ({ userId }, { data }) =>
+  teachesClass(userId, data?.classId);
+
+const ownGradeWeight: Check = async (actor, { id, data }) => {
+  const weight = await prisma.gradeWeight.findUnique({
+    where: { id: Number(id) },
+    select: { classId: true },
+  });
+
+  return (
+    !!weight &&
+    (await ownClass(actor, { data: weight })) &&
+    (!data || (await ownClass(actor, { data })))
+  );
+};
+
+// A card's class, or the class a batch of cards is for
+const teachesReportCard: Check = async ({ userId }, { id, data }) => {
+  const card = id
+    ? await prisma.reportCard.findUnique({
+        where: { id: Number(id) },
+        select: { classId: true },
+      })
+    : null;
+  return teachesClass(userId, card?.classId ?? data?.classId);
+};
+
+// Students and parents only see a card once it is released
+const ownReleasedCard: Check = async ({ userId, role }, { id }) =>
+  !!id &&
+  !!(await prisma.reportCard.findFirst({
+    where: {
+      id: Number(id),
+      releaseDate: { lte: toDateOnly(new Date()) },
+      student: role === "parent" ? childrenOf(userId) : { id: userId },
+    },
+    select: { id: true },
+  }));
+
+// Subject teachers comment on their subject, the supervisor on the whole card
+const ownCardComment: Check = async ({ userId }, { id, data }) => {
+  const card = await prisma.reportCard.findUnique({
+    where: { id: Number(id) },
+    select: { classId: true, class: { select: { supervisorId: true } } },
+  });
+  if (!card) return false;
+
+  return data?.subjectId
+    ? !!(await prisma.lesson.findFirst({
+        where: {
+          classId: card.classId,
+          subjectId: Number(data.subjectId),
+          teacherId: userId,
+        },
+        select: { id: true },
+      }))
+    : card.class.supervisorId === userId;
+};
+
+const self: Check = async ({ userId }, { data }) => data?.teacherId === userId;
+
+// Students and parents only see the calendar of their own class
+const ownCalendar: Check = async ({ userId, role }, { data }) => {
+  if (!data?.classId) return false;
+
+  switch (role) {
+    case "student":
+      return !!(await prisma.student.findFirst({
+        where: { id: userId, classId: Number(data.classId) },
+        select: { id: true },
+      }));
+    case "parent":
+      return !!(await prisma.student.findFirst({
+        where: { ...childrenOf(userId), classId: Number(data.classId) },
+        select: { id: true },
+      }));
+    default:
+      return false;
+  }
+};
+
+const ownChild: Check = async ({ userId }, { id }) =>
+  !!(await prisma.student.findFirst({
+    where: { id: String(id), ...childrenOf(userId) },
+    select: { id: true },
+  }));
+
+const selfStudent: Check = async ({ userId }, { id }) => id === userId;
+
+// Parents see their children's invoices, whichever guardian they're billed to
+const ownInvoice: Check = async ({ userId }, { id }) =>
+  !!(await prisma.invoice.findFirst({
+    where: { id: Number(id), student: childrenOf(userId) },
+    select: { id: true },
+  }));
+
+// Without an id the action only lists the caller's own conversations
+const ownConversation: Check = async ({ userId }, { id }) =>
+  !id ||
+  !!(await prisma.aIConversation.findFirst({
+    where: { id: String(id), userId },
+    select: { id: true },
+  }));
+
+// Without an id the action covers all of the caller's own notifications
+const ownNotification: Check = async ({ userId }, { id }) =>
+  !id ||
+  !!(await prisma.notification.findFirst({
+    where: { id: Number(id), userId },
+    select: { id: true },
+  }));
+
+const ownDocument: Check = async ({ userId }, { id }) =>
+  !!(await prisma.aIDocument.findFirst({
+    where: { id: String(id), uploadedBy: userId },
+    select: { id: true },
+  }));
+
+const ownContent: Check = async ({ userId }, { id }) =>
+  !!(await prisma.aIGeneratedContent.findFirst({
+    where: { id: String(id), createdBy: userId },
+    select: { id: true },
+  }));
+
+const ownRubric: Check = async ({ userId }, { id }) =>
+  !!(await prisma.rubric.findFirst({
+    where: { id: Number(id), createdBy: userId },
+    select: { id: true },
+  }));
+
+// POLICIES
+
+const adminOnly: EntityPolicy = {
+  read: { admin: true },
+  create: { admin: true },
+  update: { admin: true },
+  delete: { admin: true },
+};
+
+// Playground records and notifications belong to one user, whatever their role
+const creatorOnly = (check: Check): Grant => ({
+  admin: check,
+  teacher: check,
+  student: check,
+  parent: check,
+});
+
+const teacherOwned = (check: Check, recordCheck: Check): EntityPolicy => ({
+  create: { admin: true, teacher: check },
+  update: { admin: true, teacher: recordCheck },
+  delete: { admin: true, teacher: recordCheck },
+});
+
+const policies = {
+  subject: adminOnly,
+  class: adminOnly,
+  teacher: adminOnly,
+  student: adminOnly,
+  parent: adminOnly,
+  guardian: adminOnly,
+  emergencyContact: adminOnly,
+  lesson: adminOnly,
+  event: adminOnly,
+  announcement: adminOnly,
+  gradeScale: adminOnly,
+  academicYear: adminOnly,
+  room: adminOnly,
+  period: adminOnly,
+  subjectHours: adminOnly,
+  timetableDraft: adminOnly,
+  lessonException: adminOnly,
+  holiday: adminOnly,
+  teacherAbsence: adminOnly,
+  importJob: adminOnly,
+  reportCardTemplate: adminOnly,
+  feeStructure: adminOnly,
+  discount: adminOnly,
+  payment: adminOnly,
+  expense: adminOnly,
+  invoice: {
+    read: { admin: true, parent: ownInvoice },
+    create: { admin: true },
+    update: { admin: true },
+    delete: { admin: true },
+  },
+  exam: teacherOwned(ownLesson, ownRecordLesson("exam")),
+  assignment: teacherOwned(ownLesson, ownRecordLesson("assignment")),
+  attendance: teacherOwned(ownLessonOccurrence, ownAttendance),
+  result: teacherOwned(ownAssessment, ownResult),
+  testAttempt: {
+    read: { admin: true, teacher: marksTestAttempt, student: sitsOnlineTest },
+    create: { student: sitsOnlineTest },
+    update: { admin: true, teacher: marksTestAttempt, student: sitsOnlineTest },
+  },
+  // Every teacher grades with any rubric, its author changes it
+  rubric: {
+    read: { admin: true, teacher: true },
+    create: { admin: true, teacher: true },
+    update: { admin: true, teacher: ownRubric },
+    delete: { admin: true, teacher: ownRubric },
+  },
+  // Students hand in, the assignment's teacher grades
+  submission: {
+    read: {
+      admin: true,
+      teacher: teachesAssignment,
+      student: inAssignmentClass,
+    },
+    create: { student: inAssignmentClass },
+    update: { admin: true, teacher: gradesSubmission },
+  },
+  gradeWeight: teacherOwned(ownClass, ownGradeWeight),
+  teacherAvailability: { update: { admin: true, teacher: self } },
+  reportCard: {
+    read: {
+      admin: true,
+      teacher: teachesReportCard,
+      student: ownReleasedCard,
+      parent: ownReleasedCard,
+    },
+    create: { admin: true },
+    update: { admin: true },
+    delete: { admin: true },
+  },
+  reportCardComment: { update: { admin: true, teacher: ownCardComment } },
+  // A student's full record: grades, results and attendance
+  studentRecord: {
+    read: { admin: true, parent: ownChild, student: selfStudent },
+  },
+  calendar: {
+    read: {
+      admin: true,
+      teacher: true,
+      student: ownCalendar,
+      parent: ownCalendar,
+    },
+  },
+  notification: { update: creatorOnly(ownNotification) },
+  // Everyone chooses how they're notified
+  notificationPreference: {
+    update: { admin: true, teacher: true, student: true, parent: true },
+  },
+  aiConversation: {
+    read: creatorOnly(ownConversation),
+    create: { admin: true, teacher: true, student: true, parent: true },
+    update: creatorOnly(ownConversation),
+    delete: creatorOnly(ownConversation),
+  },
+  aiDocument: {
+    read: { admin: true, teacher: true, student: true, parent: true },
+    create: { admin: true, teacher: true },
+    // Admins manage the whole library
+    update: { admin: true, teacher: ownDocument },
+    delete: { admin: true, teacher: ownDocument },
+  },
+  aiContent: {
+    read: { admin: true, teacher: true },
+    create: { teacher: true },
+    // Publishing to, and withdrawing from, the teacher's own lessons, and
+    // attaching rubrics to the questions
+    update: { teacher: ownContent },
+  },
+} satisfies Record<string, EntityPolicy>;
+
+export type Entity = keyof typeof policies;
+
+export const getActor = (): Actor | null => {
+  const { userId, sessionClaims } = auth();
+  const role = getRoleFromClaims(sessionClaims);
+  return userId && role ? { userId, role } : null;
+};
+
+// The caller when the policy grants them the operation on the target, else null
+export const authorize = async (
+  entity: Entity,
+  operation: Operation,
+  target: Target = {}
+): Promise<Actor | null> => {
+  const actor = getActor();
+  if (!actor) return null;
+
+  const grant = (policies[entity] as EntityPolicy)[operation]?.[actor.role];
+  if (!grant) return null;
+  if (grant === true) return actor;
+
+  return (await grant(actor, target)) ? actor : null;
+};
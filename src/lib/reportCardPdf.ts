@@ -0,0 +1,211 @@
+import { PDFDocument, PDFFont, PDFPage, rgb } from "pdf-lib";
+import { embedFonts, fitText, numberPages, printable } from "./exportFormats";
+import { formatPercent } from "./gradebook";
+import { getSummary, ReportCardWithDetails } from "./reportCards";
+
+// REPORT CARD PDF
+// One portrait A4 card per student, in the order given, each starting on a new
+// page. What is shown beyond the subject averages is up to the card's template.
+
+const PAGE_SIZE: [number, number] = [595.28, 841.89];
+const MARGIN = 48;
+const WIDTH = PAGE_SIZE[0] - MARGIN * 2;
+const GRAY = rgb(0.4, 0.4, 0.4);
+
+type Fonts = { regular: PDFFont; bold: PDFFont };
+
+const formatDay = (date: Date) => date.toISOString().split("T")[0];
+
+const wrap = (text: string, font: PDFFont, size: number, width: number) => {
+  const lines: string[] = [];
+  for (const paragraph of printable(text).split(/\s*\n\s*/)) {
+    let line = "";
+    for (const word of paragraph.split(" ")) {
+      const next = line ? `${line} ${word}` : word;
+      if (line && font.widthOfTextAtSize(next, size) > width) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = next;
+      }
+    }
+    lines.push(line);
+  }
+  return lines;
+};
+
+// Writes top to bottom, moving to a new page when the current one is full
+const createWriter = (document: PDFDocument, fonts: Fonts) => {
+  let page: PDFPage = document.addPage(PAGE_SIZE);
+  let y = PAGE_SIZE[1] - MARGIN;
+
+  const ensureSpace = (height: number) => {
+    if (y - height < MARGIN) {
+      page = document.addPage(PAGE_SIZE);
+      y = PAGE_SIZE[1] - MARGIN;
+    }
+  };
+
+  const text = (
+    value: string,
+    { size = 10, bold = false, color = rgb(0, 0, 0), indent = 0 } = {}
+  ) => {
+    const font = bold ? fonts.bold : fonts.regular;
+    for (const line of wrap(value, font, size, WIDTH - indent)) {
+      ensureSpace(size + 4);
+      y -= size;
+      page.drawText(line, { x: MARGIN + indent, y, size, font, color });
+      y -= 4;
+    }
+  };
+
+  const row = (cells: string[], widths: number[], bold = false) => {
+    const size = 9;
+    const font = bold ? fonts.bold : fonts.regular;
+    ensureSpace(size + 8);
+    y -= size + 2;
+    let x = MARGIN;
+    cells.forEach((cell, index) => {
+      const width = widths[index] * WIDTH;
+      page.drawText(fitText(printable(cell), font, width - 6, size), {
+        x: x + 3,
+        y,
+        size,
+        font,
+      });
+      x += width;
+    });
+    y -= 4;
+    page.drawLine({
+      start: { x: MARGIN, y },
+      end: { x: MARGIN + WIDTH, y },
+      thickness: 0.5,
+      color: rgb(0.85, 0.85, 0.85),
+    });
+  };
+
+  const gap = (height: number) => {
+    y -= height;
+  };
+
+  return { text, row, gap };
+};
+
+const drawCard = (
+  document: PDFDocument,
+  fonts: Fonts,
+  card: ReportCardWithDetails
+) => {
+  const { template } = card;
+  const summary = getSummary(card);
+  const writer = createWriter(document, fonts);
+
+  writer.text(template.heading, { size: 16, bold: true });
+  writer.gap(4);
+  writer.text(`Report card: ${card.student.name} ${card.student.surname}`, {
+    size: 13,
+    bold: true,
+  });
+  writer.text(
+    [
+      `Class ${card.class.name}`,
+      `${card.term.name} ${card.term.academicYear.name}`,
+      card.releaseDate ? `Released ${formatDay(card.releaseDate)}` : "Draft",
+    ].join("  |  "),
+    { size: 9, color: GRAY }
+  );
+  writer.gap(12);
+
+  // SUBJECTS
+
+  const headers = template.showCategories
+    ? ["Subject", "Teacher", "Exams", "Assignments", "Average", "Grade"]
+    : ["Subject", "Teacher", "Average", "Grade"];
+  const widths = template.showCategories
+    ? [0.26, 0.26, 0.13, 0.13, 0.12, 0.1]
+    : [0.35, 0.35, 0.15, 0.15];
+
+  writer.row(headers, widths, true);
+  summary.subjects.forEach((subject) =>
+    writer.row(
+      [
+        subject.subjectName,
+        subject.teacher ?? "-",
+        ...(template.showCategories
+          ? [
+              formatPercent(subject.examAverage),
+              formatPercent(subject.assignmentAverage),
+            ]
+          : []),
+        formatPercent(subject.average),
+        subject.letter ?? "-",
+      ],
+      widths
+    )
+  );
+  writer.gap(10);
+  writer.text(
+    `Overall: ${formatPercent(summary.average)} ${summary.letter ?? ""}`,
+    { bold: true }
+  );
+
+  if (template.showAttendance) {
+    const { present, total, percent } = summary.attendance;
+    writer.text(
+      total
+        ? `Attendance: ${formatPercent(percent)} (${present} of ${total} lessons)`
+        : "Attendance: no lessons recorded"
+    );
+  }
+
+  if (template.showRank && summary.rank) {
+    writer.text(`Class rank: ${summary.rank} of ${summary.rankedStudents}`);
+  }
+
+  // COMMENTS
+
+  if (card.comments.length || card.supervisorComment) {
+    writer.gap(12);
+    writer.text("Comments", { size: 12, bold: true });
+    card.comments
+      .sort((a, b) => a.subject.name.localeCompare(b.subject.name))
+      .forEach((comment) => {
+        writer.gap(4);
+        writer.text(
+          `${comment.subject.name} (${comment.teacher.name} ${comment.teacher.surname})`,
+          { size: 9, bold: true }
+        );
+        writer.text(comment.comment, { size: 9, indent: 8 });
+      });
+    if (card.supervisorComment) {
+      const supervisor = card.class.supervisor;
+      writer.gap(4);
+      writer.text(
+        supervisor
+          ? `Class supervisor (${supervisor.name} ${supervisor.surname})`
+          : "Class supervisor",
+        { size: 9, bold: true }
+      );
+      writer.text(card.supervisorComment, { size: 9, indent: 8 });
+    }
+  }
+
+  if (template.footer) {
+    writer.gap(24);
+    writer.text(template.footer, { size: 9, color: GRAY });
+  }
+};
+
+export const renderReportCards = async (
+  cards: ReportCardWithDetails[],
+  title: string
+) => {
+  const document = await PDFDocument.create();
+  document.setTitle(title);
+  const fonts = await embedFonts(document);
+
+  cards.forEach((card) => drawCard(document, fonts, card));
+  numberPages(document, fonts.regular);
+
+  return document.save();
+};
@@ -0,0 +1,204 @@
+import { Prisma, Term } from "@prisma/client";
+import { auditChanges } from "./audit";
+import { getClassGradebook } from "./gradebook";
+import prisma from "./prisma";
+import { toDateOnly } from "./utils";
+
+// REPORT CARDS
+// A card is generated per student and term from the gradebook, attendance and
+// the student's place in the class. The numbers are stored as they were at
+// generation so a released card doesn't change when results are edited later.
+
+export type ReportSubject = {
+  subjectId: number;
+  subjectName: string;
+  teacher: string | null;
+  examAverage: number | null;
+  assignmentAverage: number | null;
+  average: number | null;
+  letter: string | null;
+};
+
+export type ReportCardSummary = {
+  subjects: ReportSubject[];
+  average: number | null;
+  letter: string | null;
+  attendance: { present: number; total: number; percent: number | null };
+  rank: number | null;
+  rankedStudents: number;
+};
+
+export const reportCardInclude = {
+  student: { select: { name: true, surname: true } },
+  class: {
+    select: {
+      name: true,
+      supervisorId: true,
+      supervisor: { select: { name: true, surname: true } },
+    },
+  },
+  term: { include: { academicYear: { select: { name: true } } } },
+  template: true,
+  comments: {
+    include: {
+      subject: { select: { name: true } },
+      teacher: { select: { name: true, surname: true } },
+    },
+  },
+} satisfies Prisma.ReportCardInclude;
+
+export type ReportCardWithDetails = Prisma.ReportCardGetPayload<{
+  include: typeof reportCardInclude;
+}>;
+
+export const getSummary = (card: { summary: Prisma.JsonValue }) =>
+  card.summary as unknown as ReportCardSummary;
+
+// Released once the release date has come, before that only staff see it
+export const isReleased = (card: { releaseDate: Date | null }) =>
+  !!card.releaseDate && card.releaseDate <= toDateOnly(new Date());
+
+// Equal averages (to the shown precision) share a rank and the next one skips
+const rankByAverage = (students: { id: string; average: number | null }[]) => {
+  const ranked = students
+    .filter((student) => student.average !== null)
+    .map((student) => ({
+      id: student.id,
+      score: Math.round(student.average! * 10),
+    }))
+    .sort((a, b) => b.score - a.score);
+
+  const ranks = new Map<string, number>();
+  ranked.forEach((student, index) => {
+    const previous = ranked[index - 1];
+    ranks.set(
+      student.id,
+      previous?.score === student.score ? ranks.get(previous.id)! : index + 1
+    );
+  });
+  return ranks;
+};
+
+// The summary of every student currently in the class for the term. Subjects
+// taught in the class without results yet are listed without an average.
+export const getClassReportSummaries = async (classId: number, term: Term) => {
+  const [students, lessons] = await Promise.all([
+    getClassGradebook(classId, term.id),
+    prisma.lesson.findMany({
+      where: { classId },
+      select: {
+        subject: { select: { id: true, name: true } },
+        teacher: { select: { name: true, surname: true } },
+      },
+      distinct: ["subjectId"],
+    }),
+  ]);
+
+  const attendance = await prisma.attendance.groupBy({
+    by: ["studentId", "present"],
+    where: {
+      studentId: { in: students.map((student) => student.id) },
+      date: { gte: term.startDate, lte: term.endDate },
+    },
+    _count: true,
+  });
+
+  const ranks = rankByAverage(students);
+
+  return students.map((student) => {
+    const rows = attendance.filter((row) => row.studentId === student.id);
+    const present = rows.find((row) => row.present)?._count ?? 0;
+    const total = rows.reduce((sum, row) => sum + row._count, 0);
+
+    const taught = lessons.map(({ subject, teacher }) => ({
+      subjectId: subject.id,
+      subjectName: subject.name,
+      teacher: `${teacher.name} ${teacher.surname}`,
+    }));
+    // Results can also come from subjects no longer taught in the class
+    const subjectIds = new Set([
+      ...taught.map((subject) => subject.subjectId),
+      ...student.subjects.map((subject) => subject.subjectId),
+    ]);
+
+    const subjects: ReportSubject[] = Array.from(subjectIds)
+      .map((subjectId) => {
+        const average = student.subjects.find(
+          (subject) => subject.subjectId === subjectId
+        );
+        const lesson = taught.find((subject) => subject.subjectId === subjectId);
+        return {
+          subjectId,
+          subjectName: (average?.subjectName ?? lesson?.subjectName)!,
+          teacher: lesson?.teacher ?? null,
+          examAverage: average?.examAverage ?? null,
+          assignmentAverage: average?.assignmentAverage ?? null,
+          average: average?.average ?? null,
+          letter: average?.letter ?? null,
+        };
+      })
+      .sort((a, b) => a.subjectName.localeCompare(b.subjectName));
+
+    const summary: ReportCardSummary = {
+      subjects,
+      average: student.average,
+      letter: student.letter,
+      attendance: {
+        present,
+        total,
+        percent: total ? (present / total) * 100 : null,
+      },
+      rank: ranks.get(student.id) ?? null,
+      rankedStudents: ranks.size,
+    };
+
+    return { studentId: student.id, summary };
+  });
+};
+
+// Generates or refreshes the cards of a class for a term. Published cards are
+// left as they are; unpublish them first to regenerate.
+export const generateClassReportCards = async (
+  classId: number,
+  termId: number,
+  templateId: number
+) => {
+  const term = await prisma.term.findUniqueOrThrow({ where: { id: termId } });
+  const summaries = await getClassReportSummaries(classId, term);
+
+  const existing = await prisma.reportCard.findMany({
+    where: {
+      termId,
+      studentId: { in: summaries.map((item) => item.studentId) },
+    },
+  });
+  const published = new Set(
+    existing.filter((card) => card.releaseDate).map((card) => card.studentId)
+  );
+
+  const generatedAt = new Date();
+  const drafts = summaries.filter((item) => !published.has(item.studentId));
+
+  const saved = await prisma.$transaction(
+    drafts.map(({ studentId, summary }) => {
+      const data = {
+        summary: summary as unknown as Prisma.InputJsonValue,
+        generatedAt,
+        classId,
+        templateId,
+      };
+      return prisma.reportCard.upsert({
+        where: { studentId_termId: { studentId, termId } },
+        create: { ...data, studentId, termId },
+        update: data,
+      });
+    })
+  );
+  await auditChanges(
+    "ReportCard",
+    existing.filter((card) => !card.releaseDate),
+    saved
+  );
+
+  return { generated: drafts.length, skipped: published.size };
+};
@@ -0,0 +1,281 @@
+import { getGradeBands, LetterBand, toPercent } from "./gradebook";
+import {
+  getTestPoints,
+  getTestQuestions,
+  TestMarks,
+  TestQuestion,
+} from "./onlineTests";
+import prisma from "./prisma";
+
+// RESULT STATISTICS AND ITEM ANALYSIS
+// How a class did on one exam or assignment: the spread of its scores and the
+// share that passed, a pass being any grade above the lowest band of the
+// class's grade scale. For online tests each question is analysed too: its
+// difficulty is the share of its points students earned on average, its
+// discrimination how much better the top 27% of students did on it than the
+// bottom 27%. Very hard, very easy or poorly discriminating questions are
+// flagged, to be checked and fixed.
+
+export type AssessmentKind = "exam" | "assignment";
+
+export type ScoreSummary = {
+  count: number;
+  mean: number | null;
+  median: number | null;
+  standardDeviation: number | null;
+  passPercent: number;
+  passRate: number | null;
+};
+
+export type HistogramBin = { name: string; students: number };
+
+export type QuestionAnalysis = {
+  id: string;
+  question: string;
+  type: TestQuestion["type"];
+  points: number;
+  // Attempts with a mark for the question
+  marked: number;
+  difficulty: number | null;
+  discrimination: number | null;
+  flags: string[];
+};
+
+// Share of the students in each group of the discrimination index
+const GROUP_SHARE = 0.27;
+
+const HISTOGRAM_BINS = 10;
+
+const mean = (values: number[]) =>
+  values.length ? values.reduce((a, b) => a + b, 0) / values.length : null;
+
+const median = (values: number[]) => {
+  if (!values.length) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2
+    ? sorted[middle]
+    : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+// Of the whole class, not a sample of it
+const standardDeviation = (values: number[]) => {
+  const average = mean(values);
+  if (average === null) return null;
+  return Math.sqrt(mean(values.map((value) => (value - average) ** 2))!);
+};
+
+// The lowest band is the failing one, so passing starts at the next
+export const getPassPercent = (bands: LetterBand[]) => {
+  const sorted = [...bands].sort((a, b) => a.minPercent - b.minPercent);
+  return sorted[1]?.minPercent ?? sorted[0]?.minPercent ?? 0;
+};
+
+export const summarizeScores = (
+  scores: number[],
+  maxScore: number,
+  bands: LetterBand[]
+): ScoreSummary => {
+  const passPercent = getPassPercent(bands);
+  const passed = scores.filter(
+    (score) => toPercent(score, maxScore) >= passPercent
+  );
+  return {
+    count: scores.length,
+    mean: mean(scores),
+    median: median(scores),
+    standardDeviation: standardDeviation(scores),
+    passPercent,
+    passRate: scores.length ? (passed.length / scores.length) * 100 : null,
+  };
+};
+
+// Ten bins of ten percent, a full score in the top one
+export const getHistogram = (
+  scores: number[],
+  maxScore: number
+): HistogramBin[] =>
+  Array.from({ length: HISTOGRAM_BINS }, (_, bin) => {
+    const from = (bin * 100) / HISTOGRAM_BINS;
+    const to = ((bin + 1) * 100) / HISTOGRAM_BINS;
+    return {
+      name: `${from}–${to}%`,
+      students: scores.filter((score) => {
+        const percent = toPercent(score, maxScore);
+        return (
+          percent >= from &&
+          (percent < to || (bin === HISTOGRAM_BINS - 1 && percent <= to))
+        );
+      }).length,
+    };
+  });
+
+const getQuestionFlags = (
+  difficulty: number | null,
+  discrimination: number | null
+) => [
+  ...(difficulty !== null && difficulty < 0.2 ? ["Very hard"] : []),
+  ...(difficulty !== null && difficulty > 0.9 ? ["Very easy"] : []),
+  ...(discrimination !== null && discrimination < 0
+    ? ["Weaker students do better, check the answer key"]
+    : discrimination !== null && discrimination < 0.2
+    ? ["Barely tells strong and weak students apart"]
+    : []),
+];
+
+// Only fully marked attempts are analysed, so every total is final
+export const analyzeQuestions = (
+  questions: TestQuestion[],
+  attempts: { marks: TestMarks }[]
+): QuestionAnalysis[] => {
+  const ranked = attempts
+    .map(({ marks }) => ({ marks, points: getTestPoints(questions, marks) }))
+    .filter(({ points }) => !points.pending)
+    .sort((a, b) => b.points.earned - a.points.earned);
+
+  // Too few attempts to split into two distinct groups give no index
+  const groupSize = Math.floor(ranked.length * GROUP_SHARE);
+  const upper = groupSize ? ranked.slice(0, groupSize) : [];
+  const lower = groupSize ? ranked.slice(-groupSize) : [];
+
+  return questions.map((question) => {
+    const share = (group: typeof ranked) =>
+      mean(
+        group.map(({ marks }) =>
+          question.points ? (marks[question.id] ?? 0) / question.points : 0
+        )
+      );
+
+    const difficulty = share(ranked);
+    const upperShare = share(upper);
+    const lowerShare = share(lower);
+    const discrimination =
+      upperShare !== null && lowerShare !== null
+        ? upperShare - lowerShare
+        : null;
+
+    return {
+      id: question.id,
+      question: question.question,
+      type: question.type,
+      points: question.points,
+      marked: ranked.length,
+      difficulty,
+      discrimination,
+      flags: getQuestionFlags(difficulty, discrimination),
+    };
+  });
+};
+
+const assessmentInclude = {
+  results: { select: { score: true } },
+  lesson: {
+    select: {
+      subject: { select: { name: true } },
+      class: { select: { id: true, name: true } },
+    },
+  },
+};
+
+// Everything the statistics page shows for one exam or assignment
+export const getAssessmentStatistics = async (
+  kind: AssessmentKind,
+  id: number
+) => {
+  const assessment =
+    kind === "exam"
+      ? await prisma.exam.findUnique({
+          where: { id },
+          include: {
+            ...assessmentInclude,
+            aiContent: true,
+            attempts: {
+              where: { submittedAt: { not: null } },
+              select: { marks: true },
+            },
+          },
+        })
+      : await prisma.assignment.findUnique({
+          where: { id },
+          include: assessmentInclude,
+        });
+
+  if (!assessment) return null;
+
+  const classId = assessment.lesson.class.id;
+  const bands = (await getGradeBands([classId])).get(classId)!;
+  const scores = assessment.results.map((result) => result.score);
+
+  const questions =
+    "aiContent" in assessment && assessment.aiContent
+      ? analyzeQuestions(
+          getTestQuestions(assessment.aiContent),
+          assessment.attempts.map((attempt) => ({
+            marks: (attempt.marks ?? {}) as TestMarks,
+          }))
+        )
+      : null;
+
+  return {
+    title: assessment.title,
+    maxScore: assessment.maxScore,
+    subjectName: assessment.lesson.subject.name,
+    className: assessment.lesson.class.name,
+    contentId:
+      "aiContent" in assessment ? assessment.aiContent?.id ?? null : null,
+    contentCreatedBy:
+      "aiContent" in assessment
+        ? assessment.aiContent?.createdBy ?? null
+        : null,
+    summary: summarizeScores(scores, assessment.maxScore, bands),
+    histogram: getHistogram(scores, assessment.maxScore),
+    questions,
+  };
+};
+
+// The summary of every exam and assignment of a class, latest first
+export const getClassStatistics = async (
+  classId: number,
+  teacherId?: string
+) => {
+  const lesson = { classId, ...(teacherId ? { teacherId } : {}) };
+  const include = {
+    results: { select: { score: true } },
+    lesson: { select: { subject: { select: { name: true } } } },
+  };
+
+  const [exams, assignments, bands] = await Promise.all([
+    prisma.exam.findMany({ where: { lesson }, include }),
+    prisma.assignment.findMany({ where: { lesson }, include }),
+    getGradeBands([classId]),
+  ]);
+
+  const classBands = bands.get(classId)!;
+
+  return [
+    ...exams.map((exam) => ({
+      kind: "exam" as AssessmentKind,
+      date: exam.startTime,
+      ...exam,
+    })),
+    ...assignments.map((assignment) => ({
+      kind: "assignment" as AssessmentKind,
+      date: assignment.startDate,
+      ...assignment,
+    })),
+  ]
+    .sort((a, b) => b.date.getTime() - a.date.getTime())
+    .map((assessment) => ({
+      kind: assessment.kind,
+      id: assessment.id,
+      title: assessment.title,
+      date: assessment.date,
+      subjectName: assessment.lesson.subject.name,
+      maxScore: assessment.maxScore,
+      summary: summarizeScores(
+        assessment.results.map((result) => result.score),
+        assessment.maxScore,
+        classBands
+      ),
+    }));
+};
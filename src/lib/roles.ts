@@ -0,0 +1,35 @@
+import { createRouteMatcher } from "@clerk/nextjs/server";
+import { NextRequest } from "next/server";
+import { routeAccessMap } from "./settings";
+
+// USER ROLES
+// Each Clerk user carries their role in public metadata, which the session
+// token exposes as `metadata.role`. Middleware and server code both read it
+// from here, so routes and actions agree on who the caller is.
+
+export type Role = "admin" | "teacher" | "student" | "parent";
+
+export const ROLES: Role[] = ["admin", "teacher", "student", "parent"];
+
+export const getRoleFromClaims = (
+  sessionClaims: object | null | undefined
+): Role | undefined => {
+  const { metadata } = (sessionClaims ?? {}) as {
+    metadata?: { role?: string };
+  };
+  return ROLES.find((role) => role === metadata?.role);
+};
+
+export const routeMatchers = Object.keys(routeAccessMap).map((route) => ({
+  matcher: createRouteMatcher([route]),
+  allowedRoles: routeAccessMap[route],
+}));
+
+// Route handlers outside the middleware matcher ask here whether the role may
+// open a page, with the same rules middleware applies
+export const canAccessRoute = (path: string, role: Role | undefined) =>
+  routeMatchers.every(
+    ({ matcher, allowedRoles }) =>
+      !matcher(new NextRequest(new URL(path, "http://localhost"))) ||
+      allowedRoles.includes(role!)
+  );
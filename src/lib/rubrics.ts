@@ -0,0 +1,171 @@
+import {
+  Prisma,
+  Rubric,
+  RubricCriterion,
+  RubricLevel,
+  RubricScore,
+} from "@prisma/client";
+
+// RUBRICS
+// A rubric scores work criterion by criterion: the grader picks one level of
+// every criterion and the levels' points add up, out of the best level of
+// each. Assignments are graded against their rubric, and the short answer and
+// essay questions of an online test against the rubric attached to the
+// question. The AI may suggest a level per criterion with its reasons, but
+// nothing reaches a Result until the teacher confirms the levels.
+
+// A rubric as written, before it's saved, e.g. one the exam generator drafts
+export type RubricDefinition = {
+  title: string;
+  description?: string;
+  criteria: {
+    title: string;
+    description?: string;
+    levels: { title: string; description?: string; points: number }[];
+  }[];
+};
+
+export type RubricWithLevels = Rubric & {
+  criteria: (RubricCriterion & { levels: RubricLevel[] })[];
+};
+
+// The work a rubric score belongs to
+export type RubricTarget =
+  | { submissionId: number }
+  | { attemptId: number; questionId: string };
+
+// Chosen level id by criterion id
+export type RubricSelection = Record<string, number>;
+
+export const rubricInclude = {
+  criteria: {
+    orderBy: { position: "asc" },
+    include: { levels: { orderBy: { points: "desc" } } },
+  },
+} satisfies Prisma.RubricInclude;
+
+export const getRubricMaxPoints = (rubric: RubricWithLevels) =>
+  rubric.criteria.reduce(
+    (sum, criterion) =>
+      sum + Math.max(0, ...criterion.levels.map((level) => level.points)),
+    0
+  );
+
+// One level of every criterion, or null when a criterion has none chosen or
+// the chosen level belongs to another criterion
+export const getChosenLevels = (
+  rubric: RubricWithLevels,
+  selection: RubricSelection
+) => {
+  const levels = rubric.criteria.map((criterion) =>
+    criterion.levels.find((level) => level.id === selection[criterion.id])
+  );
+  return levels.every(Boolean) ? (levels as RubricLevel[]) : null;
+};
+
+export const getRubricPoints = (levels: Pick<RubricLevel, "points">[]) =>
+  levels.reduce((sum, level) => sum + level.points, 0);
+
+// The teacher's levels where they graded, else the AI's suggestions
+export const getInitialSelection = (
+  scores: Pick<RubricScore, "criterionId" | "levelId" | "suggestedLevelId">[]
+): RubricSelection =>
+  Object.fromEntries(
+    scores.flatMap((score) => {
+      const levelId = score.levelId ?? score.suggestedLevelId;
+      return levelId ? [[score.criterionId, levelId]] : [];
+    })
+  );
+
+export const rubricScoreWhere = (
+  target: RubricTarget
+): Prisma.RubricScoreWhereInput =>
+  "submissionId" in target
+    ? { submissionId: target.submissionId }
+    : { attemptId: target.attemptId, questionId: target.questionId };
+
+// Writes one score per criterion of the target, keeping the scores' other
+// fields: confirmed levels keep the AI's reasons, new suggestions the grade
+export const saveRubricScores = async (
+  tx: Prisma.TransactionClient,
+  target: RubricTarget,
+  scores: ({ criterionId: number } & Prisma.RubricScoreUncheckedUpdateInput)[]
+) => {
+  const existing = await tx.rubricScore.findMany({
+    where: rubricScoreWhere(target),
+  });
+
+  const saved: RubricScore[] = [];
+  for (const { criterionId, ...data } of scores) {
+    const score = existing.find((item) => item.criterionId === criterionId);
+    saved.push(
+      score
+        ? await tx.rubricScore.update({ where: { id: score.id }, data })
+        : await tx.rubricScore.create({
+            data: {
+              ...(data as Prisma.RubricScoreUncheckedCreateInput),
+              ...target,
+              criterionId,
+            },
+          })
+    );
+  }
+  return {
+    before: existing.filter((score) =>
+      saved.some((item) => item.id === score.id)
+    ),
+    after: saved,
+  };
+};
+
+// Generated content is model output, so a rubric in it is checked field by
+// field before it's saved
+export const parseRubricDefinition = (
+  raw: any,
+  fallbackTitle: string
+): RubricDefinition | null => {
+  const criteria: RubricDefinition["criteria"] = (
+    Array.isArray(raw?.criteria) ? raw.criteria : []
+  ).flatMap((criterion: any) => {
+    if (typeof criterion?.title !== "string" || !criterion.title.trim()) {
+      return [];
+    }
+    const levels = (Array.isArray(criterion.levels) ? criterion.levels : [])
+      .filter(
+        (level: any) =>
+          typeof level?.title === "string" &&
+          Number.isInteger(Number(level.points)) &&
+          Number(level.points) >= 0
+      )
+      .map((level: any) => ({
+        title: level.title,
+        description:
+          typeof level.description === "string" ? level.description : "",
+        points: Number(level.points),
+      }));
+    return levels.length
+      ? [
+          {
+            title: criterion.title,
+            description:
+              typeof criterion.description === "string"
+                ? criterion.description
+                : "",
+            levels,
+          },
+        ]
+      : [];
+  });
+
+  return criteria.length
+    ? {
+        title:
+          typeof raw?.title === "string" && raw.title.trim()
+            ? raw.title
+            : fallbackTitle,
+        description:
+          typeof raw?.description === "string" ? raw.description : "",
+        criteria,
+      }
+    : null;
+};
@@ -0,0 +1,303 @@
+import { Prisma } from "@prisma/client";
+import prisma from "./prisma";
+import { lessonDays, toDateOnly } from "./utils";
+
+// LESSON OCCURRENCES
+// A lesson takes place every week on its day, during the terms of its class's
+// academic year and within its validFrom/validUntil bounds, except on holidays.
+// A LessonException can cancel one occurrence, hand it to a substitute or move
+// it to another room. Lessons of an absent teacher without a cover are flagged.
+// Exams show on the calendar of their lesson's class and teacher.
+
+export type CalendarEvent = {
+  title: string;
+  start: Date;
+  end: Date;
+  allDay?: boolean;
+  kind: "lesson" | "cancelled" | "changed" | "holiday" | "exam";
+  lessonId?: number;
+};
+
+export type CalendarFilter = { teacherId: string } | { classId: number };
+
+const lessonInclude = (from: Date, to: Date) =>
+  ({
+    class: {
+      select: {
+        name: true,
+        academicYear: {
+          select: {
+            startDate: true,
+            endDate: true,
+            terms: { select: { startDate: true, endDate: true } },
+          },
+        },
+      },
+    },
+    room: { select: { name: true } },
+    exceptions: {
+      where: { date: { gte: from, lte: to } },
+      include: {
+        substituteTeacher: { select: { name: true, surname: true } },
+        room: { select: { name: true } },
+      },
+    },
+  }) satisfies Prisma.LessonInclude;
+
+type ScheduledLesson = Prisma.LessonGetPayload<{
+  include: ReturnType<typeof lessonInclude>;
+}>;
+
+type DateRange = { startDate: Date; endDate: Date };
+
+const within = (date: Date, range: DateRange) =>
+  date >= range.startDate && date <= range.endDate;
+
+const isInSession = (lesson: ScheduledLesson, date: Date) => {
+  const { academicYear } = lesson.class;
+  const inYear = academicYear.terms.length
+    ? academicYear.terms.some((term) => within(date, term))
+    : within(date, academicYear);
+
+  return (
+    inYear &&
+    (!lesson.validFrom || date >= toDateOnly(lesson.validFrom)) &&
+    (!lesson.validUntil || date <= toDateOnly(lesson.validUntil))
+  );
+};
+
+// Local calendar days from start to end, inclusive
+const eachDay = (start: Date, end: Date) => {
+  const days: Date[] = [];
+  const day = new Date(start.getFullYear(), start.getMonth(), start.getDate());
+  while (day <= end) {
+    days.push(new Date(day));
+    day.setDate(day.getDate() + 1);
+  }
+  return days;
+};
+
+// Occurrences are keyed like attendance, by the local day at midnight UTC
+export const toDateKey = (day: Date) =>
+  new Date(Date.UTC(day.getFullYear(), day.getMonth(), day.getDate()));
+
+const atTimeOf = (day: Date, time: Date) =>
+  new Date(
+    day.getFullYear(),
+    day.getMonth(),
+    day.getDate(),
+    time.getHours(),
+    time.getMinutes()
+  );
+
+export type LessonOccurrence = {
+  lesson: ScheduledLesson;
+  // Day of the occurrence, midnight UTC
+  date: Date;
+  start: Date;
+  end: Date;
+  exception?: ScheduledLesson["exceptions"][number];
+};
+
+type Absence = DateRange & { teacherId: string };
+
+export const listOccurrences = (
+  lessons: ScheduledLesson[],
+  holidays: DateRange[],
+  start: Date,
+  end: Date
+): LessonOccurrence[] =>
+  eachDay(start, end).flatMap((day) => {
+    const date = toDateKey(day);
+    const weekday = lessonDays[day.getDay() - 1];
+
+    if (!weekday || holidays.some((holiday) => within(date, holiday))) {
+      return [];
+    }
+
+    return lessons
+      .filter((lesson) => lesson.day === weekday && isInSession(lesson, date))
+      .map((lesson) => ({
+        lesson,
+        date,
+        start: atTimeOf(day, lesson.startTime),
+        end: atTimeOf(day, lesson.endTime),
+        exception: lesson.exceptions.find(
+          (item) => item.date.getTime() === date.getTime()
+        ),
+      }));
+  });
+
+// Titles are written for whoever's calendar it is: a teacher sees which of
+// their lessons someone else covers and which lessons they cover
+export const toCalendarEvents = (
+  occurrences: LessonOccurrence[],
+  absences: Absence[],
+  teacherId?: string
+): CalendarEvent[] =>
+  occurrences.flatMap(({ lesson, date, start, end, exception }) => {
+    const substitute = exception?.substituteTeacher;
+    const isOwn = !teacherId || lesson.teacherId === teacherId;
+
+    // Someone else's lesson only shows on the calendar of its substitute
+    if (!isOwn && exception?.substituteTeacherId !== teacherId) return [];
+
+    const isUncovered =
+      !exception?.cancelled &&
+      !substitute &&
+      absences.some(
+        (absence) =>
+          absence.teacherId === lesson.teacherId && within(date, absence)
+      );
+
+    const notes: string[] = [];
+    if (exception?.cancelled) {
+      notes.push("cancelled");
+    } else if (substitute) {
+      notes.push(
+        !teacherId
+          ? `cover: ${substitute.name} ${substitute.surname}`
+          : isOwn && exception?.substituteTeacherId !== teacherId
+          ? `covered by ${substitute.name} ${substitute.surname}`
+          : `cover for ${lesson.class.name}`
+      );
+    } else if (isUncovered) {
+      notes.push("teacher absent");
+    }
+    const room = exception?.room ?? lesson.room;
+    if (room && !exception?.cancelled) {
+      notes.push(exception?.room ? `moved to ${room.name}` : room.name);
+    }
+
+    return [
+      {
+        title: notes.length
+          ? `${lesson.name} (${notes.join(", ")})`
+          : lesson.name,
+        start,
+        end,
+        kind: exception?.cancelled
+          ? "cancelled"
+          : exception || isUncovered
+          ? "changed"
+          : "lesson",
+        lessonId: lesson.id,
+      },
+    ];
+  });
+
+// Lessons matching `where` with their changes, holidays and teacher absences in the range
+export const loadSchedule = async (
+  where: Prisma.LessonWhereInput,
+  start: Date,
+  end: Date
+) => {
+  const from = toDateKey(start);
+  const to = toDateKey(end);
+
+  const [lessons, holidays, absences] = await Promise.all([
+    prisma.lesson.findMany({ where, include: lessonInclude(from, to) }),
+    prisma.holiday.findMany({
+      where: { startDate: { lte: to }, endDate: { gte: from } },
+    }),
+    prisma.teacherAbsence.findMany({
+      where: { startDate: { lte: to }, endDate: { gte: from } },
+    }),
+  ]);
+
+  return {
+    occurrences: listOccurrences(lessons, holidays, start, end),
+    holidays,
+    absences,
+  };
+};
+
+export const getCalendarEvents = async (
+  filter: CalendarFilter,
+  start: Date,
+  end: Date
+): Promise<CalendarEvent[]> => {
+  const from = toDateKey(start);
+  const to = toDateKey(end);
+
+  const [{ occurrences, holidays, absences }, exams] = await Promise.all([
+    loadSchedule(
+      "teacherId" in filter
+        ? {
+            OR: [
+              { teacherId: filter.teacherId },
+              {
+                exceptions: {
+                  some: {
+                    substituteTeacherId: filter.teacherId,
+                    date: { gte: from, lte: to },
+                  },
+                },
+              },
+            ],
+          }
+        : { classId: filter.classId },
+      start,
+      end
+    ),
+    prisma.exam.findMany({
+      where: {
+        lesson:
+          "teacherId" in filter
+            ? { teacherId: filter.teacherId }
+            : { classId: filter.classId },
+        startTime: { lt: end },
+        endTime: { gt: start },
+      },
+      include: { lesson: { select: { subject: { select: { name: true } } } } },
+    }),
+  ]);
+
+  const holidayEvents: CalendarEvent[] = holidays.map((holiday) => ({
+    title: holiday.name,
+    start: new Date(
+      holiday.startDate.getUTCFullYear(),
+      holiday.startDate.getUTCMonth(),
+      holiday.startDate.getUTCDate()
+    ),
+    end: new Date(
+      holiday.endDate.getUTCFullYear(),
+      holiday.endDate.getUTCMonth(),
+      holiday.endDate.getUTCDate() + 1
+    ),
+    allDay: true,
+    kind: "holiday",
+  }));
+
+  const examEvents: CalendarEvent[] = exams.map((exam) => ({
+    title: `Exam: ${exam.lesson.subject.name} · ${exam.title}`,
+    start: exam.startTime,
+    end: exam.endTime,
+    kind: "exam",
+    lessonId: exam.lessonId,
+  }));
+
+  return [
+    ...holidayEvents,
+    ...examEvents,
+    ...toCalendarEvents(
+      occurrences,
+      absences,
+      "teacherId" in filter ? filter.teacherId : undefined
+    ),
+  ];
+};
+
+// Whether the lesson runs at all on the date (midnight UTC), used by the register
+export const isLessonCancelled = async (lessonId: number, date: Date) => {
+  const [exception, holiday] = await Promise.all([
+    prisma.lessonException.findUnique({
+      where: { lessonId_date: { lessonId, date } },
+    }),
+    prisma.holiday.findFirst({
+      where: { startDate: { lte: date }, endDate: { gte: date } },
+    }),
+  ]);
+
+  return !!exception?.cancelled || !!holiday;
+};
@@ -15,13 +15,103 @@ export const routeAccessMap: RouteAccessMap = {
   "/list/subjects": ["admin"],
   "/list/classes": ["admin", "teacher"],
   "/list/exams": ["admin", "teacher", "student", "parent"],
+  // Taking an exam online
+  "/list/exams/(.*)/test": ["student"],
+  // Marking the short answers and essays of an online test
+  "/list/exams/(.*)/marking": ["admin", "teacher"],
   "/list/assignments": ["admin", "teacher", "student", "parent"],
+  // Handing in one assignment
+  "/list/assignments/(.*)": ["student"],
+  "/list/submissions(.*)": ["admin", "teacher"],
+  "/list/rubrics": ["admin", "teacher"],
   "/list/results": ["admin", "teacher", "student", "parent"],
+  "/list/results/statistics(.*)": ["admin", "teacher"],
+  "/list/gradebook": ["admin", "teacher"],
+  "/list/grade-scales": ["admin"],
+  "/list/academic-years(.*)": ["admin"],
+  "/list/timetable(.*)": ["admin"],
+  "/list/periods": ["admin"],
+  "/list/rooms": ["admin"],
+  "/list/lesson-changes": ["admin", "teacher"],
+  "/list/holidays": ["admin"],
+  "/list/absences(.*)": ["admin"],
+  "/list/imports(.*)": ["admin"],
+  "/list/audit-log(.*)": ["admin"],
+  "/list/trash": ["admin"],
+  "/list/fees": ["admin"],
+  "/list/discounts": ["admin"],
+  "/list/expenses": ["admin"],
+  // Parents see the invoices billed to them
+  "/list/invoices(.*)": ["admin", "parent"],
+  "/list/report-cards": ["admin", "teacher"],
+  // Single cards and PDFs, the policy decides whose
+  "/list/report-cards/(.*)": ["admin", "teacher", "student", "parent"],
+  "/list/attendance/register": ["admin", "teacher"],
   "/list/attendance": ["admin", "teacher", "student", "parent"],
   "/list/events": ["admin", "teacher", "student", "parent"],
   "/list/announcements": ["admin", "teacher", "student", "parent"],
+  "/list/notifications": ["admin", "teacher", "student", "parent"],
   // AI Playground routes
   "/teacher/playground(.*)": ["teacher", "admin"],
   "/student/playground(.*)": ["student"],
   "/admin/playground(.*)": ["admin"],
-};
\ No newline at end of file
+  "/parent/playground(.*)": ["parent"],
+};
+
+// AI PLAYGROUND MODEL PROVIDERS
+// provider: "openai" | "local" (any OpenAI-compatible server) | "fake" (deterministic, offline)
+
+export const AI_SETTINGS = {
+  provider: process.env.AI_PROVIDER || "openai",
+  baseUrl: process.env.AI_BASE_URL || "http://localhost:11434/v1",
+  apiKey: process.env.OPENAI_API_KEY,
+  chatModel: process.env.AI_MODEL || "gpt-4o",
+  fastChatModel: process.env.AI_FAST_MODEL || "gpt-4o-mini",
+  embeddingModel: process.env.AI_EMBEDDING_MODEL || "text-embedding-3-small",
+  // Size of the embedding model's vectors. The AIDocumentChunk column takes
+  // any size, but its HNSW index is built for one, 1536 in the migration.
+  // After changing it run `npm run ai:reembed`, which re-embeds the library
+  // and rebuilds the index for the new size
+  embeddingDimensions: Number(process.env.AI_EMBEDDING_DIMENSIONS || 1536),
+};
+
+// FINANCE
+
+// Fees, invoices, payments and expenses are all in this currency
+export const CURRENCY = process.env.NEXT_PUBLIC_CURRENCY || "USD";
+
+// NOTIFICATIONS
+
+// Notification emails go out through this SMTP server. For local testing run
+// the Mailpit stand-in from docker-compose.yml and open its inbox at
+// http://localhost:8025. Without a host no email is sent.
+export const EMAIL_SETTINGS = {
+  host: process.env.SMTP_HOST,
+  port: Number(process.env.SMTP_PORT || 1025),
+  // TLS from the start, as on port 465. Otherwise the connection is upgraded
+  // with STARTTLS, which is required before a user logs in
+  secure: process.env.SMTP_SECURE === "true",
+  user: process.env.SMTP_USER,
+  password: process.env.SMTP_PASSWORD,
+  from: process.env.EMAIL_FROM || "School <no-reply@school.local>",
+  heloName: process.env.SMTP_HELO_NAME || "localhost",
+  // Links in emails point here
+  appUrl: process.env.APP_URL || "http://localhost:3000",
+};
+
+// GRADEBOOK DEFAULTS
+
+// Used when a class has no grade scale and none is marked default
+export const DEFAULT_GRADE_BANDS = [
+  { letter: "A", minPercent: 90 },
+  { letter: "B", minPercent: 80 },
+  { letter: "C", minPercent: 70 },
+  { letter: "D", minPercent: 60 },
+  { letter: "F", minPercent: 0 },
+];
+
+// Used for class/subject pairs without a GradeWeight row
+export const DEFAULT_CATEGORY_WEIGHTS = {
+  examWeight: 60,
+  assignmentWeight: 40,
+};
@@ -0,0 +1,59 @@
+import { Assignment, Submission } from "@prisma/client";
+
+// SUBMISSIONS
+// Students hand an assignment in from its start date, as text, files or both.
+// After the due date it's only taken when the assignment allows late work,
+// and is flagged late. Handing in again replaces what was sent and uses up an
+// attempt. Once graded, a submission is final.
+
+export type SubmissionStatus =
+  | "PENDING"
+  | "MISSING"
+  | "SUBMITTED"
+  | "LATE"
+  | "GRADED";
+
+type Rules = Pick<
+  Assignment,
+  "startDate" | "dueDate" | "maxAttempts" | "allowLate"
+>;
+
+type Handed = Pick<Submission, "attempt" | "submittedAt" | "gradedAt">;
+
+// Late is measured against the due date as it is now, so moving the due date
+// moves the flag
+export const isLate = (
+  submission: Pick<Submission, "submittedAt">,
+  assignment: Pick<Assignment, "dueDate">
+) => submission.submittedAt > assignment.dueDate;
+
+export const getSubmissionStatus = (
+  assignment: Pick<Assignment, "dueDate">,
+  submission: Handed | null,
+  now = new Date()
+): SubmissionStatus => {
+  if (!submission) return now > assignment.dueDate ? "MISSING" : "PENDING";
+  if (submission.gradedAt) return "GRADED";
+  return isLate(submission, assignment) ? "LATE" : "SUBMITTED";
+};
+
+// Why the student can't hand the assignment in right now, or null if they can
+export const getSubmissionBlocker = (
+  assignment: Rules,
+  submission: Handed | null,
+  now = new Date()
+) => {
+  if (now < assignment.startDate) {
+    return "This assignment isn't open yet";
+  }
+  if (submission?.gradedAt) {
+    return "This assignment has already been graded";
+  }
+  if (submission && submission.attempt >= assignment.maxAttempts) {
+    return "There are no attempts left";
+  }
+  if (now > assignment.dueDate && !assignment.allowLate) {
+    return "The due date has passed";
+  }
+  return null;
+};
@@ -0,0 +1,201 @@
+import prisma from "./prisma";
+import { LessonOccurrence, loadSchedule } from "./schedule";
+import { toMinutes } from "./utils";
+
+// SUBSTITUTE TEACHERS
+// A teacher's absence leaves each of their lessons in it to be covered or
+// cancelled. Candidates must be qualified in the lesson's subject and free:
+// not teaching or covering another lesson at that time, not absent themselves
+// and not marked unavailable for an overlapping period.
+
+export type SubstituteSuggestion = {
+  teacherId: string;
+  name: string;
+  surname: string;
+  teachesClass: boolean;
+  coversThisWeek: number;
+  lessonsThatDay: number;
+};
+
+export type CoverNeed = LessonOccurrence & {
+  suggestions: SubstituteSuggestion[];
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Monday of the week of a date key, as a date key
+const weekOf = (date: Date) =>
+  new Date(date.getTime() - ((date.getUTCDay() + 6) % 7) * DAY_MS).getTime();
+
+// Local calendar day of a date key
+const toLocalDay = (date: Date) =>
+  new Date(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+
+const overlapsOccurrence = (a: LessonOccurrence, b: LessonOccurrence) =>
+  a.start < b.end && b.start < a.end;
+
+// Who actually teaches an occurrence, nobody when it is cancelled
+const taughtBy = (occurrence: LessonOccurrence) =>
+  occurrence.exception?.cancelled
+    ? null
+    : occurrence.exception?.substituteTeacherId ?? occurrence.lesson.teacherId;
+
+// Ranks every qualified and free teacher for each occurrence: teachers who
+// already know the class first, then whoever has covered least that week,
+// then whoever teaches least that day
+const rankSubstitutes = async (
+  needs: LessonOccurrence[],
+  start: Date,
+  end: Date
+): Promise<Map<LessonOccurrence, SubstituteSuggestion[]>> => {
+  const ranked = new Map<LessonOccurrence, SubstituteSuggestion[]>();
+  if (!needs.length) return ranked;
+
+  // Whole weeks, so covers can be counted per week
+  const from = new Date(
+    start.getFullYear(),
+    start.getMonth(),
+    start.getDate() - ((start.getDay() + 6) % 7)
+  );
+  const to = new Date(
+    end.getFullYear(),
+    end.getMonth(),
+    end.getDate() + ((7 - end.getDay()) % 7)
+  );
+
+  const [{ occurrences, absences }, teachers] = await Promise.all([
+    loadSchedule({}, from, to),
+    prisma.teacher.findMany({
+      where: { deletedAt: null },
+      select: {
+        id: true,
+        name: true,
+        surname: true,
+        subjects: { select: { id: true } },
+        classes: { select: { id: true } },
+        lessons: { select: { classId: true }, distinct: ["classId"] },
+        unavailability: {
+          select: {
+            day: true,
+            period: { select: { startTime: true, endTime: true } },
+          },
+        },
+      },
+      orderBy: [{ surname: "asc" }, { name: "asc" }],
+    }),
+  ]);
+
+  for (const need of needs) {
+    const { lesson, date } = need;
+    const sameDay = occurrences.filter(
+      (occurrence) => occurrence.date.getTime() === date.getTime()
+    );
+    const startMinutes = need.start.getHours() * 60 + need.start.getMinutes();
+    const endMinutes = need.end.getHours() * 60 + need.end.getMinutes();
+
+    const suggestions = teachers
+      .filter(
+        (teacher) =>
+          teacher.id !== lesson.teacherId &&
+          teacher.subjects.some((subject) => subject.id === lesson.subjectId)
+      )
+      .filter(
+        (teacher) =>
+          !absences.some(
+            (absence) =>
+              absence.teacherId === teacher.id &&
+              date >= absence.startDate &&
+              date <= absence.endDate
+          ) &&
+          !teacher.unavailability.some(
+            (slot) =>
+              slot.day === lesson.day &&
+              toMinutes(slot.period.startTime) < endMinutes &&
+              startMinutes < toMinutes(slot.period.endTime)
+          ) &&
+          !sameDay.some(
+            (occurrence) =>
+              occurrence.lesson.id !== lesson.id &&
+              taughtBy(occurrence) === teacher.id &&
+              overlapsOccurrence(occurrence, need)
+          )
+      )
+      .map((teacher) => ({
+        teacherId: teacher.id,
+        name: teacher.name,
+        surname: teacher.surname,
+        teachesClass:
+          teacher.classes.some((item) => item.id === lesson.classId) ||
+          teacher.lessons.some((item) => item.classId === lesson.classId),
+        coversThisWeek: occurrences.filter(
+          (occurrence) =>
+            occurrence.exception?.substituteTeacherId === teacher.id &&
+            !occurrence.exception.cancelled &&
+            occurrence.lesson.id !== lesson.id &&
+            weekOf(occurrence.date) === weekOf(date)
+        ).length,
+        lessonsThatDay: sameDay.filter(
+          (occurrence) => taughtBy(occurrence) === teacher.id
+        ).length,
+      }))
+      .sort(
+        (a, b) =>
+          Number(b.teachesClass) - Number(a.teachesClass) ||
+          a.coversThisWeek - b.coversThisWeek ||
+          a.lessonsThatDay - b.lessonsThatDay
+      );
+
+    ranked.set(need, suggestions);
+  }
+
+  return ranked;
+};
+
+// Every lesson the absent teacher would have taught, with its current cover
+// and the ranked substitutes
+export const getAbsenceCover = async (absenceId: number) => {
+  const absence = await prisma.teacherAbsence.findUnique({
+    where: { id: absenceId },
+    include: { teacher: { select: { name: true, surname: true } } },
+  });
+
+  if (!absence) return null;
+
+  const start = toLocalDay(absence.startDate);
+  const end = toLocalDay(absence.endDate);
+
+  const { occurrences } = await loadSchedule(
+    { teacherId: absence.teacherId },
+    start,
+    end
+  );
+  const suggestions = await rankSubstitutes(occurrences, start, end);
+
+  const needs: CoverNeed[] = occurrences
+    .sort((a, b) => a.start.getTime() - b.start.getTime())
+    .map((occurrence) => ({
+      ...occurrence,
+      suggestions: suggestions.get(occurrence) ?? [],
+    }));
+
+  return { absence, needs };
+};
+
+// Whether the teacher may cover the lesson on the date (midnight UTC)
+export const canSubstitute = async (
+  lessonId: number,
+  date: Date,
+  teacherId: string
+) => {
+  const day = toLocalDay(date);
+  const { occurrences } = await loadSchedule({ id: lessonId }, day, day);
+  const need = occurrences[0];
+
+  // No occurrence when the date is not the lesson's day or out of session
+  if (!need) return false;
+
+  const suggestions = await rankSubstitutes([need], day, day);
+  return !!suggestions
+    .get(need)
+    ?.some((suggestion) => suggestion.teacherId === teacherId);
+};
@@ -0,0 +1,257 @@
+import { Day, Prisma } from "@prisma/client";
+import prisma from "./prisma";
+import { SolverInput } from "./timetableSolver";
+import { runningLessons } from "./trash";
+import { getPeriodTimes, toDateOnly } from "./utils";
+
+// TIMETABLE CLASH DETECTION
+// Lessons repeat weekly, so only the day and the time of day matter.
+
+export type LessonSlot = {
+  id?: number;
+  day: Day;
+  startTime: Date;
+  endTime: Date;
+  teacherId: string;
+  classId: number;
+  roomId?: number | null;
+  // The dates the lesson runs between, from today and open-ended by default
+  validFrom?: Date | null;
+  validUntil?: Date | null;
+};
+
+export type LessonClash = {
+  kind: "teacher" | "class" | "room";
+  lessonId: number;
+  lessonName: string;
+  className: string;
+  teacherName: string;
+  roomName: string | null;
+  startTime: Date;
+  endTime: Date;
+};
+
+export const minutesOfDay = (date: Date) =>
+  date.getHours() * 60 + date.getMinutes();
+
+export const overlaps = (
+  a: { startTime: Date; endTime: Date },
+  b: { startTime: Date; endTime: Date }
+) =>
+  minutesOfDay(a.startTime) < minutesOfDay(b.endTime) &&
+  minutesOfDay(b.startTime) < minutesOfDay(a.endTime);
+
+// Other lessons of the same academic year that share the slot's teacher, class
+// or room while both run. Lessons that have ended leave their slot free.
+export const findLessonClashes = async (
+  slot: LessonSlot
+): Promise<LessonClash[]> => {
+  const classItem = await prisma.class.findUnique({
+    where: { id: slot.classId },
+    select: { academicYearId: true },
+  });
+
+  if (!classItem) return [];
+
+  const candidates = await prisma.lesson.findMany({
+    where: {
+      day: slot.day,
+      ...(slot.id ? { id: { not: slot.id } } : {}),
+      class: { academicYearId: classItem.academicYearId },
+      OR: [
+        { teacherId: slot.teacherId },
+        { classId: slot.classId },
+        ...(slot.roomId ? [{ roomId: slot.roomId }] : []),
+      ],
+      AND: [
+        {
+          OR: [
+            { validUntil: null },
+            { validUntil: { gte: slot.validFrom ?? toDateOnly(new Date()) } },
+          ],
+        },
+        ...(slot.validUntil
+          ? [
+              {
+                OR: [
+                  { validFrom: null },
+                  { validFrom: { lte: slot.validUntil } },
+                ],
+              },
+            ]
+          : []),
+      ],
+    },
+    include: {
+      class: { select: { name: true } },
+      teacher: { select: { name: true, surname: true } },
+      room: { select: { name: true } },
+    },
+  });
+
+  return candidates
+    .filter((lesson) => overlaps(lesson, slot))
+    .flatMap((lesson) => {
+      const kinds: LessonClash["kind"][] = [];
+      if (lesson.teacherId === slot.teacherId) kinds.push("teacher");
+      if (lesson.classId === slot.classId) kinds.push("class");
+      if (slot.roomId && lesson.roomId === slot.roomId) kinds.push("room");
+
+      return kinds.map((kind) => ({
+        kind,
+        lessonId: lesson.id,
+        lessonName: lesson.name,
+        className: lesson.class.name,
+        teacherName: lesson.teacher.name + " " + lesson.teacher.surname,
+        roomName: lesson.room?.name ?? null,
+        startTime: lesson.startTime,
+        endTime: lesson.endTime,
+      }));
+    });
+};
+
+// TIMETABLE GENERATION INPUT AND COMMIT
+
+const days: Day[] = ["MONDAY", "TUESDAY", "WEDNESDAY", "THURSDAY", "FRIDAY"];
+
+// Running lessons of classes outside the run stay where they are and block
+// their slots
+export const getSolverInput = async (classIds: number[]): Promise<SolverInput> => {
+  const [periods, hours, teachers, rooms, unavailable, fixedLessons] =
+    await Promise.all([
+      prisma.period.findMany({ orderBy: { startTime: "asc" } }),
+      prisma.classSubjectHours.findMany({ where: { classId: { in: classIds } } }),
+      prisma.teacher.findMany({
+        where: { deletedAt: null },
+        select: { id: true, subjects: { select: { id: true } } },
+      }),
+      prisma.room.findMany({ select: { id: true }, orderBy: { name: "asc" } }),
+      prisma.teacherUnavailability.findMany(),
+      prisma.lesson.findMany({
+        where: {
+          classId: { notIn: classIds },
+          class: { academicYear: { isCurrent: true } },
+          ...runningLessons(),
+        },
+      }),
+    ]);
+
+  const busy = fixedLessons.flatMap((lesson) =>
+    periods
+      .filter((period) =>
+        lesson.periodId
+          ? lesson.periodId === period.id
+          : overlaps(lesson, getPeriodTimes(lesson.day, period))
+      )
+      .map((period) => ({
+        teacherId: lesson.teacherId,
+        roomId: lesson.roomId,
+        day: lesson.day,
+        periodId: period.id,
+      }))
+  );
+
+  return {
+    days,
+    periodIds: periods.map((period) => period.id),
+    requirements: hours.map((item) => ({
+      classId: item.classId,
+      subjectId: item.subjectId,
+      hours: item.hoursPerWeek,
+    })),
+    teachers: teachers.map((teacher) => ({
+      id: teacher.id,
+      subjectIds: teacher.subjects.map((subject) => subject.id),
+    })),
+    roomIds: rooms.map((room) => room.id),
+    unavailable,
+    busy,
+  };
+};
+
+export type DraftCommitPlan = {
+  update: { lessonId: number; draftLessonId: number }[];
+  // Lessons with history whose slot changes end, and a new lesson takes the
+  // draft slot, so their records stay with the day and teacher they were for
+  replace: { lessonId: number; draftLessonId: number }[];
+  create: number[];
+  remove: number[];
+  // Lessons with exams, assignments or attendance can't be removed
+  blocked: { lessonId: number; name: string }[];
+};
+
+// Existing lessons are moved onto draft slots of the same class and subject
+// where possible. Lessons with exams, assignments or attendance only move when
+// their slot stays the same; otherwise they end and a new lesson starts.
+export const planDraftCommit = async (
+  draftId: number,
+  tx: Prisma.TransactionClient = prisma
+): Promise<DraftCommitPlan | null> => {
+  const draft = await tx.timetableDraft.findUnique({
+    where: { id: draftId },
+    include: { lessons: true, classes: { select: { id: true } } },
+  });
+
+  if (!draft || draft.committedAt) return null;
+
+  const existing = await tx.lesson.findMany({
+    where: {
+      classId: { in: draft.classes.map((item) => item.id) },
+      ...runningLessons(),
+    },
+    include: {
+      _count: { select: { exams: true, assignments: true, attendances: true } },
+    },
+  });
+
+  const plan: DraftCommitPlan = {
+    update: [],
+    replace: [],
+    create: [],
+    remove: [],
+    blocked: [],
+  };
+  const unmatched = [...existing];
+  const hasHistory = (lesson: (typeof existing)[number]) =>
+    !!(
+      lesson._count.exams ||
+      lesson._count.assignments ||
+      lesson._count.attendances
+    );
+
+  for (const draftLesson of draft.lessons) {
+    const sameSubject = unmatched.filter(
+      (lesson) =>
+        lesson.classId === draftLesson.classId &&
+        lesson.subjectId === draftLesson.subjectId
+    );
+    const match =
+      sameSubject.find((lesson) => lesson.teacherId === draftLesson.teacherId) ??
+      sameSubject[0];
+
+    if (match) {
+      unmatched.splice(unmatched.indexOf(match), 1);
+      const moves =
+        match.day !== draftLesson.day ||
+        match.periodId !== draftLesson.periodId ||
+        match.teacherId !== draftLesson.teacherId ||
+        match.roomId !== draftLesson.roomId;
+      (moves && hasHistory(match) ? plan.replace : plan.update).push({
+        lessonId: match.id,
+        draftLessonId: draftLesson.id,
+      });
+    } else {
+      plan.create.push(draftLesson.id);
+    }
+  }
+
+  for (const lesson of unmatched) {
+    if (hasHistory(lesson)) {
+      plan.blocked.push({ lessonId: lesson.id, name: lesson.name });
+    } else {
+      plan.remove.push(lesson.id);
+    }
+  }
+
+  return plan;
+};
@@ -0,0 +1,272 @@
+import { Day } from "@prisma/client";
+
+// TIMETABLE GENERATION
+// Places every required period of every class into the weekly grid.
+// Hard constraints: a class, teacher or room is in one place per slot, teachers
+// only teach subjects they are qualified for and only when available.
+// Soft constraints: no more than two consecutive periods of a subject, and
+// a subject spread over the week rather than piled onto one day.
+
+type SlotKey = `${Day}-${number}`;
+
+export type SolverInput = {
+  days: Day[];
+  // In the order they happen during the day
+  periodIds: number[];
+  requirements: { classId: number; subjectId: number; hours: number }[];
+  teachers: { id: string; subjectIds: number[] }[];
+  roomIds: number[];
+  unavailable: { teacherId: string; day: Day; periodId: number }[];
+  // Slots already taken by lessons outside the generated classes
+  busy: { teacherId: string; roomId: number | null; day: Day; periodId: number }[];
+};
+
+export type PlacedLesson = {
+  classId: number;
+  subjectId: number;
+  teacherId: string;
+  roomId: number | null;
+  day: Day;
+  periodId: number;
+};
+
+export type UnplacedRequirement = {
+  classId: number;
+  subjectId: number;
+  hours: number;
+  reason: string;
+};
+
+export type SoftViolation = {
+  classId: number;
+  subjectId: number;
+  day: Day;
+  length: number;
+};
+
+export type SolverResult = {
+  lessons: PlacedLesson[];
+  unplaced: UnplacedRequirement[];
+  penalty: number;
+};
+
+const MAX_CONSECUTIVE = 2;
+const ATTEMPTS = 30;
+
+const slotKey = (day: Day, periodId: number): SlotKey => `${day}-${periodId}`;
+
+// Small seeded generator so the same input always gives the same draft
+const createRandom = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+// Runs of the same subject longer than allowed, per class and day
+export const findSoftViolations = (
+  lessons: Pick<PlacedLesson, "classId" | "subjectId" | "day" | "periodId">[],
+  periodIds: number[]
+): SoftViolation[] => {
+  const violations: SoftViolation[] = [];
+  const byClassDay = new Map<string, Map<number, number>>();
+
+  for (const lesson of lessons) {
+    const key = `${lesson.classId}-${lesson.day}`;
+    const row = byClassDay.get(key) ?? new Map<number, number>();
+    row.set(periodIds.indexOf(lesson.periodId), lesson.subjectId);
+    byClassDay.set(key, row);
+  }
+
+  byClassDay.forEach((row, key) => {
+    const [classId, day] = key.split("-");
+    let run = 0;
+    for (let i = 0; i <= periodIds.length; i++) {
+      const subjectId = row.get(i);
+      if (subjectId !== undefined && subjectId === row.get(i - 1)) {
+        run++;
+      } else {
+        if (run > MAX_CONSECUTIVE) {
+          violations.push({
+            classId: Number(classId),
+            subjectId: row.get(i - 1)!,
+            day: day as Day,
+            length: run,
+          });
+        }
+        run = subjectId === undefined ? 0 : 1;
+      }
+    }
+  });
+
+  return violations;
+};
+
+const countPenalty = (lessons: PlacedLesson[], periodIds: number[]) =>
+  findSoftViolations(lessons, periodIds).reduce(
+    (sum, violation) => sum + violation.length - MAX_CONSECUTIVE,
+    0
+  );
+
+const solveOnce = (input: SolverInput, random: () => number): SolverResult => {
+  const { days, periodIds } = input;
+
+  const teacherBusy = new Set<string>();
+  const roomBusy = new Set<string>();
+  const classBusy = new Set<string>();
+  // Subject per class slot, to score consecutive runs while placing
+  const classSubject = new Map<string, number>();
+  const teacherLoad = new Map<string, number>();
+
+  for (const slot of input.busy) {
+    teacherBusy.add(`${slot.teacherId}-${slotKey(slot.day, slot.periodId)}`);
+    if (slot.roomId) {
+      roomBusy.add(`${slot.roomId}-${slotKey(slot.day, slot.periodId)}`);
+    }
+  }
+  for (const slot of input.unavailable) {
+    teacherBusy.add(`${slot.teacherId}-${slotKey(slot.day, slot.periodId)}`);
+  }
+
+  const freeSlots = (teacherId: string) =>
+    days.reduce(
+      (count, day) =>
+        count +
+        periodIds.filter(
+          (periodId) => !teacherBusy.has(`${teacherId}-${slotKey(day, periodId)}`)
+        ).length,
+      0
+    );
+
+  const qualified = (subjectId: number) =>
+    input.teachers.filter((teacher) => teacher.subjectIds.includes(subjectId));
+
+  // Hardest first: fewest qualified teachers, then most hours, ties shuffled
+  const requirements = input.requirements
+    .filter((requirement) => requirement.hours > 0)
+    .map((requirement) => ({ requirement, tiebreak: random() }))
+    .sort(
+      (a, b) =>
+        qualified(a.requirement.subjectId).length -
+          qualified(b.requirement.subjectId).length ||
+        b.requirement.hours - a.requirement.hours ||
+        a.tiebreak - b.tiebreak
+    )
+    .map(({ requirement }) => requirement);
+
+  const lessons: PlacedLesson[] = [];
+  const unplaced: UnplacedRequirement[] = [];
+
+  const slotCost = (classId: number, subjectId: number, day: Day, index: number) => {
+    const subjectAt = (i: number) =>
+      classSubject.get(`${classId}-${slotKey(day, periodIds[i])}`);
+
+    let before = 0;
+    while (subjectAt(index - 1 - before) === subjectId) before++;
+    let after = 0;
+    while (subjectAt(index + 1 + after) === subjectId) after++;
+
+    const sameDay = periodIds.filter((_, i) => subjectAt(i) === subjectId).length;
+    const run = before + after + 1;
+
+    return (run > MAX_CONSECUTIVE ? 10 * (run - MAX_CONSECUTIVE) : 0) + 3 * sameDay;
+  };
+
+  for (const { classId, subjectId, hours } of requirements) {
+    const candidates = qualified(subjectId);
+
+    if (!candidates.length) {
+      unplaced.push({ classId, subjectId, hours, reason: "No qualified teacher" });
+      continue;
+    }
+
+    // The least loaded teacher takes the class's hours of the subject. When
+    // they run out of free periods the next one takes the rest, so a subject
+    // may be split between teachers rather than left unplaced.
+    const ranked = candidates
+      .map((teacher) => ({
+        id: teacher.id,
+        load: teacherLoad.get(teacher.id) ?? 0,
+        free: freeSlots(teacher.id),
+        tiebreak: random(),
+      }))
+      .sort((a, b) => a.load - b.load || b.free - a.free || a.tiebreak - b.tiebreak);
+
+    let remaining = hours;
+
+    for (const teacher of ranked) {
+      while (remaining > 0) {
+        let best: { day: Day; index: number; cost: number } | null = null;
+
+        for (const day of days) {
+          periodIds.forEach((periodId, index) => {
+            const key = slotKey(day, periodId);
+            if (
+              classBusy.has(`${classId}-${key}`) ||
+              teacherBusy.has(`${teacher.id}-${key}`)
+            ) {
+              return;
+            }
+            const cost = slotCost(classId, subjectId, day, index) + random();
+            if (!best || cost < best.cost) best = { day, index, cost };
+          });
+        }
+
+        if (!best) break;
+
+        const { day, index } = best as { day: Day; index: number };
+        const periodId = periodIds[index];
+        const key = slotKey(day, periodId);
+        const roomId =
+          input.roomIds.find((roomId) => !roomBusy.has(`${roomId}-${key}`)) ??
+          null;
+
+        classBusy.add(`${classId}-${key}`);
+        teacherBusy.add(`${teacher.id}-${key}`);
+        if (roomId) roomBusy.add(`${roomId}-${key}`);
+        classSubject.set(`${classId}-${key}`, subjectId);
+        teacherLoad.set(teacher.id, (teacherLoad.get(teacher.id) ?? 0) + 1);
+
+        lessons.push({ classId, subjectId, teacherId: teacher.id, roomId, day, periodId });
+        remaining--;
+      }
+
+      if (!remaining) break;
+    }
+
+    if (remaining) {
+      unplaced.push({
+        classId,
+        subjectId,
+        hours: remaining,
+        reason: "No free slot for the class and a qualified teacher",
+      });
+    }
+  }
+
+  return { lessons, unplaced, penalty: countPenalty(lessons, periodIds) };
+};
+
+// Greedy placement repeated with different tie-breaks, keeping the draft
+// with the fewest unplaced periods and then the fewest soft violations
+export const solveTimetable = (input: SolverInput): SolverResult => {
+  const random = createRandom(42);
+  let best: SolverResult | null = null;
+
+  const missing = (result: SolverResult) =>
+    result.unplaced.reduce((sum, item) => sum + item.hours, 0);
+
+  for (let attempt = 0; attempt < ATTEMPTS; attempt++) {
+    const result = solveOnce(input, random);
+    if (
+      !best ||
+      missing(result) < missing(best) ||
+      (missing(result) === missing(best) && result.penalty < best.penalty)
+    ) {
+      best = result;
+    }
+    if (!missing(best) && !best.penalty) break;
+  }
+
+  return best!;
+};
@@ -0,0 +1,187 @@
+import { Prisma } from "@prisma/client";
+import prisma from "./prisma";
+import { toDateOnly } from "./utils";
+
+// TRASH
+// Classes, teachers and students are moved to the trash instead of being
+// deleted, so everything that refers to them keeps working and they can be
+// restored. Before that the admin sees what depends on the record and decides
+// for each group whether it moves to another record or is archived with it.
+
+export type TrashEntity = "class" | "teacher" | "student";
+
+type Option = { id: number | string; name: string };
+
+// A group of records the admin decides about when deleting
+export type DependentGroup = {
+  key: string;
+  label: string;
+  count: number;
+  // Moving them needs somewhere to go
+  moveLabel: string;
+  options: Option[];
+  archiveLabel: string;
+};
+
+export type DeleteImpact = {
+  name: string;
+  dependents: DependentGroup[];
+  // Stays attached to the record in the trash and comes back with it
+  kept: { label: string; count: number }[];
+};
+
+// Lessons that haven't ended. Ended lessons stay where they were, with their
+// attendance.
+export const runningLessons = (): Prisma.LessonWhereInput => ({
+  OR: [{ validUntil: null }, { validUntil: { gte: toDateOnly(new Date()) } }],
+});
+
+const fullName = (person: { name: string; surname: string }) =>
+  `${person.name} ${person.surname}`;
+
+const plural = (count: number, noun: string) =>
+  `${count} ${noun}${count === 1 ? "" : noun.endsWith("s") ? "es" : "s"}`;
+
+const getClassImpact = async (id: number): Promise<DeleteImpact | null> => {
+  const classItem = await prisma.class.findUnique({
+    where: { id },
+    include: {
+      _count: {
+        select: {
+          students: { where: { deletedAt: null } },
+          lessons: { where: runningLessons() },
+          events: true,
+          reportCards: true,
+        },
+      },
+    },
+  });
+  if (!classItem) return null;
+
+  // Students and lessons move within the same academic year
+  const otherClasses = await prisma.class.findMany({
+    where: {
+      id: { not: id },
+      academicYearId: classItem.academicYearId,
+      deletedAt: null,
+    },
+    select: { id: true, name: true },
+    orderBy: { name: "asc" },
+  });
+  const { _count } = classItem;
+
+  return {
+    name: `class ${classItem.name}`,
+    dependents: [
+      {
+        key: "students",
+        label: plural(_count.students, "student"),
+        count: _count.students,
+        moveLabel: "Move them to class",
+        options: otherClasses,
+        archiveLabel: "Move them to the trash too",
+      },
+      {
+        key: "lessons",
+        label: plural(_count.lessons, "running lesson"),
+        count: _count.lessons,
+        moveLabel: "Move them to class",
+        options: otherClasses,
+        archiveLabel: "End them today",
+      },
+    ].filter((group) => group.count),
+    kept: [
+      { label: "events", count: _count.events },
+      { label: "report cards", count: _count.reportCards },
+    ],
+  };
+};
+
+const getTeacherImpact = async (id: string): Promise<DeleteImpact | null> => {
+  const teacher = await prisma.teacher.findUnique({
+    where: { id },
+    include: {
+      _count: {
+        select: {
+          lessons: { where: runningLessons() },
+          classes: { where: { deletedAt: null } },
+          absences: true,
+          reportComments: true,
+        },
+      },
+    },
+  });
+  if (!teacher) return null;
+
+  const otherTeachers = (
+    await prisma.teacher.findMany({
+      where: { id: { not: id }, deletedAt: null },
+      select: { id: true, name: true, surname: true },
+      orderBy: [{ surname: "asc" }, { name: "asc" }],
+    })
+  ).map((item) => ({ id: item.id, name: fullName(item) }));
+  const { _count } = teacher;
+
+  return {
+    name: fullName(teacher),
+    dependents: [
+      {
+        key: "lessons",
+        label: plural(_count.lessons, "running lesson"),
+        count: _count.lessons,
+        moveLabel: "Give them to",
+        options: otherTeachers,
+        archiveLabel: "End them today",
+      },
+      {
+        key: "classes",
+        label: `${plural(_count.classes, "class")} supervised`,
+        count: _count.classes,
+        moveLabel: "New supervisor",
+        options: otherTeachers,
+        archiveLabel: "Leave them without a supervisor",
+      },
+    ].filter((group) => group.count),
+    kept: [
+      { label: "absences", count: _count.absences },
+      { label: "report card comments", count: _count.reportComments },
+    ],
+  };
+};
+
+const getStudentImpact = async (id: string): Promise<DeleteImpact | null> => {
+  const student = await prisma.student.findUnique({
+    where: { id },
+    include: {
+      _count: {
+        select: { results: true, attendances: true, reportCards: true },
+      },
+    },
+  });
+  if (!student) return null;
+
+  return {
+    name: fullName(student),
+    dependents: [],
+    kept: [
+      { label: "results", count: student._count.results },
+      { label: "attendance records", count: student._count.attendances },
+      { label: "report cards", count: student._count.reportCards },
+    ],
+  };
+};
+
+export const getDeleteImpact = (entity: TrashEntity, id: number | string) => {
+  switch (entity) {
+    case "class":
+      return getClassImpact(Number(id));
+    case "teacher":
+      return getTeacherImpact(String(id));
+    case "student":
+      return getStudentImpact(String(id));
+  }
+};
+
+// Permanent deletes fail while other records refer to the row
+export const isStillReferenced = (err: unknown) =>
+  err instanceof Prisma.PrismaClientKnownRequestError && err.code === "P2003";
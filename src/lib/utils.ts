@@ -1,45 +1,62 @@
-// IT APPEARS THAT BIG CALENDAR SHOWS THE LAST WEEK WHEN THE CURRENT DAY IS A WEEKEND.
-// FOR THIS REASON WE'LL GET THE LAST WEEK AS THE REFERENCE WEEK.
-// IN THE TUTORIAL WE'RE TAKING THE NEXT WEEK AS THE REFERENCE WEEK.
+// LESSONS REPEAT WEEKLY. THEIR START AND END TIMES ARE STORED AS DATES IN THE
+// WEEK THEY WERE SET UP, ONLY THE TIME OF DAY MATTERS. CALENDARS EXPAND THEM
+// INTO REAL OCCURRENCES (SEE schedule.ts).
 
 const getLatestMonday = (): Date => {
   const today = new Date();
   const dayOfWeek = today.getDay();
   const daysSinceMonday = dayOfWeek === 0 ? 6 : dayOfWeek - 1;
-  const latestMonday = today;
-  latestMonday.setDate(today.getDate() - daysSinceMonday);
-  return latestMonday;
+  return new Date(
+    today.getFullYear(),
+    today.getMonth(),
+    today.getDate() - daysSinceMonday
+  );
 };
 
-export const adjustScheduleToCurrentWeek = (
-  lessons: { title: string; start: Date; end: Date }[]
-): { title: string; start: Date; end: Date }[] => {
-  const latestMonday = getLatestMonday();
+// ATTENDANCE IS RECORDED PER LESSON OCCURRENCE, KEYED BY DAY (MIDNIGHT UTC).
 
-  return lessons.map((lesson) => {
-    const lessonDayOfWeek = lesson.start.getDay();
+export const lessonDays = [
+  "MONDAY",
+  "TUESDAY",
+  "WEDNESDAY",
+  "THURSDAY",
+  "FRIDAY",
+] as const;
 
-    const daysFromMonday = lessonDayOfWeek === 0 ? 6 : lessonDayOfWeek - 1;
+export const toDateOnly = (date: Date): Date =>
+  new Date(
+    Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate())
+  );
 
-    const adjustedStartDate = new Date(latestMonday);
+export const getLessonDay = (
+  date: Date
+): (typeof lessonDays)[number] | null => {
+  const dayOfWeek = date.getUTCDay();
+  return dayOfWeek >= 1 && dayOfWeek <= 5 ? lessonDays[dayOfWeek - 1] : null;
+};
 
-    adjustedStartDate.setDate(latestMonday.getDate() + daysFromMonday);
-    adjustedStartDate.setHours(
-      lesson.start.getHours(),
-      lesson.start.getMinutes(),
-      lesson.start.getSeconds()
-    );
-    const adjustedEndDate = new Date(adjustedStartDate);
-    adjustedEndDate.setHours(
-      lesson.end.getHours(),
-      lesson.end.getMinutes(),
-      lesson.end.getSeconds()
+// TIMETABLE PERIODS ARE "HH:mm" STRINGS, PLACED ON THE LESSON'S DAY OF THE
+// CURRENT WEEK WHEN A LESSON IS SAVED.
+
+export const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+};
+
+export const getPeriodTimes = (
+  day: (typeof lessonDays)[number],
+  period: { startTime: string; endTime: string }
+) => {
+  const monday = getLatestMonday();
+
+  const at = (time: string) =>
+    new Date(
+      monday.getFullYear(),
+      monday.getMonth(),
+      monday.getDate() + lessonDays.indexOf(day),
+      0,
+      toMinutes(time)
     );
 
-    return {
-      title: lesson.title,
-      start: adjustedStartDate,
-      end: adjustedEndDate,
-    };
-  });
+  return { startTime: at(period.startTime), endTime: at(period.endTime) };
 };
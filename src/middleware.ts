@@ -1,22 +1,15 @@
-import { clerkMiddleware, createRouteMatcher } from "@clerk/nextjs/server";
-import { routeAccessMap } from "./lib/settings";
+import { clerkMiddleware } from "@clerk/nextjs/server";
+import { getRoleFromClaims, routeMatchers } from "./lib/roles";
 import { NextResponse } from "next/server";
 
-const matchers = Object.keys(routeAccessMap).map((route) => ({
-  matcher: createRouteMatcher([route]),
-  allowedRoles: routeAccessMap[route],
-}));
-
-console.log(matchers);
-
 export default clerkMiddleware((auth, req) => {
   // if (isProtectedRoute(req)) auth().protect()
 
   const { sessionClaims } = auth();
 
-  const role = (sessionClaims?.metadata as { role?: string })?.role;
+  const role = getRoleFromClaims(sessionClaims);
 
-  for (const { matcher, allowedRoles } of matchers) {
+  for (const { matcher, allowedRoles } of routeMatchers) {
     if (matcher(req) && !allowedRoles.includes(role!)) {
       return NextResponse.redirect(new URL(`/${role}`, req.url));
     }